@@ -0,0 +1,168 @@
+/**
+ * Headless benchmark for the chunked world renderer.
+ *
+ * Builds a 512×512 map, sweeps a full-HD camera across it at several zoom
+ * levels and reports how much canvas memory the renderer actually allocated,
+ * next to what one full-size canvas per layer would have cost.
+ *
+ *   npm run bench:chunks
+ */
+import { loadWorldMap, setCanvasFactory, type WorldLayerName } from "../src/components/world/map";
+import { MAP_FORMAT_VERSION, type MapDef } from "../src/components/world/mapFormat";
+
+const SIDE = 512;
+const VIEW_W = 1920;
+const VIEW_H = 1080;
+const ZOOMS = [2, 1, 0.5, 0.25, 0.1];
+const STEPS_PER_PASS = 24;
+const WALK_FRAMES = 3000;
+const WALK_PX_PER_FRAME = 4;
+/** Fails the run when live canvas memory ever goes above this */
+const BUDGET_BYTES = 128 * 1024 * 1024;
+
+// === FAKE CANVAS ===
+let liveBytes = 0;
+let peakBytes = 0;
+let canvases = 0;
+
+const noop = () => { };
+const fakeCtx = new Proxy({} as Record<string | symbol, unknown>, {
+    get: (target, key) => (key in target ? target[key] : noop),
+    set: (target, key, value) => { target[key] = value; return true; },
+}) as unknown as CanvasRenderingContext2D;
+
+class FakeCanvas {
+    private w = 0;
+    private h = 0;
+
+    constructor(w: number, h: number) {
+        canvases++;
+        this.resize(w, h);
+    }
+
+    get width() { return this.w; }
+    set width(v: number) { this.resize(v, this.h); }
+    get height() { return this.h; }
+    set height(v: number) { this.resize(this.w, v); }
+
+    getContext() { return fakeCtx; }
+
+    private resize(w: number, h: number) {
+        liveBytes += (w * h - this.w * this.h) * 4;
+        peakBytes = Math.max(peakBytes, liveBytes);
+        this.w = w;
+        this.h = h;
+    }
+}
+
+setCanvasFactory((w, h) => new FakeCanvas(w, h));
+
+// === SYNTHETIC MAP (office tile ids) ===
+function makeMap(side: number): MapDef {
+    const grid = () => Array.from({ length: side }, () => new Array<number>(side).fill(0));
+    const floor = grid();
+    const wall = grid();
+    const object = grid();
+    const top = grid();
+    for (let r = 0; r < side; r++) {
+        for (let c = 0; c < side; c++) {
+            floor[r][c] = (r >> 4) % 2 === (c >> 4) % 2 ? 1 : 2;
+            // 16×16 rooms with a gap in every wall
+            const onWall = r % 16 === 0 || c % 16 === 0;
+            const gap = (r % 16 === 8 && c % 16 === 0) || (c % 16 === 8 && r % 16 === 0);
+            if (onWall && !gap) wall[r][c] = 5;
+            if (!onWall && r % 4 === 2 && c % 5 === 2) object[r][c] = 102;
+            if (!onWall && r % 16 === 1 && c % 3 === 0) top[r][c] = 11;
+        }
+    }
+    return {
+        version: MAP_FORMAT_VERSION,
+        id: "bench",
+        name: `Bench ${side}×${side}`,
+        cols: side,
+        rows: side,
+        layers: { floor, wall, object, top },
+        spawns: [{ c0: 1, r0: 1, c1: 2, r1: 2 }],
+        doors: { closed: 20, open: 22, topClosed: 19, topOpen: 21 },
+    };
+}
+
+const mb = (n: number) => `${(n / 1024 / 1024).toFixed(1)} MB`;
+
+async function main() {
+    const world = await loadWorldMap(makeMap(SIDE));
+    const layers: WorldLayerName[] = ["floor", "shadow", "wall", "object", "over"];
+    const fullBytes = layers.length * world.width * world.height * 4;
+
+    console.log(`map ${SIDE}×${SIDE} tiles (${world.width}×${world.height} px), view ${VIEW_W}×${VIEW_H}`);
+    console.log(`full-canvas renderer would need ${mb(fullBytes)}\n`);
+    console.log("zoom   frames  built  evicted  live chunks  canvas mem   ms/frame");
+
+    for (const z of ZOOMS) {
+        const vpW = Math.min(VIEW_W / z, world.width);
+        const vpH = Math.min(VIEW_H / z, world.height);
+        const destW = Math.floor(vpW * z);
+        const destH = Math.floor(vpH * z);
+        const before = world.chunkStats();
+        let frames = 0;
+        const t0 = performance.now();
+
+        // serpentine sweep so every part of the map scrolls past the camera
+        for (let i = 0; i <= STEPS_PER_PASS; i++) {
+            const camY = ((world.height - vpH) * i) / STEPS_PER_PASS;
+            for (let j = 0; j <= STEPS_PER_PASS; j++) {
+                const t = i % 2 === 0 ? j : STEPS_PER_PASS - j;
+                const camX = ((world.width - vpW) * t) / STEPS_PER_PASS;
+                for (const layer of layers) {
+                    world.drawLayer(fakeCtx, layer, camX, camY, vpW, vpH, 0, 0, destW, destH);
+                }
+                frames++;
+            }
+            // doors toggling mid-sweep must only repaint their chunks
+            world.invalidateTile(8 * 16, i * 16);
+        }
+
+        const ms = (performance.now() - t0) / frames;
+        const st = world.chunkStats();
+        console.log(
+            `${String(z).padEnd(6)} ${String(frames).padStart(6)} ${String(st.built - before.built).padStart(6)}` +
+            ` ${String(st.evicted - before.evicted).padStart(8)} ${String(st.live).padStart(12)}` +
+            ` ${mb(liveBytes).padStart(11)} ${ms.toFixed(2).padStart(10)}`
+        );
+    }
+
+    // walking pace: chunks are built once and reused while they stay in view
+    {
+        const z = 2;
+        const vpW = VIEW_W / z;
+        const vpH = VIEW_H / z;
+        const before = world.chunkStats();
+        const t0 = performance.now();
+        for (let f = 0; f < WALK_FRAMES; f++) {
+            const camX = Math.min(world.width - vpW, f * WALK_PX_PER_FRAME);
+            const camY = Math.min(world.height - vpH, f * WALK_PX_PER_FRAME * 0.5);
+            for (const layer of layers) {
+                world.drawLayer(fakeCtx, layer, camX, camY, vpW, vpH, 0, 0, VIEW_W, VIEW_H);
+            }
+        }
+        const st = world.chunkStats();
+        console.log(
+            `\nwalk at zoom ${z}: ${WALK_FRAMES} frames, ${st.built - before.built} chunks built,` +
+            ` ${((performance.now() - t0) / WALK_FRAMES).toFixed(2)} ms/frame`
+        );
+    }
+
+    console.log(`\npeak canvas memory ${mb(peakBytes)} across ${canvases} canvases (budget ${mb(BUDGET_BYTES)})`);
+    world.dispose();
+    console.log(`after dispose ${mb(liveBytes)}`);
+
+    if (peakBytes > BUDGET_BYTES || liveBytes !== 0) {
+        console.error("FAIL: chunk renderer exceeded its memory budget");
+        process.exit(1);
+    }
+}
+
+main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+});
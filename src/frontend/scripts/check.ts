@@ -0,0 +1,19 @@
+/**
+ * What every sim reports through: one line per check, then a summary or the
+ * number that failed (and exit code 1, which stops `npm test`).
+ */
+let failures = 0;
+
+export const check = (name: string, ok: boolean, detail = "") => {
+    console.log(`${ok ? "ok  " : "FAIL"} ${name}${detail ? `  (${detail})` : ""}`);
+    if (!ok) failures++;
+};
+
+/** End of a sim: `summary` if every check passed */
+export const done = (summary: string) => {
+    if (failures) {
+        console.error(`\n${failures} check(s) failed`);
+        process.exit(1);
+    }
+    console.log(`\n${summary}`);
+};
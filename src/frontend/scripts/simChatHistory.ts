@@ -0,0 +1,77 @@
+/**
+ * Headless checks for chat history (src/lib/chat/history.ts).
+ *
+ * A fake canister pages a room's history by cursor the way ChatService.mo
+ * does; the checks page back through it, merge pages with live lines
+ * (same id kept once, live order untouched), start over after a reset, and
+ * follow the host turning history off.
+ *
+ *   npm run sim:chat-history
+ */
+import { appendChatLine, createChatHistory, mergeChatHistory, type ChatLine, type HistoryPage } from "../src/lib/chat/history";
+import { check, done } from "./check";
+
+const line = (id: string, ts: number, from = "room-a"): ChatLine => ({ id, fromPeerId: from, label: from, text: id, ts, self: false });
+const ids = (lines: ChatLine[]) => lines.map((l) => l.id).join(",");
+
+/** What the canister keeps: seq-numbered lines, oldest first */
+const stored = Array.from({ length: 120 }, (_, i) => ({ seq: i, line: line(`m${i}`, 1000 + i * 10) }));
+let enabled = true;
+let fetches = 0;
+const fetchPage = async (before: number | null, limit: number): Promise<HistoryPage<ChatLine>> => {
+    fetches++;
+    await new Promise((r) => setTimeout(r, 2));
+    if (!enabled) return { lines: [], next: null, enabled };
+    let end = stored.length;
+    if (before !== null) while (end > 0 && stored[end - 1].seq >= before) end--;
+    const start = Math.max(0, end - limit);
+    return { lines: stored.slice(start, end).map((s) => s.line), next: start > 0 ? stored[start].seq : null, enabled };
+};
+
+// === PAGING BACK ===
+const history = createChatHistory<ChatLine>({ fetchPage, pageSize: 50 });
+const latest = await history.older();
+check("latest page first", ids(latest ?? []) === ids(stored.slice(70).map((s) => s.line)) && history.enabled === true);
+const [p2, p2again] = await Promise.all([history.older(), history.older()]);
+check("one fetch per page, however often asked", p2 === p2again && fetches === 2);
+check("second page is the 50 before", p2?.[0].id === "m20" && p2[49].id === "m69");
+const p3 = await history.older();
+check("last page is what's left", p3?.length === 20 && history.done);
+check("nothing past the start", (await history.older()) === null && fetches === 3);
+
+// === MERGING WITH LIVE LINES ===
+let panel: ChatLine[] = [];
+panel = appendChatLine(panel, line("m118", 2175));
+panel = appendChatLine(panel, line("live1", 2500, "room-b"));
+panel = appendChatLine(panel, line("live1", 2500, "room-b"));
+check("live line twice: kept once", ids(panel) === "m118,live1");
+panel = mergeChatHistory(panel, latest!);
+check("history merged under the live lines, no duplicates",
+    panel.length === 51 && panel[0].id === "m70" && panel.filter((l) => l.id === "m118").length === 1 && panel[50].id === "live1");
+const skewed = appendChatLine(panel, line("late-clock", 100, "room-c"));
+check("a live line with a slow clock still goes at the bottom", skewed[skewed.length - 1].id === "late-clock");
+const more = mergeChatHistory(skewed, p2!);
+check("older page goes on top, live order untouched", more[0].id === "m20" && more[more.length - 1].id === "late-clock");
+check("page with nothing new: same list back", mergeChatHistory(more, p2!) === more);
+check("cap keeps the newest", appendChatLine(more, line("x", 9999), 10).length === 10);
+
+// === RESET ===
+history.reset();
+check("reset: pages again from the latest", !history.done && (await history.older())?.[0].id === "m70");
+const inflight = history.older();
+history.reset();
+check("page asked for before a reset is dropped", (await inflight) === null);
+
+// === HOST TURNS HISTORY OFF ===
+enabled = false;
+const off = createChatHistory<ChatLine>({ fetchPage });
+check("history off: nothing, and it says so", (await off.older())?.length === 0 && off.enabled === false && off.done);
+
+const broken = createChatHistory<ChatLine>({ fetchPage: async () => { throw new Error("canister down"); } });
+const warn = console.warn;
+console.warn = () => { };
+const failed = await broken.older();
+console.warn = warn;
+check("failed page: null, can try again", failed === null && !broken.done && !broken.loading);
+
+done("chat history ok");
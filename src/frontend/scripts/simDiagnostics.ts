@@ -0,0 +1,74 @@
+/**
+ * Headless checks for connection diagnostics (src/lib/net/diagnostics.ts).
+ *
+ * Feeds the sampler fake getStats() reports, Chrome-shaped and Firefox-shaped,
+ * and checks rates between samples, loss, the candidate pair, the codec,
+ * data-channel-only peers and the signal bars.
+ *
+ *   npm run sim:diagnostics
+ */
+import { createDiagnosticsSampler, signalLevel } from "../src/lib/net/diagnostics";
+import { check, done } from "./check";
+
+type Counters = { bytesIn: number; bytesOut: number; packetsIn: number; lost: number };
+
+/** A call's stats: relay on our end, opus in, the counters given */
+const callReport = (c: Counters, opts: { firefox?: boolean; rtt?: number } = {}) => {
+    const entries: Array<[string, any]> = [
+        ["L", { id: "L", type: "local-candidate", candidateType: "relay", protocol: "udp", relayProtocol: "tls", address: "203.0.113.7" }],
+        ["R", { id: "R", type: "remote-candidate", candidateType: "srflx", protocol: "udp", address: "198.51.100.9" }],
+        ["P", { id: "P", type: "candidate-pair", localCandidateId: "L", remoteCandidateId: "R", state: "succeeded", nominated: true, selected: !!opts.firefox, currentRoundTripTime: 0.042 }],
+        ["C", { id: "C", type: "codec", mimeType: "audio/opus" }],
+        ["I", { id: "I", type: "inbound-rtp", kind: "audio", codecId: "C", bytesReceived: c.bytesIn, packetsReceived: c.packetsIn, packetsLost: c.lost, jitter: 0.012 }],
+        ["O", { id: "O", type: "outbound-rtp", kind: "audio", bytesSent: c.bytesOut }],
+        ["RI", { id: "RI", type: "remote-inbound-rtp", kind: "audio", roundTripTime: (opts.rtt ?? 60) / 1000 }],
+    ];
+    if (!opts.firefox) entries.push(["T", { id: "T", type: "transport", selectedCandidatePairId: "P" }]);
+    return new Map(entries);
+};
+
+const pcOf = (next: () => Map<string, any>) =>
+    ({ connectionState: "connected", getStats: async () => next() }) as unknown as RTCPeerConnection;
+
+let now = 0;
+const sampler = createDiagnosticsSampler(() => now);
+
+// === A CALL, TWO SAMPLES ===
+let counters: Counters = { bytesIn: 10_000, bytesOut: 8_000, packetsIn: 500, lost: 0 };
+const call = pcOf(() => callReport(counters));
+const first = await sampler.sample("alice", { media: call, buffered: { pos: 0, chat: undefined } });
+check("first sample: no rates yet", first.media?.inKbps === null && first.media?.lossPct === null);
+check("candidate pair, no addresses", first.pair?.linkType === "relay" && first.pair.relayProtocol === "tls"
+    && !JSON.stringify(first).includes("203.0.113.7"), JSON.stringify(first.pair));
+check("codec and jitter", first.media?.codec === "audio/opus" && first.media.jitterMs === 12);
+check("RTT from the call", first.media?.rttMs === 60 && first.rttMs === 42);
+check("buffered per label", first.buffered.pos === 0 && first.buffered.chat === null);
+
+now += 2000;
+counters = { bytesIn: 18_000, bytesOut: 16_000, packetsIn: 595, lost: 5 };
+const second = await sampler.sample("alice", { media: call });
+check("bitrates over the interval", second.media?.inKbps === 32 && second.media.outKbps === 32, `${second.media?.inKbps}/${second.media?.outKbps}`);
+check("loss over the interval", second.media?.lossPct === 5, String(second.media?.lossPct));
+check("5% loss costs bars", second.level === 3, String(second.level));
+
+// === FIREFOX, DATA CHANNEL ONLY ===
+const ff = await sampler.sample("bob", { data: pcOf(() => callReport(counters, { firefox: true })) });
+check("Firefox: pair found without transport stats", ff.pair?.linkType === "relay");
+check("channel only: no media numbers, RTT from the pair", ff.media === null && ff.rttMs === 42 && ff.level === 4);
+
+const none = await sampler.sample("carol", {});
+check("nothing to read: zero bars", none.level === 0 && none.pair === null);
+const closed = await sampler.sample("dave", { media: { connectionState: "closed", getStats: async () => { throw new Error("closed"); } } as unknown as RTCPeerConnection });
+check("closed connection is skipped", closed.media === null);
+
+// === BARS ===
+check("bad RTT and loss bottom out at one bar", signalLevel({ rttMs: 900, media: { rttMs: 900, jitterMs: 80, lossPct: 20, inKbps: 0, outKbps: 0, codec: null } }) === 1);
+check("clean link: four bars", signalLevel({ rttMs: 30, media: null }) === 4);
+
+// === FORGETTING ===
+sampler.retain(["bob"]);
+now += 2000;
+const again = await sampler.sample("alice", { media: call });
+check("forgotten peer starts over", again.media?.inKbps === null);
+
+done("diagnostics ok");
@@ -0,0 +1,78 @@
+/**
+ * Headless checks for direct messages (src/lib/chat/dm.ts).
+ *
+ * Adds lines to threads (once per id, unread unless on screen or ours),
+ * marks failed deliveries and reads, caps long threads, checks that a DM
+ * sealed to one pair of people doesn't open as another's, and keeps threads
+ * across a reload through a fake sessionStorage (per room and per person,
+ * junk left behind ignored).
+ *
+ *   npm run sim:dm
+ */
+import { generateRoomKey, openText, sealText } from "../src/lib/chat/e2e";
+import { addDmLine, dmContext, dmUnread, loadDmThreads, markDmRead, patchDmLine, saveDmThreads, type DmLine, type DmThreads } from "../src/lib/chat/dm";
+import { check, done } from "./check";
+
+const fakeStorage = (): Storage => {
+    const m = new Map<string, string>();
+    return {
+        get length() { return m.size; },
+        clear: () => m.clear(),
+        getItem: (k) => m.get(k) ?? null,
+        key: (i) => [...m.keys()][i] ?? null,
+        removeItem: (k) => { m.delete(k); },
+        setItem: (k, v) => { m.set(k, String(v)); },
+    };
+};
+
+// === THREADS ===
+let seq = 0;
+const line = (from: string, text: string, self = false): DmLine => ({ id: `d${++seq}`, from, text, ts: 1000 + seq, self });
+
+let threads: DmThreads = {};
+const hi = line("bob", "psst");
+threads = addDmLine(threads, "bob", hi, false);
+threads = addDmLine(threads, "bob", line("bob", "you there?"), false);
+threads = addDmLine(threads, "carol", line("carol", "hey"), false);
+check("incoming lines count unread per thread", threads.bob.unread === 2 && threads.carol.unread === 1 && dmUnread(threads) === 3);
+check("same line twice: same threads back", addDmLine(threads, "bob", hi, false) === threads);
+threads = addDmLine(threads, "bob", line("me", "yes", true), false);
+check("our own lines aren't unread", threads.bob.unread === 2 && threads.bob.lines.length === 3);
+threads = addDmLine(threads, "carol", line("carol", "on screen"), true);
+check("line in the thread on screen: not unread", threads.carol.unread === 1);
+
+threads = markDmRead(threads, "bob");
+check("reading a thread clears only its count", threads.bob.unread === 0 && dmUnread(threads) === 1);
+check("reading it again: same threads back", markDmRead(threads, "bob") === threads);
+
+const sent = threads.bob.lines[2];
+threads = patchDmLine(threads, "bob", sent.id, { failed: true });
+check("failed delivery marked on the line", threads.bob.lines[2].failed === true && threads.bob.lines[2].text === "yes");
+check("patching a line that isn't there: same threads back", patchDmLine(threads, "bob", "nope", { failed: true }) === threads);
+
+let long: DmThreads = {};
+for (let i = 0; i < 8; i++) long = addDmLine(long, "dave", line("dave", `#${i}`), true, 5);
+check("long threads keep the newest lines", long.dave.lines.length === 5 && long.dave.lines[0].text === "#3");
+
+// === SEALED TO BOTH ENDS ===
+const key = await generateRoomKey();
+const sealed = await sealText(key, 1, "just us", `room|1|${dmContext("d1", "alice", "bob")}`);
+const opens = (context: string) => openText(key, sealed, `room|1|${context}`).then(() => true, () => false);
+check("recipient opens it", await opens(dmContext("d1", "alice", "bob")));
+check("as if sent to someone else: refused", !(await opens(dmContext("d1", "alice", "carol"))));
+check("as if from someone else: refused", !(await opens(dmContext("d1", "mallory", "bob"))));
+
+// === SESSION STORAGE ===
+const storage = fakeStorage();
+saveDmThreads("room", "alice", threads, storage);
+const back = loadDmThreads("room", "alice", storage);
+check("threads come back after a reload", JSON.stringify(back) === JSON.stringify(threads));
+check("other room or person: nothing", Object.keys(loadDmThreads("room2", "alice", storage)).length === 0
+    && Object.keys(loadDmThreads("room", "bob", storage)).length === 0);
+storage.setItem("pixeliy:dm:room:junk", '{"bob":{"lines":[{"id":1},{"id":"ok","text":"kept"}],"unread":"x"},"carol":null}');
+const junk = loadDmThreads("room", "junk", storage);
+check("junk: bad lines and threads dropped", junk.bob?.lines.length === 1 && junk.bob.unread === 0 && !junk.carol, JSON.stringify(junk));
+storage.setItem("pixeliy:dm:room:broken", "{not json");
+check("unreadable: empty", Object.keys(loadDmThreads("room", "broken", storage)).length === 0);
+
+done("dm ok");
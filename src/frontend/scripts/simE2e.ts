@@ -0,0 +1,167 @@
+/**
+ * Headless checks for encrypted chat (src/lib/chat/e2e.ts), on Node's WebCrypto.
+ *
+ * A fake canister keeps public keys and wrapped room keys the way
+ * KeyService.mo does; the checks seal and open lines, tamper with them,
+ * wrap keys between device key pairs, bring the first key up, share it with
+ * a newcomer, rotate it when someone leaves (the leaver can't read what
+ * follows), replace a wrap its recipient can't open, and open lines with no
+ * key as null rather than throwing.
+ *
+ *   npm run sim:e2e
+ */
+import {
+    createChatKeyring,
+    createDeviceKeys,
+    generateRoomKey,
+    loadDeviceKeys,
+    openText,
+    sealText,
+    sealedEpoch,
+    unwrapRoomKey,
+    wrapRoomKey,
+    type KeyDirectory,
+} from "../src/lib/chat/e2e";
+import { check, done } from "./check";
+
+const fails = async (p: Promise<unknown>) => p.then(() => false, () => true);
+
+// === SEALING ===
+const key = await generateRoomKey();
+const sealed = await sealText(key, 3, "hi there ✨", "room|3|m1|alice");
+check("sealed text carries its epoch, not the text", sealedEpoch(sealed) === 3 && !sealed.includes("hi there"));
+check("opens with the same key and binding", (await openText(key, sealed, "room|3|m1|alice")) === "hi there ✨");
+check("other binding (sender, id, room): refused", await fails(openText(key, sealed, "room|3|m1|mallory")));
+const [head, epoch, iv, ct] = sealed.split(".");
+const flipped = `${head}.${epoch}.${iv}.${ct.slice(0, 4)}${ct[4] === "A" ? "B" : "A"}${ct.slice(5)}`;
+check("tampered ciphertext: refused", await fails(openText(key, flipped, "room|3|m1|alice")));
+check("other key: refused", await fails(openText(await generateRoomKey(), sealed, "room|3|m1|alice")));
+check("plain text isn't sealed", sealedEpoch("just words") === null && sealedEpoch("e2e1.x.y.z") === null);
+
+// === WRAPPING ===
+const bobDevice = await createDeviceKeys();
+const eveDevice = await createDeviceKeys();
+const wrapped = await wrapRoomKey(key, bobDevice.publicKey, "room|3|bob");
+const unwrapped = await unwrapRoomKey(wrapped, bobDevice.privateKey, "room|3|bob");
+check("recipient unwraps the room key", (await openText(unwrapped, sealed, "room|3|m1|alice")) === "hi there ✨");
+check("someone else's device can't", await fails(unwrapRoomKey(wrapped, eveDevice.privateKey, "room|3|bob")));
+check("wrap for another principal can't be replayed", await fails(unwrapRoomKey(wrapped, bobDevice.privateKey, "room|3|eve")));
+check("no IndexedDB: a key pair for the page", !!(await loadDeviceKeys("alice", undefined)).publicKey);
+
+// === A ROOM, THROUGH THE FAKE CANISTER ===
+const participants = new Set<string>();
+const publicKeys = new Map<string, string>();
+let ring = { epoch: 0, rotate: false, wraps: [] as Array<{ epoch: number; to: string; key: string }> };
+let puts = 0;
+
+const directoryFor = (self: string): KeyDirectory => {
+    const member = () => { if (!participants.has(self)) throw new Error("NOT_IN_ROOM"); };
+    return {
+        async publishKey(k) { publicKeys.set(self, k); },
+        async publicKeys() {
+            member();
+            return [...participants].filter((p) => publicKeys.has(p)).map((p) => [p, publicKeys.get(p)!] as [string, string]);
+        },
+        async roomKeys() {
+            member();
+            const has = (p: string) => ring.wraps.some((w) => w.epoch === ring.epoch && w.to === p);
+            return {
+                epoch: ring.epoch,
+                rotate: ring.rotate,
+                mine: ring.wraps.filter((w) => w.to === self).map((w) => [w.epoch, w.key] as [number, string]),
+                missing: ring.epoch ? [...participants].filter((p) => publicKeys.has(p) && !has(p)) : [],
+            };
+        },
+        async putKeys(e, wraps, newKey) {
+            member();
+            puts++;
+            if (e !== (newKey ? ring.epoch + 1 : ring.epoch) || e === 0) return false;
+            const added = wraps.filter(([to]) => participants.has(to) && (newKey || !ring.wraps.some((w) => w.epoch === e && w.to === to)));
+            ring = { epoch: e, rotate: newKey ? false : ring.rotate, wraps: [...ring.wraps, ...added.map(([to, k]) => ({ epoch: e, to, key: k }))] };
+            return true;
+        },
+        async dropKey(e) {
+            member();
+            if (e !== ring.epoch) return;
+            ring = { ...ring, wraps: ring.wraps.filter((w) => !(w.epoch === e && w.to === self)) };
+        },
+    };
+};
+
+const keyringFor = async (self: string, shareWaitMs = 60_000) => {
+    participants.add(self);
+    return createChatKeyring({ roomId: "room", self, device: await createDeviceKeys(), directory: directoryFor(self), shareWaitMs, missSyncMs: 0 });
+};
+
+const alice = await keyringFor("alice");
+let changes = 0;
+alice.on("change", () => changes++);
+await alice.sync();
+check("first in: makes key 1", alice.epoch === 1 && ring.epoch === 1 && changes === 1);
+
+const bob = await keyringFor("bob");
+await bob.sync();
+check("newcomer waits for a holder to share", bob.epoch === 0 && (await bob.seal("x", "c")) === null);
+const putsBefore = puts;
+await Promise.all([alice.sync(), alice.sync()]);
+check("syncs asked for together run one after the other", puts === putsBefore + 1);
+await bob.sync();
+check("holder shares it: newcomer has key 1", bob.epoch === 1);
+
+const line = (await alice.seal("hello bob", "m2|alice"))!;
+check("newcomer reads the room", (await bob.open(line, "m2|alice")) === "hello bob");
+
+// === SOMEONE LEAVES ===
+const carol = await keyringFor("carol");
+await carol.sync();
+await alice.sync();
+await carol.sync();
+check("third member in on key 1", carol.epoch === 1);
+participants.delete("carol");
+ring.rotate = true; // what leaveRoom does
+await bob.sync();
+check("after a leave the next sync makes key 2", bob.epoch === 2 && ring.epoch === 2 && !ring.rotate);
+check("the leaver got no wrap of it", !ring.wraps.some((w) => w.epoch === 2 && w.to === "carol"));
+await alice.sync();
+const after = (await alice.seal("carol's gone", "m3|alice"))!;
+check("members still here read key 2", sealedEpoch(after) === 2 && (await bob.open(after, "m3|alice")) === "carol's gone");
+const warn = console.warn;
+console.warn = () => { }; // the miss sets off a sync, which the canister refuses
+check("the leaver can't: null, no throw", (await carol.open(after, "m3|alice")) === null);
+await carol.sync();
+console.warn = warn;
+check("and key 1 lines stay readable", (await bob.open(line, "m2|alice")) === "hello bob");
+
+// === TWO ROTATE AT ONCE ===
+ring.rotate = true;
+await Promise.all([alice.sync(), bob.sync()]);
+await Promise.all([alice.sync(), bob.sync()]);
+check("racing rotations settle on one key", alice.epoch === 3 && bob.epoch === 3 && ring.epoch === 3, `${alice.epoch}/${bob.epoch}/${ring.epoch}`);
+const fromAlice = (await alice.seal("who won?", "m5|alice"))!;
+const fromBob = (await bob.seal("not me", "m5|bob"))!;
+check("and each reads the other's line", (await bob.open(fromAlice, "m5|alice")) === "who won?" && (await alice.open(fromBob, "m5|bob")) === "not me");
+
+// === A WRAP THAT WON'T OPEN ===
+const bobDirectory = directoryFor("bob");
+await bobDirectory.putKeys(ring.epoch, [["mallory", "w1.junk"]], false);
+check("wraps for someone not in the room: dropped", !ring.wraps.some((w) => w.to === "mallory"));
+// bob on a new device: the old wrap was made for a key pair it doesn't have
+const bobAgain = createChatKeyring({ roomId: "room", self: "bob", device: await createDeviceKeys(), directory: bobDirectory, shareWaitMs: 60_000, missSyncMs: 0 });
+await bobAgain.sync();
+check("recipient takes down a wrap it can't open", bobAgain.epoch === 0 && !ring.wraps.some((w) => w.epoch === ring.epoch && w.to === "bob"));
+await alice.sync();
+await bobAgain.sync();
+const latest = (await alice.seal("new device?", "m4|alice"))!;
+check("a holder wraps it again: readable", bobAgain.epoch === ring.epoch && (await bobAgain.open(latest, "m4|alice")) === "new device?");
+bobAgain.close();
+
+// === NOBODY LEFT TO SHARE ===
+const dave = await keyringFor("dave", 0);
+participants.delete("alice");
+participants.delete("bob");
+await dave.sync();
+check("holders all gone: newcomer makes its own key", dave.epoch === 4);
+check("line from an epoch we never had: null", (await dave.open(after, "m3|alice")) === null);
+check("garbage: null", (await dave.open("e2e1.4.AAAA.AAAA", "x")) === null);
+
+done("e2e ok");
@@ -0,0 +1,180 @@
+/**
+ * Headless checks for file sharing (src/lib/files), on the in-memory transport.
+ *
+ * Two RoomSessions open the file channel only when a file is fetched, send
+ * one through in chunks and check it arrives whole; a channel whose buffer
+ * fills up (bufferedAmount) makes the sender wait; a channel dropped halfway
+ * resumes from where it got to; bad digests, unknown files, oversized files
+ * and cancels fail the way they should. Big files go through the local
+ * stand-in for the storage canister, encrypted, in chunks.
+ *
+ *   npm run sim:files
+ */
+import { decodeChatBody, encodeChatBody } from "../src/lib/chat/rich";
+import { createMemoryNetwork } from "../src/lib/net/memoryTransport";
+import { RoomSession } from "../src/lib/net/session";
+import { createEmitter, type Channel, type ChannelEvents } from "../src/lib/net/transport";
+import { createChunkedFileStore, createMemoryStorageApi, getSealed, putSealed } from "../src/lib/files/store";
+import { createFileTransfers, parseFileWire, sha256Hex, type FileMeta, type TransferProgress } from "../src/lib/files/transfer";
+import { check, done } from "./check";
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+const fails = (p: Promise<unknown>, code: string) => p.then(() => false, (e) => e instanceof Error && e.message === code);
+
+const randomBytes = (n: number) => {
+    const out = new Uint8Array(n);
+    for (let i = 0; i < n; i += 65536) crypto.getRandomValues(out.subarray(i, Math.min(n, i + 65536)));
+    return out;
+};
+
+const metaFor = async (id: string, bytes: Uint8Array<ArrayBuffer>, name = `${id}.bin`): Promise<FileMeta> =>
+    ({ id, name, size: bytes.length, mime: "application/octet-stream", sha256: await sha256Hex(bytes) });
+
+const same = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((v, i) => v === b[i]);
+
+// === TWO PEERS ===
+const FILE = "file";
+const net = createMemoryNetwork({ latencyMs: 4 });
+
+const peer = (id: string) => {
+    const session = new RoomSession(net.transport(), { selfId: id, labels: ["pos", "chat"], onDemand: [FILE], dialTimeoutMs: 500 });
+    const transfers = createFileTransfers({ connect: (p) => session.connect(p, FILE), stallMs: 250, resumeTries: 8, progressMs: 0 });
+    const progress: TransferProgress[] = [];
+    const asked: number[] = [];
+    session.subscribe(FILE, (from, data, ch) => {
+        const msg = parseFileWire(data);
+        if (msg?.t === "get") asked.push(msg.at);
+        transfers.handle(from, data, ch);
+    });
+    session.on("open", (pid, label) => { if (label === FILE) transfers.opened(pid); });
+    transfers.on("progress", (p) => progress.push(p));
+    return { id, session, transfers, progress, asked };
+};
+
+const alice = peer("room-alice");
+const bob = peer("room-bob");
+await Promise.all([alice.session.open(), bob.session.open()]);
+alice.session.dial(bob.id);
+await sleep(80);
+check("dialling opens the room's labels, not the file channel", alice.session.isOpen(bob.id, "chat") && !alice.session.channel(bob.id, FILE));
+check("on-demand labels only through connect()", alice.session.connect(bob.id, "pos") === undefined);
+
+const photo = randomBytes(300_000);
+const photoMeta = await metaFor("f1", photo, "photo.jpg");
+alice.transfers.share(photoMeta, photo);
+const got = await bob.transfers.fetch(alice.id, photoMeta);
+check("fetched file arrives whole", same(got, photo));
+check("the file channel opened for it", bob.session.isOpen(alice.id, FILE) && alice.session.isOpen(bob.id, FILE));
+const downs = bob.progress.filter((p) => p.dir === "down" && p.id === "f1");
+check("progress runs up to done", downs.at(-1)?.state === "done" && downs.some((p) => p.state === "active" && p.done < p.size)
+    && downs.every((p, i) => i === 0 || p.done >= downs[i - 1].done));
+check("sender sees it go out", alice.progress.some((p) => p.dir === "up" && p.id === "f1" && p.state === "done"));
+const again = bob.transfers.fetch(alice.id, photoMeta);
+check("asking twice at once: one download", again === bob.transfers.fetch(alice.id, photoMeta) && same(await again, photo));
+
+// === FAILURES ===
+const liar = randomBytes(40_000);
+const liarMeta = { ...(await metaFor("f2", liar)), sha256: "0".repeat(64) };
+alice.transfers.share(liarMeta, liar);
+check("digest doesn't match: CORRUPT", await fails(bob.transfers.fetch(alice.id, liarMeta), "CORRUPT"));
+check("not shared: GONE", await fails(bob.transfers.fetch(alice.id, await metaFor("nope", liar)), "GONE"));
+check("over the limit: TOO_LARGE before asking", await fails(createFileTransfers({ connect: () => undefined, maxBytes: 1000 }).fetch(alice.id, await metaFor("big", liar)), "TOO_LARGE"));
+const slow = randomBytes(2_000_000);
+alice.transfers.share(await metaFor("f3", slow), slow);
+const cancelled = bob.transfers.fetch(alice.id, await metaFor("f3", slow));
+setTimeout(() => bob.transfers.cancel("f3"), 20);
+check("cancel: CANCELLED", await fails(cancelled, "CANCELLED"));
+alice.transfers.unshare("f1");
+check("unshared: GONE for the next asker", await fails(bob.transfers.fetch(alice.id, { ...photoMeta }), "GONE"));
+
+// === RESUME AFTER A DROP ===
+const video = randomBytes(1_500_000);
+const videoMeta = await metaFor("f4", video);
+alice.transfers.share(videoMeta, video);
+bob.asked.length = 0;
+alice.asked.length = 0;
+const resumed = bob.transfers.fetch(alice.id, videoMeta);
+let dropped = 0;
+const watch = setInterval(() => {
+    const p = bob.progress.filter((x) => x.id === "f4").at(-1);
+    if (!dropped && p && p.done > video.length / 3) {
+        dropped = p.done;
+        bob.session.channel(alice.id, FILE)?.close();
+    }
+}, 2);
+const back = await resumed;
+clearInterval(watch);
+check("channel dropped partway through", dropped > 0 && dropped < video.length, `at ${dropped}`);
+check("resumed from where it got to, not from 0", alice.asked.length >= 2 && alice.asked[0] === 0 && alice.asked.slice(1).every((at) => at > 0), alice.asked.join(","));
+check("and arrives whole", same(back, video));
+
+// === BACKPRESSURE ===
+/** A channel whose buffer fills as it's sent to and drains 64 KiB per tick */
+const slowChannel = () => {
+    const em = createEmitter<ChannelEvents>();
+    let buffered = 0;
+    let peak = 0;
+    let chunks = 0;
+    const drain = setInterval(() => { buffered = Math.max(0, buffered - 65_536); }, 5);
+    const ch: Channel = {
+        peer: "room-bob",
+        label: FILE,
+        open: true,
+        get bufferedAmount() { return buffered; },
+        send(data: any) {
+            if (data.t === "chunk") chunks++;
+            buffered += JSON.stringify(data).length;
+            peak = Math.max(peak, buffered);
+        },
+        close() { clearInterval(drain); },
+        on: (event: any, fn: any) => { em.on(event, fn); },
+    };
+    return { ch, get peak() { return peak; }, get chunks() { return chunks; } };
+};
+const sender = createFileTransfers({ connect: () => undefined, highWater: 256 * 1024, lowWater: 64 * 1024, progressMs: 0 });
+const blob = randomBytes(1_000_000);
+const blobMeta = await metaFor("f5", blob);
+sender.share(blobMeta, blob);
+const pipe = slowChannel();
+let upDone = false;
+sender.on("progress", (p) => { if (p.state === "done") upDone = true; });
+sender.handle("room-bob", { t: "get", id: "f5", at: 0 }, pipe.ch);
+for (let i = 0; i < 400 && !upDone; i++) await sleep(10);
+pipe.ch.close();
+check("sender waits for the buffer: it never runs far past high water", upDone && pipe.peak < 256 * 1024 + 2 * 22_000, `peak ${pipe.peak}`);
+check("every chunk went out", pipe.chunks === Math.ceil(blob.length / 16_384));
+
+// === STORAGE (local stand-in) ===
+const api = createMemoryStorageApi({ latencyMs: 1 });
+const store = createChunkedFileStore(api, { chunkBytes: 100_000, maxBytes: 5_000_000 });
+const archive = randomBytes(1_234_567);
+let uploaded = 0;
+const put = await putSealed(store, archive, (done) => { uploaded = done; });
+check("upload in chunks, with progress", api.files === 1 && uploaded >= archive.length, `${uploaded}`);
+const raw = await store.get(put.ref);
+check("what's stored isn't the file", raw.length > archive.length && !same(raw.subarray(12, 12 + 64), archive.subarray(0, 64)));
+check("download and decrypt: the same bytes", same(await getSealed(store, put.ref, put.key), archive));
+const otherKey = (await putSealed(store, randomBytes(10))).key;
+check("wrong key: CORRUPT", await fails(getSealed(store, put.ref, otherKey), "CORRUPT"));
+check("too big for the store: refused", await fails(putSealed(store, randomBytes(5_000_001)), "FILE_TOO_LARGE"));
+check("unknown ref: the canister's code", await fails(store.get("f999"), "FILE_NOT_FOUND"));
+const flaky = createMemoryStorageApi();
+let puts = 0;
+const broken = createChunkedFileStore({ ...flaky, putChunk: async (id, i, data) => { if (++puts === 3) throw new Error("INVALID_CHUNK"); return flaky.putChunk(id, i, data); } }, { chunkBytes: 1000, parallel: 1 });
+check("failed upload: refused, nothing left behind", await fails(broken.put(randomBytes(10_000)), "INVALID_CHUNK") && (await sleep(20), flaky.files === 0));
+
+// === OFFERS IN CHAT ===
+const offer = { ...photoMeta, thumb: "data:image/jpeg;base64,AAAA", store: { ref: "f1", key: "k" } };
+const decoded = decodeChatBody(encodeChatBody({ k: "msg", text: "", file: offer }));
+check("file offer round trip", decoded?.k === "msg" && decoded.file?.sha256 === photoMeta.sha256 && decoded.file.store?.ref === "f1");
+check("offer with a bad digest or thumbnail: dropped",
+    decodeChatBody(encodeChatBody({ k: "msg", text: "", file: { ...offer, sha256: "xyz" } })) === null
+    && decodeChatBody(encodeChatBody({ k: "msg", text: "", file: { ...offer, thumb: "javascript:alert(1)" } })) === null);
+check("junk on the file channel: ignored", parseFileWire({ t: "chunk", id: "f1", at: -1, data: "AA" }) === null && parseFileWire("get") === null);
+
+alice.transfers.close();
+bob.transfers.close();
+await Promise.all([alice.session.close(), bob.session.close()]);
+
+done("files ok");
@@ -0,0 +1,145 @@
+/**
+ * Headless checks for the ICE setup (src/lib/net/ice.ts).
+ *
+ * Settings from environment variables (old single-host TURN vars included),
+ * credentials endpoint answers, the config each mode hands out, peers moving
+ * to relay when a direct connection fails or hangs in "checking" (fake
+ * peer connections), reading the connection type from stats, and
+ * RoomSession.retry() for the dials still in flight when that happens.
+ *
+ *   npm run sim:ice
+ */
+import { createIce, iceSettingsFromEnv, linkTypeOf, parseTurnCredentials } from "../src/lib/net/ice";
+import { createMemoryNetwork } from "../src/lib/net/memoryTransport";
+import { RoomSession } from "../src/lib/net/session";
+import { check, done } from "./check";
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** Enough of an RTCPeerConnection for watch() */
+class FakePc extends EventTarget {
+    iceConnectionState: RTCIceConnectionState = "new";
+    set(s: RTCIceConnectionState) {
+        this.iceConnectionState = s;
+        this.dispatchEvent(new Event("iceconnectionstatechange"));
+    }
+}
+const fakePc = () => new FakePc();
+const asPc = (pc: FakePc) => pc as unknown as RTCPeerConnection;
+
+// === SETTINGS ===
+const legacy = iceSettingsFromEnv({
+    VITE_TURN_HOST: "turn.example.org",
+    VITE_TURN_PORT: "3478",
+    VITE_TURNS_PORT: "443",
+    VITE_TURN_USERNAME: "u",
+    VITE_TURN_CREDENTIAL: "p",
+});
+check("old TURN vars still make three urls", legacy.turn.length === 1 && legacy.turn[0].urls.length === 3
+    && legacy.turn[0].urls.includes("turns:turn.example.org:443?transport=tcp"), legacy.turn[0]?.urls.join(" "));
+check("default STUN and strategy", legacy.stun.length > 0 && legacy.strategy === "auto");
+
+const listed = iceSettingsFromEnv({
+    VITE_STUN_URLS: "stun:a.example:3478, stun:b.example:3478",
+    VITE_TURN_URLS: "turn:t1.example:3478,turns:t2.example:5349",
+    VITE_ICE_STRATEGY: "Relay",
+});
+check("server lists from env", listed.stun.length === 2 && listed.turn[0].urls.length === 2 && listed.strategy === "relay");
+check("no TURN configured: no TURN servers", iceSettingsFromEnv({}).turn.length === 0);
+
+// === CREDENTIALS ANSWERS ===
+const rest = parseTurnCredentials({ username: "1700000000:alice", password: "x", ttl: 600, uris: ["turn:t.example:3478", "stun:t.example:3478"] });
+check("TURN REST answer", rest?.turn[0].username === "1700000000:alice" && rest.ttlMs === 600_000 && rest.stun.length === 1);
+const hosted = parseTurnCredentials({ iceServers: { urls: ["turn:h.example:3478?transport=udp"], username: "u", credential: "c" } });
+check("iceServers answer", hosted?.turn[0].credential === "c" && hosted.ttlMs > 0);
+check("answer without credentials is rejected", parseTurnCredentials({ uris: ["turn:t.example"] }) === null);
+
+// === CONFIGS AND ESCALATION ===
+const ice = createIce({ ...listed, strategy: "auto" }, { directTimeoutMs: 80 });
+const escalated: string[] = [];
+ice.on("escalate", (pid) => escalated.push(pid));
+
+const direct = ice.configFor("alice");
+check("direct: STUN only, all candidates",
+    direct.iceTransportPolicy === "all" && JSON.stringify(direct.iceServers).includes("stun:a.example") && !JSON.stringify(direct.iceServers).includes("turn:"));
+
+const failing = fakePc();
+ice.watch("alice", asPc(failing));
+failing.set("checking");
+failing.set("failed");
+check("failed direct connection moves the peer to relay", ice.modeOf("alice") === "relay" && escalated.join() === "alice");
+const relay = ice.configFor("alice");
+check("relay: TURN only, relay candidates", relay.iceTransportPolicy === "relay" && JSON.stringify(relay.iceServers).includes("turns:t2.example"));
+
+const hanging = fakePc();
+const unanswered = fakePc();
+const fine = fakePc();
+ice.watch("bob", asPc(hanging));
+ice.watch("carol", asPc(unanswered));
+ice.watch("dave", asPc(fine));
+hanging.set("checking");
+fine.set("checking");
+fine.set("connected");
+await sleep(120);
+check("stuck in checking past the timeout: relay", ice.modeOf("bob") === "relay");
+check("never answered: stays direct", ice.modeOf("carol") === "direct");
+check("connected: stays direct", ice.modeOf("dave") === "direct");
+check("escalation fires once per peer", !ice.escalate("alice") && escalated.length === 2, escalated.join());
+
+ice.configFor("erin", "relay");
+check("an offer made over relay is answered over relay", ice.modeOf("erin") === "relay");
+
+const fixed = createIce({ ...listed, strategy: "direct" });
+check("strategy direct never escalates", !fixed.escalate("alice") && fixed.configFor("alice", "relay").iceTransportPolicy === "all");
+const noTurn = createIce(iceSettingsFromEnv({}));
+check("no TURN: nothing to escalate to", !noTurn.escalate("alice") && noTurn.modeOf("alice") === "direct");
+
+// === FETCHED CREDENTIALS ===
+let fetches = 0;
+const fetchOk = (async () => {
+    fetches++;
+    return new Response(JSON.stringify({ username: "temp", password: "secret", ttl: 0.1, uris: ["turn:fresh.example:3478"] }));
+}) as typeof fetch;
+const fetchedIce = createIce({ ...legacy, credentialsUrl: "https://example.org/turn", strategy: "relay" }, { fetch: fetchOk });
+await fetchedIce.ready();
+check("fetched credentials are used", JSON.stringify(fetchedIce.configFor("x").iceServers).includes("fresh.example") && fetches === 1);
+await sleep(150);
+check("expired credentials fall back to the static ones", JSON.stringify(fetchedIce.configFor("x").iceServers).includes("turn.example.org"));
+fetchedIce.dispose();
+
+const fetchDown = (async () => new Response("nope", { status: 503 })) as typeof fetch;
+const downIce = createIce({ ...legacy, credentialsUrl: "https://example.org/turn", strategy: "relay" }, { fetch: fetchDown });
+const warn = console.warn;
+console.warn = () => { };
+await downIce.ready();
+console.warn = warn;
+check("endpoint down: static TURN servers", JSON.stringify(downIce.configFor("x").iceServers).includes("turn.example.org"));
+downIce.dispose();
+
+// === CONNECTION TYPE FROM STATS ===
+const statsOf = (local: string, remote: string, firefox = false) => {
+    const entries: Array<[string, any]> = [
+        ["L", { id: "L", type: "local-candidate", candidateType: local }],
+        ["R", { id: "R", type: "remote-candidate", candidateType: remote }],
+        ["P", { id: "P", type: "candidate-pair", localCandidateId: "L", remoteCandidateId: "R", state: "succeeded", nominated: true, selected: firefox }],
+    ];
+    if (!firefox) entries.push(["T", { id: "T", type: "transport", selectedCandidatePairId: "P" }]);
+    const report = new Map(entries);
+    return { getStats: async () => report } as unknown as RTCPeerConnection;
+};
+check("host pair", await linkTypeOf(statsOf("host", "host")) === "host");
+check("through NAT", await linkTypeOf(statsOf("srflx", "prflx")) === "srflx");
+check("relay on either end", await linkTypeOf(statsOf("host", "relay", true)) === "relay");
+check("no pair yet", await linkTypeOf({ getStats: async () => new Map() } as unknown as RTCPeerConnection) === null);
+
+// === SESSION RETRY ===
+const net = createMemoryNetwork({ latencyMs: 5 });
+const session = new RoomSession(net.transport(), { selfId: "room-a", openTries: 1 });
+await session.open();
+session.dial("room-gone");
+const first = session.channel("room-gone");
+check("retry redials a dial still in flight", session.retry("room-gone") && !!session.channel("room-gone") && session.channel("room-gone") !== first);
+check("retry leaves peers with nothing pending alone", !session.retry("room-other"));
+await session.close();
+
+done("ice ok");
@@ -0,0 +1,283 @@
+/**
+ * Simulation of interest management in big rooms.
+ *
+ * Random-walking peers on a map with a few closed rooms and a wide-radius
+ * area. Each peer runs the real interest planner and gossip table; the
+ * harness plays the network (links, calls, one gossip hop per round) and
+ * reports how many connections the partial mesh needs compared with a full
+ * mesh, how fresh relayed positions are, and whether anyone who should be
+ * audible ever lacked a call.
+ *
+ *   npm run sim:interest
+ */
+import {
+    createGossipTable,
+    createInterestManager,
+    createMediaRange,
+    overlayNeighbours,
+    type GossipTable,
+    type InterestManager,
+    type TilePos,
+} from "../src/lib/net/interest";
+import type { AudioRule } from "../src/components/world/map";
+import { check, done } from "./check";
+
+// === SEEDED RANDOM ===
+function mulberry32(seed: number) {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6d2b79f5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// === WORLD (same rule shapes as map.audioRuleAt) ===
+const TILE = 16;
+const COLS = 96;
+const ROWS = 64;
+const DEFAULT_RADIUS = 2;
+const MEDIA_MARGIN = 3;
+
+const ZONES: Array<{ c0: number; r0: number; c1: number; r1: number; rule: AudioRule }> = [
+    { c0: 4, r0: 4, c1: 20, r1: 16, rule: { kind: "room", zoneId: 1 } },
+    { c0: 70, r0: 6, c1: 90, r1: 20, rule: { kind: "room", zoneId: 2 } },
+    { c0: 30, r0: 40, c1: 60, r1: 58, rule: { kind: "radius", radius: 6 } },
+];
+
+const ruleAt = (col: number, row: number): AudioRule =>
+    ZONES.find((z) => col >= z.c0 && col <= z.c1 && row >= z.r0 && row <= z.r1)?.rule ?? { kind: "default" };
+
+const reachOf = (r: AudioRule) => (r.kind === "radius" ? r.radius : DEFAULT_RADIUS);
+const cheb = (a: TilePos, b: TilePos) => Math.max(Math.abs(a.col - b.col), Math.abs(a.row - b.row));
+
+/** What the player actually hears (calcAudibility, either direction) */
+function audible(a: TilePos, b: TilePos) {
+    const ra = ruleAt(a.col, a.row);
+    const rb = ruleAt(b.col, b.row);
+    if (ra.kind === "room" || rb.kind === "room") return ra.kind === "room" && rb.kind === "room" && ra.zoneId === rb.zoneId;
+    return cheb(a, b) <= Math.max(reachOf(ra), reachOf(rb));
+}
+
+/** What Room asks the planner for */
+const mediaInRange = createMediaRange(ruleAt, { defaultRadiusTiles: DEFAULT_RADIUS, marginTiles: MEDIA_MARGIN });
+
+// === PEERS ===
+type SimPeer = {
+    id: string;
+    x: number;
+    y: number;
+    goal: { x: number; y: number };
+    waitMs: number;
+    interest: InterestManager;
+    gossip: GossipTable;
+};
+
+const tileOf = (p: { x: number; y: number }): TilePos => ({ col: Math.floor(p.x / TILE), row: Math.floor(p.y / TILE) });
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+type Report = {
+    peers: number;
+    linksAvg: number;
+    linksMax: number;
+    linksTotal: number;
+    callsTotal: number;
+    fullMesh: number;
+    dialsPerSec: number;
+    hangupsPerSec: number;
+    coverage: number;
+    staleP50: number;
+    staleP95: number;
+    missedAudible: number;
+    audibleSamples: number;
+    overlayDiameter: number;
+};
+
+function simulate(n: number, seed: number, durationMs = 120_000): Report {
+    const rand = mulberry32(seed);
+    const randomSpot = () => ({ x: (1 + rand() * (COLS - 2)) * TILE, y: (1 + rand() * (ROWS - 2)) * TILE });
+    const peers = new Map<string, SimPeer>();
+    for (let i = 0; i < n; i++) {
+        const id = `peer-${(i * 7919 % 100003).toString(36).padStart(4, "0")}`;
+        peers.set(id, {
+            id,
+            ...randomSpot(),
+            goal: randomSpot(),
+            waitMs: rand() * 3000,
+            interest: createInterestManager(),
+            gossip: createGossipTable({ self: id }),
+        });
+    }
+    const ids = [...peers.keys()];
+
+    /** pair → dialer */
+    const links = new Map<string, string>();
+    const calls = new Set<string>();
+    let dials = 0;
+    let hangups = 0;
+    const WARMUP_MS = 15_000;
+    const stats = { linkSamples: [] as number[], linkMax: 0, totalLinks: 0, totalCalls: 0, samples: 0, covered: 0, pairs: 0, stale: [] as number[], missed: 0, audibleSamples: 0 };
+
+    const linkedTo = (id: string) => {
+        const out: string[] = [];
+        for (const k of links.keys()) {
+            const [a, b] = k.split("|");
+            if (a === id) out.push(b);
+            else if (b === id) out.push(a);
+        }
+        return out;
+    };
+
+    const STEP_MS = 100;
+    for (let now = 0; now <= durationMs; now += STEP_MS) {
+        // walk: pick a spot, stroll there at ~4 tiles/s, linger, repeat
+        for (const p of peers.values()) {
+            if (p.waitMs > 0) { p.waitMs -= STEP_MS; continue; }
+            const dx = p.goal.x - p.x, dy = p.goal.y - p.y;
+            const d = Math.hypot(dx, dy);
+            const step = 4 * TILE * STEP_MS / 1000;
+            if (d <= step) {
+                p.x = p.goal.x; p.y = p.goal.y;
+                // a third of the time, head for one of the zones so rooms fill up
+                const z = rand() < 0.33 ? ZONES[Math.floor(rand() * ZONES.length)] : null;
+                p.goal = z
+                    ? { x: (z.c0 + 1 + rand() * (z.c1 - z.c0 - 2)) * TILE, y: (z.r0 + 1 + rand() * (z.r1 - z.r0 - 2)) * TILE }
+                    : randomSpot();
+                p.waitMs = 1000 + rand() * 8000;
+            } else {
+                p.x += dx / d * step; p.y += dy / d * step;
+            }
+        }
+
+        // gossip round: everyone sends what changed to their links, delivered next hop
+        if (now % 500 === 0) {
+            const outbox: Array<[string, ReturnType<GossipTable["takeChanged"]>]> = [];
+            for (const p of peers.values()) {
+                p.gossip.setOwn(p.x, p.y, 1, p.waitMs <= 0, now);
+                const changed = p.gossip.takeChanged();
+                if (changed.length) for (const to of linkedTo(p.id)) outbox.push([to, changed]);
+            }
+            for (const [to, entries] of outbox) peers.get(to)!.gossip.merge(entries, now);
+            for (const p of peers.values()) p.gossip.expire(now);
+        }
+
+        // interest: each peer plans from what it knows (exact if linked, gossip otherwise)
+        if (now % 1000 === 0) {
+            for (const p of peers.values()) {
+                const linked = new Set(linkedTo(p.id));
+                const relayed = new Map(p.gossip.all().map((e) => [e[0], e]));
+                const plan = p.interest.plan({
+                    self: p.id,
+                    now,
+                    members: ids,
+                    tileOf: (pid) => {
+                        if (pid === p.id || linked.has(pid)) return tileOf(peers.get(pid)!);
+                        const e = relayed.get(pid);
+                        return e ? tileOf({ x: e[3], y: e[4] }) : null;
+                    },
+                    mediaBetween: mediaInRange,
+                });
+                for (const rid of plan.data) {
+                    const k = pairKey(p.id, rid);
+                    if (!links.has(k)) { links.set(k, p.id); dials++; }
+                }
+                for (const [k, dialer] of [...links]) {
+                    if (dialer !== p.id) continue;
+                    const other = k.split("|").find((x) => x !== p.id)!;
+                    if (!plan.data.has(other)) { links.delete(k); calls.delete(k); hangups++; }
+                }
+                for (const rid of plan.media) {
+                    const k = pairKey(p.id, rid);
+                    if (links.has(k)) calls.add(k);
+                }
+                for (const k of [...calls]) {
+                    const [a, b] = k.split("|");
+                    if (a !== p.id && b !== p.id) continue;
+                    if (!plan.media.has(a === p.id ? b : a)) { calls.delete(k); hangups++; }
+                }
+            }
+        }
+
+        if (now < WARMUP_MS || now % 1000 !== 500) continue;
+
+        // measure halfway between reconciles, so calls have had time to react
+        stats.samples++;
+        stats.totalLinks += links.size;
+        stats.totalCalls += calls.size;
+        for (const p of peers.values()) {
+            const c = linkedTo(p.id).length;
+            stats.linkSamples.push(c);
+            stats.linkMax = Math.max(stats.linkMax, c);
+            const relayed = new Map(p.gossip.all().map((e) => [e[0], e]));
+            for (const q of peers.values()) {
+                if (q === p) continue;
+                stats.pairs++;
+                const e = relayed.get(q.id);
+                if (e && p.gossip.has(q.id, now)) {
+                    stats.covered++;
+                    stats.stale.push(((now & 0xffff) - e[2] + 0x10000) & 0xffff);
+                }
+                if (p.id < q.id && audible(tileOf(p), tileOf(q))) {
+                    stats.audibleSamples++;
+                    if (!calls.has(pairKey(p.id, q.id))) stats.missed++;
+                }
+            }
+        }
+    }
+
+    // overlay diameter (links every client keeps regardless of position)
+    let diameter = 0;
+    const adj = new Map(ids.map((id) => [id, overlayNeighbours(id, ids)]));
+    for (const src of ids) {
+        const dist = new Map([[src, 0]]);
+        const q = [src];
+        while (q.length) {
+            const cur = q.shift()!;
+            for (const nb of adj.get(cur)!) if (!dist.has(nb)) { dist.set(nb, dist.get(cur)! + 1); q.push(nb); }
+        }
+        diameter = Math.max(diameter, dist.size === ids.length ? Math.max(...dist.values()) : Infinity);
+    }
+
+    const sorted = stats.stale.sort((a, b) => a - b);
+    const pct = (k: number) => sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * k))] ?? 0;
+    const secs = durationMs / 1000;
+    return {
+        peers: n,
+        linksAvg: stats.linkSamples.reduce((s, v) => s + v, 0) / stats.linkSamples.length,
+        linksMax: stats.linkMax,
+        linksTotal: stats.totalLinks / stats.samples,
+        callsTotal: stats.totalCalls / stats.samples,
+        fullMesh: n * (n - 1) / 2,
+        dialsPerSec: dials / secs,
+        hangupsPerSec: hangups / secs,
+        coverage: stats.covered / stats.pairs,
+        staleP50: pct(0.5),
+        staleP95: pct(0.95),
+        missedAudible: stats.audibleSamples ? stats.missed / stats.audibleSamples : 0,
+        audibleSamples: stats.audibleSamples,
+        overlayDiameter: diameter,
+    };
+}
+
+// === RUN ===
+for (const n of [50, 100]) {
+    const r = simulate(n, 1000 + n);
+    console.log(`\n${n} peers, ${COLS}×${ROWS} tiles, 120 s`);
+    console.log(`  data links    ${r.linksTotal.toFixed(0)} (full mesh ${r.fullMesh}), ${r.linksAvg.toFixed(1)} per peer avg, ${r.linksMax} max`);
+    console.log(`  media calls   ${r.callsTotal.toFixed(0)} (full mesh ${r.fullMesh})`);
+    console.log(`  churn         ${r.dialsPerSec.toFixed(1)} dials/s, ${r.hangupsPerSec.toFixed(1)} hang-ups/s across the room`);
+    console.log(`  gossip        ${(r.coverage * 100).toFixed(2)}% of peers known, position age p50 ${r.staleP50} ms / p95 ${r.staleP95} ms`);
+    console.log(`  overlay       diameter ${r.overlayDiameter} hops`);
+    check(`${n} peers: overlay is connected`, Number.isFinite(r.overlayDiameter));
+    check(`${n} peers: uses under a third of the full mesh`, r.linksTotal < r.fullMesh / 3);
+    check(`${n} peers: everyone sees everyone`, r.coverage > 0.99, `${(r.coverage * 100).toFixed(2)}%`);
+    check(
+        `${n} peers: audible pairs have a call`,
+        r.missedAudible < 0.02,
+        `${(r.missedAudible * 100).toFixed(2)}% of ${r.audibleSamples} audible samples missed`
+    );
+}
+
+done("interest management ok");
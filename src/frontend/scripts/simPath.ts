@@ -0,0 +1,171 @@
+/**
+ * Headless checks for click-to-move pathfinding (components/world/pathfinding.ts).
+ *
+ * Activates random maps (seeded PRNG, so every run is identical) and checks
+ * every path A* returns against a plain Dijkstra over the same moves: each
+ * step legal, no wall corners cut, and never longer than the shortest.
+ *
+ *   npm run sim:path
+ */
+import { activateMapDef, isSolidTile } from "../src/components/world/map";
+import { MAP_FORMAT_VERSION } from "../src/components/world/mapFormat";
+import { findPath, type TileStep } from "../src/components/world/pathfinding";
+import { check, done } from "./check";
+
+// === SEEDED RANDOM ===
+function mulberry32(seed: number) {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6d2b79f5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+const FLOOR = 1;
+const WALL = 5;
+
+/** Activate a map from rows of text: '#' wall, anything else floor */
+function loadMap(rows: string[]) {
+    const cols = rows[0].length;
+    activateMapDef({
+        version: MAP_FORMAT_VERSION,
+        id: "sim-path",
+        cols,
+        rows: rows.length,
+        layers: {
+            floor: rows.map((r) => Array.from(r, () => FLOOR)),
+            wall: rows.map((r) => Array.from(r, (ch) => (ch === "#" ? WALL : 0))),
+        },
+    });
+}
+
+function randomMap(rand: () => number, cols: number, rows: number, density: number) {
+    return Array.from({ length: rows }, () => Array.from({ length: cols }, () => (rand() < density ? "#" : ".")).join(""));
+}
+
+const diagonal = (a: TileStep, b: TileStep) => a.col !== b.col && a.row !== b.row;
+const stepCost = (a: TileStep, b: TileStep) => (diagonal(a, b) ? Math.SQRT2 : 1);
+
+/** Walk `path` from `from`: its length, or why it's not a legal walk */
+function walk(from: TileStep, path: TileStep[]): number | string {
+    let cost = 0;
+    let at = from;
+    for (const s of path) {
+        const dc = s.col - at.col;
+        const dr = s.row - at.row;
+        if (Math.max(Math.abs(dc), Math.abs(dr)) !== 1) return `jump to ${s.col},${s.row}`;
+        if (isSolidTile(s.col, s.row)) return `through a wall at ${s.col},${s.row}`;
+        if (dc && dr && isSolidTile(at.col + dc, at.row) && isSolidTile(at.col, at.row + dr)) return `cuts a corner at ${s.col},${s.row}`;
+        cost += stepCost(at, s);
+        at = s;
+    }
+    return cost;
+}
+
+/** Shortest cost from `from` to any tile within `near` of `to` (Chebyshev), by the same moves */
+function dijkstra(from: TileStep, to: TileStep, near: number, cols: number, rows: number): number {
+    const n = cols * rows;
+    const dist = new Float64Array(n).fill(Infinity);
+    const done = new Uint8Array(n);
+    dist[from.row * cols + from.col] = 0;
+    for (;;) {
+        let cur = -1;
+        for (let i = 0; i < n; i++) if (!done[i] && dist[i] < Infinity && (cur < 0 || dist[i] < dist[cur])) cur = i;
+        if (cur < 0) return Infinity;
+        done[cur] = 1;
+        const c = cur % cols;
+        const r = (cur - c) / cols;
+        if (Math.max(Math.abs(c - to.col), Math.abs(r - to.row)) <= near) return dist[cur];
+        for (let dy = -1; dy <= 1; dy++) {
+            for (let dx = -1; dx <= 1; dx++) {
+                if (!dx && !dy) continue;
+                const nc = c + dx, nr = r + dy;
+                if (isSolidTile(nc, nr)) continue;
+                if (dx && dy && isSolidTile(c + dx, r) && isSolidTile(c, r + dy)) continue;
+                const ni = nr * cols + nc;
+                const d = dist[cur] + (dx && dy ? Math.SQRT2 : 1);
+                if (d < dist[ni]) dist[ni] = d;
+            }
+        }
+    }
+}
+
+// === HAND-WRITTEN ===
+loadMap([
+    "..........",
+    ".########.",
+    ".#......#.",
+    ".#.####.#.",
+    ".#.#..#.#.",
+    ".#.#..#...",
+    ".#.####.#.",
+    ".#......#.",
+    ".########.",
+    "..........",
+]);
+check("already there: no steps", findPath({ col: 0, row: 0 }, { col: 0, row: 0 })?.length === 0);
+check("walled-in goal: null", findPath({ col: 0, row: 0 }, { col: 4, row: 4 }) === null);
+const solidGoal = findPath({ col: 0, row: 0 }, { col: 3, row: 3 });
+check("solid goal: walk up next to it", !!solidGoal && Math.max(Math.abs(solidGoal.at(-1)!.col - 3), Math.abs(solidGoal.at(-1)!.row - 3)) === 1);
+const nearby = findPath({ col: 0, row: 0 }, { col: 9, row: 9 }, { near: 2 });
+check("near: stops within range", !!nearby && Math.max(Math.abs(nearby.at(-1)!.col - 9), Math.abs(nearby.at(-1)!.row - 9)) === 2);
+check("node budget: gives up", findPath({ col: 0, row: 0 }, { col: 7, row: 7 }, { maxNodes: 5 }) === null);
+const inside = findPath({ col: 0, row: 0 }, { col: 2, row: 2 });
+check("into the ring through its gap", !!inside && walk({ col: 0, row: 0 }, inside) === dijkstra({ col: 0, row: 0 }, { col: 2, row: 2 }, 0, 10, 10));
+
+loadMap([
+    ".#",
+    "#.",
+]);
+check("diagonal between two touching walls: blocked", findPath({ col: 0, row: 0 }, { col: 1, row: 1 }) === null);
+loadMap([
+    "..",
+    "#.",
+]);
+check("diagonal past one wall: allowed", findPath({ col: 0, row: 0 }, { col: 1, row: 1 })?.length === 1);
+
+// === RANDOM MAPS AGAINST DIJKSTRA ===
+const rand = mulberry32(7);
+let paths = 0;
+let unreachable = 0;
+let longer = 0;
+let illegal = 0;
+let missed = 0;
+let badWalk = "";
+let worst = "";
+for (let m = 0; m < 60; m++) {
+    const cols = 12 + Math.floor(rand() * 20);
+    const rows = 12 + Math.floor(rand() * 20);
+    loadMap(randomMap(rand, cols, rows, 0.18 + rand() * 0.2));
+    for (let q = 0; q < 25; q++) {
+        const from = { col: Math.floor(rand() * cols), row: Math.floor(rand() * rows) };
+        const to = { col: Math.floor(rand() * cols), row: Math.floor(rand() * rows) };
+        if (isSolidTile(from.col, from.row)) continue;
+        const near = rand() < 0.2 ? 1 + Math.floor(rand() * 2) : 0;
+        const goalNear = near === 0 && isSolidTile(to.col, to.row) ? 1 : near;
+        const best = dijkstra(from, to, goalNear, cols, rows);
+        const path = findPath(from, to, { near });
+        if (!path) {
+            if (best < Infinity) missed++;
+            else unreachable++;
+            continue;
+        }
+        paths++;
+        const cost = walk(from, path);
+        if (typeof cost === "string") {
+            illegal++;
+            badWalk ||= cost;
+        } else if (cost > best + 1e-9) {
+            longer++;
+            worst ||= `map ${m}: ${cost.toFixed(3)} vs ${best.toFixed(3)} from ${from.col},${from.row} to ${to.col},${to.row}`;
+        }
+    }
+}
+check("random maps: every path is a legal walk", illegal === 0, badWalk);
+check("random maps: no path longer than the shortest", longer === 0, `${longer} of ${paths}${worst ? `; ${worst}` : ""}`);
+check("random maps: finds one whenever there is one", missed === 0, `${missed} missed, ${unreachable} unreachable`);
+
+done("path ok");
@@ -0,0 +1,161 @@
+/**
+ * Headless checks for binary position sync (lib/net/positionSync.ts).
+ *
+ * Covers the 10-byte packet codec, the sender's rate control, and the
+ * jitter buffer fed over a fake network with delay, jitter, reordering and
+ * loss (seeded PRNG, so every run is identical), including a run across the
+ * 16-bit clock wrap.
+ *
+ *   npm run sim:pos
+ */
+import {
+    createPosBuffer,
+    createPosSender,
+    decodePos,
+    encodePos,
+    POS_PACKET_BYTES,
+    wrapDelta16,
+    type PosPacket,
+    type PosSample,
+} from "../src/lib/net/positionSync";
+import { check, done } from "./check";
+
+// === SEEDED RANDOM ===
+function mulberry32(seed: number) {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6d2b79f5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+const packet = (over: Partial<PosPacket> = {}): PosPacket =>
+    ({ seq: 1, t: 0, x: 0, y: 0, face: 1, moving: true, heartbeat: false, ...over });
+
+// === CODEC ===
+const sent = packet({ seq: 70_000, t: 66_000.7, x: 123.3, y: 4567.76, face: -1, moving: true, heartbeat: true });
+const wire = encodePos(sent);
+const got = decodePos(wire);
+check("packet is 10 bytes", wire.byteLength === POS_PACKET_BYTES);
+check("seq and clock keep their low 16 bits", got?.seq === (70_000 & 0xffff) && got?.t === (66_000 & 0xffff));
+check("positions kept to half a pixel", got?.x === 123.5 && got?.y === 4568);
+check("flags round-trip", got?.face === -1 && got.moving && got.heartbeat);
+const still = decodePos(encodePos(packet({ face: 1, moving: false })));
+check("flags clear round-trip", still?.face === 1 && !still.moving && !still.heartbeat);
+const clamped = decodePos(encodePos(packet({ x: -40, y: 99_999 })));
+check("out-of-range positions clamped", clamped?.x === 0 && clamped?.y === 32767.5);
+const framed = new Uint8Array(POS_PACKET_BYTES + 6);
+framed.set(new Uint8Array(wire), 3);
+check("decodes a view at an offset", decodePos(framed.subarray(3, 3 + POS_PACKET_BYTES))?.x === 123.5);
+check("wrong length rejected", decodePos(new ArrayBuffer(9)) === null && decodePos(new ArrayBuffer(11)) === null);
+const badTag = new Uint8Array(wire.slice(0));
+badTag[0] = 0x51;
+check("wrong tag rejected", decodePos(badTag) === null);
+check("ring distance across the wrap", wrapDelta16(65_535, 1) === 2 && wrapDelta16(1, 65_535) === -2 && wrapDelta16(7, 7) === 0);
+
+// === SENDER ===
+{
+    const s = createPosSender({ movingHz: 20, idleMs: 1000 });
+    const at = { x: 10, y: 10, face: 1 as const, moving: false };
+    const first = s.poll(0, at);
+    check("first poll always sends, not as a heartbeat", !!first && !first.heartbeat && first.seq === 1);
+    check("standing still: nothing before the idle interval", s.poll(500, at) === null);
+    const beat = s.poll(1000, at);
+    check("standing still: heartbeat once a second", !!beat && beat.heartbeat);
+    const walk = { ...at, moving: true };
+    check("starting to move sends at once", !!s.poll(1010, walk));
+    check("moving: nothing inside 50 ms", s.poll(1040, { ...walk, x: 11 }) === null);
+    check("moving: next packet at 50 ms", s.poll(1060, { ...walk, x: 12 })?.heartbeat === false);
+    check("turning around sends at once", !!s.poll(1070, { ...walk, x: 12, face: -1 }));
+    s.force();
+    check("force sends on the next poll", !!s.poll(1071, { ...walk, x: 12, face: -1 }));
+    let seq = 0;
+    const w = createPosSender({ movingHz: 1000 });
+    for (let i = 0; i < 70_000; i++) seq = w.poll(i, { x: i % 500, y: 0, face: 1, moving: true })?.seq ?? seq;
+    check("seq wraps at 16 bits", seq === 70_000 % 0x10000, String(seq));
+}
+
+// === JITTER BUFFER OVER A FAKE NETWORK ===
+type NetRun = { maxErr: number; backwards: number; lost: number; late: number; dropped: number };
+
+/**
+ * A sender walking right at 100 px/s from clock `t0`, packets every 50 ms,
+ * each delayed 30..30+jitter ms; the receiver samples every 16 ms and is
+ * compared with where the sender was delay + min latency ago.
+ */
+function runNet(seed: number, t0: number, jitter: number, dropRate: number, durMs = 4000): NetRun {
+    const rand = mulberry32(seed);
+    const buf = createPosBuffer({ delayMs: 100 });
+    const speed = 0.1;
+    const truth = (ms: number) => 100 + speed * ms;
+    const inFlight: { at: number; p: PosPacket }[] = [];
+    let dropped = 0;
+    let seq = 0;
+    for (let ms = 0; ms <= durMs; ms += 50) {
+        seq = (seq + 1) & 0xffff;
+        if (rand() < dropRate && ms > 0 && ms < durMs) { dropped++; continue; }
+        const p = decodePos(encodePos(packet({ seq, t: t0 + ms, x: truth(ms), y: 50 })))!;
+        inFlight.push({ at: ms + 30 + rand() * jitter, p });
+    }
+    inFlight.sort((a, b) => a.at - b.at);
+
+    let maxErr = 0;
+    let backwards = 0;
+    let prev: PosSample | null = null;
+    let next = 0;
+    // run a little past the last send so the final packets land too
+    for (let now = 0; now <= durMs + 200; now += 16) {
+        for (; next < inFlight.length && inFlight[next].at <= now; next++) buf.push(inFlight[next].p, inFlight[next].at);
+        const s = buf.sample(now);
+        if (!s || now < 500) { prev = s; continue; }
+        maxErr = Math.max(maxErr, Math.abs(s.x - truth(now - 30 - 100)));
+        if (prev && s.x < prev.x - 1e-9) backwards++;
+        prev = s;
+    }
+    return { maxErr, backwards, lost: buf.stats.lost, late: buf.stats.late, dropped };
+}
+
+const clean = runNet(1, 0, 0, 0);
+check("steady link: tracks the sender", clean.maxErr <= 1, `max error ${clean.maxErr.toFixed(2)} px`);
+const jittery = runNet(2, 0, 80, 0);
+check("80 ms jitter: packets arrive out of order", jittery.late > 0, `${jittery.late} late`);
+check("80 ms jitter: still smooth and close", jittery.backwards === 0 && jittery.maxErr <= 10, `max error ${jittery.maxErr.toFixed(2)} px, ${jittery.backwards} steps back`);
+const lossy = runNet(3, 0, 0, 0.15);
+check("15% loss: counted exactly", lossy.lost === lossy.dropped && lossy.dropped > 0, `${lossy.lost} lost of ${lossy.dropped} dropped`);
+check("15% loss: interpolates over the gaps", lossy.backwards === 0 && lossy.maxErr <= 1, `max error ${lossy.maxErr.toFixed(2)} px`);
+const wrapped = runNet(4, 0x10000 - 1500, 40, 0.05);
+check("across the clock wrap: no jump", wrapped.backwards === 0 && wrapped.maxErr <= 10, `max error ${wrapped.maxErr.toFixed(2)} px`);
+
+// === EXTRAPOLATION, TELEPORTS, RESETS ===
+{
+    const buf = createPosBuffer({ delayMs: 100, maxExtrapolateMs: 250, snapPx: 160 });
+    buf.push(packet({ seq: 1, t: 0, x: 0 }), 20);
+    buf.push(packet({ seq: 2, t: 50, x: 5 }), 70);
+    const ahead = buf.sample(70 + 100 + 100)!;
+    check("gap: dead-reckons along the last velocity", Math.abs(ahead.x - 15) < 1e-6 && ahead.moving, ahead.x.toFixed(2));
+    const held = buf.sample(70 + 100 + 2000)!;
+    check("long gap: holds after the extrapolation limit, stops walking", Math.abs(held.x - 30) < 1e-6 && !held.moving, held.x.toFixed(2));
+
+    const tp = createPosBuffer({ delayMs: 100, snapPx: 160 });
+    tp.push(packet({ seq: 1, t: 0, x: 0 }), 10);
+    tp.push(packet({ seq: 2, t: 50, x: 500 }), 60);
+    const xs = [30, 60, 90, 120, 150, 180].map((ms) => tp.sample(10 + 100 + ms)!.x);
+    check("teleport snaps instead of sliding", xs.every((x) => x === 0 || x === 500), xs.join(","));
+
+    const stale = createPosBuffer({ delayMs: 100 });
+    stale.push(packet({ seq: 10, t: 1000, x: 10 }), 0);
+    stale.push(packet({ seq: 3, t: 200, x: 900, moving: false }), 40_000);
+    const after = stale.sample(40_000 + 100)!;
+    check("after a long silence the buffer starts over", after.x === 900 && stale.stats.late === 0, `x ${after.x}`);
+
+    const dup = createPosBuffer();
+    dup.push(packet({ seq: 1, t: 0, x: 0 }), 0);
+    dup.push(packet({ seq: 1, t: 0, x: 0 }), 5);
+    check("duplicates counted late, not lost", dup.stats.late === 1 && dup.stats.lost === 0);
+    check("no packets: no sample", createPosBuffer().sample(100) === null);
+}
+
+done("position sync ok");
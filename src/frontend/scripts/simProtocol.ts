@@ -0,0 +1,112 @@
+/**
+ * Headless checks for the wire protocol (lib/net/protocol.ts).
+ *
+ * Feeds well-formed and hostile messages through the room and lobby
+ * validators, and walks capability negotiation between current and v1
+ * clients: who may be sent what, and how legacy lobby envelopes round-trip.
+ *
+ *   npm run sim:protocol
+ */
+import {
+    createInvalidMsgStats,
+    LOCAL_CAPABILITIES,
+    makeHello,
+    MAX_CHAT_CHARS,
+    MAX_GOSSIP_ENTRIES,
+    MAX_SEALED_CHARS,
+    negotiate,
+    parseLobbyMsg,
+    parseRoomMsg,
+    peerAccepts,
+    PROTOCOL_VERSION,
+    speaksLegacyDoors,
+    toLegacyLobby,
+    V1_PROTOCOL,
+    type LobbyMsg,
+} from "../src/lib/net/protocol";
+import { check, done } from "./check";
+
+const accepts = (raw: unknown, opts = {}) => parseRoomMsg(raw, opts).ok;
+/** The rejection reason, or "" when the message was accepted */
+const reason = (raw: unknown, opts = {}) => {
+    const r = parseRoomMsg(raw, opts);
+    return r.ok ? "" : r.reason;
+};
+
+// === ROOM VALIDATOR ===
+check("non-object rejected", reason("hello") === "not an object" && reason(null) === "not an object" && reason([1]) === "not an object");
+check("missing kind rejected", reason({ x: 1 }) === "missing kind");
+check("unknown kind rejected, name clipped", reason({ t: "x".repeat(100) }) === `unknown kind "${"x".repeat(32)}"`);
+check("own hello accepted", accepts(makeHello("peer-a", "aaaaa-aa")));
+check("v1 hello (no v, no caps) accepted", accepts({ t: "hello", peerId: "p", principal: "q" }));
+check("hello with version 0 rejected", reason({ t: "hello", peerId: "p", principal: "q", v: 0 }) === "hello: bad version");
+check("hello with too many caps rejected", !accepts({ t: "hello", peerId: "p", principal: "q", caps: Array(33).fill("spin") }));
+check("hello with oversize peer id rejected", !accepts({ t: "hello", peerId: "p".repeat(129), principal: "q" }));
+
+const world = { worldW: 1000, worldH: 800 };
+check("pos inside the world accepted", accepts({ t: "pos", x: 10, y: 20, moving: true, face: -1 }, world));
+check("pos within the slack accepted", accepts({ t: "pos", x: -200, y: 1000 }, world));
+check("pos past the slack rejected", reason({ t: "pos", x: 1300, y: 0 }, world) === "pos: position out of bounds");
+check("same pos accepted once the world grows", accepts({ t: "pos", x: 1300, y: 0 }, { worldW: 2000, worldH: 800 }));
+check("NaN pos rejected", reason({ t: "pos", x: NaN, y: 0 }) === "pos: non-numeric position");
+check("bad face rejected", reason({ t: "pos", x: 0, y: 0, face: 0 }) === "pos: bad face");
+
+check("chat at the limit accepted", accepts({ t: "chat", text: "a".repeat(MAX_CHAT_CHARS) }));
+check("oversize chat rejected", reason({ t: "chat", text: "a".repeat(MAX_CHAT_CHARS + 1) }) === "chat: oversize chat");
+check("sealed chat accepted", accepts({ t: "chat", text: "", enc: "e".repeat(MAX_SEALED_CHARS), id: "m1", from: "p" }));
+check("oversize sealed chat rejected", !accepts({ t: "chat", text: "", enc: "e".repeat(MAX_SEALED_CHARS + 1) }));
+check("dm without enc rejected", reason({ t: "dm", id: "d1", to: "p", ts: 1 }) === "dm: bad sealed dm");
+
+const entry = ["peer-b", 1, 2, 100, 100, 1];
+check("gossip accepted", accepts({ t: "gossip", e: [entry] }, world));
+check("gossip entry off the map rejected", reason({ t: "gossip", e: [["peer-b", 1, 2, 5000, 100, 1]] }, world) === "gossip: bad gossip entry");
+check("gossip entry with a bad seq rejected", !accepts({ t: "gossip", e: [["peer-b", 70000, 2, 1, 1, 0]] }));
+check("oversize gossip rejected", reason({ t: "gossip", e: Array(MAX_GOSSIP_ENTRIES + 1).fill(entry) }) === "gossip: oversize gossip");
+check("state without entries rejected", reason({ t: "state" }) === "state: state without entries");
+check("state entry accepted", accepts({ t: "state", entries: [{ key: "door:1,1", value: true, clock: 3, peer: "p" }] }));
+check("state entry past safe integers rejected", reason({ t: "state", entries: [{ key: "door:1,1", value: true, clock: 1e300, peer: "p" }] }) === "state: bad state entry");
+check("state entry without a value rejected", !accepts({ t: "state", entries: [{ key: "door:1,1", clock: 3, peer: "p" }] }));
+check("interact with a numeric occupant rejected", !accepts({ t: "interact", id: "chair", occupant: 3 }));
+check("interact release accepted", accepts({ t: "interact", id: "chair", occupant: null }));
+check("relay slots over the cap rejected", !accepts({ t: "relay-slots", s: Array(17).fill(null) }));
+check("spin over the max rejected", reason({ t: "spin", dur: 6000 }) === "spin: bad spin duration");
+check("v1 door accepted", accepts({ t: "door", col: 3, row: 4, open: true, silent: true }));
+check("v1 door with a negative tile rejected", reason({ t: "door", col: -1, row: 4, open: true }) === "door: bad door tile");
+check("v1 door without a state rejected", reason({ t: "door", col: 1, row: 4 }) === "door: bad door state");
+
+// === NEGOTIATION ===
+const v1 = negotiate({});
+check("v1 hello: version 1, spin only", v1.v === 1 && v1.caps.size === 1 && v1.caps.has("spin"));
+const current = negotiate(makeHello("p", "q"));
+check("current hello: every local capability", current.v === PROTOCOL_VERSION && LOCAL_CAPABILITIES.every((c) => current.caps.has(c)));
+const newer = negotiate({ v: PROTOCOL_VERSION + 1, caps: ["gossip", "teleport", "spin"] });
+check("unknown capabilities dropped", newer.caps.size === 2 && newer.caps.has("gossip") && newer.caps.has("spin"));
+check("v1 peer gets core kinds", ["pos", "chat", "meta", "door", "door-sync-req", "spin"].every((t) => peerAccepts(v1, t as never)));
+check("v1 peer never gets optional kinds", ["state", "gossip", "interact", "av", "dm", "relay-slots"].every((t) => !peerAccepts(v1, t as never)));
+check("before hello: assume v1", ["state", "gossip"].every((t) => !peerAccepts(V1_PROTOCOL, t as never)) && peerAccepts(V1_PROTOCOL, "pos"));
+check("current peer gets everything", ["state", "gossip", "interact", "av", "dm", "relay-slots"].every((t) => peerAccepts(current, t as never)));
+check("doors: v1 via messages, current via state", speaksLegacyDoors(v1) && !speaksLegacyDoors(current));
+
+// === INVALID MESSAGE ACCOUNTING ===
+const stats = createInvalidMsgStats();
+const logged: number[] = [];
+for (let i = 1; i <= 200; i++) if (stats.note("pos: bad face")) logged.push(i);
+stats.note("chat: oversize chat");
+check("first three and every 100th logged", logged.join(",") === "1,2,3,100,200", logged.join(","));
+check("counts per reason", stats.total === 201 && stats.byReason.get("pos: bad face") === 200 && stats.byReason.get("chat: oversize chat") === 1);
+
+// === LOBBY ===
+const hello: LobbyMsg = { t: "presence-hello", from: "p", ts: 5, v: 2, caps: ["gossip"] };
+check("lobby hello accepted", parseLobbyMsg(hello).ok && !parseLobbyMsg(hello).legacy);
+const legacyHello = parseLobbyMsg({ kind: "presence", type: "hello", from: "p", ts: 5 });
+check("v1 presence envelope upgraded", legacyHello.ok && legacyHello.msg.t === "presence-hello" && legacyHello.legacy === true);
+const legacyChat = parseLobbyMsg({ kind: "chat", channel: "global", text: "hi", from: "p", ts: 5 });
+check("v1 global chat upgraded", legacyChat.ok && legacyChat.msg.t === "lobby-chat" && legacyChat.legacy === true);
+check("unknown v1 envelope rejected", !parseLobbyMsg({ kind: "presence", type: "wave" }).ok);
+const down = toLegacyLobby(hello);
+check("downgrade drops version and caps", down.kind === "presence" && down.type === "hello" && !("v" in down) && !("caps" in down) && !("t" in down));
+const back = parseLobbyMsg(toLegacyLobby({ t: "lobby-chat", text: "yo", from: "p", ts: 9 }));
+check("chat survives a downgrade round trip", back.ok && back.msg.t === "lobby-chat" && back.msg.text === "yo");
+check("oversize roster rejected", !parseLobbyMsg({ t: "presence-roster", from: "p", ts: 1, ids: Array(513).fill("x") }).ok);
+
+done("protocol ok");
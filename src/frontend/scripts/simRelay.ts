@@ -0,0 +1,295 @@
+/**
+ * Simulation of relay mode with headless peers.
+ *
+ * Peers join a room one by one, wander around, and later drop out again.
+ * Each one runs the real gossip table and relay election; the harness plays
+ * the network (overlay links plus links to the relay, one gossip hop per
+ * round) and stands in for WebRTC: the relay's slot assignment decides who
+ * hears whom. Reports whether everyone agrees on the mode and the relay,
+ * how much upstream a client saves, how well the slots cover what each
+ * listener should hear, and how long a handoff takes when the relay vanishes.
+ *
+ *   npm run sim:relay
+ */
+import { createGossipTable, createMediaRange, overlayNeighbours, type GossipTable, type TilePos } from "../src/lib/net/interest";
+import {
+    assignSlots,
+    createRelayMode,
+    G_RELAY_VOLUNTEER,
+    G_RELAYING,
+    pickSources,
+    RELAY_SLOTS,
+    type RelayDecision,
+    type RelayMode,
+    type Slots,
+} from "../src/lib/net/relay";
+import type { AudioRule } from "../src/components/world/map";
+import { check, done } from "./check";
+
+// === SEEDED RANDOM ===
+function mulberry32(seed: number) {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6d2b79f5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// === WORLD (a small office: one meeting room, one wide-radius lounge) ===
+const TILE = 16;
+const COLS = 40;
+const ROWS = 28;
+const DEFAULT_RADIUS = 2;
+
+const ZONES: Array<{ c0: number; r0: number; c1: number; r1: number; rule: AudioRule }> = [
+    { c0: 2, r0: 2, c1: 14, r1: 10, rule: { kind: "room", zoneId: 1 } },
+    { c0: 20, r0: 14, c1: 36, r1: 25, rule: { kind: "radius", radius: 6 } },
+];
+
+const ruleAt = (col: number, row: number): AudioRule =>
+    ZONES.find((z) => col >= z.c0 && col <= z.c1 && row >= z.r0 && row <= z.r1)?.rule ?? { kind: "default" };
+
+const reachOf = (r: AudioRule) => (r.kind === "radius" ? r.radius : DEFAULT_RADIUS);
+const cheb = (a: TilePos, b: TilePos) => Math.max(Math.abs(a.col - b.col), Math.abs(a.row - b.row));
+
+/** What the player actually hears (calcAudibility, either direction) */
+function audible(a: TilePos, b: TilePos) {
+    const ra = ruleAt(a.col, a.row);
+    const rb = ruleAt(b.col, b.row);
+    if (ra.kind === "room" || rb.kind === "room") return ra.kind === "room" && rb.kind === "room" && ra.zoneId === rb.zoneId;
+    return cheb(a, b) <= Math.max(reachOf(ra), reachOf(rb));
+}
+
+/** What Room hands the relay for choosing sources */
+const mediaInRange = createMediaRange(ruleAt, { defaultRadiusTiles: DEFAULT_RADIUS, marginTiles: 3 });
+
+// === PEERS ===
+type SimPeer = {
+    id: string;
+    x: number;
+    y: number;
+    goal: { x: number; y: number };
+    waitMs: number;
+    volunteer: boolean;
+    gossip: GossipTable;
+    relay: RelayMode;
+    /** Who this peer thinks is in the room (useRoomInterest's membersRef: joins by gossip, leaves by expiry) */
+    members: Set<string>;
+    /** Relay side: slots per listener */
+    slots: Map<string, Slots>;
+};
+
+const tileOf = (p: { x: number; y: number }): TilePos => ({ col: Math.floor(p.x / TILE), row: Math.floor(p.y / TILE) });
+const decisionKey = (d: RelayDecision) => (d.mode === "relay" ? `relay:${d.relay}` : "mesh");
+
+type Phase = { at: number; join?: number; leave?: number; crashRelay?: boolean };
+
+/** Seconds → room events */
+const SCRIPT: Phase[] = [
+    ...Array.from({ length: 15 }, (_, i) => ({ at: i, join: 1 })),
+    { at: 40, crashRelay: true },
+    { at: 60, leave: 5 },
+    // hover around the thresholds: 9 ↔ 10 participants
+    { at: 66, join: 1 }, { at: 70, leave: 1 }, { at: 74, join: 1 }, { at: 78, leave: 1 },
+    { at: 85, leave: 3 },
+];
+const END_S = 110;
+
+function simulate(seed: number) {
+    const rand = mulberry32(seed);
+    const randomSpot = () => ({ x: (1 + rand() * (COLS - 2)) * TILE, y: (1 + rand() * (ROWS - 2)) * TILE });
+    const peers = new Map<string, SimPeer>();
+    let nextId = 0;
+
+    const join = () => {
+        const id = `peer-${(nextId++ * 7919 % 100003).toString(36).padStart(4, "0")}`;
+        peers.set(id, {
+            id,
+            ...randomSpot(),
+            goal: randomSpot(),
+            waitMs: rand() * 3000,
+            // one in four is on a phone
+            volunteer: rand() > 0.25,
+            gossip: createGossipTable({ self: id }),
+            relay: createRelayMode(),
+            members: new Set(),
+            slots: new Map(),
+        });
+    };
+    const leave = (n: number) => {
+        const ids = [...peers.keys()];
+        for (let i = 0; i < n && ids.length; i++) peers.delete(ids.splice(Math.floor(rand() * ids.length), 1)[0]);
+    };
+
+    const flagsOf = (p: SimPeer) =>
+        (p.volunteer ? G_RELAY_VOLUNTEER : 0) | (p.relay.last.mode === "relay" && p.relay.last.relay === p.id ? G_RELAYING : 0);
+
+    /** Who is linked to whom this round: the overlay, plus relay ↔ everyone */
+    const linksOf = (p: SimPeer) => {
+        const present = [...peers.keys()];
+        const out = overlayNeighbours(p.id, present);
+        const d = p.relay.last;
+        if (d.mode === "relay" && peers.has(d.relay)) {
+            if (d.relay === p.id) present.forEach((id) => id !== p.id && out.add(id));
+            else out.add(d.relay);
+        }
+        return out;
+    };
+
+    const stats = {
+        seconds: [] as Array<{ t: number; size: number; agreed: boolean; key: string }>,
+        modeChanges: 0,
+        meshUplink: [] as number[],
+        relayClientUplink: [] as number[],
+        relayUplink: [] as number[],
+        wanted: 0,
+        covered: 0,
+        capped: 0,
+        reshuffles: 0,
+        handoffS: NaN,
+        meshAt: NaN,
+    };
+    let crashedAt = NaN;
+    const linked = new Map<string, Set<string>>();
+
+    const STEP_MS = 100;
+    for (let now = 0; now <= END_S * 1000; now += STEP_MS) {
+        if (now % 1000 === 0) {
+            for (const ev of SCRIPT.filter((e) => e.at * 1000 === now)) {
+                for (let i = 0; i < (ev.join ?? 0); i++) join();
+                if (ev.leave) leave(ev.leave);
+                if (ev.crashRelay) {
+                    const relays = [...peers.values()].map((p) => p.relay.last).filter((d) => d.mode === "relay");
+                    const victim = relays[0]?.mode === "relay" ? relays[0].relay : null;
+                    if (victim) { peers.delete(victim); crashedAt = now; }
+                }
+            }
+        }
+
+        // walk, same habits as the interest sim
+        for (const p of peers.values()) {
+            if (p.waitMs > 0) { p.waitMs -= STEP_MS; continue; }
+            const dx = p.goal.x - p.x, dy = p.goal.y - p.y;
+            const d = Math.hypot(dx, dy);
+            const step = 4 * TILE * STEP_MS / 1000;
+            if (d <= step) {
+                p.x = p.goal.x; p.y = p.goal.y;
+                const z = rand() < 0.4 ? ZONES[Math.floor(rand() * ZONES.length)] : null;
+                p.goal = z
+                    ? { x: (z.c0 + 1 + rand() * (z.c1 - z.c0 - 2)) * TILE, y: (z.r0 + 1 + rand() * (z.r1 - z.r0 - 2)) * TILE }
+                    : randomSpot();
+                p.waitMs = 1000 + rand() * 8000;
+            } else {
+                p.x += dx / d * step; p.y += dy / d * step;
+            }
+        }
+
+        // gossip round; a fresh link gets the whole table, like the hello handler sends
+        if (now % 500 === 0) {
+            const outbox: Array<[string, ReturnType<GossipTable["all"]>]> = [];
+            for (const p of peers.values()) {
+                p.gossip.setOwn(p.x, p.y, 1, p.waitMs <= 0, now, flagsOf(p));
+                const changed = p.gossip.takeChanged();
+                const before = linked.get(p.id) ?? new Set();
+                const links = linksOf(p);
+                linked.set(p.id, links);
+                for (const to of links) {
+                    if (!before.has(to)) outbox.push([to, p.gossip.all()]);
+                    else if (changed.length) outbox.push([to, changed]);
+                }
+            }
+            for (const [to, entries] of outbox) {
+                const p = peers.get(to);
+                if (p) for (const e of p.gossip.merge(entries, now)) p.members.add(e[0]);
+            }
+            for (const p of peers.values()) for (const pid of p.gossip.expire(now)) p.members.delete(pid);
+        }
+
+        if (now % 1000 !== 0) continue;
+
+        // each peer decides from what it knows
+        for (const p of peers.values()) {
+            const before = decisionKey(p.relay.last);
+            const d = p.relay.decide({ self: p.id, members: p.members, flagsOf: (pid) => p.gossip.flagsOf(pid) });
+            if (decisionKey(d) !== before) stats.modeChanges++;
+        }
+
+        const keys = new Set([...peers.values()].map((p) => decisionKey(p.relay.last)));
+        const key = [...keys][0] ?? "mesh";
+        stats.seconds.push({ t: now / 1000, size: peers.size, agreed: keys.size === 1, key });
+        if (!Number.isFinite(stats.handoffS) && Number.isFinite(crashedAt) && keys.size === 1 && key !== "mesh" && peers.has(key.slice(6))) {
+            stats.handoffS = (now - crashedAt) / 1000;
+        }
+        if (!Number.isFinite(stats.meshAt) && now >= 85_000 && keys.size === 1 && key === "mesh") stats.meshAt = now / 1000;
+
+        // forwarding: the relay picks from its own (gossiped) view, the harness checks against the truth
+        const relayId = key.startsWith("relay:") ? key.slice(6) : null;
+        const relay = relayId ? peers.get(relayId) : undefined;
+        if (keys.size !== 1) continue;
+        if (!relay) {
+            for (const p of peers.values()) {
+                let up = 0;
+                for (const q of peers.values()) if (q !== p && mediaInRange(tileOf(p), tileOf(q))) up++;
+                stats.meshUplink.push(up);
+            }
+            continue;
+        }
+        const known = new Map(relay.gossip.all().map((e) => [e[0], { col: Math.floor(e[3] / TILE), row: Math.floor(e[4] / TILE) }]));
+        const viewOf = (pid: string) => (pid === relay.id ? tileOf(relay) : known.get(pid) ?? null);
+        const ids = [...peers.keys()];
+        let relayUp = 0;
+        for (const lid of ids) {
+            if (lid === relay.id) continue;
+            const prev = relay.slots.get(lid) ?? [];
+            const { slots } = assignSlots(prev, pickSources(lid, ids, viewOf, mediaInRange));
+            for (let i = 0; i < slots.length; i++) {
+                // a source moved to another slot while still wanted: audible glitch
+                const was = prev[i] ?? null;
+                if (was && slots.includes(was) && slots[i] !== was) stats.reshuffles++;
+            }
+            relay.slots.set(lid, slots);
+            relayUp += slots.filter(Boolean).length;
+            stats.relayClientUplink.push(1);
+
+            const l = peers.get(lid)!;
+            const should = ids.filter((sid) => sid !== lid && audible(tileOf(l), tileOf(peers.get(sid)!)));
+            stats.wanted += Math.min(should.length, RELAY_SLOTS);
+            stats.covered += Math.min(should.filter((sid) => slots.includes(sid)).length, RELAY_SLOTS);
+            if (should.length > RELAY_SLOTS) stats.capped++;
+        }
+        stats.relayUplink.push(relayUp);
+    }
+    return stats;
+}
+
+// === RUN ===
+const avg = (xs: number[]) => (xs.length ? xs.reduce((s, v) => s + v, 0) / xs.length : 0);
+
+for (const seed of [7, 42, 1234]) {
+    const s = simulate(seed);
+    const at = (t: number) => s.seconds.find((x) => x.t === t)!;
+    const firstRelay = s.seconds.find((x) => x.key !== "mesh" && x.agreed);
+    const disagree = s.seconds.filter((x) => !x.agreed);
+    const hover = s.seconds.filter((x) => x.t >= 62 && x.t < 85);
+
+    console.log(`\nseed ${seed}: up to ${Math.max(...s.seconds.map((x) => x.size))} peers, ${END_S} s`);
+    console.log(`  relay from     ${firstRelay ? `${firstRelay.t} s at ${firstRelay.size} peers` : "never"}, ${s.modeChanges} mode changes across all peers`);
+    console.log(`  disagreement   ${disagree.length} s (${disagree.map((x) => x.t).join(", ") || "none"})`);
+    console.log(`  uplink         mesh avg ${avg(s.meshUplink).toFixed(1)} / max ${Math.max(0, ...s.meshUplink)} calls per peer; relay mode 1 per client, relay forwards ${avg(s.relayUplink).toFixed(1)} slots`);
+    console.log(`  coverage       ${s.wanted ? (s.covered / s.wanted * 100).toFixed(2) : "–"}% of audible sources in slots, ${s.capped} listener-seconds over ${RELAY_SLOTS} slots, ${s.reshuffles} reshuffles`);
+    console.log(`  handoff        ${Number.isFinite(s.handoffS) ? `${s.handoffS} s` : "never"} after the relay vanished; mesh again at ${Number.isFinite(s.meshAt) ? `${s.meshAt} s` : "never"}`);
+
+    check(`seed ${seed}: mesh while small`, at(5).key === "mesh" && at(5).agreed);
+    check(`seed ${seed}: relay once the room passes the threshold`, !!firstRelay && firstRelay.size >= 10 && firstRelay.t <= 13);
+    check(`seed ${seed}: everyone agrees on the mode`, disagree.length <= 6, `${disagree.length} s of disagreement`);
+    check(`seed ${seed}: no flapping around the threshold`, hover.every((x) => x.key !== "mesh"), hover.map((x) => x.size).join("/"));
+    check(`seed ${seed}: slots cover what listeners hear`, s.wanted > 0 && s.covered / s.wanted > 0.97, `${(s.covered / s.wanted * 100).toFixed(2)}%`);
+    check(`seed ${seed}: sources keep their slot`, s.reshuffles === 0);
+    check(`seed ${seed}: new relay after the old one vanishes`, s.handoffS <= 15, `${s.handoffS} s`);
+    check(`seed ${seed}: back to the mesh when the room shrinks`, Number.isFinite(s.meshAt));
+}
+
+done("relay mode ok");
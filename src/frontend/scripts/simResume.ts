@@ -0,0 +1,153 @@
+/**
+ * Headless checks for getting a room back after network drops
+ * (src/lib/net/resume.ts and RoomSession's reconnects).
+ *
+ * Uses the memory network's cut()/restore() to drop an id off the network:
+ * backoff waits, signaling coming back without peers leaving and
+ * re-entering, ICE restarts keeping channels up, links given up
+ * on when restarts don't help, registering from scratch after repeated
+ * failures, and the position snapshot a rejoin starts from.
+ *
+ *   npm run sim:resume
+ */
+import { createBackoff, guardLink, loadResumeSnapshot, saveResumeSnapshot, type LinkState } from "../src/lib/net/resume";
+import { createMemoryNetwork } from "../src/lib/net/memoryTransport";
+import { RoomSession, type RoomSessionOptions, type SessionState } from "../src/lib/net/session";
+import { check, done } from "./check";
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** Poll until `cond` holds or `ms` runs out */
+const until = async (cond: () => boolean, ms = 2000) => {
+    const end = Date.now() + ms;
+    while (!cond() && Date.now() < end) await sleep(5);
+    return cond();
+};
+
+// === BACKOFF ===
+const fixed = createBackoff({ baseMs: 100, maxMs: 1000, jitter: 0 });
+const waits = Array.from({ length: 6 }, () => fixed.next());
+check("waits double up to the cap", waits.join() === "100,200,400,800,1000,1000", waits.join());
+fixed.reset();
+check("reset starts over", fixed.next() === 100 && fixed.attempts === 1);
+const jittered = createBackoff({ baseMs: 1000, jitter: 0.5, random: () => 1 });
+check("jitter only shortens waits", jittered.next() === 500);
+
+// === SESSIONS ON ONE NETWORK ===
+const fast: Partial<RoomSessionOptions> = {
+    openTries: 1,
+    resume: { baseMs: 20, maxMs: 80, jitter: 0, attemptTimeoutMs: 30, reopenAfter: 3 },
+    linkGuard: { graceMs: 20, maxRestarts: 2, backoff: { baseMs: 30, maxMs: 30, jitter: 0 } },
+};
+
+const net = createMemoryNetwork({ latencyMs: 3, iceFailMs: 1500 });
+const a = new RoomSession(net.transport(), { selfId: "room-a", ...fast });
+const b = new RoomSession(net.transport(), { selfId: "room-b", ...fast });
+const presence: string[] = [];
+const states: SessionState[] = [];
+const links: LinkState[] = [];
+b.on("presence", (pid, here) => presence.push(`${pid}:${here}`));
+a.on("state", (s) => states.push(s));
+a.on("link", (_pid, label, state) => { if (label === "pos") links.push(state); });
+const got: unknown[] = [];
+b.subscribe("pos", (_pid, data) => got.push(data));
+
+await a.open();
+await b.open();
+a.dial("room-b");
+check("channels open", await until(() => a.isOpen("room-b", "pos") && a.isOpen("room-b", "chat") && b.isOpen("room-a")));
+const before = a.channel("room-b", "pos");
+
+// === SHORT DROP: SIGNALING AND ICE COME BACK ===
+net.cut("room-a");
+check("drop: session reconnecting", await until(() => a.state === "reconnecting"));
+check("messages sent while cut are lost", a.send("room-b", "pos", { x: 1 }) && (await sleep(20), got.length === 0));
+await sleep(60);
+check("reconnect keeps trying while cut", a.resumeAttempts >= 2, String(a.resumeAttempts));
+net.restore("room-a");
+check("signaling back: session open", await until(() => a.state === "open"), states.join(" → "));
+check("ICE restart brings the link back", await until(() => links.includes("recovered")), links.join(" → "));
+check("same channel, no presence flapping", a.channel("room-b", "pos") === before && presence.join() === "room-a:true", presence.join());
+a.send("room-b", "pos", { x: 2 });
+check("messages flow again", await until(() => got.length === 1 && (got[0] as any).x === 2));
+check("attempts reset once back", a.resumeAttempts === 0);
+
+// === RESTARTS THAT DON'T TAKE ===
+links.length = 0;
+const c = new RoomSession(net.transport(), { selfId: "room-c", ...fast });
+await c.open();
+a.dial("room-c");
+check("third peer joins", await until(() => a.isOpen("room-c")));
+const cLinks: LinkState[] = [];
+a.on("link", (pid, label, state) => { if (pid === "room-c" && label === "pos") cLinks.push(state); });
+net.cut("room-c");
+check("peer that stays away is given up on", await until(() => cLinks.includes("lost") && !a.channel("room-c"), 3000), cLinks.join(" → "));
+check("restarts were tried first", cLinks.filter((s) => s === "restarting").length === 2, cLinks.join(" → "));
+check("other peers unaffected", a.isOpen("room-b"));
+await c.close();
+net.restore("room-c");
+
+// === LONG DROP: REGISTER FROM SCRATCH ===
+presence.length = 0;
+const retries: number[] = [];
+a.on("retry", (n) => retries.push(n));
+net.cut("room-a");
+await until(() => retries.length >= 5, 3000);
+check("after a few tries, registers from scratch (channels dropped)", !a.channel("room-b") && presence.includes("room-a:false"), presence.join());
+net.restore("room-a");
+check("registered again", await until(() => a.state === "open", 3000), a.state);
+check("peers it had are dialled back", await until(() => a.isOpen("room-b") && b.isOpen("room-a"), 3000));
+check("backoff kept growing while down", retries.length >= 5 && retries[retries.length - 1] > retries[0], retries.join());
+
+// === GUARD ON ITS OWN ===
+/** A link whose ICE state we set by hand */
+const fakeLink = (canRestart = true) => {
+    const fns: Array<(s: RTCIceConnectionState) => void> = [];
+    const link = {
+        restarts: 0,
+        on: (e: string, fn: any) => { if (e === "ice") fns.push(fn); },
+        restartIce: () => { link.restarts++; return canRestart; },
+        ice: (s: RTCIceConnectionState) => fns.forEach((fn) => fn(s)),
+    };
+    return link;
+};
+const healing = fakeLink();
+const seen: LinkState[] = [];
+guardLink(healing, { graceMs: 30, onState: (s) => seen.push(s) });
+healing.ice("disconnected");
+healing.ice("connected");
+await sleep(50);
+check("heals within the grace period: no restart", healing.restarts === 0 && seen.join() === "interrupted,recovered", seen.join());
+let signaling = false;
+const waiting = fakeLink();
+const waitSeen: LinkState[] = [];
+guardLink(waiting, { graceMs: 10, canSignal: () => signaling, backoff: { baseMs: 10, jitter: 0 }, onState: (s) => waitSeen.push(s) });
+waiting.ice("disconnected");
+await sleep(40);
+check("no restart while signaling is down", waiting.restarts === 0);
+signaling = true;
+await sleep(40);
+check("restart once signaling is back", waiting.restarts >= 1 && waitSeen.includes("restarting"));
+const dead = fakeLink(false);
+const deadSeen: LinkState[] = [];
+guardLink(dead, { graceMs: 10, onState: (s) => deadSeen.push(s) });
+dead.ice("disconnected");
+await sleep(30);
+check("can't restart: lost straight away", deadSeen.includes("lost"));
+
+// === POSITION SNAPSHOT ===
+const store = new Map<string, string>();
+const storage = {
+    getItem: (k: string) => store.get(k) ?? null,
+    setItem: (k: string, v: string) => { store.set(k, v); },
+} as Storage;
+saveResumeSnapshot("r1", { x: 96, y: 160, face: -1, map: "office", at: 1000 }, storage);
+check("snapshot comes back", loadResumeSnapshot("r1", "office", 60_000, 2000, storage)?.x === 96);
+check("other map: ignored", loadResumeSnapshot("r1", "park", 60_000, 2000, storage) === null);
+check("too old: ignored", loadResumeSnapshot("r1", "office", 60_000, 100_000, storage) === null);
+store.set("pixeliy:resume:r2", "{not json");
+check("garbage: ignored", loadResumeSnapshot("r2", "office", 60_000, 2000, storage) === null);
+
+await Promise.all([a.close(), b.close()]);
+
+done("resume ok");
@@ -0,0 +1,76 @@
+/**
+ * Headless checks for replies, reactions, edits and mentions (src/lib/chat/rich.ts).
+ *
+ * Decodes chat bodies (plain lines from before, bad ones, unknown kinds),
+ * folds ops over messages in whatever order they arrive (edits and deletes
+ * only from the author, and only when vouched for; each person's last word
+ * on an emoji), and finds and highlights @mentions.
+ *
+ *   npm run sim:rich-chat
+ */
+import type { ChatLine } from "../src/lib/chat/history";
+import { addChatOps, decodeChatBody, encodeChatBody, findMentions, foldChat, mentionSegments, type ChatOp, type OpBody } from "../src/lib/chat/rich";
+import { check, done } from "./check";
+
+// === BODIES ===
+const reply = decodeChatBody(encodeChatBody({ k: "msg", text: "sure", re: "m1", at: ["p-bob"] }));
+check("message round trip", reply?.k === "msg" && reply.re === "m1" && reply.at?.[0] === "p-bob");
+check("plain line from before: a message", decodeChatBody("hello")?.k === "msg" && (decodeChatBody("42") as any)?.text === "42");
+check("JSON that isn't a body: a message with that text", (decodeChatBody('{"a":1}') as any)?.text === '{"a":1}');
+check("unknown kind: dropped", decodeChatBody('{"k":"poll","q":"?"}') === null);
+check("reaction outside the set: dropped", decodeChatBody(encodeChatBody({ k: "react", id: "m1", emoji: "💣", on: true })) === null);
+check("too many mentions: dropped", decodeChatBody(JSON.stringify({ k: "msg", text: "hi", at: Array(9).fill("p") })) === null);
+
+// === FOLDING ===
+const line = (id: string, from: string, text: string): ChatLine => ({ id, fromPeerId: from, label: from, text, ts: 1000, self: false });
+let seq = 0;
+const op = (from: string, ts: number, body: OpBody, vouched = true): ChatOp => ({ id: `op${++seq}`, from, ts, body, vouched });
+
+const lines = [line("m1", "alice", "helo"), line("m2", "bob", "hi")];
+let ops = new Map<string, ChatOp>();
+const edit1 = op("alice", 2000, { k: "edit", id: "m1", text: "hello" });
+const edit2 = op("alice", 3000, { k: "edit", id: "m1", text: "hello all" });
+ops = addChatOps(ops, [edit2, edit1]);
+check("edits apply in time order, whatever order they came in", foldChat(lines, ops.values())[0].text === "hello all" && foldChat(lines, ops.values())[0].edited === true);
+check("same op twice: same map back", addChatOps(ops, [edit1]) === ops);
+ops = addChatOps(ops, [op("bob", 2500, { k: "edit", id: "m1", text: "pwned" }), op("bob", 2600, { k: "del", id: "m1" })]);
+check("someone else's edit or delete: ignored", foldChat(lines, ops.values())[0].text === "hello all" && !foldChat(lines, ops.values())[0].deleted);
+ops = addChatOps(ops, [op("bob", 4000, { k: "del", id: "m2" }), op("bob", 5000, { k: "edit", id: "m2", text: "back" })]);
+const deleted = foldChat(lines, ops.values())[1];
+check("deleted stays deleted", deleted.deleted === true && deleted.text === "");
+// a relayed line only claims its sender: anyone with the room key can say it's alice
+const forged = op("alice", 3500, { k: "del", id: "m1" }, false);
+ops = addChatOps(ops, [forged]);
+check("relayed edit or delete, not vouched for: ignored", !foldChat(lines, ops.values())[0].deleted);
+ops = addChatOps(ops, [{ ...forged, vouched: true }]);
+check("the same op from history (vouched): counts", foldChat(lines, ops.values())[0].deleted === true);
+check("an unvouched copy doesn't undo that", addChatOps(ops, [forged]) === ops);
+ops.delete(forged.id);
+check("a message without ops comes through as is", foldChat([line("m3", "carol", "x")], ops.values())[0].text === "x");
+
+ops = addChatOps(ops, [
+    op("bob", 2000, { k: "react", id: "m1", emoji: "👍", on: true }),
+    op("carol", 2100, { k: "react", id: "m1", emoji: "👍", on: true }),
+    op("carol", 2200, { k: "react", id: "m1", emoji: "👍", on: false }),
+    op("carol", 2300, { k: "react", id: "m1", emoji: "🎉", on: true }),
+]);
+const reacted = foldChat(lines, ops.values())[0];
+check("reactions: last word per person wins", reacted.reactions?.["👍"]?.join() === "bob" && reacted.reactions?.["🎉"]?.join() === "carol",
+    JSON.stringify(reacted.reactions));
+ops = addChatOps(ops, [op("bob", 2400, { k: "react", id: "m1", emoji: "👍", on: false })]);
+check("emoji nobody has left: gone", !foldChat(lines, ops.values())[0].reactions?.["👍"]);
+
+const early = addChatOps(new Map(), [op("dave", 100, { k: "react", id: "m9", emoji: "❤️", on: true })]);
+check("op for a message not here yet waits for it", foldChat(lines, early.values()) === lines
+    && foldChat([...lines, line("m9", "erin", "late")], early.values())[2].reactions?.["❤️"]?.[0] === "dave");
+check("cap drops the oldest ops", addChatOps(ops, [op("x", 1, { k: "del", id: "zz" })], 3).size === 3);
+
+// === MENTIONS ===
+const people = [{ id: "p-alice", username: "alice" }, { id: "p-bob", username: "Bob_1" }, { id: "p-anon", username: "" }];
+check("mentions by username, any case, once each", findMentions("hey @bob_1 and @ALICE, @bob_1 again", people).join() === "p-bob,p-alice");
+check("unknown names and emails aren't mentions", findMentions("@nobody mail me at x@bob_1", people).length === 0);
+check("full stop after the name", findMentions("thanks @alice.", people).join() === "p-alice");
+const segs = mentionSegments("hi @alice and @ghost!", (n) => n.toLowerCase() === "alice");
+check("only known names highlighted", segs.map((s) => `${s.mention ? "*" : ""}${s.text}`).join("|") === "hi |*@alice| and @ghost!");
+
+done("rich chat ok");
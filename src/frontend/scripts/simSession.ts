@@ -0,0 +1,150 @@
+/**
+ * Simulation of RoomSession over the in-memory transport.
+ *
+ * Sessions register on one fake network and exercise what Room relies on:
+ * everyone dialling everyone at the same moment (one channel per pair and
+ * label must survive, the same one on both ends), presence, messages per
+ * label, hanging up, dials nobody answers, a signaling outage, media calls,
+ * a taken id, and leaving.
+ *
+ *   npm run sim:session
+ */
+import { createMemoryNetwork } from "../src/lib/net/memoryTransport";
+import { RoomSession, type SessionState } from "../src/lib/net/session";
+import type { MediaLink } from "../src/lib/net/transport";
+import { check, done } from "./check";
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+const N = 8;
+const LABELS = ["pos", "chat"];
+const DIAL_TIMEOUT_MS = 300;
+const net = createMemoryNetwork({ latencyMs: 8 });
+
+type Probe = {
+    session: RoomSession;
+    present: Set<string>;
+    presenceEvents: number;
+    got: Array<{ from: string; label: string; data: any }>;
+    states: SessionState[];
+    calls: MediaLink[];
+};
+
+const probe = (id: string): Probe => {
+    const session = new RoomSession(net.transport(), { selfId: id, labels: LABELS, dialTimeoutMs: DIAL_TIMEOUT_MS, openTries: 2 });
+    const p: Probe = { session, present: new Set(), presenceEvents: 0, got: [], states: [], calls: [] };
+    session.on("presence", (pid, here) => {
+        p.presenceEvents++;
+        if (here) p.present.add(pid); else p.present.delete(pid);
+    });
+    for (const label of LABELS) session.subscribe(label, (from, data) => p.got.push({ from, label, data }));
+    session.on("state", (s) => p.states.push(s));
+    session.on("call", (link) => p.calls.push(link));
+    return p;
+};
+
+const ids = Array.from({ length: N }, (_, i) => `room-peer${String(i).padStart(2, "0")}`);
+const peers = ids.map(probe);
+const opened = await Promise.all(peers.map((p) => p.session.open()));
+check("every session registers", opened.every(Boolean));
+
+// === EVERYONE DIALS EVERYONE AT ONCE ===
+for (const p of peers) for (const id of ids) p.session.dial(id);
+await sleep(300);
+
+let pairsOk = 0;
+let extra = 0;
+for (let i = 0; i < N; i++) {
+    for (let j = i + 1; j < N; j++) {
+        const a = peers[i].session;
+        const b = peers[j].session;
+        const both = LABELS.every((l) => a.isOpen(ids[j], l) && b.isOpen(ids[i], l));
+        if (both) pairsOk++;
+        // the winner is the lower id's dial: i dialled, so i owns the link
+        if (!a.dialedByUs(ids[j]) || b.dialedByUs(ids[i])) extra++;
+    }
+}
+const pairs = (N * (N - 1)) / 2;
+console.log(`\nfull race: ${pairsOk}/${pairs} pairs linked on every label, ${extra} pairs with the wrong owner`);
+check("every pair linked on every label", pairsOk === pairs);
+check("lower id owns every link", extra === 0);
+check("presence for everyone, once", peers.every((p) => p.present.size === N - 1 && p.presenceEvents === N - 1),
+    peers.map((p) => `${p.present.size}/${p.presenceEvents}`).join(" "));
+
+// === MESSAGES ===
+for (const [i, p] of peers.entries()) {
+    p.session.broadcast("chat", { t: "chat", n: i });
+    p.session.send(ids[(i + 1) % N], "pos", { t: "pos", n: i });
+}
+await sleep(100);
+const chatOk = peers.every((p, i) => {
+    const from = new Set(p.got.filter((g) => g.label === "chat").map((g) => g.data.n));
+    return from.size === N - 1 && !from.has(i);
+});
+const posOk = peers.every((p, i) => {
+    const pos = p.got.filter((g) => g.label === "pos");
+    return pos.length === 1 && pos[0].data.n === (i - 1 + N) % N;
+});
+check("broadcast reaches everyone else once", chatOk);
+check("send goes to one peer, on its label", posOk);
+
+// === HANGING UP ===
+peers[0].session.hangUp(ids[1]);
+await sleep(60);
+check("hang-up ends presence on both ends", !peers[0].present.has(ids[1]) && !peers[1].present.has(ids[0]));
+check("hang-up closes every label", LABELS.every((l) => !peers[0].session.channel(ids[1], l) && !peers[1].session.channel(ids[0], l)));
+peers[1].session.dial(ids[0]);
+await sleep(100);
+check("redial after hang-up", peers[0].present.has(ids[1]) && peers[1].session.dialedByUs(ids[0]));
+
+// === NOBODY ANSWERS ===
+peers[2].session.dial("room-nobody");
+check("unanswered dial is pending", !!peers[2].session.channel("room-nobody") && !peers[2].session.isOpen("room-nobody"));
+check("not expired early", peers[2].session.expireDials().length === 0);
+await sleep(DIAL_TIMEOUT_MS + 50);
+const expired = peers[2].session.expireDials();
+check("unanswered dial expires", expired.length === 1 && expired[0] === "room-nobody" && !peers[2].session.channel("room-nobody"));
+
+// === SIGNALING OUTAGE ===
+net.disconnect(ids[3]);
+await sleep(5);
+const midState = peers[3].session.state;
+await sleep(60);
+check("outage: reconnecting, then open again", midState === "reconnecting" && peers[3].session.state === "open",
+    peers[3].states.join(" → "));
+check("outage: links stay up", peers[3].present.size === N - 1);
+
+// === CALLS ===
+const fakeStream = (name: string) => ({ id: name } as unknown as MediaStream);
+const streams: Record<string, string> = {};
+const link = peers[4].session.call(ids[5], fakeStream("mic4"), { kind: "proximity-audio" });
+link?.on("stream", (s) => { streams.caller = s.id; });
+await sleep(30);
+const incoming = peers[5].calls.find((c) => c.peer === ids[4]);
+incoming?.on("stream", (s) => { streams.callee = s.id; });
+incoming?.answer(fakeStream("mic5"));
+await sleep(30);
+check("call arrives with its metadata", incoming?.metadata?.kind === "proximity-audio");
+check("streams cross both ways", streams.caller === "mic5" && streams.callee === "mic4", JSON.stringify(streams));
+let callClosed = false;
+incoming?.on("close", () => { callClosed = true; });
+link?.close();
+await sleep(30);
+check("hanging up a call reaches the other end", callClosed);
+
+// === TAKEN ID ===
+const twin = probe(ids[6]);
+const twinOpened = await twin.session.open();
+check("a taken id doesn't register", !twinOpened && twin.session.state === "closed", twin.states.join(" → "));
+
+// === LEAVING ===
+await peers[7].session.close();
+await sleep(60);
+const sawLeave = peers.slice(0, 7).every((p) => !p.present.has(ids[7]));
+check("leaving ends presence everywhere", sawLeave);
+check("leaving frees the id", !net.online().includes(ids[7]));
+check("close is quiet locally", peers[7].session.peers().length === 0);
+
+for (const p of peers.slice(0, 7)) await p.session.close();
+
+done("room session ok");
@@ -0,0 +1,277 @@
+/**
+ * Simulation of canister signaling with headless peers.
+ *
+ * An in-memory stand-in for the backend's signal mailbox (same semantics as
+ * SignalService.mo: append, filter by recipient, clear everything addressed
+ * to the caller) with query/update latency and some failed update calls.
+ * Clears take effect in the middle of their latency, so signals that land
+ * between a read and its clear are wiped, like on a real canister.
+ *
+ * Peers run the real canister sockets and trade PeerJS-shaped offers,
+ * answers and candidates with everyone else. Reports delivery (exactly once,
+ * nothing lost), batching, latency and idle polling, and checks that stale
+ * leftovers, spoofed senders and a reloaded tab are handled; then runs two
+ * peers over the canister and a fake PeerJS server at once.
+ *
+ *   npm run sim:signaling
+ */
+import { Principal } from "@dfinity/principal";
+import {
+    combineSockets,
+    createCanisterSocket,
+    SIGNAL_KIND,
+    type CanisterSocket,
+    type ServerMessage,
+    type SignalApi,
+    type SignalingSocket,
+} from "../src/lib/net/signaling";
+import type { Signal } from "../src/types/backend";
+import { check, done } from "./check";
+
+// === SEEDED RANDOM ===
+function mulberry32(seed: number) {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6d2b79f5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// === CANISTER STAND-IN (timings scaled down ~10x from mainnet) ===
+const QUERY_MS = 40;
+const UPDATE_MS = 150;
+const UPDATE_FAIL = 0.1;
+
+function createMemoryCanister(rnd: () => number) {
+    const rooms = new Map<string, Signal[]>();
+    const calls = { send: 0, get: 0, clear: 0, failed: 0 };
+    const jitter = (ms: number) => ms * (0.6 + rnd() * 0.8);
+
+    /** Runs `apply` halfway through the call, resolves at the end */
+    const call = <T>(ms: number, apply: () => T, mayFail: boolean) =>
+        new Promise<T>((resolve, reject) => {
+            const total = jitter(ms);
+            const fail = mayFail && rnd() < UPDATE_FAIL;
+            setTimeout(() => {
+                if (fail) { calls.failed++; setTimeout(() => reject(new Error("replica rejected")), total / 2); return; }
+                const out = apply();
+                setTimeout(() => resolve(out), total / 2);
+            }, total / 2);
+        });
+
+    return {
+        calls,
+        pending: () => [...rooms.values()].reduce((n, l) => n + l.length, 0),
+        /** Drop a signal straight into a mailbox (leftovers, forgeries) */
+        inject(roomId: string, s: Signal) {
+            rooms.set(roomId, [...(rooms.get(roomId) ?? []), s]);
+        },
+        apiFor(caller: Principal): SignalApi {
+            return {
+                sendSignal(roomId, s) {
+                    calls.send++;
+                    // the canister stamps the caller, whatever the signal says
+                    return call(UPDATE_MS, () => { rooms.set(roomId, [...(rooms.get(roomId) ?? []), { ...s, from: caller }]); }, true);
+                },
+                getSignals(roomId) {
+                    calls.get++;
+                    return call(QUERY_MS, () => (rooms.get(roomId) ?? []).filter((s) => s.to.toText() === caller.toText()), false);
+                },
+                clearSignals(roomId) {
+                    calls.clear++;
+                    return call(UPDATE_MS, () => { rooms.set(roomId, (rooms.get(roomId) ?? []).filter((s) => s.to.toText() !== caller.toText())); }, true);
+                },
+            };
+        },
+    };
+}
+
+// === PEERS ===
+const ROOM = "room1";
+const SOCKET_OPTS = { batchMs: 20, pollMinMs: 50, pollMaxMs: 800, retransmitMs: 600, maxTries: 6 };
+const principalN = (i: number) => Principal.fromUint8Array(new Uint8Array([7, i + 1]));
+const peerIdOf = (p: Principal) => `${ROOM}-${p.toText()}`;
+const principalOf = (pid: string) => (pid.startsWith(`${ROOM}-`) ? pid.slice(ROOM.length + 1) : pid);
+
+type Received = { key: string; at: number };
+
+function makePeer(canister: ReturnType<typeof createMemoryCanister>, i: number) {
+    const principal = principalN(i);
+    const id = peerIdOf(principal);
+    const socket = createCanisterSocket({ api: canister.apiFor(principal), roomId: ROOM, principalOf, ...SOCKET_OPTS });
+    const got: Received[] = [];
+    let open = false;
+    socket.on("message", (msg: ServerMessage) => {
+        if (msg.type === "OPEN") { open = true; return; }
+        got.push({ key: `${msg.src}>${id}|${msg.type}|${msg.payload?.connectionId}|${msg.payload?.n ?? 0}`, at: Date.now() });
+    });
+    return { id, principal, socket, got, isOpen: () => open };
+}
+
+type SimPeer = ReturnType<typeof makePeer>;
+
+const CANDIDATES = 4;
+
+/** What a PeerJS offer/answer exchange pushes through the server for one connection */
+function negotiate(a: SimPeer, b: SimPeer, connectionId: string, sentAt: Map<string, number>) {
+    const send = (from: SimPeer, to: SimPeer, type: string, n = 0) => {
+        sentAt.set(`${from.id}>${to.id}|${type}|${connectionId}|${n}`, Date.now());
+        from.socket.send({ type, dst: to.id, payload: { connectionId, type: "data", n, sdp: type === "CANDIDATE" ? undefined : { type: type.toLowerCase(), sdp: "v=0".padEnd(2500, "x") } } });
+    };
+    send(a, b, "OFFER");
+    for (let n = 1; n <= CANDIDATES; n++) send(a, b, "CANDIDATE", n);
+    // b answers once the offer arrives
+    const wait = setInterval(() => {
+        if (!b.got.some((g) => g.key === `${a.id}>${b.id}|OFFER|${connectionId}|0`)) return;
+        clearInterval(wait);
+        send(b, a, "ANSWER");
+        for (let n = 1; n <= CANDIDATES; n++) send(b, a, "CANDIDATE", n);
+    }, 5);
+    return () => clearInterval(wait);
+}
+
+async function runMesh(seed: number) {
+    const N = 6;
+    const canister = createMemoryCanister(mulberry32(seed));
+
+    // leftovers from a session ten minutes ago must not start anything
+    const stalePrincipal = principalN(1);
+    canister.inject(ROOM, {
+        from: stalePrincipal, to: principalN(0), kind: SIGNAL_KIND,
+        data: JSON.stringify({ v: 1, from: peerIdOf(stalePrincipal), s: "old", ts: Date.now() - 600_000, id: 1, m: [{ to: peerIdOf(principalN(0)), type: "OFFER", payload: { connectionId: "stale" } }] }),
+    });
+
+    const peers = Array.from({ length: N }, (_, i) => makePeer(canister, i));
+    for (const p of peers) p.socket.start(p.id);
+    const openBy = Date.now() + 3000;
+    while (peers.some((p) => !p.isOpen()) && Date.now() < openBy) await sleep(10);
+    check(`seed ${seed}: every socket opens`, peers.every((p) => p.isOpen()));
+
+    // a forgery: the packet claims to come from peer 2, the canister says peer 3 sent it
+    canister.inject(ROOM, {
+        from: principalN(3), to: principalN(0), kind: SIGNAL_KIND,
+        data: JSON.stringify({ v: 1, from: peers[2].id, s: "x", ts: Date.now(), id: 1, m: [{ to: peers[0].id, type: "OFFER", payload: { connectionId: "forged" } }] }),
+    });
+
+    // everyone opens a connection to everyone with a higher index, in bursts
+    const sentAt = new Map<string, number>();
+    const stops: Array<() => void> = [];
+    const startSignals = canister.calls.send;
+    for (let i = 0; i < N; i++) {
+        for (let j = i + 1; j < N; j++) stops.push(negotiate(peers[i], peers[j], `dc_${i}_${j}`, sentAt));
+        await sleep(30);
+    }
+    const doneBy = Date.now() + 15_000;
+    while (Date.now() < doneBy && peers.reduce((n, p) => n + p.got.length, 0) < sentAt.size) await sleep(50);
+    stops.forEach((s) => s());
+    const negotiationSignals = canister.calls.send - startSignals;
+
+    // go quiet and let polling back off
+    await sleep(4000);
+    const idleFrom = canister.calls.get;
+    await sleep(2000);
+    const idlePolls = (canister.calls.get - idleFrom) / N / 2;
+
+    const got = peers.flatMap((p) => p.got);
+    const counts = new Map<string, number>();
+    for (const g of got) counts.set(g.key, (counts.get(g.key) ?? 0) + 1);
+    const missing = [...sentAt.keys()].filter((k) => !counts.has(k));
+    const dupes = [...counts.values()].filter((n) => n > 1).length;
+    const unexpected = [...counts.keys()].filter((k) => !sentAt.has(k));
+    const latencies = got.filter((g) => sentAt.has(g.key)).map((g) => g.at - sentAt.get(g.key)!).sort((a, b) => a - b);
+    const pct = (q: number) => latencies[Math.min(latencies.length - 1, Math.floor(q * latencies.length))] ?? NaN;
+    const stats = peers.map((p) => p.socket.stats);
+    const sum = (f: (s: CanisterSocket["stats"]) => number) => stats.reduce((n, s) => n + f(s), 0);
+
+    console.log(`\nseed ${seed}: ${N} peers, ${sentAt.size} negotiation messages`);
+    console.log(`  delivery       ${sentAt.size - missing.length}/${sentAt.size}, ${dupes} duplicates emitted, ${sum((s) => s.duplicates)} duplicate batches dropped`);
+    console.log(`  batching       ${negotiationSignals} sendSignal calls (acks and ${sum((s) => s.retransmits)} retransmits included), ${(sentAt.size / Math.max(1, negotiationSignals)).toFixed(2)} messages per call`);
+    console.log(`  latency        p50 ${pct(0.5)} ms, p95 ${pct(0.95)} ms (update ${UPDATE_MS} ms, poll ${SOCKET_OPTS.pollMinMs}-${SOCKET_OPTS.pollMaxMs} ms)`);
+    console.log(`  canister       ${canister.calls.send} send / ${canister.calls.get} get / ${canister.calls.clear} clear, ${canister.calls.failed} failed updates, ${canister.pending()} signals left`);
+    console.log(`  idle           ${idlePolls.toFixed(2)} polls/s per peer, poll delay ${Math.min(...stats.map((s) => s.pollDelayMs))}-${Math.max(...stats.map((s) => s.pollDelayMs))} ms`);
+
+    check(`seed ${seed}: every message arrives`, missing.length === 0, missing.slice(0, 3).join(", "));
+    check(`seed ${seed}: nothing arrives twice`, dupes === 0);
+    check(`seed ${seed}: stale and forged offers ignored`, unexpected.length === 0, unexpected.join(", "));
+    check(`seed ${seed}: messages batched`, sentAt.size / negotiationSignals >= 2, `${(sentAt.size / negotiationSignals).toFixed(2)} per call`);
+    check(`seed ${seed}: polling backs off when idle`, idlePolls <= 2.5 && stats.every((s) => s.pollDelayMs >= SOCKET_OPTS.pollMaxMs / 2));
+    check(`seed ${seed}: consumed signals are cleared`, canister.pending() === 0, `${canister.pending()} left`);
+    check(`seed ${seed}: nothing given up on`, sum((s) => s.lost) === 0);
+
+    // a reloaded tab starts its batch ids over; it must not look like a replay
+    peers[1].socket.close();
+    const reloaded = makePeer(canister, 1);
+    reloaded.socket.start(reloaded.id);
+    while (!reloaded.isOpen()) await sleep(10);
+    const before = peers[0].got.length;
+    reloaded.socket.send({ type: "OFFER", dst: peers[0].id, payload: { connectionId: "after_reload" } });
+    const reloadBy = Date.now() + 5000;
+    while (peers[0].got.length === before && Date.now() < reloadBy) await sleep(20);
+    check(`seed ${seed}: reloaded tab gets through`, peers[0].got.some((g) => g.key.includes("after_reload")));
+
+    for (const p of [...peers, reloaded]) p.socket.close();
+}
+
+// === CANISTER + PEERJS SERVER ===
+/** A PeerJS server in a box: routes by dst, stamps src */
+function createHub() {
+    const sockets = new Map<string, (msg: ServerMessage) => void>();
+    return {
+        socket(): SignalingSocket & { drop(): void } {
+            const handlers = new Map<string, Array<(arg?: any) => void>>();
+            const emit = (e: string, arg?: unknown) => (handlers.get(e) ?? []).forEach((fn) => fn(arg));
+            let id = "";
+            return {
+                start(pid) { id = pid; sockets.set(id, (m) => emit("message", m)); setTimeout(() => emit("message", { type: "OPEN" }), 5); },
+                send(msg) { const to = msg.dst && sockets.get(msg.dst); if (to) setTimeout(() => to({ ...msg, src: id }), 10); },
+                close() { sockets.delete(id); },
+                on(e, fn) { handlers.set(e, [...(handlers.get(e) ?? []), fn]); },
+                removeAllListeners() { handlers.clear(); },
+                drop() { sockets.delete(id); emit("disconnected"); },
+            };
+        },
+    };
+}
+
+async function runCombined(seed: number) {
+    const canister = createMemoryCanister(mulberry32(seed));
+    const hub = createHub();
+    const mk = (i: number) => {
+        const principal = principalN(i);
+        const ws = hub.socket();
+        const socket = combineSockets([createCanisterSocket({ api: canister.apiFor(principal), roomId: ROOM, principalOf, ...SOCKET_OPTS }), ws]);
+        const got: string[] = [];
+        const events: string[] = [];
+        socket.on("message", (m: ServerMessage) => got.push(`${m.type}|${m.payload?.connectionId ?? ""}`));
+        socket.on("disconnected", () => events.push("disconnected"));
+        socket.on("error", () => events.push("error"));
+        const id = peerIdOf(principal);
+        socket.start(id);
+        return { id, ws, socket, got, events };
+    };
+    const a = mk(0);
+    const b = mk(1);
+    await sleep(500);
+    a.socket.send({ type: "OFFER", dst: b.id, payload: { connectionId: "both", sdp: { sdp: "v=0" } } });
+    await sleep(1500);
+    b.ws.drop();
+    a.socket.send({ type: "OFFER", dst: b.id, payload: { connectionId: "canister_only", sdp: { sdp: "v=0" } } });
+    await sleep(1500);
+
+    console.log(`\ncombined: b received ${b.got.join(", ")}; events ${b.events.join(", ") || "none"}`);
+    check("combined: one OPEN", b.got.filter((g) => g.startsWith("OPEN")).length === 1);
+    check("combined: offer sent both ways arrives once", b.got.filter((g) => g === "OFFER|both").length === 1);
+    check("combined: still reachable after the PeerJS server drops", b.got.includes("OFFER|canister_only") && b.events.length === 0);
+    a.socket.close();
+    b.socket.close();
+}
+
+for (const seed of [7, 42, 1234]) await runMesh(seed);
+await runCombined(7);
+
+done("canister signaling ok");
@@ -0,0 +1,166 @@
+/**
+ * Headless checks for the Tiled importer (components/world/tiled.ts).
+ *
+ * Builds small .tmj documents by hand: CSV and Base64 tile layers, tile
+ * properties and animations, spawn / audio / door objects, an external
+ * tileset, and every way an import should be refused (flipped tiles, bad
+ * Base64, compression, wrong sizes, unknown layers, missing tilesets). TMX
+ * goes through DOMParser, which Node doesn't have, so only the JSON side runs
+ * here; both end up in the same converter.
+ *
+ *   npm run sim:tiled
+ */
+import { validateMapDef, type MapDef } from "../src/components/world/mapFormat";
+import { importTiledMap, TiledImportError } from "../src/components/world/tiled";
+import { check, done } from "./check";
+
+/** The issues an import was refused with, or null if it went through */
+const refused = (source: string | object, opts?: Parameters<typeof importTiledMap>[1]): string[] | null => {
+    try {
+        importTiledMap(source, opts);
+        return null;
+    } catch (e) {
+        if (e instanceof TiledImportError) return e.issues;
+        return [`not a TiledImportError: ${(e as Error).name}: ${(e as Error).message}`];
+    }
+};
+const mentions = (issues: string[] | null, text: string) => !!issues?.some((i) => i.includes(text));
+
+/** Tiled's Base64 layer encoding: little-endian uint32 per gid */
+const base64Gids = (gids: number[]) => {
+    const bytes = new Uint8Array(gids.length * 4);
+    const view = new DataView(bytes.buffer);
+    gids.forEach((g, i) => view.setUint32(i * 4, g >>> 0, true));
+    return btoa(String.fromCharCode(...bytes));
+};
+
+const COLS = 4;
+const ROWS = 3;
+const FLOOR = [1, 1, 2, 2, 1, 1, 2, 2, 3, 3, 3, 3];
+const WALL = [5, 5, 5, 5, 0, 0, 0, 0, 0, 0, 0, 6];
+
+const tileset = (over: object = {}) => ({
+    firstgid: 1,
+    name: "base",
+    tilewidth: 16,
+    tileheight: 16,
+    tilecount: 16,
+    columns: 4,
+    image: "tiles.png",
+    imagewidth: 64,
+    imageheight: 64,
+    tiles: [
+        { id: 4, properties: [{ name: "solid", type: "bool", value: true }] },
+        { id: 5, properties: [{ name: "door", value: "closed" }, { name: "solid", type: "bool", value: true }] },
+        { id: 6, properties: [{ name: "door", value: "open" }] },
+        { id: 2, animation: [{ tileid: 2, duration: 200 }, { tileid: 3, duration: 200 }] },
+    ],
+    ...over,
+});
+
+const tmj = (over: { layers?: object[]; tilesets?: object[]; [k: string]: unknown } = {}) => ({
+    orientation: "orthogonal",
+    width: COLS,
+    height: ROWS,
+    tilewidth: 16,
+    tileheight: 16,
+    tilesets: [tileset()],
+    layers: [
+        { type: "tilelayer", name: "floor", width: COLS, height: ROWS, data: FLOOR },
+        { type: "tilelayer", name: "walls", width: COLS, height: ROWS, encoding: "base64", data: base64Gids(WALL) },
+        {
+            type: "objectgroup",
+            name: "markers",
+            objects: [
+                { id: 1, type: "spawn", x: 16, y: 16, width: 32, height: 16 },
+                { id: 2, class: "audio", x: 0, y: 0, width: 64, height: 48, properties: [{ name: "zone", type: "int", value: 3 }] },
+                { id: 3, type: "door", x: 32, y: 32, width: 16, height: 16, properties: [{ name: "open", type: "bool", value: true }] },
+            ],
+        },
+    ],
+    properties: [{ name: "name", value: "Tiny office" }],
+    ...over,
+});
+
+// === CSV + BASE64 ===
+const def = importTiledMap(tmj(), { id: "tiny", idOffset: 1000 });
+const row = (layer: number[], r: number) => layer.slice(r * COLS, (r + 1) * COLS).map((g) => (g ? g + 1000 : 0));
+check("CSV layer lands on floor, offset by idOffset", [0, 1, 2].every((r) => def.layers.floor[r].join() === row(FLOOR, r).join()));
+check("Base64 layer lands on wall", def.layers.wall![0].join() === row(WALL, 0).join());
+check("door object swaps in the open door tile", def.layers.wall![2][2] === 1007 && def.layers.wall![2][3] === 1006);
+check("only the tiles used are declared", def.tiles.map((t) => t.id).sort().join() === "1001,1002,1003,1005,1006,1007");
+const t5 = def.tiles.find((t) => t.id === 1005);
+check("tile properties: solid, and shadow on by default", t5?.solid === true && t5.shadow === true && def.tiles.find((t) => t.id === 1001)?.solid === false);
+check("atlas slice from the tileset grid", t5?.cx === 0 && t5.cy === 1);
+const anim = def.tiles.find((t) => t.id === 1003);
+check("animation becomes frames", anim?.frames?.length === 2 && anim.frames[1].cx === 3 && anim.frames[1].ms === 200);
+check("door roles from tile properties", def.doors?.closed === 1006 && def.doors.open === 1007);
+check("spawn and audio objects become tile rects",
+    def.spawns?.[0].c0 === 1 && def.spawns[0].c1 === 2 && def.spawns[0].r0 === 1
+    && def.audioZones?.[0].kind === "room" && def.audioZones[0].rect.c1 === 3 && def.audioZones[0].rect.r1 === 2);
+check("map name from its properties", def.name === "Tiny office");
+let valid: MapDef | null = null;
+try { valid = validateMapDef(def, { hasTile: () => false, hasAtlas: () => false }); } catch (e) { console.log((e as Error).message); }
+check("result passes the map validator on its own", valid !== null);
+check("Base64 with Tiled's line breaks", importTiledMap(tmj({
+    layers: [{ type: "tilelayer", name: "floor", encoding: "base64", data: `\n   ${base64Gids(FLOOR).replace(/(.{8})/g, "$1\n   ")}\n` }],
+})).layers.floor[2][0] === 1003);
+check("JSON text as well as objects", importTiledMap(JSON.stringify(tmj())).layers.floor[0][0] === 1001);
+check("grouped layers are flattened", importTiledMap(tmj({
+    layers: [{ type: "group", name: "g", layers: [{ type: "tilelayer", name: "ground", data: FLOOR }] }],
+})).layers.floor[1][3] === 1002);
+check("a 'layer' property beats the layer's name", importTiledMap(tmj({
+    layers: [{ type: "tilelayer", name: "Layer 1", data: FLOOR, properties: [{ name: "layer", value: "top" }] }],
+})).layers.top?.[0][0] === 1001);
+
+// === EXTERNAL TILESETS ===
+const external = { ...tileset(), firstgid: undefined, name: "shared" };
+const ext = tmj({ tilesets: [{ firstgid: 1, source: "sets/shared.tsj" }] });
+check("external tileset not provided: refused, naming it", mentions(refused(ext), "'sets/shared.tsj' is external"));
+const extDef = importTiledMap(ext, { id: "ext", externalTilesets: { "sets/shared.tsj": JSON.stringify(external) } });
+check("external tileset provided: used, firstgid from the map", extDef.layers.floor[0][0] === 1001 && Object.keys(extDef.atlases).join() === "tiled:ext:shared");
+check("second tileset picks up at its firstgid", importTiledMap(tmj({
+    tilesets: [tileset(), { ...tileset({ name: "more", image: "more.png" }), firstgid: 17, tiles: [] }],
+    layers: [{ type: "tilelayer", name: "floor", data: [17, 18, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1] }],
+})).tiles.find((t) => t.id === 1018)?.atlas === "tiled:map:more");
+
+// === REFUSED ===
+const FLIP_H = 0x80000000;
+check("flipped tiles (CSV)", mentions(refused(tmj({
+    layers: [{ type: "tilelayer", name: "floor", data: [FLOOR[0] + FLIP_H, ...FLOOR.slice(1)] }],
+})), "'floor': 1 flipped/rotated"));
+check("flipped tiles (Base64)", mentions(refused(tmj({
+    layers: [{ type: "tilelayer", name: "floor", encoding: "base64", data: base64Gids(FLOOR.map((g) => g + 0x40000000)) }],
+})), "'floor': 12 flipped/rotated"));
+const badB64 = refused(tmj({ layers: [{ type: "tilelayer", name: "walls", encoding: "base64", data: "AAAA$$$$" }] }));
+check("bad Base64: an issue naming the layer, not a DOMException", mentions(badB64, "'walls': data is not valid Base64"), badB64?.join("; "));
+check("compressed layers", mentions(refused(tmj({
+    layers: [{ type: "tilelayer", name: "floor", encoding: "base64", compression: "zlib", data: "eJw=" }],
+})), "zlib compression is not supported"));
+check("wrong tile count", mentions(refused(tmj({ layers: [{ type: "tilelayer", name: "floor", data: [1, 2, 3] }] })), "expected 12 tiles, got 3"));
+check("layer with no known name", mentions(refused(tmj({ layers: [{ type: "tilelayer", name: "Layer 1", data: FLOOR }] })), "'Layer 1': name it"));
+check("chunked layers", mentions(refused(tmj({ layers: [{ type: "tilelayer", name: "floor", chunks: [] }] })), "chunked (infinite)"));
+check("non-orthogonal and infinite maps", mentions(refused(tmj({ orientation: "isometric" })), "isometric maps")
+    && mentions(refused(tmj({ infinite: true })), "infinite maps"));
+check("gid past every tileset", mentions(refused(tmj({ layers: [{ type: "tilelayer", name: "floor", data: FLOOR.map(() => 99) }] })), "without a usable tileset: 99"));
+check("image collection tilesets", mentions(refused(tmj({ tilesets: [tileset({ image: undefined })] })), "image collection"));
+check("bad animation frames", mentions(refused(tmj({
+    tilesets: [tileset({ tiles: [{ id: 0, animation: [{ tileid: 40, duration: 100 }] }] })],
+    layers: [{ type: "tilelayer", name: "floor", data: FLOOR }],
+})), "tile 1: animation frames"));
+check("door objects without door tiles", mentions(refused(tmj({ tilesets: [tileset({ tiles: [] })] })), "doors need tiles"));
+check("audio object without zone or radius", mentions(refused(tmj({
+    layers: [{ type: "tilelayer", name: "floor", data: FLOOR }, { type: "objectgroup", name: "o", objects: [{ id: 9, type: "audio", x: 0, y: 0 }] }],
+})), "object 9 in 'o': audio zone"));
+check("not JSON", mentions(refused("{ nope"), "not valid JSON"));
+const many = refused(tmj({
+    orientation: "orthogonal",
+    layers: [
+        { type: "tilelayer", name: "floor", data: [1] },
+        { type: "tilelayer", name: "walls", encoding: "base64", data: "%%%" },
+        { type: "tilelayer", name: "Layer 3", data: FLOOR },
+    ],
+}));
+check("every problem at once", many?.length === 3, many?.join("; "));
+
+done("tiled ok");
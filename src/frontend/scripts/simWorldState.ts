@@ -0,0 +1,213 @@
+/**
+ * Deterministic simulation of the replicated world state.
+ *
+ * Runs several peers over a fake network that reorders and drops messages
+ * (seeded PRNG, so every run is identical) and checks that they all converge
+ * on the same entries, plus a few hand-written conflict scenarios.
+ *
+ *   npm run sim:state
+ */
+import {
+    MAX_CLOCK_LEAD,
+    createReplicatedState,
+    type ReplicatedState,
+    type StateMsg,
+    type StateValue,
+} from "../src/lib/net/replicatedState";
+import { check, done } from "./check";
+
+// === SEEDED RANDOM ===
+function mulberry32(seed: number) {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6d2b79f5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// === FAKE NETWORK ===
+type NetOptions = { seed: number; dropRate: number; maxDelay: number };
+type InFlight = { at: number; seq: number; from: string; to: string; msg: StateMsg };
+
+class SimNet {
+    readonly peers = new Map<string, ReplicatedState>();
+    private queue: InFlight[] = [];
+    private links = new Set<string>();
+    private seq = 0;
+    private rand: () => number;
+    now = 0;
+    dropped = 0;
+    delivered = 0;
+
+    constructor(private readonly opts: NetOptions) {
+        this.rand = mulberry32(opts.seed);
+    }
+
+    add(id: string) {
+        const state = createReplicatedState({
+            peerId: id,
+            send: (to, msg) => {
+                const targets = to === null ? [...this.peers.keys()].filter((p) => p !== id) : [to];
+                for (const t of targets) if (this.connected(id, t)) this.post(id, t, msg);
+            },
+        });
+        this.peers.set(id, state);
+        return state;
+    }
+
+    connect(a: string, b: string) {
+        this.links.add(`${a}|${b}`);
+        this.links.add(`${b}|${a}`);
+    }
+
+    connectAll() {
+        const ids = [...this.peers.keys()];
+        for (const a of ids) for (const b of ids) if (a !== b) this.connect(a, b);
+    }
+
+    connected(a: string, b: string) {
+        return this.links.has(`${a}|${b}`);
+    }
+
+    private post(from: string, to: string, msg: StateMsg) {
+        if (this.rand() < this.opts.dropRate) { this.dropped++; return; }
+        const delay = 1 + Math.floor(this.rand() * this.opts.maxDelay);
+        // structured clone: peers must never share entry objects
+        this.queue.push({ at: this.now + delay, seq: this.seq++, from, to, msg: JSON.parse(JSON.stringify(msg)) });
+    }
+
+    /** Deliver everything due at the current tick (arrival order, not send order) */
+    tick() {
+        this.now++;
+        const due = this.queue.filter((m) => m.at <= this.now).sort((a, b) => a.at - b.at || a.seq - b.seq);
+        this.queue = this.queue.filter((m) => m.at > this.now);
+        for (const m of due) {
+            this.delivered++;
+            this.peers.get(m.to)?.receive(m.from, m.msg);
+        }
+    }
+
+    get idle() { return this.queue.length === 0; }
+
+    /** One anti-entropy round, then drain the network */
+    settle(rounds = 40) {
+        for (let i = 0; i < rounds; i++) {
+            for (const p of this.peers.values()) p.sendDigest();
+            for (let t = 0; t < this.opts.maxDelay * 4 && !this.idle; t++) this.tick();
+            while (!this.idle) this.tick();
+            if (this.converged()) return i + 1;
+        }
+        return -1;
+    }
+
+    converged() {
+        const digests = new Set([...this.peers.values()].map((p) => p.digest()));
+        return digests.size === 1;
+    }
+}
+
+// === CHECKS ===
+const valuesOf = (s: ReplicatedState) =>
+    JSON.stringify(s.entries().map((e) => [e.key, e.value]).sort((a, b) => String(a[0]).localeCompare(String(b[0]))));
+
+function scenarioTieBreak() {
+    const net = new SimNet({ seed: 1, dropRate: 0, maxDelay: 5 });
+    const a = net.add("peer-a");
+    const b = net.add("peer-b");
+    const c = net.add("peer-c");
+    net.connectAll();
+    // same clock on both writes: the lower peer id has to win everywhere
+    c.set("door:3,4", true);
+    a.set("door:3,4", false);
+    while (!net.idle) net.tick();
+    const ok = [a, b, c].every((p) => p.get("door:3,4") === false && p.entry("door:3,4")?.peer === "peer-a");
+    check("equal clocks resolve to the lower peer id", ok);
+}
+
+function scenarioReorder() {
+    const net = new SimNet({ seed: 2, dropRate: 0, maxDelay: 1 });
+    const a = net.add("a");
+    const b = net.add("b");
+    net.connectAll();
+    const first = a.set("trigger:lamp", true);
+    const second = a.set("trigger:lamp", false);
+    // hand the newer write to b first
+    b.receive("a", { t: "state", entries: [second] });
+    b.receive("a", { t: "state", entries: [first] });
+    check("older write arriving late is ignored", b.get("trigger:lamp") === false);
+    check("receiving bumps the Lamport clock", b.clock >= second.clock);
+    const third = b.set("trigger:lamp", true);
+    check("next local write outranks everything seen", third.clock > second.clock);
+}
+
+function scenarioHostile() {
+    const net = new SimNet({ seed: 4, dropRate: 0, maxDelay: 1 });
+    const a = net.add("a");
+    net.add("b");
+    net.connectAll();
+    a.set("door:5,5", true);
+    a.receive("m", { t: "state", entries: [{ key: "door:5,5", value: false, clock: a.clock + MAX_CLOCK_LEAD + 1, peer: "m" }] });
+    check("clock too far ahead: ignored", a.get("door:5,5") === true && a.clock < MAX_CLOCK_LEAD);
+    a.receive("m", { t: "state", entries: [{ key: "door:5,5", value: false, clock: a.clock + 1, peer: "b" }] });
+    check("delta naming someone else as writer: ignored", a.get("door:5,5") === true);
+    a.receive("m", { t: "state", entries: [{ key: "door:5,5", value: false, clock: a.clock + MAX_CLOCK_LEAD, peer: "m" }] });
+    a.set("door:5,5", true);
+    check("after the largest jump allowed, a local write still wins", a.get("door:5,5") === true);
+}
+
+function scenarioLateJoin() {
+    const net = new SimNet({ seed: 3, dropRate: 0, maxDelay: 4 });
+    const a = net.add("a");
+    const b = net.add("b");
+    net.connect("a", "b");
+    a.set("door:1,1", true);
+    b.set("door:2,2", true);
+    b.delete("door:1,1");
+    while (!net.idle) net.tick();
+
+    const late = net.add("z");
+    net.connectAll();
+    late.requestSync("a");
+    while (!net.idle) net.tick();
+    check("late joiner converges from one snapshot", valuesOf(late) === valuesOf(a) && net.converged());
+    check("deletes survive as tombstones", late.get("door:1,1") === null);
+}
+
+function scenarioChaos(seed: number) {
+    const net = new SimNet({ seed, dropRate: 0.25, maxDelay: 12 });
+    const ids = ["p1", "p2", "p3", "p4", "p5"];
+    for (const id of ids) net.add(id);
+    net.connectAll();
+    const rand = mulberry32(seed * 7919);
+    const keys = ["door:4,2", "door:9,2", "door:4,11", "trigger:lamp", "trigger:tv"];
+
+    for (let step = 0; step < 400; step++) {
+        const writes = Math.floor(rand() * 3);
+        for (let i = 0; i < writes; i++) {
+            const p = net.peers.get(ids[Math.floor(rand() * ids.length)])!;
+            const key = keys[Math.floor(rand() * keys.length)];
+            const value: StateValue = rand() < 0.1 ? null : rand() < 0.5;
+            p.set(key, value);
+        }
+        net.tick();
+    }
+    while (!net.idle) net.tick();
+    const rounds = net.settle();
+    const same = new Set([...net.peers.values()].map(valuesOf)).size === 1;
+    check(
+        `seed ${seed}: 5 peers, 25% drops, reordering`,
+        rounds > 0 && same,
+        `${net.delivered} delivered, ${net.dropped} dropped, converged after ${rounds} digest round(s)`
+    );
+}
+
+scenarioTieBreak();
+scenarioReorder();
+scenarioHostile();
+scenarioLateJoin();
+for (const seed of [11, 23, 42, 1337]) scenarioChaos(seed);
+
+done("all replicas converged");
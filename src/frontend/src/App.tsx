@@ -5,6 +5,7 @@ import Home from './pages/Home';
 import Profile from './pages/Profile';
 import Dashboard from './pages/Dashboard';
 import Room from './pages/Room';
+import MapEditor from './pages/MapEditor';
 import NotFound from './pages/NotFound';
 
 function App() {
@@ -17,6 +18,7 @@ function App() {
                         <Route path="/profile" element={<Profile />} />
                         <Route path="/dashboard" element={<Dashboard />} />
                         <Route path="/room/:id" element={<Room />} />
+                        <Route path="/room/:id/edit" element={<MapEditor />} />
                         <Route path="*" element={<NotFound />} />
                     </Routes>
                 </Router>
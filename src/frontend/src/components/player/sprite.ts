@@ -25,7 +25,7 @@ export type OutfitParts = {
   hand_item_extras?: Array<{ img: CanvasImageSource; ox: number; oy: number }>;
 };
 
-export type DrawOverrides = { armFrontRot?: number; armBackRot?: number };
+export type DrawOverrides = { armFrontRot?: number; armBackRot?: number; seated?: boolean };
 
 const SIZE = 32;
 const BASE = "/assets/base/";
@@ -117,15 +117,23 @@ export function drawPlayerSprite(
 ) {
   const FOOT_BOB = 2;
   const MAX_ARM = (45 * Math.PI) / 180;
+  // seated: body sinks into the seat, feet stick out forward, arms rest on the lap
+  const SIT_DROP = 3;
+  const SIT_FEET_OX = 3;
+  const SIT_ARM = (-20 * Math.PI) / 180;
 
-  const base = Math.sin(anim.phase) * MAX_ARM * anim.amp;
+  const seated = !!overrides?.seated;
+  const amp = seated ? 0 : anim.amp;
+  const base = Math.sin(anim.phase) * MAX_ARM * amp;
 
-  const angFront = overrides?.armFrontRot ?? base;
-  const angBack = overrides?.armBackRot ?? -base;
+  const angFront = overrides?.armFrontRot ?? (seated ? SIT_ARM : base);
+  const angBack = overrides?.armBackRot ?? (seated ? SIT_ARM : -base);
 
   const half = (v: number) => Math.max(0, Math.sin(v));
-  const footLOffsetY = -FOOT_BOB * anim.amp * half(anim.phase);
-  const footROffsetY = -FOOT_BOB * anim.amp * half(anim.phase + Math.PI);
+  const footLOffsetY = -FOOT_BOB * amp * half(anim.phase);
+  const footROffsetY = -FOOT_BOB * amp * half(anim.phase + Math.PI);
+  const bodyOY = seated ? SIT_DROP : 0;
+  const footOX = seated ? SIT_FEET_OX : 0;
 
   const PIV_FRONT = { x: 10, y: 19 };
   const PIV_BACK = { x: 22, y: 19 };
@@ -157,34 +165,37 @@ export function drawPlayerSprite(
     ctx.restore();
   };
 
+  const pivFront = { x: PIV_FRONT.x, y: PIV_FRONT.y + bodyOY };
+  const pivBack = { x: PIV_BACK.x, y: PIV_BACK.y + bodyOY };
+
   // Back → front
-  drawLayer(parts.arm_back, 0, 0, angBack, PIV_BACK);
-  drawLayer(outfit?.sleeve_back, 0, 0, angBack, PIV_BACK);
-  drawLayer(parts.torso);
+  drawLayer(parts.arm_back, 0, bodyOY, angBack, pivBack);
+  drawLayer(outfit?.sleeve_back, 0, bodyOY, angBack, pivBack);
+  drawLayer(parts.torso, 0, bodyOY);
 
-  drawLayer(parts.foot_l, 0, footLOffsetY);
-  drawLayer(outfit?.shoe_l, 0, footLOffsetY);
-  drawLayer(parts.foot_r, 0, footROffsetY);
-  drawLayer(outfit?.shoe_r, 0, footROffsetY);
+  drawLayer(parts.foot_l, footOX, footLOffsetY);
+  drawLayer(outfit?.shoe_l, footOX, footLOffsetY);
+  drawLayer(parts.foot_r, footOX, footROffsetY);
+  drawLayer(outfit?.shoe_r, footOX, footROffsetY);
 
-  drawLayer(outfit?.pants);
-  drawLayer(outfit?.shirt);
+  drawLayer(outfit?.pants, 0, bodyOY);
+  drawLayer(outfit?.shirt, 0, bodyOY);
 
-  drawLayer(parts.head);
-  drawLayer(parts.eyes);
+  drawLayer(parts.head, 0, bodyOY);
+  drawLayer(parts.eyes, 0, bodyOY);
   if (!speaking) {
-    drawLayer(parts.mouth_smile);
+    drawLayer(parts.mouth_smile, 0, bodyOY);
   } else {
-    drawLayer(parts.mouth_talk_1);
-    if (talkBlink) drawLayer(parts.mouth_talk_2);
+    drawLayer(parts.mouth_talk_1, 0, bodyOY);
+    if (talkBlink) drawLayer(parts.mouth_talk_2, 0, bodyOY);
   }
-  drawLayer(outfit?.face);
-  drawLayer(outfit?.hair, 0, outfit?.hair_oy ?? DEFAULT_HAIR_OFFSET_Y);
+  drawLayer(outfit?.face, 0, bodyOY);
+  drawLayer(outfit?.hair, 0, (outfit?.hair_oy ?? DEFAULT_HAIR_OFFSET_Y) + bodyOY);
 
-  drawLayer(outfit?.hand_item, 0, 0, angFront, PIV_FRONT);
-  outfit?.hand_item_extras?.forEach(p => drawLayer(p.img, p.ox, p.oy, angFront, PIV_FRONT));
-  drawLayer(parts.arm_front, 0, 0, angFront, PIV_FRONT);
-  drawLayer(outfit?.sleeve_front, 0, 0, angFront, PIV_FRONT);
+  drawLayer(outfit?.hand_item, 0, bodyOY, angFront, pivFront);
+  outfit?.hand_item_extras?.forEach(p => drawLayer(p.img, p.ox, p.oy + bodyOY, angFront, pivFront));
+  drawLayer(parts.arm_front, 0, bodyOY, angFront, pivFront);
+  drawLayer(outfit?.sleeve_front, 0, bodyOY, angFront, pivFront);
 
   ctx.restore();
 }
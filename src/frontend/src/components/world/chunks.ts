@@ -0,0 +1,136 @@
+/** ===== CHUNK CACHE =====
+ * Fixed-size tiles of a big picture, rendered on demand and kept in an LRU so
+ * memory stays bounded no matter how large the map is.
+ */
+
+/** Minimal canvas surface; lets the renderer run headlessly with a fake canvas */
+export type ChunkCanvas = {
+    width: number;
+    height: number;
+    getContext(type: "2d"): CanvasRenderingContext2D | null;
+};
+
+export type CanvasFactory = (w: number, h: number) => ChunkCanvas;
+
+export type ChunkStats = {
+    live: number;
+    empty: number;
+    built: number;
+    evicted: number;
+    liveBytes: number;
+    peakBytes: number;
+};
+
+export type ChunkCacheOptions<L extends string> = {
+    chunkPx: number;
+    maxChunks: number;
+    createCanvas: CanvasFactory;
+    /** Paint chunk (cx, cy) of `layer` at detail `level`; return false if nothing was drawn */
+    render: (layer: L, level: number, cx: number, cy: number, ctx: CanvasRenderingContext2D) => boolean;
+};
+
+export type ChunkCache<L extends string> = {
+    /** Canvas for a chunk, or null when the chunk has nothing on it */
+    get(layer: L, level: number, cx: number, cy: number): ChunkCanvas | null;
+    invalidate(layer: L, level: number, cx: number, cy: number): void;
+    clear(): void;
+    stats(): ChunkStats;
+};
+
+const BYTES_PER_PX = 4;
+
+export function createChunkCache<L extends string>(opts: ChunkCacheOptions<L>): ChunkCache<L> {
+    const { chunkPx, maxChunks, createCanvas, render } = opts;
+    const chunkBytes = chunkPx * chunkPx * BYTES_PER_PX;
+
+    // Map iteration order doubles as LRU order (oldest first)
+    const live = new Map<string, ChunkCanvas>();
+    const empty = new Set<string>();
+    const pool: ChunkCanvas[] = [];
+    const st = { built: 0, evicted: 0, peakBytes: 0 };
+
+    const keyOf = (layer: L, level: number, cx: number, cy: number) => `${layer}:${level}:${cx}:${cy}`;
+
+    const release = (cvs: ChunkCanvas) => {
+        // reuse instead of reallocating; the pool never outgrows the cap
+        if (pool.length < maxChunks) pool.push(cvs);
+        else { cvs.width = 0; cvs.height = 0; }
+    };
+
+    const evictOverflow = () => {
+        while (live.size > maxChunks) {
+            const oldest = live.keys().next().value as string;
+            const cvs = live.get(oldest)!;
+            live.delete(oldest);
+            release(cvs);
+            st.evicted++;
+        }
+    };
+
+    return {
+        get(layer, level, cx, cy) {
+            const key = keyOf(layer, level, cx, cy);
+            const hit = live.get(key);
+            if (hit) {
+                live.delete(key);
+                live.set(key, hit);
+                return hit;
+            }
+            if (empty.has(key)) return null;
+
+            const cvs = pool.pop() ?? createCanvas(chunkPx, chunkPx);
+            if (cvs.width !== chunkPx || cvs.height !== chunkPx) {
+                cvs.width = chunkPx;
+                cvs.height = chunkPx;
+            }
+            const ctx = cvs.getContext("2d");
+            if (!ctx) return null;
+            ctx.setTransform(1, 0, 0, 1, 0, 0);
+            ctx.globalAlpha = 1;
+            ctx.globalCompositeOperation = "source-over";
+            ctx.clearRect(0, 0, chunkPx, chunkPx);
+            ctx.imageSmoothingEnabled = false;
+            st.built++;
+
+            const drawn = render(layer, level, cx, cy, ctx);
+            st.peakBytes = Math.max(st.peakBytes, (live.size + pool.length + 1) * chunkBytes);
+            if (!drawn) {
+                release(cvs);
+                empty.add(key);
+                return null;
+            }
+            live.set(key, cvs);
+            evictOverflow();
+            return cvs;
+        },
+
+        invalidate(layer, level, cx, cy) {
+            const key = keyOf(layer, level, cx, cy);
+            empty.delete(key);
+            const cvs = live.get(key);
+            if (cvs) {
+                live.delete(key);
+                release(cvs);
+            }
+        },
+
+        clear() {
+            for (const cvs of live.values()) { cvs.width = 0; cvs.height = 0; }
+            for (const cvs of pool) { cvs.width = 0; cvs.height = 0; }
+            live.clear();
+            empty.clear();
+            pool.length = 0;
+        },
+
+        stats() {
+            return {
+                live: live.size,
+                empty: empty.size,
+                built: st.built,
+                evicted: st.evicted,
+                liveBytes: (live.size + pool.length) * chunkBytes,
+                peakBytes: st.peakBytes,
+            };
+        },
+    };
+}
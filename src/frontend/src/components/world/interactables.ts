@@ -0,0 +1,148 @@
+import {
+    MAP_COLS,
+    MAP_ROWS,
+    floorLayout,
+    mapInteractables,
+    objectLayout,
+    tileInteraction,
+    topLayout,
+    wallLayout,
+} from "./map";
+import type { InteractionDef, InteractionKind, TileRect } from "./mapFormat";
+import type { TileStep } from "./pathfinding";
+
+/** ===== INTERACTABLES =====
+ * Seats, panels and switches of the active map. Tile-type interactions are
+ * expanded per cell (id = "tile:c,r") so every client derives the same ids
+ * from the same map; map-level entries keep their own id and take precedence.
+ */
+export type Interactable = InteractionDef & {
+    id: string;
+    rect: TileRect;
+    /** trigger: object-layer tiles under the rect while switched off (row-major) */
+    offTiles?: number[];
+};
+
+/** Shared state; anything missing means "free" / "off" */
+export type InteractState = { occupant?: string | null; on?: boolean };
+
+export type InteractableIndex = {
+    list: Interactable[];
+    byId: Map<string, Interactable>;
+    /** Closest interactable within reach of a tile (standing on it or next to it) */
+    near(col: number, row: number): Interactable | null;
+};
+
+const DEFAULT_LABELS: Record<InteractionKind, string> = {
+    sit: "Sit",
+    "open-panel": "Open",
+    trigger: "Use",
+};
+
+export const interactionLabel = (it: InteractionDef) => it.label?.trim() || DEFAULT_LABELS[it.kind];
+
+const normRect = (r: TileRect): TileRect => ({
+    c0: Math.max(0, Math.min(r.c0, r.c1)),
+    r0: Math.max(0, Math.min(r.r0, r.r1)),
+    c1: Math.min(MAP_COLS - 1, Math.max(r.c0, r.c1)),
+    r1: Math.min(MAP_ROWS - 1, Math.max(r.r0, r.r1)),
+});
+
+const rectDistance = (rect: TileRect, col: number, row: number) => {
+    const dc = col < rect.c0 ? rect.c0 - col : col > rect.c1 ? col - rect.c1 : 0;
+    const dr = row < rect.r0 ? rect.r0 - row : row > rect.r1 ? row - rect.r1 : 0;
+    return Math.max(dc, dr);
+};
+
+export function collectInteractables(): InteractableIndex {
+    const list: Interactable[] = [];
+    const byCell = new Map<number, Interactable[]>();
+    const taken = new Set<number>();
+    const cellKey = (c: number, r: number) => r * MAP_COLS + c;
+
+    const add = (it: Interactable) => {
+        list.push(it);
+        for (let r = it.rect.r0; r <= it.rect.r1; r++) {
+            for (let c = it.rect.c0; c <= it.rect.c1; c++) {
+                const k = cellKey(c, r);
+                taken.add(k);
+                const at = byCell.get(k);
+                if (at) at.push(it);
+                else byCell.set(k, [it]);
+            }
+        }
+    };
+
+    for (const def of mapInteractables) {
+        const rect = normRect(def.rect);
+        const offTiles: number[] = [];
+        if (def.kind === "trigger" && def.onTile) {
+            for (let r = rect.r0; r <= rect.r1; r++) {
+                for (let c = rect.c0; c <= rect.c1; c++) offTiles.push(objectLayout[r][c] | 0);
+            }
+        }
+        add({ ...def, rect, ...(offTiles.length ? { offTiles } : {}) });
+    }
+
+    // object layer first: a chair on a floor tile is the chair
+    for (const layout of [objectLayout, wallLayout, topLayout, floorLayout]) {
+        for (let r = 0; r < MAP_ROWS; r++) {
+            for (let c = 0; c < MAP_COLS; c++) {
+                const id = layout[r]?.[c] | 0;
+                if (id <= 0 || taken.has(cellKey(c, r))) continue;
+                const def = tileInteraction(id);
+                if (!def) continue;
+                const swaps = def.kind === "trigger" && def.onTile && layout === objectLayout;
+                add({ ...def, id: `tile:${c},${r}`, rect: { c0: c, r0: r, c1: c, r1: r }, ...(swaps ? { offTiles: [id] } : {}) });
+            }
+        }
+    }
+
+    return {
+        list,
+        byId: new Map(list.map((it) => [it.id, it])),
+        near(col, row) {
+            let best: Interactable | null = null;
+            let bestD = Infinity;
+            for (let dr = -1; dr <= 1; dr++) {
+                for (let dc = -1; dc <= 1; dc++) {
+                    const c = col + dc, r = row + dr;
+                    if (c < 0 || r < 0 || c >= MAP_COLS || r >= MAP_ROWS) continue;
+                    for (const it of byCell.get(cellKey(c, r)) ?? []) {
+                        const d = rectDistance(it.rect, col, row);
+                        if (d < bestD) { best = it; bestD = d; }
+                    }
+                }
+            }
+            return best;
+        },
+    };
+}
+
+/** Seat cell of `it` closest to an avatar standing at `from` */
+export function seatCell(it: Interactable, from: TileStep): TileStep {
+    return {
+        col: Math.max(it.rect.c0, Math.min(it.rect.c1, from.col)),
+        row: Math.max(it.rect.r0, Math.min(it.rect.r1, from.row)),
+    };
+}
+
+/**
+ * Swap a trigger's object-layer tiles for its on/off look.
+ * Returns the cells that changed so the renderer can repaint them.
+ */
+export function setTriggerTiles(it: Interactable, on: boolean): TileStep[] {
+    if (it.kind !== "trigger" || !it.onTile || !it.offTiles) return [];
+    const changed: TileStep[] = [];
+    let i = 0;
+    for (let r = it.rect.r0; r <= it.rect.r1; r++) {
+        for (let c = it.rect.c0; c <= it.rect.c1; c++) {
+            const next = on ? it.onTile : it.offTiles[i];
+            i++;
+            if ((objectLayout[r][c] | 0) === next) continue;
+            objectLayout[r][c] = next;
+            changed.push({ col: c, row: r });
+        }
+    }
+    return changed;
+}
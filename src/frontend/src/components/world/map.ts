@@ -1,34 +1,65 @@
+import {
+    validateMapDef,
+    type AtlasRef,
+    type DoorDef,
+    type InteractableDef,
+    type InteractionDef,
+    type MapDef,
+    type TileFrame,
+    type TileRect,
+} from "./mapFormat";
+import { createChunkCache, type CanvasFactory, type ChunkCanvas, type ChunkStats } from "./chunks";
+import officeMap from "./maps/office.json";
+
 export const TILE = 32;
-export const MAP_COLS = 25;
-export const MAP_ROWS = 25;
+
+/** Size of the active map (updated by loadWorldMap) */
+export let MAP_COLS = 25;
+export let MAP_ROWS = 25;
 
 const SHADOW_ALPHA = 0.25;
 const SHADOW_OX = -4;
 const SHADOW_OY = 0;
 
+export type WorldLayers = {
+    floor: number[][];
+    wall: number[][];
+    object: number[][];
+    top: number[][];
+    audio: number[][];
+};
+
 export type WorldMap = {
+    id: string;
+    name: string;
     tile: number;
     cols: number;
     rows: number;
     width: number;
     height: number;
-    floor: HTMLCanvasElement;
-    wall: HTMLCanvasElement;
-    object: HTMLCanvasElement;
-    over: HTMLCanvasElement;
-    shadow: HTMLCanvasElement;
+    layers: WorldLayers;
+    spawns: TileRect[];
+    doors: DoorDef;
+    /** Draw world rect (sx, sy, sw, sh) of a layer into (dx, dy, dw, dh), like drawImage */
+    drawLayer(
+        ctx: CanvasRenderingContext2D,
+        layer: WorldLayerName,
+        sx: number, sy: number, sw: number, sh: number,
+        dx: number, dy: number, dw: number, dh: number,
+        /** Animation time; defaults to the shared animation clock */
+        nowMs?: number
+    ): void;
+    /** Repaint a tile after its layout cell changed (doors) */
+    invalidateTile(col: number, row: number): void;
+    chunkStats(): ChunkStats;
+    /** Free every chunk canvas; call when the world is replaced */
+    dispose(): void;
 };
 
 const TILE_IMAGES: Record<number, string> = {
 };
 
-type AtlasDef = {
-    src: string;
-    tileW: number;
-    tileH: number;
-    cols: number;
-    rows: number;
-};
+type AtlasDef = AtlasRef;
 
 const ATLASES: Record<string, AtlasDef> = {
     floor: { src: "/assets/floor/floor.png", tileW: TILE, tileH: TILE, cols: 8, rows: 8 },
@@ -36,7 +67,17 @@ const ATLASES: Record<string, AtlasDef> = {
     object: { src: "/assets/object/object.png", tileW: TILE, tileH: TILE, cols: 8, rows: 8 },
 };
 
-type AtlasSlice = { atlas: string; cx: number; cy: number; solid: boolean; shadow: boolean };
+const BASE_SOLID_IDS = new Set([4]);
+
+type AtlasSlice = {
+    atlas: string;
+    cx: number;
+    cy: number;
+    solid: boolean;
+    shadow: boolean;
+    frames?: TileFrame[];
+    interact?: InteractionDef;
+};
 const TILE_ATLAS_SLICES: Record<number, AtlasSlice> = {};
 
 export function fromAtlas(
@@ -44,7 +85,7 @@ export function fromAtlas(
     cx: number,
     cy: number,
     id: number,
-    opts?: { solid?: boolean; shadow?: boolean }
+    opts?: { solid?: boolean; shadow?: boolean; frames?: TileFrame[]; interact?: InteractionDef }
 ): number {
     const def = ATLASES[atlasName];
     if (!def) throw new Error(`Atlas '${atlasName}' belum didefinisikan`);
@@ -57,10 +98,26 @@ export function fromAtlas(
         cy,
         solid: opts?.solid !== false,
         shadow: opts?.shadow !== false,
+        ...(opts?.frames?.length ? { frames: opts.frames.map((f) => ({ ...f })) } : {}),
+        ...(opts?.interact ? { interact: { ...opts.interact } } : {}),
     };
     return id;
 }
 
+/** Interaction declared on a tile type, if any */
+export const tileInteraction = (id: number): InteractionDef | null => TILE_ATLAS_SLICES[id]?.interact ?? null;
+
+/** Multi-frame tile; the first frame doubles as the static look (shadows, palette, far zoom) */
+export function fromAtlasFrames(
+    atlasName: string,
+    frames: TileFrame[],
+    id: number,
+    opts?: { solid?: boolean; shadow?: boolean; interact?: InteractionDef }
+): number {
+    if (!frames.length) throw new Error(`fromAtlasFrames(${atlasName}, id=${id}): butuh minimal satu frame`);
+    return fromAtlas(atlasName, frames[0].cx, frames[0].cy, id, { ...opts, frames });
+}
+
 export const fromFloorAtlas = (
     cx: number, cy: number, id: number, opts?: { solid?: boolean; shadow?: boolean }
 ) => fromAtlas("floor", cx, cy, id, { solid: false, shadow: false, ...(opts ?? {}) });
@@ -68,349 +125,132 @@ export const fromFloorAtlas = (
 export const fromWallAtlas = (cx: number, cy: number, id: number, opts?: { solid?: boolean; shadow?: boolean }) =>
     fromAtlas("wall", cx, cy, id, opts);
 
-export const fromObjectAtlas = (cx: number, cy: number, id: number, opts?: { solid?: boolean; shadow?: boolean }) =>
-    fromAtlas("object", cx, cy, id, opts);
-
-const __ = 0;
-const F1 = fromFloorAtlas(0, 0, 1);
-const F2 = fromFloorAtlas(1, 0, 2);
-const F3 = fromFloorAtlas(2, 0, 3);
-const U_ = fromWallAtlas(0, 0, 5);
-const lU = fromWallAtlas(1, 0, 6);
-const rU = fromWallAtlas(2, 0, 7);
-const Ul = fromWallAtlas(1, 1, 8, { solid: false });
-const Ur = fromWallAtlas(2, 1, 9, { solid: false });
-const Ut = fromWallAtlas(0, 1, 10);
-const A_ = fromWallAtlas(0, 2, 11, { solid: false });
-const rA = fromWallAtlas(1, 2, 12);
-const lA = fromWallAtlas(2, 2, 13);
-const Al = fromWallAtlas(1, 3, 14);
-const Ar = fromWallAtlas(2, 3, 15);
-const W_ = fromWallAtlas(0, 4, 16);
-const rW = fromWallAtlas(2, 4, 17);
-const lW = fromWallAtlas(1, 4, 18);
+export const fromObjectAtlas = (
+    cx: number, cy: number, id: number, opts?: { solid?: boolean; shadow?: boolean; interact?: InteractionDef }
+) => fromAtlas("object", cx, cy, id, opts);
+
+const SEAT = (face?: "left" | "right"): InteractionDef => ({ kind: "sit", ...(face ? { face } : {}) });
+
+// === TILE REGISTRY (built-in office tileset) ===
+fromFloorAtlas(0, 0, 1); // F1
+fromFloorAtlas(1, 0, 2); // F2
+fromFloorAtlas(2, 0, 3); // F3
+
+fromWallAtlas(0, 0, 5); // U_
+fromWallAtlas(1, 0, 6); // lU
+fromWallAtlas(2, 0, 7); // rU
+fromWallAtlas(1, 1, 8, { solid: false }); // Ul
+fromWallAtlas(2, 1, 9, { solid: false }); // Ur
+fromWallAtlas(0, 1, 10); // Ut
+fromWallAtlas(0, 2, 11, { solid: false }); // A_
+fromWallAtlas(1, 2, 12); // rA
+fromWallAtlas(2, 2, 13); // lA
+fromWallAtlas(1, 3, 14); // Al
+fromWallAtlas(2, 3, 15); // Ar
+fromWallAtlas(0, 4, 16); // W_
+fromWallAtlas(2, 4, 17); // rW
+fromWallAtlas(1, 4, 18); // lW
 const Du = fromWallAtlas(0, 5, 19, { solid: false, shadow: true });
 const Dd = fromWallAtlas(0, 6, 20);
 const uD = fromWallAtlas(1, 5, 21, { solid: false, shadow: true });
 const dD = fromWallAtlas(1, 6, 22, { solid: false, shadow: true });
-const Ll = fromObjectAtlas(4, 7, 23, { solid: false, shadow: true });
-const Lr = fromObjectAtlas(5, 7, 24, { solid: false, shadow: true });
-
-export const DOOR_CLOSED_ID = Dd;
-export const DOOR_OPEN_ID = dD;
-export const TOP_DOOR_CLOSED_ID = Du;
-export const TOP_DOOR_OPEN_ID = uD;
-
-// === FLOOR ===
-const floorLayoutManual: number[][] = [
-    [F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1],
-    [F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1],
-    [F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F2, F2, F2, F2, F2, F2, F2, F1],
-    [F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F2, F2, F2, F2, F2, F2, F2, F1],
-    [F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F2, F2, F2, F2, F2, F2, F2, F1],
-    [F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F2, F2, F2, F2, F2, F2, F2, F1],
-    [F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F2, F2, F2, F2, F2, F2, F2, F1],
-    [F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F2, F2, F2, F2, F2, F2, F2, F1],
-    [F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F2, F2, F2, F2, F2, F2, F2, F1],
-    [F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F2, F2, F2, F2, F2, F2, F2, F1],
-    [F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F2, F2, F2, F2, F2, F2, F2, F1],
-    [F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F3, F3, F3, F3, F3, F3, F3, F1],
-    [F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1],
-    [F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1],
-    [F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1],
-    [F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1],
-    [F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1],
-    [F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1],
-    [F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1],
-    [F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1],
-    [F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1],
-    [F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1],
-    [F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1],
-    [F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1],
-    [F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1, F1],
-];
-
-// === WALL ===
-const wallLayoutManual: number[][] = [
-    [Ul, A_, A_, A_, A_, A_, A_, A_, A_, A_, A_, A_, A_, A_, A_, A_, A_, Ut, A_, A_, A_, A_, A_, A_, Ur],
-    [U_, W_, W_, W_, W_, W_, W_, W_, W_, W_, W_, W_, W_, W_, W_, W_, W_, U_, W_, W_, W_, W_, W_, W_, U_],
-    [U_, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, U_, __, __, __, __, __, __, U_],
-    [U_, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, U_, __, __, __, __, __, __, U_],
-    [U_, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, U_, __, __, __, __, __, __, U_],
-    [U_, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, U_, __, __, __, __, __, __, U_],
-    [U_, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, U_, __, __, __, __, __, __, U_],
-    [U_, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, U_, __, __, __, __, __, __, U_],
-    [U_, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, U_, __, __, __, __, __, __, U_],
-    [U_, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, U_, __, __, __, __, __, __, U_],
-    [lU, A_, __, A_, A_, A_, A_, A_, A_, A_, A_, A_, A_, A_, A_, A_, A_, Ar, __, __, __, __, __, __, U_],
-    [U_, W_, Dd, W_, W_, W_, W_, W_, W_, W_, W_, W_, W_, W_, W_, W_, W_, rW, __, __, __, __, __, __, U_],
-    [U_, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, U_],
-    [U_, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, U_],
-    [U_, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, U_],
-    [lU, A_, A_, A_, A_, __, A_, Ur, __, __, __, __, __, __, __, __, __, Ul, A_, __, A_, A_, A_, A_, rU],
-    [U_, W_, W_, W_, W_, dD, W_, U_, __, __, __, __, __, __, __, __, __, U_, W_, dD, W_, W_, W_, W_, U_],
-    [U_, __, __, __, __, __, __, U_, __, __, __, __, __, __, __, __, __, U_, __, __, __, __, __, __, U_],
-    [U_, __, __, __, __, __, __, U_, __, __, __, __, __, __, __, __, __, U_, __, __, __, __, __, __, U_],
-    [U_, __, __, __, __, __, __, U_, __, __, __, __, __, __, __, __, __, U_, __, __, __, __, __, __, U_],
-    [U_, __, __, __, __, __, __, U_, __, __, __, __, __, __, __, __, __, U_, __, __, __, __, __, __, U_],
-    [lU, A_, A_, A_, A_, A_, A_, Ar, __, __, __, __, __, __, __, __, __, Al, A_, A_, A_, A_, A_, A_, rU],
-    [U_, W_, W_, W_, W_, W_, W_, rW, __, __, __, __, __, __, __, __, __, lW, W_, W_, W_, W_, W_, W_, U_],
-    [U_, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, U_],
-    [U_, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, U_],
-];
-
-// === OBJECTS ===
-const objectLayoutManual: number[][] = Array.from({ length: MAP_ROWS }, () =>
-    Array.from({ length: MAP_COLS }, () => 0)
-);
-
-const POT = fromObjectAtlas(0, 0, 101, { solid: false });
-const SEATu = fromObjectAtlas(0, 1, 102, { solid: false });
-const SEATd = fromObjectAtlas(0, 2, 103, { solid: false });
-const TABLElu = fromObjectAtlas(1, 0, 104, { solid: true });
-const TABLEmu = fromObjectAtlas(2, 0, 105, { solid: true });
-const TABLEru = fromObjectAtlas(3, 0, 106, { solid: true });
-const TABLEl_ = fromObjectAtlas(1, 1, 107, { solid: true });
-const TABLEm_ = fromObjectAtlas(2, 1, 108, { solid: true });
-const TABLEr_ = fromObjectAtlas(3, 1, 109, { solid: true });
-const TABLEld = fromObjectAtlas(1, 2, 110, { solid: true });
-const TABLEmd = fromObjectAtlas(2, 2, 111, { solid: true });
-const TABLErd = fromObjectAtlas(3, 2, 112, { solid: true });
-const shelflu = fromObjectAtlas(4, 0, 113, { solid: false });
-const shelfmu = fromObjectAtlas(5, 0, 114, { solid: false });
-const shelfru = fromObjectAtlas(6, 0, 115, { solid: false });
-const shelfld = fromObjectAtlas(4, 1, 116, { solid: false });
-const shelfmd = fromObjectAtlas(5, 1, 117, { solid: false });
-const shelfrd = fromObjectAtlas(6, 1, 118, { solid: false });
-const TABLE = fromObjectAtlas(0, 3, 119, { solid: true });
-const SEATl = fromObjectAtlas(0, 4, 120, { solid: false });
-const SEATr = fromObjectAtlas(0, 5, 121, { solid: false });
-const SEATlu_ = fromObjectAtlas(1, 4, 122, { solid: false });
-const SEATmu_ = fromObjectAtlas(2, 4, 123, { solid: false });
-const SEATru_ = fromObjectAtlas(3, 4, 124, { solid: false });
-const SEATld_ = fromObjectAtlas(1, 5, 125, { solid: false });
-const SEATmd_ = fromObjectAtlas(2, 5, 126, { solid: false });
-const SEATrd_ = fromObjectAtlas(3, 5, 127, { solid: false });
-const PAINTBlu = fromObjectAtlas(0, 6, 128, { solid: false });
-const PAINTBru = fromObjectAtlas(1, 6, 129, { solid: false });
-const PAINTBld = fromObjectAtlas(0, 7, 130, { solid: false });
-const PAINTBrd = fromObjectAtlas(1, 7, 131, { solid: false });
-const SEATPlu_ = fromObjectAtlas(5, 2, 132, { solid: false });
-const SEATPmu_ = fromObjectAtlas(6, 2, 133, { solid: false });
-const SEATPru_ = fromObjectAtlas(7, 2, 134, { solid: false });
-const SEATPld_ = fromObjectAtlas(5, 3, 135, { solid: false });
-const SEATPmd_ = fromObjectAtlas(6, 3, 136, { solid: false });
-const SEATPrd_ = fromObjectAtlas(7, 3, 137, { solid: false });
-const PAINTPlu = fromObjectAtlas(2, 6, 138, { solid: false });
-const PAINTPru = fromObjectAtlas(3, 6, 139, { solid: false });
-const PAINTPld = fromObjectAtlas(2, 7, 140, { solid: false });
-const PAINTPrd = fromObjectAtlas(3, 7, 141, { solid: false });
-const CLOCKPu = fromObjectAtlas(7, 4, 142, { solid: true });
-const CLOCKPd = fromObjectAtlas(7, 5, 143, { solid: true });
-const POTP = fromObjectAtlas(7, 1, 144, { solid: false });
-const TABLEl = fromObjectAtlas(4, 6, 145, { solid: true });
-const TABLEm = fromObjectAtlas(5, 6, 146, { solid: true });
-const TABLEr = fromObjectAtlas(6, 6, 147, { solid: true });
-const SEATP_lu = fromObjectAtlas(5, 4, 148, { solid: false });
-const SEATP_lm = fromObjectAtlas(5, 4.4, 149, { solid: false });
-const SEATP_ld = fromObjectAtlas(5, 5, 150, { solid: false });
-const SEATP_ru = fromObjectAtlas(6, 4, 151, { solid: false });
-const SEATP_rm = fromObjectAtlas(6, 4.4, 152, { solid: false });
-const SEATP_rd = fromObjectAtlas(6, 5, 153, { solid: false });
-const SEATP_l = fromObjectAtlas(4, 4, 154, { solid: false });
-const SEATP_r = fromObjectAtlas(4, 5, 155, { solid: false });
-const DESK = fromObjectAtlas(7, 6, 156, { solid: true });
-
-objectLayoutManual[2][1] = POT;
-objectLayoutManual[2][16] = POT;
-objectLayoutManual[2][23] = POTP;
-
-objectLayoutManual[1][2] = shelflu;
-objectLayoutManual[1][3] = shelfmu;
-objectLayoutManual[1][4] = shelfmu;
-objectLayoutManual[1][5] = shelfmu;
-objectLayoutManual[1][6] = shelfmu;
-objectLayoutManual[1][7] = shelfmu;
-objectLayoutManual[1][8] = shelfru;
-objectLayoutManual[1][9] = shelflu;
-objectLayoutManual[1][10] = shelfmu;
-objectLayoutManual[1][11] = shelfmu;
-objectLayoutManual[1][12] = shelfmu;
-objectLayoutManual[1][13] = shelfmu;
-objectLayoutManual[1][14] = shelfmu;
-objectLayoutManual[1][15] = shelfru;
-
-objectLayoutManual[2][2] = shelfld;
-objectLayoutManual[2][3] = shelfmd;
-objectLayoutManual[2][4] = shelfmd;
-objectLayoutManual[2][5] = shelfmd;
-objectLayoutManual[2][6] = shelfmd;
-objectLayoutManual[2][7] = shelfmd;
-objectLayoutManual[2][8] = shelfrd;
-objectLayoutManual[2][9] = shelfld;
-objectLayoutManual[2][10] = shelfmd;
-objectLayoutManual[2][11] = shelfmd;
-objectLayoutManual[2][12] = shelfmd;
-objectLayoutManual[2][13] = shelfmd;
-objectLayoutManual[2][14] = shelfmd;
-objectLayoutManual[2][15] = shelfrd;
-
-objectLayoutManual[5][5] = TABLElu;
-objectLayoutManual[5][6] = TABLEmu;
-objectLayoutManual[5][7] = TABLEmu;
-objectLayoutManual[5][8] = TABLEmu;
-objectLayoutManual[5][9] = TABLEmu;
-objectLayoutManual[5][10] = TABLEmu;
-objectLayoutManual[5][11] = TABLEmu;
-objectLayoutManual[5][12] = TABLEru;
-
-objectLayoutManual[6][5] = TABLEl_;
-objectLayoutManual[6][6] = TABLEm_;
-objectLayoutManual[6][7] = TABLEm_;
-objectLayoutManual[6][8] = TABLEm_;
-objectLayoutManual[6][9] = TABLEm_;
-objectLayoutManual[6][10] = TABLEm_;
-objectLayoutManual[6][11] = TABLEm_;
-objectLayoutManual[6][12] = TABLEr_;
-
-objectLayoutManual[7][5] = TABLEld;
-objectLayoutManual[7][6] = TABLEmd;
-objectLayoutManual[7][7] = TABLEmd;
-objectLayoutManual[7][8] = TABLEmd;
-objectLayoutManual[7][9] = TABLEmd;
-objectLayoutManual[7][10] = TABLEmd;
-objectLayoutManual[7][11] = TABLEmd;
-objectLayoutManual[7][12] = TABLErd;
-
-objectLayoutManual[4][5] = SEATu;
-objectLayoutManual[4][6] = SEATu;
-objectLayoutManual[4][7] = SEATu;
-objectLayoutManual[4][8] = SEATu;
-objectLayoutManual[4][9] = SEATu;
-objectLayoutManual[4][10] = SEATu;
-objectLayoutManual[4][11] = SEATu;
-objectLayoutManual[4][12] = SEATu;
-objectLayoutManual[8][5] = SEATd;
-objectLayoutManual[8][6] = SEATd;
-objectLayoutManual[8][7] = SEATd;
-objectLayoutManual[8][8] = SEATd;
-objectLayoutManual[8][9] = SEATd;
-objectLayoutManual[8][10] = SEATd;
-objectLayoutManual[8][11] = SEATd;
-objectLayoutManual[8][12] = SEATd;
-
-objectLayoutManual[17][9] = SEATl;
-objectLayoutManual[16][10] = SEATu;
-objectLayoutManual[17][10] = TABLE;
-objectLayoutManual[17][11] = SEATr;
-objectLayoutManual[18][10] = SEATd;
-
-objectLayoutManual[17][13] = SEATl;
-objectLayoutManual[16][14] = SEATu;
-objectLayoutManual[17][14] = TABLE;
-objectLayoutManual[17][15] = SEATr;
-objectLayoutManual[18][14] = SEATd;
-
-objectLayoutManual[21][9] = SEATl;
-objectLayoutManual[20][10] = SEATu;
-objectLayoutManual[21][10] = TABLE;
-objectLayoutManual[21][11] = SEATr;
-objectLayoutManual[22][10] = SEATd;
-
-objectLayoutManual[21][13] = SEATl;
-objectLayoutManual[20][14] = SEATu;
-objectLayoutManual[21][14] = TABLE;
-objectLayoutManual[21][15] = SEATr;
-objectLayoutManual[22][14] = SEATd;
-
-objectLayoutManual[4][19] = SEATPlu_;
-objectLayoutManual[4][20] = SEATPmu_;
-objectLayoutManual[4][21] = SEATPmu_;
-objectLayoutManual[4][22] = SEATPru_;
-
-objectLayoutManual[6][20] = TABLEl;
-objectLayoutManual[6][21] = TABLEr;
-
-objectLayoutManual[5][18] = SEATP_lu;
-objectLayoutManual[6][18] = SEATP_lm;
-objectLayoutManual[7][18] = SEATP_ld;
-
-objectLayoutManual[5][23] = SEATP_ru;
-objectLayoutManual[6][23] = SEATP_rm;
-objectLayoutManual[7][23] = SEATP_rd;
-
-objectLayoutManual[8][19] = SEATPld_;
-objectLayoutManual[8][20] = SEATPmd_;
-objectLayoutManual[8][21] = SEATPmd_;
-objectLayoutManual[8][22] = SEATPrd_;
-
-objectLayoutManual[0][20] = PAINTPlu;
-objectLayoutManual[0][21] = PAINTPru;
-objectLayoutManual[1][20] = PAINTPld;
-objectLayoutManual[1][21] = PAINTPrd;
-
-objectLayoutManual[1][18] = CLOCKPu;
-objectLayoutManual[2][18] = CLOCKPd;
-
-objectLayoutManual[2][20] = DESK;
-objectLayoutManual[2][21] = DESK;
-
-// === TOP/OVERLAY ===
-const topLayoutManual: number[][] = [
-    [__, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __],
-    [__, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __],
-    [__, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __],
-    [__, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __],
-    [__, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __],
-    [__, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __],
-    [__, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __],
-    [__, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __],
-    [__, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __],
-    [__, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __],
-    [lU, A_, Du, A_, A_, A_, A_, A_, A_, A_, A_, A_, A_, A_, A_, A_, A_, Ar, Ll, Lr, Ll, Lr, Ll, Lr, __],
-    [__, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __],
-    [__, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __],
-    [__, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __],
-    [__, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __],
-    [lU, A_, A_, A_, A_, uD, A_, Ur, __, __, __, __, __, __, __, __, __, Ul, A_, uD, A_, A_, A_, A_, rU],
-    [__, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __],
-    [__, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __],
-    [__, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __],
-    [__, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __],
-    [__, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __],
-    [lU, A_, A_, A_, A_, A_, A_, Ar, __, __, __, __, __, __, __, __, __, Al, A_, A_, A_, A_, A_, A_, rU],
-    [__, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __],
-    [__, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __],
-    [__, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __, __],
-];
-
-// === AUDIO ===
-function makeAudioLayout(): number[][] {
-    const g = Array.from({ length: MAP_ROWS }, () =>
-        Array.from({ length: MAP_COLS }, () => 0)
-    );
-
-    const fillRect = (c0: number, c1: number, r0: number, r1: number, val: number) => {
-        const cc0 = Math.max(0, Math.min(c0, c1));
-        const cc1 = Math.min(MAP_COLS - 1, Math.max(c0, c1));
-        const rr0 = Math.max(0, Math.min(r0, r1));
-        const rr1 = Math.min(MAP_ROWS - 1, Math.max(r0, r1));
-        for (let r = rr0; r <= rr1; r++) {
-            for (let c = cc0; c <= cc1; c++) {
-                g[r][c] = val;
-            }
-        }
-    };
+fromObjectAtlas(4, 7, 23, { solid: false, shadow: true }); // Ll
+fromObjectAtlas(5, 7, 24, { solid: false, shadow: true }); // Lr
+
+fromObjectAtlas(0, 0, 101, { solid: false }); // POT
+fromObjectAtlas(0, 1, 102, { solid: false, interact: SEAT() }); // SEATu
+fromObjectAtlas(0, 2, 103, { solid: false, interact: SEAT() }); // SEATd
+fromObjectAtlas(1, 0, 104, { solid: true }); // TABLElu
+fromObjectAtlas(2, 0, 105, { solid: true }); // TABLEmu
+fromObjectAtlas(3, 0, 106, { solid: true }); // TABLEru
+fromObjectAtlas(1, 1, 107, { solid: true }); // TABLEl_
+fromObjectAtlas(2, 1, 108, { solid: true }); // TABLEm_
+fromObjectAtlas(3, 1, 109, { solid: true }); // TABLEr_
+fromObjectAtlas(1, 2, 110, { solid: true }); // TABLEld
+fromObjectAtlas(2, 2, 111, { solid: true }); // TABLEmd
+fromObjectAtlas(3, 2, 112, { solid: true }); // TABLErd
+fromObjectAtlas(4, 0, 113, { solid: false }); // shelflu
+fromObjectAtlas(5, 0, 114, { solid: false }); // shelfmu
+fromObjectAtlas(6, 0, 115, { solid: false }); // shelfru
+fromObjectAtlas(4, 1, 116, { solid: false }); // shelfld
+fromObjectAtlas(5, 1, 117, { solid: false }); // shelfmd
+fromObjectAtlas(6, 1, 118, { solid: false }); // shelfrd
+fromObjectAtlas(0, 3, 119, { solid: true }); // TABLE
+fromObjectAtlas(0, 4, 120, { solid: false, interact: SEAT("right") }); // SEATl
+fromObjectAtlas(0, 5, 121, { solid: false, interact: SEAT("left") }); // SEATr
+fromObjectAtlas(1, 4, 122, { solid: false }); // SEATlu_
+fromObjectAtlas(2, 4, 123, { solid: false }); // SEATmu_
+fromObjectAtlas(3, 4, 124, { solid: false }); // SEATru_
+fromObjectAtlas(1, 5, 125, { solid: false }); // SEATld_
+fromObjectAtlas(2, 5, 126, { solid: false }); // SEATmd_
+fromObjectAtlas(3, 5, 127, { solid: false }); // SEATrd_
+fromObjectAtlas(0, 6, 128, { solid: false }); // PAINTBlu
+fromObjectAtlas(1, 6, 129, { solid: false }); // PAINTBru
+fromObjectAtlas(0, 7, 130, { solid: false }); // PAINTBld
+fromObjectAtlas(1, 7, 131, { solid: false }); // PAINTBrd
+fromObjectAtlas(5, 2, 132, { solid: false }); // SEATPlu_
+fromObjectAtlas(6, 2, 133, { solid: false }); // SEATPmu_
+fromObjectAtlas(7, 2, 134, { solid: false }); // SEATPru_
+fromObjectAtlas(5, 3, 135, { solid: false }); // SEATPld_
+fromObjectAtlas(6, 3, 136, { solid: false }); // SEATPmd_
+fromObjectAtlas(7, 3, 137, { solid: false }); // SEATPrd_
+fromObjectAtlas(2, 6, 138, { solid: false }); // PAINTPlu
+fromObjectAtlas(3, 6, 139, { solid: false }); // PAINTPru
+fromObjectAtlas(2, 7, 140, { solid: false }); // PAINTPld
+fromObjectAtlas(3, 7, 141, { solid: false }); // PAINTPrd
+fromObjectAtlas(7, 4, 142, { solid: true }); // CLOCKPu
+fromObjectAtlas(7, 5, 143, { solid: true }); // CLOCKPd
+fromObjectAtlas(7, 1, 144, { solid: false }); // POTP
+fromObjectAtlas(4, 6, 145, { solid: true }); // TABLEl
+fromObjectAtlas(5, 6, 146, { solid: true }); // TABLEm
+fromObjectAtlas(6, 6, 147, { solid: true }); // TABLEr
+fromObjectAtlas(5, 4, 148, { solid: false }); // SEATP_lu
+fromObjectAtlas(5, 4.4, 149, { solid: false }); // SEATP_lm
+fromObjectAtlas(5, 5, 150, { solid: false }); // SEATP_ld
+fromObjectAtlas(6, 4, 151, { solid: false }); // SEATP_ru
+fromObjectAtlas(6, 4.4, 152, { solid: false }); // SEATP_rm
+fromObjectAtlas(6, 5, 153, { solid: false }); // SEATP_rd
+fromObjectAtlas(4, 4, 154, { solid: false, interact: SEAT("right") }); // SEATP_l
+fromObjectAtlas(4, 5, 155, { solid: false, interact: SEAT("left") }); // SEATP_r
+fromObjectAtlas(7, 6, 156, { solid: true }); // DESK
+
+const BUILTIN_DOORS: DoorDef = { closed: Dd, open: dD, topClosed: Du, topOpen: uD };
+
+// snapshot so per-map atlases/tile overrides don't leak into the next map
+const BUILTIN_ATLASES: Record<string, AtlasDef> = { ...ATLASES };
+const BUILTIN_SLICES: Record<number, AtlasSlice> = { ...TILE_ATLAS_SLICES };
+
+export type TileInfo = {
+    id: number;
+    atlas: string;
+    cx: number;
+    cy: number;
+    solid: boolean;
+    shadow: boolean;
+    frames?: TileFrame[];
+    interact?: InteractionDef;
+};
 
-    fillRect(1, 16, 2, 10, 1);
-    fillRect(1, 6, 17, 21, 2);
-    fillRect(18, 23, 17, 21, 3);
-    fillRect(18, 23, 2, 11, 4);
+/** Every tile id currently registered (built-in + active map), sorted by id */
+export function listTiles(): TileInfo[] {
+    return Object.entries(TILE_ATLAS_SLICES)
+        .map(([id, s]) => ({ id: Number(id), ...s }))
+        .sort((a, b) => a.id - b.id);
+}
 
-    return g;
+export function getAtlasDef(name: string): AtlasRef | null {
+    return ATLASES[name] ?? null;
 }
-const audioLayoutManual = makeAudioLayout();
 
+/** Door tile ids of the active map */
+export let DOOR_CLOSED_ID = Dd;
+export let DOOR_OPEN_ID = dD;
+export let TOP_DOOR_CLOSED_ID = Du;
+export let TOP_DOOR_OPEN_ID = uD;
+
+export const DEFAULT_MAP_DEF = officeMap as MapDef;
+
+// === ACTIVE MAP ===
 function normalizeGrid(src: number[][], rows: number, cols: number, fill = 0): number[][] {
     const out: number[][] = [];
     for (let r = 0; r < rows; r++) {
@@ -422,16 +262,90 @@ function normalizeGrid(src: number[][], rows: number, cols: number, fill = 0): n
     return out;
 }
 
-export const floorLayout: number[][] = normalizeGrid(floorLayoutManual, MAP_ROWS, MAP_COLS, F1);
-export const wallLayout: number[][] = normalizeGrid(wallLayoutManual, MAP_ROWS, MAP_COLS, 0);
-export const audioLayout: number[][] = normalizeGrid(audioLayoutManual, MAP_ROWS, MAP_COLS, 0);
-export const objectLayout: number[][] = normalizeGrid(objectLayoutManual, MAP_ROWS, MAP_COLS, 0);
-export const topLayout: number[][] = normalizeGrid(topLayoutManual, MAP_ROWS, MAP_COLS, 0);
+function fillRect(g: number[][], rect: TileRect, val: number) {
+    const cc0 = Math.max(0, Math.min(rect.c0, rect.c1));
+    const cc1 = Math.min(MAP_COLS - 1, Math.max(rect.c0, rect.c1));
+    const rr0 = Math.max(0, Math.min(rect.r0, rect.r1));
+    const rr1 = Math.min(MAP_ROWS - 1, Math.max(rect.r0, rect.r1));
+    for (let r = rr0; r <= rr1; r++) {
+        for (let c = cc0; c <= cc1; c++) {
+            g[r][c] = val;
+        }
+    }
+}
+
+let activeMapId = "";
+let activeMapName = "";
+
+export let floorLayout: number[][] = [];
+export let wallLayout: number[][] = [];
+export let objectLayout: number[][] = [];
+export let topLayout: number[][] = [];
+export let audioLayout: number[][] = [];
+export let spawnAreas: TileRect[] = [];
+/** Interactables placed on the active map (tile-type ones come from the registry) */
+export let mapInteractables: InteractableDef[] = [];
+
+const isKnownTileId = (id: number) =>
+    !!TILE_ATLAS_SLICES[id] || !!TILE_IMAGES[id] || BASE_SOLID_IDS.has(id);
+
+/** Validate a map file against the built-in registry without activating it */
+export function checkMapDef(raw: unknown): MapDef {
+    return validateMapDef(raw, {
+        hasTile: isKnownTileId,
+        hasAtlas: (name) => !!ATLASES[name],
+    });
+}
 
-const SOLID_TILE_LAYERS: number[][][] = [wallLayout, objectLayout];
+/**
+ * Validate a map file and make it the active map used by collision,
+ * audio rules and rendering. Layers are copied, so callers may keep `def`.
+ */
+export function activateMapDef(raw: unknown): MapDef {
+    const def = checkMapDef(raw);
+
+    for (const k of Object.keys(ATLASES)) delete ATLASES[k];
+    Object.assign(ATLASES, BUILTIN_ATLASES);
+    for (const k of Object.keys(TILE_ATLAS_SLICES)) delete TILE_ATLAS_SLICES[Number(k)];
+    Object.assign(TILE_ATLAS_SLICES, BUILTIN_SLICES);
+
+    for (const [name, a] of Object.entries(def.atlases ?? {})) {
+        ATLASES[name] = { src: a.src, tileW: a.tileW, tileH: a.tileH, cols: a.cols, rows: a.rows };
+    }
+    for (const t of def.tiles ?? []) {
+        fromAtlas(t.atlas, t.cx, t.cy, t.id, { solid: t.solid, shadow: t.shadow, frames: t.frames, interact: t.interact });
+    }
+
+    MAP_COLS = def.cols;
+    MAP_ROWS = def.rows;
+    activeMapId = def.id || "custom";
+    activeMapName = def.name || activeMapId;
+
+    floorLayout = normalizeGrid(def.layers.floor, MAP_ROWS, MAP_COLS, 0);
+    wallLayout = normalizeGrid(def.layers.wall ?? [], MAP_ROWS, MAP_COLS, 0);
+    objectLayout = normalizeGrid(def.layers.object ?? [], MAP_ROWS, MAP_COLS, 0);
+    topLayout = normalizeGrid(def.layers.top ?? [], MAP_ROWS, MAP_COLS, 0);
+    audioLayout = normalizeGrid(def.layers.audio ?? [], MAP_ROWS, MAP_COLS, 0);
+    for (const z of def.audioZones ?? []) {
+        fillRect(audioLayout, z.rect, z.kind === "room" ? z.zoneId : -z.radius);
+    }
+
+    mapInteractables = (def.interactables ?? []).map((it) => ({ ...it, rect: { ...it.rect } }));
+
+    spawnAreas = def.spawns?.length
+        ? def.spawns.map((s) => ({ ...s }))
+        : [{ c0: 0, r0: 0, c1: MAP_COLS - 1, r1: MAP_ROWS - 1 }];
+
+    const doors = { ...BUILTIN_DOORS, ...(def.doors ?? {}) };
+    DOOR_CLOSED_ID = doors.closed;
+    DOOR_OPEN_ID = doors.open;
+    TOP_DOOR_CLOSED_ID = doors.topClosed ?? 0;
+    TOP_DOOR_OPEN_ID = doors.topOpen ?? 0;
+
+    return def;
+}
 
 // ====== COLLISION ======
-const BASE_SOLID_IDS = new Set([4]);
 const EPS = 1e-3;
 const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
 
@@ -444,7 +358,7 @@ function isSolidId(id: number): boolean {
 export function isSolidTile(col: number, row: number): boolean {
     if (row < 0 || row >= MAP_ROWS || col < 0 || col >= MAP_COLS) return true;
 
-    for (const L of SOLID_TILE_LAYERS) {
+    for (const L of [wallLayout, objectLayout]) {
         const id = L[row]?.[col] ?? 0;
         if (isSolidId(id)) return true;
     }
@@ -539,23 +453,47 @@ export function resolveMove(
 }
 
 // ====== IMAGE LOADING & LAYER RENDER ======
+const imageCache = new Map<string, Promise<HTMLImageElement | null>>();
+
 function loadImageSafe(src: string): Promise<HTMLImageElement | null> {
-    return new Promise((resolve) => {
+    // headless (benchmarks): no images, tiles fall back to placeholders
+    if (typeof Image === "undefined") return Promise.resolve(null);
+    const cached = imageCache.get(src);
+    if (cached) return cached;
+    const p = new Promise<HTMLImageElement | null>((resolve) => {
         const img = new Image();
         img.decoding = "async";
         img.onload = () => resolve(img);
-        img.onerror = () => resolve(null);
+        img.onerror = () => {
+            imageCache.delete(src);
+            resolve(null);
+        };
         img.src = src;
     });
+    imageCache.set(src, p);
+    return p;
+}
+
+let createCanvas: CanvasFactory = (w, h) => {
+    const cvs = document.createElement("canvas");
+    cvs.width = w;
+    cvs.height = h;
+    return cvs;
+};
+
+/** Swap the canvas implementation (used by the headless chunk benchmark) */
+export function setCanvasFactory(factory: CanvasFactory) {
+    createCanvas = factory;
 }
 
 async function loadAssetsForLayouts(
-    layouts: number[][][]
+    layouts: number[][][],
+    extraIds: number[] = []
 ): Promise<{
     imagesById: Record<number, HTMLImageElement | null>;
     atlasImgs: Record<string, HTMLImageElement | null>;
 }> {
-    const ids = new Set<number>();
+    const ids = new Set<number>(extraIds.filter((id) => id > 0));
     for (const layer of layouts) {
         for (let r = 0; r < layer.length; r++) {
             for (let c = 0; c < layer[r].length; c++) {
@@ -590,196 +528,404 @@ async function loadAssetsForLayouts(
     return { imagesById, atlasImgs };
 }
 
+/** ====== CHUNKS ======
+ * Layers are cut into CHUNK_TILES² chunks that are painted on first use and
+ * kept in an LRU, so only what the camera sees is ever rasterised. Zoomed out,
+ * coarser levels (each one half the resolution of the previous) keep the
+ * number of visible chunks roughly constant.
+ */
+export type WorldLayerName = "floor" | "shadow" | "wall" | "object" | "over";
+
+export const CHUNK_TILES = 8;
+const CHUNK_PX = CHUNK_TILES * TILE;
+/** 320 chunks of 256×256 RGBA ≈ 80 MB, enough for a full-HD view of every layer */
+const MAX_CHUNKS = 320;
+const MAX_LEVEL = 5;
+
+type TileAssets = {
+    imagesById: Record<number, HTMLImageElement | null>;
+    atlasImgs: Record<string, HTMLImageElement | null>;
+};
+
+type TileSource = { img: HTMLImageElement; sx: number; sy: number; sw: number; sh: number };
+
+function tileSource(id: number, assets: TileAssets): TileSource | null {
+    const img = assets.imagesById[id];
+    if (img) return { img, sx: 0, sy: 0, sw: TILE, sh: TILE };
+    const slice = TILE_ATLAS_SLICES[id];
+    if (!slice) return null;
+    const atlasImg = assets.atlasImgs[slice.atlas];
+    const def = ATLASES[slice.atlas];
+    if (!atlasImg || !def) return null;
+    return { img: atlasImg, sx: slice.cx * def.tileW, sy: slice.cy * def.tileH, sw: def.tileW, sh: def.tileH };
+}
+
+/** ====== TILE ANIMATION ======
+ * Frame choice depends only on wall-clock time, so every client showing the
+ * same tile lands on (roughly) the same frame without any messages.
+ */
+let animClockOffsetMs = 0;
+
+/** Shift the animation clock, e.g. by a measured offset to a peer's clock */
+export function setAnimClockOffset(ms: number) {
+    animClockOffsetMs = ms;
+}
+
+export const animClockMs = () => Date.now() + animClockOffsetMs;
+
+const isAnimatedId = (id: number) => !!TILE_ATLAS_SLICES[id]?.frames;
+
+function frameAt(frames: TileFrame[], nowMs: number): TileFrame {
+    let total = 0;
+    for (const f of frames) total += f.ms;
+    let t = ((nowMs % total) + total) % total;
+    for (const f of frames) {
+        if (t < f.ms) return f;
+        t -= f.ms;
+    }
+    return frames[frames.length - 1];
+}
+
+function animatedSource(id: number, assets: TileAssets, nowMs: number): TileSource | null {
+    const slice = TILE_ATLAS_SLICES[id];
+    const atlasImg = slice && assets.atlasImgs[slice.atlas];
+    const def = slice && ATLASES[slice.atlas];
+    if (!slice?.frames || !atlasImg || !def) return null;
+    const f = frameAt(slice.frames, nowMs);
+    return { img: atlasImg, sx: f.cx * def.tileW, sy: f.cy * def.tileH, sw: def.tileW, sh: def.tileH };
+}
+
+/** Tile range covered by a chunk, widened by `margin` tiles and clamped to the map */
+function chunkRange(cx: number, cy: number, level: number, margin: number, cols: number, rows: number) {
+    const span = CHUNK_TILES << level;
+    return {
+        c0: Math.max(0, cx * span - margin),
+        r0: Math.max(0, cy * span - margin),
+        c1: Math.min(cols - 1, (cx + 1) * span - 1 + margin),
+        r1: Math.min(rows - 1, (cy + 1) * span - 1 + margin),
+        // chunk origin in tiles; tiles are drawn relative to it
+        oc: cx * span,
+        or: cy * span,
+    };
+}
+
 /** ====== LAYER DRAW ====== */
-function makeLayerCanvas(
+function paintLayerChunk(
+    ctx: CanvasRenderingContext2D,
     layout: number[][],
-    imagesById: Record<number, HTMLImageElement | null>,
-    atlasImgs: Record<string, HTMLImageElement | null>,
-    tile: number,
+    assets: TileAssets,
     cols: number,
-    rows: number
-): HTMLCanvasElement {
-    const cvs = document.createElement("canvas");
-    cvs.width = cols * tile;
-    cvs.height = rows * tile;
-    const ctx = cvs.getContext("2d")!;
-    ctx.imageSmoothingEnabled = false;
+    rows: number,
+    level: number,
+    cx: number,
+    cy: number
+): boolean {
+    const ts = TILE >> level;
+    const { c0, r0, c1, r1, oc, or } = chunkRange(cx, cy, level, 0, cols, rows);
+    let drawn = false;
 
-    for (let r = 0; r < rows; r++) {
+    for (let r = r0; r <= r1; r++) {
         const row = layout[r] || [];
-        for (let c = 0; c < cols; c++) {
+        for (let c = c0; c <= c1; c++) {
             const id = (row[c] | 0) as number;
             if (id <= 0) continue;
+            // full detail: animated tiles go on the overlay, chunks stay cached
+            if (level === 0 && isAnimatedId(id)) continue;
+            drawn = true;
 
-            const destX = c * tile;
-            const destY = r * tile;
+            const destX = (c - oc) * ts;
+            const destY = (r - or) * ts;
 
-            const img = imagesById[id];
-            if (img) {
-                ctx.drawImage(img, 0, 0, tile, tile, destX, destY, tile, tile);
+            const src = tileSource(id, assets);
+            if (src) {
+                ctx.drawImage(src.img, src.sx, src.sy, src.sw, src.sh, destX, destY, ts, ts);
                 continue;
             }
 
-            const slice = TILE_ATLAS_SLICES[id];
-            if (slice) {
-                const atlasImg = atlasImgs[slice.atlas];
-                const def = ATLASES[slice.atlas];
-                if (atlasImg && def) {
-                    const sx = slice.cx * def.tileW;
-                    const sy = slice.cy * def.tileH;
-                    ctx.drawImage(atlasImg, sx, sy, def.tileW, def.tileH, destX, destY, tile, tile);
-                    continue;
-                }
-            }
-
             ctx.fillStyle = "rgba(148,163,184,0.6)";
-            ctx.fillRect(destX, destY, tile, tile);
+            ctx.fillRect(destX, destY, ts, ts);
             ctx.strokeStyle = "rgba(15,23,42,0.4)";
             ctx.lineWidth = 1;
-            ctx.strokeRect(destX + 0.5, destY + 0.5, tile - 1, tile - 1);
+            ctx.strokeRect(destX + 0.5, destY + 0.5, ts - 1, ts - 1);
         }
     }
-    return cvs;
+    return drawn;
 }
 
 /** ====== MERGED SHADOW ====== */
 type ShadowLayer = { layout: number[][]; onlySolid?: boolean };
 
-function makeMergedShadowCanvas(
+const shouldCast = (id: number, onlySolid: boolean | undefined): boolean => {
+    if (id <= 0) return false;
+
+    const slice = TILE_ATLAS_SLICES[id];
+
+    if (onlySolid) {
+        if (isSolidId(id)) return true;
+        if (slice && slice.shadow === true) return true;
+        return false;
+    }
+
+    if (slice && slice.shadow === false) return false;
+
+    return true;
+};
+
+function paintShadowChunk(
+    ctx: CanvasRenderingContext2D,
+    off: ChunkCanvas,
     layers: ShadowLayer[],
-    imagesById: Record<number, HTMLImageElement | null>,
-    atlasImgs: Record<string, HTMLImageElement | null>,
-    tile: number,
+    assets: TileAssets,
     cols: number,
-    rows: number
-): HTMLCanvasElement {
-    const cvs = document.createElement("canvas");
-    cvs.width = cols * tile;
-    cvs.height = rows * tile;
-    const ctx = cvs.getContext("2d")!;
-    ctx.imageSmoothingEnabled = false;
-    const off = document.createElement("canvas");
-    off.width = tile;
-    off.height = tile;
+    rows: number,
+    level: number,
+    cx: number,
+    cy: number
+): boolean {
+    const ts = TILE >> level;
+    const scale = 1 / (1 << level);
+    const offX = SHADOW_OX * scale;
+    const offY = SHADOW_OY * scale;
     const sctx = off.getContext("2d")!;
     sctx.imageSmoothingEnabled = false;
 
-    const drawSilhouette = (
-        img: HTMLImageElement,
-        sx: number, sy: number, sw: number, sh: number,
-        dx: number, dy: number
-    ) => {
+    const drawSilhouette = (src: TileSource, dx: number, dy: number) => {
         sctx.setTransform(1, 0, 0, 1, 0, 0);
         sctx.globalAlpha = 1;
         sctx.globalCompositeOperation = "source-over";
-        sctx.clearRect(0, 0, tile, tile);
-        sctx.drawImage(img, sx, sy, sw, sh, 0, 0, tile, tile);
+        sctx.clearRect(0, 0, ts, ts);
+        sctx.drawImage(src.img, src.sx, src.sy, src.sw, src.sh, 0, 0, ts, ts);
 
         sctx.globalCompositeOperation = "source-in";
         sctx.globalAlpha = SHADOW_ALPHA;
         sctx.fillStyle = "#000";
-        sctx.fillRect(0, 0, tile, tile);
+        sctx.fillRect(0, 0, ts, ts);
 
-        ctx.drawImage(off, dx + SHADOW_OX, dy + SHADOW_OY);
+        ctx.drawImage(off as unknown as CanvasImageSource, 0, 0, ts, ts, dx + offX, dy + offY, ts, ts);
     };
 
-    const shouldCast = (id: number, onlySolid: boolean | undefined): boolean => {
-        if (id <= 0) return false;
-
-        const slice = TILE_ATLAS_SLICES[id];
-
-        if (onlySolid) {
-            if (isSolidId(id)) return true;
-            if (slice && slice.shadow === true) return true;
-            return false;
-        }
-
-        if (slice && slice.shadow === false) return false;
-
-        return true;
-    };
+    // shadows are offset, so neighbours just outside the chunk can reach into it
+    const { c0, r0, c1, r1, oc, or } = chunkRange(cx, cy, level, 1, cols, rows);
+    let drawn = false;
 
-    for (let r = 0; r < rows; r++) {
-        for (let c = 0; c < cols; c++) {
+    for (let r = r0; r <= r1; r++) {
+        for (let c = c0; c <= c1; c++) {
             let chosenId = 0;
-            let chosenLayer: ShadowLayer | null = null;
 
             for (let i = 0; i < layers.length; i++) {
                 const L = layers[i];
                 const id = (L.layout[r]?.[c] | 0) as number;
                 if (shouldCast(id, L.onlySolid)) {
                     chosenId = id;
-                    chosenLayer = L;
                     break;
                 }
             }
 
-            if (!chosenId || !chosenLayer) continue;
+            if (!chosenId) continue;
+            drawn = true;
 
-            const destX = c * tile;
-            const destY = r * tile;
+            const destX = (c - oc) * ts;
+            const destY = (r - or) * ts;
 
-            const img = imagesById[chosenId];
-            if (img) {
-                drawSilhouette(img, 0, 0, tile, tile, destX, destY);
+            const src = tileSource(chosenId, assets);
+            if (src) {
+                drawSilhouette(src, destX, destY);
                 continue;
             }
 
-            const sl = TILE_ATLAS_SLICES[chosenId];
-            if (sl) {
-                const atlasImg = atlasImgs[sl.atlas];
-                const def = ATLASES[sl.atlas];
-                if (atlasImg && def) {
-                    const sx = sl.cx * def.tileW;
-                    const sy = sl.cy * def.tileH;
-                    drawSilhouette(atlasImg, sx, sy, def.tileW, def.tileH, destX, destY);
-                    continue;
-                }
-            }
-
             ctx.globalAlpha = SHADOW_ALPHA;
             ctx.fillStyle = "#000";
-            ctx.fillRect(destX + SHADOW_OX, destY + SHADOW_OY, tile, tile);
+            ctx.fillRect(destX + offX, destY + offY, ts, ts);
             ctx.globalAlpha = 1;
         }
     }
 
-    return cvs;
+    return drawn;
 }
 
-/** Render offscreen canvas */
-export async function loadWorldMap(): Promise<WorldMap> {
+/**
+ * Render a map. With `mapDef` the map is validated and activated first;
+ * without it the active map is reloaded. Chunks read the layouts lazily, so
+ * door changes made to `wallLayout`/`topLayout` only need `invalidateTile`.
+ */
+export async function loadWorldMap(mapDef?: MapDef): Promise<WorldMap> {
+    if (mapDef !== undefined) activateMapDef(mapDef);
+
     const tile = TILE;
     const cols = MAP_COLS;
     const rows = MAP_ROWS;
+    const layers: WorldLayers = {
+        floor: floorLayout,
+        wall: wallLayout,
+        object: objectLayout,
+        top: topLayout,
+        audio: audioLayout,
+    };
+    const doors: DoorDef = {
+        closed: DOOR_CLOSED_ID,
+        open: DOOR_OPEN_ID,
+        topClosed: TOP_DOOR_CLOSED_ID,
+        topOpen: TOP_DOOR_OPEN_ID,
+    };
 
-    const { imagesById, atlasImgs } = await loadAssetsForLayouts([
-        floorLayout, wallLayout, objectLayout, topLayout
-    ]);
-
-    const floor = makeLayerCanvas(floorLayout, imagesById, atlasImgs, tile, cols, rows);
-    const wall = makeLayerCanvas(wallLayout, imagesById, atlasImgs, tile, cols, rows);
-    const object = makeLayerCanvas(objectLayout, imagesById, atlasImgs, tile, cols, rows);
-    const over = makeLayerCanvas(topLayout, imagesById, atlasImgs, tile, cols, rows);
-    const shadow = makeMergedShadowCanvas(
-        [
-            { layout: topLayout, onlySolid: false },
-            { layout: objectLayout, onlySolid: false },
-            { layout: wallLayout, onlySolid: true },
-        ],
-        imagesById, atlasImgs, tile, cols, rows
+    // door ids may not be on the map yet but can appear when doors toggle
+    const assets = await loadAssetsForLayouts(
+        [layers.floor, layers.wall, layers.object, layers.top],
+        [doors.closed, doors.open, doors.topClosed ?? 0, doors.topOpen ?? 0]
     );
 
+    const shadowLayers: ShadowLayer[] = [
+        { layout: layers.top, onlySolid: false },
+        { layout: layers.object, onlySolid: false },
+        { layout: layers.wall, onlySolid: true },
+    ];
+    const layoutOf: Record<Exclude<WorldLayerName, "shadow">, number[][]> = {
+        floor: layers.floor,
+        wall: layers.wall,
+        object: layers.object,
+        over: layers.top,
+    };
+    let silhouette: ChunkCanvas | null = null;
+
+    // animated cells per layer, bucketed by full-detail chunk for culling
+    const chunkCols = Math.ceil(cols / CHUNK_TILES);
+    const animated: Record<Exclude<WorldLayerName, "shadow">, Map<number, Set<number>>> = {
+        floor: new Map(),
+        wall: new Map(),
+        object: new Map(),
+        over: new Map(),
+    };
+    const indexCell = (layer: Exclude<WorldLayerName, "shadow">, col: number, row: number) => {
+        const bucketKey = Math.floor(row / CHUNK_TILES) * chunkCols + Math.floor(col / CHUNK_TILES);
+        const cell = row * cols + col;
+        const buckets = animated[layer];
+        if (isAnimatedId(layoutOf[layer][row]?.[col] | 0)) {
+            let bucket = buckets.get(bucketKey);
+            if (!bucket) buckets.set(bucketKey, (bucket = new Set()));
+            bucket.add(cell);
+        } else {
+            buckets.get(bucketKey)?.delete(cell);
+        }
+    };
+    if (Object.values(TILE_ATLAS_SLICES).some((sl) => sl.frames)) {
+        for (const layer of Object.keys(animated) as Exclude<WorldLayerName, "shadow">[]) {
+            for (let r = 0; r < rows; r++) {
+                for (let c = 0; c < cols; c++) indexCell(layer, c, r);
+            }
+        }
+    }
+
+    const cache = createChunkCache<WorldLayerName>({
+        chunkPx: CHUNK_PX,
+        maxChunks: MAX_CHUNKS,
+        createCanvas: (w, h) => createCanvas(w, h),
+        render: (layer, level, cx, cy, ctx) => {
+            if (layer !== "shadow") {
+                return paintLayerChunk(ctx, layoutOf[layer], assets, cols, rows, level, cx, cy);
+            }
+            silhouette ??= createCanvas(tile, tile);
+            return paintShadowChunk(ctx, silhouette, shadowLayers, assets, cols, rows, level, cx, cy);
+        },
+    });
+
+    const drawLayer: WorldMap["drawLayer"] = (ctx, layer, sx, sy, sw, sh, dx, dy, dw, dh, nowMs = animClockMs()) => {
+        if (sw <= 0 || sh <= 0 || dw <= 0 || dh <= 0) return;
+        const kx = dw / sw;
+        const ky = dh / sh;
+        // finest level with at most one chunk pixel per screen pixel keeps the
+        // visible chunk count independent of zoom
+        const level = Math.max(0, Math.min(MAX_LEVEL, Math.ceil(Math.log2(1 / Math.max(kx, ky)) - 1e-6)));
+        const span = CHUNK_PX << level;
+
+        const cx0 = Math.max(0, Math.floor(sx / span));
+        const cy0 = Math.max(0, Math.floor(sy / span));
+        const cx1 = Math.min(Math.ceil((cols * tile) / span) - 1, Math.floor((sx + sw - 1e-6) / span));
+        const cy1 = Math.min(Math.ceil((rows * tile) / span) - 1, Math.floor((sy + sh - 1e-6) / span));
+
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(dx, dy, dw, dh);
+        ctx.clip();
+        for (let cy = cy0; cy <= cy1; cy++) {
+            // neighbours share rounded edges so chunks never leave hairline gaps
+            const top = Math.round(dy + (cy * span - sy) * ky);
+            const bottom = Math.round(dy + ((cy + 1) * span - sy) * ky);
+            for (let cx = cx0; cx <= cx1; cx++) {
+                const cvs = cache.get(layer, level, cx, cy);
+                if (!cvs) continue;
+                const left = Math.round(dx + (cx * span - sx) * kx);
+                const right = Math.round(dx + ((cx + 1) * span - sx) * kx);
+                ctx.drawImage(cvs as unknown as CanvasImageSource, 0, 0, CHUNK_PX, CHUNK_PX, left, top, right - left, bottom - top);
+            }
+        }
+        if (level === 0 && layer !== "shadow") {
+            for (let cy = cy0; cy <= cy1; cy++) {
+                for (let cx = cx0; cx <= cx1; cx++) {
+                    const bucket = animated[layer].get(cy * chunkCols + cx);
+                    if (!bucket) continue;
+                    for (const cell of bucket) {
+                        const c = cell % cols;
+                        const r = (cell - c) / cols;
+                        const src = animatedSource(layoutOf[layer][r][c], assets, nowMs);
+                        if (!src) continue;
+                        const left = Math.round(dx + (c * tile - sx) * kx);
+                        const top = Math.round(dy + (r * tile - sy) * ky);
+                        const right = Math.round(dx + ((c + 1) * tile - sx) * kx);
+                        const bottom = Math.round(dy + ((r + 1) * tile - sy) * ky);
+                        ctx.drawImage(src.img, src.sx, src.sy, src.sw, src.sh, left, top, right - left, bottom - top);
+                    }
+                }
+            }
+        }
+        ctx.restore();
+    };
+
+    const invalidateTile = (col: number, row: number) => {
+        for (const layer of Object.keys(animated) as Exclude<WorldLayerName, "shadow">[]) indexCell(layer, col, row);
+        for (let level = 0; level <= MAX_LEVEL; level++) {
+            const span = CHUNK_TILES << level;
+            const cx = Math.floor(col / span);
+            const cy = Math.floor(row / span);
+            for (const layer of ["floor", "wall", "object", "over"] as const) cache.invalidate(layer, level, cx, cy);
+            // a tile's shadow can fall into the neighbouring chunks
+            const seen = new Set<string>();
+            for (let dr = -1; dr <= 1; dr++) {
+                for (let dc = -1; dc <= 1; dc++) {
+                    const ncx = Math.floor((col + dc) / span);
+                    const ncy = Math.floor((row + dr) / span);
+                    const key = `${ncx}:${ncy}`;
+                    if (seen.has(key)) continue;
+                    seen.add(key);
+                    cache.invalidate("shadow", level, ncx, ncy);
+                }
+            }
+        }
+    };
+
     return {
+        id: activeMapId,
+        name: activeMapName,
         tile,
         cols,
         rows,
         width: cols * tile,
         height: rows * tile,
-        floor,
-        wall,
-        object,
-        over,
-        shadow,
+        layers,
+        spawns: spawnAreas,
+        doors,
+        drawLayer,
+        invalidateTile,
+        chunkStats: () => cache.stats(),
+        dispose: () => {
+            cache.clear();
+            if (silhouette) {
+                silhouette.width = 0;
+                silhouette.height = 0;
+                silhouette = null;
+            }
+        },
     };
 }
+
+// Built-in office is active until a room loads its own map
+activateMapDef(DEFAULT_MAP_DEF);
@@ -0,0 +1,77 @@
+import { DEFAULT_MAP_DEF } from "./map";
+import type { MapDef } from "./mapFormat";
+import { importTiledMap } from "./tiled";
+import meetingMap from "./maps/meeting.json";
+import openOfficeMap from "./maps/open-office.json";
+import auditoriumMap from "./maps/auditorium.json";
+
+/** ===== MAP TEMPLATES ===== */
+export type MapTemplate = {
+    id: string;
+    name: string;
+    description: string;
+    def: MapDef;
+};
+
+export const DEFAULT_MAP_ID = "office";
+/** Room.mapId for rooms that carry their own map (fetched with getRoomMap) */
+export const CUSTOM_MAP_ID = "custom";
+/** Keep in sync with MAX_CUSTOM_MAP_SIZE in RoomService.mo */
+export const MAX_CUSTOM_MAP_SIZE = 512_000;
+
+export const MAP_TEMPLATES: MapTemplate[] = [
+    { id: DEFAULT_MAP_ID, name: "Office", description: "Lobby with a meeting hall and three private rooms", def: DEFAULT_MAP_DEF },
+    { id: "meeting", name: "Small meeting room", description: "One table, everyone hears everyone", def: meetingMap as MapDef },
+    { id: "open-office", name: "Open office", description: "Desk rows with a quiet phone booth", def: openOfficeMap as MapDef },
+    { id: "auditorium", name: "Auditorium", description: "Stage and seating; voices carry across the hall", def: auditoriumMap as MapDef },
+];
+
+export const getMapTemplate = (id: string | null | undefined): MapTemplate | null =>
+    MAP_TEMPLATES.find((t) => t.id === id) ?? null;
+
+export type ResolvedRoomMap = {
+    mapId: string;
+    def: MapDef;
+    /** Shown to the user when the room's map couldn't be used as-is */
+    notice: string | null;
+};
+
+const fallback = (notice: string): ResolvedRoomMap => ({
+    mapId: DEFAULT_MAP_ID,
+    def: DEFAULT_MAP_DEF,
+    notice,
+});
+
+/** Parse a room's custom map blob: our own JSON format or a Tiled export */
+export function parseCustomMap(text: string): MapDef {
+    const trimmed = text.trim();
+    if (trimmed.startsWith("<")) return importTiledMap(trimmed, { id: CUSTOM_MAP_ID });
+    const raw = JSON.parse(trimmed);
+    if (raw && typeof raw === "object" && ("tiledversion" in raw || "tilesets" in raw)) {
+        return importTiledMap(raw, { id: CUSTOM_MAP_ID });
+    }
+    return raw as MapDef;
+}
+
+/**
+ * Pick the map a room should load. Never throws: unknown ids and broken
+ * custom maps fall back to the default office with a notice.
+ */
+export function resolveRoomMap(mapId?: string | null, customMap?: string | null): ResolvedRoomMap {
+    const id = (mapId || "").trim();
+    if (!id) return { mapId: DEFAULT_MAP_ID, def: DEFAULT_MAP_DEF, notice: null };
+
+    if (id === CUSTOM_MAP_ID) {
+        if (!customMap) return fallback("This room's custom map is missing, showing the default office instead.");
+        try {
+            return { mapId: CUSTOM_MAP_ID, def: parseCustomMap(customMap), notice: null };
+        } catch (e) {
+            console.warn("resolveRoomMap: custom map unreadable", e);
+            return fallback("This room's custom map couldn't be read, showing the default office instead.");
+        }
+    }
+
+    const tpl = getMapTemplate(id);
+    if (tpl) return { mapId: tpl.id, def: tpl.def, notice: null };
+    return fallback(`This room uses map "${id}", which this version doesn't have. Showing the default office instead.`);
+}
@@ -0,0 +1,257 @@
+import { getAtlasDef, listTiles, type TileInfo } from "./map";
+import {
+    MAP_FORMAT_VERSION,
+    MAP_MAX_SIDE,
+    type DoorDef,
+    type MapDef,
+    type MapTileLayer,
+    type TileDef,
+    type TileRect,
+} from "./mapFormat";
+
+/** ===== MAP EDITING (pure operations on MapDef) ===== */
+export type EditableLayer = MapTileLayer | "audio";
+
+/** Editor working copy: every layer present, audio zones baked into layers.audio */
+export type EditableMap = MapDef & {
+    layers: Record<EditableLayer, number[][]>;
+    spawns: TileRect[];
+};
+
+const emptyGrid = (rows: number, cols: number) =>
+    Array.from({ length: rows }, () => new Array<number>(cols).fill(0));
+
+const copyGrid = (g: number[][] | undefined, rows: number, cols: number) => {
+    const out = emptyGrid(rows, cols);
+    if (!g) return out;
+    for (let r = 0; r < rows; r++) {
+        for (let c = 0; c < cols; c++) out[r][c] = g[r]?.[c] ?? 0;
+    }
+    return out;
+};
+
+const normRect = (a: TileRect): TileRect => ({
+    c0: Math.min(a.c0, a.c1),
+    r0: Math.min(a.r0, a.r1),
+    c1: Math.max(a.c0, a.c1),
+    r1: Math.max(a.r0, a.r1),
+});
+
+export function toEditable(def: MapDef): EditableMap {
+    const { cols, rows } = def;
+    const audio = copyGrid(def.layers.audio, rows, cols);
+    for (const z of def.audioZones ?? []) {
+        const r = normRect(z.rect);
+        const v = z.kind === "room" ? z.zoneId : -z.radius;
+        for (let y = r.r0; y <= r.r1; y++) {
+            for (let x = r.c0; x <= r.c1; x++) audio[y][x] = v;
+        }
+    }
+    return {
+        version: MAP_FORMAT_VERSION,
+        id: def.id,
+        name: def.name,
+        cols,
+        rows,
+        atlases: def.atlases ? structuredClone(def.atlases) : undefined,
+        tiles: def.tiles ? def.tiles.map((t) => ({ ...t })) : undefined,
+        layers: {
+            floor: copyGrid(def.layers.floor, rows, cols),
+            wall: copyGrid(def.layers.wall, rows, cols),
+            object: copyGrid(def.layers.object, rows, cols),
+            top: copyGrid(def.layers.top, rows, cols),
+            audio,
+        },
+        spawns: (def.spawns ?? []).map(normRect),
+        doors: def.doors ? { ...def.doors } : undefined,
+        interactables: def.interactables ? structuredClone(def.interactables) : undefined,
+    };
+}
+
+/** Strip empty optional parts so exported files stay small */
+export function toMapDef(m: EditableMap): MapDef {
+    const isEmpty = (g: number[][]) => g.every((row) => row.every((v) => !v));
+    const layers: MapDef["layers"] = { floor: m.layers.floor };
+    for (const k of ["wall", "object", "top", "audio"] as const) {
+        if (!isEmpty(m.layers[k])) layers[k] = m.layers[k];
+    }
+    return {
+        version: MAP_FORMAT_VERSION,
+        id: m.id,
+        name: m.name,
+        cols: m.cols,
+        rows: m.rows,
+        ...(m.atlases && Object.keys(m.atlases).length ? { atlases: m.atlases } : {}),
+        ...(m.tiles?.length ? { tiles: m.tiles } : {}),
+        layers,
+        ...(m.spawns.length ? { spawns: m.spawns } : {}),
+        ...(m.doors ? { doors: m.doors } : {}),
+        ...(m.interactables?.length ? { interactables: m.interactables } : {}),
+    };
+}
+
+export function blankMap(cols: number, rows: number, floorId = 1): EditableMap {
+    const floor = emptyGrid(rows, cols);
+    for (const row of floor) row.fill(floorId);
+    return {
+        version: MAP_FORMAT_VERSION,
+        id: "custom",
+        name: "Custom map",
+        cols,
+        rows,
+        layers: {
+            floor,
+            wall: emptyGrid(rows, cols),
+            object: emptyGrid(rows, cols),
+            top: emptyGrid(rows, cols),
+            audio: emptyGrid(rows, cols),
+        },
+        spawns: [],
+    };
+}
+
+const withLayer = (m: EditableMap, layer: EditableLayer, grid: number[][]): EditableMap => ({
+    ...m,
+    layers: { ...m.layers, [layer]: grid },
+});
+
+const inBounds = (m: EditableMap, c: number, r: number) => c >= 0 && r >= 0 && c < m.cols && r < m.rows;
+
+/** Set one cell; returns the same object when nothing changes */
+export function paintCell(m: EditableMap, layer: EditableLayer, c: number, r: number, value: number): EditableMap {
+    if (!inBounds(m, c, r) || m.layers[layer][r][c] === value) return m;
+    const grid = m.layers[layer].slice();
+    grid[r] = grid[r].slice();
+    grid[r][c] = value;
+    return withLayer(m, layer, grid);
+}
+
+export function fillRect(m: EditableMap, layer: EditableLayer, rect: TileRect, value: number): EditableMap {
+    const n = normRect(rect);
+    const grid = m.layers[layer].map((row, r) =>
+        r < n.r0 || r > n.r1 ? row : row.map((v, c) => (c < n.c0 || c > n.c1 ? v : value))
+    );
+    return withLayer(m, layer, grid);
+}
+
+export function addSpawn(m: EditableMap, rect: TileRect): EditableMap {
+    return { ...m, spawns: [...m.spawns, normRect(rect)] };
+}
+
+/** Remove every spawn region covering the tile */
+export function removeSpawnAt(m: EditableMap, c: number, r: number): EditableMap {
+    const spawns = m.spawns.filter((s) => c < s.c0 || c > s.c1 || r < s.r0 || r > s.r1);
+    return spawns.length === m.spawns.length ? m : { ...m, spawns };
+}
+
+export function setDoors(m: EditableMap, doors: DoorDef | undefined): EditableMap {
+    return { ...m, doors };
+}
+
+/** Door goes on the wall layer, its lintel on the top layer one row above */
+export function placeDoor(m: EditableMap, c: number, r: number, doors: DoorDef): EditableMap {
+    if (!inBounds(m, c, r)) return m;
+    let next = paintCell(m, "wall", c, r, doors.closed);
+    if (r > 0 && doors.topClosed) {
+        next = paintCell(next, "top", c, r - 1, doors.topClosed);
+        // the wall cell under the lintel must be open, like in the built-in office
+        next = paintCell(next, "wall", c, r - 1, 0);
+    }
+    return next;
+}
+
+export function removeDoorAt(m: EditableMap, c: number, r: number, doors: DoorDef): EditableMap {
+    const id = m.layers.wall[r]?.[c];
+    if (id !== doors.closed && id !== doors.open) return m;
+    let next = paintCell(m, "wall", c, r, 0);
+    const top = m.layers.top[r - 1]?.[c];
+    if (r > 0 && (top === doors.topClosed || top === doors.topOpen)) next = paintCell(next, "top", c, r - 1, 0);
+    return next;
+}
+
+/** Override solid/shadow of a tile for this map only */
+export function setTileFlags(m: EditableMap, tile: TileInfo, flags: { solid: boolean; shadow: boolean }): EditableMap {
+    const tiles: TileDef[] = (m.tiles ?? []).filter((t) => t.id !== tile.id);
+    tiles.push({
+        id: tile.id,
+        atlas: tile.atlas,
+        cx: tile.cx,
+        cy: tile.cy,
+        solid: flags.solid,
+        shadow: flags.shadow,
+        ...(tile.frames ? { frames: tile.frames } : {}),
+        ...(tile.interact ? { interact: tile.interact } : {}),
+    });
+    tiles.sort((a, b) => a.id - b.id);
+    return { ...m, tiles };
+}
+
+/** Tile registry as seen by a map: built-ins plus the map's own tiles (MapDef.tiles) */
+export function tilesFor(own: EditableMap["tiles"]): TileInfo[] {
+    const byId = new Map<number, TileInfo>();
+    for (const t of listTiles()) byId.set(t.id, t);
+    for (const t of own ?? []) {
+        byId.set(t.id, {
+            id: t.id,
+            atlas: t.atlas,
+            cx: t.cx,
+            cy: t.cy,
+            solid: t.solid !== false,
+            shadow: t.shadow !== false,
+            ...(t.frames ? { frames: t.frames } : {}),
+            ...(t.interact ? { interact: t.interact } : {}),
+        });
+    }
+    return Array.from(byId.values()).sort((a, b) => a.id - b.id);
+}
+
+export function atlasFor(m: EditableMap, name: string) {
+    return m.atlases?.[name] ?? getAtlasDef(name);
+}
+
+/** Grow/shrink from the bottom-right; spawns and interactables are clipped, empty ones dropped */
+export function resizeMap(m: EditableMap, cols: number, rows: number): EditableMap {
+    cols = Math.max(1, Math.min(MAP_MAX_SIDE, cols | 0));
+    rows = Math.max(1, Math.min(MAP_MAX_SIDE, rows | 0));
+    if (cols === m.cols && rows === m.rows) return m;
+    const layers = {} as EditableMap["layers"];
+    for (const k of Object.keys(m.layers) as EditableLayer[]) layers[k] = copyGrid(m.layers[k], rows, cols);
+    const spawns = m.spawns
+        .filter((s) => s.c0 < cols && s.r0 < rows)
+        .map((s) => ({ ...s, c1: Math.min(s.c1, cols - 1), r1: Math.min(s.r1, rows - 1) }));
+    const interactables = m.interactables
+        ?.map((it) => ({ ...it, rect: normRect(it.rect) }))
+        .filter((it) => it.rect.c0 < cols && it.rect.r0 < rows)
+        .map((it) => ({ ...it, rect: { ...it.rect, c1: Math.min(it.rect.c1, cols - 1), r1: Math.min(it.rect.r1, rows - 1) } }));
+    return { ...m, cols, rows, layers, spawns, interactables };
+}
+
+// === HISTORY ===
+const HISTORY_LIMIT = 200;
+
+export type History<T> = { past: T[]; present: T; future: T[] };
+
+export const historyOf = <T>(present: T): History<T> => ({ past: [], present, future: [] });
+
+export function pushHistory<T>(h: History<T>, next: T): History<T> {
+    if (next === h.present) return h;
+    const past = [...h.past, h.present];
+    if (past.length > HISTORY_LIMIT) past.shift();
+    return { past, present: next, future: [] };
+}
+
+/** Replace the present without a new undo step (e.g. while dragging a stroke) */
+export const amendHistory = <T>(h: History<T>, next: T): History<T> =>
+    next === h.present ? h : { ...h, present: next };
+
+export function undo<T>(h: History<T>): History<T> {
+    if (!h.past.length) return h;
+    const past = h.past.slice(0, -1);
+    return { past, present: h.past[h.past.length - 1], future: [h.present, ...h.future] };
+}
+
+export function redo<T>(h: History<T>): History<T> {
+    if (!h.future.length) return h;
+    const [present, ...future] = h.future;
+    return { past: [...h.past, h.present], present, future };
+}
@@ -0,0 +1,299 @@
+/** ===== MAP FILE FORMAT =====
+ * JSON description of a world. Tile ids refer either to the built-in atlas
+ * registry in map.ts or to entries declared in `tiles`.
+ */
+export const MAP_FORMAT_VERSION = 1;
+export const MAP_MAX_SIDE = 1024;
+
+/** Inclusive tile rectangle */
+export type TileRect = { c0: number; r0: number; c1: number; r1: number };
+
+export type AtlasRef = {
+    src: string;
+    tileW: number;
+    tileH: number;
+    cols: number;
+    rows: number;
+};
+
+/** One animation frame: atlas cell and how long it is shown */
+export type TileFrame = { cx: number; cy: number; ms: number };
+
+export type TileDef = {
+    id: number;
+    atlas: string;
+    cx: number;
+    cy: number;
+    solid?: boolean;
+    shadow?: boolean;
+    /** Animated tile (same atlas); cx/cy is still used for shadows and static views */
+    frames?: TileFrame[];
+    /** Every cell showing this tile can be interacted with */
+    interact?: InteractionDef;
+};
+
+export const INTERACTION_KINDS = ["sit", "open-panel", "trigger"] as const;
+export type InteractionKind = typeof INTERACTION_KINDS[number];
+
+export type InteractionDef = {
+    kind: InteractionKind;
+    /** Prompt text; defaults per kind ("Sit", "Open", "Use") */
+    label?: string;
+    /** sit: which way the seated avatar faces */
+    face?: "left" | "right";
+    /** open-panel: shown locally to whoever opens it */
+    panel?: { title?: string; text?: string; url?: string };
+    /** trigger: tile shown on the object layer while switched on */
+    onTile?: number;
+};
+
+/** Interaction placed on the map instead of on a tile type */
+export type InteractableDef = InteractionDef & { id: string; rect: TileRect };
+
+export type AudioZoneDef =
+    | { kind: "room"; zoneId: number; rect: TileRect }
+    | { kind: "radius"; radius: number; rect: TileRect };
+
+/** Tile ids that make up a door (wall layer) and its lintel (top layer, one row above) */
+export type DoorDef = {
+    closed: number;
+    open: number;
+    topClosed?: number;
+    topOpen?: number;
+};
+
+export const MAP_TILE_LAYERS = ["floor", "wall", "object", "top"] as const;
+export type MapTileLayer = typeof MAP_TILE_LAYERS[number];
+
+export type MapLayers = { floor: number[][] } & Partial<Record<Exclude<MapTileLayer, "floor"> | "audio", number[][]>>;
+
+export type MapDef = {
+    version: number;
+    id?: string;
+    name?: string;
+    cols: number;
+    rows: number;
+    atlases?: Record<string, AtlasRef>;
+    tiles?: TileDef[];
+    layers: MapLayers;
+    /** Painted on top of `layers.audio`: positive = isolated room, negative = hearing radius */
+    audioZones?: AudioZoneDef[];
+    spawns?: TileRect[];
+    doors?: DoorDef;
+    interactables?: InteractableDef[];
+};
+
+export class MapValidationError extends Error {
+    readonly issues: string[];
+
+    constructor(issues: string[]) {
+        const head = issues.slice(0, 5).join("; ");
+        const more = issues.length > 5 ? ` (+${issues.length - 5} more)` : "";
+        super(`Invalid map: ${head}${more}`);
+        this.name = "MapValidationError";
+        this.issues = issues;
+    }
+}
+
+/** What the runtime already knows about, besides the map's own declarations */
+export type MapValidationContext = {
+    hasTile: (id: number) => boolean;
+    hasAtlas: (name: string) => boolean;
+};
+
+const isInt = (v: unknown): v is number => typeof v === "number" && Number.isInteger(v);
+const isObj = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+
+function checkInteraction(v: unknown, where: string, issues: string[]) {
+    if (!isObj(v) || !(INTERACTION_KINDS as readonly unknown[]).includes(v.kind)) {
+        issues.push(`${where}: kind must be one of ${INTERACTION_KINDS.join(", ")}`);
+        return;
+    }
+    if (v.label !== undefined && typeof v.label !== "string") issues.push(`${where}: label must be a string`);
+    if (v.face !== undefined && v.face !== "left" && v.face !== "right") issues.push(`${where}: face must be 'left' or 'right'`);
+    if (v.panel !== undefined) {
+        const p = v.panel;
+        const strOrUndef = (x: unknown) => x === undefined || typeof x === "string";
+        if (!isObj(p) || !strOrUndef(p.title) || !strOrUndef(p.text) || !strOrUndef(p.url)) {
+            issues.push(`${where}: panel must be { title?, text?, url? } strings`);
+        } else if (typeof p.url === "string" && !/^https:\/\//i.test(p.url)) {
+            issues.push(`${where}: panel.url must be https`);
+        }
+    }
+    if (v.onTile !== undefined && (!isInt(v.onTile) || v.onTile <= 0)) issues.push(`${where}: onTile must be a tile id`);
+}
+
+function checkRect(rect: unknown, cols: number, rows: number, where: string, issues: string[]) {
+    if (!isObj(rect) || !isInt(rect.c0) || !isInt(rect.r0) || !isInt(rect.c1) || !isInt(rect.r1)) {
+        issues.push(`${where}: rect must have integer c0/r0/c1/r1`);
+        return;
+    }
+    const inCols = (v: number) => v >= 0 && v < cols;
+    const inRows = (v: number) => v >= 0 && v < rows;
+    if (!inCols(rect.c0) || !inCols(rect.c1) || !inRows(rect.r0) || !inRows(rect.r1)) {
+        issues.push(`${where}: rect out of bounds ${cols}x${rows}`);
+    }
+}
+
+/**
+ * Structural + reference validation. Throws MapValidationError with every
+ * problem found so editors can show them all at once.
+ */
+export function validateMapDef(raw: unknown, ctx: MapValidationContext): MapDef {
+    const issues: string[] = [];
+    if (!isObj(raw)) throw new MapValidationError(["map must be a JSON object"]);
+
+    if (raw.version !== MAP_FORMAT_VERSION) {
+        issues.push(`unsupported version ${String(raw.version)} (expected ${MAP_FORMAT_VERSION})`);
+    }
+
+    const cols = raw.cols, rows = raw.rows;
+    if (!isInt(cols) || !isInt(rows) || cols <= 0 || rows <= 0 || cols > MAP_MAX_SIDE || rows > MAP_MAX_SIDE) {
+        issues.push(`cols/rows must be integers in 1..${MAP_MAX_SIDE}`);
+        throw new MapValidationError(issues);
+    }
+
+    // atlases
+    const localAtlases = new Set<string>();
+    if (raw.atlases !== undefined) {
+        if (!isObj(raw.atlases)) {
+            issues.push("atlases must be an object");
+        } else {
+            for (const [name, a] of Object.entries(raw.atlases)) {
+                if (!isObj(a) || typeof a.src !== "string" || !isInt(a.tileW) || !isInt(a.tileH) || !isInt(a.cols) || !isInt(a.rows)) {
+                    issues.push(`atlas '${name}': needs src, tileW, tileH, cols, rows`);
+                    continue;
+                }
+                localAtlases.add(name);
+            }
+        }
+    }
+    const atlasKnown = (name: string) => localAtlases.has(name) || ctx.hasAtlas(name);
+
+    // tiles
+    const localTiles = new Set<number>();
+    if (raw.tiles !== undefined) {
+        if (!Array.isArray(raw.tiles)) {
+            issues.push("tiles must be an array");
+        } else {
+            raw.tiles.forEach((t, i) => {
+                if (!isObj(t) || !isInt(t.id) || t.id <= 0 || typeof t.atlas !== "string" || typeof t.cx !== "number" || typeof t.cy !== "number") {
+                    issues.push(`tiles[${i}]: needs positive integer id, atlas, cx, cy`);
+                    return;
+                }
+                if (!atlasKnown(t.atlas)) issues.push(`tiles[${i}] (id ${t.id}): unknown atlas '${t.atlas}'`);
+                if (t.solid !== undefined && typeof t.solid !== "boolean") issues.push(`tiles[${i}]: solid must be boolean`);
+                if (t.shadow !== undefined && typeof t.shadow !== "boolean") issues.push(`tiles[${i}]: shadow must be boolean`);
+                if (t.frames !== undefined) {
+                    const ok = Array.isArray(t.frames) && t.frames.length > 0 && t.frames.every((f) =>
+                        isObj(f) && typeof f.cx === "number" && typeof f.cy === "number" && typeof f.ms === "number" && f.ms > 0
+                    );
+                    if (!ok) issues.push(`tiles[${i}]: frames must be a non-empty array of { cx, cy, ms > 0 }`);
+                }
+                if (t.interact !== undefined) checkInteraction(t.interact, `tiles[${i}].interact`, issues);
+                localTiles.add(t.id);
+            });
+        }
+    }
+    const tileKnown = (id: number) => localTiles.has(id) || ctx.hasTile(id);
+
+    // layers
+    if (!isObj(raw.layers)) {
+        issues.push("layers must be an object");
+        throw new MapValidationError(issues);
+    }
+    if (raw.layers.floor === undefined) issues.push("layers.floor is required");
+
+    const unknownIds = new Set<number>();
+    for (const name of [...MAP_TILE_LAYERS, "audio"] as const) {
+        const grid = raw.layers[name];
+        if (grid === undefined) continue;
+        if (!Array.isArray(grid) || grid.length !== rows) {
+            issues.push(`layers.${name}: expected ${rows} rows, got ${Array.isArray(grid) ? grid.length : typeof grid}`);
+            continue;
+        }
+        for (let r = 0; r < rows; r++) {
+            const row = grid[r];
+            if (!Array.isArray(row) || row.length !== cols) {
+                issues.push(`layers.${name}[${r}]: expected ${cols} columns, got ${Array.isArray(row) ? row.length : typeof row}`);
+                continue;
+            }
+            for (let c = 0; c < cols; c++) {
+                const id = row[c];
+                if (!isInt(id)) {
+                    issues.push(`layers.${name}[${r}][${c}]: not an integer`);
+                    continue;
+                }
+                if (name === "audio") continue;
+                if (id < 0) issues.push(`layers.${name}[${r}][${c}]: negative tile id ${id}`);
+                else if (id > 0 && !tileKnown(id)) unknownIds.add(id);
+            }
+        }
+    }
+    if (unknownIds.size) {
+        issues.push(`unknown tile id(s): ${Array.from(unknownIds).sort((a, b) => a - b).join(", ")}`);
+    }
+
+    // audio zones
+    if (raw.audioZones !== undefined) {
+        if (!Array.isArray(raw.audioZones)) {
+            issues.push("audioZones must be an array");
+        } else {
+            raw.audioZones.forEach((z, i) => {
+                if (!isObj(z)) { issues.push(`audioZones[${i}]: must be an object`); return; }
+                if (z.kind === "room") {
+                    if (!isInt(z.zoneId) || z.zoneId <= 0) issues.push(`audioZones[${i}]: zoneId must be a positive integer`);
+                } else if (z.kind === "radius") {
+                    if (!isInt(z.radius) || z.radius <= 0) issues.push(`audioZones[${i}]: radius must be a positive integer`);
+                } else {
+                    issues.push(`audioZones[${i}]: kind must be 'room' or 'radius'`);
+                }
+                checkRect(z.rect, cols, rows, `audioZones[${i}]`, issues);
+            });
+        }
+    }
+
+    // spawns
+    if (raw.spawns !== undefined) {
+        if (!Array.isArray(raw.spawns)) issues.push("spawns must be an array");
+        else raw.spawns.forEach((s, i) => checkRect(s, cols, rows, `spawns[${i}]`, issues));
+    }
+
+    // doors
+    if (raw.doors !== undefined) {
+        const d = raw.doors;
+        if (!isObj(d) || !isInt(d.closed) || !isInt(d.open)) {
+            issues.push("doors: needs integer closed/open tile ids");
+        } else {
+            for (const k of ["closed", "open", "topClosed", "topOpen"] as const) {
+                const id = d[k];
+                if (id === undefined) continue;
+                if (!isInt(id) || !tileKnown(id)) issues.push(`doors.${k}: unknown tile id ${String(id)}`);
+            }
+        }
+    }
+
+    // interactables
+    if (raw.interactables !== undefined) {
+        if (!Array.isArray(raw.interactables)) {
+            issues.push("interactables must be an array");
+        } else {
+            const ids = new Set<string>();
+            raw.interactables.forEach((it, i) => {
+                const where = `interactables[${i}]`;
+                if (!isObj(it) || typeof it.id !== "string" || !it.id) {
+                    issues.push(`${where}: needs a string id`);
+                    return;
+                }
+                if (ids.has(it.id)) issues.push(`${where}: duplicate id '${it.id}'`);
+                ids.add(it.id);
+                checkInteraction(it, where, issues);
+                checkRect(it.rect, cols, rows, where, issues);
+                if (isInt(it.onTile) && !tileKnown(it.onTile)) issues.push(`${where}: unknown onTile ${it.onTile}`);
+            });
+        }
+    }
+
+    if (issues.length) throw new MapValidationError(issues);
+    return raw as unknown as MapDef;
+}
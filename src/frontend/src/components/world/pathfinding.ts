@@ -0,0 +1,142 @@
+import { MAP_COLS, MAP_ROWS, isSolidTile } from "./map";
+
+/** ===== PATHFINDING (A* over the active map) =====
+ * 8-directional, same corner rule as the audio BFS in Room.tsx: a diagonal
+ * step is only blocked when both orthogonal neighbours are solid. Closed doors
+ * are solid tiles, so paths go around them until they're opened.
+ */
+export type TileStep = { col: number; row: number };
+
+export type FindPathOptions = {
+    /** Stop once within this Chebyshev distance of the goal (0 = on it) */
+    near?: number;
+    /** Give up after expanding this many tiles */
+    maxNodes?: number;
+};
+
+const DEFAULT_MAX_NODES = 200_000;
+const SQRT2 = Math.SQRT2;
+
+/**
+ * Min-heap of node indices, each keyed by the f-score it was pushed with. A
+ * node whose score drops is pushed again; the stale entry pops later and is
+ * skipped as already closed.
+ */
+class NodeHeap {
+    private nodes: number[] = [];
+    private keys: number[] = [];
+
+    get size() { return this.nodes.length; }
+
+    push(n: number, key: number) {
+        const { nodes, keys } = this;
+        let i = nodes.length;
+        nodes.push(n);
+        keys.push(key);
+        while (i > 0) {
+            const p = (i - 1) >> 1;
+            if (keys[p] <= key) break;
+            nodes[i] = nodes[p];
+            keys[i] = keys[p];
+            i = p;
+        }
+        nodes[i] = n;
+        keys[i] = key;
+    }
+
+    pop(): number {
+        const { nodes, keys } = this;
+        const top = nodes[0];
+        const lastNode = nodes.pop()!;
+        const lastKey = keys.pop()!;
+        const len = nodes.length;
+        if (len) {
+            let i = 0;
+            while (true) {
+                const l = i * 2 + 1;
+                if (l >= len) break;
+                const m = l + 1 < len && keys[l + 1] < keys[l] ? l + 1 : l;
+                if (keys[m] >= lastKey) break;
+                nodes[i] = nodes[m];
+                keys[i] = keys[m];
+                i = m;
+            }
+            nodes[i] = lastNode;
+            keys[i] = lastKey;
+        }
+        return top;
+    }
+}
+
+/**
+ * Tiles to walk through from `from` (exclusive) to the goal (inclusive).
+ * Returns [] when already there and null when the goal can't be reached.
+ * A solid goal (a table, a wall) is approached to within 1 tile.
+ */
+export function findPath(from: TileStep, to: TileStep, opts: FindPathOptions = {}): TileStep[] | null {
+    const cols = MAP_COLS;
+    const rows = MAP_ROWS;
+    const inside = (c: number, r: number) => c >= 0 && r >= 0 && c < cols && r < rows;
+    if (!inside(from.col, from.row) || !inside(to.col, to.row)) return null;
+
+    let near = Math.max(0, opts.near ?? 0);
+    if (near === 0 && isSolidTile(to.col, to.row)) near = 1;
+    const maxNodes = opts.maxNodes ?? DEFAULT_MAX_NODES;
+
+    const done = (c: number, r: number) => Math.max(Math.abs(c - to.col), Math.abs(r - to.row)) <= near;
+    if (done(from.col, from.row)) return [];
+
+    // octile distance, shortened by `near` so it stays admissible
+    const h = (c: number, r: number) => {
+        const dx = Math.max(0, Math.abs(c - to.col) - near);
+        const dy = Math.max(0, Math.abs(r - to.row) - near);
+        return Math.max(dx, dy) + (SQRT2 - 1) * Math.min(dx, dy);
+    };
+
+    const n = cols * rows;
+    const g = new Float64Array(n).fill(Infinity);
+    const parent = new Int32Array(n).fill(-1);
+    const closed = new Uint8Array(n);
+    const open = new NodeHeap();
+
+    const start = from.row * cols + from.col;
+    g[start] = 0;
+    open.push(start, h(from.col, from.row));
+
+    let expanded = 0;
+    while (open.size) {
+        const cur = open.pop();
+        if (closed[cur]) continue;
+        closed[cur] = 1;
+
+        const c = cur % cols;
+        const r = (cur - c) / cols;
+        if (done(c, r)) {
+            const path: TileStep[] = [];
+            for (let i = cur; i !== start; i = parent[i]) {
+                const pc = i % cols;
+                path.push({ col: pc, row: (i - pc) / cols });
+            }
+            return path.reverse();
+        }
+        if (++expanded > maxNodes) return null;
+
+        for (let dy = -1; dy <= 1; dy++) {
+            for (let dx = -1; dx <= 1; dx++) {
+                if (!dx && !dy) continue;
+                const nc = c + dx, nr = r + dy;
+                if (!inside(nc, nr) || isSolidTile(nc, nr)) continue;
+                if (dx !== 0 && dy !== 0 && isSolidTile(c + dx, r) && isSolidTile(c, r + dy)) continue;
+
+                const ni = nr * cols + nc;
+                if (closed[ni]) continue;
+                const ng = g[cur] + (dx !== 0 && dy !== 0 ? SQRT2 : 1);
+                if (ng >= g[ni]) continue;
+                g[ni] = ng;
+                parent[ni] = cur;
+                open.push(ni, ng + h(nc, nr));
+            }
+        }
+    }
+    return null;
+}
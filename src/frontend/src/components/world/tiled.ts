@@ -0,0 +1,694 @@
+import { loadWorldMap, type WorldMap } from "./map";
+import {
+    INTERACTION_KINDS,
+    MAP_FORMAT_VERSION,
+    type AtlasRef,
+    type AudioZoneDef,
+    type DoorDef,
+    type InteractableDef,
+    type InteractionDef,
+    type MapDef,
+    type TileDef,
+    type TileRect,
+} from "./mapFormat";
+
+/** ===== TILED IMPORT =====
+ * Converts a Tiled map (.tmj JSON or .tmx XML) into a MapDef.
+ *
+ * Tile layers map by their `layer` property or name: floor/ground, wall/walls,
+ * object/objects/furniture, top/over/overlay. Tile custom properties:
+ * `solid` (default false), `shadow` (default true), `door` = closed | open |
+ * topClosed | topOpen, `interact` = sit | open-panel | trigger (with optional
+ * `label`, `face`, `panelTitle`, `panelText`, `panelUrl`, `onTile` gid).
+ * Tile animations become animated tiles. Object layers: class/type `spawn`, `audio` (with
+ * integer `zone` or `radius`), `door` (optional bool `open`), `interact` (same
+ * properties as tiles).
+ */
+
+export type TiledImportOptions = {
+    id?: string;
+    name?: string;
+    /** URL of the map file; tileset images and external tilesets resolve against it */
+    baseUrl?: string;
+    /** Added to every Tiled gid so imported tiles don't clash with built-in ids */
+    idOffset?: number;
+    /** Pre-loaded external tilesets (.tsj/.tsx contents) keyed by their `source` */
+    externalTilesets?: Record<string, string | object>;
+};
+
+export class TiledImportError extends Error {
+    readonly issues: string[];
+
+    constructor(issues: string[]) {
+        const head = issues.slice(0, 5).join("; ");
+        const more = issues.length > 5 ? ` (+${issues.length - 5} more)` : "";
+        super(`Tiled import failed: ${head}${more}`);
+        this.name = "TiledImportError";
+        this.issues = issues;
+    }
+}
+
+const DEFAULT_ID_OFFSET = 1000;
+
+// gid flag bits (flip H/V/D, hex rotation)
+const GID_FLAGS = 0xf0000000;
+const GID_MASK = 0x0fffffff;
+
+// === Tiled document subset (JSON shape; TMX is parsed into the same shape) ===
+type TiledProperty = { name: string; type?: string; value: unknown };
+
+type TiledFrame = { tileid: number; duration: number };
+
+type TiledTile = { id: number; properties?: TiledProperty[]; image?: string; animation?: TiledFrame[] };
+
+type TiledTileset = {
+    firstgid: number;
+    source?: string;
+    name?: string;
+    tilewidth?: number;
+    tileheight?: number;
+    tilecount?: number;
+    columns?: number;
+    image?: string;
+    imagewidth?: number;
+    imageheight?: number;
+    margin?: number;
+    spacing?: number;
+    properties?: TiledProperty[];
+    tiles?: TiledTile[];
+};
+
+type TiledObject = {
+    id?: number;
+    name?: string;
+    type?: string;
+    class?: string;
+    x: number;
+    y: number;
+    width?: number;
+    height?: number;
+    gid?: number;
+    point?: boolean;
+    properties?: TiledProperty[];
+};
+
+type TiledLayer = {
+    type: string;
+    name?: string;
+    class?: string;
+    visible?: boolean;
+    width?: number;
+    height?: number;
+    data?: number[] | string;
+    encoding?: string;
+    compression?: string;
+    chunks?: unknown[];
+    objects?: TiledObject[];
+    layers?: TiledLayer[];
+    properties?: TiledProperty[];
+};
+
+type TiledMap = {
+    orientation?: string;
+    infinite?: boolean;
+    width: number;
+    height: number;
+    tilewidth: number;
+    tileheight: number;
+    tilesets?: TiledTileset[];
+    layers?: TiledLayer[];
+    properties?: TiledProperty[];
+};
+
+type WorldTileLayer = "floor" | "wall" | "object" | "top";
+
+const LAYER_ALIASES: Record<string, WorldTileLayer> = {
+    floor: "floor",
+    ground: "floor",
+    wall: "wall",
+    walls: "wall",
+    object: "object",
+    objects: "object",
+    furniture: "object",
+    top: "top",
+    over: "top",
+    overlay: "top",
+};
+
+const DOOR_ROLES = ["closed", "open", "topClosed", "topOpen"] as const;
+
+// === helpers ===
+const prop = (props: TiledProperty[] | undefined, name: string): unknown =>
+    props?.find((p) => p.name === name)?.value;
+
+const resolveUrl = (src: string, baseUrl?: string) => {
+    if (!baseUrl) return src;
+    try {
+        return new URL(src, new URL(baseUrl, window.location.href)).href;
+    } catch {
+        return src;
+    }
+};
+
+/** Little-endian uint32 gids, or null if `data` isn't Base64 */
+function decodeBase64Gids(data: string): number[] | null {
+    let bin: string;
+    try {
+        bin = atob(data.trim());
+    } catch {
+        return null;
+    }
+    const out: number[] = [];
+    for (let i = 0; i + 3 < bin.length; i += 4) {
+        out.push(
+            (bin.charCodeAt(i) |
+                (bin.charCodeAt(i + 1) << 8) |
+                (bin.charCodeAt(i + 2) << 16) |
+                (bin.charCodeAt(i + 3) << 24)) >>> 0
+        );
+    }
+    return out;
+}
+
+// === TMX / TSX (XML) ===
+const num = (el: Element, attr: string): number | undefined => {
+    const v = el.getAttribute(attr);
+    return v === null ? undefined : Number(v);
+};
+
+function xmlProps(el: Element): TiledProperty[] | undefined {
+    const holder = Array.from(el.children).find((c) => c.tagName === "properties");
+    if (!holder) return undefined;
+    return Array.from(holder.children)
+        .filter((p) => p.tagName === "property")
+        .map((p) => {
+            const type = p.getAttribute("type") ?? "string";
+            const raw = p.getAttribute("value") ?? p.textContent ?? "";
+            const value =
+                type === "bool" ? raw === "true" :
+                type === "int" || type === "float" ? Number(raw) :
+                raw;
+            return { name: p.getAttribute("name") ?? "", type, value };
+        });
+}
+
+function xmlTileset(el: Element): TiledTileset {
+    const img = Array.from(el.children).find((c) => c.tagName === "image");
+    return {
+        firstgid: num(el, "firstgid") ?? 1,
+        source: el.getAttribute("source") ?? undefined,
+        name: el.getAttribute("name") ?? undefined,
+        tilewidth: num(el, "tilewidth"),
+        tileheight: num(el, "tileheight"),
+        tilecount: num(el, "tilecount"),
+        columns: num(el, "columns"),
+        margin: num(el, "margin"),
+        spacing: num(el, "spacing"),
+        image: img?.getAttribute("source") ?? undefined,
+        imagewidth: img ? num(img, "width") : undefined,
+        imageheight: img ? num(img, "height") : undefined,
+        properties: xmlProps(el),
+        tiles: Array.from(el.children)
+            .filter((c) => c.tagName === "tile")
+            .map((t) => {
+                const timg = Array.from(t.children).find((c) => c.tagName === "image");
+                const anim = Array.from(t.children).find((c) => c.tagName === "animation");
+                return {
+                    id: num(t, "id") ?? 0,
+                    properties: xmlProps(t),
+                    image: timg?.getAttribute("source") ?? undefined,
+                    animation: anim
+                        ? Array.from(anim.children)
+                            .filter((f) => f.tagName === "frame")
+                            .map((f) => ({ tileid: num(f, "tileid") ?? 0, duration: num(f, "duration") ?? 0 }))
+                        : undefined,
+                };
+            }),
+    };
+}
+
+function xmlLayer(el: Element): TiledLayer | null {
+    const common = {
+        name: el.getAttribute("name") ?? undefined,
+        class: el.getAttribute("class") ?? undefined,
+        visible: el.getAttribute("visible") !== "0",
+        properties: xmlProps(el),
+    };
+
+    if (el.tagName === "layer") {
+        const dataEl = Array.from(el.children).find((c) => c.tagName === "data");
+        const encoding = dataEl?.getAttribute("encoding") ?? undefined;
+        const compression = dataEl?.getAttribute("compression") ?? undefined;
+        const chunks = dataEl ? Array.from(dataEl.children).filter((c) => c.tagName === "chunk") : [];
+        let data: number[] | string | undefined;
+        if (dataEl && !chunks.length) {
+            if (encoding === "csv") {
+                data = (dataEl.textContent ?? "").split(",").map((s) => s.trim()).filter(Boolean).map(Number);
+            } else if (encoding === "base64") {
+                data = (dataEl.textContent ?? "").trim();
+            } else {
+                data = Array.from(dataEl.children)
+                    .filter((c) => c.tagName === "tile")
+                    .map((t) => num(t, "gid") ?? 0);
+            }
+        }
+        return {
+            ...common,
+            type: "tilelayer",
+            width: num(el, "width"),
+            height: num(el, "height"),
+            data,
+            encoding: encoding === "base64" ? "base64" : "csv",
+            compression,
+            chunks: chunks.length ? chunks : undefined,
+        };
+    }
+
+    if (el.tagName === "objectgroup") {
+        return {
+            ...common,
+            type: "objectgroup",
+            objects: Array.from(el.children)
+                .filter((c) => c.tagName === "object")
+                .map((o) => ({
+                    id: num(o, "id"),
+                    name: o.getAttribute("name") ?? undefined,
+                    type: o.getAttribute("type") ?? undefined,
+                    class: o.getAttribute("class") ?? undefined,
+                    x: num(o, "x") ?? 0,
+                    y: num(o, "y") ?? 0,
+                    width: num(o, "width"),
+                    height: num(o, "height"),
+                    gid: num(o, "gid"),
+                    point: Array.from(o.children).some((c) => c.tagName === "point"),
+                    properties: xmlProps(o),
+                })),
+        };
+    }
+
+    if (el.tagName === "group") {
+        return {
+            ...common,
+            type: "group",
+            layers: Array.from(el.children).map(xmlLayer).filter((l): l is TiledLayer => !!l),
+        };
+    }
+
+    if (el.tagName === "imagelayer") return { ...common, type: "imagelayer" };
+    return null;
+}
+
+function parseXml(text: string, rootTag: string): Element {
+    const doc = new DOMParser().parseFromString(text, "application/xml");
+    const err = doc.getElementsByTagName("parsererror")[0];
+    if (err) throw new TiledImportError([`invalid XML: ${(err.textContent ?? "").trim().split("\n")[0]}`]);
+    const root = doc.documentElement;
+    if (root.tagName !== rootTag) throw new TiledImportError([`expected <${rootTag}> root, got <${root.tagName}>`]);
+    return root;
+}
+
+function parseTmx(text: string): TiledMap {
+    const root = parseXml(text, "map");
+    return {
+        orientation: root.getAttribute("orientation") ?? undefined,
+        infinite: root.getAttribute("infinite") === "1",
+        width: num(root, "width") ?? 0,
+        height: num(root, "height") ?? 0,
+        tilewidth: num(root, "tilewidth") ?? 0,
+        tileheight: num(root, "tileheight") ?? 0,
+        properties: xmlProps(root),
+        tilesets: Array.from(root.children).filter((c) => c.tagName === "tileset").map(xmlTileset),
+        layers: Array.from(root.children).map(xmlLayer).filter((l): l is TiledLayer => !!l),
+    };
+}
+
+function parseDocument<T>(source: string | object, xmlRoot: string, fromXml: (text: string) => T): T {
+    if (typeof source !== "string") return source as T;
+    const text = source.trim();
+    if (text.startsWith("<")) return fromXml(text);
+    try {
+        return JSON.parse(text) as T;
+    } catch (e) {
+        throw new TiledImportError([`not valid JSON or <${xmlRoot}> XML: ${(e as Error).message}`]);
+    }
+}
+
+// === conversion ===
+type ResolvedTileset = TiledTileset & { atlas: string | null };
+
+function resolveTilesets(map: TiledMap, opts: TiledImportOptions, issues: string[]): ResolvedTileset[] {
+    const out: ResolvedTileset[] = [];
+    (map.tilesets ?? []).forEach((ts, i) => {
+        let full: TiledTileset = ts;
+        if (ts.source) {
+            const ext = opts.externalTilesets?.[ts.source];
+            if (ext === undefined) {
+                issues.push(`tileset '${ts.source}' is external and was not provided (embed it or pass externalTilesets)`);
+                return;
+            }
+            const parsed = parseDocument<TiledTileset>(ext, "tileset", (t) => xmlTileset(parseXml(t, "tileset")));
+            // an external tileset's image path is relative to the tileset file
+            const image = parsed.image && opts.baseUrl
+                ? resolveUrl(parsed.image, resolveUrl(ts.source, opts.baseUrl))
+                : parsed.image;
+            full = { ...parsed, image, firstgid: ts.firstgid, source: ts.source };
+        }
+
+        const label = full.name || full.source || `#${i}`;
+        if (!full.image) {
+            // image-collection tilesets have one image per tile and no grid
+            issues.push(`tileset '${label}': image collection tilesets are not supported`);
+            out.push({ ...full, atlas: null });
+            return;
+        }
+        if (!full.tilewidth || !full.tileheight || !full.imagewidth || !full.imageheight) {
+            issues.push(`tileset '${label}': missing tile or image size`);
+            out.push({ ...full, atlas: null });
+            return;
+        }
+        out.push({ ...full, atlas: `tiled:${opts.id ?? "map"}:${label}` });
+    });
+    return out.sort((a, b) => a.firstgid - b.firstgid);
+}
+
+function tilesetForGid(tilesets: ResolvedTileset[], gid: number): ResolvedTileset | null {
+    let found: ResolvedTileset | null = null;
+    for (const ts of tilesets) {
+        if (ts.firstgid <= gid) found = ts;
+        else break;
+    }
+    return found;
+}
+
+function flattenLayers(layers: TiledLayer[] | undefined, out: TiledLayer[] = []): TiledLayer[] {
+    for (const l of layers ?? []) {
+        if (l.visible === false) continue;
+        if (l.type === "group") flattenLayers(l.layers, out);
+        else out.push(l);
+    }
+    return out;
+}
+
+function objectRect(o: TiledObject, tw: number, th: number, cols: number, rows: number): TileRect {
+    const w = o.width ?? 0;
+    const h = o.height ?? 0;
+    // tile objects are anchored at their bottom-left corner
+    const top = o.gid ? o.y - h : o.y;
+    const c0 = Math.floor(o.x / tw);
+    const r0 = Math.floor(top / th);
+    const c1 = w > 0 ? Math.ceil((o.x + w) / tw) - 1 : c0;
+    const r1 = h > 0 ? Math.ceil((top + h) / th) - 1 : r0;
+    const cl = (v: number, max: number) => Math.max(0, Math.min(max - 1, v));
+    return { c0: cl(c0, cols), r0: cl(r0, rows), c1: cl(c1, cols), r1: cl(r1, rows) };
+}
+
+/**
+ * Convert a Tiled map into a MapDef. Throws TiledImportError listing every
+ * unsupported feature found; the result is validated again on activation.
+ */
+export function importTiledMap(source: string | object, opts: TiledImportOptions = {}): MapDef {
+    const map = parseDocument<TiledMap>(source, "map", parseTmx);
+    const issues: string[] = [];
+    const idOffset = opts.idOffset ?? DEFAULT_ID_OFFSET;
+
+    if (map.orientation && map.orientation !== "orthogonal") {
+        issues.push(`${map.orientation} maps are not supported (orthogonal only)`);
+    }
+    if (map.infinite) {
+        issues.push("infinite maps are not supported (Map > Map Properties > uncheck Infinite)");
+    }
+    const cols = map.width | 0;
+    const rows = map.height | 0;
+    const tw = map.tilewidth | 0;
+    const th = map.tileheight | 0;
+    if (cols <= 0 || rows <= 0 || tw <= 0 || th <= 0) {
+        issues.push("map width/height/tilewidth/tileheight must be positive");
+    }
+    if (issues.length) throw new TiledImportError(issues);
+
+    const tilesets = resolveTilesets(map, opts, issues);
+
+    const grids: Record<WorldTileLayer, number[][]> = {
+        floor: Array.from({ length: rows }, () => new Array<number>(cols).fill(0)),
+        wall: Array.from({ length: rows }, () => new Array<number>(cols).fill(0)),
+        object: Array.from({ length: rows }, () => new Array<number>(cols).fill(0)),
+        top: Array.from({ length: rows }, () => new Array<number>(cols).fill(0)),
+    };
+    const usedGids = new Set<number>();
+    const audioZones: AudioZoneDef[] = [];
+    const spawns: TileRect[] = [];
+    const doorObjects: { rect: TileRect; open: boolean }[] = [];
+    const interactables: InteractableDef[] = [];
+
+    const interactionFrom = (props: TiledProperty[] | undefined, where: string): InteractionDef | null => {
+        const kind = prop(props, "interact");
+        if (kind === undefined) return null;
+        if (!(INTERACTION_KINDS as readonly unknown[]).includes(kind)) {
+            issues.push(`${where}: interact must be one of ${INTERACTION_KINDS.join(", ")}`);
+            return null;
+        }
+        const str = (name: string) => {
+            const v = prop(props, name);
+            return typeof v === "string" && v ? v : undefined;
+        };
+        const face = str("face");
+        const onTile = prop(props, "onTile");
+        if (Number.isInteger(onTile) && (onTile as number) > 0) usedGids.add(onTile as number);
+        const panel = { title: str("panelTitle"), text: str("panelText"), url: str("panelUrl") };
+        return {
+            kind: kind as InteractionDef["kind"],
+            ...(str("label") ? { label: str("label") } : {}),
+            ...(face === "left" || face === "right" ? { face } : {}),
+            ...(panel.title || panel.text || panel.url ? { panel } : {}),
+            ...(Number.isInteger(onTile) && (onTile as number) > 0 ? { onTile: (onTile as number) + idOffset } : {}),
+        };
+    };
+
+    for (const layer of flattenLayers(map.layers)) {
+        const lname = layer.name ?? "(unnamed)";
+
+        if (layer.type === "tilelayer") {
+            if (layer.chunks) {
+                issues.push(`layer '${lname}': chunked (infinite) layer data is not supported`);
+                continue;
+            }
+            const explicit = prop(layer.properties, "layer");
+            const key = String(typeof explicit === "string" ? explicit : layer.name ?? "").toLowerCase();
+            const target = LAYER_ALIASES[key];
+            if (!target) {
+                issues.push(`layer '${lname}': name it floor/wall/object/top or set a 'layer' property`);
+                continue;
+            }
+
+            let data: number[] = [];
+            if (typeof layer.data === "string") {
+                if (layer.compression) {
+                    issues.push(`layer '${lname}': ${layer.compression} compression is not supported (use CSV or uncompressed Base64)`);
+                    continue;
+                }
+                const decoded = decodeBase64Gids(layer.data);
+                if (!decoded) {
+                    issues.push(`layer '${lname}': data is not valid Base64`);
+                    continue;
+                }
+                data = decoded;
+            } else if (Array.isArray(layer.data)) {
+                data = layer.data;
+            }
+            if (data.length !== cols * rows) {
+                issues.push(`layer '${lname}': expected ${cols * rows} tiles, got ${data.length}`);
+                continue;
+            }
+
+            let flipped = 0;
+            for (let i = 0; i < data.length; i++) {
+                const raw = data[i] >>> 0;
+                if (!raw) continue;
+                if (raw & GID_FLAGS) flipped++;
+                const gid = raw & GID_MASK;
+                usedGids.add(gid);
+                grids[target][Math.floor(i / cols)][i % cols] = gid + idOffset;
+            }
+            if (flipped) issues.push(`layer '${lname}': ${flipped} flipped/rotated tile(s) are not supported`);
+            continue;
+        }
+
+        if (layer.type === "objectgroup") {
+            for (const o of layer.objects ?? []) {
+                const kind = String(o.type || o.class || "").toLowerCase();
+                const where = `object ${o.id ?? "?"}${o.name ? ` '${o.name}'` : ""} in '${lname}'`;
+                const rect = objectRect(o, tw, th, cols, rows);
+
+                if (kind === "spawn") {
+                    spawns.push(rect);
+                } else if (kind === "audio") {
+                    const zone = prop(o.properties, "zone");
+                    const radius = prop(o.properties, "radius");
+                    if (Number.isInteger(zone) && (zone as number) > 0) {
+                        audioZones.push({ kind: "room", zoneId: zone as number, rect });
+                    } else if (Number.isInteger(radius) && (radius as number) > 0) {
+                        audioZones.push({ kind: "radius", radius: radius as number, rect });
+                    } else {
+                        issues.push(`${where}: audio zone needs a positive integer 'zone' or 'radius' property`);
+                    }
+                } else if (kind === "door") {
+                    doorObjects.push({ rect, open: prop(o.properties, "open") === true });
+                } else if (kind === "interact") {
+                    const def = interactionFrom(o.properties, where);
+                    if (def) interactables.push({ ...def, id: o.name || `tiled-${o.id ?? interactables.length}`, rect });
+                    else if (prop(o.properties, "interact") === undefined) issues.push(`${where}: needs an 'interact' property`);
+                }
+            }
+            continue;
+        }
+        // image layers are decoration only in Tiled; nothing to import
+    }
+
+    // tiles + atlases actually referenced
+    const atlases: Record<string, AtlasRef> = {};
+    const tiles: TileDef[] = [];
+    const doors: Partial<DoorDef> = {};
+
+    const describeTile = (gid: number) => {
+        const ts = tilesetForGid(tilesets, gid);
+        if (!ts || !ts.atlas) return null;
+        const local = gid - ts.firstgid;
+        if (ts.tilecount !== undefined && local >= ts.tilecount) return null;
+        return { ts, local, meta: ts.tiles?.find((t) => t.id === local) };
+    };
+
+    // door roles can be set on tiles that never appear in a layer
+    for (const ts of tilesets) {
+        for (const t of ts.tiles ?? []) {
+            if (prop(t.properties, "door") !== undefined) usedGids.add(ts.firstgid + t.id);
+            // a trigger's "on" look may only ever appear by switching it on
+            const onTile = prop(t.properties, "onTile");
+            if (Number.isInteger(onTile) && (onTile as number) > 0) usedGids.add(onTile as number);
+        }
+    }
+
+    const missing: number[] = [];
+    for (const gid of Array.from(usedGids).sort((a, b) => a - b)) {
+        const info = describeTile(gid);
+        if (!info) {
+            missing.push(gid);
+            continue;
+        }
+        const { ts, local, meta } = info;
+        const atlas = ts.atlas!;
+        const tW = ts.tilewidth!;
+        const tH = ts.tileheight!;
+        const margin = ts.margin ?? 0;
+        const spacing = ts.spacing ?? 0;
+        const columns = ts.columns || Math.max(1, Math.floor((ts.imagewidth! - margin * 2 + spacing) / (tW + spacing)));
+
+        if (!atlases[atlas]) {
+            atlases[atlas] = {
+                src: resolveUrl(ts.image!, opts.baseUrl),
+                tileW: tW,
+                tileH: tH,
+                cols: Math.ceil(ts.imagewidth! / tW),
+                rows: Math.ceil(ts.imageheight! / tH),
+            };
+        }
+
+        // slice position in atlas-tile units; margin/spacing make it fractional
+        const cellOf = (n: number) => ({
+            cx: (margin + (n % columns) * (tW + spacing)) / tW,
+            cy: (margin + Math.floor(n / columns) * (tH + spacing)) / tH,
+        });
+        const { cx, cy } = cellOf(local);
+
+        let frames: TileDef["frames"];
+        if (meta?.animation?.length) {
+            const bad = meta.animation.some((f) => !(f.duration > 0) || f.tileid < 0 || (ts.tilecount !== undefined && f.tileid >= ts.tilecount));
+            if (bad) issues.push(`tile ${gid}: animation frames need a tile of the same tileset and a positive duration`);
+            else frames = meta.animation.map((f) => ({ ...cellOf(f.tileid), ms: f.duration }));
+        }
+
+        const solid = prop(meta?.properties, "solid") ?? prop(ts.properties, "solid");
+        const shadow = prop(meta?.properties, "shadow") ?? prop(ts.properties, "shadow");
+        const id = gid + idOffset;
+        tiles.push({
+            id,
+            atlas,
+            cx,
+            cy,
+            solid: solid === true,
+            shadow: shadow !== false,
+            ...(frames ? { frames } : {}),
+        });
+        const interact = interactionFrom(meta?.properties, `tile ${gid}`);
+        if (interact) tiles[tiles.length - 1].interact = interact;
+
+        const role = prop(meta?.properties, "door");
+        if (role !== undefined) {
+            if ((DOOR_ROLES as readonly unknown[]).includes(role)) {
+                doors[role as typeof DOOR_ROLES[number]] = id;
+            } else {
+                issues.push(`tile ${gid}: door must be one of ${DOOR_ROLES.join(", ")}`);
+            }
+        }
+    }
+    if (missing.length) issues.push(`tile gid(s) without a usable tileset: ${missing.join(", ")}`);
+
+    if (doorObjects.length || Object.keys(doors).length) {
+        if (doors.closed === undefined || doors.open === undefined) {
+            issues.push("doors need tiles with door=closed and door=open properties");
+        } else {
+            for (const d of doorObjects) {
+                for (let r = Math.min(d.rect.r0, d.rect.r1); r <= Math.max(d.rect.r0, d.rect.r1); r++) {
+                    for (let c = Math.min(d.rect.c0, d.rect.c1); c <= Math.max(d.rect.c0, d.rect.c1); c++) {
+                        grids.wall[r][c] = d.open ? doors.open : doors.closed;
+                        const top = d.open ? doors.topOpen : doors.topClosed;
+                        if (top !== undefined && r > 0) grids.top[r - 1][c] = top;
+                    }
+                }
+            }
+        }
+    }
+
+    if (issues.length) throw new TiledImportError(issues);
+
+    const mapName = prop(map.properties, "name");
+    return {
+        version: MAP_FORMAT_VERSION,
+        id: opts.id,
+        name: opts.name ?? (typeof mapName === "string" ? mapName : undefined),
+        cols,
+        rows,
+        atlases,
+        tiles,
+        layers: grids,
+        audioZones: audioZones.length ? audioZones : undefined,
+        spawns: spawns.length ? spawns : undefined,
+        doors: doors.closed !== undefined && doors.open !== undefined ? (doors as DoorDef) : undefined,
+        interactables: interactables.length ? interactables : undefined,
+    };
+}
+
+/** Fetch a .tmj/.tmx (plus its external tilesets) and convert it */
+export async function fetchTiledMap(url: string, opts: Omit<TiledImportOptions, "baseUrl"> = {}): Promise<MapDef> {
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`Failed to fetch map ${url}: ${res.status}`);
+    const text = await res.text();
+
+    const map = parseDocument<TiledMap>(text, "map", parseTmx);
+    const externalTilesets: Record<string, string | object> = { ...(opts.externalTilesets ?? {}) };
+    await Promise.all(
+        (map.tilesets ?? [])
+            .filter((ts) => ts.source && externalTilesets[ts.source] === undefined)
+            .map(async (ts) => {
+                const r = await fetch(resolveUrl(ts.source!, url));
+                if (!r.ok) throw new Error(`Failed to fetch tileset ${ts.source}: ${r.status}`);
+                externalTilesets[ts.source!] = await r.text();
+            })
+    );
+
+    return importTiledMap(map, { ...opts, baseUrl: url, externalTilesets });
+}
+
+/** Import a Tiled map and make it the active world */
+export async function loadTiledWorldMap(source: string | object, opts?: TiledImportOptions): Promise<WorldMap> {
+    return loadWorldMap(importTiledMap(source, opts));
+}
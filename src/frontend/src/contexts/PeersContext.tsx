@@ -11,6 +11,20 @@ import {
 import Peer, { DataConnection } from 'peerjs';
 import { useAuth } from './AuthContext';
 import { canisterService } from '../services/canisterService';
+import {
+    createInvalidMsgStats,
+    MAX_CHAT_CHARS,
+    parseLobbyMsg,
+    PROTOCOL_VERSION,
+    toLegacyLobby,
+    type LobbyBye,
+    type LobbyChat,
+    type LobbyHello,
+    type LobbyMsg,
+    type LobbyRoster,
+} from '../lib/net/protocol';
+import { sharedIce } from '../lib/net/ice';
+import { createSignalingPeer } from '../lib/net/signalingPeer';
 
 // Chat message type
 type ChatMessage = {
@@ -21,13 +35,6 @@ type ChatMessage = {
     self: boolean;
 };
 
-// Presence and wire message types
-type PresenceRoster = { kind: 'presence'; type: 'roster'; ids: string[]; from: string; ts: number };
-type PresenceHello = { kind: 'presence'; type: 'hello'; from: string; ts: number };
-type PresenceBye = { kind: 'presence'; type: 'bye'; from: string; ts: number };
-type WireChat = { kind: 'chat'; channel: 'global'; text: string; from: string; ts: number; id?: string; };
-type WireEnvelope = PresenceRoster | PresenceHello | PresenceBye | WireChat;
-
 // Context value type
 type PeersContextValue = {
     isPeerReady: boolean;
@@ -37,41 +44,20 @@ type PeersContextValue = {
     sendChat: (text: string) => void;
 };
 
+// Signal mailbox the lobby uses on the canister (room ids are idSafe, so no clash)
+const LOBBY_SIGNAL_ROOM = '~lobby';
+
 // Context handle
 const PeersContext = createContext<PeersContextValue | undefined>(undefined);
 
-// TURN configuration
+// PeerJS server options (STUN / TURN come from lib/net/ice)
 function buildPeerOptions(selfId: string) {
     const host = (import.meta as any).env?.VITE_PEER_HOST as string | undefined;
     const port = (import.meta as any).env?.VITE_PEER_PORT ? Number((import.meta as any).env.VITE_PEER_PORT) : undefined;
     const path = (import.meta as any).env?.VITE_PEER_PATH as string | undefined;
     const secure = (import.meta as any).env?.VITE_PEER_SECURE && String((import.meta as any).env.VITE_PEER_SECURE) === 'true';
 
-    const TURN_HOST = (import.meta as any).env.VITE_TURN_HOST as string;
-    const TURN_PORT = Number((import.meta as any).env.VITE_TURN_PORT);
-    const TURNS_PORT = Number((import.meta as any).env.VITE_TURNS_PORT);
-    const TURN_USERNAME = (import.meta as any).env.VITE_TURN_USERNAME as string;
-    const TURN_CREDENTIAL = (import.meta as any).env.VITE_TURN_CREDENTIAL as string;
-
-    const ICE_CONFIG: RTCConfiguration = {
-        iceServers: [
-            {
-                urls: [
-                    `turn:${TURN_HOST}:${TURN_PORT}?transport=udp`,
-                    `turn:${TURN_HOST}:${TURN_PORT}?transport=tcp`,
-                    `turns:${TURN_HOST}:${TURNS_PORT}?transport=tcp`,
-                ],
-                username: TURN_USERNAME,
-                credential: TURN_CREDENTIAL,
-            },
-        ],
-        iceTransportPolicy: 'relay',
-        bundlePolicy: 'balanced',
-        rtcpMuxPolicy: 'require',
-    };
-
     const opts: any = {
-        config: ICE_CONFIG,
         debug: 0,
         pingInterval: 25_000,
     };
@@ -101,29 +87,39 @@ export function PeersProvider({ children }: { children: ReactNode }) {
     // De-duplication state
     const seenMsgIdsRef = useRef<Set<string>>(new Set());
 
+    // Peers still on the v1 envelope format, and rejected inbound messages
+    const legacyPeersRef = useRef<Set<string>>(new Set());
+    const invalidMsgsRef = useRef(createInvalidMsgStats());
+
     // Derived state
     const activeCount = rosterCount;
 
+    // Send in whatever format the other end speaks
+    const sendTo = useCallback((conn: DataConnection, msg: LobbyMsg) => {
+        if (!conn.open) return;
+        try { conn.send(legacyPeersRef.current.has(conn.peer) ? toLegacyLobby(msg) : msg); } catch { }
+    }, []);
+
     // Boardcast to all connections
-    const broadcast = (msg: WireEnvelope) => {
-        connsRef.current.forEach((c) => {
-            if (c.open) {
-                try { c.send(msg); } catch { }
-            }
-        });
-    };
+    const broadcast = useCallback((msg: LobbyMsg) => {
+        connsRef.current.forEach((c) => sendTo(c, msg));
+    }, [sendTo]);
+
+    const sendHelloTo = useCallback((conn: DataConnection) => {
+        const hello: LobbyHello = { t: 'presence-hello', from: selfId, ts: Date.now(), v: PROTOCOL_VERSION };
+        sendTo(conn, hello);
+    }, [selfId, sendTo]);
 
     // Send roaster to a specific connection
-    const sendRosterTo = (conn: DataConnection) => {
-        const env: PresenceRoster = {
-            kind: 'presence',
-            type: 'roster',
+    const sendRosterTo = useCallback((conn: DataConnection) => {
+        const env: LobbyRoster = {
+            t: 'presence-roster',
             ids: Array.from(rosterRef.current),
             from: selfId,
             ts: Date.now(),
         };
-        try { conn.send(env); } catch { }
-    };
+        sendTo(conn, env);
+    }, [selfId, sendTo]);
 
     // Add id to roster
     const addToRoster = useCallback((id: string) => {
@@ -185,40 +181,52 @@ export function PeersProvider({ children }: { children: ReactNode }) {
 
         conn.on('open', () => {
             addToRoster(rid);
-            const hello: PresenceHello = { kind: 'presence', type: 'hello', from: selfId, ts: Date.now() };
-            try { conn.send(hello); } catch { }
+            sendHelloTo(conn);
             sendRosterTo(conn);
             const peer = peerRef.current;
             if (peer) connectMissingFromRoster(peer);
         });
 
-        conn.on('data', (raw: any) => {
-            const env = raw as WireEnvelope;
+        conn.on('data', (raw: unknown) => {
+            const parsed = parseLobbyMsg(raw);
+            if (!parsed.ok) {
+                if (invalidMsgsRef.current.note(parsed.reason)) {
+                    console.debug(`[peers] dropped message from ${rid}: ${parsed.reason} [${invalidMsgsRef.current.total} invalid so far]`);
+                }
+                return;
+            }
+            if (parsed.legacy && !legacyPeersRef.current.has(rid)) {
+                // our first hello/roster went out in the new format; repeat them in theirs
+                legacyPeersRef.current.add(rid);
+                sendHelloTo(conn);
+                sendRosterTo(conn);
+            }
+            const env = parsed.msg;
 
-            if (env.kind === 'presence') {
-                if (env.type === 'hello') {
+            if (env.t.startsWith('presence-')) {
+                if (env.t === 'presence-hello') {
                     addToRoster(env.from);
-                } else if (env.type === 'bye') {
+                } else if (env.t === 'presence-bye') {
                     const c = connsRef.current.get(env.from);
                     if (c) {
                         try { c.close(); } catch { }
                         connsRef.current.delete(env.from);
                     }
                     removeFromRoster(env.from);
-                } else if (env.type === 'roster') {
+                } else if (env.t === 'presence-roster') {
                     handleRosterMerge(env.ids);
                     const peer = peerRef.current;
                     if (peer) connectMissingFromRoster(peer);
                 }
-            } else if (env.kind === 'chat' && env.channel === 'global') {
-                const id = (env as any).id ?? `${env.from}-${env.ts}`;
+            } else if (env.t === 'lobby-chat') {
+                const id = env.id ?? `${env.from}-${env.ts}`;
                 if (seenMsgIdsRef.current.has(id)) return;
                 seenMsgIdsRef.current.add(id);
 
                 const msg: ChatMessage = {
                     id,
                     from: env.from,
-                    text: String((env as any).text || '').slice(0, 2000),
+                    text: env.text,
                     ts: env.ts,
                     self: env.from === selfId,
                 };
@@ -232,12 +240,13 @@ export function PeersProvider({ children }: { children: ReactNode }) {
 
         const onCloseOrError = () => {
             connsRef.current.delete(rid);
+            legacyPeersRef.current.delete(rid);
             removeFromRoster(rid);
         };
 
         conn.on('close', onCloseOrError);
         conn.on('error', onCloseOrError);
-    }, [selfId, addToRoster, removeFromRoster, handleRosterMerge, connectMissingFromRoster]);
+    }, [selfId, addToRoster, removeFromRoster, handleRosterMerge, connectMissingFromRoster, sendHelloTo, sendRosterTo]);
 
     // Send one outbound connection
     const seedConnectOnce = useCallback(async () => {
@@ -276,7 +285,7 @@ export function PeersProvider({ children }: { children: ReactNode }) {
         if (!isAuthenticated || !selfId) {
             if (peerRef.current) {
                 try {
-                    const bye: PresenceBye = { kind: 'presence', type: 'bye', from: selfId, ts: Date.now() };
+                    const bye: LobbyBye = { t: 'presence-bye', from: selfId, ts: Date.now() };
                     broadcast(bye);
                 } catch { }
                 try { peerRef.current.destroy(); } catch { }
@@ -298,9 +307,22 @@ export function PeersProvider({ children }: { children: ReactNode }) {
         setStatusText('connecting');
 
         const { id, opts } = buildPeerOptions(selfId);
-        const peer = new Peer(id, opts as any);
+        const ice = sharedIce();
+        void ice.ready();
+        const peer = createSignalingPeer(id, opts, {
+            canister: { api: canisterService, roomId: LOBBY_SIGNAL_ROOM, principalOf: (pid) => pid },
+        }, ice);
         peerRef.current = peer;
 
+        // direct didn't work out with someone: a connection still trying to open is redone over TURN
+        const offEscalate = ice.on('escalate', (pid) => {
+            const conn = connsRef.current.get(pid);
+            if (!conn || conn.open || peerRef.current !== peer) return;
+            connsRef.current.delete(pid);
+            try { conn.close(); } catch { }
+            ensureConnectTo(peer, pid);
+        });
+
         const onOpen = () => {
             setPeerReady(true);
             setStatusText('connected');
@@ -332,7 +354,7 @@ export function PeersProvider({ children }: { children: ReactNode }) {
 
         const onBeforeUnload = () => {
             try {
-                const bye: PresenceBye = { kind: 'presence', type: 'bye', from: selfId, ts: Date.now() };
+                const bye: LobbyBye = { t: 'presence-bye', from: selfId, ts: Date.now() };
                 broadcast(bye);
             } catch { }
             unregisterOnline();
@@ -342,6 +364,7 @@ export function PeersProvider({ children }: { children: ReactNode }) {
 
         return () => {
             clearTimeout(openGuard);
+            offEscalate();
             window.removeEventListener('beforeunload', onBeforeUnload);
             try { peer.destroy(); } catch { }
             peerRef.current = null;
@@ -349,7 +372,7 @@ export function PeersProvider({ children }: { children: ReactNode }) {
             connsRef.current.clear();
 
             try {
-                const bye: PresenceBye = { kind: 'presence', type: 'bye', from: selfId, ts: Date.now() };
+                const bye: LobbyBye = { t: 'presence-bye', from: selfId, ts: Date.now() };
                 broadcast(bye);
             } catch { }
 
@@ -359,7 +382,7 @@ export function PeersProvider({ children }: { children: ReactNode }) {
             setPeerReady(false);
             setStatusText('closed');
         };
-    }, [isAuthenticated, selfId, registerOnline, seedConnectOnce, setupConnHandlers, unregisterOnline]);
+    }, [isAuthenticated, selfId, registerOnline, seedConnectOnce, setupConnHandlers, unregisterOnline, ensureConnectTo, broadcast]);
 
     // Heartbeat and light discovery
     useEffect(() => {
@@ -401,14 +424,13 @@ export function PeersProvider({ children }: { children: ReactNode }) {
         const ts = Date.now();
         const id = `${selfId}-${ts}-${Math.random().toString(36).slice(2, 8)}`;
 
-        const env: WireChat = {
-            kind: 'chat',
-            channel: 'global',
-            text: trimmed.slice(0, 2000),
+        const env: LobbyChat = {
+            t: 'lobby-chat',
+            text: trimmed.slice(0, MAX_CHAT_CHARS),
             from: selfId,
             ts,
             id,
-        } as WireChat & { id: string };
+        };
 
         seenMsgIdsRef.current.add(id);
 
@@ -417,7 +439,7 @@ export function PeersProvider({ children }: { children: ReactNode }) {
         );
 
         broadcast(env);
-    }, [selfId]);
+    }, [selfId, broadcast]);
 
     // Context value
     const value: PeersContextValue = useMemo(() => ({
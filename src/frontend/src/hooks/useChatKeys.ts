@@ -0,0 +1,98 @@
+import { useEffect, useRef, useState, type MutableRefObject } from 'react';
+import { Principal } from '@dfinity/principal';
+import { canisterService } from '../services/canisterService';
+import { createChatKeyring, loadDeviceKeys, type ChatKeyring } from '../lib/chat/e2e';
+import { principalToText } from '../lib/net/peerIds';
+
+/** Chat keys are checked this often (rotations, newcomers to share the key with) */
+const KEY_SYNC_MS = 30_000;
+/** Peers come and go in bursts: one key check after things settle */
+const KEY_SYNC_SETTLE_MS = 1500;
+
+interface UseChatKeysOptions {
+    roomId: string;
+    myPrincipalTxt: string;
+    /** The room key changed: lines that came in before it may open now */
+    onChange: (epoch: number) => void;
+}
+
+interface UseChatKeysReturn {
+    chatKeyringRef: MutableRefObject<ChatKeyring | null>;
+    /** Current room key epoch, 0 until there is one */
+    chatKeyEpoch: number;
+    /** Publish our device key, pick up the room key (making one if needed) */
+    startChatKeys: () => Promise<void>;
+    stopChatKeys: () => void;
+    /** Someone came or went: they may need the key, or the key may need replacing */
+    scheduleKeySync: () => void;
+}
+
+/** The room's chat keyring (lib/chat/e2e.ts) against the canister's key directory */
+export const useChatKeys = ({ roomId, myPrincipalTxt, onChange }: UseChatKeysOptions): UseChatKeysReturn => {
+    const chatKeyringRef = useRef<ChatKeyring | null>(null);
+    const [chatKeyEpoch, setChatKeyEpoch] = useState(0);
+    const keySyncTimerRef = useRef<number | null>(null);
+
+    const startChatKeys = async () => {
+        const device = await loadDeviceKeys(myPrincipalTxt);
+        const ok = <T>(res: { Ok: T } | { Err: string }): T => {
+            if ('Err' in res) throw new Error(res.Err);
+            return res.Ok;
+        };
+        const keyring = createChatKeyring({
+            roomId,
+            self: myPrincipalTxt,
+            device,
+            directory: {
+                publishKey: async (key) => { ok(await canisterService.setChatPublicKey(key)); },
+                publicKeys: async () => ok(await canisterService.getChatPublicKeys(roomId)).map(([p, k]) => [principalToText(p), k]),
+                roomKeys: async () => {
+                    const s = ok(await canisterService.getRoomKeys(roomId));
+                    return { ...s, missing: s.missing.map(principalToText) };
+                },
+                putKeys: async (epoch, wraps, newKey) => {
+                    const res = await canisterService.putRoomKeys(roomId, epoch, newKey, wraps.map(([p, k]) => [Principal.fromText(p), k]));
+                    if ('Ok' in res) return true;
+                    if (res.Err === 'STALE_EPOCH') return false;
+                    throw new Error(res.Err);
+                },
+                dropKey: async (epoch) => {
+                    const res = await canisterService.dropRoomKey(roomId, epoch);
+                    // a new key came since: nothing of ours to take down
+                    if ('Err' in res && res.Err !== 'STALE_EPOCH') throw new Error(res.Err);
+                },
+            },
+        });
+        chatKeyringRef.current?.close();
+        chatKeyringRef.current = keyring;
+        keyring.on('change', (epoch) => {
+            if (chatKeyringRef.current !== keyring) return;
+            setChatKeyEpoch(epoch);
+            onChange(epoch);
+        });
+        await keyring.sync();
+    };
+
+    const scheduleKeySync = () => {
+        if (keySyncTimerRef.current !== null) return;
+        keySyncTimerRef.current = window.setTimeout(() => {
+            keySyncTimerRef.current = null;
+            void chatKeyringRef.current?.sync();
+        }, KEY_SYNC_SETTLE_MS);
+    };
+
+    const stopChatKeys = () => {
+        if (keySyncTimerRef.current !== null) clearTimeout(keySyncTimerRef.current);
+        keySyncTimerRef.current = null;
+        chatKeyringRef.current?.close();
+        chatKeyringRef.current = null;
+        setChatKeyEpoch(0);
+    };
+
+    useEffect(() => {
+        const id = setInterval(() => { void chatKeyringRef.current?.sync(); }, KEY_SYNC_MS);
+        return () => clearInterval(id);
+    }, []);
+
+    return { chatKeyringRef, chatKeyEpoch, startChatKeys, stopChatKeys, scheduleKeySync };
+};
@@ -1,18 +1,20 @@
 import { useState, useCallback } from 'react';
-import { Principal } from '@dfinity/principal';
 import { canisterService } from '../services/canisterService';
-import { Room, Signal, Result } from '../types/backend';
+import { Room, CreateRoomOptions, Signal, Result } from '../types/backend';
 
 interface UseRoomReturn {
     currentRoom: Room | null;
     isLoading: boolean;
     error: string | null;
-    createRoom: (roomId: string) => Promise<Result<Room, string>>;
+    createRoom: (roomId: string, options?: CreateRoomOptions) => Promise<Result<Room, string>>;
+    setRoomMap: (roomId: string, options: CreateRoomOptions) => Promise<Result<Room, string>>;
+    setChatHistory: (roomId: string, enabled: boolean) => Promise<Result<boolean, string>>;
     joinRoom: (roomId: string) => Promise<Result<Room, string>>;
     leaveRoom: (roomId: string) => Promise<Result<Room, string>>;
     getRoom: (roomId: string) => Promise<Room | null>;
+    getRoomMap: (roomId: string) => Promise<string | null>;
     sendSignal: (roomId: string, signal: Signal) => Promise<void>;
-    getSignals: (roomId: string, to: Principal) => Promise<Signal[]>;
+    getSignals: (roomId: string) => Promise<Signal[]>;
     clearSignals: (roomId: string) => Promise<void>;
 }
 
@@ -21,12 +23,12 @@ export const useRoom = (): UseRoomReturn => {
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
-    const createRoom = useCallback(async (roomId: string): Promise<Result<Room, string>> => {
+    const createRoom = useCallback(async (roomId: string, options?: CreateRoomOptions): Promise<Result<Room, string>> => {
         setIsLoading(true);
         setError(null);
 
         try {
-            const result = await canisterService.createRoom(roomId);
+            const result = await canisterService.createRoom(roomId, options);
             if ('Ok' in result) {
                 setCurrentRoom(result.Ok);
             }
@@ -40,6 +42,25 @@ export const useRoom = (): UseRoomReturn => {
         }
     }, []);
 
+    const setRoomMap = useCallback(async (roomId: string, options: CreateRoomOptions): Promise<Result<Room, string>> => {
+        setIsLoading(true);
+        setError(null);
+
+        try {
+            const result = await canisterService.setRoomMap(roomId, options);
+            if ('Ok' in result) {
+                setCurrentRoom(result.Ok);
+            }
+            return result;
+        } catch (err) {
+            const error = err instanceof Error ? err.message : 'Failed to save room map';
+            setError(error);
+            return { Err: error };
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
     const joinRoom = useCallback(async (roomId: string): Promise<Result<Room, string>> => {
         setIsLoading(true);
         setError(null);
@@ -78,6 +99,17 @@ export const useRoom = (): UseRoomReturn => {
         }
     }, []);
 
+    const setChatHistory = useCallback(async (roomId: string, enabled: boolean): Promise<Result<boolean, string>> => {
+        try {
+            setError(null);
+            return await canisterService.setChatHistory(roomId, enabled);
+        } catch (err) {
+            const error = err instanceof Error ? err.message : 'Failed to change chat history';
+            setError(error);
+            return { Err: error };
+        }
+    }, []);
+
     const getRoom = useCallback(async (roomId: string): Promise<Room | null> => {
         try {
             setError(null);
@@ -110,6 +142,16 @@ export const useRoom = (): UseRoomReturn => {
         }
     }, []);
 
+    const getRoomMap = useCallback(async (roomId: string): Promise<string | null> => {
+        try {
+            setError(null);
+            return await canisterService.getRoomMap(roomId);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to get room map');
+            return null;
+        }
+    }, []);
+
     const sendSignal = useCallback(async (roomId: string, signal: Signal): Promise<void> => {
         try {
             setError(null);
@@ -120,10 +162,10 @@ export const useRoom = (): UseRoomReturn => {
         }
     }, []);
 
-    const getSignals = useCallback(async (roomId: string, to: Principal): Promise<Signal[]> => {
+    const getSignals = useCallback(async (roomId: string): Promise<Signal[]> => {
         try {
             setError(null);
-            return await canisterService.getSignals(roomId, to);
+            return await canisterService.getSignals(roomId);
         } catch (err) {
             setError(err instanceof Error ? err.message : 'Failed to get signals');
             return [];
@@ -145,9 +187,12 @@ export const useRoom = (): UseRoomReturn => {
         isLoading,
         error,
         createRoom,
+        setRoomMap,
+        setChatHistory,
         joinRoom,
         leaveRoom,
         getRoom,
+        getRoomMap,
         sendSignal,
         getSignals,
         clearSignals,
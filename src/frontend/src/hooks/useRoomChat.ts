@@ -0,0 +1,648 @@
+import { useEffect, useLayoutEffect, useMemo, useRef, useState, type Dispatch, type MutableRefObject, type SetStateAction } from 'react';
+import { canisterService } from '../services/canisterService';
+import type { RoomSession } from '../lib/net/session';
+import { CHAT_LABEL, GAME_LABEL, peerAccepts, type ChatMsg, type DmMsg, type PeerProtocol, type RoomMsg as Msg } from '../lib/net/protocol';
+import { peerIdForPrincipal, pretty, principalToText } from '../lib/net/peerIds';
+import { appendChatLine, createChatHistory, mergeChatHistory, type ChatLine } from '../lib/chat/history';
+import { isSealed, type ChatKeyring } from '../lib/chat/e2e';
+import { addChatOps, decodeChatBody, encodeChatBody, findMentions, foldChat, type ChatBody, type ChatOp } from '../lib/chat/rich';
+import {
+    addDmLine,
+    dmContext,
+    dmUnread,
+    loadDmThreads,
+    markDmRead,
+    patchDmLine,
+    saveDmThreads,
+    type DmLine,
+    type DmThreads,
+} from '../lib/chat/dm';
+import type { RoomMsgHandlers } from './useRoomWire';
+import type { Result } from '../types/backend';
+
+const SEEN_CHAT_MAX = 500;
+/** Lines kept in the chat panel as live ones come in; history pages load on top */
+const CHAT_LOG_MAX = 400;
+const CHAT_PAGE = 50;
+const CHAT_TEXT_MAX = 1000;
+/** Edits, deletes and reactions kept to fold over the panel's messages */
+const CHAT_OPS_MAX = 2000;
+/** Long lines are cut short in the bubble over the avatar (the panel has them whole) */
+const BUBBLE_TEXT_MAX = 240;
+const DM_LINES_MAX = 200;
+/** A DM to someone we have no channel to waits this long for one */
+const DM_DELIVER_MS = 10_000;
+
+const BUBBLE_MIN_MS = 5000;
+const BUBBLE_MAX_MS = 15000;
+const BUBBLE_BASE_MS = 5000;
+const BUBBLE_PER_CHAR_MS = 50;
+const BUBBLE_PER_NEWLINE_MS = 250;
+
+const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
+
+/** What addChatMessage takes besides the text */
+type OpenedChat = Pick<ChatLine, 'sealed' | 'locked' | 'vouched' | 'replyTo' | 'mentions' | 'file'>;
+/** A chat line out of decryption: body null when it's locked or not one we understand */
+type OpenedBody = { body: ChatBody | null; sealed?: string; locked?: boolean };
+
+interface UseRoomChatOptions {
+    roomId: string;
+    myPeerId: string;
+    myPrincipalTxt: string;
+    sessionRef: MutableRefObject<RoomSession | null>;
+    peerProtoRef: MutableRefObject<Map<string, PeerProtocol>>;
+    chatKeyringRef: MutableRefObject<ChatKeyring | null>;
+    /** Everyone in the room: peer id → principal text */
+    rosterRef: MutableRefObject<Map<string, string>>;
+    labelCacheRef: MutableRefObject<Record<string, string>>;
+    log: (line: string) => void;
+    displayNameFor: (peerId: string) => string;
+    usernameFor: (peerId: string) => string;
+    resolveRemoteProfile: (peerId: string) => Promise<void>;
+    setChatHistory: (roomId: string, enabled: boolean) => Promise<Result<boolean, string>>;
+    /** A deleted line offered a file: stop offering it */
+    unshareFile: (fileId: string) => void;
+}
+
+interface UseRoomChatReturn {
+    showChat: boolean;
+    setShowChat: Dispatch<SetStateAction<boolean>>;
+    chatInput: string;
+    setChatInput: Dispatch<SetStateAction<string>>;
+    chatLog: ChatLine[];
+    chatListRef: MutableRefObject<HTMLDivElement | null>;
+    chatInputRef: MutableRefObject<HTMLInputElement | null>;
+    /** Peer whose DM thread is open, null for the room */
+    chatTab: string | null;
+    setChatTab: Dispatch<SetStateAction<string | null>>;
+    dmThreads: DmThreads;
+    dmShown: DmLine[] | undefined;
+    /** `whisper`: a DM to us, shown over its sender on our screen only */
+    chatBubbleRef: MutableRefObject<Record<string, { text: string; until: number; whisper?: boolean }>>;
+    chatTalkUntilRef: MutableRefObject<Record<string, number>>;
+    reactionFloatRef: MutableRefObject<Record<string, { emoji: string; at: number }[]>>;
+    /** The panel's lines with edits, deletes and reactions folded in */
+    chatView: ChatLine[];
+    chatById: Map<string, ChatLine>;
+    chatReplyTo: string | null;
+    chatEditing: string | null;
+    reactPickerFor: string | null;
+    setReactPickerFor: Dispatch<SetStateAction<string | null>>;
+    chatMentions: number;
+    dmUnreadCount: number;
+    dmTabs: string[];
+    /** null until the canister has said */
+    chatHistoryOn: boolean | null;
+    chatOlder: 'idle' | 'loading' | 'done';
+    addChatMessage: (fromPeerId: string, text: string, ts?: number, self?: boolean, id?: string, opened?: OpenedChat) => void;
+    newChatId: (ts: number) => string;
+    /** Seal and send a line to everyone; false while there's no room key */
+    sendChatBody: (body: ChatBody, id: string, ts: number) => boolean;
+    submitChat: (raw: string) => void;
+    knownUsername: (name: string) => boolean;
+    reactToChat: (line: ChatLine, emoji: string) => void;
+    deleteChat: (line: ChatLine) => void;
+    startChatEdit: (line: ChatLine) => void;
+    cancelChatCompose: () => void;
+    startChatReply: (line: ChatLine) => void;
+    openDm: (peerId: string) => void;
+    /** A chat channel to `peerId` opened: DMs waiting for it go out */
+    flushDmOutbox: (peerId: string) => void;
+    loadOlderChat: () => Promise<void>;
+    toggleChatHistory: () => Promise<void>;
+    /** A key came in: lines and DMs that arrived before it may open now */
+    reopenLocked: () => void;
+    /** Left the room: nothing of this one stays in the panel */
+    resetChat: () => void;
+    handlers: RoomMsgHandlers;
+}
+
+/**
+ * The room chat: the panel's lines and compose box, sealed lines in and out
+ * (relayed on to peers that may not have them), replies, reactions, edits
+ * and mentions (lib/chat/rich.ts), direct messages (lib/chat/dm.ts) and the
+ * history the canister keeps (lib/chat/history.ts).
+ */
+export const useRoomChat = (opts: UseRoomChatOptions): UseRoomChatReturn => {
+    const { roomId, myPeerId, myPrincipalTxt, sessionRef, peerProtoRef, chatKeyringRef, rosterRef, labelCacheRef, log } = opts;
+    const { displayNameFor, usernameFor, resolveRemoteProfile, setChatHistory } = opts;
+
+    const [showChat, setShowChat] = useState(false);
+    const [chatInput, setChatInput] = useState('');
+    const [chatLog, setChatLog] = useState<ChatLine[]>([]);
+    const chatLogRef = useRef(chatLog);
+    chatLogRef.current = chatLog;
+    const chatListRef = useRef<HTMLDivElement | null>(null);
+    const chatInputRef = useRef<HTMLInputElement | null>(null);
+    const seenChatRef = useRef<Set<string>>(new Set());
+
+    // new lines at the bottom only: a page of history loading on top keeps the view where it was
+    const [chatTab, setChatTab] = useState<string | null>(null);
+    const [dmThreads, setDmThreads] = useState<DmThreads>(() => loadDmThreads(roomId, myPrincipalTxt));
+    const dmShown = chatTab ? dmThreads[chatTab]?.lines : undefined;
+    const lastChatId = chatLog[chatLog.length - 1]?.id;
+    const lastDmId = dmShown?.[dmShown.length - 1]?.id;
+    useEffect(() => {
+        const el = chatListRef.current;
+        if (el) el.scrollTop = el.scrollHeight;
+    }, [lastChatId, lastDmId, chatTab, showChat]);
+    useEffect(() => { if (showChat) setTimeout(() => chatInputRef.current?.focus(), 60); }, [showChat]);
+
+    // Chat bubble state
+    /** `whisper`: a DM to us, shown over its sender on our screen only */
+    const chatBubbleRef = useRef<Record<string, { text: string; until: number; whisper?: boolean }>>({});
+    const chatTalkUntilRef = useRef<Record<string, number>>({});
+
+    const bubbleDurationFor = (text: string) => {
+        const clean = String(text ?? '');
+        const len = clean.length;
+        const nl = (clean.match(/\n/g)?.length ?? 0);
+        const ms = BUBBLE_BASE_MS + BUBBLE_PER_CHAR_MS * Math.min(len, 240) + BUBBLE_PER_NEWLINE_MS * nl;
+        return clamp(ms, BUBBLE_MIN_MS, BUBBLE_MAX_MS);
+    };
+
+    const addChatMessage = (fromPeerId: string, text: string, ts = Date.now(), self = false, id?: string, opened: OpenedChat = {}) => {
+        const label = displayNameFor(fromPeerId);
+        const item: ChatLine = {
+            // the wire id, so the copy in history is recognised
+            id: id ?? `${ts}-${fromPeerId}-${Math.random().toString(36).slice(2, 7)}`,
+            fromPeerId,
+            label,
+            text,
+            ts,
+            self,
+            ...opened,
+        };
+        setChatLog((prev) => appendChatLine(prev, item, CHAT_LOG_MAX));
+        if (opened.locked) return;
+        const said = !text && opened.file ? `📎 ${opened.file.name}` : text;
+        const shown = said.length > BUBBLE_TEXT_MAX ? `${said.slice(0, BUBBLE_TEXT_MAX - 1)}…` : said;
+        const dur = bubbleDurationFor(shown);
+        const now = performance.now();
+        chatBubbleRef.current[fromPeerId] = { text: shown, until: now + dur };
+        chatTalkUntilRef.current[fromPeerId] = now + Math.min(dur, 5000);
+        if (!self && opened.mentions?.includes(myPrincipalTxt)) noteMention(label, text);
+    };
+
+    const cleanChatText = (raw: string) => {
+        const text = String(raw ?? '')
+            .replace(/\r/g, '')
+            .replace(/[ \t]+/g, ' ')
+            .replace(/\n{3,}/g, '\n\n')
+            .trim();
+        return text.length > CHAT_TEXT_MAX ? text.slice(0, CHAT_TEXT_MAX) : text;
+    };
+
+    /** Enter in the chat box: to the room, or to the person whose thread is open */
+    const submitChat = (raw: string) => {
+        if (chatTab) sendDm(chatTab, raw);
+        else sendChat(raw);
+    };
+
+    const sendChat = (textRaw: string) => {
+        const text = cleanChatText(textRaw);
+        if (!text) return;
+        const ts = Date.now();
+        const id = newChatId(ts);
+        if (chatEditing) {
+            const body: ChatBody = { k: 'edit', id: chatEditing, text };
+            if (!sendChatBody(body, id, ts)) return;
+            takeChatOp({ id, from: myPeerId, ts, body, vouched: true });
+            setChatEditing(null);
+            setChatInput('');
+            return;
+        }
+        const at = findMentions(text, chatPeople());
+        const body: ChatBody = { k: 'msg', text, ...(chatReplyTo ? { re: chatReplyTo } : {}), ...(at.length ? { at } : {}) };
+        if (!sendChatBody(body, id, ts)) return;
+        addChatMessage(myPeerId, text, ts, true, id, { replyTo: body.re, mentions: body.at });
+        setChatReplyTo(null);
+        setChatInput('');
+    };
+
+    const newChatId = (ts: number) => `${ts.toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+    /** Seal a chat line and send it to the room and its history; false while there's no room key */
+    const sendChatBody = (body: ChatBody, id: string, ts: number) => {
+        // never in the clear: wait for the room key
+        const keyring = chatKeyringRef.current;
+        if (!keyring?.epoch) { void keyring?.sync(); return false; }
+        rememberChat(id);
+        void (async () => {
+            const sealed = await keyring.seal(encodeChatBody(body), chatContext(id, myPeerId));
+            if (!sealed) { log('Chat line not sent: no room key'); return; }
+            const wire: Msg = { t: 'chat', text: '', enc: sealed, ts, from: myPeerId, id };
+            const session = sessionRef.current;
+            if (session && !session.broadcast(CHAT_LABEL, wire)) session.broadcast(GAME_LABEL, wire);
+            persistChat(id, sealed);
+        })();
+        return true;
+    };
+
+    const rememberChat = (id: string) => {
+        const seen = seenChatRef.current;
+        seen.add(id);
+        if (seen.size > SEEN_CHAT_MAX) seen.delete(seen.values().next().value as string);
+    };
+
+    /** Pass a chat line on to direct peers that may not have it (not every pair is connected) */
+    const relayChat = (viaPeerId: string, msg: ChatMsg) => {
+        const session = sessionRef.current;
+        if (!session) return;
+        for (const pid of session.peers(CHAT_LABEL)) {
+            if (pid === viaPeerId || pid === msg.from) continue;
+            // older clients dial everyone and can't de-duplicate
+            if (!peerProtoRef.current.get(pid)?.caps.has('gossip')) continue;
+            session.send(pid, CHAT_LABEL, msg);
+        }
+    };
+
+    const handleInboundChat = (remotePeerId: string, payload: any) => {
+        if (!payload || payload.t !== 'chat') return;
+        if (typeof payload.id === 'string') {
+            if (seenChatRef.current.has(payload.id)) return;
+            rememberChat(payload.id);
+            relayChat(remotePeerId, payload);
+        }
+        const from = typeof payload.from === 'string' ? payload.from : remotePeerId;
+        const ts = typeof payload.ts === 'number' ? payload.ts : Date.now();
+        const id = typeof payload.id === 'string' ? payload.id : undefined;
+        if (typeof payload.enc !== 'string') {
+            addChatMessage(from, String(payload.text ?? ''), ts, false, id);
+            return;
+        }
+        // relayed lines only say who wrote them
+        const vouched = from === remotePeerId;
+        void openChat(payload.enc, id, from).then((o) => {
+            const entry = chatEntryOf(o, id ?? newChatId(ts), from, ts, vouched);
+            if (!entry) return;
+            if ('body' in entry) takeChatOp(entry);
+            else addChatMessage(from, entry.text, ts, false, id, { sealed: entry.sealed, locked: entry.locked, vouched: entry.vouched, replyTo: entry.replyTo, mentions: entry.mentions, file: entry.file });
+        });
+    };
+
+    /** ===== Replies, reactions, edits and mentions (lib/chat/rich.ts) ===== */
+    const [chatOps, setChatOps] = useState<Map<string, ChatOp>>(() => new Map());
+    const [chatReplyTo, setChatReplyTo] = useState<string | null>(null);
+    const [chatEditing, setChatEditing] = useState<string | null>(null);
+    const [reactPickerFor, setReactPickerFor] = useState<string | null>(null);
+    const [chatMentions, setChatMentions] = useState(0);
+    /** Reactions rising over avatars: peer id → emoji and when (performance.now()) */
+    const reactionFloatRef = useRef<Record<string, Array<{ emoji: string; at: number }>>>({});
+
+    const chatView = useMemo(() => foldChat(chatLog, chatOps.values()), [chatLog, chatOps]);
+    const chatById = useMemo(() => new Map(chatView.map((l) => [l.id, l])), [chatView]);
+    const dmUnreadCount = dmUnread(dmThreads);
+    const dmTabs = chatTab && !dmThreads[chatTab] ? [...Object.keys(dmThreads), chatTab] : Object.keys(dmThreads);
+
+    /** An opened line as a panel line or an op to fold over one; null when there's nothing to show */
+    const chatEntryOf = (o: OpenedBody, id: string, fromPeerId: string, ts: number, vouched: boolean): ChatLine | ChatOp | null => {
+        const line = { id, fromPeerId, label: displayNameFor(fromPeerId), ts, self: fromPeerId === myPeerId, sealed: o.sealed };
+        // a locked line remembers whether its sender was vouched for, in case it opens as an op
+        if (o.locked) return { ...line, text: '', locked: true, vouched };
+        const b = o.body;
+        if (!b) return null;
+        if (b.k !== 'msg') return { id, from: fromPeerId, ts, body: b, vouched };
+        return { ...line, text: b.text, replyTo: b.re, mentions: b.at, file: b.file };
+    };
+
+    /** Fold a live edit, delete or reaction in; reactions float over whoever reacted */
+    const takeChatOp = (op: ChatOp) => {
+        setChatOps((prev) => addChatOps(prev, [op], CHAT_OPS_MAX));
+        if (op.body.k !== 'react' || !op.body.on) return;
+        const floats = reactionFloatRef.current[op.from] ?? [];
+        reactionFloatRef.current[op.from] = [...floats.slice(-4), { emoji: op.body.emoji, at: performance.now() }];
+    };
+
+    /** People an @username can reach: everyone in the room we know a username for */
+    const chatPeople = () =>
+        [...rosterRef.current].map(([pid, principal]) => ({ id: principal, username: usernameFor(pid) }));
+
+    const knownUsername = (name: string) => {
+        const lower = name.toLowerCase();
+        return [...rosterRef.current.keys()].some((pid) => usernameFor(pid).toLowerCase() === lower);
+    };
+
+    const noteMention = (label: string, text: string) => {
+        if (!showChatRef.current) setChatMentions((n) => n + 1);
+        notifyHidden(`${label} mentioned you`, text);
+    };
+
+    /** A system notification, only while the tab is in the background and they're allowed */
+    const notifyHidden = (title: string, text: string) => {
+        if (typeof document === 'undefined' || !document.hidden) return;
+        if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+        try { new Notification(title, { body: text.slice(0, 120), tag: `pixeliy-chat-${roomId}` }); } catch { }
+    };
+
+    const reactToChat = (line: ChatLine, emoji: string) => {
+        setReactPickerFor(null);
+        const ts = Date.now();
+        const id = newChatId(ts);
+        const body: ChatBody = { k: 'react', id: line.id, emoji, on: !line.reactions?.[emoji]?.includes(myPeerId) };
+        if (sendChatBody(body, id, ts)) takeChatOp({ id, from: myPeerId, ts, body, vouched: true });
+    };
+
+    const deleteChat = (line: ChatLine) => {
+        if (line.file) opts.unshareFile(line.file.id);
+        const ts = Date.now();
+        const id = newChatId(ts);
+        const body: ChatBody = { k: 'del', id: line.id };
+        if (sendChatBody(body, id, ts)) takeChatOp({ id, from: myPeerId, ts, body, vouched: true });
+        if (chatEditing === line.id) { setChatEditing(null); setChatInput(''); }
+    };
+
+    const startChatEdit = (line: ChatLine) => {
+        setChatReplyTo(null);
+        setChatEditing(line.id);
+        setChatInput(line.text);
+        chatInputRef.current?.focus();
+    };
+
+    const cancelChatCompose = () => {
+        if (chatEditing) setChatInput('');
+        setChatEditing(null);
+        setChatReplyTo(null);
+    };
+
+    const startChatReply = (line: ChatLine) => {
+        if (chatEditing) setChatInput('');
+        setChatEditing(null);
+        setChatReplyTo(line.id);
+        chatInputRef.current?.focus();
+    };
+
+    const showChatRef = useRef(showChat);
+    useEffect(() => {
+        showChatRef.current = showChat;
+        if (showChat) setChatMentions(0);
+    }, [showChat]);
+
+    /** ===== Direct messages (lib/chat/dm.ts) ===== */
+    const chatTabRef = useRef(chatTab);
+    chatTabRef.current = chatTab;
+    const dmThreadsRef = useRef(dmThreads);
+    dmThreadsRef.current = dmThreads;
+    /** DMs waiting for a chat channel to their recipient */
+    const dmOutboxRef = useRef<Map<string, DmMsg[]>>(new Map());
+
+    /** Where and whose threads these are: sign-in can finish after the first render */
+    const dmOwnerRef = useRef({ roomId, principal: myPrincipalTxt });
+    useEffect(() => {
+        const owner = dmOwnerRef.current;
+        if (owner.roomId === roomId && owner.principal === myPrincipalTxt) return;
+        dmOwnerRef.current = { roomId, principal: myPrincipalTxt };
+        setDmThreads(loadDmThreads(roomId, myPrincipalTxt));
+    }, [roomId, myPrincipalTxt]);
+    useEffect(() => {
+        const owner = dmOwnerRef.current;
+        saveDmThreads(owner.roomId, owner.principal, dmThreads);
+    }, [dmThreads]);
+    useEffect(() => {
+        if (showChat && chatTab) setDmThreads((t) => markDmRead(t, chatTab));
+    }, [showChat, chatTab]);
+
+    /** Open the thread with `pid` in the chat panel */
+    const openDm = (pid: string) => {
+        if (pid === myPeerId) return;
+        setChatReplyTo(null);
+        setChatEditing(null);
+        setChatTab(pid);
+        setShowChat(true);
+        if (!labelCacheRef.current[pid]) void resolveRemoteProfile(pid);
+        setTimeout(() => chatInputRef.current?.focus(), 60);
+    };
+
+    const failDm = (pid: string, id: string, why: string) => {
+        log(`DM to ${pretty(pid)} not delivered: ${why}`);
+        setDmThreads((t) => patchDmLine(t, pid, id, { failed: true }));
+    };
+
+    const sendDm = (pid: string, raw: string) => {
+        const text = cleanChatText(raw);
+        if (!text) return;
+        const keyring = chatKeyringRef.current;
+        if (!keyring?.epoch) { void keyring?.sync(); return; }
+        const ts = Date.now();
+        const id = newChatId(ts);
+        setDmThreads((t) => addDmLine(t, pid, { id, from: myPeerId, text, ts, self: true }, true, DM_LINES_MAX));
+        setChatInput('');
+        void (async () => {
+            const sealed = await keyring.seal(encodeChatBody({ k: 'msg', text }), dmContext(id, myPeerId, pid));
+            if (!sealed) { failDm(pid, id, 'no room key'); return; }
+            deliverDm(pid, { t: 'dm', id, to: pid, ts, enc: sealed });
+        })();
+    };
+
+    /** Straight to them over their chat channel; without one, dial them and send once it opens */
+    const deliverDm = (pid: string, msg: DmMsg) => {
+        const session = sessionRef.current;
+        if (!session) { failDm(pid, msg.id, 'not connected'); return; }
+        const proto = peerProtoRef.current.get(pid);
+        if (proto && !peerAccepts(proto, 'dm')) { failDm(pid, msg.id, 'their app is too old for DMs'); return; }
+        if (session.isOpen(pid, CHAT_LABEL) && session.send(pid, CHAT_LABEL, msg)) return;
+        const queue = dmOutboxRef.current.get(pid) ?? [];
+        dmOutboxRef.current.set(pid, [...queue, msg]);
+        session.dial(pid);
+        setTimeout(() => {
+            const left = dmOutboxRef.current.get(pid);
+            if (!left?.includes(msg)) return;
+            dmOutboxRef.current.set(pid, left.filter((m) => m !== msg));
+            failDm(pid, msg.id, 'no connection to them');
+        }, DM_DELIVER_MS);
+    };
+
+    /** Their chat channel opened: send what was waiting for it */
+    const flushDmOutbox = (pid: string) => {
+        const queue = dmOutboxRef.current.get(pid);
+        if (!queue?.length) return;
+        dmOutboxRef.current.delete(pid);
+        for (const msg of queue) deliverDm(pid, msg);
+    };
+
+    const handleInboundDm = async (from: string, msg: DmMsg) => {
+        if (msg.to !== myPeerId) return;
+        const plain = await chatKeyringRef.current?.open(msg.enc, dmContext(msg.id, from, myPeerId)) ?? null;
+        const body = plain === null ? null : decodeChatBody(plain);
+        if (plain !== null && body?.k !== 'msg') return;
+        const line: DmLine = body?.k === 'msg'
+            ? { id: msg.id, from, text: body.text, ts: msg.ts, self: false }
+            : { id: msg.id, from, text: '', ts: msg.ts, self: false, sealed: msg.enc, locked: true };
+        const seen = showChatRef.current && chatTabRef.current === from;
+        setDmThreads((t) => addDmLine(t, from, line, seen, DM_LINES_MAX));
+        if (!labelCacheRef.current[from]) void resolveRemoteProfile(from);
+        if (line.locked) return;
+        const shown = line.text.length > BUBBLE_TEXT_MAX ? `${line.text.slice(0, BUBBLE_TEXT_MAX - 1)}…` : line.text;
+        chatBubbleRef.current[from] = { text: shown, until: performance.now() + bubbleDurationFor(shown), whisper: true };
+        if (!seen) notifyHidden(`${displayNameFor(from)} sent you a message`, line.text);
+    };
+
+    /** DMs that came in before their key did */
+    const reopenLockedDms = async () => {
+        const keyring = chatKeyringRef.current;
+        if (!keyring) return;
+        const opened: Array<[string, string, string]> = [];
+        for (const [peer, thread] of Object.entries(dmThreadsRef.current)) {
+            for (const l of thread.lines) {
+                if (!l.locked || !l.sealed) continue;
+                const plain = await keyring.open(l.sealed, dmContext(l.id, l.from, myPeerId));
+                const body = plain === null ? null : decodeChatBody(plain);
+                if (body?.k === 'msg') opened.push([peer, l.id, body.text]);
+            }
+        }
+        if (!opened.length) return;
+        setDmThreads((t) => opened.reduce((acc, [peer, id, text]) => patchDmLine(acc, peer, id, { text, locked: false, sealed: undefined }), t));
+    };
+
+    /** What a sealed line is bound to besides the room and key epoch */
+    const chatContext = (id: string, fromPeerId: string) => `${id}|${fromPeerId}`;
+
+    /** A line as it arrived (live or from history): sealed ones opened, or locked if we can't */
+    const openChat = async (text: string, id: string | undefined, fromPeerId: string): Promise<OpenedBody> => {
+        // lines from before encryption
+        if (!isSealed(text)) return { body: { k: 'msg', text } };
+        const plain = id ? await chatKeyringRef.current?.open(text, chatContext(id, fromPeerId)) : null;
+        return plain == null ? { body: null, sealed: text, locked: true } : { body: decodeChatBody(plain), sealed: text };
+    };
+
+    /** A key came in: try the lines we couldn't open again (some turn out to be ops) */
+    const reopenLockedChat = async () => {
+        const locked = chatLogRef.current.filter((l) => l.locked && l.sealed);
+        const opened = new Map<string, ChatLine | null>();
+        const ops: ChatOp[] = [];
+        for (const l of locked) {
+            const o = await openChat(l.sealed!, l.id, l.fromPeerId);
+            if (o.locked) continue;
+            const entry = chatEntryOf(o, l.id, l.fromPeerId, l.ts, !!l.vouched);
+            if (entry && 'body' in entry) ops.push(entry);
+            opened.set(l.id, entry && !('body' in entry) ? entry : null);
+        }
+        if (ops.length) setChatOps((prev) => addChatOps(prev, ops, CHAT_OPS_MAX));
+        if (!opened.size) return;
+        setChatLog((prev) => prev.flatMap((l) => {
+            if (!opened.has(l.id)) return [l];
+            const line = opened.get(l.id);
+            return line ? [{ ...l, ...line }] : [];
+        }));
+    };
+
+    /** ===== Chat history (kept by the canister, lib/chat/history.ts) ===== */
+    const [chatHistoryOn, setChatHistoryOn] = useState<boolean | null>(null);
+    const [chatOlder, setChatOlder] = useState<'idle' | 'loading' | 'done'>('idle');
+    /** Scroll position before a page loaded on top, restored after it renders */
+    const chatAnchorRef = useRef<{ height: number; top: number } | null>(null);
+    const chatTopRef = useRef<ChatLine | null>(null);
+
+    /** One page of `room`'s history as seen by `self`, opened and split into lines and edits */
+    const fetchChatPage = async (room: string, self: string, before: number | null, limit: number) => {
+        const res = await canisterService.getChatHistory(room, before, limit);
+        if ('Err' in res) throw new Error(res.Err);
+        const senders = res.Ok.messages.map((m) => peerIdForPrincipal(room, principalToText(m.from)));
+        const unknown = [...new Set(senders)].filter((pid) => pid !== self && !labelCacheRef.current[pid]);
+        await Promise.all(unknown.map(resolveRemoteProfile));
+        const opened = await Promise.all(res.Ok.messages.map((m, i) => openChat(m.text, m.id, senders[i])));
+        // the canister records who sent each line
+        const entries = res.Ok.messages.map((m, i) => chatEntryOf(opened[i], m.id, senders[i], m.ts, true));
+        const ops = entries.filter((e): e is ChatOp => !!e && 'body' in e);
+        if (ops.length) setChatOps((prev) => addChatOps(prev, ops, CHAT_OPS_MAX));
+        return {
+            next: res.Ok.next,
+            enabled: res.Ok.enabled,
+            lines: entries.filter((e): e is ChatLine => !!e && !('body' in e)),
+        };
+    };
+    // one pager per room and self; pages go through this render's keys and profiles
+    const fetchChatPageRef = useRef(fetchChatPage);
+    fetchChatPageRef.current = fetchChatPage;
+    const chatHistory = useMemo(() => createChatHistory<ChatLine>({
+        pageSize: CHAT_PAGE,
+        fetchPage: (before, limit) => fetchChatPageRef.current(roomId, myPeerId, before, limit),
+    }), [roomId, myPeerId]);
+
+    const loadOlderChat = async () => {
+        if (chatHistory.done || chatHistory.loading) return;
+        setChatOlder('loading');
+        const lines = await chatHistory.older();
+        setChatHistoryOn(chatHistory.enabled);
+        if (lines?.length) {
+            const el = chatListRef.current;
+            chatAnchorRef.current = el && el.scrollHeight > el.clientHeight ? { height: el.scrollHeight, top: el.scrollTop } : null;
+            setChatLog((prev) => {
+                const next = mergeChatHistory(prev, lines);
+                if (next === prev) chatAnchorRef.current = null; // nothing new, nothing renders
+                return next;
+            });
+        }
+        setChatOlder(chatHistory.done ? 'done' : 'idle');
+    };
+
+    useLayoutEffect(() => {
+        const el = chatListRef.current;
+        const anchor = chatAnchorRef.current;
+        chatAnchorRef.current = null;
+        if (el && anchor) el.scrollTop = el.scrollHeight - anchor.height + anchor.top;
+
+        // live lines pushed history off the top: page again from the latest
+        const top = chatLog[0] ?? null;
+        const prev = chatTopRef.current;
+        if (prev && top && top.id !== prev.id && top.ts > prev.ts && !chatHistory.loading) {
+            chatHistory.reset();
+            setChatOlder('idle');
+        }
+        chatTopRef.current = top;
+    }, [chatLog, chatHistory]);
+
+    /** Keep our (sealed) line in the room's history; the canister says no when the host turned it off */
+    const persistChat = (id: string, sealed: string) => {
+        canisterService.appendChatMessage(roomId, id, sealed)
+            .then((res) => {
+                if ('Ok' in res) { setChatHistoryOn(true); return; }
+                if (res.Err === 'CHAT_HISTORY_DISABLED') setChatHistoryOn(false);
+                else log(`Chat line not saved: ${res.Err}`);
+            })
+            .catch((e) => log(`Chat line not saved: ${String((e as any)?.message || e)}`));
+    };
+
+    const toggleChatHistory = async () => {
+        const on = chatHistoryOn === false;
+        const res = await setChatHistory(roomId, on);
+        if ('Err' in res) { log(`Chat history setting failed: ${res.Err}`); return; }
+        chatHistory.enabled = res.Ok;
+        setChatHistoryOn(res.Ok);
+        log(`Chat history ${res.Ok ? 'on' : 'off (and cleared)'}`);
+    };
+
+    /** A key came in: lines and DMs that arrived before it may open now */
+    const reopenLocked = () => {
+        void reopenLockedChat();
+        void reopenLockedDms();
+    };
+
+    /** Left the room: nothing of this one stays in the panel */
+    const resetChat = () => {
+        setChatLog([]);
+        setChatOps(new Map());
+        setChatReplyTo(null);
+        setChatEditing(null);
+        reactionFloatRef.current = {};
+        chatHistory.reset();
+        setChatOlder('idle');
+        chatBubbleRef.current = {};
+    };
+
+    const handlers: RoomMsgHandlers = {
+        chat: (pid, msg) => handleInboundChat(pid, msg),
+        dm: (pid, msg) => { void handleInboundDm(pid, msg); },
+    };
+
+    return {
+        showChat, setShowChat, chatInput, setChatInput, chatLog, chatListRef, chatInputRef,
+        chatTab, setChatTab, dmThreads, dmShown, chatBubbleRef, chatTalkUntilRef, reactionFloatRef,
+        chatView, chatById, chatReplyTo, chatEditing, reactPickerFor, setReactPickerFor, chatMentions,
+        dmUnreadCount, dmTabs, chatHistoryOn, chatOlder,
+        addChatMessage, newChatId, sendChatBody, submitChat, knownUsername,
+        reactToChat, deleteChat, startChatEdit, cancelChatCompose, startChatReply,
+        openDm, flushDmOutbox, loadOlderChat, toggleChatHistory, reopenLocked, resetChat, handlers,
+    };
+};
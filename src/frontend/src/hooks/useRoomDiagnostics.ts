@@ -0,0 +1,119 @@
+import { useEffect, useRef, useState, type MutableRefObject } from 'react';
+import type { MediaLink } from '../lib/net/transport';
+import type { RoomSession } from '../lib/net/session';
+import { sharedIce } from '../lib/net/ice';
+import { createDiagnosticsSampler, type PeerDiagnostics } from '../lib/net/diagnostics';
+
+/** How often connection stats are read (sidebar bars, diagnostics panel) */
+const DIAG_MS = 2000;
+
+interface UseRoomDiagnosticsOptions {
+    roomId: string;
+    myPeerId: string;
+    sessionRef: MutableRefObject<RoomSession | null>;
+    mediaConnsRef: MutableRefObject<Map<string, MediaLink>>;
+    relayPeer: string | null;
+    micOn: boolean;
+    logs: string[];
+    displayNameFor: (peerId: string) => string;
+    /** The panel is open: keep `diagView` current */
+    show: boolean;
+}
+
+interface UseRoomDiagnosticsReturn {
+    /** Latest stats per peer, for the sidebar (read by refs, no re-render) */
+    diagRef: MutableRefObject<Record<string, PeerDiagnostics>>;
+    /** The same, as state, while the panel is open */
+    diagView: PeerDiagnostics[];
+    /** Everything in the panel plus the whole log, as a JSON file to attach to a bug ticket */
+    exportDiagnostics: () => void;
+}
+
+/**
+ * Connection stats for everyone with a call or a channel (the media call's,
+ * else the game channel's), polled in the background for the sidebar bars
+ * and the diagnostics panel.
+ */
+export const useRoomDiagnostics = (opts: UseRoomDiagnosticsOptions): UseRoomDiagnosticsReturn => {
+    const { roomId, myPeerId, sessionRef, mediaConnsRef, relayPeer, micOn, logs, displayNameFor, show } = opts;
+
+    const diagSamplerRef = useRef(createDiagnosticsSampler());
+    const diagRef = useRef<Record<string, PeerDiagnostics>>({});
+    const diagBusyRef = useRef(false);
+    const showRef = useRef(show);
+    const [diagView, setDiagView] = useState<PeerDiagnostics[]>([]);
+
+    useEffect(() => {
+        const pollDiagnostics = async () => {
+            if (diagBusyRef.current) return;
+            diagBusyRef.current = true;
+            try {
+                const session = sessionRef.current;
+                const peers = new Set([...(session?.peers() ?? []), ...mediaConnsRef.current.keys()]);
+                const next: Record<string, PeerDiagnostics> = {};
+                for (const pid of peers) {
+                    const buffered: Record<string, number | undefined> = {};
+                    for (const label of session?.labels ?? []) {
+                        const ch = session?.channel(pid, label);
+                        if (ch) buffered[label] = ch.bufferedAmount;
+                    }
+                    next[pid] = await diagSamplerRef.current.sample(pid, {
+                        media: mediaConnsRef.current.get(pid)?.peerConnection,
+                        data: session?.channel(pid)?.peerConnection,
+                        buffered,
+                    });
+                }
+                diagSamplerRef.current.retain(peers);
+                diagRef.current = next;
+                if (showRef.current) setDiagView(Object.values(next));
+            } finally {
+                diagBusyRef.current = false;
+            }
+        };
+        const id = setInterval(() => { void pollDiagnostics(); }, DIAG_MS);
+        return () => clearInterval(id);
+    }, [sessionRef, mediaConnsRef]);
+
+    useEffect(() => {
+        showRef.current = show;
+        if (show) setDiagView(Object.values(diagRef.current));
+    }, [show]);
+
+    const exportDiagnostics = () => {
+        const ice = sharedIce();
+        const settings = ice.settings;
+        const report = {
+            app: 'pixeliy',
+            createdAt: new Date().toISOString(),
+            userAgent: navigator.userAgent,
+            roomId,
+            self: myPeerId,
+            session: sessionRef.current?.state ?? 'idle',
+            relay: relayPeer,
+            ice: {
+                strategy: settings.strategy,
+                stun: settings.stun,
+                // urls only: credentials stay out of bug tickets
+                turn: settings.turn.flatMap((t) => t.urls),
+                credentialsUrl: !!settings.credentialsUrl,
+            },
+            micOn,
+            peers: Object.values(diagRef.current).map((d) => ({
+                ...d,
+                name: displayNameFor(d.peer),
+                iceMode: ice.modeOf(d.peer),
+                hasCall: mediaConnsRef.current.has(d.peer),
+                gameChannelOpen: !!sessionRef.current?.isOpen(d.peer),
+            })),
+            log: logs,
+        };
+        const url = URL.createObjectURL(new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }));
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `pixeliy-diagnostics-${roomId || 'room'}-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+        a.click();
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+    };
+
+    return { diagRef, diagView, exportDiagnostics };
+};
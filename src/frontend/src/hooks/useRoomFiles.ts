@@ -0,0 +1,226 @@
+import { useRef, useState, type Dispatch, type MutableRefObject, type SetStateAction } from 'react';
+import { canisterService } from '../services/canisterService';
+import type { Channel } from '../lib/net/transport';
+import type { RoomSession } from '../lib/net/session';
+import { FILE_LABEL, type PeerProtocol } from '../lib/net/protocol';
+import type { ChatLine } from '../lib/chat/history';
+import type { ChatKeyring } from '../lib/chat/e2e';
+import type { ChatBody, ChatFile } from '../lib/chat/rich';
+import {
+    createFileTransfers,
+    formatBytes,
+    MAX_FILE_NAME_CHARS,
+    P2P_MAX_BYTES,
+    sha256Hex,
+    type FileMeta,
+    type FileTransfers,
+    type TransferProgress,
+    type TransferState,
+} from '../lib/files/transfer';
+import { createChunkedFileStore, getSealed, putSealed, type FileStore, type StorageApi } from '../lib/files/store';
+import { makeThumbnail } from '../lib/files/thumbnail';
+
+/** Files dropped on the chat at once */
+const FILE_DROP_MAX = 5;
+const FILE_ERROR_TEXT: Record<string, string> = {
+    TOO_LARGE: 'too large to send directly',
+    GONE: 'no longer shared',
+    STALLED: "the sender can't be reached",
+    CORRUPT: 'failed the integrity check',
+    CANCELLED: 'cancelled',
+    UNSUPPORTED: "their app can't send files",
+    NO_STORAGE: "room storage isn't available",
+    FILE_NOT_FOUND: 'expired from room storage',
+    QUOTA_EXCEEDED: 'you have too much in room storage already',
+    STORAGE_FULL: 'room storage is full',
+};
+
+/** The storage canister as lib/files/store.ts wants it: failures throw with the canister's error code */
+const canisterStorageApi: StorageApi = (() => {
+    const ok = <T>(res: { Ok: T } | { Err: string }): T => {
+        if ('Err' in res) throw new Error(res.Err);
+        return res.Ok;
+    };
+    return {
+        beginUpload: async (size, chunkCount) => ok(await canisterService.beginUpload(size, chunkCount)),
+        putChunk: async (id, index, data) => { ok(await canisterService.putChunk(id, index, data)); },
+        finishUpload: async (id) => { ok(await canisterService.finishUpload(id)); },
+        getFileInfo: async (id) => ok(await canisterService.getFileInfo(id)),
+        getChunk: async (id, index) => ok(await canisterService.getChunk(id, index)),
+        deleteFile: async (id) => { ok(await canisterService.deleteFile(id)); },
+    };
+})();
+
+interface UseRoomFilesOptions {
+    myPeerId: string;
+    /** Peer whose DM thread is open in the chat panel; files only go to the room */
+    chatTab: string | null;
+    peerProtoRef: MutableRefObject<Map<string, PeerProtocol>>;
+    chatKeyringRef: MutableRefObject<ChatKeyring | null>;
+    newChatId: (ts: number) => string;
+    sendChatBody: (body: ChatBody, id: string, ts: number) => boolean;
+    addChatMessage: (fromPeerId: string, text: string, ts: number, self: boolean, id: string, opened: { file: ChatFile }) => void;
+}
+
+interface UseRoomFilesReturn {
+    /** File id → object URL of bytes we hold (ours, or fetched and checked) */
+    fileUrls: Record<string, string>;
+    fileProgress: Record<string, TransferProgress>;
+    fileNotice: string | null;
+    setFileNotice: Dispatch<SetStateAction<string | null>>;
+    fileDragOver: boolean;
+    setFileDragOver: Dispatch<SetStateAction<boolean>>;
+    fileInputRef: MutableRefObject<HTMLInputElement | null>;
+    fileErrorText: (code?: string) => string;
+    /** Serve and fetch files over `session` */
+    startFiles: (session: RoomSession) => void;
+    stopFiles: () => void;
+    shareFiles: (files: FileList | null) => void;
+    fetchChatFile: (line: ChatLine) => Promise<void>;
+    /** A file channel to `peer` opened */
+    fileOpened: (peer: string) => void;
+    fileData: (peer: string, data: unknown, ch: Channel) => void;
+    cancelFile: (id: string) => void;
+    /** Stop offering a file we shared */
+    unshareFile: (id: string) => void;
+}
+
+/**
+ * Files shared in the room chat (lib/files): peer to peer up to
+ * P2P_MAX_BYTES, sealed in room storage above that.
+ */
+export const useRoomFiles = ({ myPeerId, chatTab, peerProtoRef, chatKeyringRef, newChatId, sendChatBody, addChatMessage }: UseRoomFilesOptions): UseRoomFilesReturn => {
+    const fileTransfersRef = useRef<FileTransfers | null>(null);
+    /** Room storage for files too big to send directly; null when there's no storage canister */
+    const fileStoreRef = useRef<FileStore | null>(null);
+    /** File id → object URL of bytes we hold (ours, or fetched and checked) */
+    const [fileUrls, setFileUrls] = useState<Record<string, string>>({});
+    const fileUrlsRef = useRef(fileUrls);
+    fileUrlsRef.current = fileUrls;
+    /** File id → how its transfer is going (ours going out: to whoever asked last) */
+    const [fileProgress, setFileProgress] = useState<Record<string, TransferProgress>>({});
+    const [fileNotice, setFileNotice] = useState<string | null>(null);
+    const [fileDragOver, setFileDragOver] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+    const noteFileProgress = (p: TransferProgress) => setFileProgress((prev) => ({ ...prev, [p.id]: p }));
+    const fileErrorText = (code?: string) => FILE_ERROR_TEXT[code ?? ''] ?? `failed (${code ?? 'unknown'})`;
+
+    const startFiles = (session: RoomSession) => {
+        fileTransfersRef.current?.close();
+        const transfers = createFileTransfers({ connect: (peer) => session.connect(peer, FILE_LABEL) });
+        transfers.on('progress', noteFileProgress);
+        fileTransfersRef.current = transfers;
+        fileStoreRef.current = canisterService.hasStorage() ? createChunkedFileStore(canisterStorageApi) : null;
+    };
+
+    const stopFiles = () => {
+        fileTransfersRef.current?.close();
+        fileTransfersRef.current = null;
+        for (const url of Object.values(fileUrlsRef.current)) URL.revokeObjectURL(url);
+        setFileUrls({});
+        setFileProgress({});
+        setFileNotice(null);
+    };
+
+    /**
+     * Offer `file` in the chat. Up to P2P_MAX_BYTES it's sent peer to peer
+     * from here to whoever asks; bigger ones go (encrypted) to room storage
+     * if there is one and they say so.
+     */
+    const shareFile = async (file: File) => {
+        const transfers = fileTransfersRef.current;
+        if (!transfers) return;
+        setFileNotice(null);
+        if (!chatKeyringRef.current?.epoch) { setFileNotice('Still setting up encryption, try again in a moment'); return; }
+        if (!file.size) { setFileNotice(`${file.name} is empty`); return; }
+        const store = fileStoreRef.current;
+        const viaStore = file.size > P2P_MAX_BYTES;
+        if (viaStore && (!store || file.size > store.maxBytes)) {
+            setFileNotice(`${file.name} is too big to share (${formatBytes(file.size)}, limit ${formatBytes(store?.maxBytes ?? P2P_MAX_BYTES)})`);
+            return;
+        }
+        if (viaStore && !window.confirm(
+            `${file.name} is too big to send directly (over ${formatBytes(P2P_MAX_BYTES)}). ` +
+            "Upload it, encrypted, to room storage instead? It's kept there for 7 days.",
+        )) return;
+
+        const id = newChatId(Date.now());
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        const meta: FileMeta = {
+            id,
+            name: file.name.slice(-MAX_FILE_NAME_CHARS) || 'file',
+            size: bytes.length,
+            mime: (file.type || 'application/octet-stream').slice(0, 100),
+            sha256: await sha256Hex(bytes),
+        };
+        const thumb = await makeThumbnail(file);
+        let shared: ChatFile = { ...meta, ...(thumb && { thumb }) };
+        setFileUrls((prev) => ({ ...prev, [id]: URL.createObjectURL(file) }));
+        if (viaStore) {
+            const up = (done: number, state: TransferState, error?: string) =>
+                noteFileProgress({ id, peer: myPeerId, dir: 'up', done, size: meta.size, state, error });
+            up(0, 'active');
+            try {
+                shared = { ...shared, store: await putSealed(store!, bytes, (done) => up(Math.min(done, meta.size), 'active')) };
+                up(meta.size, 'done');
+            } catch (e) {
+                const code = e instanceof Error ? e.message : String(e);
+                up(0, 'failed', code);
+                setFileNotice(`Upload of ${meta.name}: ${fileErrorText(code)}`);
+                return;
+            }
+        } else {
+            transfers.share(meta, bytes);
+        }
+        const ts = Date.now();
+        if (!sendChatBody({ k: 'msg', text: '', file: shared }, id, ts)) {
+            transfers.unshare(id);
+            return;
+        }
+        addChatMessage(myPeerId, '', ts, true, id, { file: shared });
+    };
+
+    /** Files dropped on the chat panel or picked with the paperclip */
+    const shareFiles = (files: FileList | null) => {
+        if (!files?.length || chatTab) return;
+        for (const f of Array.from(files).slice(0, FILE_DROP_MAX)) void shareFile(f);
+    };
+
+    /** Get the file `line` offers, from its sender or from storage, checked against its digest */
+    const fetchChatFile = async (line: ChatLine) => {
+        const file = line.file;
+        const transfers = fileTransfersRef.current;
+        if (!file || !transfers || fileUrlsRef.current[file.id]) return;
+        const down = (done: number, state: TransferState, error?: string) =>
+            noteFileProgress({ id: file.id, peer: line.fromPeerId, dir: 'down', done, size: file.size, state, error });
+        try {
+            let bytes: Uint8Array<ArrayBuffer>;
+            if (file.store) {
+                const store = fileStoreRef.current;
+                if (!store) throw new Error('NO_STORAGE');
+                down(0, 'waiting');
+                bytes = await getSealed(store, file.store.ref, file.store.key, (done) => down(Math.min(done, file.size), 'active'));
+                if (await sha256Hex(bytes) !== file.sha256) throw new Error('CORRUPT');
+                down(file.size, 'done');
+            } else {
+                const proto = peerProtoRef.current.get(line.fromPeerId);
+                if (proto && !proto.caps.has('file')) throw new Error('UNSUPPORTED');
+                bytes = await transfers.fetch(line.fromPeerId, file);
+            }
+            const url = URL.createObjectURL(new Blob([bytes], { type: file.mime }));
+            setFileUrls((prev) => ({ ...prev, [file.id]: url }));
+        } catch (e) {
+            down(0, 'failed', e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    return {
+        fileUrls, fileProgress, fileNotice, setFileNotice, fileDragOver, setFileDragOver, fileInputRef,
+        fileErrorText, startFiles, stopFiles, shareFiles, fetchChatFile,
+        fileOpened: (peer: string) => fileTransfersRef.current?.opened(peer),
+        fileData: (peer: string, data: unknown, ch: Channel) => fileTransfersRef.current?.handle(peer, data, ch),
+        cancelFile: (id: string) => fileTransfersRef.current?.cancel(id),
+        unshareFile: (id: string) => fileTransfersRef.current?.unshare(id),
+    };
+};
@@ -0,0 +1,228 @@
+import { useEffect, useMemo, useRef, type MutableRefObject } from 'react';
+import type { RoomSession } from '../lib/net/session';
+import { pretty } from '../lib/net/peerIds';
+import { MAX_GOSSIP_ENTRIES, type PeerProtocol, type RoomMsg } from '../lib/net/protocol';
+import type { PosPacket } from '../lib/net/positionSync';
+import { createGossipTable, createInterestManager, packetOfGossip, type GossipEntry } from '../lib/net/interest';
+import { G_RELAY_VOLUNTEER, G_RELAYING, type RelayInput } from '../lib/net/relay';
+import type { TileStep } from '../components/world/pathfinding';
+import type { RoomMsgHandlers } from './useRoomWire';
+
+const INTEREST_MS = 1000;
+const GOSSIP_MS = 500;
+/** Ignore relayed positions of a peer that said bye for this long */
+const GONE_HOLD_MS = 10_000;
+
+/** Phones and tablets don't offer to carry everyone's voice */
+const RELAY_VOLUNTEER = typeof window !== 'undefined' && !window.matchMedia?.('(pointer: coarse)').matches;
+
+type PlayerPos = { x: number; y: number };
+
+interface UseRoomInterestOptions {
+    myPeerId: string;
+    sessionRef: MutableRefObject<RoomSession | null>;
+    /** Set while we're leaving: nothing gets dialled */
+    closingRef: MutableRefObject<boolean>;
+    peerProtoRef: MutableRefObject<Map<string, PeerProtocol>>;
+    meRef: MutableRefObject<PlayerPos>;
+    othersRef: MutableRefObject<Record<string, PlayerPos>>;
+    faceDirRef: MutableRefObject<Record<string, 1 | -1>>;
+    isMovingNow: () => boolean;
+    log: (line: string) => void;
+    sendMsg: (peerId: string, msg: RoomMsg) => boolean;
+    broadcastMsg: (msg: RoomMsg) => void;
+    /** Tile under an avatar drawn at (x, y) */
+    centerTileOf: (x: number, y: number) => TileStep;
+    /** Whether two tiles are close enough for a call (earshot plus a margin) */
+    mediaInRange: (a: TileStep, b: TileStep) => boolean;
+    /** Relay mode (hooks/useRoomMedia.ts) */
+    decideRelay: (members: Iterable<string>, flagsOf: RelayInput['flagsOf']) => string | null;
+    reconcileCalls: (wanted: Iterable<string>) => void;
+    relayOf: () => string | null;
+    receiveRelayedPos: (peerId: string, p: PosPacket) => void;
+    dropPosSync: (peerId: string) => void;
+    /** Peers gossip says are in the room (new or not) */
+    onSeen: (peerIds: string[]) => void;
+    /** Peers gossip lost track of, with no link of our own to them */
+    onForget: (peerIds: string[]) => void;
+}
+
+interface UseRoomInterestReturn {
+    /** Open the game + chat Channels to a peer */
+    dialPeer: (peerId: string) => void;
+    tileOfPeer: (peerId: string) => TileStep | null;
+    /** Peers interest management wants calls with */
+    mediaPeers: () => ReadonlySet<string>;
+    /** The room's participant list on join; returns who to dial first */
+    firstTargets: (peerIds: Iterable<string>) => string[];
+    /** A peer linked up or called us */
+    noteMember: (peerId: string) => void;
+    /** A peer said bye: gossip about them is ignored for a while */
+    noteBye: (peerId: string) => void;
+    /** A peer's game channel closed; true if they're gone rather than just out of interest */
+    noteClosed: (peerId: string) => boolean;
+    clearMembers: () => void;
+    /** A peer said hello: hand them everything we know */
+    greetGossip: (peerId: string) => void;
+    handlers: RoomMsgHandlers;
+}
+
+/**
+ * Who we keep direct links to (lib/net/interest.ts): dialling peers that come
+ * into view or earshot, hanging up on the ones that leave it, and gossiping
+ * positions over the overlay so everyone else still gets drawn.
+ */
+export const useRoomInterest = (opts: UseRoomInterestOptions): UseRoomInterestReturn => {
+    const { myPeerId, sessionRef, closingRef, peerProtoRef, meRef, othersRef, faceDirRef, isMovingNow, log, sendMsg, broadcastMsg } = opts;
+    const { centerTileOf, mediaInRange, decideRelay, reconcileCalls, relayOf, receiveRelayedPos, dropPosSync, onSeen, onForget } = opts;
+
+    // everyone in the room vs. who we keep direct links to
+    const membersRef = useRef<Set<string>>(new Set());
+    const interestRef = useRef(createInterestManager());
+    const goneRef = useRef<Map<string, number>>(new Map());
+    const gossip = useMemo(() => createGossipTable({ self: myPeerId }), [myPeerId]);
+
+    const dialPeer = (rid: string) => {
+        sessionRef.current?.dial(rid);
+    };
+
+    const tileOfPeer = (pid: string) => {
+        const p = pid === myPeerId ? meRef.current : othersRef.current[pid];
+        return p ? centerTileOf(p.x, p.y) : null;
+    };
+
+    const firstTargets = (peerIds: Iterable<string>) => {
+        membersRef.current = new Set([...peerIds].filter((pid) => pid !== myPeerId));
+        // no positions yet: small rooms get the full mesh, big ones the overlay;
+        // the rest is dialled (and relayed) once gossip says where everyone is
+        const plan = interestRef.current.plan({
+            self: myPeerId,
+            now: performance.now(),
+            members: membersRef.current,
+            tileOf: () => null,
+            mediaBetween: () => false,
+        });
+        return [...plan.data];
+    };
+
+    /** Dial peers that came into interest, drop the ones that left it */
+    const reconcileInterest = () => {
+        const session = sessionRef.current;
+        if (!session || closingRef.current) return;
+        const now = performance.now();
+
+        // a dial that never opened emits no close; forget it so it can be retried
+        for (const rid of session.expireDials()) {
+            log(`interest: ${pretty(rid)} never answered, giving up`);
+            // stale participant list entry; it comes back if they connect or show up in gossip
+            if (!gossip.has(rid, now)) membersRef.current.delete(rid);
+        }
+
+        const plan = interestRef.current.plan({
+            self: myPeerId,
+            now,
+            members: membersRef.current,
+            tileOf: tileOfPeer,
+            mediaBetween: mediaInRange,
+        });
+
+        const relay = decideRelay(membersRef.current, gossip.flagsOf);
+        // the relay needs a data link to each listener for slot maps
+        const relayLink = (rid: string) => relay !== null && (relay === myPeerId || rid === relay);
+
+        for (const rid of plan.data) dialPeer(rid);
+        if (relay === myPeerId) for (const rid of membersRef.current) dialPeer(rid);
+        else if (relay) dialPeer(relay);
+        // the dialling side owns the link; older clients stay fully meshed
+        for (const rid of session.dialedPeers()) {
+            if (plan.data.has(rid) || relayLink(rid) || !peerProtoRef.current.get(rid)?.caps.has('gossip')) continue;
+            log(`interest: dropping link to ${pretty(rid)}`);
+            session.hangUp(rid);
+        }
+
+        reconcileCalls(relay === myPeerId ? membersRef.current : plan.media);
+    };
+
+    const sendGossip = (to: string | null, entries: GossipEntry[]) => {
+        for (let i = 0; i < entries.length; i += MAX_GOSSIP_ENTRIES) {
+            const msg: RoomMsg = { t: 'gossip', e: entries.slice(i, i + MAX_GOSSIP_ENTRIES) };
+            if (to === null) broadcastMsg(msg);
+            else sendMsg(to, msg);
+        }
+    };
+
+    const receiveGossip = (entries: GossipEntry[]) => {
+        const seen: string[] = [];
+        for (const e of gossip.merge(entries, performance.now())) {
+            const pid = e[0];
+            if (goneRef.current.has(pid)) continue;
+            membersRef.current.add(pid);
+            seen.push(pid);
+            receiveRelayedPos(pid, packetOfGossip(e));
+        }
+        if (seen.length) onSeen(seen);
+    };
+
+    /** One gossip round: refresh our own entry, pass on what changed, expire the silent */
+    const gossipRound = () => {
+        if (!sessionRef.current) return;
+        const now = performance.now();
+        const { x, y } = meRef.current;
+        const relayFlags = (RELAY_VOLUNTEER ? G_RELAY_VOLUNTEER : 0) | (relayOf() === myPeerId ? G_RELAYING : 0);
+        gossip.setOwn(x, y, faceDirRef.current[myPeerId] ?? 1, isMovingNow(), now, relayFlags);
+        const changed = gossip.takeChanged();
+        if (changed.length) sendGossip(null, changed);
+
+        // relayed peers we still have a link to stay until the link goes
+        const forgotten = gossip.expire(now).filter((pid) => !sessionRef.current?.isOpen(pid));
+        for (const pid of forgotten) {
+            membersRef.current.delete(pid);
+            dropPosSync(pid);
+        }
+        if (forgotten.length) onForget(forgotten);
+        for (const [pid, until] of goneRef.current) if (until < now) goneRef.current.delete(pid);
+    };
+
+    // the timers outlive renders: they call whatever this render's closures are
+    const tickRef = useRef({ gossipRound, reconcileInterest });
+    tickRef.current = { gossipRound, reconcileInterest };
+    useEffect(() => {
+        const gossipId = setInterval(() => tickRef.current.gossipRound(), GOSSIP_MS);
+        const interestId = setInterval(() => tickRef.current.reconcileInterest(), INTEREST_MS);
+        return () => { clearInterval(gossipId); clearInterval(interestId); };
+    }, []);
+
+    const noteMember = (pid: string) => {
+        goneRef.current.delete(pid);
+        membersRef.current.add(pid);
+    };
+
+    const noteBye = (pid: string) => {
+        goneRef.current.set(pid, performance.now() + GONE_HOLD_MS);
+        membersRef.current.delete(pid);
+    };
+
+    const noteClosed = (pid: string) => {
+        // out of interest but still in the room: gossip keeps drawing them
+        if (gossip.has(pid, performance.now()) && !goneRef.current.has(pid)) return false;
+        membersRef.current.delete(pid);
+        return true;
+    };
+
+    const handlers: RoomMsgHandlers = {
+        gossip: (_remotePeerId, m) => receiveGossip(m.e),
+    };
+
+    return {
+        dialPeer,
+        tileOfPeer,
+        mediaPeers: () => interestRef.current.last.media,
+        firstTargets,
+        noteMember,
+        noteBye,
+        noteClosed,
+        clearMembers: () => membersRef.current.clear(),
+        greetGossip: (pid) => sendGossip(pid, gossip.all()),
+        handlers,
+    };
+};
@@ -0,0 +1,56 @@
+import { useRef, type MutableRefObject } from 'react';
+import { principalToText } from '../lib/net/peerIds';
+import { useRoom } from './useRoom';
+
+interface UseRoomJoinOptions {
+    roomId: string;
+    myPrincipalTxt: string;
+    /** Set while we're leaving: no rejoining then */
+    closingRef: MutableRefObject<boolean>;
+    log: (line: string) => void;
+}
+
+interface UseRoomJoinReturn {
+    /** Join the room on the canister; false if it said no */
+    join: () => Promise<boolean>;
+    /** Leave it again, if we joined */
+    leave: () => Promise<void>;
+    /** After a drop the canister may have let us go (a reload's leaveRoom, say): join again */
+    rejoinIfDropped: () => Promise<void>;
+}
+
+/** Our place in the room's participant list on the canister */
+export const useRoomJoin = ({ roomId, myPrincipalTxt, closingRef, log }: UseRoomJoinOptions): UseRoomJoinReturn => {
+    const { getRoom, joinRoom, leaveRoom } = useRoom();
+    const joinedRef = useRef(false);
+
+    const join = async () => {
+        const jr = await joinRoom(roomId);
+        joinedRef.current = 'Ok' in jr;
+        return joinedRef.current;
+    };
+
+    const leave = async () => {
+        if (joinedRef.current) { try { await leaveRoom(roomId); } catch { } }
+        joinedRef.current = false;
+    };
+
+    const rejoinIfDropped = async () => {
+        try {
+            const room = await getRoom(roomId);
+            if (!room || closingRef.current) return;
+            if (room.participants.some((p) => principalToText(p) === myPrincipalTxt)) return;
+            const jr = await joinRoom(roomId);
+            if ('Ok' in jr) {
+                joinedRef.current = true;
+                log('Rejoined the room');
+            } else {
+                log(`Couldn't rejoin the room: ${jr.Err}`);
+            }
+        } catch (e) {
+            log(`Rejoin check failed: ${String((e as any)?.message || e)}`);
+        }
+    };
+
+    return { join, leave, rejoinIfDropped };
+};
@@ -0,0 +1,1064 @@
+import { useCallback, useEffect, useRef, useState, type Dispatch, type MutableRefObject, type SetStateAction } from 'react';
+import type { MediaLink } from '../lib/net/transport';
+import type { RoomSession } from '../lib/net/session';
+import { GAME_LABEL, type AvMsg, type Capability, type PeerProtocol, type RoomMsg as Msg } from '../lib/net/protocol';
+import { assignSlots, createRelayMode, pickSources, RELAY_SLOTS, type RelayInput, type Slots } from '../lib/net/relay';
+import { guardLink } from '../lib/net/resume';
+import { pretty } from '../lib/net/peerIds';
+import {
+    createSpatialVoice,
+    loadAudioOutputMode,
+    saveAudioOutputMode,
+    wallsBetween,
+    type AudioOutputMode,
+    type SpatialVoice,
+} from '../lib/audio/spatialAudio';
+import { audioRuleAt, isSolidTile, TILE } from '../components/world/map';
+import type { TileStep } from '../components/world/pathfinding';
+import type { RoomMsgHandlers } from './useRoomWire';
+
+/** Earshot where the map doesn't say otherwise */
+export const DEFAULT_AUDIO_RADIUS_TILES = 2;
+/** Voice activity: level that counts as speaking, and how fast mouths flap */
+export const SPK_THRESHOLD = 0.02;
+export const BLINK_MS = 200;
+const VAD_HOLD_MS = 200;
+
+/** Camera bubbles above avatars (CSS px) */
+const VIDEO_BUBBLE_W = 96;
+const VIDEO_BUBBLE_H = 72;
+
+const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
+
+type PlayerPos = { x: number; y: number };
+
+interface UseRoomMediaOptions {
+    myPeerId: string;
+    sessionRef: MutableRefObject<RoomSession | null>;
+    peerProtoRef: MutableRefObject<Map<string, PeerProtocol>>;
+    meRef: MutableRefObject<PlayerPos>;
+    othersRef: MutableRefObject<Record<string, PlayerPos>>;
+    log: (line: string) => void;
+    linkedPeers: () => string[];
+    sendMsg: (peerId: string, msg: Msg) => boolean;
+    broadcastMsg: (msg: Msg) => void;
+    /** Tile under an avatar drawn at (x, y) */
+    centerTileOf: (x: number, y: number) => TileStep;
+    tileOfPeer: (peerId: string) => TileStep | null;
+    /** Whether two tiles are close enough for a call (earshot plus a margin) */
+    mediaInRange: (a: TileStep, b: TileStep) => boolean;
+    /** Peers interest management wants calls with */
+    mediaPeers: () => ReadonlySet<string>;
+    /** The mic level meter runs while this is true */
+    meterOn: boolean;
+}
+
+interface UseRoomMediaReturn {
+    /** Our call per peer (direct, or to and from the relay) */
+    mediaConnsRef: MutableRefObject<Map<string, MediaLink>>;
+    /** Who carries the voices, null while calls are direct */
+    relayPeer: string | null;
+    relayOf: () => string | null;
+    micOnRef: MutableRefObject<boolean>;
+    micOn: boolean;
+    setMicOn: Dispatch<SetStateAction<boolean>>;
+    mics: MediaDeviceInfo[];
+    selectedMicId: string;
+    setSelectedMicId: Dispatch<SetStateAction<string>>;
+    /** Our mic level, while the meter is on */
+    micLevel: number;
+    audioOutput: AudioOutputMode;
+    camOn: boolean;
+    screenOn: boolean;
+    /** Where camera bubbles go, over the canvas */
+    videoLayerRef: MutableRefObject<HTMLDivElement | null>;
+    /** Peers in earshot sharing a screen */
+    screenSharers: string[];
+    stageSharer: string | null;
+    setStagePeer: Dispatch<SetStateAction<string | null>>;
+    stageHidden: boolean;
+    setStageHidden: Dispatch<SetStateAction<boolean>>;
+    stageVideoRef: MutableRefObject<HTMLVideoElement | null>;
+    localAnalyserRef: MutableRefObject<AnalyserNode | null>;
+    localLevelRef: MutableRefObject<number>;
+    remoteAnalyserRef: MutableRefObject<Record<string, AnalyserNode | null>>;
+    remoteLevelRef: MutableRefObject<Record<string, number>>;
+    speakingRef: MutableRefObject<Record<string, boolean>>;
+    talkBlinkRef: MutableRefObject<Record<string, boolean>>;
+    lastBlinkAtRef: MutableRefObject<Record<string, number>>;
+    computeLevel: (an: AnalyserNode | null) => number;
+    ensureAudioCtx: () => AudioContext;
+    ensureSilentOut: () => MediaStream | null;
+    acquireMic: (deviceId?: string) => Promise<MediaStream | null>;
+    tryPlayAllRemote: () => void;
+    onChangeAudioOutput: (mode: AudioOutputMode) => void;
+    onToggleMic: () => Promise<void>;
+    onApplyMic: () => Promise<void>;
+    onToggleCam: () => Promise<void>;
+    onToggleScreen: () => Promise<void>;
+    stopScreen: () => void;
+    /** Put `pid`'s camera bubble over their avatar (CSS px) */
+    placeVideoBubble: (pid: string, cx: number, top: number) => void;
+    /** Every remote voice placed by zone and distance (called each frame) */
+    updateAudioZones: () => void;
+    setPeerMuted: (peerId: string, muted: boolean) => void;
+    answerMediaCall: (remotePeerId: string, call: MediaLink) => void;
+    decideRelay: (members: Iterable<string>, flagsOf: RelayInput['flagsOf']) => string | null;
+    reconcileCalls: (wanted: Iterable<string>) => void;
+    greetPeer: (remotePeerId: string) => void;
+    dropPeerMedia: (remotePeerId: string) => void;
+    stopMedia: () => void;
+    handlers: RoomMsgHandlers;
+}
+
+/**
+ * Voice and video: the mic, calls to peers in (or near) earshot, relay mode
+ * for big rooms (lib/net/relay.ts), camera and screen share, and placing
+ * every remote voice by zone and distance (called each frame).
+ */
+export const useRoomMedia = (opts: UseRoomMediaOptions): UseRoomMediaReturn => {
+    const { myPeerId, sessionRef, peerProtoRef, meRef, othersRef, log, linkedPeers, sendMsg, broadcastMsg } = opts;
+    const { centerTileOf, tileOfPeer, mediaInRange, meterOn } = opts;
+
+    const mediaConnsRef = useRef<Map<string, MediaLink>>(new Map());
+    // relay mode: one volunteer forwards voices once the room gets big
+    const relayModeRef = useRef(createRelayMode());
+    const [relayPeer, setRelayPeer] = useState<string | null>(null);
+    /** Calls we placed as the relay (our senders are slots, not our mic) */
+    const relayCallsOutRef = useRef<Set<MediaLink>>(new Set());
+    /** Relay side: what each listener's slots carry, and whether they've been told */
+    const relaySlotsRef = useRef<Map<string, { slots: Slots; sent: boolean }>>(new Map());
+    /** Listener side: latest slot map from the relay, and the source → track feeds built from it */
+    const relayInRef = useRef<{ relay: string; slots: Slots } | null>(null);
+    const relayFeedsRef = useRef<Map<string, MediaStreamTrack>>(new Map());
+
+    const localStreamRef = useRef<MediaStream | null>(null);
+    const micOnRef = useRef(false);
+    const [micOn, setMicOn] = useState(false);
+    const [mics, setMics] = useState<MediaDeviceInfo[]>([]);
+    const [selectedMicId, setSelectedMicId] = useState<string>('');
+
+    const remoteAudiosRef = useRef<Record<string, HTMLAudioElement | null>>({});
+    const remoteUserMutedRef = useRef<Record<string, boolean>>({});
+
+    // WebAudio (VAD & util)
+    const audioCtxRef = useRef<AudioContext | null>(null);
+    const silentOutRef = useRef<MediaStream | null>(null);
+
+    const remoteAnalyserRef = useRef<Record<string, AnalyserNode | null>>({});
+    const remoteSourceRef = useRef<Record<string, MediaStreamAudioSourceNode | null>>({});
+    const remoteLevelRef = useRef<Record<string, number>>({});
+    // positioned output per remote voice (the <audio> elements stay muted once this exists)
+    const remoteVoiceRef = useRef<Record<string, SpatialVoice | null>>({});
+    const [audioOutput, setAudioOutput] = useState<AudioOutputMode>(loadAudioOutputMode);
+    const audioOutputRef = useRef(audioOutput);
+
+    // video: each call has one video track (placeholder, camera or screen), swapped in place
+    const camStreamRef = useRef<MediaStream | null>(null);
+    const screenStreamRef = useRef<MediaStream | null>(null);
+    const placeholderVideoRef = useRef<MediaStreamTrack | null>(null);
+    /** Track last handed to each call's video sender (null while the peer is out of earshot) */
+    const videoSentRef = useRef(new WeakMap<RTCRtpSender, MediaStreamTrack | null>());
+    const [camOn, setCamOn] = useState(false);
+    const [screenOn, setScreenOn] = useState(false);
+    const avStateRef = useRef<Record<string, { cam: boolean; screen: boolean }>>({});
+    const remoteVideoStreamRef = useRef<Record<string, MediaStream | null>>({});
+    const audibleNowRef = useRef<Record<string, boolean>>({});
+    const videoLayerRef = useRef<HTMLDivElement | null>(null);
+    const videoBubblesRef = useRef<Record<string, { wrap: HTMLDivElement; video: HTMLVideoElement } | null>>({});
+    const [screenSharers, setScreenSharers] = useState<string[]>([]);
+    const screenSharersKeyRef = useRef('');
+    const [stagePeer, setStagePeer] = useState<string | null>(null);
+    const [stageHidden, setStageHidden] = useState(false);
+    const stageVideoRef = useRef<HTMLVideoElement | null>(null);
+
+    const localAnalyserRef = useRef<AnalyserNode | null>(null);
+    const localSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+    const localLevelRef = useRef(0);
+
+    /** speaking VAD */
+    const speakingRef = useRef<Record<string, boolean>>({});
+    const lastLoudAtRef = useRef<Record<string, number>>({});
+    const lastLoudAtSelfRef = useRef<number>(0);
+    const talkBlinkRef = useRef<Record<string, boolean>>({});
+    const lastBlinkAtRef = useRef<Record<string, number>>({});
+
+    /** AudioContext helper */
+    const ensureAudioCtx = useCallback(() => {
+        if (!audioCtxRef.current) {
+            const AC = (window as any).AudioContext || (window as any).webkitAudioContext;
+            audioCtxRef.current = new AC();
+        }
+        return audioCtxRef.current!;
+    }, []);
+
+    /** Create a truly silent outbound stream (so we can be recvonly/bi-dir even if mic never on) */
+    const ensureSilentOut = (): MediaStream | null => {
+        try {
+            if (silentOutRef.current) return silentOutRef.current;
+            const ctx = ensureAudioCtx();
+            const src = (ctx as any).createConstantSource ? (ctx as any).createConstantSource() : ctx.createOscillator();
+            const gain = ctx.createGain();
+            const dest = ctx.createMediaStreamDestination();
+            gain.gain.value = 0;
+            src.connect(gain).connect(dest);
+            src.start?.();
+            silentOutRef.current = dest.stream;
+            return silentOutRef.current;
+        } catch {
+            return null;
+        }
+    };
+
+    /** Black 1 fps track holding the video slot open, so camera/screen can be swapped in later */
+    const ensurePlaceholderVideo = (): MediaStreamTrack | null => {
+        const cur = placeholderVideoRef.current;
+        if (cur && cur.readyState === 'live') return cur;
+        try {
+            const cvs = document.createElement('canvas');
+            cvs.width = 16; cvs.height = 12;
+            cvs.getContext('2d')?.fillRect(0, 0, cvs.width, cvs.height);
+            const track = (cvs as any).captureStream?.(1)?.getVideoTracks?.()[0] as MediaStreamTrack | undefined;
+            if (!track) return null;
+            track.enabled = false;
+            placeholderVideoRef.current = track;
+            return track;
+        } catch {
+            return null;
+        }
+    };
+
+    /** Screen share wins over camera; otherwise the placeholder */
+    const outboundVideoTrack = (): MediaStreamTrack | null => {
+        const live = (s: MediaStream | null) => s?.getVideoTracks().find((t) => t.readyState === 'live') ?? null;
+        return live(screenStreamRef.current) ?? live(camStreamRef.current) ?? ensurePlaceholderVideo();
+    };
+
+    /** Outbound stream policy:
+     *  - if mic ON -> real mic
+     *  - else      -> silent stream
+     *  - plus the video slot for peers that negotiated video
+     */
+    const getOutboundStream = (withVideo = false): MediaStream | null => {
+        const audio = micOnRef.current && localStreamRef.current ? localStreamRef.current : ensureSilentOut();
+        if (!withVideo || !audio) return audio;
+        const video = outboundVideoTrack();
+        return video ? new MediaStream([...audio.getAudioTracks(), video]) : audio;
+    };
+    const peerHas = (remotePeerId: string, cap: Capability) => !!peerProtoRef.current.get(remotePeerId)?.caps.has(cap);
+
+    /** VAD helpers */
+    const computeLevel = (an: AnalyserNode | null) => {
+        if (!an) return 0;
+        const buf = new Float32Array(an.fftSize);
+        try {
+            an.getFloatTimeDomainData(buf);
+            let sum = 0;
+            for (let i = 0; i < buf.length; i++) sum += buf[i] * buf[i];
+            return Math.sqrt(sum / buf.length);
+        } catch { return 0; }
+    };
+
+    const attachLocalAnalyser = (stream: MediaStream) => {
+        try {
+            const ctx = ensureAudioCtx();
+            detachLocalAnalyser();
+            const src = ctx.createMediaStreamSource(stream);
+            const an = ctx.createAnalyser();
+            an.fftSize = 512;
+            src.connect(an);
+            localSourceRef.current = src;
+            localAnalyserRef.current = an;
+        } catch { }
+    };
+
+    const detachLocalAnalyser = () => {
+        try { localSourceRef.current?.disconnect(); } catch { }
+        localSourceRef.current = null;
+        localAnalyserRef.current = null;
+        localLevelRef.current = 0;
+    };
+
+    const attachRemoteAnalyser = (pid: string, stream: MediaStream) => {
+        try {
+            const ctx = ensureAudioCtx();
+            try { remoteSourceRef.current[pid]?.disconnect(); } catch { }
+            const src = ctx.createMediaStreamSource(stream);
+            const an = ctx.createAnalyser();
+            an.fftSize = 512;
+            src.connect(an);
+            remoteSourceRef.current[pid] = src;
+            remoteAnalyserRef.current[pid] = an;
+            releaseRemoteVoice(pid);
+            try {
+                remoteVoiceRef.current[pid] = createSpatialVoice(ctx, src, audioOutputRef.current);
+            } catch (e) {
+                // no panner support: fall back to element volume
+                log(`spatial audio unavailable: ${String((e as any)?.message || e)}`);
+            }
+        } catch {
+            remoteSourceRef.current[pid] = null;
+            remoteAnalyserRef.current[pid] = null;
+        }
+    };
+
+    const releaseRemoteVoice = (pid: string) => {
+        remoteVoiceRef.current[pid]?.dispose();
+        remoteVoiceRef.current[pid] = null;
+    };
+
+    const onChangeAudioOutput = (mode: AudioOutputMode) => {
+        audioOutputRef.current = mode;
+        setAudioOutput(mode);
+        saveAudioOutputMode(mode);
+        for (const v of Object.values(remoteVoiceRef.current)) v?.setMode(mode);
+    };
+
+    /** Device list, read again whenever a device comes or goes */
+    useEffect(() => {
+        const refreshMics = async () => {
+            try {
+                const list = await navigator.mediaDevices.enumerateDevices();
+                const ins = list.filter((d) => d.kind === 'audioinput');
+                setMics(ins);
+                if (ins[0]?.deviceId) setSelectedMicId((cur) => cur || ins[0].deviceId);
+            } catch { }
+        };
+        void refreshMics();
+        const onDev = () => void refreshMics();
+        navigator.mediaDevices?.addEventListener?.('devicechange', onDev);
+        return () => navigator.mediaDevices?.removeEventListener?.('devicechange', onDev);
+    }, []);
+
+
+    /** Acquire/close mic */
+    const acquireMic = async (deviceId?: string) => {
+        try {
+            const constraints: MediaStreamConstraints = {
+                audio: {
+                    deviceId: deviceId ? { exact: deviceId } : undefined,
+                    echoCancellation: true,
+                    noiseSuppression: true,
+                    autoGainControl: true,
+                } as MediaTrackConstraints,
+            };
+            const stream = await navigator.mediaDevices.getUserMedia(constraints);
+            stream.getAudioTracks().forEach(t => {
+                t.onended = () => {
+                    micOnRef.current = false; setMicOn(false);
+                    refreshCallsAfterMicChange();
+                };
+            });
+            localStreamRef.current = stream;
+            attachLocalAnalyser(stream);
+            return stream;
+        } catch {
+            return null;
+        }
+    };
+
+    const closeMic = () => {
+        try { localStreamRef.current?.getTracks().forEach((t) => t.stop()); } catch { }
+        localStreamRef.current = null;
+        detachLocalAnalyser();
+    };
+
+    /** Try playing every remote audio (for autoplay unlock) */
+    const tryPlayAllRemote = useCallback(() => {
+        for (const el of Object.values(remoteAudiosRef.current)) {
+            try { el?.play?.().catch(() => { }); } catch { }
+        }
+    }, []);
+
+    /** call this after any mic state change (on/off/apply device) */
+    const refreshCallsAfterMicChange = () => {
+        sessionRef.current?.broadcast(GAME_LABEL, { t: 'media-refresh', why: micOnRef.current ? 'mic-on' : 'mic-off' } as Msg);
+        for (const [rid, call] of [...mediaConnsRef.current]) {
+            // relay calls keep their slots; the track swap below covers our side
+            if (isRelayCall(call)) continue;
+            try { call.close(); } catch { }
+            mediaConnsRef.current.delete(rid);
+        }
+        const out = getOutboundStream();
+        if (!out) return;
+        swapOutboundTrackForAll(out);
+        setTimeout(() => {
+            for (const rid of linkedPeers()) startMediaCall(rid);
+        }, 120);
+    };
+
+    /** Replace sender track on existing RTCPeerConnections without full reneg */
+    const swapOutboundTrackForAll = (stream: MediaStream | null) => {
+        const track = stream?.getAudioTracks?.()[0] || null;
+        for (const [, call] of mediaConnsRef.current) {
+            if (relayCallsOutRef.current.has(call)) continue;
+            const pc: RTCPeerConnection | undefined = call?.peerConnection;
+            const sender = pc?.getSenders().find(s => s.track && s.track.kind === 'audio');
+            if (sender) {
+                sender.replaceTrack(track).catch(() => { });
+            }
+        }
+        // as the relay, our mic is one of the forwarded sources
+        forwardRelay();
+    };
+
+    /**
+     * Same for the video slot, per peer: only peers in earshot (zones included)
+     * get our camera or screen, the rest an empty sender. Runs every frame from
+     * updateAudioZones; calls set up without video have no video transceiver.
+     */
+    const swapOutboundVideoForAll = () => {
+        const me = meRef.current;
+        const meTile = centerTileOf(me.x, me.y);
+        const track = outboundVideoTrack();
+        for (const [rid, call] of mediaConnsRef.current) {
+            const pc: RTCPeerConnection | undefined = call?.peerConnection;
+            const sender = pc?.getTransceivers().find((t) => t.receiver.track?.kind === 'video')?.sender;
+            if (!sender) continue;
+            const p = othersRef.current[rid];
+            const pTile = p ? centerTileOf(p.x, p.y) : null;
+            const want = pTile && calcAudibility(meTile.col, meTile.row, pTile.col, pTile.row).audible ? track : null;
+            // replaceTrack settles later; don't ask again every frame
+            const sent = videoSentRef.current;
+            if (sent.has(sender) && sent.get(sender) === want) continue;
+            sent.set(sender, want);
+            sender.replaceTrack(want).catch(() => { sent.delete(sender); });
+        }
+    };
+
+    const avState = (): AvMsg => ({ t: 'av', cam: !!camStreamRef.current, screen: !!screenStreamRef.current });
+
+    /** ===== Camera & screen share ===== */
+    const onToggleCam = async () => {
+        if (camStreamRef.current) { stopCam(); return; }
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({
+                video: { width: { ideal: 320 }, height: { ideal: 240 }, frameRate: { ideal: 15 } },
+            });
+            stream.getVideoTracks().forEach((t) => { t.onended = () => stopCam(); });
+            camStreamRef.current = stream;
+            setCamOn(true);
+            ensureVideoBubble(myPeerId, stream, true);
+            swapOutboundVideoForAll();
+            broadcastMsg(avState());
+        } catch (e) {
+            log(`camera unavailable: ${String((e as any)?.message || e)}`);
+        }
+    };
+
+    const stopCam = () => {
+        try { camStreamRef.current?.getTracks().forEach((t) => t.stop()); } catch { }
+        camStreamRef.current = null;
+        setCamOn(false);
+        removeVideoBubble(myPeerId);
+        swapOutboundVideoForAll();
+        broadcastMsg(avState());
+    };
+
+    const onToggleScreen = async () => {
+        if (screenStreamRef.current) { stopScreen(); return; }
+        try {
+            const stream = await navigator.mediaDevices.getDisplayMedia({ video: { frameRate: { ideal: 10 } }, audio: false });
+            const track = stream.getVideoTracks()[0];
+            if (!track) return;
+            try { track.contentHint = 'detail'; } catch { }
+            // the browser's own "Stop sharing" bar
+            track.onended = () => stopScreen();
+            screenStreamRef.current = stream;
+            setScreenOn(true);
+            swapOutboundVideoForAll();
+            broadcastMsg(avState());
+        } catch (e) {
+            log(`screen share not started: ${String((e as any)?.message || e)}`);
+        }
+    };
+
+    const stopScreen = () => {
+        try { screenStreamRef.current?.getTracks().forEach((t) => t.stop()); } catch { }
+        screenStreamRef.current = null;
+        setScreenOn(false);
+        swapOutboundVideoForAll();
+        broadcastMsg(avState());
+    };
+
+    /** Small video bubble that the render loop keeps above an avatar */
+    const ensureVideoBubble = (pid: string, stream: MediaStream, mirror: boolean) => {
+        let b = videoBubblesRef.current[pid];
+        if (!b) {
+            const wrap = document.createElement('div');
+            wrap.className = 'absolute left-0 top-0 rounded-xl overflow-hidden border-2 border-white/70 bg-black shadow-lg';
+            wrap.style.width = `${VIDEO_BUBBLE_W}px`;
+            wrap.style.height = `${VIDEO_BUBBLE_H}px`;
+            wrap.style.display = 'none';
+            const video = document.createElement('video');
+            video.autoplay = true;
+            video.muted = true;
+            video.playsInline = true;
+            video.className = 'w-full h-full object-cover';
+            wrap.appendChild(video);
+            videoLayerRef.current?.appendChild(wrap);
+            b = { wrap, video };
+            videoBubblesRef.current[pid] = b;
+        }
+        if (b.video.srcObject !== stream) b.video.srcObject = stream;
+        b.video.style.transform = mirror ? 'scaleX(-1)' : '';
+        b.video.play?.().catch(() => { });
+        return b;
+    };
+
+    const removeVideoBubble = (pid: string) => {
+        const b = videoBubblesRef.current[pid];
+        if (!b) return;
+        try { b.video.srcObject = null; b.wrap.remove(); } catch { }
+        videoBubblesRef.current[pid] = null;
+    };
+
+    const attachRemoteVideo = (pid: string, stream: MediaStream) => {
+        const track = stream.getVideoTracks()[0];
+        if (!track) return;
+        const vs = new MediaStream([track]);
+        remoteVideoStreamRef.current[pid] = vs;
+        ensureVideoBubble(pid, vs, false);
+    };
+
+    const releaseRemoteVideo = (pid: string) => {
+        remoteVideoStreamRef.current[pid] = null;
+        removeVideoBubble(pid);
+    };
+
+    /** Called from the render loop with the avatar's on-screen head position */
+    const placeVideoBubble = (pid: string, cx: number, top: number) => {
+        const b = videoBubblesRef.current[pid];
+        if (!b) return;
+        const av = pid === myPeerId ? avState() : avStateRef.current[pid];
+        // same earshot rules as voice; a screen share goes to the stage instead
+        const show = !!av?.cam && !av.screen && (pid === myPeerId || !!audibleNowRef.current[pid]);
+        if (!show) {
+            if (b.wrap.style.display !== 'none') b.wrap.style.display = 'none';
+            return;
+        }
+        b.wrap.style.display = 'block';
+        b.wrap.style.transform = `translate(${Math.round(cx - VIDEO_BUBBLE_W / 2)}px, ${Math.round(top - VIDEO_BUBBLE_H - 24)}px)`;
+    };
+
+    /** Toggle Mic main button */
+    const onToggleMic = async () => {
+        await ensureAudioCtx()?.resume().catch(() => { });
+        if (!micOnRef.current) {
+            const stream = await acquireMic(selectedMicId || undefined);
+            if (!stream) return;
+            micOnRef.current = true;
+            setMicOn(true);
+            swapOutboundTrackForAll(stream);
+            sessionRef.current?.broadcast(GAME_LABEL, { t: 'media-refresh', why: 'mic-on' } as Msg);
+        } else {
+            micOnRef.current = false;
+            setMicOn(false);
+            const silent = ensureSilentOut();
+            swapOutboundTrackForAll(silent);
+            closeMic();
+            sessionRef.current?.broadcast(GAME_LABEL, { t: 'media-refresh', why: 'mic-off' } as Msg);
+        }
+    };
+
+    /** Apply device in settings */
+    const onApplyMic = async () => {
+        await ensureAudioCtx()?.resume().catch(() => { });
+        closeMic();
+        const stream = await acquireMic(selectedMicId || undefined);
+        if (!stream) return;
+        micOnRef.current = true;
+        setMicOn(true);
+        refreshCallsAfterMicChange();
+    };
+
+
+    /** Auto-update VAD & mouth blink */
+    useEffect(() => {
+        const timer = window.setInterval(() => {
+            const now = performance.now();
+
+            // local
+            const lvlSelf = computeLevel(localAnalyserRef.current);
+            if (lvlSelf > SPK_THRESHOLD) lastLoudAtSelfRef.current = now;
+            speakingRef.current[myPeerId] = (now - lastLoudAtSelfRef.current) < VAD_HOLD_MS;
+
+            // remotes
+            Object.keys(remoteAnalyserRef.current).forEach(pid => {
+                const an = remoteAnalyserRef.current[pid];
+                const lvl = computeLevel(an || null);
+                if (lvl > SPK_THRESHOLD) lastLoudAtRef.current[pid] = now;
+                const speakingNow = (now - (lastLoudAtRef.current[pid] || 0)) < VAD_HOLD_MS;
+                speakingRef.current[pid] = speakingNow;
+
+                if (speakingNow) {
+                    if (!lastBlinkAtRef.current[pid] || now - lastBlinkAtRef.current[pid] >= BLINK_MS) {
+                        talkBlinkRef.current[pid] = !talkBlinkRef.current[pid];
+                        lastBlinkAtRef.current[pid] = now;
+                    }
+                } else {
+                    talkBlinkRef.current[pid] = false;
+                }
+            });
+        }, 150);
+        return () => window.clearInterval(timer);
+    }, [myPeerId]);
+
+
+    /** Older clients keep a full mesh; everyone else only calls peers in (or near) earshot */
+    const mediaWanted = (remotePeerId: string) =>
+        !peerProtoRef.current.get(remotePeerId)?.caps.has('gossip') || opts.mediaPeers().has(remotePeerId);
+
+    const relayOf = () => {
+        const d = relayModeRef.current.last;
+        return d.mode === 'relay' ? d.relay : null;
+    };
+    const isRelayCall = (call: MediaLink) => call.metadata?.kind === 'relay-audio';
+    const audioTransceiversOf = (call: MediaLink | undefined): RTCRtpTransceiver[] => {
+        const pc: RTCPeerConnection | undefined = call?.peerConnection;
+        return pc?.getTransceivers().filter((t) => t.receiver.track?.kind === 'audio') ?? [];
+    };
+
+    /** Whether an existing call still fits the current mode */
+    const callWanted = (remotePeerId: string, call: MediaLink) => {
+        const relay = relayOf();
+        const relayed = relay !== null && peerHas(remotePeerId, 'relay');
+        if (isRelayCall(call)) return relayed && (relay === myPeerId || remotePeerId === relay);
+        return !relayed && mediaWanted(remotePeerId);
+    };
+
+    /** Start/answer media calls */
+    const startMediaCall = (remotePeerId: string) => {
+        const session = sessionRef.current; if (!session) return;
+        if (mediaConnsRef.current.has(remotePeerId)) return;
+        const relay = relayOf();
+        if (relay && peerHas(remotePeerId, 'relay')) {
+            // relay mode: only the relay places calls, one per listener
+            if (relay === myPeerId) startRelayCall(remotePeerId);
+            return;
+        }
+        if (!mediaWanted(remotePeerId)) return;
+
+        const out = getOutboundStream(peerHas(remotePeerId, 'video'));
+        if (!out) return;
+
+        const call = session.call(remotePeerId, out, { kind: 'proximity-audio' });
+        if (!call) return;
+        hookMediaConn(remotePeerId, call, true);
+    };
+
+    /** Relay → listener call: our mic comes back up on slot 0, the slots go down */
+    const startRelayCall = (remotePeerId: string) => {
+        const session = sessionRef.current; if (!session) return;
+        const silent = ensureSilentOut()?.getAudioTracks()[0];
+        if (!silent) return;
+        const slots = new MediaStream(Array.from({ length: RELAY_SLOTS }, () => silent.clone()));
+
+        const call = session.call(remotePeerId, slots, { kind: 'relay-audio' });
+        if (!call) return;
+        relayCallsOutRef.current.add(call);
+        hookMediaConn(remotePeerId, call, true);
+    };
+
+    /** What we forward for a source: our own mic, or what a listener sends up its relay call */
+    const relaySourceTrack = (pid: string): MediaStreamTrack | null => {
+        if (pid === myPeerId) return micOnRef.current ? localStreamRef.current?.getAudioTracks()[0] ?? null : null;
+        return audioTransceiversOf(mediaConnsRef.current.get(pid))[0]?.receiver.track ?? null;
+    };
+
+    /** Relay side: fill every listener's slots with the closest sources they can hear */
+    const forwardRelay = () => {
+        if (relayOf() !== myPeerId) return;
+        const listeners = [...mediaConnsRef.current].filter(([, call]) => relayCallsOutRef.current.has(call));
+        const sources = [myPeerId, ...listeners.map(([pid]) => pid)];
+        for (const [lid, call] of listeners) {
+            const prev = relaySlotsRef.current.get(lid);
+            const { slots, changed } = assignSlots(prev?.slots ?? [], pickSources(lid, sources, tileOfPeer, mediaInRange));
+            const tr = audioTransceiversOf(call);
+            slots.forEach((pid, i) => {
+                const track = pid ? relaySourceTrack(pid) : null;
+                const sender = tr[i]?.sender;
+                if (sender && sender.track !== track) sender.replaceTrack(track).catch(() => { });
+            });
+            const sent = !changed && prev?.sent ? true : sendMsg(lid, { t: 'relay-slots', s: slots });
+            relaySlotsRef.current.set(lid, { slots, sent });
+        }
+    };
+
+    /** Listener side: give each slot's source its own voice, drop the ones that left */
+    const applyRelaySlots = () => {
+        const inb = relayInRef.current;
+        const call = inb ? mediaConnsRef.current.get(inb.relay) : undefined;
+        const tracks = call && isRelayCall(call) ? audioTransceiversOf(call).map((t) => t.receiver.track) : [];
+        const fed = new Set<string>();
+        inb?.slots.forEach((pid, i) => {
+            const track = tracks[i];
+            if (!pid || !track || pid === myPeerId) return;
+            fed.add(pid);
+            if (relayFeedsRef.current.get(pid) === track) return;
+            relayFeedsRef.current.set(pid, track);
+            playRemoteVoice(pid, new MediaStream([track]));
+        });
+        for (const pid of [...relayFeedsRef.current.keys()]) {
+            if (fed.has(pid)) continue;
+            relayFeedsRef.current.delete(pid);
+            if (!mediaConnsRef.current.has(pid)) stopRemoteVoice(pid);
+        }
+    };
+
+    const answerMediaCall = (remotePeerId: string, call: MediaLink) => {
+        const out = getOutboundStream(!isRelayCall(call) && peerHas(remotePeerId, 'video'));
+        try {
+            if (out) call.answer(out); else call.answer();
+        } catch (e) {
+            log(`answer error ${pretty(remotePeerId)}: ${String((e as any)?.message || e)}`);
+        }
+        hookMediaConn(remotePeerId, call, false);
+    };
+
+    /**
+     * Calls we placed restart ICE when they drop instead of hanging up; given
+     * up on, they're closed and the close handler calls again. Answered calls
+     * wait for the caller's restart (or fail and close on their own).
+     */
+    const watchPeerConn = (remotePeerId: string, call: MediaLink, placed: boolean) => {
+        if (!placed) return;
+        guardLink(call, {
+            canSignal: () => sessionRef.current?.state === 'open',
+            onState: (state, restarts) => {
+                if (mediaConnsRef.current.get(remotePeerId) !== call) return;
+                if (state === 'interrupted') log(`PC(${pretty(remotePeerId)}) interrupted`);
+                else if (state === 'restarting') log(`PC(${pretty(remotePeerId)}) ICE restart #${restarts}`);
+                else if (state === 'recovered') log(`PC(${pretty(remotePeerId)}) back after ${restarts} restart(s)`);
+                else {
+                    log(`PC(${pretty(remotePeerId)}) lost, calling again...`);
+                    try { call.close(); } catch { }
+                }
+            },
+        });
+    };
+
+    /** Volume attenuation by zone & distance */
+    const calcAudibility = (meTx: number, meTy: number, pTx: number, pTy: number) => {
+        const myRule = audioRuleAt(meTx, meTy);
+        const hisRule = audioRuleAt(pTx, pTy);
+
+        if (myRule.kind === 'room') {
+            const same = hisRule.kind === 'room' && hisRule.zoneId === myRule.zoneId;
+            return { audible: same, vol: same ? 1 : 0 };
+        }
+
+        if (hisRule.kind === 'room') return { audible: false, vol: 0 };
+
+        const R = myRule.kind === 'radius' ? myRule.radius : DEFAULT_AUDIO_RADIUS_TILES;
+        const d = Math.max(Math.abs(pTx - meTx), Math.abs(pTy - meTy));
+        if (d > R) return { audible: false, vol: 0 };
+
+        const t = Math.min(1, d / Math.max(1, R));
+        const vol = clamp(1 - t * t * 0.85, 0.18, 1);
+        return { audible: true, vol };
+    };
+
+    /** Voice output for a peer: a muted element keeps the stream flowing, WebAudio does the rest */
+    const playRemoteVoice = (pid: string, stream: MediaStream) => {
+        let el = remoteAudiosRef.current[pid];
+        if (!el) {
+            el = document.createElement('audio');
+            el.autoplay = true;
+            (el as any).playsInline = true;
+            el.muted = true;
+            el.volume = 1;
+            document.body.appendChild(el);
+            remoteAudiosRef.current[pid] = el;
+        }
+
+        el.srcObject = stream;
+        attachRemoteAnalyser(pid, stream);
+        el.play?.().catch(() => { });
+
+        try {
+            const me = meRef.current;
+            placeRemoteAudio(pid, centerTileOf(me.x, me.y));
+        } catch { }
+
+        tryPlayAllRemote();
+    };
+
+    const stopRemoteVoice = (pid: string) => {
+        const el = remoteAudiosRef.current[pid];
+        try { el?.pause(); if (el) (el as any).srcObject = null; el?.remove(); } catch { }
+        remoteAudiosRef.current[pid] = null;
+
+        try { remoteSourceRef.current[pid]?.disconnect(); } catch { }
+        releaseRemoteVoice(pid);
+        remoteSourceRef.current[pid] = null;
+        remoteAnalyserRef.current[pid] = null;
+        remoteLevelRef.current[pid] = 0;
+    };
+
+    /** Attach/maintain MediaLink */
+    const hookMediaConn = (remotePeerId: string, call: MediaLink, placed: boolean) => {
+        const old = mediaConnsRef.current.get(remotePeerId);
+        if (old && old !== call) {
+            try { old.close(); } catch { }
+            mediaConnsRef.current.delete(remotePeerId);
+        }
+        mediaConnsRef.current.set(remotePeerId, call);
+        watchPeerConn(remotePeerId, call, placed);
+
+        const asRelay = relayCallsOutRef.current.has(call);
+        const asListener = isRelayCall(call) && !asRelay;
+
+        call.on('stream', (remoteStream) => {
+            if (asListener) {
+                // slots only mean something once the relay says who is in them
+                applyRelaySlots();
+                return;
+            }
+            if (asRelay) {
+                // the listener's mic rides up on slot 0
+                const up = audioTransceiversOf(call)[0]?.receiver.track;
+                if (up) playRemoteVoice(remotePeerId, new MediaStream([up]));
+                forwardRelay();
+                return;
+            }
+            playRemoteVoice(remotePeerId, remoteStream);
+            attachRemoteVideo(remotePeerId, remoteStream);
+        });
+
+        call.on('close', () => {
+            // superseded by a newer call to the same peer
+            const current = mediaConnsRef.current.get(remotePeerId);
+            if (current && current !== call) return;
+            mediaConnsRef.current.delete(remotePeerId);
+
+            if (asListener) {
+                if (relayInRef.current?.relay === remotePeerId) relayInRef.current = null;
+                applyRelaySlots();
+            }
+            if (asRelay) {
+                relayCallsOutRef.current.delete(call);
+                relaySlotsRef.current.delete(remotePeerId);
+                try { call.localStream?.getTracks().forEach((t) => t.stop()); } catch { }
+            }
+            if (!relayFeedsRef.current.has(remotePeerId)) stopRemoteVoice(remotePeerId);
+            releaseRemoteVideo(remotePeerId);
+
+            setTimeout(() => {
+                if (!mediaConnsRef.current.has(remotePeerId)) startMediaCall(remotePeerId);
+            }, 220);
+        });
+
+        call.on('error', (e) => {
+            log(`audio error ${pretty(remotePeerId)}: ${String((e as any)?.message || e)}`);
+        });
+    };
+
+    /** Live mic level meter (only while panel open) */
+    const [micLevel, setMicLevel] = useState(0);
+    useEffect(() => {
+        let raf = 0;
+        const loop = () => {
+            if (meterOn) {
+                setMicLevel(computeLevel(localAnalyserRef.current));
+                raf = requestAnimationFrame(loop);
+            }
+        };
+        if (meterOn) raf = requestAnimationFrame(loop);
+        return () => cancelAnimationFrame(raf);
+    }, [meterOn]);
+
+
+    /** ===== Proximity gating + attenuation (called every frame) ===== */
+    const placeRemoteAudio = (rid: string, meTile: { col: number; row: number }) => {
+        const el = remoteAudiosRef.current[rid];
+        if (!el) return;
+
+        const p = othersRef.current[rid];
+        const forceMute = !!remoteUserMutedRef.current[rid];
+        const voice = remoteVoiceRef.current[rid];
+
+        let shouldPlay = false;
+        let vol = 0;
+        let pTile = meTile;
+        if (p) {
+            pTile = centerTileOf(p.x, p.y);
+            const a = calcAudibility(meTile.col, meTile.row, pTile.col, pTile.row);
+            shouldPlay = a.audible && !forceMute;
+            vol = a.vol;
+        }
+        audibleNowRef.current[rid] = !!p && shouldPlay;
+
+        if (voice) {
+            // WebAudio does the output; the element only keeps the stream flowing
+            if (!el.muted) el.muted = true;
+            const me = meRef.current;
+            voice.place({
+                dx: p ? (p.x - me.x) / TILE : 0,
+                dy: p ? (p.y - me.y) / TILE : 0,
+                volume: shouldPlay ? vol : 0,
+                walls: shouldPlay ? wallsBetween(meTile, pTile, isSolidTile) : 0,
+            });
+            return;
+        }
+
+        if (shouldPlay) {
+            if (el.muted) {
+                el.muted = false;
+                el.play?.().catch(() => { });
+            }
+            el.volume = vol;
+        } else {
+            if (!el.muted) el.muted = true;
+            el.volume = 0;
+        }
+    };
+
+    const updateAudioZones = () => {
+        const me = meRef.current;
+        const meTile = centerTileOf(me.x, me.y);
+        for (const rid of Object.keys(remoteAudiosRef.current)) placeRemoteAudio(rid, meTile);
+        swapOutboundVideoForAll();
+
+        // screen shares follow earshot too; only re-render when the set changes
+        const sharers = Object.keys(remoteVideoStreamRef.current).filter((rid) =>
+            !!remoteVideoStreamRef.current[rid] && !!avStateRef.current[rid]?.screen && !!audibleNowRef.current[rid]);
+        const key = sharers.join('|');
+        if (key !== screenSharersKeyRef.current) {
+            screenSharersKeyRef.current = key;
+            setScreenSharers(sharers);
+        }
+    };
+
+    /** Stage shows the picked sharer, else the first one in earshot */
+    const stageSharer = stagePeer && screenSharers.includes(stagePeer) ? stagePeer : screenSharers[0] ?? null;
+    useEffect(() => {
+        if (!stageSharer) setStageHidden(false);
+        const v = stageVideoRef.current;
+        if (!v) return;
+        const stream = stageSharer ? remoteVideoStreamRef.current[stageSharer] ?? null : null;
+        if (v.srcObject !== stream) v.srcObject = stream;
+        if (stream) v.play?.().catch(() => { });
+    }, [stageSharer, stageHidden]);
+
+    /** Public util */
+    const setPeerMuted = (peerId: string, muted: boolean) => {
+        remoteUserMutedRef.current[peerId] = muted;
+        const el = remoteAudiosRef.current[peerId];
+        if (el) el.muted = muted || el.muted;
+    };
+
+    /** Relay mode on or off for `members` (gossip says who volunteers); returns the relay, if any */
+    const decideRelay = (members: Iterable<string>, flagsOf: RelayInput['flagsOf']) => {
+        const prevRelay = relayOf();
+        relayModeRef.current.decide({ self: myPeerId, members, flagsOf });
+        const relay = relayOf();
+        if (relay !== prevRelay) {
+            log(relay ? `relay: voices now go through ${relay === myPeerId ? 'us' : pretty(relay)}` : 'relay: back to direct calls');
+            relaySlotsRef.current.clear();
+            setRelayPeer(relay);
+            // relay calls are audio only
+            if (relay) {
+                if (camStreamRef.current) stopCam();
+                if (screenStreamRef.current) stopScreen();
+            }
+        }
+        return relay;
+    };
+
+    /** Call whoever in `wanted` has an open channel, hang up calls the current mode doesn't want */
+    const reconcileCalls = (wanted: Iterable<string>) => {
+        const session = sessionRef.current;
+        if (!session) return;
+        for (const rid of wanted) {
+            if (session.isOpen(rid)) startMediaCall(rid);
+        }
+        const relay = relayOf();
+        for (const [rid, call] of [...mediaConnsRef.current]) {
+            if (callWanted(rid, call)) continue;
+            log(`interest: hanging up ${pretty(rid)} (${relay || isRelayCall(call) ? 'relay mode changed' : 'out of earshot'})`);
+            mediaConnsRef.current.delete(rid);
+            try { call.close(); } catch { }
+        }
+        forwardRelay();
+    };
+
+    /** Their hello came in: tell them what we're showing and call if they're wanted */
+    const greetPeer = (remotePeerId: string) => {
+        if (camStreamRef.current || screenStreamRef.current) sendMsg(remotePeerId, avState());
+        startMediaCall(remotePeerId);
+    };
+
+    /** Their game channel closed: the call goes with it */
+    const dropPeerMedia = (remotePeerId: string) => {
+        try { mediaConnsRef.current.get(remotePeerId)?.close(); } catch { }
+        mediaConnsRef.current.delete(remotePeerId);
+        // in relay mode their voice comes through the relay, not this link
+        if (!relayFeedsRef.current.has(remotePeerId)) stopRemoteVoice(remotePeerId);
+        releaseRemoteVideo(remotePeerId);
+        delete avStateRef.current[remotePeerId];
+    };
+
+    /** Leaving: every call, device and audio node goes */
+    const stopMedia = () => {
+        for (const [, mc] of mediaConnsRef.current) { try { mc.close(); } catch { } }
+        mediaConnsRef.current.clear();
+        relayCallsOutRef.current.clear();
+        relaySlotsRef.current.clear();
+        relayInRef.current = null;
+        relayFeedsRef.current.clear();
+        relayModeRef.current = createRelayMode();
+        setRelayPeer(null);
+
+        for (const k of Object.keys(remoteAudiosRef.current)) {
+            const el = remoteAudiosRef.current[k];
+            try { el?.pause(); if (el) (el as any).srcObject = null; el?.remove(); } catch { }
+            remoteAudiosRef.current[k] = null;
+        }
+        closeMic();
+        for (const ref of [camStreamRef, screenStreamRef]) {
+            try { ref.current?.getTracks().forEach((t) => t.stop()); } catch { }
+            ref.current = null;
+        }
+        setCamOn(false);
+        setScreenOn(false);
+        for (const k of Object.keys(videoBubblesRef.current)) removeVideoBubble(k);
+        remoteVideoStreamRef.current = {};
+        avStateRef.current = {};
+
+        try { localSourceRef.current?.disconnect(); } catch { }
+        localSourceRef.current = null;
+        localAnalyserRef.current = null;
+
+        for (const k of Object.keys(remoteSourceRef.current)) {
+            try { remoteSourceRef.current[k]?.disconnect(); } catch { }
+            releaseRemoteVoice(k);
+            remoteSourceRef.current[k] = null;
+            remoteAnalyserRef.current[k] = null;
+        }
+    };
+
+    const handlers: RoomMsgHandlers = {
+        'media-refresh': (pid) => {
+            if (!mediaConnsRef.current.has(pid)) startMediaCall(pid);
+        },
+        av: (pid, m) => {
+            avStateRef.current[pid] = { cam: m.cam, screen: m.screen };
+        },
+        'relay-slots': (pid, m) => {
+            const call = mediaConnsRef.current.get(pid);
+            if (relayOf() !== pid && !(call && isRelayCall(call))) return;
+            relayInRef.current = { relay: pid, slots: m.s.slice(0, RELAY_SLOTS) };
+            applyRelaySlots();
+        },
+    };
+
+    return {
+        mediaConnsRef, relayPeer, relayOf, micOnRef, micOn, setMicOn, mics, selectedMicId, setSelectedMicId, micLevel,
+        audioOutput, camOn, screenOn, videoLayerRef, screenSharers, stageSharer, setStagePeer, stageHidden, setStageHidden, stageVideoRef,
+        localAnalyserRef, localLevelRef, remoteAnalyserRef, remoteLevelRef, speakingRef, talkBlinkRef, lastBlinkAtRef,
+        computeLevel, ensureAudioCtx, ensureSilentOut, acquireMic, tryPlayAllRemote, onChangeAudioOutput,
+        onToggleMic, onApplyMic, onToggleCam, onToggleScreen, stopScreen, placeVideoBubble, updateAudioZones, setPeerMuted,
+        answerMediaCall, decideRelay, reconcileCalls, greetPeer, dropPeerMedia, stopMedia, handlers,
+    };
+};
@@ -0,0 +1,192 @@
+import { useRef, type MutableRefObject } from 'react';
+import type { Channel } from '../lib/net/transport';
+import { pretty } from '../lib/net/peerIds';
+import type { PosMsg, RoomMsg } from '../lib/net/protocol';
+import {
+    createPosBuffer,
+    createPosSender,
+    decodePos,
+    encodePos,
+    openPosChannel,
+    type PosBuffer,
+    type PosPacket,
+} from '../lib/net/positionSync';
+import { TILE } from '../components/world/map';
+import type { RoomMsgHandlers } from './useRoomWire';
+
+/** A direct position stream newer than this wins over gossip */
+const DIRECT_POS_FRESH_MS = 2000;
+/** An avatar keeps walking this long after its last "moving" sample */
+const NET_LAG_GRACE_MS = 220;
+
+export type PosSource = 'binary' | 'json' | 'gossip';
+
+type PlayerPos = { x: number; y: number };
+
+interface UseRoomPositionsOptions {
+    myPeerId: string;
+    meRef: MutableRefObject<PlayerPos>;
+    othersRef: MutableRefObject<Record<string, PlayerPos>>;
+    faceDirRef: MutableRefObject<Record<string, 1 | -1>>;
+    /** Whether we're walking (keys held or a click-to-move path) */
+    isMovingNow: () => boolean;
+    log: (line: string) => void;
+    linkedPeers: () => string[];
+    sendMsg: (peerId: string, msg: RoomMsg) => boolean;
+    noteInvalidMsg: (peerId: string, channel: string, reason: string) => void;
+    /** World size in px, for position checks */
+    bounds: () => { worldW: number; worldH: number };
+}
+
+interface UseRoomPositionsReturn {
+    /** Adaptive rate: ~20 Hz while moving, heartbeats while idle; `force` sends right away */
+    sendPosUpdate: (force?: boolean) => void;
+    /** A peer said hello: open the binary channel if they speak it, and tell them where we are */
+    greetPos: (peerId: string, conn: Channel, binary: boolean) => void;
+    /** Where we are, as JSON on a channel that just opened (before any hello) */
+    sendPosOn: (conn: Channel) => void;
+    /** A position passed on by gossip; a fresh direct stream wins */
+    receiveRelayedPos: (peerId: string, p: PosPacket) => void;
+    /** Forget a peer's position channel and buffer */
+    dropPosSync: (peerId: string) => void;
+    /** Move remote avatars to where their buffers say they were ~100 ms ago */
+    sampleRemotePositions: (nowMs: number) => void;
+    /** Whether a remote avatar should be drawn walking */
+    isRemoteMoving: (peerId: string, nowMs: number) => boolean;
+    handlers: RoomMsgHandlers;
+}
+
+/**
+ * Avatar positions: ours out at an adaptive rate (an unreliable binary
+ * channel per peer, JSON where that isn't open), theirs into a jitter buffer
+ * per peer, from whichever path last fed it.
+ */
+export const useRoomPositions = (opts: UseRoomPositionsOptions): UseRoomPositionsReturn => {
+    const { myPeerId, meRef, othersRef, faceDirRef, isMovingNow, log, linkedPeers, sendMsg, noteInvalidMsg, bounds } = opts;
+
+    const posChannelsRef = useRef<Map<string, RTCDataChannel>>(new Map());
+    const posBuffersRef = useRef<Map<string, { buf: PosBuffer; source: PosSource; jsonSeq: number }>>(new Map());
+    const posSenderRef = useRef(createPosSender());
+    const remoteMovingRef = useRef<Record<string, boolean>>({});
+    const lastPosAtRef = useRef<Record<string, number>>({});
+
+    const ownPos = (): PosMsg => {
+        const { x, y } = meRef.current;
+        return { t: 'pos', x, y, moving: isMovingNow(), face: faceDirRef.current[myPeerId] ?? 1 };
+    };
+
+    const sendPosUpdate = (force = false) => {
+        if (force) posSenderRef.current.force();
+        const moving = isMovingNow();
+        const face = faceDirRef.current[myPeerId] ?? 1;
+        const { x, y } = meRef.current;
+        const packet = posSenderRef.current.poll(performance.now(), { x, y, face, moving });
+        if (!packet) return;
+
+        const bin = encodePos(packet);
+        let json: PosMsg | null = null;
+        for (const pid of linkedPeers()) {
+            const dc = posChannelsRef.current.get(pid);
+            if (dc?.readyState === 'open') {
+                try { dc.send(bin); continue; } catch { }
+            }
+            // peers without the binary channel (older clients, channel still opening)
+            json ||= { t: 'pos', x, y, moving, face };
+            sendMsg(pid, json);
+        }
+    };
+
+    /** Feed a remote position into that peer's jitter buffer */
+    const receivePos = (pid: string, p: PosPacket, source: PosSource) => {
+        const now = performance.now();
+        let slot = posBuffersRef.current.get(pid);
+        // clocks and sequence numbers differ between the paths
+        if (!slot || slot.source !== source) {
+            // relayed positions arrive a few times a second; draw them further back
+            const buf = source === 'gossip' ? createPosBuffer({ delayMs: 700, maxExtrapolateMs: 500 }) : createPosBuffer();
+            slot = { buf, source, jsonSeq: 0 };
+            posBuffersRef.current.set(pid, slot);
+        }
+        slot.buf.push(p, now);
+        lastPosAtRef.current[pid] = now;
+        if (!othersRef.current[pid]) othersRef.current[pid] = { x: p.x, y: p.y };
+    };
+
+    const receiveRelayedPos = (pid: string, p: PosPacket) => {
+        const slot = posBuffersRef.current.get(pid);
+        if (slot && slot.source !== 'gossip' && performance.now() - slot.buf.lastRecvMs < DIRECT_POS_FRESH_MS) return;
+        receivePos(pid, p, 'gossip');
+    };
+
+    const openPosChannelFor = (pid: string, conn: Channel) => {
+        const pc = conn.peerConnection;
+        const prev = posChannelsRef.current.get(pid);
+        if (!pc || prev?.readyState === 'open' || prev?.readyState === 'connecting') return;
+        const dc = openPosChannel(pc);
+        if (!dc) return;
+        dc.onopen = () => log(`DC(pos-u) open ${pretty(pid)}`);
+        dc.onclose = () => {
+            if (posChannelsRef.current.get(pid) === dc) posChannelsRef.current.delete(pid);
+        };
+        dc.onmessage = (e) => {
+            const p = e.data instanceof ArrayBuffer ? decodePos(e.data) : null;
+            if (!p) { noteInvalidMsg(pid, 'pos-u', 'malformed position packet'); return; }
+            const { worldW, worldH } = bounds();
+            if (p.x > worldW + TILE * 8 || p.y > worldH + TILE * 8) {
+                noteInvalidMsg(pid, 'pos-u', 'position out of bounds');
+                return;
+            }
+            receivePos(pid, p, 'binary');
+        };
+        posChannelsRef.current.set(pid, dc);
+    };
+
+    const greetPos = (pid: string, conn: Channel, binary: boolean) => {
+        if (binary) openPosChannelFor(pid, conn);
+        sendPosUpdate(true);
+    };
+
+    const sendPosOn = (conn: Channel) => {
+        try { conn.send(ownPos()); } catch { }
+    };
+
+    const dropPosSync = (pid: string) => {
+        const dc = posChannelsRef.current.get(pid);
+        try { dc?.close(); } catch { }
+        posChannelsRef.current.delete(pid);
+        posBuffersRef.current.delete(pid);
+    };
+
+    const sampleRemotePositions = (nowMs: number) => {
+        for (const [pid, { buf }] of posBuffersRef.current) {
+            const s = buf.sample(nowMs);
+            if (!s) continue;
+            othersRef.current[pid] = { x: s.x, y: s.y };
+            faceDirRef.current[pid] = s.face;
+            remoteMovingRef.current[pid] = s.moving;
+        }
+    };
+
+    const isRemoteMoving = (pid: string, nowMs: number) =>
+        remoteMovingRef.current[pid] === true && nowMs - (lastPosAtRef.current[pid] || 0) < NET_LAG_GRACE_MS;
+
+    const handlers: RoomMsgHandlers = {
+        pos: (remotePeerId, m) => {
+            const slot = posBuffersRef.current.get(remotePeerId);
+            // a stray JSON pos must not reset a working binary stream
+            if (slot?.source === 'binary' && posChannelsRef.current.get(remotePeerId)?.readyState === 'open') return;
+            const seq = slot?.source === 'json' ? ++slot.jsonSeq : 0;
+            receivePos(remotePeerId, {
+                seq,
+                t: performance.now(),
+                x: m.x,
+                y: m.y,
+                face: m.face ?? faceDirRef.current[remotePeerId] ?? 1,
+                moving: !!m.moving,
+                heartbeat: false,
+            }, 'json');
+        },
+    };
+
+    return { sendPosUpdate, greetPos, sendPosOn, receiveRelayedPos, dropPosSync, sampleRemotePositions, isRemoteMoving, handlers };
+};
@@ -0,0 +1,42 @@
+import { useState, useCallback, useEffect, useRef, type MutableRefObject } from 'react';
+import { RoomSession, type SessionState } from '../lib/net/session';
+
+interface UseRoomSessionReturn {
+    /** The live session, for event handlers (null before start / after stop) */
+    sessionRef: MutableRefObject<RoomSession | null>;
+    state: SessionState;
+    /** Open `session` and keep it; false (and nothing kept) if it couldn't register */
+    start: (session: RoomSession) => Promise<boolean>;
+    stop: () => Promise<void>;
+}
+
+export const useRoomSession = (): UseRoomSessionReturn => {
+    const sessionRef = useRef<RoomSession | null>(null);
+    const [state, setState] = useState<SessionState>('idle');
+
+    const start = useCallback(async (session: RoomSession): Promise<boolean> => {
+        const prev = sessionRef.current;
+        sessionRef.current = session;
+        if (prev && prev !== session) await prev.close();
+        session.on('state', (s) => { if (sessionRef.current === session) setState(s); });
+        const ok = await session.open();
+        if (!ok && sessionRef.current === session) {
+            sessionRef.current = null;
+            setState('closed');
+            await session.close();
+        }
+        return ok;
+    }, []);
+
+    const stop = useCallback(async (): Promise<void> => {
+        const session = sessionRef.current;
+        sessionRef.current = null;
+        setState('idle');
+        await session?.close();
+    }, []);
+
+    // unmount without a stop(): don't leave the id registered
+    useEffect(() => () => { void sessionRef.current?.close(); }, []);
+
+    return { sessionRef, state, start, stop };
+};
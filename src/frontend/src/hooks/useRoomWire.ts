@@ -0,0 +1,215 @@
+import { useCallback, useEffect, useRef, useState, type MutableRefObject } from 'react';
+import type { Channel, MediaLink } from '../lib/net/transport';
+import { RoomSession, type SessionState } from '../lib/net/session';
+import { sharedIce } from '../lib/net/ice';
+import { createPeerJsTransport } from '../lib/net/peerjsTransport';
+import { pretty, principalFromPeerId } from '../lib/net/peerIds';
+import { canisterService } from '../services/canisterService';
+import { useRoomSession } from './useRoomSession';
+import {
+    CHAT_LABEL,
+    createInvalidMsgStats,
+    FILE_LABEL,
+    GAME_LABEL,
+    makeHello,
+    negotiate,
+    parseRoomMsg,
+    peerAccepts,
+    V1_PROTOCOL,
+    type PeerProtocol,
+    type RoomMsg,
+} from '../lib/net/protocol';
+
+/** Unanswered dials are dropped (and may be retried) after this long */
+const DIAL_TIMEOUT_MS = 15_000;
+
+/** One handler per message kind; kinds without one are dropped */
+export type RoomMsgHandlers = {
+    [K in RoomMsg['t']]?: (peerId: string, msg: Extract<RoomMsg, { t: K }>, conn: Channel) => void;
+};
+
+export interface RoomWireHandlers {
+    /** Game channel open and our hello sent */
+    open: (peerId: string, conn: Channel) => void;
+    /** Game channel gone (and not replaced by a newer one) */
+    close: (peerId: string) => void;
+    /** Checked messages by kind; `hello` arrives once its protocol is negotiated */
+    msg: RoomMsgHandlers;
+    /** Any other channel opened (chat, files) */
+    channelOpen?: (peerId: string, label: string) => void;
+    /** File channel data, framed by lib/files/transfer.ts */
+    fileData?: (peerId: string, data: unknown, ch: Channel) => void;
+    /** A peer called us */
+    call: (call: MediaLink) => void;
+    /** A new session got its handlers, before it opens */
+    wired?: (session: RoomSession) => void;
+    /** Signaling is back after a drop */
+    resumed?: () => void;
+}
+
+interface UseRoomWireOptions {
+    roomId: string;
+    myPeerId: string;
+    myPrincipalTxt: string;
+    log: (line: string) => void;
+    /** World size in px, for position checks */
+    bounds: () => { worldW: number; worldH: number };
+}
+
+interface UseRoomWireReturn {
+    /** The live session, for event handlers (null before connect / after disconnect) */
+    sessionRef: MutableRefObject<RoomSession | null>;
+    sessionState: SessionState;
+    /** Negotiated protocol per peer, from their hello */
+    peerProtoRef: MutableRefObject<Map<string, PeerProtocol>>;
+    /** Peers with a game channel (open or still opening) */
+    linkedPeers: () => string[];
+    /** Send on the game channel, skipping kinds the peer didn't negotiate */
+    sendMsg: (peerId: string, msg: RoomMsg) => boolean;
+    broadcastMsg: (msg: RoomMsg) => void;
+    noteInvalidMsg: (peerId: string, channel: string, reason: string) => void;
+    /** A session over PeerJS with canister signaling, wired to `handlers` and opened; false if it couldn't register */
+    connect: (handlers: RoomWireHandlers) => Promise<boolean>;
+    disconnect: () => Promise<void>;
+    /** Signaling reconnect tries so far, for the overlay */
+    resumeAttempt: number;
+}
+
+/**
+ * The room protocol on top of a RoomSession: setting the session up,
+ * hellos and capability negotiation, checking every message and handing it
+ * to its handler, and the session's reconnect and ICE events. What the
+ * messages mean is up to the handlers.
+ */
+export const useRoomWire = ({ roomId, myPeerId, myPrincipalTxt, log, bounds }: UseRoomWireOptions): UseRoomWireReturn => {
+    const { sessionRef, state: sessionState, start, stop } = useRoomSession();
+    const peerProtoRef = useRef<Map<string, PeerProtocol>>(new Map());
+    const invalidMsgsRef = useRef(createInvalidMsgStats());
+    const [resumeAttempt, setResumeAttempt] = useState(0);
+
+    // the browser says the network is back: don't wait out the backoff
+    useEffect(() => {
+        const onOnline = () => sessionRef.current?.resumeNow();
+        window.addEventListener('online', onOnline);
+        return () => window.removeEventListener('online', onOnline);
+    }, [sessionRef]);
+
+    // stable: long-lived objects (world state, timers) hold on to these
+    const linkedPeers = useCallback(() => sessionRef.current?.peers(GAME_LABEL) ?? [], [sessionRef]);
+
+    const sendMsg = useCallback((peerId: string, msg: RoomMsg) => {
+        if (!peerAccepts(peerProtoRef.current.get(peerId) ?? V1_PROTOCOL, msg.t)) return false;
+        return !!sessionRef.current?.send(peerId, GAME_LABEL, msg);
+    }, [sessionRef]);
+    const broadcastMsg = useCallback((msg: RoomMsg) => {
+        for (const pid of linkedPeers()) sendMsg(pid, msg);
+    }, [linkedPeers, sendMsg]);
+    const noteInvalidMsg = (peerId: string, channel: string, reason: string) => {
+        const stats = invalidMsgsRef.current;
+        if (stats.note(reason)) log(`DC(${channel}) dropped message from ${pretty(peerId)}: ${reason} [${stats.total} invalid so far]`);
+    };
+
+    const wireSession = (session: RoomSession, handlers: RoomWireHandlers) => {
+        const dispatch = (peerId: string, msg: RoomMsg, conn: Channel) => {
+            const handle = handlers.msg[msg.t] as ((peerId: string, msg: RoomMsg, conn: Channel) => void) | undefined;
+            handle?.(peerId, msg, conn);
+        };
+
+        const onGameData = (remotePeerId: string, raw: unknown, conn: Channel) => {
+            const parsed = parseRoomMsg(raw, bounds());
+            if (!parsed.ok) { noteInvalidMsg(remotePeerId, 'game', parsed.reason); return; }
+            const m = parsed.msg;
+            // DMs only ever ride the chat channel
+            if (m.t === 'dm') return;
+            if (m.t === 'hello') {
+                const proto = negotiate(m);
+                peerProtoRef.current.set(remotePeerId, proto);
+                log(`DC(game) ${pretty(remotePeerId)} speaks v${proto.v} [${[...proto.caps].join(', ') || 'core only'}]`);
+            }
+            dispatch(remotePeerId, m, conn);
+        };
+
+        const onChatData = (remotePeerId: string, raw: unknown, conn: Channel) => {
+            const parsed = parseRoomMsg(raw);
+            if (!parsed.ok) { noteInvalidMsg(remotePeerId, 'chat', parsed.reason); return; }
+            if (parsed.msg.t === 'chat' || parsed.msg.t === 'dm') dispatch(remotePeerId, parsed.msg, conn);
+        };
+
+        session.on('open', (pid, label, conn) => {
+            if (label === GAME_LABEL) {
+                // the hello goes first: it tells them what else we understand
+                try { conn.send(makeHello(myPeerId, myPrincipalTxt)); } catch { }
+                handlers.open(pid, conn);
+                return;
+            }
+            log(`DC(${label}) open ${pretty(pid)}`);
+            handlers.channelOpen?.(pid, label);
+        });
+        session.on('close', (pid, label) => {
+            if (label !== GAME_LABEL) { log(`DC(${label}) close ${pretty(pid)}`); return; }
+            peerProtoRef.current.delete(pid);
+            handlers.close(pid);
+        });
+        session.subscribe(GAME_LABEL, onGameData);
+        session.subscribe(CHAT_LABEL, onChatData);
+        session.subscribe(FILE_LABEL, (pid, data, ch) => handlers.fileData?.(pid, data, ch));
+        session.on('call', (call) => handlers.call(call));
+        // a peer moved to relay: dials to it that were still checking start over
+        const offIce = sharedIce().on('escalate', (pid) => {
+            if (sessionRef.current !== session || !session.channel(pid)) return;
+            log(`ICE: direct connection to ${pretty(pid)} failed, relaying`);
+            session.retry(pid);
+        });
+        session.on('retry', (attempt, inMs) => {
+            log(`Reconnect attempt ${attempt} (next in ${Math.round(inMs / 1000)}s)`);
+            setResumeAttempt(attempt);
+        });
+        session.on('link', (pid, label, state) => {
+            if (state !== 'recovered' && state !== 'lost') return;
+            log(`DC(${label}) ${pretty(pid)} ${state === 'lost' ? 'lost after ICE restarts' : 'back after ICE restart'}`);
+        });
+        let dropped = false;
+        session.on('state', (state) => {
+            if (state === 'reconnecting') {
+                dropped = true;
+                log('Signaling lost, reconnecting...');
+            }
+            if (state === 'open' && dropped) {
+                dropped = false;
+                setResumeAttempt(0);
+                log('Signaling back');
+                handlers.resumed?.();
+            }
+            if (state === 'closed') offIce();
+        });
+        session.on('error', (err: any, pid, label) => {
+            const msg = String(err?.message || err);
+            log(pid ? `DC(${label ?? 'media'}) error ${pretty(pid)}: ${msg}` : `Peer error: ${msg}`);
+        });
+        handlers.wired?.(session);
+    };
+
+    const connect = async (handlers: RoomWireHandlers) => {
+        const ice = sharedIce();
+        await ice.ready();
+        const session = new RoomSession(createPeerJsTransport({
+            ice,
+            signaling: { canister: { api: canisterService, roomId, principalOf: (pid) => principalFromPeerId(roomId, pid) } },
+        }), { selfId: myPeerId, labels: [GAME_LABEL, CHAT_LABEL], onDemand: [FILE_LABEL], dialTimeoutMs: DIAL_TIMEOUT_MS });
+        wireSession(session, handlers);
+        return start(session);
+    };
+
+    return {
+        sessionRef,
+        sessionState,
+        peerProtoRef,
+        linkedPeers,
+        sendMsg,
+        broadcastMsg,
+        noteInvalidMsg,
+        connect,
+        disconnect: stop,
+        resumeAttempt,
+    };
+};
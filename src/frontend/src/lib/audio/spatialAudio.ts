@@ -0,0 +1,147 @@
+/** ===== SPATIAL AUDIO =====
+ * Each remote voice runs through its own small WebAudio graph:
+ *
+ *   source → gain (distance / zone) → lowpass (walls) → panner → destination
+ *
+ * Headphones use an HRTF PannerNode placed around a listener that faces
+ * "up" the map; speakers get a gentler StereoPannerNode, since hard-panned
+ * HRTF sounds odd out of a laptop. Loudness comes from the zone rules, not
+ * from the panner, so the panner's own distance model is switched off.
+ */
+
+export type AudioOutputMode = "headphones" | "speakers";
+
+export const AUDIO_OUTPUT_MODES: readonly AudioOutputMode[] = ["headphones", "speakers"];
+
+/** Every solid tile between two avatars takes this much off the volume */
+const WALL_GAIN = 0.45;
+/** Lowpass cutoff with no walls, then per wall */
+const OPEN_CUTOFF_HZ = 20000;
+const WALL_CUTOFFS_HZ = [1800, 900, 500];
+/** Speakers never pan fully to one side */
+const SPEAKER_PAN_MAX = 0.7;
+const SMOOTH_S = 0.06;
+
+/**
+ * Walls crossed by the straight line between two tile centres (endpoints
+ * excluded). Walks the grid cell by cell, so diagonal gaps in a wall don't
+ * let sound through; a run of solid tiles counts as one wall.
+ */
+export function wallsBetween(
+    a: { col: number; row: number },
+    b: { col: number; row: number },
+    isSolid: (col: number, row: number) => boolean,
+    max = WALL_CUTOFFS_HZ.length,
+): number {
+    const nc = Math.abs(b.col - a.col), nr = Math.abs(b.row - a.row);
+    const sc = Math.sign(b.col - a.col), sr = Math.sign(b.row - a.row);
+    let col = a.col, row = a.row, ic = 0, ir = 0, walls = 0, inWall = false;
+    while ((ic < nc || ir < nr) && walls < max) {
+        // step along whichever axis the line crosses next (one axis per step)
+        if ((1 + 2 * ic) * nr < (1 + 2 * ir) * nc) { col += sc; ic++; }
+        else { row += sr; ir++; }
+        if (col === b.col && row === b.row) break;
+        const solid = isSolid(col, row);
+        if (solid && !inWall) walls++;
+        inWall = solid;
+    }
+    return walls;
+}
+
+export type VoicePlacement = {
+    /** Offset from the listener, in tiles (x right, y down the map) */
+    dx: number;
+    dy: number;
+    /** 0..1 from the zone rules; 0 mutes */
+    volume: number;
+    walls: number;
+};
+
+export type SpatialVoice = {
+    place(p: VoicePlacement): void;
+    setMode(mode: AudioOutputMode): void;
+    dispose(): void;
+};
+
+/** Hook an existing source node (shared with the speaking analyser) into a positioned output */
+export function createSpatialVoice(ctx: AudioContext, source: AudioNode, mode: AudioOutputMode): SpatialVoice {
+    const gain = ctx.createGain();
+    gain.gain.value = 0;
+    const lowpass = ctx.createBiquadFilter();
+    lowpass.type = "lowpass";
+    lowpass.frequency.value = OPEN_CUTOFF_HZ;
+    source.connect(gain).connect(lowpass);
+
+    let panner: PannerNode | StereoPannerNode | null = null;
+    let currentMode: AudioOutputMode | null = null;
+    let last: VoicePlacement | null = null;
+
+    const buildPanner = (m: AudioOutputMode) => {
+        try { lowpass.disconnect(); } catch { }
+        try { panner?.disconnect(); } catch { }
+        if (m === "headphones") {
+            const p = ctx.createPanner();
+            p.panningModel = "HRTF";
+            p.distanceModel = "linear";
+            p.rolloffFactor = 0;
+            panner = p;
+        } else {
+            panner = ctx.createStereoPanner();
+        }
+        lowpass.connect(panner).connect(ctx.destination);
+        currentMode = m;
+        if (last) place(last);
+    };
+
+    const place = (v: VoicePlacement) => {
+        last = v;
+        const t = ctx.currentTime;
+        const muffle = Math.pow(WALL_GAIN, v.walls);
+        gain.gain.setTargetAtTime(Math.max(0, Math.min(1, v.volume * muffle)), t, SMOOTH_S);
+        const cutoff = v.walls ? WALL_CUTOFFS_HZ[Math.min(v.walls, WALL_CUTOFFS_HZ.length) - 1] : OPEN_CUTOFF_HZ;
+        lowpass.frequency.setTargetAtTime(cutoff, t, SMOOTH_S);
+
+        if (!panner) return;
+        if (currentMode === "speakers") {
+            // full pan a few tiles out; right on top of us stays centred
+            const pan = Math.max(-1, Math.min(1, v.dx / 3)) * SPEAKER_PAN_MAX;
+            (panner as StereoPannerNode).pan.setTargetAtTime(pan, t, SMOOTH_S);
+        } else {
+            // listener faces -z ("up" the map); a small y keeps sources off the exact centre
+            const p = panner as PannerNode;
+            p.positionX.setTargetAtTime(v.dx, t, SMOOTH_S);
+            p.positionY.setTargetAtTime(0.5, t, SMOOTH_S);
+            p.positionZ.setTargetAtTime(v.dy, t, SMOOTH_S);
+        }
+    };
+
+    buildPanner(mode);
+
+    return {
+        place,
+        setMode(m) {
+            if (m !== currentMode) buildPanner(m);
+        },
+        dispose() {
+            try { source.disconnect(gain); } catch { }
+            try { gain.disconnect(); } catch { }
+            try { lowpass.disconnect(); } catch { }
+            try { panner?.disconnect(); } catch { }
+            panner = null;
+        },
+    };
+}
+
+const OUTPUT_MODE_KEY = "pixeliy:audio-output";
+
+export function loadAudioOutputMode(): AudioOutputMode {
+    try {
+        const v = localStorage.getItem(OUTPUT_MODE_KEY);
+        if (v === "headphones" || v === "speakers") return v;
+    } catch { }
+    return "speakers";
+}
+
+export function saveAudioOutputMode(mode: AudioOutputMode) {
+    try { localStorage.setItem(OUTPUT_MODE_KEY, mode); } catch { }
+}
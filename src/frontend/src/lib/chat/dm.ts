@@ -0,0 +1,85 @@
+/** ===== DIRECT MESSAGES =====
+ * 1:1 threads inside a room. A DM goes only over the other person's chat
+ * channel (never relayed, never stored by the canister), sealed with the
+ * room key and bound to both ends. That keeps it from the canister and the
+ * network, but not from the room: anyone holding the room key who gets the
+ * sealed text could open it, so it's private by delivery, not by key.
+ * Threads are kept per room for the tab's session (sessionStorage),
+ * with an unread count for each one that isn't on screen.
+ */
+
+export type DmLine = {
+    id: string;
+    /** Peer id of whoever wrote it */
+    from: string;
+    text: string;
+    ts: number;
+    self: boolean;
+    /** As it arrived, while we can't open it */
+    sealed?: string;
+    locked?: boolean;
+    /** Ours, and it couldn't be delivered */
+    failed?: boolean;
+};
+
+export type DmThread = { lines: DmLine[]; unread: number };
+
+/** Peer id → thread */
+export type DmThreads = Record<string, DmThread>;
+
+/** `threads` with `line` at the end of the thread with `peer` (once per id); counted unread unless `seen` */
+export function addDmLine(threads: DmThreads, peer: string, line: DmLine, seen: boolean, max = Infinity): DmThreads {
+    const thread = threads[peer] ?? { lines: [], unread: 0 };
+    if (thread.lines.some((l) => l.id === line.id)) return threads;
+    const lines = [...thread.lines, line];
+    return {
+        ...threads,
+        [peer]: {
+            lines: lines.length > max ? lines.slice(-max) : lines,
+            unread: seen || line.self ? thread.unread : thread.unread + 1,
+        },
+    };
+}
+
+/** `threads` with line `id` in the thread with `peer` changed by `patch` */
+export function patchDmLine(threads: DmThreads, peer: string, id: string, patch: Partial<DmLine>): DmThreads {
+    const thread = threads[peer];
+    if (!thread || !thread.lines.some((l) => l.id === id)) return threads;
+    return { ...threads, [peer]: { ...thread, lines: thread.lines.map((l) => (l.id === id ? { ...l, ...patch } : l)) } };
+}
+
+export function markDmRead(threads: DmThreads, peer: string): DmThreads {
+    const thread = threads[peer];
+    return thread && thread.unread ? { ...threads, [peer]: { ...thread, unread: 0 } } : threads;
+}
+
+export const dmUnread = (threads: DmThreads) => Object.values(threads).reduce((n, t) => n + t.unread, 0);
+
+/** What a DM is sealed to besides the room and key epoch: its id and both ends */
+export const dmContext = (id: string, from: string, to: string) => `dm|${id}|${from}|${to}`;
+
+// === SESSION STORAGE ===
+const storageKey = (roomId: string, owner: string) => `pixeliy:dm:${roomId}:${owner}`;
+
+export function saveDmThreads(roomId: string, owner: string, threads: DmThreads, storage: Storage = sessionStorage) {
+    try { storage.setItem(storageKey(roomId, owner), JSON.stringify(threads)); } catch { }
+}
+
+export function loadDmThreads(roomId: string, owner: string, storage: Storage = sessionStorage): DmThreads {
+    try {
+        const raw = storage.getItem(storageKey(roomId, owner));
+        const v = raw ? JSON.parse(raw) : null;
+        if (!v || typeof v !== "object" || Array.isArray(v)) return {};
+        const out: DmThreads = {};
+        for (const [peer, t] of Object.entries<any>(v)) {
+            if (!t || !Array.isArray(t.lines)) continue;
+            out[peer] = {
+                lines: t.lines.filter((l: any) => l && typeof l.id === "string" && typeof l.text === "string"),
+                unread: Number.isInteger(t.unread) ? t.unread : 0,
+            };
+        }
+        return out;
+    } catch {
+        return {};
+    }
+}
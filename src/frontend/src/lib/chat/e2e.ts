@@ -0,0 +1,362 @@
+/** ===== END-TO-END CHAT ENCRYPTION =====
+ * Room chat is sealed with a per-room AES-GCM key before it goes on a data
+ * channel or into the canister, so neither relays nor the canister can read
+ * it. Keys are handed out through the canister without it seeing them:
+ *
+ *  - every device has an ECDH P-256 key pair; the public half is published
+ *    under the user's Internet Identity principal (setChatPublicKey), the
+ *    private half never leaves IndexedDB,
+ *  - a room key is wrapped for each participant's public key (ephemeral
+ *    ECDH → HKDF → AES-GCM, bound to room, epoch and recipient principal)
+ *    and stored by the canister next to the epoch it belongs to; one that
+ *    won't open is taken down by its recipient and wrapped again,
+ *  - when someone leaves, the canister flags the room and the next
+ *    participant to sync makes a new key (epoch + 1) for those still there.
+ *    Old keys are kept, so history from before stays readable to whoever
+ *    had it.
+ *
+ * Sealed text is "e2e1.<epoch>.<iv>.<ciphertext>"; anything else is a
+ * plaintext line from before encryption.
+ */
+import { createEmitter, type Unsubscribe } from "../net/transport";
+
+const SEALED_PREFIX = "e2e1.";
+const WRAP_PREFIX = "w1.";
+const WRAP_INFO = new TextEncoder().encode("pixeliy chat key wrap");
+const DB_NAME = "pixeliy-e2e";
+const DB_STORE = "keys";
+
+const enc = new TextEncoder();
+const dec = new TextDecoder();
+
+const b64 = (buf: ArrayBuffer | Uint8Array) => {
+    const bytes = buf instanceof Uint8Array ? buf : new Uint8Array(buf);
+    let s = "";
+    for (const b of bytes) s += String.fromCharCode(b);
+    return btoa(s);
+};
+
+const unb64 = (s: string) => Uint8Array.from(atob(s), (c) => c.charCodeAt(0));
+
+const randomIv = () => crypto.getRandomValues(new Uint8Array(12));
+
+// === ROOM KEYS ===
+
+/** A fresh room key; extractable, since holders wrap it for newcomers */
+export function generateRoomKey(): Promise<CryptoKey> {
+    return crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt", "decrypt"]);
+}
+
+export const isSealed = (text: string) => text.startsWith(SEALED_PREFIX);
+
+/** Epoch of the key `sealed` was made with, null if it isn't sealed text */
+export function sealedEpoch(sealed: string): number | null {
+    if (!isSealed(sealed)) return null;
+    const epoch = Number(sealed.split(".")[1]);
+    return Number.isInteger(epoch) && epoch > 0 ? epoch : null;
+}
+
+/** `text` encrypted under `key`; `aad` must match on the way back */
+export async function sealText(key: CryptoKey, epoch: number, text: string, aad: string): Promise<string> {
+    const iv = randomIv();
+    const ct = await crypto.subtle.encrypt({ name: "AES-GCM", iv, additionalData: enc.encode(aad) }, key, enc.encode(text));
+    return `${SEALED_PREFIX}${epoch}.${b64(iv)}.${b64(ct)}`;
+}
+
+/** Plain text back out of sealText's output; throws if the key, aad or text is wrong */
+export async function openText(key: CryptoKey, sealed: string, aad: string): Promise<string> {
+    const parts = sealed.split(".");
+    if (parts.length !== 4 || !isSealed(sealed)) throw new Error("not sealed text");
+    const pt = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: unb64(parts[2]), additionalData: enc.encode(aad) },
+        key,
+        unb64(parts[3]),
+    );
+    return dec.decode(pt);
+}
+
+// === DEVICE KEYS ===
+export type DeviceKeys = {
+    /** Raw P-256 point, base64: what goes to the canister */
+    publicKey: string;
+    privateKey: CryptoKey;
+};
+
+/** A new key pair; the private half can't be exported */
+export async function createDeviceKeys(): Promise<DeviceKeys> {
+    const pair = await crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, false, ["deriveBits"]);
+    return { publicKey: b64(await crypto.subtle.exportKey("raw", pair.publicKey)), privateKey: pair.privateKey };
+}
+
+const openDb = (idb: IDBFactory) =>
+    new Promise<IDBDatabase>((resolve, reject) => {
+        const req = idb.open(DB_NAME, 1);
+        req.onupgradeneeded = () => req.result.createObjectStore(DB_STORE);
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+
+const idbRequest = <T>(req: IDBRequest<T>) =>
+    new Promise<T>((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+
+/**
+ * This device's key pair for `owner` (a principal), kept in IndexedDB so
+ * keys wrapped for it stay usable after a reload. Without IndexedDB the
+ * pair only lasts as long as the page: others rewrap for it on the next key.
+ */
+export async function loadDeviceKeys(owner: string, idb: IDBFactory | undefined = globalThis.indexedDB): Promise<DeviceKeys> {
+    if (!idb) return createDeviceKeys();
+    try {
+        const db = await openDb(idb);
+        try {
+            const stored = await idbRequest<DeviceKeys | undefined>(db.transaction(DB_STORE).objectStore(DB_STORE).get(owner));
+            if (stored?.publicKey && stored.privateKey) return stored;
+            const fresh = await createDeviceKeys();
+            await idbRequest(db.transaction(DB_STORE, "readwrite").objectStore(DB_STORE).put(fresh, owner));
+            return fresh;
+        } finally {
+            db.close();
+        }
+    } catch (e) {
+        console.warn("device keys not stored, using a key pair for this page only", e);
+        return createDeviceKeys();
+    }
+}
+
+const wrapKeyFor = async (privateKey: CryptoKey, publicKey: CryptoKey, usage: KeyUsage) => {
+    const shared = await crypto.subtle.deriveBits({ name: "ECDH", public: publicKey }, privateKey, 256);
+    const hkdf = await crypto.subtle.importKey("raw", shared, "HKDF", false, ["deriveKey"]);
+    return crypto.subtle.deriveKey(
+        { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(32), info: WRAP_INFO },
+        hkdf,
+        { name: "AES-GCM", length: 256 },
+        false,
+        [usage],
+    );
+};
+
+const importPublic = (raw: string) =>
+    crypto.subtle.importKey("raw", unb64(raw), { name: "ECDH", namedCurve: "P-256" }, true, []);
+
+/** `roomKey` encrypted for the holder of `recipientPublicKey`; `aad` must match on unwrap */
+export async function wrapRoomKey(roomKey: CryptoKey, recipientPublicKey: string, aad: string): Promise<string> {
+    const eph = await crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, true, ["deriveBits"]);
+    const kek = await wrapKeyFor(eph.privateKey, await importPublic(recipientPublicKey), "encrypt");
+    const iv = randomIv();
+    const raw = await crypto.subtle.exportKey("raw", roomKey);
+    const ct = await crypto.subtle.encrypt({ name: "AES-GCM", iv, additionalData: enc.encode(aad) }, kek, raw);
+    return `${WRAP_PREFIX}${b64(await crypto.subtle.exportKey("raw", eph.publicKey))}.${b64(iv)}.${b64(ct)}`;
+}
+
+/** The room key out of wrapRoomKey's output; throws if it wasn't wrapped for `privateKey` */
+export async function unwrapRoomKey(wrapped: string, privateKey: CryptoKey, aad: string): Promise<CryptoKey> {
+    const parts = wrapped.slice(WRAP_PREFIX.length).split(".");
+    if (!wrapped.startsWith(WRAP_PREFIX) || parts.length !== 3) throw new Error("not a wrapped key");
+    const kek = await wrapKeyFor(privateKey, await importPublic(parts[0]), "decrypt");
+    const raw = await crypto.subtle.decrypt({ name: "AES-GCM", iv: unb64(parts[1]), additionalData: enc.encode(aad) }, kek, unb64(parts[2]));
+    return crypto.subtle.importKey("raw", raw, "AES-GCM", true, ["encrypt", "decrypt"]);
+}
+
+// === KEYRING ===
+
+/** What the keyring needs from the canister; principals as text */
+export type KeyDirectory = {
+    publishKey(publicKey: string): Promise<void>;
+    /** Public keys of the room's participants that have one */
+    publicKeys(): Promise<Array<[string, string]>>;
+    roomKeys(): Promise<{ epoch: number; rotate: boolean; mine: Array<[number, string]>; missing: string[] }>;
+    /**
+     * Wraps of a `newKey` for the next epoch, or of the current key for
+     * newcomers. False: `epoch` is no longer the one to write (someone else
+     * rotated first), and nothing was stored
+     */
+    putKeys(epoch: number, wraps: Array<[string, string]>, newKey: boolean): Promise<boolean>;
+    /** Our wrap for the current `epoch` doesn't open: take it down so a holder wraps a fresh one */
+    dropKey(epoch: number): Promise<void>;
+};
+
+export type ChatKeyringOptions = {
+    roomId: string;
+    /** Our principal, as text */
+    self: string;
+    device: DeviceKeys;
+    directory: KeyDirectory;
+    /**
+     * Missing the current key: how long to wait for someone holding it to
+     * share it before making a new one (they may all be gone)
+     */
+    shareWaitMs?: number;
+    /** Least time between syncs set off by messages we can't open */
+    missSyncMs?: number;
+    now?: () => number;
+};
+
+export type ChatKeyringEvents = {
+    /** A key was added or the current epoch moved: lines that didn't open may now */
+    change: (epoch: number) => void;
+};
+
+export function createChatKeyring(opts: ChatKeyringOptions) {
+    const shareWaitMs = opts.shareWaitMs ?? 8000;
+    const missSyncMs = opts.missSyncMs ?? 3000;
+    const now = opts.now ?? (() => Date.now());
+    const { roomId, self, device, directory } = opts;
+    const emitter = createEmitter<ChatKeyringEvents>();
+    const keys = new Map<number, CryptoKey>();
+    let current = 0;
+    let published = false;
+    let lackingSince: number | null = null;
+    let running: Promise<void> | null = null;
+    let again = false;
+    let lastMissSync = -Infinity;
+    let closed = false;
+
+    const wrapAad = (epoch: number, to: string) => `${roomId}|${epoch}|${to}`;
+    const textAad = (epoch: number, context: string) => `${roomId}|${epoch}|${context}`;
+
+    const setCurrent = (epoch: number) => {
+        if (epoch === current) return;
+        current = epoch;
+        emitter.emit("change", epoch);
+    };
+
+    const wrapFor = async (key: CryptoKey, epoch: number, to: Array<[string, string]>) => {
+        const wraps: Array<[string, string]> = [];
+        for (const [principal, pub] of to) {
+            try {
+                wraps.push([principal, await wrapRoomKey(key, pub, wrapAad(epoch, principal))]);
+            } catch (e) {
+                console.warn(`bad chat public key for ${principal}`, e);
+            }
+        }
+        return wraps;
+    };
+
+    /** A new key for everyone in the room now; false if someone beat us to it */
+    const rotate = async (epoch: number) => {
+        const key = await generateRoomKey();
+        const pubs = await directory.publicKeys();
+        if (!pubs.some(([p]) => p === self)) pubs.push([self, device.publicKey]);
+        const wraps = await wrapFor(key, epoch, pubs);
+        if (!(await directory.putKeys(epoch, wraps, true))) return false;
+        keys.set(epoch, key);
+        lackingSince = null;
+        setCurrent(epoch);
+        return true;
+    };
+
+    const syncOnce = async () => {
+        if (!published) {
+            await directory.publishKey(device.publicKey);
+            published = true;
+        }
+        for (let tries = 0; tries < 3 && !closed; tries++) {
+            const state = await directory.roomKeys();
+            let added = false;
+            for (const [epoch, wrapped] of state.mine) {
+                if (keys.has(epoch)) continue;
+                try {
+                    keys.set(epoch, await unwrapRoomKey(wrapped, device.privateKey, wrapAad(epoch, self)));
+                    added = true;
+                } catch {
+                    // wrapped for a key pair this device no longer has (or junk): the
+                    // current key can be wrapped again, older ones are gone for us
+                    if (epoch === state.epoch) await directory.dropKey(epoch);
+                }
+            }
+
+            const have = state.epoch > 0 && keys.has(state.epoch);
+            if (have) lackingSince = null;
+            else if (lackingSince === null) lackingSince = now();
+            const alone = !have && state.epoch > 0 && (await directory.publicKeys()).every(([p]) => p === self);
+            const giveUp = lackingSince !== null && now() - lackingSince >= shareWaitMs;
+
+            if (state.epoch === 0 || state.rotate || alone || giveUp) {
+                if (await rotate(state.epoch + 1)) return;
+                continue; // someone else rotated: pick theirs up
+            }
+            if (!have) {
+                if (added) emitter.emit("change", current);
+                return; // wait for a holder to share it
+            }
+
+            if (state.epoch !== current) setCurrent(state.epoch);
+            else if (added) emitter.emit("change", current);
+
+            if (state.missing.length) {
+                const want = new Set(state.missing);
+                const to = (await directory.publicKeys()).filter(([p]) => want.has(p));
+                const wraps = await wrapFor(keys.get(state.epoch)!, state.epoch, to);
+                if (wraps.length && !(await directory.putKeys(state.epoch, wraps, false))) continue;
+            }
+            return;
+        }
+    };
+
+    const sync = (): Promise<void> => {
+        if (running) {
+            again = true;
+            return running;
+        }
+        running = (async () => {
+            try {
+                do {
+                    again = false;
+                    await syncOnce();
+                } while (again && !closed);
+            } catch (e) {
+                console.warn("chat key sync failed", e);
+            } finally {
+                running = null;
+            }
+        })();
+        return running;
+    };
+
+    return {
+        sync,
+        /** `text` sealed under the current key, null while we have none */
+        async seal(text: string, context: string): Promise<string | null> {
+            const key = keys.get(current);
+            if (!current || !key) return null;
+            return sealText(key, current, text, textAad(current, context));
+        },
+        /**
+         * Plain text of a sealed line, or null if we can't open it (no key for
+         * its epoch, or it was tampered with). Lines from an epoch we don't
+         * have yet set off a sync.
+         */
+        async open(sealed: string, context: string): Promise<string | null> {
+            const epoch = sealedEpoch(sealed);
+            if (epoch === null) return null;
+            const key = keys.get(epoch);
+            if (!key) {
+                if (now() - lastMissSync >= missSyncMs) {
+                    lastMissSync = now();
+                    void sync();
+                }
+                return null;
+            }
+            try {
+                return await openText(key, sealed, textAad(epoch, context));
+            } catch {
+                return null;
+            }
+        },
+        get epoch() {
+            return current;
+        },
+        on<K extends keyof ChatKeyringEvents>(event: K, fn: ChatKeyringEvents[K]): Unsubscribe {
+            return emitter.on(event, fn);
+        },
+        close() {
+            closed = true;
+            emitter.clear();
+        },
+    };
+}
+
+export type ChatKeyring = ReturnType<typeof createChatKeyring>;
@@ -0,0 +1,125 @@
+/** ===== CHAT HISTORY =====
+ * Room chat as the canister keeps it, next to the live copy arriving over
+ * the data channels. The chat panel shows one list: pages of history are
+ * merged in as they load (latest page on join, older ones while scrolling
+ * up) and live lines as they come; a line seen both ways (same id) is kept
+ * once, whichever copy came first.
+ */
+import type { ChatFile } from "./rich";
+
+/** A line in the chat panel */
+export type ChatLine = {
+    id: string;
+    fromPeerId: string;
+    label: string;
+    text: string;
+    ts: number;
+    self: boolean;
+    /** As it arrived, when it came encrypted (see e2e.ts) */
+    sealed?: string;
+    /** Sealed with a key we don't have (yet): `text` is empty */
+    locked?: boolean;
+    /** `fromPeerId` is known, not just claimed (see rich.ts ChatOp) */
+    vouched?: boolean;
+    /** Id of the message this answers (see rich.ts) */
+    replyTo?: string;
+    /** Principals of the people it mentions */
+    mentions?: string[];
+    /** From ops folded over it (rich.ts foldChat) */
+    edited?: boolean;
+    deleted?: boolean;
+    /** emoji → peer ids that put it on */
+    reactions?: Record<string, string[]>;
+    /** A file it offers (see lib/files) */
+    file?: ChatFile;
+};
+
+export type HistoryPage<T> = {
+    /** Oldest first */
+    lines: T[];
+    /** Cursor for the page before this one; null at the start of history */
+    next: number | null;
+    /** False when the host turned history off */
+    enabled: boolean;
+};
+
+export type ChatHistoryOptions<T> = {
+    /** Up to `limit` lines before cursor `before` (null: the latest ones) */
+    fetchPage(before: number | null, limit: number): Promise<HistoryPage<T>>;
+    pageSize?: number;
+};
+
+type Keyed = { id: string; ts: number };
+
+/** `list` with a live line at the end (unless it's there already), keeping the newest `max` */
+export function appendChatLine<T extends Keyed>(list: T[], line: T, max = Infinity): T[] {
+    if (list.some((l) => l.id === line.id)) return list;
+    const next = [...list, line];
+    return next.length > max ? next.slice(-max) : next;
+}
+
+/** `list` with a page of history (oldest first) merged in by time; lines already there keep their order */
+export function mergeChatHistory<T extends Keyed>(list: T[], lines: T[]): T[] {
+    const have = new Set(list.map((l) => l.id));
+    const fresh = lines.filter((l) => !have.has(l.id));
+    if (!fresh.length) return list;
+    const out: T[] = [];
+    let i = 0;
+    for (const l of list) {
+        while (i < fresh.length && fresh[i].ts <= l.ts) out.push(fresh[i++]);
+        out.push(l);
+    }
+    while (i < fresh.length) out.push(fresh[i++]);
+    return out;
+}
+
+/** Walks a room's history backwards, one page per older() */
+export function createChatHistory<T>(opts: ChatHistoryOptions<T>) {
+    const pageSize = opts.pageSize ?? 50;
+    let cursor: number | null = null;
+    let done = false;
+    let enabled: boolean | null = null;
+    let inflight: Promise<T[] | null> | null = null;
+    /** Bumped by reset(); pages asked for before it are dropped */
+    let generation = 0;
+
+    return {
+        /** The next page back (the latest one first); null when there's no more, or it failed */
+        older(): Promise<T[] | null> {
+            if (done) return Promise.resolve(null);
+            if (inflight) return inflight;
+            const gen = generation;
+            inflight = (async () => {
+                try {
+                    const page = await opts.fetchPage(cursor, pageSize);
+                    if (gen !== generation) return null;
+                    enabled = page.enabled;
+                    cursor = page.next;
+                    done = page.next === null;
+                    return page.lines;
+                } catch (e) {
+                    console.warn("[chat] history page failed", e);
+                    return null;
+                } finally {
+                    if (gen === generation) inflight = null;
+                }
+            })();
+            return inflight;
+        },
+        /** Start over from the latest page (say, after lines were dropped off the top) */
+        reset() {
+            generation++;
+            cursor = null;
+            done = false;
+            inflight = null;
+        },
+        /** Nothing older to load */
+        get done() { return done; },
+        get loading() { return inflight !== null; },
+        /** Whether the room keeps history (null until a page came back) */
+        get enabled() { return enabled; },
+        set enabled(on: boolean | null) { enabled = on; },
+    };
+}
+
+export type ChatHistory<T> = ReturnType<typeof createChatHistory<T>>;
@@ -0,0 +1,193 @@
+/** ===== RICH CHAT =====
+ * What a (sealed) chat line carries. Every line on the wire and in the
+ * canister is one of:
+ *
+ *  - msg: a message, maybe replying to another and mentioning people, or
+ *    offering a file (see lib/files: sent peer to peer, or from storage),
+ *  - edit / del: its author changing or taking back an earlier message,
+ *  - react: an emoji put on (or taken off) a message.
+ *
+ * Only messages show in the panel. The rest are ops, kept by id and folded
+ * over the messages they point at (foldChat) each time the panel renders,
+ * so it doesn't matter which arrives first: a history page loading later
+ * often brings a message whose edits and reactions came in live.
+ */
+import type { ChatLine } from "./history";
+import { parseFileMeta, type FileMeta } from "../files/transfer";
+import { THUMB_MAX_CHARS } from "../files/thumbnail";
+
+/**
+ * A file offered in the chat. `thumb`: a small JPEG preview of an image.
+ * `store`: where it was uploaded instead (too big to send peer to peer),
+ * with the key it's encrypted under there.
+ */
+export type ChatFile = FileMeta & { thumb?: string; store?: { ref: string; key: string } };
+
+export type ChatBody =
+    | { k: "msg"; text: string; re?: string; at?: string[]; file?: ChatFile }
+    | { k: "edit"; id: string; text: string }
+    | { k: "del"; id: string }
+    | { k: "react"; id: string; emoji: string; on: boolean };
+
+export type OpBody = Exclude<ChatBody, { k: "msg" }>;
+
+/**
+ * An op line: `id` is its own, the message it changes is `body.id`.
+ * `from` is what the line says; `vouched` when that's known to be true: it
+ * came straight from them, or from the canister's history (which records
+ * who sent it). Anyone with the room key can claim any `from`.
+ */
+export type ChatOp = { id: string; from: string; ts: number; body: OpBody; vouched?: boolean };
+
+export const REACTIONS = ["👍", "❤️", "😂", "😮", "🎉", "👀"];
+export const MAX_MENTIONS = 8;
+const MAX_REF_CHARS = 64;
+/** Not in the middle of a word (or an email address) */
+const MENTION_RE = /(?<![\w.])@([\w.-]{1,24})/g;
+
+const MAX_FILE_KEY_CHARS = 64;
+const THUMB_PREFIX = "data:image/jpeg;base64,";
+
+const isStr = (v: unknown, max = Infinity): v is string => typeof v === "string" && v.length <= max;
+
+function parseChatFile(v: any): ChatFile | null {
+    const meta = parseFileMeta(v);
+    if (!meta) return null;
+    if (v.thumb !== undefined && !(isStr(v.thumb, THUMB_MAX_CHARS) && v.thumb.startsWith(THUMB_PREFIX))) return null;
+    if (v.store !== undefined && !(v.store && isStr(v.store.ref, MAX_REF_CHARS) && v.store.ref && isStr(v.store.key, MAX_FILE_KEY_CHARS))) return null;
+    return {
+        ...meta,
+        ...(v.thumb !== undefined && { thumb: v.thumb }),
+        ...(v.store !== undefined && { store: { ref: v.store.ref, key: v.store.key } }),
+    };
+}
+
+export const encodeChatBody = (body: ChatBody) => JSON.stringify(body);
+
+/**
+ * A chat body from an opened line. Lines from before rich chat are plain
+ * text (a msg); bodies that don't check out, or of kinds we don't know,
+ * are null and dropped.
+ */
+export function decodeChatBody(plain: string): ChatBody | null {
+    let v: any;
+    try { v = JSON.parse(plain); } catch { return { k: "msg", text: plain }; }
+    if (!v || typeof v !== "object" || typeof v.k !== "string") return { k: "msg", text: plain };
+    switch (v.k) {
+        case "msg": {
+            if (!isStr(v.text) || (v.re !== undefined && !isStr(v.re, MAX_REF_CHARS))) return null;
+            if (v.at !== undefined && !(Array.isArray(v.at) && v.at.length <= MAX_MENTIONS && v.at.every((p: unknown) => isStr(p, MAX_REF_CHARS)))) return null;
+            if (v.file === undefined) return { k: "msg", text: v.text, re: v.re, at: v.at };
+            const file = parseChatFile(v.file);
+            return file ? { k: "msg", text: v.text, re: v.re, at: v.at, file } : null;
+        }
+        case "edit":
+            return isStr(v.id, MAX_REF_CHARS) && isStr(v.text) ? { k: "edit", id: v.id, text: v.text } : null;
+        case "del":
+            return isStr(v.id, MAX_REF_CHARS) ? { k: "del", id: v.id } : null;
+        case "react":
+            return isStr(v.id, MAX_REF_CHARS) && REACTIONS.includes(v.emoji) && typeof v.on === "boolean"
+                ? { k: "react", id: v.id, emoji: v.emoji, on: v.on }
+                : null;
+        default:
+            return null;
+    }
+}
+
+/**
+ * `ops` with `add` in (same op id kept once, though a vouched copy replaces
+ * one that wasn't); the same map back when nothing is new
+ */
+export function addChatOps(ops: Map<string, ChatOp>, add: ChatOp[], max = Infinity): Map<string, ChatOp> {
+    const fresh = add.filter((op) => {
+        const had = ops.get(op.id);
+        return !had || (!!op.vouched && !had.vouched);
+    });
+    if (!fresh.length) return ops;
+    const next = new Map(ops);
+    for (const op of fresh) next.set(op.id, op);
+    // oldest in first out
+    for (const id of next.keys()) {
+        if (next.size <= max) break;
+        next.delete(id);
+    }
+    return next;
+}
+
+/**
+ * `lines` as they stand after `ops`, in time order per message: edits and
+ * deletes count only from the message's author, and only vouched for (a
+ * relayed one could be anyone's), a deleted message stays deleted, and each
+ * person's last word on an emoji wins.
+ */
+export function foldChat(lines: ChatLine[], ops: Iterable<ChatOp>): ChatLine[] {
+    const byTarget = new Map<string, ChatOp[]>();
+    for (const op of ops) {
+        const list = byTarget.get(op.body.id);
+        if (list) list.push(op);
+        else byTarget.set(op.body.id, [op]);
+    }
+    let changed = false;
+    const folded = lines.map((line) => {
+        const list = byTarget.get(line.id);
+        if (!list || line.locked) return line;
+        changed = true;
+        list.sort((a, b) => a.ts - b.ts || (a.id < b.id ? -1 : 1));
+        const out: ChatLine = { ...line };
+        const reactions = new Map<string, Set<string>>();
+        for (const [emoji, who] of Object.entries(line.reactions ?? {})) reactions.set(emoji, new Set(who));
+        for (const op of list) {
+            const b = op.body;
+            if (b.k === "react") {
+                let who = reactions.get(b.emoji);
+                if (!who) reactions.set(b.emoji, (who = new Set()));
+                if (b.on) who.add(op.from);
+                else who.delete(op.from);
+            } else if (op.vouched && op.from === line.fromPeerId && !out.deleted) {
+                if (b.k === "edit") {
+                    out.text = b.text;
+                    out.edited = true;
+                } else {
+                    out.text = "";
+                    out.deleted = true;
+                }
+            }
+        }
+        const kept = [...reactions].filter(([, who]) => who.size > 0);
+        out.reactions = kept.length ? Object.fromEntries(kept.map(([emoji, who]) => [emoji, [...who]])) : undefined;
+        return out;
+    });
+    return changed ? folded : lines;
+}
+
+// === MENTIONS ===
+
+/** "@alice." at the end of a sentence means alice */
+const trimName = (name: string) => name.replace(/[.-]+$/, "");
+
+/** Who `text` mentions: the ids of `people` whose username follows an @ */
+export function findMentions(text: string, people: Array<{ id: string; username: string }>): string[] {
+    const byName = new Map(people.filter((p) => p.username).map((p) => [p.username.toLowerCase(), p.id]));
+    const out: string[] = [];
+    for (const m of text.matchAll(MENTION_RE)) {
+        const id = byName.get(trimName(m[1]).toLowerCase());
+        if (id && !out.includes(id)) out.push(id);
+        if (out.length >= MAX_MENTIONS) break;
+    }
+    return out;
+}
+
+/** `text` cut into plain runs and @mentions of names `known` says exist, for highlighting */
+export function mentionSegments(text: string, known: (username: string) => boolean): Array<{ text: string; mention: boolean }> {
+    const out: Array<{ text: string; mention: boolean }> = [];
+    let at = 0;
+    for (const m of text.matchAll(MENTION_RE)) {
+        const name = trimName(m[1]);
+        if (!known(name)) continue;
+        if (m.index! > at) out.push({ text: text.slice(at, m.index), mention: false });
+        out.push({ text: `@${name}`, mention: true });
+        at = m.index! + name.length + 1;
+    }
+    if (at < text.length) out.push({ text: text.slice(at), mention: false });
+    return out;
+}
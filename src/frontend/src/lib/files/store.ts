@@ -0,0 +1,198 @@
+/** ===== FILE STORE =====
+ * Where files too big to send peer to peer go instead. A FileStore keeps
+ * bytes under a ref; the room never hands it anything readable: each file
+ * is encrypted with a key of its own first (putSealed), and that key only
+ * travels inside the sealed chat line pointing at the file.
+ *
+ *  - createChunkedFileStore  over any StorageApi: the storage canister
+ *    (canisterService) or, for headless runs, createMemoryStorageApi
+ */
+
+export interface FileStore {
+    /** Largest file it takes */
+    readonly maxBytes: number;
+    put(bytes: Uint8Array, onProgress?: (done: number) => void): Promise<string>;
+    get(ref: string, onProgress?: (done: number) => void): Promise<Uint8Array<ArrayBuffer>>;
+    remove(ref: string): Promise<void>;
+}
+
+/** Chunked upload / download calls, as the storage canister has them; failures throw with its error code */
+export interface StorageApi {
+    beginUpload(size: number, chunkCount: number): Promise<string>;
+    putChunk(id: string, index: number, data: Uint8Array): Promise<void>;
+    finishUpload(id: string): Promise<void>;
+    getFileInfo(id: string): Promise<{ size: number; chunkCount: number }>;
+    getChunk(id: string, index: number): Promise<Uint8Array>;
+    deleteFile(id: string): Promise<void>;
+}
+
+/** What the storage canister allows */
+export const STORE_MAX_BYTES = 100_000_000;
+export const STORE_CHUNK_BYTES = 1_000_000;
+/** AES-GCM nonce in front, tag at the end */
+const SEAL_OVERHEAD = 12 + 16;
+
+const b64 = (bytes: Uint8Array) => {
+    let s = "";
+    for (const b of bytes) s += String.fromCharCode(b);
+    return btoa(s);
+};
+
+const unb64 = (s: string) => Uint8Array.from(atob(s), (c) => c.charCodeAt(0));
+
+export type ChunkedFileStoreOptions = {
+    chunkBytes?: number;
+    maxBytes?: number;
+    /** Chunks in flight at once, each way */
+    parallel?: number;
+};
+
+export function createChunkedFileStore(api: StorageApi, opts: ChunkedFileStoreOptions = {}): FileStore {
+    const chunkBytes = opts.chunkBytes ?? STORE_CHUNK_BYTES;
+    const maxBytes = opts.maxBytes ?? STORE_MAX_BYTES;
+    const parallel = Math.max(1, opts.parallel ?? 3);
+
+    /** Run `work` for 0..count-1, `parallel` at a time; the first failure stops the rest */
+    const each = async (count: number, work: (i: number) => Promise<void>) => {
+        let next = 0;
+        let failed = false;
+        const lane = async () => {
+            while (!failed && next < count) {
+                try { await work(next++); } catch (e) { failed = true; throw e; }
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(parallel, count) }, lane));
+    };
+
+    return {
+        maxBytes,
+        async put(bytes, onProgress) {
+            if (!bytes.length) throw new Error("EMPTY_FILE");
+            if (bytes.length > maxBytes) throw new Error("FILE_TOO_LARGE");
+            const count = Math.ceil(bytes.length / chunkBytes);
+            const id = await api.beginUpload(bytes.length, count);
+            let done = 0;
+            try {
+                await each(count, async (i) => {
+                    const data = bytes.subarray(i * chunkBytes, (i + 1) * chunkBytes);
+                    await api.putChunk(id, i, data);
+                    done += data.length;
+                    onProgress?.(done);
+                });
+                await api.finishUpload(id);
+            } catch (e) {
+                void api.deleteFile(id).catch(() => { });
+                throw e;
+            }
+            return id;
+        },
+        async get(ref, onProgress) {
+            const info = await api.getFileInfo(ref);
+            if (info.size > maxBytes) throw new Error("FILE_TOO_LARGE");
+            const out = new Uint8Array(info.size);
+            const at: number[] = [];
+            let done = 0;
+            await each(info.chunkCount, async (i) => {
+                const data = await api.getChunk(ref, i);
+                at[i] = data.length;
+                // chunks are all chunkBytes but the last; trust the lengths only once they're all in
+                if (i * chunkBytes + data.length > info.size) throw new Error("SIZE_MISMATCH");
+                out.set(data, i * chunkBytes);
+                done += data.length;
+                onProgress?.(done);
+            });
+            if (at.reduce((n, l) => n + l, 0) !== info.size) throw new Error("SIZE_MISMATCH");
+            return out;
+        },
+        remove: (ref) => api.deleteFile(ref),
+    };
+}
+
+export type MemoryStorageOptions = {
+    maxBytes?: number;
+    maxChunkBytes?: number;
+    /** Each call waits this long, to look like a canister */
+    latencyMs?: number;
+};
+
+/** The storage canister's calls in memory, with its limits and error codes; for headless runs */
+export function createMemoryStorageApi(opts: MemoryStorageOptions = {}): StorageApi & { readonly files: number; readonly bytes: number } {
+    const maxBytes = opts.maxBytes ?? STORE_MAX_BYTES;
+    const maxChunkBytes = opts.maxChunkBytes ?? 1_048_576;
+    const latencyMs = opts.latencyMs ?? 0;
+    type Stored = { size: number; chunks: Array<Uint8Array | null>; finished: boolean };
+    const files = new Map<string, Stored>();
+    let nextId = 0;
+
+    const later = <T>(fn: () => T) => new Promise<T>((resolve, reject) => {
+        setTimeout(() => { try { resolve(fn()); } catch (e) { reject(e); } }, latencyMs);
+    });
+    const file = (id: string, finished?: boolean) => {
+        const f = files.get(id);
+        if (!f || (finished !== undefined && f.finished !== finished)) throw new Error("FILE_NOT_FOUND");
+        return f;
+    };
+
+    return {
+        get files() { return files.size; },
+        get bytes() { return [...files.values()].reduce((n, f) => n + f.size, 0); },
+        beginUpload: (size, chunkCount) => later(() => {
+            if (size <= 0 || size > maxBytes) throw new Error("FILE_TOO_LARGE");
+            if (chunkCount <= 0 || chunkCount * maxChunkBytes < size) throw new Error("INVALID_CHUNKS");
+            const id = `f${nextId++}`;
+            files.set(id, { size, chunks: Array(chunkCount).fill(null), finished: false });
+            return id;
+        }),
+        putChunk: (id, index, data) => later(() => {
+            const f = file(id, false);
+            if (index >= f.chunks.length || !data.length || data.length > maxChunkBytes) throw new Error("INVALID_CHUNK");
+            f.chunks[index] = data.slice();
+        }),
+        finishUpload: (id) => later(() => {
+            const f = file(id, false);
+            if (f.chunks.some((c) => !c)) throw new Error("MISSING_CHUNKS");
+            if (f.chunks.reduce((n, c) => n + c!.length, 0) !== f.size) throw new Error("SIZE_MISMATCH");
+            f.finished = true;
+        }),
+        getFileInfo: (id) => later(() => {
+            const f = file(id, true);
+            return { size: f.size, chunkCount: f.chunks.length };
+        }),
+        getChunk: (id, index) => later(() => {
+            const c = file(id, true).chunks[index];
+            if (!c) throw new Error("INVALID_CHUNK");
+            return c.slice();
+        }),
+        deleteFile: (id) => later(() => {
+            file(id);
+            files.delete(id);
+        }),
+    };
+}
+
+// === SEALED FILES ===
+
+/** Encrypt `bytes` under a fresh key and store them; the ref and the key (base64) to pass on */
+export async function putSealed(store: FileStore, bytes: Uint8Array<ArrayBuffer>, onProgress?: (done: number) => void): Promise<{ ref: string; key: string }> {
+    if (bytes.length + SEAL_OVERHEAD > store.maxBytes) throw new Error("FILE_TOO_LARGE");
+    const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt", "decrypt"]);
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ct = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, bytes));
+    const sealed = new Uint8Array(iv.length + ct.length);
+    sealed.set(iv);
+    sealed.set(ct, iv.length);
+    const ref = await store.put(sealed, onProgress);
+    return { ref, key: b64(new Uint8Array(await crypto.subtle.exportKey("raw", key))) };
+}
+
+/** Fetch and decrypt what putSealed stored; throws CORRUPT if it doesn't open with `key` */
+export async function getSealed(store: FileStore, ref: string, key: string, onProgress?: (done: number) => void): Promise<Uint8Array<ArrayBuffer>> {
+    const sealed = await store.get(ref, onProgress);
+    if (sealed.length <= SEAL_OVERHEAD) throw new Error("CORRUPT");
+    try {
+        const k = await crypto.subtle.importKey("raw", unb64(key), { name: "AES-GCM" }, false, ["decrypt"]);
+        return new Uint8Array(await crypto.subtle.decrypt({ name: "AES-GCM", iv: sealed.subarray(0, 12) }, k, sealed.subarray(12)));
+    } catch {
+        throw new Error("CORRUPT");
+    }
+}
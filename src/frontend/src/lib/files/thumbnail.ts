@@ -0,0 +1,39 @@
+/** ===== IMAGE THUMBNAILS =====
+ * A small JPEG data URL for an image being shared, small enough to ride in
+ * its (sealed) chat line so everyone sees a preview before fetching the
+ * file. Browser only (canvas).
+ */
+
+export const THUMB_MAX_CHARS = 3000;
+const THUMB_SIDES = [96, 72, 48];
+const THUMB_QUALITIES = [0.72, 0.55, 0.4];
+
+export const isImageMime = (mime: string) => /^image\/(png|jpeg|gif|webp|bmp)$/.test(mime);
+
+/** A preview of `file`, or undefined if it isn't an image we can draw or won't fit */
+export async function makeThumbnail(file: Blob, maxChars = THUMB_MAX_CHARS): Promise<string | undefined> {
+    if (!isImageMime(file.type) || typeof createImageBitmap !== "function") return undefined;
+    let bitmap: ImageBitmap;
+    try { bitmap = await createImageBitmap(file); } catch { return undefined; }
+    try {
+        const canvas = document.createElement("canvas");
+        const ctx = canvas.getContext("2d");
+        if (!ctx) return undefined;
+        for (const side of THUMB_SIDES) {
+            const scale = Math.min(1, side / Math.max(bitmap.width, bitmap.height));
+            canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+            canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+            // JPEG has no alpha: transparent parts on the chat panel's dark
+            ctx.fillStyle = "#0f172a";
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+            ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+            for (const q of THUMB_QUALITIES) {
+                const url = canvas.toDataURL("image/jpeg", q);
+                if (url.length <= maxChars) return url;
+            }
+        }
+        return undefined;
+    } finally {
+        bitmap.close();
+    }
+}
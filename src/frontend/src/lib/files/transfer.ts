@@ -0,0 +1,334 @@
+/** ===== FILE TRANSFER =====
+ * Files sent peer to peer over their own channel ("file"), opened only when
+ * someone asks for one (RoomSession.connect). Whoever shares a file keeps
+ * its bytes; whoever wants it asks from a byte offset and gets base64 chunks
+ * back, so a channel that drops halfway just means asking again from where
+ * it stopped. The sender holds off while the channel's send buffer is full
+ * (bufferedAmount), and what arrives is checked against the SHA-256 in the
+ * offer before it's handed over.
+ *
+ * Offers themselves go out as chat lines (see rich.ts), sealed like the rest.
+ */
+import { createEmitter, type Channel, type Unsubscribe } from "../net/transport";
+
+export const FILE_CHUNK_BYTES = 16 * 1024;
+/** Largest file sent peer to peer: both ends hold all of it in memory */
+export const P2P_MAX_BYTES = 50 * 1024 * 1024;
+export const MAX_FILE_NAME_CHARS = 120;
+const MAX_ID_CHARS = 64;
+const MAX_MIME_CHARS = 100;
+/** Chunks up to 64 KiB, as base64 */
+const MAX_CHUNK_CHARS = 4 * Math.ceil((64 * 1024) / 3);
+const DRAIN_POLL_MS = 15;
+/** Chunks sent between yields, for channels that can't tell how full they are */
+const YIELD_EVERY = 32;
+
+/** What an offer says about a file */
+export type FileMeta = { id: string; name: string; size: number; mime: string; sha256: string };
+
+/** On the "file" channel */
+export type FileWire =
+    /** Receiver: send `id` from byte `at` on (again, after a drop) */
+    | { t: "get"; id: string; at: number }
+    | { t: "chunk"; id: string; at: number; data: string }
+    /** Sender: that was the last chunk */
+    | { t: "end"; id: string }
+    /** Sender: not shared (any more) */
+    | { t: "gone"; id: string }
+    /** Receiver: don't bother, cancelled */
+    | { t: "stop"; id: string };
+
+export type TransferState = "waiting" | "active" | "done" | "failed";
+
+export type TransferProgress = {
+    id: string;
+    peer: string;
+    dir: "up" | "down";
+    done: number;
+    size: number;
+    state: TransferState;
+    /** Why it failed: TOO_LARGE, GONE, STALLED, CORRUPT, CANCELLED, SEND_FAILED */
+    error?: string;
+};
+
+export type FileTransferOptions = {
+    /** The file channel to `peer`, placed if there isn't one (RoomSession.connect) */
+    connect(peer: string): Channel | undefined;
+    chunkBytes?: number;
+    /** Stop sending while this much is queued on the channel... */
+    highWater?: number;
+    /** ...until it's down to this */
+    lowWater?: number;
+    maxBytes?: number;
+    /** A download with nothing arriving for this long asks again from where it got to */
+    stallMs?: number;
+    /** ...this many times in a row before giving up */
+    resumeTries?: number;
+    /** Progress events per transfer at most this often (the last one always goes out) */
+    progressMs?: number;
+};
+
+export type FileTransferEvents = {
+    progress: (p: TransferProgress) => void;
+};
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+const b64 = (bytes: Uint8Array) => {
+    let s = "";
+    for (const b of bytes) s += String.fromCharCode(b);
+    return btoa(s);
+};
+
+const unb64 = (s: string) => Uint8Array.from(atob(s), (c) => c.charCodeAt(0));
+
+const isId = (v: unknown): v is string => typeof v === "string" && v.length > 0 && v.length <= MAX_ID_CHARS;
+const isOffset = (v: unknown): v is number => Number.isSafeInteger(v) && (v as number) >= 0;
+
+export async function sha256Hex(bytes: Uint8Array<ArrayBuffer>): Promise<string> {
+    const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", bytes));
+    return Array.from(digest, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** A size for people: "512 B", "1.5 KB", "20.0 MB" */
+export function formatBytes(n: number): string {
+    return n < 1024 ? `${n} B` : n < 1024 * 1024 ? `${(n / 1024).toFixed(1)} KB` : `${(n / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/** A file message off the wire, or null if it doesn't check out */
+export function parseFileWire(v: unknown): FileWire | null {
+    const m = v as any;
+    if (!m || typeof m !== "object" || !isId(m.id)) return null;
+    switch (m.t) {
+        case "get":
+            return isOffset(m.at) ? { t: "get", id: m.id, at: m.at } : null;
+        case "chunk":
+            return isOffset(m.at) && typeof m.data === "string" && m.data.length > 0 && m.data.length <= MAX_CHUNK_CHARS
+                ? { t: "chunk", id: m.id, at: m.at, data: m.data }
+                : null;
+        case "end":
+        case "gone":
+        case "stop":
+            return { t: m.t, id: m.id };
+        default:
+            return null;
+    }
+}
+
+/** `meta` if it's a usable offer (sizes, lengths, a hex digest), else null */
+export function parseFileMeta(v: unknown): FileMeta | null {
+    const m = v as any;
+    if (!m || typeof m !== "object" || !isId(m.id)) return null;
+    if (typeof m.name !== "string" || !m.name || m.name.length > MAX_FILE_NAME_CHARS) return null;
+    if (!Number.isSafeInteger(m.size) || m.size <= 0) return null;
+    if (typeof m.mime !== "string" || m.mime.length > MAX_MIME_CHARS) return null;
+    if (typeof m.sha256 !== "string" || !/^[0-9a-f]{64}$/.test(m.sha256)) return null;
+    return { id: m.id, name: m.name, size: m.size, mime: m.mime, sha256: m.sha256 };
+}
+
+type Download = {
+    peer: string;
+    meta: FileMeta;
+    buf: Uint8Array<ArrayBuffer>;
+    got: number;
+    /** Asks in a row that brought nothing */
+    tries: number;
+    timer: ReturnType<typeof setTimeout> | null;
+    promise: Promise<Uint8Array<ArrayBuffer>>;
+    resolve: (bytes: Uint8Array<ArrayBuffer>) => void;
+    reject: (err: Error) => void;
+};
+
+export function createFileTransfers(opts: FileTransferOptions) {
+    const chunkBytes = opts.chunkBytes ?? FILE_CHUNK_BYTES;
+    const highWater = opts.highWater ?? 1024 * 1024;
+    const lowWater = opts.lowWater ?? 256 * 1024;
+    const maxBytes = opts.maxBytes ?? P2P_MAX_BYTES;
+    const stallMs = opts.stallMs ?? 10_000;
+    const resumeTries = opts.resumeTries ?? 5;
+    const progressMs = opts.progressMs ?? 100;
+    const emitter = createEmitter<FileTransferEvents>();
+
+    const shared = new Map<string, { meta: FileMeta; bytes: Uint8Array }>();
+    /** `${peer}|${id}` → the send run going out; a newer ask (or a stop) ends the older one */
+    const sending = new Map<string, number>();
+    let runs = 0;
+    const downloads = new Map<string, Download>();
+    const lastReport = new Map<string, number>();
+    let closed = false;
+
+    const key = (peer: string, id: string) => `${peer}|${id}`;
+
+    const report = (p: TransferProgress) => {
+        const k = `${p.dir}|${p.peer}|${p.id}`;
+        const now = Date.now();
+        if (p.state === "active" && now - (lastReport.get(k) ?? -Infinity) < progressMs) return;
+        if (p.state === "done" || p.state === "failed") lastReport.delete(k);
+        else lastReport.set(k, now);
+        emitter.emit("progress", p);
+    };
+
+    /** Send `msg` on `ch`; failures are the caller's to handle when `strict` */
+    const wire = (ch: Channel, msg: FileWire, strict = false) => {
+        try { ch.send(msg); } catch (e) { if (strict) throw e; }
+    };
+
+    // === SENDING ===
+    /** Wait for the channel's buffer to drain below low water once it's over high; false if it closed */
+    const drained = async (ch: Channel) => {
+        if ((ch.bufferedAmount ?? 0) <= highWater) return ch.open;
+        while (ch.open && (ch.bufferedAmount ?? 0) > lowWater) await sleep(DRAIN_POLL_MS);
+        return ch.open;
+    };
+
+    const serve = async (peer: string, ch: Channel, id: string, at: number) => {
+        const file = shared.get(id);
+        if (!file) {
+            wire(ch, { t: "gone", id });
+            return;
+        }
+        const k = key(peer, id);
+        const run = ++runs;
+        sending.set(k, run);
+        const { meta, bytes } = file;
+        const current = () => !closed && sending.get(k) === run && shared.has(id);
+        let offset = Math.min(at, bytes.length);
+        let sent = 0;
+        try {
+            while (offset < bytes.length) {
+                if (!(await drained(ch)) || !current()) return;
+                const data = bytes.subarray(offset, offset + chunkBytes);
+                wire(ch, { t: "chunk", id, at: offset, data: b64(data) }, true);
+                offset += data.length;
+                report({ id, peer, dir: "up", done: offset, size: meta.size, state: "active" });
+                if (++sent % YIELD_EVERY === 0) await sleep(0);
+            }
+            if (!current()) return;
+            wire(ch, { t: "end", id }, true);
+            report({ id, peer, dir: "up", done: meta.size, size: meta.size, state: "done" });
+        } catch {
+            // the receiver asks again once there's a channel
+            report({ id, peer, dir: "up", done: offset, size: meta.size, state: "failed", error: "SEND_FAILED" });
+        } finally {
+            if (sending.get(k) === run) sending.delete(k);
+        }
+    };
+
+    // === RECEIVING ===
+    const finish = (d: Download, err: Error | null) => {
+        if (d.timer) clearTimeout(d.timer);
+        d.timer = null;
+        const k = key(d.peer, d.meta.id);
+        if (downloads.get(k) !== d) return;
+        downloads.delete(k);
+        const base = { id: d.meta.id, peer: d.peer, dir: "down" as const, done: d.got, size: d.meta.size };
+        if (err) {
+            const ch = opts.connect(d.peer);
+            if (ch?.open && err.message !== "GONE") wire(ch, { t: "stop", id: d.meta.id });
+            report({ ...base, state: "failed", error: err.message });
+            d.reject(err);
+        } else {
+            report({ ...base, state: "done" });
+            d.resolve(d.buf);
+        }
+    };
+
+    const armStall = (d: Download) => {
+        if (d.timer) clearTimeout(d.timer);
+        d.timer = setTimeout(() => {
+            d.timer = null;
+            if (++d.tries > resumeTries) { finish(d, new Error("STALLED")); return; }
+            report({ id: d.meta.id, peer: d.peer, dir: "down", done: d.got, size: d.meta.size, state: "waiting" });
+            ask(d);
+        }, stallMs);
+    };
+
+    /** Ask for the rest; with no open channel yet, opened() asks once there is one */
+    const ask = (d: Download) => {
+        armStall(d);
+        const ch = opts.connect(d.peer);
+        if (ch?.open) wire(ch, { t: "get", id: d.meta.id, at: d.got });
+    };
+
+    const onChunk = (d: Download, at: number, data: string) => {
+        // a run we asked again over, still in flight
+        if (at < d.got) return;
+        if (at > d.got) { ask(d); return; }
+        let bytes: Uint8Array;
+        try { bytes = unb64(data); } catch { finish(d, new Error("CORRUPT")); return; }
+        if (d.got + bytes.length > d.meta.size) { finish(d, new Error("CORRUPT")); return; }
+        d.buf.set(bytes, d.got);
+        d.got += bytes.length;
+        d.tries = 0;
+        armStall(d);
+        report({ id: d.meta.id, peer: d.peer, dir: "down", done: d.got, size: d.meta.size, state: "active" });
+    };
+
+    const onEnd = async (d: Download) => {
+        if (d.got < d.meta.size) { ask(d); return; }
+        if (d.timer) clearTimeout(d.timer);
+        d.timer = null;
+        const hash = await sha256Hex(d.buf);
+        finish(d, hash === d.meta.sha256 ? null : new Error("CORRUPT"));
+    };
+
+    return {
+        /** Hand out `bytes` as `meta` to whoever asks, until unshare() */
+        share(meta: FileMeta, bytes: Uint8Array) {
+            shared.set(meta.id, { meta, bytes });
+        },
+        unshare(id: string) {
+            shared.delete(id);
+        },
+        isShared(id: string) {
+            return shared.has(id);
+        },
+        /** `meta` from `peer`, checked against its digest. Rejects with an Error named like TransferProgress.error */
+        fetch(peer: string, meta: FileMeta): Promise<Uint8Array<ArrayBuffer>> {
+            if (closed) return Promise.reject(new Error("CANCELLED"));
+            if (meta.size > maxBytes) return Promise.reject(new Error("TOO_LARGE"));
+            const have = downloads.get(key(peer, meta.id));
+            if (have) return have.promise;
+            let resolve!: (bytes: Uint8Array<ArrayBuffer>) => void;
+            let reject!: (err: Error) => void;
+            const promise = new Promise<Uint8Array<ArrayBuffer>>((res, rej) => { resolve = res; reject = rej; });
+            const d: Download = { peer, meta, buf: new Uint8Array(meta.size), got: 0, tries: 0, timer: null, promise, resolve, reject };
+            downloads.set(key(peer, meta.id), d);
+            report({ id: meta.id, peer, dir: "down", done: 0, size: meta.size, state: "waiting" });
+            ask(d);
+            return promise;
+        },
+        /** Stop downloading `id` (from whoever): its fetch rejects with CANCELLED */
+        cancel(id: string) {
+            for (const d of [...downloads.values()]) if (d.meta.id === id) finish(d, new Error("CANCELLED"));
+        },
+        /** Whatever arrives on the file channel (RoomSession.subscribe) */
+        handle(peer: string, data: unknown, channel: Channel) {
+            const msg = parseFileWire(data);
+            if (!msg || closed) return;
+            if (msg.t === "get") { void serve(peer, channel, msg.id, msg.at); return; }
+            if (msg.t === "stop") { sending.delete(key(peer, msg.id)); return; }
+            const d = downloads.get(key(peer, msg.id));
+            if (!d) return;
+            if (msg.t === "chunk") onChunk(d, msg.at, msg.data);
+            else if (msg.t === "end") void onEnd(d);
+            else finish(d, new Error("GONE"));
+        },
+        /** A file channel to `peer` opened: downloads waiting on it ask (again) */
+        opened(peer: string) {
+            for (const d of downloads.values()) if (d.peer === peer) ask(d);
+        },
+        on<K extends keyof FileTransferEvents>(event: K, fn: FileTransferEvents[K]): Unsubscribe {
+            return emitter.on(event, fn);
+        },
+        close() {
+            for (const d of [...downloads.values()]) finish(d, new Error("CANCELLED"));
+            closed = true;
+            shared.clear();
+            sending.clear();
+            emitter.clear();
+        },
+    };
+}
+
+export type FileTransfers = ReturnType<typeof createFileTransfers>;
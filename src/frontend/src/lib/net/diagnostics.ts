@@ -0,0 +1,164 @@
+/** ===== CONNECTION DIAGNOSTICS =====
+ * Per-peer connection quality from RTCPeerConnection.getStats(): round trip,
+ * jitter, packet loss and bitrates of the media call, the candidate pair in
+ * use, the audio codec, and how much is queued on the data channels.
+ *
+ * Loss and bitrates are rates, so the sampler keeps the previous counters
+ * per connection and reports the change since the last sample (null on the
+ * first one). Addresses never leave here: reports go into bug tickets.
+ */
+import { linkTypeOfPair, selectedPairOf, type LinkType } from "./ice";
+
+export type PairInfo = {
+    linkType: LinkType | null;
+    local: string | null;
+    remote: string | null;
+    /** udp / tcp, and for relay candidates how we reach the TURN server */
+    protocol: string | null;
+    relayProtocol: string | null;
+};
+
+export type MediaStats = {
+    rttMs: number | null;
+    jitterMs: number | null;
+    /** Share of incoming packets lost since the last sample, 0..100 */
+    lossPct: number | null;
+    inKbps: number | null;
+    outKbps: number | null;
+    codec: string | null;
+};
+
+export type PeerDiagnostics = {
+    peer: string;
+    at: number;
+    /** Candidate pair of the media call, or of the game channel without one */
+    pair: PairInfo | null;
+    rttMs: number | null;
+    media: MediaStats | null;
+    /** Bytes waiting to go out, per channel label */
+    buffered: Record<string, number | null>;
+    /** 0 (nothing known) to 4 bars */
+    level: number;
+};
+
+/** Counters carried from one sample to the next */
+type Counters = { at: number; bytesIn: number; bytesOut: number; packetsIn: number; lost: number };
+
+export type PeerSources = {
+    media?: RTCPeerConnection | null;
+    data?: RTCPeerConnection | null;
+    /** label → bufferedAmount (undefined when the transport can't tell) */
+    buffered?: Record<string, number | undefined>;
+};
+
+const round = (n: number, digits = 0) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+export function pairInfo(stats: RTCStatsReport): { info: PairInfo; rttMs: number | null } | null {
+    const pair = selectedPairOf(stats);
+    if (!pair) return null;
+    const local: any = stats.get(pair.localCandidateId);
+    const remote: any = stats.get(pair.remoteCandidateId);
+    const rtt = typeof pair.currentRoundTripTime === "number" ? round(pair.currentRoundTripTime * 1000) : null;
+    return {
+        info: {
+            linkType: linkTypeOfPair(stats, pair),
+            local: local?.candidateType ?? null,
+            remote: remote?.candidateType ?? null,
+            protocol: local?.protocol ?? null,
+            relayProtocol: local?.relayProtocol ?? null,
+        },
+        rttMs: rtt,
+    };
+}
+
+/** Media numbers from one report; `prev` is what the last one counted (rates need it) */
+export function mediaStats(stats: RTCStatsReport, prev: Counters | null, now: number): { media: MediaStats; counters: Counters } {
+    let bytesIn = 0, bytesOut = 0, packetsIn = 0, lost = 0;
+    let jitter: number | null = null;
+    let remoteRtt: number | null = null;
+    let codec: string | null = null;
+    stats.forEach((s: any) => {
+        if (s.type === "inbound-rtp") {
+            bytesIn += s.bytesReceived ?? 0;
+            packetsIn += s.packetsReceived ?? 0;
+            lost += Math.max(0, s.packetsLost ?? 0);
+            if (s.kind === "audio" || s.mediaType === "audio") {
+                if (typeof s.jitter === "number") jitter = Math.max(jitter ?? 0, s.jitter * 1000);
+                const c: any = s.codecId ? stats.get(s.codecId) : null;
+                if (c?.mimeType) codec = c.mimeType;
+            }
+        } else if (s.type === "outbound-rtp") {
+            bytesOut += s.bytesSent ?? 0;
+        } else if (s.type === "remote-inbound-rtp" && typeof s.roundTripTime === "number") {
+            remoteRtt = s.roundTripTime * 1000;
+        }
+    });
+    const counters: Counters = { at: now, bytesIn, bytesOut, packetsIn, lost };
+    const dt = prev ? (now - prev.at) / 1000 : 0;
+    const rate = (cur: number, old: number) => (dt > 0 && cur >= old ? round(((cur - old) * 8) / 1000 / dt) : null);
+    const dPackets = prev ? packetsIn - prev.packetsIn : 0;
+    const dLost = prev ? lost - prev.lost : 0;
+    return {
+        media: {
+            rttMs: remoteRtt === null ? null : round(remoteRtt),
+            jitterMs: jitter === null ? null : round(jitter, 1),
+            lossPct: prev && dPackets + dLost > 0 && dLost >= 0 ? round((dLost / (dPackets + dLost)) * 100, 1) : null,
+            inKbps: prev ? rate(bytesIn, prev.bytesIn) : null,
+            outKbps: prev ? rate(bytesOut, prev.bytesOut) : null,
+            codec,
+        },
+        counters,
+    };
+}
+
+/** Bars for the sidebar: round trip, loss and jitter each knock some off */
+export function signalLevel(d: { rttMs: number | null; media: MediaStats | null }): number {
+    const rtt = d.media?.rttMs ?? d.rttMs;
+    const loss = d.media?.lossPct ?? null;
+    const jitter = d.media?.jitterMs ?? null;
+    if (rtt === null && loss === null) return 0;
+    let level = 4;
+    if (rtt !== null) level -= rtt > 400 ? 2 : rtt > 200 ? 1 : 0;
+    if (loss !== null) level -= loss > 10 ? 3 : loss > 5 ? 2 : loss > 2 ? 1 : 0;
+    if (jitter !== null && jitter > 50) level -= 1;
+    return Math.max(1, level);
+}
+
+export function createDiagnosticsSampler(now: () => number = () => Date.now()) {
+    const counters = new Map<string, Counters>();
+
+    const statsOf = async (pc: RTCPeerConnection | null | undefined) => {
+        if (!pc || pc.connectionState === "closed") return null;
+        try { return await pc.getStats(); } catch { return null; }
+    };
+
+    return {
+        async sample(peer: string, src: PeerSources): Promise<PeerDiagnostics> {
+            const at = now();
+            const [mediaReport, dataReport] = await Promise.all([statsOf(src.media), statsOf(src.data)]);
+
+            let media: MediaStats | null = null;
+            if (mediaReport) {
+                const m = mediaStats(mediaReport, counters.get(peer) ?? null, at);
+                counters.set(peer, m.counters);
+                media = m.media;
+            } else {
+                counters.delete(peer);
+            }
+            const pair = (mediaReport && pairInfo(mediaReport)) || (dataReport && pairInfo(dataReport)) || null;
+            const buffered: Record<string, number | null> = {};
+            for (const [label, n] of Object.entries(src.buffered ?? {})) buffered[label] = n ?? null;
+
+            const d = { peer, at, pair: pair?.info ?? null, rttMs: pair?.rttMs ?? null, media, buffered, level: 0 };
+            d.level = signalLevel(d);
+            return d;
+        },
+        /** Drop what's kept for peers not in `live` */
+        retain(live: Iterable<string>) {
+            const keep = new Set(live);
+            for (const pid of [...counters.keys()]) if (!keep.has(pid)) counters.delete(pid);
+        },
+    };
+}
+
+export type DiagnosticsSampler = ReturnType<typeof createDiagnosticsSampler>;
@@ -0,0 +1,266 @@
+/** ===== ICE =====
+ * Which STUN / TURN servers connections use, and when they use which.
+ *
+ * Servers come from the environment (iceSettingsFromEnv):
+ *
+ *   VITE_STUN_URLS             comma-separated stun: urls (default: Google's public STUN)
+ *   VITE_TURN_URLS             comma-separated turn: / turns: urls, signed in with
+ *   VITE_TURN_USERNAME         ...these two; the older single-host form
+ *   VITE_TURN_CREDENTIAL       (VITE_TURN_HOST / _PORT / VITE_TURNS_PORT) still works
+ *   VITE_TURN_CREDENTIALS_URL  endpoint handing out time-limited TURN credentials,
+ *                              used over the static ones while it answers
+ *   VITE_ICE_STRATEGY          "auto" (default), "direct" (STUN only) or "relay" (TURN only)
+ *
+ * "auto" goes per peer: connections to a peer start out direct (host and
+ * STUN candidates) and the peer moves to relay once one of them fails, or is
+ * still checking after directTimeoutMs. Offers carry the mode they were made
+ * in (metadata.ice), and the answering end relays whenever either side wants it.
+ */
+import { createEmitter, type Unsubscribe } from "./transport";
+
+export type IceMode = "direct" | "relay";
+export type IceStrategy = "auto" | IceMode;
+/** What a connection ended up on: host (LAN / public address), srflx (through NAT via STUN), relay (TURN) */
+export type LinkType = "host" | "srflx" | "relay";
+
+export type TurnServer = { urls: string[]; username?: string; credential?: string };
+
+export type IceSettings = {
+    stun: string[];
+    turn: TurnServer[];
+    credentialsUrl?: string;
+    strategy: IceStrategy;
+};
+
+/** What transports need: a config per connection, and a look at how it went */
+export interface IceSelector {
+    /** Mode new connections to `peer` are made in */
+    modeOf(peer: string): IceMode;
+    /** Config for a new connection to `peer`; `offered` is the mode their offer was made in */
+    configFor(peer: string, offered?: unknown): RTCConfiguration;
+    /** Follow a connection made with configFor(peer); a failed direct one moves the peer to relay */
+    watch(peer: string, pc: RTCPeerConnection): void;
+}
+
+export type IceEvents = {
+    /** `peer` moved to relay; connections to it that haven't come up won't */
+    escalate: (peer: string) => void;
+};
+
+export type IceOptions = {
+    fetch?: typeof fetch;
+    /** A direct connection still checking after this long counts as failed */
+    directTimeoutMs?: number;
+    /** Wait at most this long for credentials in ready() */
+    readyTimeoutMs?: number;
+};
+
+export type Ice = IceSelector & {
+    readonly settings: IceSettings;
+    /** Credentials fetched (or given up on for now); configs made before use the static servers */
+    ready(): Promise<void>;
+    /** Move `peer` to relay; false if it's there already, or there is no TURN to move to */
+    escalate(peer: string): boolean;
+    on<K extends keyof IceEvents>(event: K, fn: IceEvents[K]): Unsubscribe;
+    dispose(): void;
+};
+
+const DEFAULT_STUN = ["stun:stun.l.google.com:19302", "stun:stun1.l.google.com:19302"];
+const BASE_CONFIG: RTCConfiguration = { bundlePolicy: "balanced", rtcpMuxPolicy: "require" };
+const RETRY_CREDENTIALS_MS = 30_000;
+
+const list = (v: unknown): string[] =>
+    typeof v === "string" ? v.split(",").map((s) => s.trim()).filter(Boolean) : [];
+
+const isStun = (url: string) => /^stuns?:/i.test(url);
+
+export function iceSettingsFromEnv(env: Record<string, unknown>): IceSettings {
+    const str = (k: string) => (typeof env[k] === "string" && (env[k] as string).trim()) || undefined;
+    const stun = list(env.VITE_STUN_URLS);
+    const turnUrls = list(env.VITE_TURN_URLS);
+    const host = str("VITE_TURN_HOST");
+    if (host) {
+        const port = str("VITE_TURN_PORT") ?? "3478";
+        const tlsPort = str("VITE_TURNS_PORT") ?? "5349";
+        turnUrls.push(
+            `turn:${host}:${port}?transport=udp`,
+            `turn:${host}:${port}?transport=tcp`,
+            `turns:${host}:${tlsPort}?transport=tcp`,
+        );
+    }
+    const strategy = str("VITE_ICE_STRATEGY")?.toLowerCase();
+    return {
+        stun: stun.length ? stun : DEFAULT_STUN,
+        turn: turnUrls.length
+            ? [{ urls: [...new Set(turnUrls)], username: str("VITE_TURN_USERNAME"), credential: str("VITE_TURN_CREDENTIAL") }]
+            : [],
+        credentialsUrl: str("VITE_TURN_CREDENTIALS_URL"),
+        strategy: strategy === "direct" || strategy === "relay" ? strategy : "auto",
+    };
+}
+
+/**
+ * Read a credentials endpoint's answer. Takes the TURN REST API shape
+ * ({ username, password, ttl, uris }) and the iceServers shape most hosted
+ * TURN services return ({ iceServers: [...] | {...}, ttl? }).
+ */
+export function parseTurnCredentials(json: unknown): { stun: string[]; turn: TurnServer[]; ttlMs: number } | null {
+    if (!json || typeof json !== "object") return null;
+    const o = json as Record<string, any>;
+    const ttl = Number(o.ttl);
+    const ttlMs = Number.isFinite(ttl) && ttl > 0 ? ttl * 1000 : 3_600_000;
+
+    const servers: RTCIceServer[] = o.iceServers
+        ? ([] as RTCIceServer[]).concat(o.iceServers)
+        : [{ urls: o.uris ?? o.urls, username: o.username, credential: o.password ?? o.credential }];
+
+    const stun: string[] = [];
+    const turn: TurnServer[] = [];
+    for (const s of servers) {
+        const urls = ([] as unknown[]).concat(s?.urls ?? []).filter((u): u is string => typeof u === "string");
+        stun.push(...urls.filter(isStun));
+        const relays = urls.filter((u) => !isStun(u));
+        if (!relays.length) continue;
+        if (typeof s.username !== "string" || typeof s.credential !== "string") return null;
+        turn.push({ urls: relays, username: s.username, credential: s.credential });
+    }
+    return turn.length ? { stun, turn, ttlMs } : null;
+}
+
+export function createIce(settings: IceSettings, opts: IceOptions = {}): Ice {
+    const em = createEmitter<IceEvents>();
+    const directTimeoutMs = opts.directTimeoutMs ?? 8_000;
+    const relayed = new Set<string>();
+    let fetched: { stun: string[]; turn: TurnServer[]; expiresAt: number } | null = null;
+    let inflight: Promise<void> | null = null;
+    let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+    let disposed = false;
+
+    const turn = () => (fetched && fetched.expiresAt > Date.now() ? fetched.turn : settings.turn);
+    const stun = () => [...new Set([...settings.stun, ...(fetched?.stun ?? [])])];
+    const canRelay = () => turn().length > 0;
+
+    const schedule = (ms: number) => {
+        if (disposed) return;
+        if (refreshTimer) clearTimeout(refreshTimer);
+        refreshTimer = setTimeout(() => { void refresh(); }, ms);
+    };
+
+    const refresh = (): Promise<void> => {
+        const url = settings.credentialsUrl;
+        if (!url || disposed) return Promise.resolve();
+        if (inflight) return inflight;
+        const get = opts.fetch ?? globalThis.fetch.bind(globalThis);
+        inflight = (async () => {
+            try {
+                const res = await get(url);
+                if (!res.ok) throw new Error(`HTTP ${res.status}`);
+                const creds = parseTurnCredentials(await res.json());
+                if (!creds) throw new Error("no TURN servers in the answer");
+                fetched = { stun: creds.stun, turn: creds.turn, expiresAt: Date.now() + creds.ttlMs };
+                // renew well before they run out
+                schedule(Math.max(creds.ttlMs * 0.8, 10_000));
+            } catch (e) {
+                console.warn(`[ice] TURN credentials from ${url} failed:`, e);
+                schedule(RETRY_CREDENTIALS_MS);
+            } finally {
+                inflight = null;
+            }
+        })();
+        return inflight;
+    };
+
+    const modeOf = (peer: string): IceMode => {
+        if (settings.strategy !== "auto") return settings.strategy === "relay" && canRelay() ? "relay" : "direct";
+        return relayed.has(peer) && canRelay() ? "relay" : "direct";
+    };
+
+    const escalate = (peer: string) => {
+        if (settings.strategy !== "auto" || relayed.has(peer) || !canRelay()) return false;
+        relayed.add(peer);
+        em.emit("escalate", peer);
+        return true;
+    };
+
+    return {
+        settings,
+        modeOf,
+        configFor(peer, offered) {
+            // the other end already had to relay: don't make it find out again
+            if (offered === "relay" && settings.strategy === "auto" && canRelay()) relayed.add(peer);
+            if (modeOf(peer) === "relay") {
+                return { ...BASE_CONFIG, iceServers: turn(), iceTransportPolicy: "relay" };
+            }
+            return { ...BASE_CONFIG, iceServers: [{ urls: stun() }], iceTransportPolicy: "all" };
+        },
+        watch(peer, pc) {
+            if (settings.strategy !== "auto" || modeOf(peer) === "relay") return;
+            const to = setTimeout(() => {
+                // still "new": nobody answered, which isn't the network's fault
+                if (pc.iceConnectionState === "checking") escalate(peer);
+            }, directTimeoutMs);
+            const onChange = () => {
+                const s = pc.iceConnectionState;
+                if (s === "failed") escalate(peer);
+                if (s === "connected" || s === "completed" || s === "failed" || s === "closed") {
+                    clearTimeout(to);
+                    pc.removeEventListener("iceconnectionstatechange", onChange);
+                }
+            };
+            pc.addEventListener("iceconnectionstatechange", onChange);
+        },
+        ready() {
+            if (!settings.credentialsUrl || (fetched && fetched.expiresAt > Date.now())) return Promise.resolve();
+            return new Promise<void>((resolve) => {
+                const to = setTimeout(resolve, opts.readyTimeoutMs ?? 4_000);
+                void refresh().then(() => { clearTimeout(to); resolve(); });
+            });
+        },
+        escalate,
+        on: (event, fn) => em.on(event, fn),
+        dispose() {
+            disposed = true;
+            if (refreshTimer) clearTimeout(refreshTimer);
+            refreshTimer = null;
+            em.clear();
+        },
+    };
+}
+
+/** What the selected candidate pair of `pc` runs over (null until there is one) */
+export async function linkTypeOf(pc: RTCPeerConnection): Promise<LinkType | null> {
+    let stats: RTCStatsReport;
+    try { stats = await pc.getStats(); } catch { return null; }
+    const pair = selectedPairOf(stats);
+    return pair ? linkTypeOfPair(stats, pair) : null;
+}
+
+/** The candidate pair a stats report says is in use */
+export function selectedPairOf(stats: RTCStatsReport): any | null {
+    let pair: any = null;
+    stats.forEach((s: any) => {
+        if (s.type === "transport" && s.selectedCandidatePairId) pair = stats.get(s.selectedCandidatePairId) ?? pair;
+    });
+    if (!pair) {
+        // Firefox has no transport stats; it flags the pair itself
+        stats.forEach((s: any) => {
+            if (s.type === "candidate-pair" && (s.selected || (s.nominated && s.state === "succeeded"))) pair = s;
+        });
+    }
+    return pair;
+}
+
+export function linkTypeOfPair(stats: RTCStatsReport, pair: any): LinkType | null {
+    const types = [stats.get(pair.localCandidateId), stats.get(pair.remoteCandidateId)].map((c: any) => c?.candidateType);
+    if (types.includes("relay")) return "relay";
+    if (types.includes("srflx") || types.includes("prflx")) return "srflx";
+    return types.includes("host") ? "host" : null;
+}
+
+let shared: Ice | null = null;
+
+/** The app's ICE setup, from the environment; lobby and rooms share credentials and what they learned */
+export function sharedIce(): Ice {
+    if (!shared) shared = createIce(iceSettingsFromEnv(import.meta.env));
+    return shared;
+}
@@ -0,0 +1,280 @@
+/** ===== INTEREST MANAGEMENT =====
+ * Which peers a client keeps direct connections to, so rooms don't need a
+ * full mesh:
+ *
+ *  - media calls only to peers we can hear (or are about to),
+ *  - game/chat DataConnections to peers in view plus a few overlay
+ *    neighbours,
+ *  - everyone else's position arrives by gossip over the overlay.
+ *
+ * The overlay is a ring over the sorted peer ids with ±1 and ±√n chords.
+ * Every client derives it from the same member list, so links are symmetric
+ * and the graph stays connected with a diameter of roughly √n hops.
+ */
+import type { AudioRule } from "../../components/world/map";
+import type { PosPacket } from "./positionSync";
+import { wrapDelta16 } from "./positionSync";
+
+export type TilePos = { col: number; row: number };
+
+const cheb = (a: TilePos, b: TilePos) => Math.max(Math.abs(a.col - b.col), Math.abs(a.row - b.row));
+
+// === OVERLAY ===
+export function overlayNeighbours(self: string, members: Iterable<string>): Set<string> {
+    const ids = [...new Set([...members, self])].sort();
+    const n = ids.length;
+    const out = new Set<string>();
+    if (n < 2) return out;
+    const i = ids.indexOf(self);
+    const chord = Math.max(2, Math.round(Math.sqrt(n)));
+    for (const d of [1, chord]) {
+        if (d >= n) continue;
+        out.add(ids[(i + d) % n]);
+        out.add(ids[(i - d + n) % n]);
+    }
+    out.delete(self);
+    return out;
+}
+
+// === EARSHOT ===
+export type MediaRangeOptions = {
+    defaultRadiusTiles: number;
+    /** Calls come up this many tiles early, so first words aren't clipped */
+    marginTiles: number;
+};
+
+/**
+ * The calcAudibility rules seen from both ends, widened by a margin: radius
+ * areas reach a few tiles further, and someone standing near a closed room's
+ * doorway already counts as inside it.
+ */
+export function createMediaRange(ruleAt: (col: number, row: number) => AudioRule, opts: MediaRangeOptions) {
+    const m = opts.marginTiles;
+    const reachOf = (r: AudioRule) => (r.kind === "radius" ? r.radius : opts.defaultRadiusTiles);
+    const nearZone = (p: TilePos, zoneId: number) => {
+        for (let dr = -m; dr <= m; dr++) {
+            for (let dc = -m; dc <= m; dc++) {
+                const r = ruleAt(p.col + dc, p.row + dr);
+                if (r.kind === "room" && r.zoneId === zoneId) return true;
+            }
+        }
+        return false;
+    };
+
+    return (a: TilePos, b: TilePos) => {
+        const ra = ruleAt(a.col, a.row);
+        const rb = ruleAt(b.col, b.row);
+        if (ra.kind === "room" && rb.kind === "room") return ra.zoneId === rb.zoneId;
+        if (ra.kind === "room") return nearZone(b, ra.zoneId);
+        if (rb.kind === "room") return nearZone(a, rb.zoneId);
+        return cheb(a, b) <= Math.max(reachOf(ra), reachOf(rb)) + m;
+    };
+}
+
+// === PLANNER ===
+export type InterestOptions = {
+    /** Direct data link to anyone within this many tiles (Chebyshev) */
+    viewRadiusTiles?: number;
+    /** Keep links this long after they stop being wanted (hysteresis) */
+    lingerMs?: number;
+    /** Rooms smaller than this just use the full mesh for data */
+    fullMeshBelow?: number;
+};
+
+export type InterestInput = {
+    self: string;
+    now: number;
+    /** Every peer known to be in the room */
+    members: Iterable<string>;
+    tileOf(pid: string): TilePos | null;
+    /** Media wanted between two tiles (either side can hear the other, with a margin) */
+    mediaBetween(a: TilePos, b: TilePos): boolean;
+};
+
+export type InterestPlan = {
+    data: Set<string>;
+    media: Set<string>;
+    overlay: Set<string>;
+};
+
+export type InterestManager = {
+    plan(input: InterestInput): InterestPlan;
+    readonly last: InterestPlan;
+};
+
+export function createInterestManager(opts: InterestOptions = {}): InterestManager {
+    const viewRadius = opts.viewRadiusTiles ?? 10;
+    const lingerMs = opts.lingerMs ?? 4000;
+    const fullMeshBelow = opts.fullMeshBelow ?? 8;
+    const dataUntil = new Map<string, number>();
+    const mediaUntil = new Map<string, number>();
+    let last: InterestPlan = { data: new Set(), media: new Set(), overlay: new Set() };
+
+    const settle = (until: Map<string, number>, wanted: Set<string>, known: Set<string>, now: number) => {
+        for (const pid of wanted) until.set(pid, now + lingerMs);
+        const out = new Set<string>();
+        for (const [pid, t] of until) {
+            if (!known.has(pid) || t < now) until.delete(pid);
+            else out.add(pid);
+        }
+        return out;
+    };
+
+    return {
+        plan({ self, now, members, tileOf, mediaBetween }) {
+            const known = new Set([...members].filter((p) => p !== self));
+            const overlay = overlayNeighbours(self, known);
+            const me = tileOf(self);
+            const wantData = new Set(known.size < fullMeshBelow ? known : overlay);
+            const wantMedia = new Set<string>();
+
+            if (me) {
+                for (const pid of known) {
+                    const p = tileOf(pid);
+                    if (!p) continue;
+                    if (cheb(p, me) <= viewRadius) wantData.add(pid);
+                    if (mediaBetween(me, p)) {
+                        wantMedia.add(pid);
+                        wantData.add(pid);
+                    }
+                }
+            }
+
+            last = {
+                data: settle(dataUntil, wantData, known, now),
+                media: settle(mediaUntil, wantMedia, known, now),
+                overlay,
+            };
+            return last;
+        },
+        get last() { return last; },
+    };
+}
+
+// === POSITION GOSSIP ===
+/** [peerId, seq, t, x, y, flags] — origin-stamped, relayed unchanged */
+export type GossipEntry = [string, number, number, number, number, number];
+
+const G_MOVING = 1;
+const G_LEFT = 2;
+/** Bits above these carry per-peer state that isn't about position (see relay.ts) */
+const G_POSE_BITS = G_MOVING | G_LEFT;
+
+export const gossipEntryOf = (pid: string, p: PosPacket, extra = 0): GossipEntry =>
+    [pid, p.seq & 0xffff, Math.floor(p.t) & 0xffff, Math.round(p.x), Math.round(p.y), (p.moving ? G_MOVING : 0) | (p.face === -1 ? G_LEFT : 0) | (extra & ~G_POSE_BITS)];
+
+export const packetOfGossip = (e: GossipEntry): PosPacket => ({
+    seq: e[1],
+    t: e[2],
+    x: e[3],
+    y: e[4],
+    face: e[5] & G_LEFT ? -1 : 1,
+    moving: !!(e[5] & G_MOVING),
+    heartbeat: false,
+});
+
+export type GossipOptions = {
+    self: string;
+    /** Forget peers whose entry hasn't been refreshed for this long */
+    ttlMs?: number;
+    /** Origin re-announces an unchanged position this often */
+    heartbeatMs?: number;
+};
+
+export type GossipTable = {
+    /** Our own position (plus extra flag bits); bumps the sequence when changed or due for a heartbeat */
+    setOwn(x: number, y: number, face: 1 | -1, moving: boolean, now: number, extra?: number): void;
+    /** Merge entries from a neighbour; returns the ones that were news */
+    merge(entries: GossipEntry[], now: number): GossipEntry[];
+    /** Entries that changed since the last call (what to relay this round) */
+    takeChanged(): GossipEntry[];
+    /** Table for a neighbour that just connected (entries still being refreshed) */
+    all(): GossipEntry[];
+    /** Drop stale peers; returns their ids */
+    expire(now: number): string[];
+    has(pid: string, now: number): boolean;
+    /** Flag bits beyond moving/facing, or null for an unknown peer */
+    flagsOf(pid: string): number | null;
+    readonly size: number;
+};
+
+export function createGossipTable(opts: GossipOptions): GossipTable {
+    const ttlMs = opts.ttlMs ?? 8000;
+    const heartbeatMs = opts.heartbeatMs ?? 2000;
+    const table = new Map<string, { e: GossipEntry; seenAt: number }>();
+    // last sequence of expired peers, so a neighbour's stale copy can't bring them back
+    const tombs = new Map<string, { seq: number; at: number }>();
+    const changed = new Set<string>();
+    let lastNow = 0;
+    let ownSeq = 0;
+    let ownAt = -Infinity;
+
+    const put = (e: GossipEntry, now: number) => {
+        table.set(e[0], { e, seenAt: now });
+        changed.add(e[0]);
+    };
+
+    return {
+        setOwn(x, y, face, moving, now, extra = 0) {
+            lastNow = now;
+            const cur = table.get(opts.self)?.e;
+            const same = cur && cur[3] === Math.round(x) && cur[4] === Math.round(y) &&
+                (cur[5] & G_MOVING ? true : false) === moving && (cur[5] & G_LEFT ? -1 : 1) === face &&
+                (cur[5] & ~G_POSE_BITS) === (extra & ~G_POSE_BITS);
+            if (same && now - ownAt < heartbeatMs) return;
+            ownSeq = (ownSeq + 1) & 0xffff;
+            ownAt = now;
+            put(gossipEntryOf(opts.self, { seq: ownSeq, t: now, x, y, face, moving, heartbeat: false }, extra), now);
+        },
+        merge(entries, now) {
+            lastNow = now;
+            const news: GossipEntry[] = [];
+            for (const e of entries) {
+                if (e[0] === opts.self) continue;
+                const cur = table.get(e[0]);
+                if (cur && wrapDelta16(cur.e[1], e[1]) <= 0) continue;
+                const tomb = tombs.get(e[0]);
+                if (tomb && wrapDelta16(tomb.seq, e[1]) <= 0) continue;
+                tombs.delete(e[0]);
+                put(e, now);
+                news.push(e);
+            }
+            return news;
+        },
+        takeChanged() {
+            const out: GossipEntry[] = [];
+            for (const pid of changed) {
+                const row = table.get(pid);
+                if (row) out.push(row.e);
+            }
+            changed.clear();
+            return out;
+        },
+        // a live peer heartbeats every heartbeatMs; anything quieter than twice that
+        // may already be gone, and handing it on would stamp it fresh again
+        all: () => [...table.values()].filter((r) => r.e[0] === opts.self || lastNow - r.seenAt <= heartbeatMs * 2).map((r) => r.e),
+        expire(now) {
+            lastNow = now;
+            const gone: string[] = [];
+            for (const [pid, row] of table) {
+                if (pid !== opts.self && now - row.seenAt > ttlMs) {
+                    table.delete(pid);
+                    changed.delete(pid);
+                    tombs.set(pid, { seq: row.e[1], at: now });
+                    gone.push(pid);
+                }
+            }
+            for (const [pid, tomb] of tombs) if (now - tomb.at > ttlMs * 4) tombs.delete(pid);
+            return gone;
+        },
+        has: (pid, now) => {
+            const row = table.get(pid);
+            return !!row && now - row.seenAt <= ttlMs;
+        },
+        flagsOf: (pid) => {
+            const row = table.get(pid);
+            return row ? row.e[5] & ~G_POSE_BITS : null;
+        },
+        get size() { return table.size; },
+    };
+}
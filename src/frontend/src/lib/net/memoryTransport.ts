@@ -0,0 +1,272 @@
+/** ===== MEMORY TRANSPORT =====
+ * In-process Transport for headless runs: every transport made from one
+ * network can reach the others by id. Delivery is asynchronous and JSON
+ * round-trips like a real channel; calls hand the MediaStream objects
+ * across as they are (nothing is encoded).
+ *
+ * cut(id) takes an id off the network the way a dropped Wi-Fi does:
+ * signaling goes, its links go "disconnected" (messages are lost) and fail
+ * after iceFailMs. Once restore(id)'d, an ICE restart from the end that
+ * placed a link brings it back.
+ */
+import {
+    createEmitter,
+    type Channel,
+    type ChannelEvents,
+    type MediaLink,
+    type MediaLinkEvents,
+    type Transport,
+    type TransportEvents,
+} from "./transport";
+
+export type MemoryNetworkOptions = {
+    /** One-way delay for signaling and channel messages */
+    latencyMs?: number;
+    /** A link still "disconnected" after this long fails and closes */
+    iceFailMs?: number;
+};
+
+type Endpoint = {
+    emitChannel(c: Channel): void;
+    emitCall(l: MediaLink): void;
+    emitOnline(online: boolean): void;
+    /** Signaling dropped: new channels and calls can't reach it */
+    online: boolean;
+    /** Everything open on this endpoint, closed on destroy */
+    live: Set<{ close(): void }>;
+};
+
+/** One link (channel or call) as the network sees it */
+type Wire = {
+    ends: [string, string];
+    /** The network went away under it */
+    drop(): void;
+};
+
+export function createMemoryNetwork(netOpts: MemoryNetworkOptions = {}) {
+    const latency = netOpts.latencyMs ?? 5;
+    const iceFailMs = netOpts.iceFailMs ?? 10_000;
+    const endpoints = new Map<string, Endpoint>();
+    const cut = new Set<string>();
+    const wires = new Set<Wire>();
+    const later = (fn: () => void) => { setTimeout(fn, latency); };
+    const disconnect = (id: string) => {
+        const ep = endpoints.get(id);
+        if (ep?.online) ep.emitOnline(false);
+    };
+
+    /**
+     * ICE of one link: "connected" once up, "disconnected" while cut off,
+     * back after restart() (placing end only) if both ends can be reached.
+     */
+    const linkIce = (a: string, b: string, emit: (state: RTCIceConnectionState) => void, close: () => void) => {
+        let state: RTCIceConnectionState = "new";
+        let failTimer: ReturnType<typeof setTimeout> | null = null;
+        const set = (s: RTCIceConnectionState) => {
+            state = s;
+            emit(s);
+        };
+        const wire: Wire = {
+            ends: [a, b],
+            drop() {
+                if (state !== "connected") return;
+                set("disconnected");
+                failTimer = setTimeout(() => {
+                    if (state !== "disconnected") return;
+                    set("failed");
+                    close();
+                }, iceFailMs);
+            },
+        };
+        wires.add(wire);
+        return {
+            get flowing() { return state === "connected"; },
+            up() {
+                if (state === "new") set("connected");
+            },
+            restart(originator: boolean) {
+                if (state === "failed" || state === "closed") return false;
+                if (!originator || state !== "disconnected") return true;
+                later(() => {
+                    if (state !== "disconnected" || cut.has(a) || cut.has(b)) return;
+                    if (failTimer) clearTimeout(failTimer);
+                    set("connected");
+                });
+                return true;
+            },
+            end() {
+                wires.delete(wire);
+                if (failTimer) clearTimeout(failTimer);
+                state = "closed";
+            },
+        };
+    };
+
+    /** Two ends of one channel */
+    const channelPair = (a: string, b: string, label: string, liveA: Endpoint["live"], liveB: Endpoint["live"]) => {
+        const ems = [createEmitter<ChannelEvents>(), createEmitter<ChannelEvents>()];
+        let open = false;
+        let closed = false;
+        const close = () => {
+            if (closed) return;
+            closed = true;
+            open = false;
+            ice.end();
+            liveA.delete(ends[0]);
+            liveB.delete(ends[1]);
+            later(() => ems.forEach((em) => em.emit("close")));
+        };
+        const ice = linkIce(a, b, (s) => ems.forEach((em) => em.emit("ice", s)), close);
+        const end = (i: 0 | 1): Channel => ({
+            peer: i === 0 ? b : a,
+            label,
+            get open() { return open; },
+            bufferedAmount: 0,
+            send(data) {
+                if (!open) throw new Error(`channel ${label} is not open`);
+                if (!ice.flowing) return; // lost on the way, as with a dead network
+                const wire = JSON.stringify(data);
+                later(() => { if (!closed) ems[1 - i].emit("data", JSON.parse(wire)); });
+            },
+            close,
+            restartIce: () => ice.restart(i === 0),
+            on: (event: any, fn: any) => { ems[i].on(event, fn); },
+        });
+        const ends = [end(0), end(1)];
+        liveA.add(ends[0]);
+        liveB.add(ends[1]);
+        return {
+            ends,
+            opened() {
+                if (closed) return;
+                open = true;
+                ice.up();
+                ems.forEach((em) => em.emit("open"));
+            },
+        };
+    };
+
+    const callPair = (a: string, b: string, metadata: unknown, stream: MediaStream, liveA: Endpoint["live"], liveB: Endpoint["live"]) => {
+        const ems = [createEmitter<MediaLinkEvents>(), createEmitter<MediaLinkEvents>()];
+        const local: Array<MediaStream | undefined> = [stream, undefined];
+        let open = false;
+        let closed = false;
+        const close = () => {
+            if (closed) return;
+            closed = true;
+            open = false;
+            ice.end();
+            liveA.delete(ends[0]);
+            liveB.delete(ends[1]);
+            later(() => ems.forEach((em) => em.emit("close")));
+        };
+        const ice = linkIce(a, b, (s) => ems.forEach((em) => em.emit("ice", s)), close);
+        const end = (i: 0 | 1): MediaLink => ({
+            peer: i === 0 ? b : a,
+            metadata,
+            get open() { return open; },
+            get localStream() { return local[i]; },
+            answer(back) {
+                if (i !== 1 || open || closed) return;
+                local[1] = back;
+                later(() => {
+                    if (closed) return;
+                    open = true;
+                    ice.up();
+                    if (back) ems[0].emit("stream", back);
+                    ems[1].emit("stream", stream);
+                });
+            },
+            close,
+            restartIce: () => ice.restart(i === 0),
+            on: (event: any, fn: any) => { ems[i].on(event, fn); },
+        });
+        const ends = [end(0), end(1)];
+        liveA.add(ends[0]);
+        liveB.add(ends[1]);
+        return ends;
+    };
+
+    return {
+        /** Ids currently registered */
+        online: () => [...endpoints.entries()].filter(([, e]) => e.online).map(([id]) => id),
+        /** Simulate a signaling outage for one id (existing links stay up) */
+        disconnect,
+        /** Take `id` off the network: signaling drops and its links go "disconnected" */
+        cut(id: string) {
+            cut.add(id);
+            disconnect(id);
+            for (const w of [...wires]) if (w.ends.includes(id)) w.drop();
+        },
+        /** Back on the network; signaling and links still have to be resumed */
+        restore(id: string) {
+            cut.delete(id);
+        },
+        transport(): Transport {
+            const em = createEmitter<TransportEvents>();
+            let self: string | null = null;
+            let ep: Endpoint | null = null;
+
+            const mine = () => {
+                if (!self || !ep) throw new Error("transport not open");
+                return { self, ep };
+            };
+
+            return {
+                async open(id) {
+                    await new Promise((r) => setTimeout(r, latency));
+                    if (cut.has(id) || endpoints.has(id)) return false;
+                    ep = {
+                        emitChannel: (c) => em.emit("channel", c),
+                        emitCall: (l) => em.emit("call", l),
+                        emitOnline(online) {
+                            this.online = online;
+                            em.emit(online ? "open" : "disconnected");
+                        },
+                        online: true,
+                        live: new Set(),
+                    };
+                    endpoints.set(id, ep);
+                    self = id;
+                    return true;
+                },
+                connect(peer, label) {
+                    const { self: me, ep: here } = mine();
+                    const there = endpoints.get(peer);
+                    const pair = channelPair(me, peer, label, here.live, there?.live ?? new Set());
+                    later(() => {
+                        if (!here.online || !there?.online || endpoints.get(peer) !== there) return; // never opens, like an unanswered offer
+                        there.emitChannel(pair.ends[1]);
+                        later(() => pair.opened());
+                    });
+                    return pair.ends[0];
+                },
+                call(peer, stream, metadata) {
+                    const { self: me, ep: here } = mine();
+                    const there = endpoints.get(peer);
+                    const ends = callPair(me, peer, metadata, stream, here.live, there?.live ?? new Set());
+                    later(() => {
+                        if (here.online && there?.online && endpoints.get(peer) === there) there.emitCall(ends[1]);
+                    });
+                    return ends[0];
+                },
+                on(event: any, fn: any) {
+                    em.on(event, fn);
+                },
+                reconnect() {
+                    const at = ep;
+                    if (at) later(() => { if (ep === at && !at.online && !cut.has(self!)) at.emitOnline(true); });
+                },
+                async destroy() {
+                    if (!self || !ep) return;
+                    for (const l of [...ep.live]) l.close();
+                    if (endpoints.get(self) === ep) endpoints.delete(self);
+                    self = null;
+                    ep = null;
+                },
+            };
+        },
+    };
+}
+
+export type MemoryNetwork = ReturnType<typeof createMemoryNetwork>;
@@ -0,0 +1,22 @@
+/** ===== PEER IDS =====
+ * A room peer id is the room id and the principal, each cut down to what
+ * PeerJS accepts, so anyone in the room can tell whose a peer id is.
+ */
+const idSafe = (s: string) => String(s).replace(/[^a-zA-Z0-9_-]/g, "");
+
+export const peerIdForPrincipal = (roomId: string, principalText: string) =>
+    `${idSafe(roomId)}-${idSafe(principalText)}`;
+
+export const principalFromPeerId = (roomId: string, peerId: string) => {
+    const prefix = `${idSafe(roomId)}-`;
+    return peerId.startsWith(prefix) ? peerId.slice(prefix.length) : peerId;
+};
+
+/** A Principal (or its text) as text */
+export const principalToText = (p: any) => {
+    try { if (p && typeof p.toText === "function") return p.toText(); if (typeof p === "string") return p; } catch { }
+    return String(p);
+};
+
+/** Long ids shortened for logs */
+export const pretty = (id: string) => (id.length > 14 ? id.slice(0, 6) + "..." + id.slice(-6) : id);
@@ -0,0 +1,129 @@
+/** ===== PEERJS TRANSPORT =====
+ * Transport over PeerJS. Signaling goes wherever signalingPeer.ts sends it
+ * (PeerJS server, canister mailbox, or both).
+ */
+import type Peer from "peerjs";
+import type { DataConnection, MediaConnection } from "peerjs";
+import type { IceSelector } from "./ice";
+import { createSignalingPeer, restartIce, type SignalingConfig } from "./signalingPeer";
+import { createEmitter, type Channel, type MediaLink, type Transport, type TransportEvents } from "./transport";
+
+export type PeerJsTransportOptions = {
+    config?: RTCConfiguration;
+    /** Config per connection instead of `config` (ice.ts) */
+    ice?: IceSelector;
+    signaling: SignalingConfig;
+    debug?: 0 | 1 | 2 | 3;
+    /** Give up on a Peer that neither opens nor errors */
+    openTimeoutMs?: number;
+};
+
+/** PeerJS calls our "ice" event iceStateChanged */
+const peerJsEvent = (event: string) => (event === "ice" ? "iceStateChanged" : event);
+
+const asChannel = (peer: Peer, dc: DataConnection): Channel => ({
+    peer: dc.peer,
+    label: dc.label,
+    get open() { return dc.open; },
+    get peerConnection() { return dc.peerConnection ?? undefined; },
+    get bufferedAmount() { return dc.dataChannel?.bufferedAmount; },
+    send: (data) => { void dc.send(data); },
+    close: () => dc.close(),
+    restartIce: () => restartIce(peer, dc),
+    on: (event: any, fn: any) => { dc.on(peerJsEvent(event) as any, fn); },
+});
+
+const asMediaLink = (peer: Peer, mc: MediaConnection): MediaLink => ({
+    peer: mc.peer,
+    get metadata() { return mc.metadata; },
+    get open() { return mc.open; },
+    get peerConnection() { return mc.peerConnection ?? undefined; },
+    get localStream() { return mc.localStream ?? undefined; },
+    answer: (stream) => mc.answer(stream),
+    close: () => mc.close(),
+    restartIce: () => restartIce(peer, mc),
+    on: (event: any, fn: any) => { mc.on(peerJsEvent(event) as any, fn); },
+});
+
+/** Destroy a Peer and wait (briefly) for it to say it's gone */
+const destroyPeer = (peer: Peer, timeoutMs = 1500) =>
+    new Promise<void>((resolve) => {
+        let done = false;
+        const finish = () => { if (!done) { done = true; clearTimeout(to); resolve(); } };
+        const to = setTimeout(finish, timeoutMs);
+        try {
+            peer.removeAllListeners();
+            peer.once("close", finish);
+            peer.once("disconnected", finish);
+            peer.once("error", finish);
+            try { peer.disconnect(); } catch { }
+            try { peer.destroy(); } catch { }
+        } catch {
+            finish();
+        }
+    });
+
+export function createPeerJsTransport(opts: PeerJsTransportOptions): Transport {
+    const em = createEmitter<TransportEvents>();
+    let peer: Peer | null = null;
+
+    const attach = (p: Peer) => {
+        p.on("connection", (dc) => em.emit("channel", asChannel(p, dc)));
+        p.on("call", (mc) => em.emit("call", asMediaLink(p, mc)));
+        p.on("open", () => em.emit("open"));
+        p.on("disconnected", () => em.emit("disconnected"));
+        p.on("error", (err) => em.emit("error", err));
+    };
+
+    const live = () => {
+        if (!peer) throw new Error("transport not open");
+        return peer;
+    };
+
+    return {
+        async open(id) {
+            if (peer) await destroyPeer(peer);
+            const p = createSignalingPeer(id, { debug: opts.debug ?? 1, ...(opts.config && { config: opts.config }) }, opts.signaling, opts.ice);
+            const opened = await new Promise<boolean>((resolve) => {
+                const to = setTimeout(() => done(false), opts.openTimeoutMs ?? 15_000);
+                const done = (ok: boolean) => {
+                    clearTimeout(to);
+                    p.off("open", onOpen);
+                    p.off("error", onError);
+                    resolve(ok);
+                };
+                // "unavailable-id" (taken) and everything else alike: the caller retries
+                const onOpen = () => done(true);
+                const onError = () => done(false);
+                p.once("open", onOpen);
+                p.once("error", onError);
+            });
+            if (!opened) {
+                await destroyPeer(p);
+                return false;
+            }
+            peer = p;
+            attach(p);
+            return true;
+        },
+        connect(remote, label) {
+            const p = live();
+            return asChannel(p, p.connect(remote, { label, reliable: true, serialization: "json" }));
+        },
+        call(remote, stream, metadata) {
+            const p = live();
+            return asMediaLink(p, p.call(remote, stream, { metadata }));
+        },
+        on(event: any, fn: any) {
+            em.on(event, fn);
+        },
+        reconnect() {
+            try { peer?.reconnect(); } catch { }
+        },
+        async destroy() {
+            const p = peer;
+            peer = null;
+            if (p) await destroyPeer(p);
+        },
+    };
+}
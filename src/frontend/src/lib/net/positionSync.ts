@@ -0,0 +1,260 @@
+/** ===== POSITION SYNC =====
+ * Avatar positions travel on their own unordered, no-retransmit DataChannel
+ * as 10-byte packets. Receivers keep a short jitter buffer per peer and draw
+ * the avatar ~100 ms in the past, interpolating between packets and
+ * extrapolating briefly when some go missing.
+ *
+ * Packet layout (little endian):
+ *   u8  tag (0x50)
+ *   u8  flags   bit0 moving, bit1 facing left, bit2 heartbeat
+ *   u16 seq     wraps
+ *   u16 t       sender clock in ms, wraps
+ *   u16 x, y    world px × POS_SCALE
+ */
+
+export const POS_PACKET_BYTES = 10;
+const POS_TAG = 0x50;
+/** Half-pixel precision; covers worlds up to 32767 px */
+const POS_SCALE = 2;
+const U16 = 0x10000;
+
+const FLAG_MOVING = 1;
+const FLAG_LEFT = 2;
+const FLAG_HEARTBEAT = 4;
+
+/** Channel id both ends use for the negotiated position channel */
+export const POS_CHANNEL_ID = 101;
+export const POS_CHANNEL_LABEL = "pos-u";
+
+export type PosPacket = {
+    seq: number;
+    /** Sender clock, ms (16-bit on the wire) */
+    t: number;
+    x: number;
+    y: number;
+    face: 1 | -1;
+    moving: boolean;
+    heartbeat: boolean;
+};
+
+export function encodePos(p: PosPacket): ArrayBuffer {
+    const buf = new ArrayBuffer(POS_PACKET_BYTES);
+    const v = new DataView(buf);
+    const q = (n: number) => Math.max(0, Math.min(U16 - 1, Math.round(n * POS_SCALE)));
+    v.setUint8(0, POS_TAG);
+    v.setUint8(1, (p.moving ? FLAG_MOVING : 0) | (p.face === -1 ? FLAG_LEFT : 0) | (p.heartbeat ? FLAG_HEARTBEAT : 0));
+    v.setUint16(2, p.seq & 0xffff, true);
+    v.setUint16(4, Math.floor(p.t) & 0xffff, true);
+    v.setUint16(6, q(p.x), true);
+    v.setUint16(8, q(p.y), true);
+    return buf;
+}
+
+/** null for anything that isn't a well-formed position packet */
+export function decodePos(data: ArrayBuffer | ArrayBufferView): PosPacket | null {
+    const v = data instanceof ArrayBuffer
+        ? new DataView(data)
+        : new DataView(data.buffer, data.byteOffset, data.byteLength);
+    if (v.byteLength !== POS_PACKET_BYTES || v.getUint8(0) !== POS_TAG) return null;
+    const flags = v.getUint8(1);
+    return {
+        seq: v.getUint16(2, true),
+        t: v.getUint16(4, true),
+        x: v.getUint16(6, true) / POS_SCALE,
+        y: v.getUint16(8, true) / POS_SCALE,
+        face: flags & FLAG_LEFT ? -1 : 1,
+        moving: !!(flags & FLAG_MOVING),
+        heartbeat: !!(flags & FLAG_HEARTBEAT),
+    };
+}
+
+/** Signed distance a→b on a 16-bit ring (positive when b is newer) */
+export const wrapDelta16 = (a: number, b: number) => ((((b - a) % U16) + U16 + U16 / 2) % U16) - U16 / 2;
+
+// === SENDER ===
+export type PosSenderOptions = {
+    /** Rate while moving */
+    movingHz?: number;
+    /** Heartbeat interval while standing still */
+    idleMs?: number;
+};
+
+export type PosState = { x: number; y: number; face: 1 | -1; moving: boolean };
+
+export type PosSender = {
+    /** Packet to send now, or null when nothing is due */
+    poll(nowMs: number, state: PosState): PosPacket | null;
+    /** Send on the next poll regardless of rate (new peer, teleport) */
+    force(): void;
+};
+
+export function createPosSender(opts: PosSenderOptions = {}): PosSender {
+    const movingMs = 1000 / (opts.movingHz ?? 20);
+    const idleMs = opts.idleMs ?? 1000;
+    let seq = 0;
+    let lastAt = -Infinity;
+    let last: PosState | null = null;
+    let forced = true;
+
+    return {
+        poll(nowMs, s) {
+            const changed = !last || last.moving !== s.moving || last.face !== s.face;
+            const moved = !!last && (last.x !== s.x || last.y !== s.y);
+            const interval = s.moving || moved ? movingMs : idleMs;
+            if (!forced && !changed && nowMs - lastAt < interval) return null;
+
+            const heartbeat = !forced && !changed && !moved && !s.moving;
+            forced = false;
+            lastAt = nowMs;
+            last = { ...s };
+            seq = (seq + 1) & 0xffff;
+            return { seq, t: nowMs, x: s.x, y: s.y, face: s.face, moving: s.moving, heartbeat };
+        },
+        force() { forced = true; },
+    };
+}
+
+// === RECEIVER (jitter buffer) ===
+export type PosBufferOptions = {
+    /** How far in the past avatars are drawn */
+    delayMs?: number;
+    /** Stop extrapolating after this long without news */
+    maxExtrapolateMs?: number;
+    /** Teleports bigger than this snap instead of sliding */
+    snapPx?: number;
+};
+
+export type PosSample = { x: number; y: number; face: 1 | -1; moving: boolean };
+
+export type PosBuffer = {
+    /** `p.t` is the sender clock; only its low 16 bits are used */
+    push(p: PosPacket, recvMs: number): void;
+    sample(nowMs: number): PosSample | null;
+    /** Local ms of the last packet that arrived */
+    readonly lastRecvMs: number;
+    readonly stats: { received: number; late: number; lost: number };
+};
+
+type Held = PosPacket & { /** sender time, unwrapped */ st: number };
+
+const MAX_HELD = 32;
+const STALE_RESET_MS = 30_000;
+
+export function createPosBuffer(opts: PosBufferOptions = {}): PosBuffer {
+    const delayMs = opts.delayMs ?? 100;
+    const maxExtrapolateMs = opts.maxExtrapolateMs ?? 250;
+    const snapPx = opts.snapPx ?? 160;
+    const held: Held[] = [];
+    const stats = { received: 0, late: 0, lost: 0 };
+    let lastSeq: number | null = null;
+    let lastT: number | null = null;
+    let lastSt = 0;
+    /** local - sender clock; smallest seen ≈ fastest path through the network */
+    let offset: number | null = null;
+    let lastRecvMs = -Infinity;
+
+    const push = (p: PosPacket, recvMs: number) => {
+        stats.received++;
+        // a silent spell longer than half the clock ring can't be unwrapped; start over
+        if (recvMs - lastRecvMs > STALE_RESET_MS) {
+            held.length = 0;
+            lastSeq = lastT = offset = null;
+        }
+        lastRecvMs = recvMs;
+
+        // unwrap the 16-bit sender clock against the newest packet
+        const st = lastT === null ? p.t : lastSt + wrapDelta16(lastT, p.t);
+        if (lastSeq !== null) {
+            const d = wrapDelta16(lastSeq, p.seq);
+            if (d <= 0) {
+                stats.late++;
+                // late but still useful if it lands between held packets
+                if (!held.length || st < held[0].st) return;
+            } else {
+                stats.lost += d - 1;
+            }
+        }
+        if (lastSeq === null || wrapDelta16(lastSeq, p.seq) > 0) {
+            lastSeq = p.seq;
+            lastT = p.t;
+            lastSt = st;
+        }
+
+        const o = recvMs - st;
+        // slowly forget old minimums so clock drift can't pin the buffer
+        offset = offset === null ? o : Math.min(o, offset + 0.02);
+
+        const h: Held = { ...p, st };
+        let i = held.length;
+        while (i > 0 && held[i - 1].st > st) i--;
+        if (i > 0 && held[i - 1].st === st) return;
+        held.splice(i, 0, h);
+        if (held.length > MAX_HELD) held.splice(0, held.length - MAX_HELD);
+    };
+
+    const sample = (nowMs: number): PosSample | null => {
+        if (!held.length || offset === null) return null;
+        const target = nowMs - offset - delayMs;
+        const newest = held[held.length - 1];
+
+        if (target >= newest.st) {
+            const prev = held[held.length - 2];
+            const ahead = target - newest.st;
+            const moving = newest.moving && ahead <= maxExtrapolateMs;
+            const span = prev ? newest.st - prev.st : 0;
+            if (!newest.moving || !prev || span <= 0 || Math.hypot(newest.x - prev.x, newest.y - prev.y) > snapPx) {
+                return { x: newest.x, y: newest.y, face: newest.face, moving };
+            }
+            // dead reckoning from the last known velocity, then hold there
+            const k = Math.min(ahead, maxExtrapolateMs) / span;
+            return {
+                x: newest.x + (newest.x - prev.x) * k,
+                y: newest.y + (newest.y - prev.y) * k,
+                face: newest.face,
+                moving,
+            };
+        }
+
+        // drop everything older than the pair we're between
+        while (held.length > 2 && held[1].st <= target) held.shift();
+        const a = held[0];
+        if (target <= a.st || held.length === 1) return { x: a.x, y: a.y, face: a.face, moving: a.moving };
+        const b = held[1];
+        if (Math.hypot(b.x - a.x, b.y - a.y) > snapPx) return { x: a.x, y: a.y, face: a.face, moving: a.moving };
+        const k = (target - a.st) / Math.max(1, b.st - a.st);
+        return {
+            x: a.x + (b.x - a.x) * k,
+            y: a.y + (b.y - a.y) * k,
+            face: k < 0.5 ? a.face : b.face,
+            moving: a.moving || b.moving,
+        };
+    };
+
+    return {
+        push,
+        sample,
+        get lastRecvMs() { return lastRecvMs; },
+        stats,
+    };
+}
+
+/**
+ * Open the position channel on a PeerJS connection's RTCPeerConnection.
+ * Both ends call this with the same id (negotiated channel), so no extra
+ * signalling round-trip is needed once the SCTP transport is up.
+ */
+export function openPosChannel(pc: RTCPeerConnection): RTCDataChannel | null {
+    try {
+        const dc = pc.createDataChannel(POS_CHANNEL_LABEL, {
+            negotiated: true,
+            id: POS_CHANNEL_ID,
+            ordered: false,
+            maxRetransmits: 0,
+        });
+        dc.binaryType = "arraybuffer";
+        return dc;
+    } catch (e) {
+        console.warn("position channel unavailable", e);
+        return null;
+    }
+}
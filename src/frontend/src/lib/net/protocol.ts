@@ -0,0 +1,336 @@
+/** ===== WIRE PROTOCOL =====
+ * Every DataChannel message the app sends, for both the room mesh (Room.tsx)
+ * and the lobby mesh (PeersContext). Messages are plain JSON keyed by `t`.
+ *
+ * Incoming data is never trusted: `parseRoomMsg` / `parseLobbyMsg` check the
+ * shape and limits and return a reason instead of throwing. The `hello`
+ * messages carry the protocol version and capability list; each side keeps
+ * the intersection and only sends optional message kinds the other end
+ * understands, so older clients can stay in the same room.
+ */
+import type { OutfitSlotsArray } from "../../constants/outfit";
+import type { StateMsg } from "./replicatedState";
+import type { GossipEntry } from "./interest";
+
+export const PROTOCOL_VERSION = 2;
+
+/** Session channel labels: game messages ("pos" for historical reasons) and chat */
+export const GAME_LABEL = "pos";
+export const CHAT_LABEL = "chat";
+/** File transfers: opened to a peer only when there's a file to fetch (see lib/files/transfer.ts) */
+export const FILE_LABEL = "file";
+
+/** Optional message families, negotiated per connection */
+/** "file": takes file channels (lib/files/transfer.ts), which carry no RoomMsg */
+export type Capability = "world-state" | "interact" | "spin" | "binary-pos" | "gossip" | "video" | "relay" | "dm" | "file";
+
+export const LOCAL_CAPABILITIES: readonly Capability[] = ["world-state", "interact", "spin", "binary-pos", "gossip", "video", "relay", "dm", "file"];
+
+/** What a v1 client (hello without `v`) understood */
+const V1_CAPABILITIES: readonly Capability[] = ["spin"];
+
+export const MAX_CHAT_CHARS = 2000;
+/** A MAX_CHAT_CHARS line once sealed (see lib/chat/e2e.ts): UTF-8, GCM tag, base64 */
+export const MAX_SEALED_CHARS = 8400;
+export const MAX_LABEL_CHARS = 64;
+export const MAX_GOSSIP_ENTRIES = 512;
+const MAX_ID_CHARS = 128;
+const MAX_STATE_ENTRIES = 4096;
+const MAX_SPIN_MS = 5000;
+const MAX_RELAY_SLOTS = 16;
+/** Positions may sit a little outside the map (spawn snapping, map swaps) */
+const POS_SLACK_PX = 256;
+
+// === ROOM MESSAGES ===
+export type HelloMsg = { t: "hello"; peerId: string; principal: string; v?: number; caps?: string[] };
+export type ByeMsg = { t: "bye"; peerId: string };
+export type PosMsg = { t: "pos"; x: number; y: number; moving?: boolean; face?: 1 | -1 };
+/**
+ * `id` + `from` let relayed copies (see gossip) be recognised and dropped.
+ * Encrypted lines travel in `enc` with `text` left empty.
+ */
+export type ChatMsg = { t: "chat"; text: string; ts?: number; from?: string; id?: string; enc?: string };
+/** A direct message, sent only to `to` over its chat channel; always sealed (see lib/chat/dm.ts) */
+export type DmMsg = { t: "dm"; id: string; to: string; ts: number; enc: string };
+export type MediaRefreshMsg = { t: "media-refresh"; why?: "mic-on" | "mic-off" | "device" | "manual" };
+export type MetaMsg = { t: "meta"; label?: string; outfit?: OutfitSlotsArray };
+export type SpinMsg = { t: "spin"; dur?: number };
+export type InteractMsg = { t: "interact"; id: string; occupant: string | null; silent?: boolean };
+export type InteractSyncReqMsg = { t: "interact-sync-req" };
+export type GossipMsg = { t: "gossip"; e: GossipEntry[] };
+/** What the call's single video track is carrying right now (screen wins over camera) */
+export type AvMsg = { t: "av"; cam: boolean; screen: boolean };
+/** Relay → listener: which source each audio slot of the relay call carries */
+export type RelaySlotsMsg = { t: "relay-slots"; s: (string | null)[] };
+/**
+ * v1 doors: peers without "world-state" still open doors and ask for them
+ * with these. Room translates them to and from the `door:` state keys.
+ */
+export type LegacyDoorMsg = { t: "door"; col: number; row: number; open: boolean; silent?: boolean };
+export type LegacyDoorSyncReqMsg = { t: "door-sync-req" };
+
+export type RoomMsg =
+    | HelloMsg
+    | ByeMsg
+    | PosMsg
+    | ChatMsg
+    | DmMsg
+    | MediaRefreshMsg
+    | MetaMsg
+    | SpinMsg
+    | StateMsg
+    | InteractMsg
+    | InteractSyncReqMsg
+    | GossipMsg
+    | AvMsg
+    | RelaySlotsMsg
+    | LegacyDoorMsg
+    | LegacyDoorSyncReqMsg;
+
+export type RoomMsgType = RoomMsg["t"];
+
+/** Kinds that need a capability on the receiving end; everything else is v1 core */
+export const MSG_CAPABILITY: Partial<Record<RoomMsgType, Capability>> = {
+    state: "world-state",
+    "state-sync-req": "world-state",
+    "state-digest": "world-state",
+    interact: "interact",
+    "interact-sync-req": "interact",
+    spin: "spin",
+    gossip: "gossip",
+    av: "video",
+    "relay-slots": "relay",
+    dm: "dm",
+};
+
+export type ParseResult<T> = { ok: true; msg: T } | { ok: false; reason: string };
+
+type Fields = Record<string, unknown>;
+/** Returns a rejection reason, or null when the message is fine */
+type Check = (m: Fields) => string | null;
+
+const isStr = (v: unknown, max = MAX_ID_CHARS): v is string => typeof v === "string" && v.length <= max;
+const isNum = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+const optional = (v: unknown, ok: (v: unknown) => boolean) => v === undefined || ok(v);
+const isBool = (v: unknown) => typeof v === "boolean";
+
+const MEDIA_REASONS = new Set(["mic-on", "mic-off", "device", "manual"]);
+
+export type RoomParseOptions = {
+    /** World size in px; positions outside it (plus slack) are rejected */
+    worldW?: number;
+    worldH?: number;
+};
+
+const isU16 = (v: unknown) => Number.isInteger(v) && (v as number) >= 0 && (v as number) <= 0xffff;
+
+function isGossipEntry(e: unknown, opts: RoomParseOptions) {
+    if (!Array.isArray(e) || e.length !== 6) return false;
+    const [pid, seq, t, x, y, flags] = e;
+    return isStr(pid) && isU16(seq) && isU16(t) && isNum(x) && isNum(y) &&
+        (opts.worldW === undefined || (x >= -POS_SLACK_PX && x <= opts.worldW + POS_SLACK_PX)) &&
+        (opts.worldH === undefined || (y >= -POS_SLACK_PX && y <= opts.worldH + POS_SLACK_PX)) &&
+        Number.isInteger(flags) && flags >= 0 && flags < 256;
+}
+
+function isStateEntry(e: unknown) {
+    if (!e || typeof e !== "object" || Array.isArray(e)) return false;
+    const { key, value, clock, peer } = e as Fields;
+    return isStr(key) && isStr(peer) && Number.isSafeInteger(clock) && (clock as number) >= 0 && value !== undefined;
+}
+
+function roomChecks(opts: RoomParseOptions): Record<RoomMsgType, Check> {
+    const inRange = (v: number, size?: number) =>
+        size === undefined ? Math.abs(v) <= 1e6 : v >= -POS_SLACK_PX && v <= size + POS_SLACK_PX;
+
+    return {
+        hello: (m) =>
+            !isStr(m.peerId) ? "bad peerId" :
+                !isStr(m.principal) ? "bad principal" :
+                    !optional(m.v, (v) => Number.isInteger(v) && (v as number) >= 1) ? "bad version" :
+                        !optional(m.caps, (v) => Array.isArray(v) && v.length <= 32 && v.every((c) => isStr(c, 32)))
+                            ? "bad caps" : null,
+        bye: (m) => (isStr(m.peerId) ? null : "bad peerId"),
+        pos: (m) =>
+            !isNum(m.x) || !isNum(m.y) ? "non-numeric position" :
+                !inRange(m.x, opts.worldW) || !inRange(m.y, opts.worldH) ? "position out of bounds" :
+                    !optional(m.moving, isBool) ? "bad moving flag" :
+                        !optional(m.face, (v) => v === 1 || v === -1) ? "bad face" : null,
+        chat: (m) =>
+            typeof m.text !== "string" ? "chat without text" :
+                m.text.length > MAX_CHAT_CHARS ? "oversize chat" :
+                    !optional(m.ts, isNum) ? "bad chat ts" :
+                        !optional(m.from, (v) => isStr(v)) ? "bad chat sender" :
+                            !optional(m.id, (v) => isStr(v, 64)) ? "bad chat id" :
+                                !optional(m.enc, (v) => isStr(v, MAX_SEALED_CHARS)) ? "bad sealed chat" : null,
+        dm: (m) =>
+            !isStr(m.id, 64) ? "bad dm id" :
+                !isStr(m.to) ? "bad dm recipient" :
+                    !isNum(m.ts) ? "bad dm ts" :
+                        !isStr(m.enc, MAX_SEALED_CHARS) ? "bad sealed dm" : null,
+        "media-refresh": (m) => (optional(m.why, (v) => MEDIA_REASONS.has(v as string)) ? null : "bad media reason"),
+        meta: (m) =>
+            !optional(m.label, (v) => isStr(v, MAX_LABEL_CHARS)) ? "bad label" :
+                !optional(m.outfit, (v) => Array.isArray(v) && v.length <= 8 && v.every((s) => isStr(s, 64)))
+                    ? "bad outfit" : null,
+        spin: (m) => (optional(m.dur, (v) => isNum(v) && v >= 0 && v <= MAX_SPIN_MS) ? null : "bad spin duration"),
+        state: (m) =>
+            !Array.isArray(m.entries) ? "state without entries" :
+                m.entries.length > MAX_STATE_ENTRIES ? "oversize state" :
+                    !m.entries.every(isStateEntry) ? "bad state entry" :
+                        !optional(m.snapshot, isBool) ? "bad snapshot flag" : null,
+        "state-sync-req": () => null,
+        "state-digest": (m) => (isStr(m.digest, 32) && Number.isInteger(m.count) ? null : "bad digest"),
+        interact: (m) =>
+            !isStr(m.id) ? "bad interactable id" :
+                !(m.occupant === null || isStr(m.occupant)) ? "bad occupant" :
+                    !optional(m.silent, isBool) ? "bad silent flag" : null,
+        "interact-sync-req": () => null,
+        gossip: (m) =>
+            !Array.isArray(m.e) ? "gossip without entries" :
+                m.e.length > MAX_GOSSIP_ENTRIES ? "oversize gossip" :
+                    !m.e.every((e) => isGossipEntry(e, opts)) ? "bad gossip entry" : null,
+        av: (m) => (isBool(m.cam) && isBool(m.screen) ? null : "bad av flags"),
+        "relay-slots": (m) =>
+            !Array.isArray(m.s) || m.s.length > MAX_RELAY_SLOTS ? "bad relay slots" :
+                !m.s.every((p) => p === null || isStr(p)) ? "bad relay source" : null,
+        door: (m) =>
+            !isU16(m.col) || !isU16(m.row) ? "bad door tile" :
+                !isBool(m.open) ? "bad door state" :
+                    !optional(m.silent, isBool) ? "bad silent flag" : null,
+        "door-sync-req": () => null,
+    };
+}
+
+// pos arrives ~15×/s per peer; rebuild the checks only when the world size changes
+let cachedChecks = { key: "", checks: roomChecks({}) };
+
+export function parseRoomMsg(raw: unknown, opts: RoomParseOptions = {}): ParseResult<RoomMsg> {
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) return { ok: false, reason: "not an object" };
+    const m = raw as Fields;
+    if (typeof m.t !== "string") return { ok: false, reason: "missing kind" };
+    const key = `${opts.worldW ?? ""}x${opts.worldH ?? ""}`;
+    if (cachedChecks.key !== key) cachedChecks = { key, checks: roomChecks(opts) };
+    const checks = cachedChecks.checks;
+    const check = (checks as Record<string, Check>)[m.t];
+    if (!check) return { ok: false, reason: `unknown kind "${m.t.slice(0, 32)}"` };
+    const reason = check(m);
+    return reason ? { ok: false, reason: `${m.t}: ${reason}` } : { ok: true, msg: m as RoomMsg };
+}
+
+// === NEGOTIATION ===
+export type PeerProtocol = { v: number; caps: Set<Capability> };
+
+/** Assumed until the other side's hello arrives */
+export const V1_PROTOCOL: PeerProtocol = { v: 1, caps: new Set(V1_CAPABILITIES) };
+
+export function makeHello(peerId: string, principal: string): HelloMsg {
+    return { t: "hello", peerId, principal, v: PROTOCOL_VERSION, caps: [...LOCAL_CAPABILITIES] };
+}
+
+export function negotiate(hello: { v?: number; caps?: string[] }): PeerProtocol {
+    const v = hello.v ?? 1;
+    const theirs = new Set<string>(hello.caps ?? V1_CAPABILITIES);
+    return { v, caps: new Set(LOCAL_CAPABILITIES.filter((c) => theirs.has(c))) };
+}
+
+export const peerAccepts = (proto: PeerProtocol, t: RoomMsgType) => {
+    const cap = MSG_CAPABILITY[t];
+    return !cap || proto.caps.has(cap);
+};
+
+/** Peers that keep doors in their own messages instead of the replicated state */
+export const speaksLegacyDoors = (proto: PeerProtocol) => !proto.caps.has("world-state");
+
+// === INVALID MESSAGE ACCOUNTING ===
+export type InvalidMsgStats = {
+    total: number;
+    byReason: Map<string, number>;
+    /** Counts one rejection; returns true when it's worth logging (first few, then every 100th) */
+    note(reason: string): boolean;
+};
+
+export function createInvalidMsgStats(): InvalidMsgStats {
+    const byReason = new Map<string, number>();
+    const stats: InvalidMsgStats = {
+        total: 0,
+        byReason,
+        note(reason) {
+            stats.total++;
+            const n = (byReason.get(reason) ?? 0) + 1;
+            byReason.set(reason, n);
+            return n <= 3 || n % 100 === 0;
+        },
+    };
+    return stats;
+}
+
+// === LOBBY MESSAGES (PeersContext) ===
+export type LobbyHello = { t: "presence-hello"; from: string; ts: number; v?: number; caps?: string[] };
+export type LobbyRoster = { t: "presence-roster"; ids: string[]; from: string; ts: number };
+export type LobbyBye = { t: "presence-bye"; from: string; ts: number };
+export type LobbyChat = { t: "lobby-chat"; text: string; from: string; ts: number; id?: string };
+export type LobbyMsg = LobbyHello | LobbyRoster | LobbyBye | LobbyChat;
+
+const MAX_ROSTER_IDS = 512;
+
+const LOBBY_CHECKS: Record<LobbyMsg["t"], Check> = {
+    "presence-hello": (m) =>
+        !isStr(m.from) || !isNum(m.ts) ? "bad hello" :
+            !optional(m.v, (v) => Number.isInteger(v)) ? "bad version" :
+                !optional(m.caps, (v) => Array.isArray(v) && v.every((c) => isStr(c, 32))) ? "bad caps" : null,
+    "presence-roster": (m) =>
+        !isStr(m.from) || !isNum(m.ts) ? "bad roster" :
+            !Array.isArray(m.ids) || m.ids.length > MAX_ROSTER_IDS || !m.ids.every((id) => isStr(id)) ? "bad roster ids" : null,
+    "presence-bye": (m) => (isStr(m.from) && isNum(m.ts) ? null : "bad bye"),
+    "lobby-chat": (m) =>
+        !isStr(m.from) || !isNum(m.ts) ? "bad chat" :
+            typeof m.text !== "string" ? "chat without text" :
+                m.text.length > MAX_CHAT_CHARS ? "oversize chat" :
+                    !optional(m.id, (v) => isStr(v)) ? "bad chat id" : null,
+};
+
+/** v1 lobby envelopes ({ kind, type }) mapped onto the current kinds */
+function upgradeLegacyLobby(m: Fields): Fields | null {
+    if (m.kind === "presence" && (m.type === "hello" || m.type === "roster" || m.type === "bye")) {
+        const out: Fields = { ...m, t: `presence-${m.type}` };
+        delete out.kind;
+        delete out.type;
+        return out;
+    }
+    if (m.kind === "chat" && m.channel === "global") {
+        const out: Fields = { ...m, t: "lobby-chat" };
+        delete out.kind;
+        delete out.channel;
+        return out;
+    }
+    return null;
+}
+
+/** `legacy` is set when the sender still speaks the v1 envelope format */
+export function parseLobbyMsg(raw: unknown): ParseResult<LobbyMsg> & { legacy?: boolean } {
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) return { ok: false, reason: "not an object" };
+    let m = raw as Fields;
+    let legacy = false;
+    if (typeof m.t !== "string" && typeof m.kind === "string") {
+        const up = upgradeLegacyLobby(m);
+        if (!up) return { ok: false, reason: `unknown legacy kind "${String(m.kind).slice(0, 32)}"` };
+        m = up;
+        legacy = true;
+    }
+    if (typeof m.t !== "string") return { ok: false, reason: "missing kind" };
+    const check = (LOBBY_CHECKS as Record<string, Check>)[m.t];
+    if (!check) return { ok: false, reason: `unknown kind "${m.t.slice(0, 32)}"` };
+    const reason = check(m);
+    return reason ? { ok: false, reason: `${m.t}: ${reason}` } : { ok: true, msg: m as LobbyMsg, legacy };
+}
+
+/** Downgrade for peers that only speak the v1 envelope format */
+export function toLegacyLobby(msg: LobbyMsg): Fields {
+    const out: Fields = { ...msg };
+    delete out.t;
+    if (msg.t === "lobby-chat") return { ...out, kind: "chat", channel: "global" };
+    delete out.v;
+    delete out.caps;
+    return { ...out, kind: "presence", type: msg.t.slice("presence-".length) };
+}
@@ -0,0 +1,123 @@
+/** ===== RELAY MODE =====
+ * Past a certain room size, sending our microphone to every audible peer
+ * costs more upstream than home connections have. In relay mode one
+ * participant acts as a selective forwarding unit:
+ *
+ *  - everyone else keeps a single media call, to the relay, carrying their
+ *    mic up and a fixed number of audio "slots" down,
+ *  - the relay fills each listener's slots with the closest sources that
+ *    listener can hear, swapping tracks in place (replaceTrack), and tells
+ *    the listener which slot carries whom.
+ *
+ * Nobody rejoins on a switch: data links stay as they are, only media calls
+ * are torn down and re-placed. Election is deterministic from what gossip
+ * carries (a volunteer bit and a relaying bit per peer), so every client
+ * settles on the same relay without a coordinator.
+ */
+import type { TilePos } from "./interest";
+
+/** Gossip flag bits (next to the moving/facing bits in interest.ts) */
+export const G_RELAY_VOLUNTEER = 4;
+export const G_RELAYING = 8;
+
+/** Audio slots on each relay → listener call */
+export const RELAY_SLOTS = 6;
+
+export type RelayDecision = { mode: "mesh" } | { mode: "relay"; relay: string };
+
+export type RelayModeOptions = {
+    /** Switch to relay mode at this many participants (us included) */
+    enterAt?: number;
+    /** ...and back to the mesh below this many */
+    leaveBelow?: number;
+};
+
+export type RelayInput = {
+    self: string;
+    /** Every peer known to be in the room */
+    members: Iterable<string>;
+    /** Gossip flag bits of a member (ours included), or null if unknown */
+    flagsOf(pid: string): number | null;
+};
+
+export type RelayMode = {
+    decide(input: RelayInput): RelayDecision;
+    readonly last: RelayDecision;
+};
+
+export function createRelayMode(opts: RelayModeOptions = {}): RelayMode {
+    const enterAt = opts.enterAt ?? 10;
+    const leaveBelow = opts.leaveBelow ?? 8;
+    let last: RelayDecision = { mode: "mesh" };
+
+    return {
+        decide({ self, members, flagsOf }) {
+            const all = [...new Set([...members, self])].sort();
+            const has = (pid: string, bit: number) => ((flagsOf(pid) ?? 0) & bit) !== 0;
+            const volunteers = all.filter((pid) => has(pid, G_RELAY_VOLUNTEER));
+            // a relay that is already running keeps the room until it gets small again,
+            // so clients that joined late (and never saw the count cross enterAt) follow it
+            const running = volunteers.filter((pid) => has(pid, G_RELAYING));
+            const size = all.length;
+
+            let relay: string | null = null;
+            if (running.length && size >= leaveBelow) relay = running[0];
+            else if (size >= enterAt || (last.mode === "relay" && size >= leaveBelow)) relay = volunteers[0] ?? null;
+
+            last = relay ? { mode: "relay", relay } : { mode: "mesh" };
+            return last;
+        },
+        get last() { return last; },
+    };
+}
+
+// === FORWARDING (runs on the relay) ===
+export type Slots = (string | null)[];
+
+/**
+ * Sources one listener should get, closest first, capped at the slot count.
+ * `hears` is the same earshot test the mesh uses for placing calls.
+ */
+export function pickSources(
+    listener: string,
+    sources: Iterable<string>,
+    tileOf: (pid: string) => TilePos | null,
+    hears: (a: TilePos, b: TilePos) => boolean,
+    max = RELAY_SLOTS,
+): string[] {
+    const me = tileOf(listener);
+    if (!me) return [];
+    const near: Array<[string, number]> = [];
+    for (const pid of sources) {
+        if (pid === listener) continue;
+        const p = tileOf(pid);
+        if (!p || !hears(me, p)) continue;
+        near.push([pid, Math.max(Math.abs(p.col - me.col), Math.abs(p.row - me.row))]);
+    }
+    near.sort((a, b) => a[1] - b[1] || (a[0] < b[0] ? -1 : 1));
+    return near.slice(0, max).map(([pid]) => pid);
+}
+
+/**
+ * Sticky slot assignment: a source keeps its slot while it stays wanted,
+ * newcomers take free slots. Avoids swapping a track mid-sentence just
+ * because someone else got closer.
+ */
+export function assignSlots(prev: Slots, wanted: string[], size = RELAY_SLOTS): { slots: Slots; changed: boolean } {
+    const want = new Set(wanted.slice(0, size));
+    const slots: Slots = Array.from({ length: size }, (_, i) => {
+        const pid = prev[i] ?? null;
+        return pid && want.has(pid) ? pid : null;
+    });
+    const placed = new Set(slots.filter((p): p is string => !!p));
+    for (const pid of wanted) {
+        if (placed.size >= size) break;
+        if (placed.has(pid)) continue;
+        const free = slots.indexOf(null);
+        if (free < 0) break;
+        slots[free] = pid;
+        placed.add(pid);
+    }
+    const changed = slots.length !== prev.length || slots.some((p, i) => p !== (prev[i] ?? null));
+    return { slots, changed };
+}
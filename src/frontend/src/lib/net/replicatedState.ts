@@ -0,0 +1,177 @@
+/** ===== REPLICATED WORLD STATE =====
+ * Small last-writer-wins key/value store shared over the room DataConnections.
+ *
+ * Every write carries a Lamport clock and the writer's peer id. An entry
+ * replaces another when its clock is higher; equal clocks go to the lower
+ * peer id (same rule as seat conflicts), so every peer picks the same winner
+ * no matter what order messages arrive in.
+ *
+ * Joiners ask for a snapshot, writes go out as deltas, and a periodic digest
+ * lets peers notice a dropped delta and pull a fresh snapshot.
+ *
+ * A delta is only taken from the peer it names as writer, and no entry may
+ * run more than MAX_CLOCK_LEAD ahead of our clock: a huge clock would leave
+ * every later write of ours unable to win.
+ */
+
+/** JSON-safe value; `null` is a delete (kept as a tombstone so it still wins) */
+export type StateValue = string | number | boolean | null | StateValue[] | { [k: string]: StateValue };
+
+export type StateEntry = {
+    key: string;
+    value: StateValue;
+    /** Lamport clock of the write */
+    clock: number;
+    /** Peer that made the write */
+    peer: string;
+};
+
+export type StateMsg =
+    | { t: "state"; entries: StateEntry[]; snapshot?: boolean }
+    | { t: "state-sync-req" }
+    | { t: "state-digest"; digest: string; count: number };
+
+export type StateChange = {
+    key: string;
+    value: StateValue;
+    prev: StateValue | undefined;
+    entry: StateEntry;
+    /** Peer id for remote writes, null for our own */
+    from: string | null;
+    /** Came in through a snapshot (join / resync), not a live write */
+    snapshot: boolean;
+};
+
+export type ReplicatedStateOptions = {
+    peerId: string;
+    /** `to === null` broadcasts to every open connection */
+    send: (to: string | null, msg: StateMsg) => void;
+    onChange?: (change: StateChange) => void;
+};
+
+export type ReplicatedState = {
+    get(key: string): StateValue | undefined;
+    entry(key: string): StateEntry | undefined;
+    entries(): StateEntry[];
+    /** Local write: applied right away and broadcast as a delta */
+    set(key: string, value: StateValue): StateEntry;
+    delete(key: string): StateEntry;
+    /** Feed any StateMsg received from `from`; returns false for other messages */
+    receive(from: string, msg: { t: string }): boolean;
+    requestSync(peerId: string): void;
+    sendSnapshotTo(peerId: string): void;
+    /** Broadcast (or send to one peer) the digest for anti-entropy */
+    sendDigest(to?: string | null): void;
+    digest(): string;
+    readonly clock: number;
+    /** Drop every entry (map change); keeps the clock, does not fire onChange */
+    reset(): void;
+};
+
+export const STATE_MSG_TYPES = new Set(["state", "state-sync-req", "state-digest"]);
+
+/** How far past our clock an incoming entry may be (far more writes than a room makes between syncs) */
+export const MAX_CLOCK_LEAD = 1_000_000;
+
+/** true when `a` should replace `b` */
+export const stateEntryWins = (a: StateEntry, b: StateEntry) =>
+    a.clock !== b.clock ? a.clock > b.clock : a.peer !== b.peer ? a.peer < b.peer : false;
+
+const isEntry = (v: unknown): v is StateEntry => {
+    if (!v || typeof v !== "object") return false;
+    const e = v as Record<string, unknown>;
+    return typeof e.key === "string" && typeof e.peer === "string" &&
+        Number.isSafeInteger(e.clock) && (e.clock as number) >= 0 && "value" in e;
+};
+
+/** FNV-1a over the sorted entries; only compared for equality between peers */
+function digestOf(entries: Iterable<StateEntry>): string {
+    const parts: string[] = [];
+    for (const e of entries) parts.push(`${e.key}\u0000${e.clock}\u0000${e.peer}`);
+    parts.sort();
+    let h = 0x811c9dc5;
+    for (const p of parts) {
+        for (let i = 0; i < p.length; i++) {
+            h ^= p.charCodeAt(i);
+            h = Math.imul(h, 0x01000193) >>> 0;
+        }
+        h ^= 0x1e;
+        h = Math.imul(h, 0x01000193) >>> 0;
+    }
+    return h.toString(16).padStart(8, "0");
+}
+
+export function createReplicatedState(opts: ReplicatedStateOptions): ReplicatedState {
+    const { peerId, send, onChange } = opts;
+    const store = new Map<string, StateEntry>();
+    let clock = 0;
+
+    const apply = (e: StateEntry, from: string | null, snapshot: boolean) => {
+        clock = Math.max(clock, e.clock);
+        const cur = store.get(e.key);
+        if (cur && !stateEntryWins(e, cur)) return false;
+        const entry = { key: e.key, value: e.value, clock: e.clock, peer: e.peer };
+        store.set(e.key, entry);
+        try {
+            onChange?.({ key: e.key, value: e.value, prev: cur?.value, entry, from, snapshot });
+        } catch (err) {
+            console.warn("state onChange failed", err);
+        }
+        return true;
+    };
+
+    const set = (key: string, value: StateValue) => {
+        const entry: StateEntry = { key, value, clock: clock + 1, peer: peerId };
+        apply(entry, null, false);
+        send(null, { t: "state", entries: [entry] });
+        return entry;
+    };
+
+    const sendSnapshotTo = (to: string) => {
+        send(to, { t: "state", entries: [...store.values()], snapshot: true });
+    };
+
+    const sendDigest = (to: string | null = null) => {
+        send(to, { t: "state-digest", digest: digestOf(store.values()), count: store.size });
+    };
+
+    const receive = (from: string, msg: { t: string }) => {
+        const m = msg as StateMsg;
+        if (m.t === "state") {
+            if (!Array.isArray(m.entries)) return true;
+            // measured from where we were, so one message can't ratchet it up entry by entry
+            const limit = clock + MAX_CLOCK_LEAD;
+            for (const e of m.entries) {
+                if (!isEntry(e) || e.clock > limit) continue;
+                // a snapshot passes on everyone's writes; a delta is the sender's own
+                if (!m.snapshot && e.peer !== from) continue;
+                apply(e, from, !!m.snapshot);
+            }
+        } else if (m.t === "state-sync-req") {
+            sendSnapshotTo(from);
+        } else if (m.t === "state-digest") {
+            // we differ: pull theirs; they'll pull ours when our digest reaches them
+            if (m.digest !== digestOf(store.values())) send(from, { t: "state-sync-req" });
+        } else {
+            return false;
+        }
+        return true;
+    };
+
+    return {
+        get: (key) => store.get(key)?.value,
+        entry: (key) => store.get(key),
+        entries: () => [...store.values()],
+        set,
+        delete: (key) => set(key, null),
+        receive,
+        requestSync: (to) => send(to, { t: "state-sync-req" }),
+        sendSnapshotTo,
+        sendDigest,
+        digest: () => digestOf(store.values()),
+        get clock() { return clock; },
+        reset() {
+            store.clear();
+        },
+    };
+}
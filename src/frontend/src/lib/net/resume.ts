@@ -0,0 +1,158 @@
+/** ===== RESUME =====
+ * Pieces for getting a room back after the network drops, cheapest first:
+ *
+ *  - createBackoff: exponential waits with jitter, for signaling reconnects
+ *    (RoomSession) and anything else that retries,
+ *  - guardLink: while a channel's or call's ICE is "disconnected", restart
+ *    ICE in place instead of tearing it down; only when that doesn't help is
+ *    the connection given up on (and dialled again by whoever owns it),
+ *  - resume snapshots: where we stood, so a rejoin (or a reload of the tab)
+ *    puts us back there rather than at a spawn point.
+ */
+
+export type BackoffOptions = {
+    baseMs?: number;
+    maxMs?: number;
+    factor?: number;
+    /** Up to this share of each wait is random, so peers don't retry in step */
+    jitter?: number;
+    random?: () => number;
+};
+
+export function createBackoff(opts: BackoffOptions = {}) {
+    const base = opts.baseMs ?? 1000;
+    const max = opts.maxMs ?? 30_000;
+    const factor = opts.factor ?? 2;
+    const jitter = opts.jitter ?? 0.25;
+    const random = opts.random ?? Math.random;
+    let attempts = 0;
+    return {
+        /** Wait before the next try (and count it) */
+        next(): number {
+            const ms = Math.min(max, base * factor ** attempts);
+            attempts++;
+            return Math.round(ms * (1 - jitter * random()));
+        },
+        reset() {
+            attempts = 0;
+        },
+        get attempts() {
+            return attempts;
+        },
+    };
+}
+
+export type Backoff = ReturnType<typeof createBackoff>;
+
+/** What guardLink needs from a Channel or MediaLink */
+export type GuardedLink = {
+    on(event: "ice", fn: (state: RTCIceConnectionState) => void): void;
+    on(event: "close", fn: () => void): void;
+    /** False: can't be restarted in place */
+    restartIce?(): boolean;
+};
+
+/** interrupted: ICE went "disconnected"; restarting: an ICE restart went out; recovered; lost: gave up */
+export type LinkState = "interrupted" | "restarting" | "recovered" | "lost";
+
+export type LinkGuardOptions = {
+    /** "disconnected" often heals by itself; wait this long first */
+    graceMs?: number;
+    maxRestarts?: number;
+    backoff?: BackoffOptions;
+    /** Restarts need signaling; while this says no, just wait */
+    canSignal?: () => boolean;
+    onState?: (state: LinkState, restarts: number) => void;
+};
+
+/**
+ * Keep an eye on a link's ICE state and restart ICE while it's interrupted.
+ * On "lost" the caller closes the link; "failed" is left to the transport,
+ * which closes failed connections itself. Returns a function that stops it.
+ */
+export function guardLink(link: GuardedLink, opts: LinkGuardOptions = {}): () => void {
+    const graceMs = opts.graceMs ?? 2000;
+    const maxRestarts = opts.maxRestarts ?? 4;
+    const backoff = createBackoff({ baseMs: 1500, maxMs: 10_000, ...opts.backoff });
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let interrupted = false;
+    let restarts = 0;
+    let stopped = false;
+
+    const clear = () => {
+        if (timer) clearTimeout(timer);
+        timer = null;
+    };
+    const stop = () => {
+        stopped = true;
+        clear();
+    };
+    const tick = () => {
+        timer = null;
+        if (stopped || !interrupted) return;
+        if (opts.canSignal && !opts.canSignal()) {
+            timer = setTimeout(tick, backoff.next());
+            return;
+        }
+        if (restarts >= maxRestarts || !link.restartIce?.()) {
+            stop();
+            opts.onState?.("lost", restarts);
+            return;
+        }
+        restarts++;
+        opts.onState?.("restarting", restarts);
+        timer = setTimeout(tick, backoff.next());
+    };
+
+    link.on("ice", (state) => {
+        if (stopped) return;
+        if (state === "disconnected" && !interrupted) {
+            interrupted = true;
+            opts.onState?.("interrupted", restarts);
+            clear();
+            timer = setTimeout(tick, graceMs);
+        } else if ((state === "connected" || state === "completed") && interrupted) {
+            interrupted = false;
+            clear();
+            opts.onState?.("recovered", restarts);
+            restarts = 0;
+            backoff.reset();
+        } else if (state === "failed" || state === "closed") {
+            stop();
+        }
+    });
+    link.on("close", stop);
+    return stop;
+}
+
+// === RESUME SNAPSHOTS ===
+export type ResumeSnapshot = {
+    x: number;
+    y: number;
+    face?: 1 | -1;
+    /** Which map it was taken on */
+    map: string;
+    at: number;
+};
+
+const snapshotKey = (roomId: string) => `pixeliy:resume:${roomId}`;
+
+/** Remember where we are in `roomId` (tab-scoped: sessionStorage) */
+export function saveResumeSnapshot(roomId: string, snap: ResumeSnapshot, storage: Storage = sessionStorage) {
+    try { storage.setItem(snapshotKey(roomId), JSON.stringify(snap)); } catch { }
+}
+
+/** The snapshot for `roomId` if it's on `map` and younger than `maxAgeMs` */
+export function loadResumeSnapshot(roomId: string, map: string, maxAgeMs: number, now = Date.now(), storage: Storage = sessionStorage): ResumeSnapshot | null {
+    let snap: ResumeSnapshot;
+    try {
+        const raw = storage.getItem(snapshotKey(roomId));
+        if (!raw) return null;
+        snap = JSON.parse(raw);
+    } catch {
+        return null;
+    }
+    if (!snap || snap.map !== map || !Number.isFinite(snap.x) || !Number.isFinite(snap.y)) return null;
+    if (!(now - snap.at <= maxAgeMs)) return null;
+    return snap;
+}
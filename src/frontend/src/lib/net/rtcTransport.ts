@@ -0,0 +1,315 @@
+/** ===== RTC TRANSPORT =====
+ * Transport on plain RTCPeerConnection, one connection per channel or call
+ * (like PeerJS), negotiated over any SignalingSocket (signaling.ts) with the
+ * same OFFER / ANSWER / CANDIDATE messages PeerJS uses. Both ends have to
+ * run this transport: channel framing is plain JSON, not PeerJS's.
+ */
+import type { IceSelector } from "./ice";
+import type { ServerMessage, SignalingSocket } from "./signaling";
+import {
+    createEmitter,
+    type Channel,
+    type ChannelEvents,
+    type MediaLink,
+    type MediaLinkEvents,
+    type Transport,
+    type TransportEvents,
+} from "./transport";
+
+export type RtcTransportOptions = {
+    config?: RTCConfiguration;
+    /** Config per connection instead of `config` (ice.ts) */
+    ice?: IceSelector;
+    /** A fresh signaling socket, asked for on every open() */
+    signaling: () => SignalingSocket;
+    openTimeoutMs?: number;
+};
+
+type Negotiation = {
+    peer: string;
+    pc: RTCPeerConnection;
+    remoteSet: boolean;
+    /** Candidates that came before the remote description */
+    queued: RTCIceCandidateInit[];
+    /** We sent the first offer (and so send restart offers) */
+    originator: boolean;
+    /** ICE restart (see Channel.restartIce) */
+    restart(): boolean;
+    close(): void;
+};
+
+const randomId = (prefix: string) => `${prefix}_${Math.random().toString(36).slice(2, 12)}`;
+
+export function createRtcTransport(opts: RtcTransportOptions): Transport {
+    const em = createEmitter<TransportEvents>();
+    const token = Math.random().toString(36).slice(2);
+    let socket: SignalingSocket | null = null;
+    let selfId = "";
+    /** connectionId → negotiation */
+    const links = new Map<string, Negotiation>();
+
+    const signal = (type: string, dst: string, payload: Record<string, unknown>) => {
+        socket?.send({ type, dst, payload });
+    };
+
+    /** `offered`: the ice mode of the offer we answer (undefined: we make the offer) */
+    const negotiation = (
+        peer: string,
+        connectionId: string,
+        kind: "data" | "media",
+        onGone: () => void,
+        onIce: (state: RTCIceConnectionState) => void,
+        offered?: unknown,
+    ): Negotiation => {
+        const pc = new RTCPeerConnection(opts.ice?.configFor(peer, offered) ?? opts.config);
+        opts.ice?.watch(peer, pc);
+        const n: Negotiation = {
+            peer,
+            pc,
+            remoteSet: false,
+            queued: [],
+            originator: false,
+            restart() {
+                if (links.get(connectionId) !== n || pc.signalingState === "closed") return false;
+                if (!n.originator || pc.signalingState !== "stable") return true;
+                pc.createOffer({ iceRestart: true })
+                    .then((o) => pc.setLocalDescription(o))
+                    .then(() => signal("OFFER", peer, { connectionId, type: kind, sdp: pc.localDescription?.toJSON(), restart: true }))
+                    .catch((e) => em.emit("error", e));
+                return true;
+            },
+            close() {
+                if (links.get(connectionId) !== n) return;
+                links.delete(connectionId);
+                try { pc.close(); } catch { }
+                onGone();
+            },
+        };
+        pc.addEventListener("icecandidate", (e) => {
+            if (e.candidate) signal("CANDIDATE", peer, { connectionId, type: kind, candidate: e.candidate.toJSON() });
+        });
+        pc.addEventListener("iceconnectionstatechange", () => onIce(pc.iceConnectionState));
+        pc.addEventListener("connectionstatechange", () => {
+            if (pc.connectionState === "failed" || pc.connectionState === "closed") n.close();
+        });
+        links.set(connectionId, n);
+        return n;
+    };
+
+    const setRemote = async (n: Negotiation, sdp: RTCSessionDescriptionInit) => {
+        await n.pc.setRemoteDescription(sdp);
+        n.remoteSet = true;
+        for (const c of n.queued.splice(0)) await n.pc.addIceCandidate(c).catch(() => { });
+    };
+
+    const answerWith = async (n: Negotiation, connectionId: string, kind: "data" | "media", offer: RTCSessionDescriptionInit) => {
+        await setRemote(n, offer);
+        await n.pc.setLocalDescription(await n.pc.createAnswer());
+        signal("ANSWER", n.peer, { connectionId, type: kind, sdp: n.pc.localDescription?.toJSON() });
+    };
+
+    const offerFrom = async (n: Negotiation, connectionId: string, payload: Record<string, unknown>) => {
+        await n.pc.setLocalDescription(await n.pc.createOffer());
+        signal("OFFER", n.peer, { ...payload, connectionId, sdp: n.pc.localDescription?.toJSON() });
+    };
+
+    // === CHANNELS ===
+    const rtcChannel = (peer: string, label: string, connectionId: string, offered?: unknown) => {
+        const cem = createEmitter<ChannelEvents>();
+        let dc: RTCDataChannel | null = null;
+        let closed = false;
+        const n = negotiation(peer, connectionId, "data", () => {
+            if (closed) return;
+            closed = true;
+            try { dc?.close(); } catch { }
+            cem.emit("close");
+        }, (s) => cem.emit("ice", s), offered);
+        const channel: Channel = {
+            peer,
+            label,
+            get open() { return !closed && dc?.readyState === "open"; },
+            peerConnection: n.pc,
+            get bufferedAmount() { return dc?.bufferedAmount; },
+            send(data) {
+                if (!dc || dc.readyState !== "open") throw new Error(`channel ${label} to ${peer} is not open`);
+                dc.send(JSON.stringify(data));
+            },
+            close: () => n.close(),
+            restartIce: () => n.restart(),
+            on: (event: any, fn: any) => { cem.on(event, fn); },
+        };
+        const attach = (d: RTCDataChannel) => {
+            dc = d;
+            d.onopen = () => cem.emit("open");
+            d.onclose = () => n.close();
+            d.onerror = (e) => cem.emit("error", e);
+            d.onmessage = (e) => {
+                if (typeof e.data !== "string") return;
+                let data: unknown;
+                try { data = JSON.parse(e.data); } catch { cem.emit("error", new Error("unparseable message")); return; }
+                cem.emit("data", data);
+            };
+        };
+        const fail = (e: unknown) => {
+            cem.emit("error", e);
+            n.close();
+        };
+        return { channel, n, attach, fail };
+    };
+
+    // === CALLS ===
+    const rtcCall = (peer: string, metadata: unknown, connectionId: string, offered?: unknown) => {
+        const mem = createEmitter<MediaLinkEvents>();
+        let gotStream = false;
+        let closed = false;
+        const n = negotiation(peer, connectionId, "media", () => {
+            if (closed) return;
+            closed = true;
+            mem.emit("close");
+        }, (s) => mem.emit("ice", s), offered);
+        n.pc.addEventListener("track", (e) => {
+            gotStream = true;
+            const stream = e.streams[0] ?? new MediaStream(n.pc.getReceivers().map((r) => r.track));
+            mem.emit("stream", stream);
+        });
+        let offer: RTCSessionDescriptionInit | null = null;
+        let local: MediaStream | undefined;
+        const fail = (e: unknown) => {
+            mem.emit("error", e);
+            n.close();
+        };
+        const link: MediaLink = {
+            peer,
+            metadata,
+            get open() { return !closed && gotStream; },
+            peerConnection: n.pc,
+            get localStream() { return local; },
+            answer(stream) {
+                if (!offer) return;
+                local = stream;
+                for (const t of stream?.getTracks() ?? []) n.pc.addTrack(t, stream!);
+                const o = offer;
+                offer = null;
+                answerWith(n, connectionId, "media", o).catch(fail);
+            },
+            close: () => n.close(),
+            restartIce: () => n.restart(),
+            on: (event: any, fn: any) => { mem.on(event, fn); },
+        };
+        return { link, n, fail, setOffer: (o: RTCSessionDescriptionInit) => { offer = o; }, setLocal: (s: MediaStream) => { local = s; } };
+    };
+
+    // === SIGNALING ===
+    const handle = (msg: ServerMessage) => {
+        const src = msg.src;
+        const p = msg.payload ?? {};
+        if (!src || typeof p.connectionId !== "string") {
+            if (msg.type === "LEAVE" || msg.type === "EXPIRE") {
+                for (const n of [...links.values()]) if (n.peer === src) n.close();
+            }
+            return;
+        }
+        const id: string = p.connectionId;
+        if (msg.type === "OFFER") {
+            const known = links.get(id);
+            if (known) {
+                if (p.restart && known.peer === src && !known.originator) {
+                    answerWith(known, id, p.type === "media" ? "media" : "data", p.sdp).catch((e) => em.emit("error", e));
+                }
+                return;
+            }
+            if (p.type === "data") {
+                const { channel, n, attach, fail } = rtcChannel(src, String(p.label ?? ""), id, p.ice);
+                n.pc.addEventListener("datachannel", (e) => attach(e.channel));
+                em.emit("channel", channel);
+                answerWith(n, id, "data", p.sdp).catch(fail);
+            } else if (p.type === "media") {
+                const { link, setOffer } = rtcCall(src, p.metadata, id, p.ice);
+                setOffer(p.sdp);
+                em.emit("call", link);
+            }
+            return;
+        }
+        const n = links.get(id);
+        if (!n || n.peer !== src) return;
+        if (msg.type === "ANSWER") {
+            setRemote(n, p.sdp).catch((e) => { em.emit("error", e); n.close(); });
+        } else if (msg.type === "CANDIDATE" && p.candidate) {
+            if (n.remoteSet) n.pc.addIceCandidate(p.candidate).catch(() => { });
+            else n.queued.push(p.candidate);
+        }
+    };
+
+    const closeAll = () => {
+        for (const n of [...links.values()]) n.close();
+    };
+
+    return {
+        open(id) {
+            if (socket) { socket.removeAllListeners(); socket.close(); }
+            const s = opts.signaling();
+            socket = s;
+            selfId = id;
+            return new Promise<boolean>((resolve) => {
+                let settled = false;
+                const settle = (ok: boolean) => {
+                    if (settled) return;
+                    settled = true;
+                    clearTimeout(to);
+                    if (!ok) {
+                        s.removeAllListeners();
+                        s.close();
+                        if (socket === s) socket = null;
+                    }
+                    resolve(ok);
+                };
+                const to = setTimeout(() => settle(false), opts.openTimeoutMs ?? 15_000);
+                s.on("message", (m: ServerMessage) => {
+                    if (m.type === "OPEN") {
+                        if (settled) em.emit("open");
+                        else settle(true);
+                        return;
+                    }
+                    if (m.type === "ID-TAKEN" || m.type === "INVALID-KEY" || m.type === "ERROR") {
+                        if (settled) em.emit("error", m.payload?.msg ?? m.type);
+                        else settle(false);
+                        return;
+                    }
+                    handle(m);
+                });
+                s.on("error", (e) => { if (settled) em.emit("error", e); else settle(false); });
+                s.on("disconnected", () => { if (settled) em.emit("disconnected"); else settle(false); });
+                s.on("close", () => { if (settled) em.emit("disconnected"); else settle(false); });
+                s.start(id, token);
+            });
+        },
+        connect(peer, label) {
+            const connectionId = randomId("dc");
+            const { channel, n, attach, fail } = rtcChannel(peer, label, connectionId);
+            n.originator = true;
+            attach(n.pc.createDataChannel(label, { ordered: true }));
+            offerFrom(n, connectionId, { type: "data", label, ice: opts.ice?.modeOf(peer) }).catch(fail);
+            return channel;
+        },
+        call(peer, stream, metadata) {
+            const connectionId = randomId("mc");
+            const { link, n, fail, setLocal } = rtcCall(peer, metadata, connectionId);
+            n.originator = true;
+            setLocal(stream);
+            for (const t of stream.getTracks()) n.pc.addTrack(t, stream);
+            offerFrom(n, connectionId, { type: "media", metadata, ice: opts.ice?.modeOf(peer) }).catch(fail);
+            return link;
+        },
+        on(event: any, fn: any) {
+            em.on(event, fn);
+        },
+        reconnect() {
+            if (socket && selfId) socket.start(selfId, token);
+        },
+        async destroy() {
+            closeAll();
+            if (socket) { socket.removeAllListeners(); socket.close(); }
+            socket = null;
+        },
+    };
+}
@@ -0,0 +1,461 @@
+/** ===== ROOM SESSION =====
+ * The networking half of a room, independent of React and of PeerJS:
+ *
+ *  - registers our id with the transport (with retries) and, when signaling
+ *    drops, reconnects with backoff; after a few failed tries it registers
+ *    from scratch (dropping the channels) and dials back the peers it had,
+ *  - restarts ICE on the channels it placed when they go "disconnected",
+ *    rather than dropping them (see guardLink),
+ *  - keeps one channel per peer and label. When both ends dial at once, the
+ *    lower peer id's dial wins. A replaced channel's late events are ignored,
+ *  - opens on-demand labels (say, file transfers) only when asked to,
+ *  - tells subscribers about messages per label, channels opening and
+ *    closing, and peers appearing ("presence" on the first label),
+ *  - places and hands over media calls.
+ *
+ * What the messages mean is left to whoever subscribes.
+ */
+import { createBackoff, guardLink, type Backoff, type BackoffOptions, type LinkGuardOptions, type LinkState } from "./resume";
+import { createEmitter, type Channel, type MediaLink, type Transport, type Unsubscribe } from "./transport";
+
+export type SessionState = "idle" | "connecting" | "open" | "reconnecting" | "closed";
+
+export type SessionEvents = {
+    state: (state: SessionState) => void;
+    /** The current channel for a peer and label opened */
+    open: (peer: string, label: string, channel: Channel) => void;
+    /** ...and went away (not fired for replaced channels, or on close()) */
+    close: (peer: string, label: string, channel: Channel) => void;
+    /** A peer's first-label channel opened / closed */
+    presence: (peer: string, present: boolean) => void;
+    /** Incoming media call, not answered yet */
+    call: (link: MediaLink) => void;
+    /** Reconnect try `attempt` went out; if it doesn't take, the next one is in `inMs` */
+    retry: (attempt: number, inMs: number) => void;
+    /** A channel's ICE trouble (see guardLink); on "lost" the channel is closed */
+    link: (peer: string, label: string, state: LinkState) => void;
+    /** Channel (peer and label), call (peer) or transport (neither) trouble */
+    error: (err: unknown, peer?: string, label?: string) => void;
+};
+
+export type MessageHandler = (peer: string, data: unknown, channel: Channel) => void;
+
+export type RoomSessionOptions = {
+    selfId: string;
+    /** Channels opened to every peer we dial; the first one carries presence */
+    labels?: string[];
+    /** Channels opened only by connect() (either end), never by dial() */
+    onDemand?: string[];
+    /** A dial that hasn't opened by then loses both-dialled races, and expireDials() drops it */
+    dialTimeoutMs?: number;
+    openTries?: number;
+    /** Signaling reconnects after a drop */
+    resume?: BackoffOptions & {
+        /** How long one reconnect try gets to come back */
+        attemptTimeoutMs?: number;
+        /** Failed tries before registering from scratch */
+        reopenAfter?: number;
+    };
+    /** ICE restarts for channels; false leaves them to the transport */
+    linkGuard?: Omit<LinkGuardOptions, "canSignal" | "onState"> | false;
+    now?: () => number;
+};
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+export class RoomSession {
+    readonly selfId: string;
+    readonly labels: readonly string[];
+    readonly onDemand: readonly string[];
+    private readonly transport: Transport;
+    private readonly em = createEmitter<SessionEvents>();
+    private readonly dialTimeoutMs: number;
+    private readonly openTries: number;
+    private readonly attemptTimeoutMs: number;
+    private readonly reopenAfter: number;
+    private readonly backoff: Backoff;
+    private readonly linkGuard: Omit<LinkGuardOptions, "canSignal" | "onState"> | false;
+    private readonly now: () => number;
+    /** peer → label → current channel */
+    private readonly channels = new Map<string, Map<string, Channel>>();
+    /** `${peer}|${label}` → when we dialled the current channel (absent: they dialled) */
+    private readonly dialedAt = new Map<string, number>();
+    private readonly handlers = new Map<string, Set<MessageHandler>>();
+    private readonly present = new Set<string>();
+    private current: SessionState = "idle";
+    private resumeTimer: ReturnType<typeof setTimeout> | null = null;
+    /** Peers we had when signaling dropped, dialled again after a full reopen */
+    private resumePeers = new Set<string>();
+
+    constructor(transport: Transport, opts: RoomSessionOptions) {
+        this.transport = transport;
+        this.selfId = opts.selfId;
+        this.labels = opts.labels ?? ["pos", "chat"];
+        this.onDemand = opts.onDemand ?? [];
+        this.dialTimeoutMs = opts.dialTimeoutMs ?? 15_000;
+        this.openTries = opts.openTries ?? 4;
+        this.attemptTimeoutMs = opts.resume?.attemptTimeoutMs ?? 5_000;
+        this.reopenAfter = opts.resume?.reopenAfter ?? 4;
+        this.backoff = createBackoff(opts.resume);
+        this.linkGuard = opts.linkGuard ?? {};
+        this.now = opts.now ?? (() => performance.now());
+
+        transport.on("channel", (ch) => this.incoming(ch));
+        transport.on("call", (link) => {
+            if (this.current === "closed") { try { link.close(); } catch { } return; }
+            this.em.emit("call", link);
+        });
+        transport.on("open", () => {
+            if (this.current === "reconnecting") this.resumed();
+        });
+        transport.on("disconnected", () => {
+            if (this.current !== "open") return;
+            this.resumePeers = new Set(this.peers());
+            this.setState("reconnecting");
+            this.reconnect();
+        });
+        transport.on("error", (err) => this.em.emit("error", err));
+    }
+
+    get state() { return this.current; }
+
+    /** Reconnect tries since signaling dropped (0 while connected) */
+    get resumeAttempts() { return this.backoff.attempts; }
+
+    on<K extends keyof SessionEvents>(event: K, fn: SessionEvents[K]): Unsubscribe {
+        return this.em.on(event, fn);
+    }
+
+    /** Messages arriving on `label`, from whichever peer */
+    subscribe(label: string, fn: MessageHandler): Unsubscribe {
+        let set = this.handlers.get(label);
+        if (!set) { set = new Set(); this.handlers.set(label, set); }
+        set.add(fn);
+        return () => { set!.delete(fn); };
+    }
+
+    /** Register our id, retrying a few times (an id still held by our last tab frees up shortly) */
+    async open(): Promise<boolean> {
+        if (this.current !== "idle") return this.current === "open";
+        this.setState("connecting");
+        for (let i = 0; i < this.openTries; i++) {
+            if (await this.transport.open(this.selfId)) {
+                // close() may have come in while we waited
+                if (this.state === "closed") { await this.transport.destroy(); return false; }
+                this.setState("open");
+                return true;
+            }
+            if (this.state === "closed") return false;
+            await sleep(400 + i * 300);
+        }
+        this.setState("closed");
+        return false;
+    }
+
+    /** Close every channel (quietly) and release our id */
+    async close() {
+        if (this.current === "closed") return;
+        this.setState("closed");
+        this.clearResume();
+        const all = [...this.channels.values()].flatMap((m) => [...m.values()]);
+        this.channels.clear();
+        this.dialedAt.clear();
+        this.present.clear();
+        for (const ch of all) { try { ch.close(); } catch { } }
+        await this.transport.destroy();
+        this.em.clear();
+        this.handlers.clear();
+    }
+
+    // === CHANNELS ===
+    /** Open whichever of our labels aren't open (or opening) to `peer` yet */
+    dial(peer: string) {
+        if (this.current !== "open" && this.current !== "reconnecting") return;
+        if (peer === this.selfId) return;
+        for (const label of this.labels) {
+            if (this.channel(peer, label)) continue;
+            let ch: Channel;
+            try {
+                ch = this.transport.connect(peer, label);
+            } catch (e) {
+                this.em.emit("error", e, peer, label);
+                continue;
+            }
+            this.adopt(ch, this.now());
+        }
+    }
+
+    /**
+     * The channel to `peer` on on-demand `label`, placing it if there isn't
+     * one (it may not be open yet: wait for "open"). Undefined while not
+     * connected, or if the transport refused.
+     */
+    connect(peer: string, label: string): Channel | undefined {
+        if (this.current !== "open" && this.current !== "reconnecting") return undefined;
+        if (peer === this.selfId || !this.onDemand.includes(label)) return undefined;
+        const have = this.channel(peer, label);
+        if (have) return have;
+        try {
+            const ch = this.transport.connect(peer, label);
+            this.adopt(ch, this.now());
+            return ch;
+        } catch (e) {
+            this.em.emit("error", e, peer, label);
+            return undefined;
+        }
+    }
+
+    channel(peer: string, label = this.labels[0]): Channel | undefined {
+        return this.channels.get(peer)?.get(label);
+    }
+
+    /** Peers with a channel (open or still opening) on `label` */
+    peers(label = this.labels[0]): string[] {
+        return [...this.channels].filter(([, m]) => m.has(label)).map(([pid]) => pid);
+    }
+
+    isOpen(peer: string, label = this.labels[0]) {
+        return !!this.channel(peer, label)?.open;
+    }
+
+    /** We placed the current first-label channel to `peer` (and so own the link) */
+    dialedByUs(peer: string) {
+        return this.dialedAt.has(this.key(peer, this.labels[0]));
+    }
+
+    /** Peers we dialled whose link is still there (open or not) */
+    dialedPeers(): string[] {
+        const first = this.labels[0];
+        return this.peers(first).filter((pid) => this.dialedAt.has(this.key(pid, first)));
+    }
+
+    send(peer: string, label: string, data: unknown): boolean {
+        const ch = this.channel(peer, label);
+        if (!ch?.open) return false;
+        try { ch.send(data); return true; } catch { return false; }
+    }
+
+    broadcast(label: string, data: unknown): number {
+        let n = 0;
+        for (const pid of this.peers(label)) if (this.send(pid, label, data)) n++;
+        return n;
+    }
+
+    /** Close all channels to `peer`; "close" (and presence) fire for open ones */
+    hangUp(peer: string) {
+        for (const ch of [...(this.channels.get(peer)?.values() ?? [])]) {
+            try { ch.close(); } catch { }
+        }
+    }
+
+    /**
+     * Dials that never opened emit no close; drop them so they can be
+     * retried. Returns the peers given up on.
+     */
+    expireDials(): string[] {
+        const now = this.now();
+        const first = this.labels[0];
+        const gone: string[] = [];
+        for (const pid of this.dialedPeers()) {
+            const ch = this.channel(pid, first);
+            const at = this.dialedAt.get(this.key(pid, first));
+            if (!ch || ch.open || at === undefined || now - at < this.dialTimeoutMs) continue;
+            const all = [...(this.channels.get(pid)?.values() ?? [])];
+            this.channels.delete(pid);
+            for (const label of [...this.labels, ...this.onDemand]) this.dialedAt.delete(this.key(pid, label));
+            for (const c of all) { try { c.close(); } catch { } }
+            gone.push(pid);
+        }
+        return gone;
+    }
+
+    /**
+     * Give up on channels to `peer` that haven't opened yet (say, because its
+     * connection is being set up again another way) and, if the link was
+     * ours, dial again. Open channels are left alone. True if it redialled.
+     */
+    retry(peer: string): boolean {
+        if (this.isOpen(peer)) return false;
+        const ours = this.dialedByUs(peer);
+        if (!this.dropPending(peer) || !ours) return false;
+        this.dial(peer);
+        return true;
+    }
+
+    /** While reconnecting: try now instead of waiting out the backoff (say, the browser is back online) */
+    resumeNow() {
+        if (this.current !== "reconnecting" || !this.resumeTimer) return;
+        this.reconnect();
+    }
+
+    // === MEDIA ===
+    call(peer: string, stream: MediaStream, metadata?: unknown): MediaLink | null {
+        if (this.current !== "open" && this.current !== "reconnecting") return null;
+        try {
+            return this.transport.call(peer, stream, metadata) ?? null;
+        } catch (e) {
+            this.em.emit("error", e, peer);
+            return null;
+        }
+    }
+
+    // === INTERNALS ===
+    private key(peer: string, label: string) {
+        return `${peer}|${label}`;
+    }
+
+    /** Forget (quietly) the channels to `peer` that never opened; they emit no close */
+    private dropPending(peer: string): boolean {
+        const byLabel = this.channels.get(peer);
+        if (!byLabel) return false;
+        const pending = [...byLabel.values()].filter((c) => !c.open);
+        for (const c of pending) {
+            byLabel.delete(c.label);
+            this.dialedAt.delete(this.key(peer, c.label));
+            try { c.close(); } catch { }
+        }
+        if (!byLabel.size) this.channels.delete(peer);
+        return pending.length > 0;
+    }
+
+    // === RESUME ===
+    private clearResume() {
+        if (this.resumeTimer) clearTimeout(this.resumeTimer);
+        this.resumeTimer = null;
+    }
+
+    /** One reconnect try; schedules the next unless "open" comes back first */
+    private reconnect() {
+        this.clearResume();
+        if (this.current !== "reconnecting") return;
+        if (this.backoff.attempts >= this.reopenAfter) {
+            void this.reopen();
+            return;
+        }
+        const wait = this.attemptTimeoutMs + this.backoff.next();
+        this.transport.reconnect();
+        this.resumeTimer = setTimeout(() => this.reconnect(), wait);
+        this.em.emit("retry", this.backoff.attempts, wait);
+    }
+
+    /**
+     * Signaling won't come back as it was (the server may have let our id
+     * go): close everything and register again. Channels close with their
+     * usual events; the peers we had are dialled again once we're back.
+     */
+    private async reopen() {
+        for (const [peer, byLabel] of [...this.channels]) {
+            this.channels.delete(peer);
+            for (const [label, ch] of byLabel) {
+                this.dialedAt.delete(this.key(peer, label));
+                this.em.emit("close", peer, label, ch);
+                try { ch.close(); } catch { }
+            }
+            if (this.present.delete(peer)) this.em.emit("presence", peer, false);
+        }
+        await this.transport.destroy();
+        if (this.current !== "reconnecting") return;
+        const ok = await this.transport.open(this.selfId);
+        if (this.current !== "reconnecting") {
+            if (ok) await this.transport.destroy();
+            return;
+        }
+        if (ok) {
+            this.resumed();
+            return;
+        }
+        const wait = this.backoff.next();
+        this.resumeTimer = setTimeout(() => { void this.reopen(); }, wait);
+        this.em.emit("retry", this.backoff.attempts, wait);
+    }
+
+    private resumed() {
+        this.clearResume();
+        this.backoff.reset();
+        this.setState("open");
+        const peers = [...this.resumePeers];
+        this.resumePeers.clear();
+        for (const pid of peers) this.dial(pid);
+    }
+
+    private setState(s: SessionState) {
+        if (this.current === s) return;
+        this.current = s;
+        this.em.emit("state", s);
+    }
+
+    private isCurrent(ch: Channel) {
+        return this.channels.get(ch.peer)?.get(ch.label) === ch;
+    }
+
+    private incoming(ch: Channel) {
+        if (this.current === "closed" || !(this.labels.includes(ch.label) || this.onDemand.includes(ch.label))) {
+            try { ch.close(); } catch { }
+            return;
+        }
+        const ours = this.channel(ch.peer, ch.label);
+        const at = this.dialedAt.get(this.key(ch.peer, ch.label));
+        // both ends dialled at once: keep the channel the lower peer id opened
+        if (ours && at !== undefined) {
+            const stale = !ours.open && this.now() - at > this.dialTimeoutMs;
+            if (this.selfId < ch.peer && !stale) {
+                try { ch.close(); } catch { }
+                return;
+            }
+        }
+        this.adopt(ch, null);
+    }
+
+    private adopt(ch: Channel, dialedAt: number | null) {
+        const { peer, label } = ch;
+        const key = this.key(peer, label);
+        const prev = this.channel(peer, label);
+        let byLabel = this.channels.get(peer);
+        if (!byLabel) { byLabel = new Map(); this.channels.set(peer, byLabel); }
+        byLabel.set(label, ch);
+        if (dialedAt !== null) this.dialedAt.set(key, dialedAt);
+        else this.dialedAt.delete(key);
+
+        const first = label === this.labels[0];
+        ch.on("open", () => {
+            if (!this.isCurrent(ch)) return;
+            this.em.emit("open", peer, label, ch);
+            if (first && !this.present.has(peer)) {
+                this.present.add(peer);
+                this.em.emit("presence", peer, true);
+            }
+            // the side that was dialled fills in whatever labels are missing
+            if (first) this.dial(peer);
+        });
+        ch.on("data", (data) => {
+            if (!this.isCurrent(ch)) return;
+            for (const fn of [...(this.handlers.get(label) ?? [])]) {
+                try { fn(peer, data, ch); } catch (e) { console.warn(`${label} handler failed`, e); }
+            }
+        });
+        ch.on("close", () => {
+            const labels = this.channels.get(peer);
+            if (!labels || labels.get(label) !== ch) return;
+            labels.delete(label);
+            if (!labels.size) this.channels.delete(peer);
+            this.dialedAt.delete(key);
+            this.em.emit("close", peer, label, ch);
+            if (first && this.present.delete(peer)) this.em.emit("presence", peer, false);
+        });
+        ch.on("error", (err) => this.em.emit("error", err, peer, label));
+        // restarts come from the end that placed the channel; the other end follows
+        if (this.linkGuard && dialedAt !== null) {
+            guardLink(ch, {
+                ...this.linkGuard,
+                canSignal: () => this.current === "open",
+                onState: (state) => {
+                    if (!this.isCurrent(ch)) return;
+                    this.em.emit("link", peer, label, state);
+                    if (state === "lost") { try { ch.close(); } catch { } }
+                },
+            });
+        }
+
+        if (prev && prev !== ch) { try { prev.close(); } catch { } }
+    }
+}
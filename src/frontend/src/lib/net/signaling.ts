@@ -0,0 +1,389 @@
+/** ===== SIGNALING =====
+ * WebRTC offers, answers and ICE candidates normally travel through the
+ * PeerJS server's WebSocket. This module carries the same messages through
+ * the backend canister's signal mailbox instead:
+ *
+ *   sendSignal(room, {from, to, kind, data})  append to the recipient's mailbox
+ *   getSignals(room)                          our own mailbox; a cheap query, so it's polled
+ *   clearSignals(room)                        wipe our own mailbox (update call)
+ *
+ * Only participants may send (anyone signed in for the lobby); mailboxes
+ * hold a few recent batches and forget them after two minutes.
+ *
+ * Messages to the same principal are batched into one signal. clearSignals
+ * wipes everything, so a signal landing between our read and the wipe is
+ * lost: batches carry ids, receivers ack them and senders retransmit until
+ * acked. Polling backs off while nothing happens and snaps back to fast as
+ * soon as we send or receive.
+ *
+ * Sockets here speak PeerJS's server-message shape, so they can stand in
+ * for PeerJS's own (see signalingPeer.ts).
+ */
+import { Principal } from "@dfinity/principal";
+import type { Signal } from "../../types/backend";
+
+/** PeerJS server message: OPEN, OFFER, ANSWER, CANDIDATE, ... */
+export type ServerMessage = { type: string; src?: string; dst?: string; payload?: any };
+export type SocketEvent = "message" | "disconnected" | "error" | "close";
+
+/** What PeerJS needs from its server connection */
+export interface SignalingSocket {
+    start(id: string, token?: string): void;
+    send(msg: ServerMessage): void;
+    close(): void;
+    on(event: SocketEvent, fn: (arg?: any) => void): unknown;
+    removeAllListeners(): unknown;
+}
+
+/** The canister's signal methods (canisterService, or an in-memory stand-in) */
+export interface SignalApi {
+    sendSignal(roomId: string, signal: Signal): Promise<void>;
+    getSignals(roomId: string): Promise<Signal[]>;
+    clearSignals(roomId: string): Promise<void>;
+}
+
+function createEmitter() {
+    const handlers = new Map<SocketEvent, Array<(arg?: any) => void>>();
+    return {
+        on(event: SocketEvent, fn: (arg?: any) => void) {
+            handlers.set(event, [...(handlers.get(event) ?? []), fn]);
+        },
+        emit(event: SocketEvent, arg?: unknown) {
+            for (const fn of handlers.get(event) ?? []) fn(arg);
+        },
+        removeAllListeners() {
+            handlers.clear();
+        },
+    };
+}
+
+/** Insertion-ordered set that forgets its oldest keys */
+function createRecentSet(max: number) {
+    const keys = new Set<string>();
+    return {
+        has: (k: string) => keys.has(k),
+        add(k: string) {
+            keys.add(k);
+            if (keys.size > max) keys.delete(keys.values().next().value as string);
+        },
+    };
+}
+
+// === CANISTER SOCKET ===
+export const SIGNAL_KIND = "batch";
+
+/** Signal.data */
+type Packet = {
+    v: 1;
+    /** Sender's PeerJS id, and a nonce per socket so a reloaded tab's ids don't look like duplicates */
+    from: string;
+    s: string;
+    /** Wall-clock send time; leftovers from an earlier session are skipped */
+    ts: number;
+    /** Batch id; ack-only packets have none and aren't acked themselves */
+    id?: number;
+    m?: Array<{ to: string; type: string; payload?: unknown }>;
+    /** [their session, their batch id] received since the last packet to them */
+    acks?: Array<[string, number]>;
+};
+
+const isPacket = (p: any): p is Packet =>
+    !!p && p.v === 1 && typeof p.from === "string" && typeof p.s === "string" && typeof p.ts === "number" &&
+    (p.id === undefined || Number.isInteger(p.id)) &&
+    (p.m === undefined || (Array.isArray(p.m) && p.m.every((m: any) => m && typeof m.to === "string" && typeof m.type === "string"))) &&
+    (p.acks === undefined || (Array.isArray(p.acks) && p.acks.every((a: any) => Array.isArray(a) && typeof a[0] === "string" && Number.isInteger(a[1]))));
+
+export type CanisterSignalingOptions = {
+    api: SignalApi;
+    /** Mailbox namespace: the room id (anything stable for the lobby) */
+    roomId: string;
+    /** Principal text behind a PeerJS id */
+    principalOf(peerId: string): string;
+    /** Wait this long for more messages to the same principal */
+    batchMs?: number;
+    pollMinMs?: number;
+    pollMaxMs?: number;
+    retransmitMs?: number;
+    maxTries?: number;
+    /** Skip batches older than this (clock skew between machines included) */
+    maxAgeMs?: number;
+};
+
+export type SignalingStats = {
+    /** sendSignal calls, and the messages they carried */
+    signalsSent: number;
+    messagesSent: number;
+    messagesReceived: number;
+    polls: number;
+    retransmits: number;
+    /** Batches given up on after maxTries */
+    lost: number;
+    duplicates: number;
+    errors: number;
+    pollDelayMs: number;
+};
+
+export type CanisterSocket = SignalingSocket & { readonly stats: SignalingStats };
+
+export function createCanisterSocket(opts: CanisterSignalingOptions): CanisterSocket {
+    const batchMs = opts.batchMs ?? 60;
+    const pollMinMs = opts.pollMinMs ?? 500;
+    const pollMaxMs = opts.pollMaxMs ?? 5000;
+    const retransmitMs = opts.retransmitMs ?? 3000;
+    const maxTries = opts.maxTries ?? 6;
+    const maxAgeMs = opts.maxAgeMs ?? 120_000;
+    const em = createEmitter();
+    const session = Math.random().toString(36).slice(2, 10);
+
+    let selfId = "";
+    let self: Principal | null = null;
+    let running = false;
+    let opened = false;
+    let failures = 0;
+    let nextId = 0;
+    let pollTimer: ReturnType<typeof setTimeout> | null = null;
+    let pollDue = 0;
+    let pollDelay = pollMinMs;
+    let polling = false;
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+    let clearing = false;
+
+    /** principal → queued messages / acks */
+    const outbox = new Map<string, { m: NonNullable<Packet["m"]>; acks: Array<[string, number]> }>();
+    const unacked = new Map<number, { to: string; data: string; at: number; tries: number }>();
+    const seen = createRecentSet(4000);
+    /** Don't re-ack the same batch every poll while it sits in the mailbox */
+    const ackedAt = new Map<string, number>();
+    const stats: SignalingStats = {
+        signalsSent: 0, messagesSent: 0, messagesReceived: 0, polls: 0, retransmits: 0, lost: 0, duplicates: 0, errors: 0, pollDelayMs: pollDelay,
+    };
+
+    const boxFor = (principal: string) => {
+        let box = outbox.get(principal);
+        if (!box) { box = { m: [], acks: [] }; outbox.set(principal, box); }
+        return box;
+    };
+
+    const post = (to: string, data: string) => {
+        if (!self) return;
+        stats.signalsSent++;
+        opts.api.sendSignal(opts.roomId, { from: self, to: Principal.fromText(to), kind: SIGNAL_KIND, data })
+            .catch(() => { stats.errors++; });
+    };
+
+    const flush = () => {
+        flushTimer = null;
+        if (!running) return;
+        for (const [to, box] of outbox) {
+            if (!box.m.length && !box.acks.length) continue;
+            const packet: Packet = { v: 1, from: selfId, s: session, ts: Date.now() };
+            if (box.m.length) { packet.id = ++nextId; packet.m = box.m; }
+            if (box.acks.length) packet.acks = box.acks;
+            const data = JSON.stringify(packet);
+            if (packet.id !== undefined) unacked.set(packet.id, { to, data, at: Date.now(), tries: 1 });
+            stats.messagesSent += box.m.length;
+            post(to, data);
+        }
+        outbox.clear();
+    };
+
+    const scheduleFlush = () => {
+        if (!flushTimer) flushTimer = setTimeout(flush, batchMs);
+    };
+
+    const retransmit = () => {
+        const now = Date.now();
+        for (const [id, b] of unacked) {
+            if (now - b.at < retransmitMs) continue;
+            if (b.tries >= maxTries) { unacked.delete(id); stats.lost++; continue; }
+            b.tries++;
+            b.at = now;
+            stats.retransmits++;
+            post(b.to, b.data);
+        }
+    };
+
+    const receive = (signals: Signal[]) => {
+        const now = Date.now();
+        for (const sig of signals) {
+            if (sig.kind !== SIGNAL_KIND) continue;
+            let p: unknown;
+            try { p = JSON.parse(sig.data); } catch { continue; }
+            if (!isPacket(p) || p.from === selfId) continue;
+            // the canister stamps the caller; a peer id that isn't theirs is someone else's offer
+            if (opts.principalOf(p.from) !== sig.from.toText()) continue;
+
+            for (const [s, id] of p.acks ?? []) if (s === session) unacked.delete(id);
+            const mine = (p.m ?? []).filter((m) => m.to === selfId);
+            if (p.id === undefined || !mine.length) continue;
+
+            const key = `${p.from}|${p.s}|${p.id}`;
+            if ((ackedAt.get(key) ?? -Infinity) < now - retransmitMs) {
+                ackedAt.set(key, now);
+                boxFor(opts.principalOf(p.from)).acks.push([p.s, p.id]);
+                scheduleFlush();
+            }
+            if (seen.has(key)) { stats.duplicates++; continue; }
+            seen.add(key);
+            if (now - p.ts > maxAgeMs) continue;
+            for (const m of mine) {
+                stats.messagesReceived++;
+                em.emit("message", { type: m.type, src: p.from, dst: selfId, payload: m.payload });
+            }
+        }
+        for (const [k, at] of ackedAt) if (now - at > retransmitMs * maxTries) ackedAt.delete(k);
+    };
+
+    const schedulePoll = (delay: number) => {
+        if (!running) return;
+        const due = Date.now() + delay;
+        if (pollTimer && pollDue <= due) return;
+        if (pollTimer) clearTimeout(pollTimer);
+        pollDue = due;
+        pollTimer = setTimeout(poll, delay);
+    };
+
+    /** Someone is about to answer: look again soon */
+    const hurry = () => {
+        pollDelay = pollMinMs;
+        stats.pollDelayMs = pollDelay;
+        if (!polling) schedulePoll(pollMinMs);
+    };
+
+    const poll = async () => {
+        pollTimer = null;
+        if (!running || !self) return;
+        polling = true;
+        stats.polls++;
+        try {
+            const signals = await opts.api.getSignals(opts.roomId);
+            if (!running) return;
+            failures = 0;
+            if (!opened) {
+                opened = true;
+                em.emit("message", { type: "OPEN" });
+            }
+            receive(signals);
+            if (signals.length && !clearing) {
+                clearing = true;
+                opts.api.clearSignals(opts.roomId).catch(() => { stats.errors++; }).finally(() => { clearing = false; });
+            }
+            // stay quick while a reply (or an ack) is still expected
+            pollDelay = signals.length || unacked.size ? pollMinMs : Math.min(pollMaxMs, Math.round(pollDelay * 1.6));
+        } catch (e) {
+            stats.errors++;
+            failures++;
+            if (failures >= 5) {
+                running = false;
+                em.emit(opened ? "disconnected" : "error", `signal mailbox unreachable: ${String((e as any)?.message || e)}`);
+                return;
+            }
+            pollDelay = Math.min(pollMaxMs, pollDelay * 2);
+        } finally {
+            polling = false;
+        }
+        stats.pollDelayMs = pollDelay;
+        retransmit();
+        schedulePoll(pollDelay);
+    };
+
+    return {
+        start(id) {
+            if (running) return;
+            selfId = id;
+            try {
+                self = Principal.fromText(opts.principalOf(id));
+            } catch {
+                setTimeout(() => em.emit("error", `no principal behind peer id "${id}"`), 0);
+                return;
+            }
+            running = true;
+            failures = 0;
+            schedulePoll(0);
+        },
+        send(msg) {
+            if (!running || !msg.dst || msg.type === "HEARTBEAT") return;
+            boxFor(opts.principalOf(msg.dst)).m.push({ to: msg.dst, type: msg.type, payload: msg.payload });
+            scheduleFlush();
+            hurry();
+        },
+        close() {
+            if (!running) return;
+            flush();
+            running = false;
+            if (pollTimer) clearTimeout(pollTimer);
+            if (flushTimer) clearTimeout(flushTimer);
+            pollTimer = flushTimer = null;
+            unacked.clear();
+        },
+        on: em.on,
+        removeAllListeners: em.removeAllListeners,
+        get stats() { return stats; },
+    };
+}
+
+// === COMBINED ===
+const fnv1a = (s: string) => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < s.length; i++) h = Math.imul(h ^ s.charCodeAt(i), 0x01000193);
+    return (h >>> 0).toString(36);
+};
+
+/** Negotiation messages can arrive over more than one path; the same one twice would restart a connection */
+const dedupeKey = (msg: ServerMessage) => {
+    if (msg.type !== "OFFER" && msg.type !== "ANSWER" && msg.type !== "CANDIDATE") return null;
+    const p = msg.payload ?? {};
+    return `${msg.src}|${msg.type}|${p.connectionId}|${fnv1a(JSON.stringify(p.sdp ?? p.candidate ?? null))}`;
+};
+
+/**
+ * Several signaling paths behaving as one: sends go out on all of them,
+ * receives are de-duplicated, and the combination is up while any path is.
+ * Lets canister signaling run next to the PeerJS server, so clients on
+ * either one still reach each other.
+ */
+export function combineSockets(sockets: SignalingSocket[]): SignalingSocket {
+    const em = createEmitter();
+    const seen = createRecentSet(2000);
+    const down = new Set<SignalingSocket>();
+    let opened = false;
+
+    const fail = (s: SignalingSocket, event: SocketEvent, arg?: unknown) => {
+        down.add(s);
+        if (down.size === sockets.length) em.emit(opened ? event : "error", arg);
+    };
+
+    for (const s of sockets) {
+        s.on("message", (msg: ServerMessage) => {
+            if (msg.type === "OPEN") {
+                if (!opened) { opened = true; em.emit("message", msg); }
+                return;
+            }
+            const key = dedupeKey(msg);
+            if (key) {
+                if (seen.has(key)) return;
+                seen.add(key);
+            }
+            em.emit("message", msg);
+        });
+        s.on("error", (e) => fail(s, "error", e));
+        s.on("disconnected", () => fail(s, "disconnected"));
+        s.on("close", () => fail(s, "close"));
+    }
+
+    return {
+        start(id, token) {
+            for (const s of sockets) s.start(id, token);
+        },
+        send(msg) {
+            for (const s of sockets) if (!down.has(s)) s.send(msg);
+        },
+        close() {
+            for (const s of sockets) s.close();
+        },
+        on: em.on,
+        removeAllListeners() {
+            em.removeAllListeners();
+        },
+    };
+}
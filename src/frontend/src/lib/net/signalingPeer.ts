@@ -0,0 +1,188 @@
+/** ===== SIGNALING PEER =====
+ * A PeerJS Peer whose server connection is picked by VITE_SIGNALING:
+ *
+ *   "peerjs"    the PeerJS server's WebSocket only (the old behaviour)
+ *   "canister"  the backend canister's signal mailbox only
+ *   "both"      both at once, de-duplicated (default) — clients on an older
+ *               build still reach us through the PeerJS server, and we reach
+ *               each other when that server is down
+ *
+ * PeerJS doesn't export its Socket, so this hooks the one place it builds
+ * one (_createServerConnection) and wires our socket up the same way.
+ *
+ * With an IceSelector (ice.ts) it also picks the RTCConfiguration per
+ * connection: PeerJS reads options.config whenever it makes a connection,
+ * so it's swapped in right before connect(), call() and incoming offers.
+ *
+ * PeerJS can't renegotiate a connection (an offer for a known connection id
+ * replaces it), so ICE restarts live here too: a fresh offer flagged
+ * `restart` for the same connection id, answered in place.
+ */
+import Peer, { type DataConnection, type MediaConnection, type PeerOptions } from "peerjs";
+import type { IceSelector } from "./ice";
+import { combineSockets, createCanisterSocket, type CanisterSignalingOptions, type SignalingSocket } from "./signaling";
+
+export type SignalingMode = "peerjs" | "canister" | "both";
+
+const envMode = (import.meta.env.VITE_SIGNALING as string | undefined)?.trim().toLowerCase();
+export const SIGNALING_MODE: SignalingMode = envMode === "peerjs" || envMode === "canister" ? envMode : "both";
+
+export type SignalingConfig = {
+    mode?: SignalingMode;
+    canister: CanisterSignalingOptions;
+};
+
+type PeerInternals = {
+    _options: PeerOptions & { signaling?: SignalingConfig; ice?: IceSelector };
+    disconnected: boolean;
+    _handleMessage(msg: unknown): void;
+    _abort(type: string, message: unknown): void;
+    emitError(type: string, message: unknown): void;
+    disconnect(): void;
+    connect(peer: string, options?: any): any;
+    call(peer: string, stream: MediaStream, options?: any): any;
+    getConnection(peer: string, connectionId: string): any;
+    readonly socket: { send(data: unknown): void };
+    readonly id: string;
+};
+
+/** The bits of a PeerJS DataConnection / MediaConnection a restart touches */
+type PeerJsConnection = {
+    peer: string;
+    connectionId: string;
+    type: string;
+    peerConnection?: RTCPeerConnection | null;
+    /** Set on the answering end only */
+    options?: { _payload?: unknown };
+};
+
+const PeerBase = Peer as unknown as new (id: string, options: PeerOptions) => PeerInternals & {
+    _createServerConnection(): SignalingSocket;
+};
+
+class SignalingPeer extends PeerBase {
+    _createServerConnection(): SignalingSocket {
+        const cfg = this._options.signaling;
+        const mode = cfg?.mode ?? SIGNALING_MODE;
+        if (!cfg || mode === "peerjs") return super._createServerConnection();
+
+        const sockets: SignalingSocket[] = [createCanisterSocket(cfg.canister)];
+        if (mode === "both") {
+            // PeerJS's own socket, minus the handlers it wired to us; the combination gets them instead
+            const ws = super._createServerConnection();
+            ws.removeAllListeners();
+            sockets.push(ws);
+        }
+        const socket = sockets.length > 1 ? combineSockets(sockets) : sockets[0];
+
+        // same wiring as Peer._createServerConnection (peerjs 1.5)
+        socket.on("message", (data) => this._handleMessage(data));
+        socket.on("error", (error) => this._abort("socket-error", error));
+        socket.on("disconnected", () => {
+            if (this.disconnected) return;
+            this.emitError("network", "Lost connection to server.");
+            this.disconnect();
+        });
+        socket.on("close", () => {
+            if (this.disconnected) return;
+            this._abort("socket-closed", "Underlying socket is already closed.");
+        });
+        return socket;
+    }
+
+    connect(peer: string, options: any = {}) {
+        const ice = this._options.ice;
+        if (!ice) return super.connect(peer, options);
+        const metadata = { ...options.metadata, ice: ice.modeOf(peer) };
+        this._options.config = ice.configFor(peer);
+        return this.watched(peer, super.connect(peer, { ...options, metadata }));
+    }
+
+    call(peer: string, stream: MediaStream, options: any = {}) {
+        const ice = this._options.ice;
+        if (!ice) return super.call(peer, stream, options);
+        const md = options.metadata;
+        // metadata that isn't an object goes as it is (and the call as it comes)
+        const metadata = md === undefined || (md && typeof md === "object" && !Array.isArray(md))
+            ? { ...md, ice: ice.modeOf(peer) }
+            : md;
+        this._options.config = ice.configFor(peer);
+        return this.watched(peer, super.call(peer, stream, { ...options, metadata }));
+    }
+
+    /** See Channel.restartIce: the placing end sends a restart offer, the other end waits for one */
+    restartIce(conn: PeerJsConnection): boolean {
+        const pc = conn.peerConnection;
+        if (!pc || pc.signalingState === "closed" || this.disconnected) return false;
+        if (conn.options?._payload) return true;
+        if (pc.signalingState !== "stable") return true; // one is under way
+        this.sendCandidates(conn, pc);
+        (async () => {
+            await pc.setLocalDescription(await pc.createOffer({ iceRestart: true }));
+            this.socket.send({
+                type: "OFFER",
+                dst: conn.peer,
+                payload: { sdp: pc.localDescription, type: conn.type, connectionId: conn.connectionId, restart: true },
+            });
+        })().catch((e) => console.warn(`[peer] ICE restart to ${conn.peer} failed`, e));
+        return true;
+    }
+
+    private answerRestart(msg: any) {
+        const conn: PeerJsConnection | null = this.getConnection(msg.src, msg.payload.connectionId);
+        const pc = conn?.peerConnection;
+        // a restart for something we no longer have: they'll give up on it and dial again
+        if (!conn || !pc || pc.signalingState === "closed") return;
+        this.sendCandidates(conn, pc);
+        (async () => {
+            await pc.setRemoteDescription(msg.payload.sdp);
+            await pc.setLocalDescription(await pc.createAnswer());
+            this.socket.send({
+                type: "ANSWER",
+                dst: conn.peer,
+                payload: { sdp: pc.localDescription, type: conn.type, connectionId: conn.connectionId },
+            });
+        })().catch((e) => console.warn(`[peer] ICE restart from ${conn.peer} failed`, e));
+    }
+
+    /** PeerJS stops sending candidates once ICE completes; a restart needs them again */
+    private sendCandidates(conn: PeerJsConnection, pc: RTCPeerConnection) {
+        pc.onicecandidate = (e) => {
+            if (!e.candidate?.candidate) return;
+            this.socket.send({
+                type: "CANDIDATE",
+                dst: conn.peer,
+                payload: { candidate: e.candidate, type: conn.type, connectionId: conn.connectionId },
+            });
+        };
+    }
+
+    _handleMessage(msg: any) {
+        if (msg?.type === "OFFER" && msg.payload?.restart && msg.src) return this.answerRestart(msg);
+        const ice = this._options.ice;
+        if (!ice || msg?.type !== "OFFER" || !msg.src) return super._handleMessage(msg);
+        this._options.config = ice.configFor(msg.src, msg.payload?.metadata?.ice);
+        super._handleMessage(msg);
+        const conn = this.getConnection(msg.src, msg.payload?.connectionId);
+        if (conn) this.watched(msg.src, conn);
+    }
+
+    private watched<C extends { peerConnection?: RTCPeerConnection | null }>(peer: string, conn: C): C {
+        if (conn?.peerConnection) this._options.ice?.watch(peer, conn.peerConnection);
+        return conn;
+    }
+}
+
+/**
+ * `new Peer(id, options)`, signaling through whatever `signaling.mode` (or
+ * VITE_SIGNALING) says; `ice` picks each connection's config over options.config
+ */
+export function createSignalingPeer(id: string, options: PeerOptions, signaling: SignalingConfig, ice?: IceSelector): Peer {
+    return new SignalingPeer(id, { ...options, signaling, ice } as PeerOptions) as unknown as Peer;
+}
+
+/** Restart ICE on a connection of a Peer made by createSignalingPeer (false for any other Peer) */
+export function restartIce(peer: Peer, conn: DataConnection | MediaConnection): boolean {
+    const p = peer as unknown;
+    return p instanceof SignalingPeer ? p.restartIce(conn as unknown as PeerJsConnection) : false;
+}
@@ -0,0 +1,119 @@
+/** ===== TRANSPORT =====
+ * What a room needs from the network, without saying how: named data
+ * channels and media calls between peer ids, plus a signaling registration
+ * that can drop and come back. Implementations:
+ *
+ *  - peerjsTransport.ts  PeerJS (server or canister signaling)
+ *  - rtcTransport.ts     plain RTCPeerConnection over a signaling socket
+ *  - memoryTransport.ts  in-process, for headless runs
+ *
+ * The shapes follow PeerJS's DataConnection / MediaConnection closely, so
+ * code written against PeerJS mostly reads the same.
+ */
+
+export type Unsubscribe = () => void;
+
+/** Reliable, ordered, JSON-serialised channel to one peer */
+export interface Channel {
+    readonly peer: string;
+    readonly label: string;
+    readonly open: boolean;
+    /** Underlying connection, when there is one (extra channels, stats) */
+    readonly peerConnection?: RTCPeerConnection;
+    /** Bytes sent but not on the wire yet, when the transport can tell */
+    readonly bufferedAmount?: number;
+    send(data: unknown): void;
+    close(): void;
+    /**
+     * ICE restart in place, for a connection that went "disconnected". The
+     * end that placed the connection sends the new offer; the other end just
+     * waits for it. False if it can't be done (then close and dial again).
+     */
+    restartIce?(): boolean;
+    on(event: "open" | "close", fn: () => void): void;
+    on(event: "data", fn: (data: unknown) => void): void;
+    on(event: "error", fn: (err: unknown) => void): void;
+    /** The underlying connection's ICE state changed */
+    on(event: "ice", fn: (state: RTCIceConnectionState) => void): void;
+}
+
+/** Media call to one peer; the caller's tracks go out, "stream" brings theirs */
+export interface MediaLink {
+    readonly peer: string;
+    readonly metadata: any;
+    readonly open: boolean;
+    readonly peerConnection?: RTCPeerConnection;
+    /** What we send: the stream we called with, or answered with */
+    readonly localStream?: MediaStream;
+    /** Callee side: accept, sending `stream` back (or nothing) */
+    answer(stream?: MediaStream): void;
+    close(): void;
+    /** As Channel.restartIce */
+    restartIce?(): boolean;
+    on(event: "stream", fn: (stream: MediaStream) => void): void;
+    on(event: "close", fn: () => void): void;
+    on(event: "error", fn: (err: unknown) => void): void;
+    on(event: "ice", fn: (state: RTCIceConnectionState) => void): void;
+}
+
+export interface Transport {
+    /** Register `id` with signaling; false if it's taken or signaling is unreachable */
+    open(id: string): Promise<boolean>;
+    connect(peer: string, label: string): Channel;
+    call(peer: string, stream: MediaStream, metadata?: unknown): MediaLink;
+    on(event: "channel", fn: (channel: Channel) => void): void;
+    on(event: "call", fn: (link: MediaLink) => void): void;
+    /** Registered with signaling again after a reconnect() */
+    on(event: "open", fn: () => void): void;
+    /** Signaling dropped; existing links keep working */
+    on(event: "disconnected", fn: () => void): void;
+    on(event: "error", fn: (err: unknown) => void): void;
+    /** Register again after "disconnected" */
+    reconnect(): void;
+    /** Close everything and release the id */
+    destroy(): Promise<void>;
+}
+
+/** Minimal typed emitter the transports and the session share */
+export function createEmitter<E extends Record<string, (...args: any[]) => void>>() {
+    const handlers = new Map<keyof E, Set<(...args: any[]) => void>>();
+    return {
+        on<K extends keyof E>(event: K, fn: E[K]): Unsubscribe {
+            let set = handlers.get(event);
+            if (!set) { set = new Set(); handlers.set(event, set); }
+            set.add(fn);
+            return () => { set!.delete(fn); };
+        },
+        emit<K extends keyof E>(event: K, ...args: Parameters<E[K]>) {
+            for (const fn of [...(handlers.get(event) ?? [])]) {
+                try { fn(...args); } catch (e) { console.warn(`${String(event)} handler failed`, e); }
+            }
+        },
+        clear() {
+            handlers.clear();
+        },
+    };
+}
+
+export type ChannelEvents = {
+    open: () => void;
+    close: () => void;
+    data: (data: unknown) => void;
+    error: (err: unknown) => void;
+    ice: (state: RTCIceConnectionState) => void;
+};
+
+export type MediaLinkEvents = {
+    stream: (stream: MediaStream) => void;
+    close: () => void;
+    error: (err: unknown) => void;
+    ice: (state: RTCIceConnectionState) => void;
+};
+
+export type TransportEvents = {
+    channel: (channel: Channel) => void;
+    call: (link: MediaLink) => void;
+    open: () => void;
+    disconnected: () => void;
+    error: (err: unknown) => void;
+};
@@ -23,6 +23,14 @@ import { canisterService } from '../services/canisterService';
 import { Principal } from '@dfinity/principal';
 import LoginRequired from '../components/auth/LoginRequired';
 import ProfileSetupRequired from '../components/auth/ProfileSetupRequired';
+import { checkMapDef } from '../components/world/map';
+import {
+    CUSTOM_MAP_ID,
+    DEFAULT_MAP_ID,
+    MAP_TEMPLATES,
+    MAX_CUSTOM_MAP_SIZE,
+    parseCustomMap,
+} from '../components/world/mapCatalog';
 
 // Animation variants 
 const fadeInUpVariants = {
@@ -92,6 +100,8 @@ const Dashboard: React.FC = () => {
     } = usePeers();
 
     const [roomId, setRoomId] = useState('');
+    const [mapId, setMapId] = useState(DEFAULT_MAP_ID);
+    const [customMap, setCustomMap] = useState<{ name: string; text: string } | null>(null);
     const [loading, setLoading] = useState(false);
     const [showCreateForm, setShowCreateForm] = useState(false);
     const [showJoinForm, setShowJoinForm] = useState(false);
@@ -294,9 +304,19 @@ const Dashboard: React.FC = () => {
             return;
         }
 
+        if (mapId === CUSTOM_MAP_ID && !customMap) {
+            alert('Please upload a map file or pick a template');
+            return;
+        }
+
         setLoading(true);
         try {
-            const result = await createRoom(roomId.trim());
+            const result = await createRoom(
+                roomId.trim(),
+                mapId === CUSTOM_MAP_ID && customMap
+                    ? { mapId, customMap: customMap.text }
+                    : { mapId }
+            );
 
             if ('Err' in result) {
                 alert(`Failed to create room: ${result.Err}`);
@@ -310,6 +330,23 @@ const Dashboard: React.FC = () => {
         }
     };
 
+    const handleCustomMapFile = async (file: File | undefined) => {
+        if (!file) return;
+        const text = await file.text();
+        if (text.length > MAX_CUSTOM_MAP_SIZE) {
+            alert(`Map file is too large (max ${Math.floor(MAX_CUSTOM_MAP_SIZE / 1000)} KB)`);
+            return;
+        }
+        try {
+            checkMapDef(parseCustomMap(text));
+        } catch (error) {
+            alert(error instanceof Error ? error.message : 'Invalid map file');
+            return;
+        }
+        setCustomMap({ name: file.name, text });
+        setMapId(CUSTOM_MAP_ID);
+    };
+
     const handleJoinRoom = async (targetRoomId?: string) => {
         const targetId = targetRoomId || roomId.trim();
 
@@ -696,6 +733,49 @@ const Dashboard: React.FC = () => {
                                                 </p>
                                             </div>
 
+                                            <div>
+                                                <label className="block text-sm font-medium mb-2 text-green-300">Map</label>
+                                                <div className="grid grid-cols-2 gap-2">
+                                                    {MAP_TEMPLATES.map((tpl) => (
+                                                        <button
+                                                            key={tpl.id}
+                                                            type="button"
+                                                            onClick={() => setMapId(tpl.id)}
+                                                            className={cn(
+                                                                'text-left rounded-lg border px-3 py-2 transition-colors cursor-target',
+                                                                mapId === tpl.id
+                                                                    ? 'border-green-400 bg-green-400/10'
+                                                                    : 'border-gray-600 bg-gray-800/50 hover:bg-gray-700/60'
+                                                            )}
+                                                        >
+                                                            <div className="text-sm font-semibold text-white">{tpl.name}</div>
+                                                            <div className="text-xs text-gray-400">{tpl.description}</div>
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                                <label
+                                                    className={cn(
+                                                        'mt-2 flex items-center justify-between rounded-lg border px-3 py-2 text-sm cursor-pointer cursor-target',
+                                                        mapId === CUSTOM_MAP_ID
+                                                            ? 'border-green-400 bg-green-400/10 text-white'
+                                                            : 'border-gray-600 bg-gray-800/50 text-gray-300 hover:bg-gray-700/60'
+                                                    )}
+                                                >
+                                                    <span className="truncate">
+                                                        {customMap ? customMap.name : 'Upload custom map (.json, .tmj, .tmx)'}
+                                                    </span>
+                                                    <input
+                                                        type="file"
+                                                        accept=".json,.tmj,.tmx,application/json,application/xml"
+                                                        className="hidden"
+                                                        onChange={(e) => {
+                                                            void handleCustomMapFile(e.target.files?.[0]);
+                                                            e.target.value = '';
+                                                        }}
+                                                    />
+                                                </label>
+                                            </div>
+
                                             <div className="flex gap-3">
                                                 <Button
                                                     onClick={handleCreateRoom}
@@ -708,6 +788,8 @@ const Dashboard: React.FC = () => {
                                                     onClick={() => {
                                                         setShowCreateForm(false);
                                                         setRoomId('');
+                                                        setMapId(DEFAULT_MAP_ID);
+                                                        setCustomMap(null);
                                                     }}
                                                     variant="outline"
                                                     className="border-gray-600 text-gray-300 hover:bg-gray-700 cursor-target"
@@ -0,0 +1,719 @@
+"use client"
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import {
+    ArrowLeft,
+    Brush,
+    DoorClosed,
+    Download,
+    Eraser,
+    Pipette,
+    Redo2,
+    Save,
+    Square,
+    Undo2,
+    Upload,
+    UserPlus,
+    Volume2,
+    type LucideIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import LoginRequired from "../components/auth/LoginRequired";
+import { useAuth } from "../contexts/AuthContext";
+import { useRoom } from "../hooks/useRoom";
+import {
+    TILE,
+    DEFAULT_MAP_DEF,
+    checkMapDef,
+    loadWorldMap,
+    type TileInfo,
+    type WorldMap,
+} from "../components/world/map";
+import type { DoorDef, TileRect } from "../components/world/mapFormat";
+import {
+    CUSTOM_MAP_ID,
+    MAP_TEMPLATES,
+    MAX_CUSTOM_MAP_SIZE,
+    parseCustomMap,
+    resolveRoomMap,
+} from "../components/world/mapCatalog";
+import {
+    addSpawn,
+    amendHistory,
+    atlasFor,
+    blankMap,
+    fillRect,
+    historyOf,
+    paintCell,
+    placeDoor,
+    pushHistory,
+    redo,
+    removeDoorAt,
+    removeSpawnAt,
+    resizeMap,
+    setTileFlags,
+    tilesFor,
+    toEditable,
+    toMapDef,
+    undo,
+    type EditableMap,
+    type History,
+} from "../components/world/mapEditor";
+
+type Tool = "paint" | "rect" | "erase" | "pick" | "audio" | "spawn" | "door";
+type PaintLayer = "floor" | "wall" | "object" | "top";
+
+const PAINT_LAYERS: PaintLayer[] = ["floor", "wall", "object", "top"];
+
+const TOOLS: { id: Tool; label: string; icon: LucideIcon }[] = [
+    { id: "paint", label: "Paint (B)", icon: Brush },
+    { id: "rect", label: "Fill rect (R)", icon: Square },
+    { id: "erase", label: "Erase (E)", icon: Eraser },
+    { id: "pick", label: "Pick tile (I)", icon: Pipette },
+    { id: "audio", label: "Audio zone (A)", icon: Volume2 },
+    { id: "spawn", label: "Spawn area (S)", icon: UserPlus },
+    { id: "door", label: "Door (D)", icon: DoorClosed },
+];
+
+const TOOL_KEYS: Record<string, Tool> = { b: "paint", r: "rect", e: "erase", i: "pick", a: "audio", s: "spawn", d: "door" };
+
+const FALLBACK_DOORS: DoorDef = DEFAULT_MAP_DEF.doors ?? { closed: 20, open: 22, topClosed: 19, topOpen: 21 };
+
+const PALETTE_SCALE = 1.25;
+const PREVIEW_DEBOUNCE_MS = 120;
+
+const zoneColor = (v: number) =>
+    v > 0 ? `hsla(${(v * 67) % 360}, 85%, 55%, 0.28)` : "rgba(251,191,36,0.22)";
+
+/** Tile thumbnail from its atlas via CSS sprite offsets */
+const TileSwatch: React.FC<{ tile: TileInfo; map: EditableMap; size: number }> = ({ tile, map, size }) => {
+    const atlas = atlasFor(map, tile.atlas);
+    if (!atlas) return <div style={{ width: size, height: size }} className="bg-slate-700" />;
+    const sx = size / atlas.tileW;
+    const sy = size / atlas.tileH;
+    return (
+        <div
+            style={{
+                width: size,
+                height: size,
+                backgroundImage: `url(${atlas.src})`,
+                backgroundPosition: `${-tile.cx * atlas.tileW * sx}px ${-tile.cy * atlas.tileH * sy}px`,
+                backgroundSize: `${atlas.cols * atlas.tileW * sx}px ${atlas.rows * atlas.tileH * sy}px`,
+                imageRendering: "pixelated",
+            }}
+        />
+    );
+};
+
+const MapEditor: React.FC = () => {
+    const { id: rawRoomParam } = useParams<{ id: string }>();
+    const roomId = (rawRoomParam || "").trim().toLowerCase();
+    const navigate = useNavigate();
+    const { isAuthenticated, isLoading: authLoading, principalId, login } = useAuth();
+    const { getRoom, getRoomMap, setRoomMap } = useRoom();
+
+    const [access, setAccess] = useState<"loading" | "ok" | "not-found" | "not-host">("loading");
+    const [history, setHistory] = useState<History<EditableMap>>(() => historyOf(toEditable(DEFAULT_MAP_DEF)));
+    const map = history.present;
+
+    const [tool, setTool] = useState<Tool>("paint");
+    const [layer, setLayer] = useState<PaintLayer>("floor");
+    const [selectedId, setSelectedId] = useState<number>(1);
+    const [audioKind, setAudioKind] = useState<"room" | "radius" | "clear">("room");
+    const [audioValue, setAudioValue] = useState(1);
+    const [zoom, setZoom] = useState(1.5);
+    const [showGrid, setShowGrid] = useState(true);
+    const [showAudio, setShowAudio] = useState(true);
+    const [shadowOnly, setShadowOnly] = useState(false);
+    const [world, setWorld] = useState<WorldMap | null>(null);
+    const [previewError, setPreviewError] = useState<string | null>(null);
+    const [status, setStatus] = useState<string | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [hover, setHover] = useState<{ c: number; r: number } | null>(null);
+    const [dragRect, setDragRect] = useState<TileRect | null>(null);
+
+    const canvasRef = useRef<HTMLCanvasElement | null>(null);
+    /** Scrolling viewport, and the map-sized sheet inside it the canvas sticks to */
+    const viewRef = useRef<HTMLDivElement | null>(null);
+    const sheetRef = useRef<HTMLDivElement | null>(null);
+    const [viewTick, setViewTick] = useState(0);
+    const strokeRef = useRef<{ active: boolean; start: { c: number; r: number } | null }>({ active: false, start: null });
+
+    /** ===== Room + access ===== */
+    useEffect(() => {
+        if (!roomId) { navigate("/dashboard", { replace: true }); return; }
+        if (authLoading || !isAuthenticated || !principalId) return;
+        let alive = true;
+        (async () => {
+            const room = await getRoom(roomId);
+            if (!alive) return;
+            if (!room) { setAccess("not-found"); return; }
+            if (room.host.toText() !== principalId) { setAccess("not-host"); return; }
+            const customMap = room.mapId === CUSTOM_MAP_ID ? await getRoomMap(roomId) : null;
+            if (!alive) return;
+            const resolved = resolveRoomMap(room.mapId, customMap);
+            setHistory(historyOf(toEditable(resolved.def)));
+            if (resolved.notice) setStatus(resolved.notice);
+            setAccess("ok");
+        })();
+        return () => { alive = false; };
+    }, [roomId, authLoading, isAuthenticated, principalId, getRoom, getRoomMap, navigate]);
+
+    /** ===== Live preview (validates + renders through the room loader) ===== */
+    useEffect(() => {
+        let alive = true;
+        const t = window.setTimeout(async () => {
+            try {
+                const w = await loadWorldMap(toMapDef(map));
+                if (!alive) return;
+                setWorld(w);
+                setPreviewError(null);
+            } catch (e) {
+                if (alive) setPreviewError(e instanceof Error ? e.message : String(e));
+            }
+        }, PREVIEW_DEBOUNCE_MS);
+        return () => { alive = false; window.clearTimeout(t); };
+    }, [map]);
+
+    // free the chunks of a preview once it has been replaced
+    useEffect(() => () => world?.dispose(), [world]);
+
+    // redraw as the viewport scrolls or resizes
+    useEffect(() => {
+        const view = viewRef.current;
+        if (!view) return;
+        let raf = 0;
+        const bump = () => {
+            if (!raf) raf = requestAnimationFrame(() => { raf = 0; setViewTick((n) => n + 1); });
+        };
+        view.addEventListener("scroll", bump, { passive: true });
+        const ro = new ResizeObserver(bump);
+        ro.observe(view);
+        return () => {
+            cancelAnimationFrame(raf);
+            view.removeEventListener("scroll", bump);
+            ro.disconnect();
+        };
+    }, [access]);
+
+    /** ===== Draw =====
+     * The canvas only covers the visible part of the map (a whole big map is
+     * past what browsers allow a canvas to be); it sticks to the viewport while
+     * the sheet scrolls under it, and the world comes out of its chunk cache.
+     */
+    useEffect(() => {
+        const cvs = canvasRef.current;
+        const sheet = sheetRef.current;
+        const view = viewRef.current;
+        if (!cvs || !sheet || !view) return;
+        const W = map.cols * TILE;
+        const H = map.rows * TILE;
+        const cw = Math.max(1, Math.min(view.clientWidth, Math.ceil(W * zoom)));
+        const ch = Math.max(1, Math.min(view.clientHeight, Math.ceil(H * zoom)));
+        cvs.style.width = `${cw}px`;
+        cvs.style.height = `${ch}px`;
+        if (cvs.width !== cw) cvs.width = cw;
+        if (cvs.height !== ch) cvs.height = ch;
+
+        // the map rect under the canvas, in world pixels
+        const cr = cvs.getBoundingClientRect();
+        const sr = sheet.getBoundingClientRect();
+        const sx = (cr.left - sr.left) / zoom;
+        const sy = (cr.top - sr.top) / zoom;
+        const sw = cw / zoom;
+        const sh = ch / zoom;
+
+        const ctx = cvs.getContext("2d")!;
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.imageSmoothingEnabled = false;
+        ctx.fillStyle = "#0f172a";
+        ctx.fillRect(0, 0, cw, ch);
+
+        if (world && world.cols === map.cols && world.rows === map.rows) {
+            if (shadowOnly) {
+                ctx.fillStyle = "#e2e8f0";
+                ctx.fillRect(0, 0, cw, ch);
+                world.drawLayer(ctx, "shadow", sx, sy, sw, sh, 0, 0, cw, ch);
+            } else {
+                for (const layer of ["floor", "shadow", "wall", "object", "over"] as const) {
+                    world.drawLayer(ctx, layer, sx, sy, sw, sh, 0, 0, cw, ch);
+                }
+            }
+        }
+
+        // overlays in world pixels, visible cells only
+        ctx.setTransform(zoom, 0, 0, zoom, -sx * zoom, -sy * zoom);
+        const c0 = Math.max(0, Math.floor(sx / TILE));
+        const r0 = Math.max(0, Math.floor(sy / TILE));
+        const c1 = Math.min(map.cols - 1, Math.floor((sx + sw) / TILE));
+        const r1 = Math.min(map.rows - 1, Math.floor((sy + sh) / TILE));
+
+        if (showAudio) {
+            const audio = map.layers.audio;
+            ctx.font = "10px ui-monospace, monospace";
+            for (let r = r0; r <= r1; r++) {
+                for (let c = c0; c <= c1; c++) {
+                    const v = audio[r][c];
+                    if (!v) continue;
+                    ctx.fillStyle = zoneColor(v);
+                    ctx.fillRect(c * TILE, r * TILE, TILE, TILE);
+                    // label the top-left cell of each run
+                    if (audio[r][c - 1] !== v && audio[r - 1]?.[c] !== v) {
+                        ctx.fillStyle = "#fff";
+                        ctx.fillText(v > 0 ? `#${v}` : `r${-v}`, c * TILE + 3, r * TILE + 11);
+                    }
+                }
+            }
+        }
+
+        ctx.lineWidth = 2;
+        ctx.strokeStyle = "rgba(163,230,53,0.9)";
+        for (const s of map.spawns) {
+            ctx.strokeRect(s.c0 * TILE + 1, s.r0 * TILE + 1, (s.c1 - s.c0 + 1) * TILE - 2, (s.r1 - s.r0 + 1) * TILE - 2);
+        }
+
+        if (showGrid) {
+            ctx.lineWidth = 1;
+            ctx.strokeStyle = "rgba(148,163,184,0.18)";
+            ctx.beginPath();
+            for (let c = c0; c <= c1 + 1; c++) { ctx.moveTo(c * TILE + 0.5, r0 * TILE); ctx.lineTo(c * TILE + 0.5, (r1 + 1) * TILE); }
+            for (let r = r0; r <= r1 + 1; r++) { ctx.moveTo(c0 * TILE, r * TILE + 0.5); ctx.lineTo((c1 + 1) * TILE, r * TILE + 0.5); }
+            ctx.stroke();
+        }
+
+        if (dragRect) {
+            const n = {
+                c0: Math.min(dragRect.c0, dragRect.c1), r0: Math.min(dragRect.r0, dragRect.r1),
+                c1: Math.max(dragRect.c0, dragRect.c1), r1: Math.max(dragRect.r0, dragRect.r1),
+            };
+            ctx.fillStyle = "rgba(255,255,255,0.15)";
+            ctx.fillRect(n.c0 * TILE, n.r0 * TILE, (n.c1 - n.c0 + 1) * TILE, (n.r1 - n.r0 + 1) * TILE);
+        }
+
+        if (hover) {
+            ctx.lineWidth = 2;
+            ctx.strokeStyle = "rgba(255,255,255,0.85)";
+            ctx.strokeRect(hover.c * TILE + 1, hover.r * TILE + 1, TILE - 2, TILE - 2);
+        }
+    }, [map, world, zoom, viewTick, showGrid, showAudio, shadowOnly, hover, dragRect]);
+
+    /** ===== Editing ===== */
+    const doors = map.doors ?? FALLBACK_DOORS;
+    const tiles = useMemo(() => tilesFor(map.tiles), [map.tiles]);
+    const selectedTile = tiles.find((t) => t.id === selectedId) ?? null;
+
+    const commit = useCallback((fn: (m: EditableMap) => EditableMap, amend = false) => {
+        setHistory((h) => (amend ? amendHistory(h, fn(h.present)) : pushHistory(h, fn(h.present))));
+    }, []);
+
+    const audioFillValue = () =>
+        audioKind === "clear" ? 0 : audioKind === "room" ? Math.max(1, audioValue | 0) : -Math.max(1, audioValue | 0);
+
+    const cellAt = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const rect = sheetRef.current?.getBoundingClientRect();
+        if (!rect) return null;
+        const c = Math.floor((e.clientX - rect.left) / (TILE * zoom));
+        const r = Math.floor((e.clientY - rect.top) / (TILE * zoom));
+        if (c < 0 || r < 0 || c >= map.cols || r >= map.rows) return null;
+        return { c, r };
+    };
+
+    const applyPoint = (c: number, r: number, first: boolean, secondary: boolean) => {
+        switch (tool) {
+            case "paint":
+                commit((m) => paintCell(m, layer, c, r, secondary ? 0 : selectedId), !first);
+                break;
+            case "erase":
+                commit((m) => paintCell(m, layer, c, r, 0), !first);
+                break;
+            case "pick": {
+                const id = map.layers[layer][r][c];
+                if (id > 0) { setSelectedId(id); setTool("paint"); }
+                break;
+            }
+            case "door":
+                if (first) commit((m) => (secondary ? removeDoorAt(m, c, r, doors) : placeDoor(m, c, r, doors)));
+                break;
+            case "spawn":
+                if (secondary && first) commit((m) => removeSpawnAt(m, c, r));
+                break;
+        }
+    };
+
+    const onPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const cell = cellAt(e);
+        if (!cell) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const secondary = e.button === 2;
+        strokeRef.current = { active: true, start: cell };
+        if (tool === "rect" || tool === "audio" || (tool === "spawn" && !secondary)) {
+            setDragRect({ c0: cell.c, r0: cell.r, c1: cell.c, r1: cell.r });
+            return;
+        }
+        applyPoint(cell.c, cell.r, true, secondary);
+    };
+
+    const onPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const cell = cellAt(e);
+        setHover(cell);
+        if (!cell || !strokeRef.current.active) return;
+        if (dragRect) {
+            setDragRect((d) => (d ? { ...d, c1: cell.c, r1: cell.r } : d));
+            return;
+        }
+        if (tool === "paint" || tool === "erase") applyPoint(cell.c, cell.r, false, (e.buttons & 2) !== 0);
+    };
+
+    const onPointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        try { e.currentTarget.releasePointerCapture(e.pointerId); } catch { }
+        strokeRef.current = { active: false, start: null };
+        if (!dragRect) return;
+        const rect = dragRect;
+        setDragRect(null);
+        if (tool === "rect") commit((m) => fillRect(m, layer, rect, selectedId));
+        else if (tool === "audio") commit((m) => fillRect(m, "audio", rect, audioFillValue()));
+        else if (tool === "spawn") commit((m) => addSpawn(m, rect));
+    };
+
+    /** ===== Keyboard ===== */
+    useEffect(() => {
+        const onKey = (e: KeyboardEvent) => {
+            const el = e.target as HTMLElement | null;
+            if (el && (el.tagName === "INPUT" || el.tagName === "TEXTAREA" || el.tagName === "SELECT")) return;
+            const mod = e.ctrlKey || e.metaKey;
+            const k = e.key.toLowerCase();
+            if (mod && k === "z") { e.preventDefault(); setHistory((h) => (e.shiftKey ? redo(h) : undo(h))); return; }
+            if (mod && k === "y") { e.preventDefault(); setHistory(redo); return; }
+            if (!mod && TOOL_KEYS[k]) setTool(TOOL_KEYS[k]);
+        };
+        window.addEventListener("keydown", onKey);
+        return () => window.removeEventListener("keydown", onKey);
+    }, []);
+
+    /** ===== Import / export / save ===== */
+    const serialized = () => JSON.stringify(toMapDef(map));
+
+    const handleExport = () => {
+        const blob = new Blob([JSON.stringify(toMapDef(map), null, 2)], { type: "application/json" });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement("a");
+        a.href = url;
+        a.download = `${(map.name || roomId || "map").replace(/[^a-z0-9-_]+/gi, "-").toLowerCase()}.json`;
+        a.click();
+        // revoking right away can cancel the download
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+    };
+
+    const handleImport = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            const def = checkMapDef(parseCustomMap(await file.text()));
+            setHistory((h) => pushHistory(h, toEditable(def)));
+            setStatus(`Imported ${file.name}`);
+        } catch (e) {
+            setStatus(e instanceof Error ? e.message : "Invalid map file");
+        }
+    };
+
+    const handleSave = async () => {
+        if (previewError) { setStatus("Fix the map errors before saving"); return; }
+        const text = serialized();
+        if (text.length > MAX_CUSTOM_MAP_SIZE) {
+            setStatus(`Map is too large to store (${Math.ceil(text.length / 1000)} KB, max ${Math.floor(MAX_CUSTOM_MAP_SIZE / 1000)} KB)`);
+            return;
+        }
+        setSaving(true);
+        try {
+            const res = await setRoomMap(roomId, { mapId: CUSTOM_MAP_ID, customMap: text });
+            setStatus("Err" in res ? `Save failed: ${res.Err}` : "Saved. Participants get the new map when they (re)join.");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    /** ===== Gates ===== */
+    if (authLoading) {
+        return (
+            <div className="min-h-screen bg-black flex items-center justify-center">
+                <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-lime-400" />
+            </div>
+        );
+    }
+
+    if (!isAuthenticated) {
+        return (
+            <LoginRequired
+                onLogin={login}
+                isLoading={authLoading}
+                title="Map Editor"
+                subtitle="Hosts only"
+                description="Sign in with the account that created this room to edit its map"
+            />
+        );
+    }
+
+    if (access !== "ok") {
+        const msg =
+            access === "loading" ? "Loading room..." :
+            access === "not-found" ? `Room "${roomId}" doesn't exist.` :
+            "Only the host of this room can edit its map.";
+        return (
+            <div className="min-h-screen bg-black text-white flex flex-col items-center justify-center gap-4">
+                <div className="text-lg">{msg}</div>
+                {access !== "loading" && (
+                    <Button variant="outline" onClick={() => navigate("/dashboard")}>Back to dashboard</Button>
+                )}
+            </div>
+        );
+    }
+
+    const toolBtn = (active: boolean) =>
+        cn(
+            "h-9 w-9 grid place-items-center rounded-md border transition-colors",
+            active ? "border-lime-400 bg-lime-400/15 text-lime-300" : "border-slate-700 text-slate-300 hover:bg-slate-800"
+        );
+
+    return (
+        <div className="h-screen bg-slate-950 text-white flex flex-col">
+            {/* Top bar */}
+            <header className="flex items-center gap-3 px-4 py-2 border-b border-slate-800">
+                <button className={toolBtn(false)} onClick={() => navigate(`/room/${roomId}`)} title="Back to room">
+                    <ArrowLeft size={16} />
+                </button>
+                <div className="min-w-0">
+                    <div className="text-[11px] uppercase tracking-[0.2em] text-slate-400">Map editor</div>
+                    <div className="font-logo text-lime-400 truncate">{roomId.toUpperCase()}</div>
+                </div>
+                <Input
+                    value={map.name ?? ""}
+                    onChange={(e) => commit((m) => ({ ...m, name: e.target.value }), true)}
+                    className="ml-4 w-48 h-9 bg-slate-900 border-slate-700"
+                    placeholder="Map name"
+                />
+                <div className="flex items-center gap-1 ml-2">
+                    <button className={toolBtn(false)} onClick={() => setHistory(undo)} disabled={!history.past.length} title="Undo (Ctrl+Z)">
+                        <Undo2 size={16} />
+                    </button>
+                    <button className={toolBtn(false)} onClick={() => setHistory(redo)} disabled={!history.future.length} title="Redo (Ctrl+Shift+Z)">
+                        <Redo2 size={16} />
+                    </button>
+                </div>
+                <div className="flex-1" />
+                <select
+                    className="h-9 rounded-md bg-slate-900 border border-slate-700 text-sm px-2"
+                    value=""
+                    onChange={(e) => {
+                        const v = e.target.value;
+                        if (v === "__blank") commit(() => blankMap(map.cols, map.rows));
+                        else {
+                            const tpl = MAP_TEMPLATES.find((t) => t.id === v);
+                            if (tpl) commit(() => toEditable(tpl.def));
+                        }
+                    }}
+                >
+                    <option value="" disabled>Start from...</option>
+                    <option value="__blank">Blank map</option>
+                    {MAP_TEMPLATES.map((t) => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+                <label className={cn(toolBtn(false), "cursor-pointer")} title="Import (.json, .tmj, .tmx)">
+                    <Upload size={16} />
+                    <input
+                        type="file"
+                        accept=".json,.tmj,.tmx,application/json,application/xml"
+                        className="hidden"
+                        onChange={(e) => { void handleImport(e.target.files?.[0]); e.target.value = ""; }}
+                    />
+                </label>
+                <button className={toolBtn(false)} onClick={handleExport} title="Export JSON">
+                    <Download size={16} />
+                </button>
+                <Button onClick={handleSave} disabled={saving} className="h-9 bg-lime-400 text-black hover:bg-lime-500">
+                    <Save size={16} /> {saving ? "Saving..." : "Save to room"}
+                </Button>
+            </header>
+
+            <div className="flex-1 flex min-h-0">
+                {/* Tools */}
+                <aside className="w-14 border-r border-slate-800 flex flex-col items-center gap-2 py-3">
+                    {TOOLS.map((t) => {
+                        const Icon = t.icon;
+                        return (
+                            <button key={t.id} className={toolBtn(tool === t.id)} onClick={() => setTool(t.id)} title={t.label}>
+                                <Icon size={16} />
+                            </button>
+                        );
+                    })}
+                </aside>
+
+                {/* Canvas */}
+                <main className="flex-1 min-w-0 flex flex-col">
+                    <div className="flex items-center gap-4 px-4 py-2 text-xs text-slate-300 border-b border-slate-800">
+                        <span>Layer</span>
+                        {PAINT_LAYERS.map((l) => (
+                            <button
+                                key={l}
+                                onClick={() => setLayer(l)}
+                                className={cn("px-2 py-1 rounded", layer === l ? "bg-lime-400/20 text-lime-300" : "hover:bg-slate-800")}
+                            >
+                                {l}
+                            </button>
+                        ))}
+                        <span className="ml-4 flex items-center gap-1">
+                            <input type="checkbox" checked={showGrid} onChange={(e) => setShowGrid(e.target.checked)} /> grid
+                        </span>
+                        <span className="flex items-center gap-1">
+                            <input type="checkbox" checked={showAudio} onChange={(e) => setShowAudio(e.target.checked)} /> audio
+                        </span>
+                        <span className="flex items-center gap-1">
+                            <input type="checkbox" checked={shadowOnly} onChange={(e) => setShadowOnly(e.target.checked)} /> shadow only
+                        </span>
+                        <span className="ml-auto flex items-center gap-2">
+                            <span>Size</span>
+                            <Input
+                                type="number"
+                                defaultValue={map.cols}
+                                key={`c${map.cols}`}
+                                onBlur={(e) => commit((m) => resizeMap(m, Number(e.target.value), m.rows))}
+                                className="w-16 h-7 bg-slate-900 border-slate-700 text-xs"
+                            />
+                            <span>×</span>
+                            <Input
+                                type="number"
+                                defaultValue={map.rows}
+                                key={`r${map.rows}`}
+                                onBlur={(e) => commit((m) => resizeMap(m, m.cols, Number(e.target.value)))}
+                                className="w-16 h-7 bg-slate-900 border-slate-700 text-xs"
+                            />
+                            <span className="ml-2">Zoom</span>
+                            <input type="range" min={0.5} max={3} step={0.25} value={zoom} onChange={(e) => setZoom(Number(e.target.value))} />
+                        </span>
+                    </div>
+                    <div ref={viewRef} className="flex-1 overflow-auto p-6">
+                        <div
+                            ref={sheetRef}
+                            style={{ width: map.cols * TILE * zoom, height: map.rows * TILE * zoom }}
+                            className="shadow-[0_0_0_1px_rgba(148,163,184,0.3)]"
+                        >
+                            <canvas
+                                ref={canvasRef}
+                                className="block sticky top-0 left-0 cursor-crosshair"
+                                onPointerDown={onPointerDown}
+                                onPointerMove={onPointerMove}
+                                onPointerUp={onPointerUp}
+                                onPointerLeave={() => setHover(null)}
+                                onContextMenu={(e) => e.preventDefault()}
+                            />
+                        </div>
+                    </div>
+                    <div className="px-4 py-1.5 border-t border-slate-800 text-xs flex gap-4 text-slate-400">
+                        <span>{hover ? `${hover.c}, ${hover.r}` : "-"}</span>
+                        {previewError && <span className="text-red-400 truncate">{previewError}</span>}
+                        {!previewError && status && <span className="text-amber-200 truncate">{status}</span>}
+                    </div>
+                </main>
+
+                {/* Inspector */}
+                <aside className="w-72 border-l border-slate-800 flex flex-col min-h-0">
+                    {tool === "audio" ? (
+                        <div className="p-3 space-y-3 text-sm">
+                            <div className="font-semibold">Audio zone</div>
+                            <div className="flex gap-1">
+                                {(["room", "radius", "clear"] as const).map((k) => (
+                                    <button
+                                        key={k}
+                                        onClick={() => setAudioKind(k)}
+                                        className={cn("px-2 py-1 rounded text-xs", audioKind === k ? "bg-lime-400/20 text-lime-300" : "bg-slate-800")}
+                                    >
+                                        {k}
+                                    </button>
+                                ))}
+                            </div>
+                            {audioKind !== "clear" && (
+                                <label className="block text-xs text-slate-400">
+                                    {audioKind === "room" ? "Zone id (only people in the same zone hear each other)" : "Hearing radius in tiles"}
+                                    <Input
+                                        type="number"
+                                        min={1}
+                                        value={audioValue}
+                                        onChange={(e) => setAudioValue(Math.max(1, Number(e.target.value) | 0))}
+                                        className="mt-1 h-8 bg-slate-900 border-slate-700"
+                                    />
+                                </label>
+                            )}
+                            <div className="text-xs text-slate-500">Drag on the map to paint the zone.</div>
+                        </div>
+                    ) : tool === "door" ? (
+                        <div className="p-3 space-y-2 text-sm">
+                            <div className="font-semibold">Doors</div>
+                            <div className="text-xs text-slate-400">
+                                Click a wall cell to place a door; its lintel goes on the top layer above it. Right-click removes one.
+                            </div>
+                            <div className="flex gap-2">
+                                {(["closed", "open", "topClosed", "topOpen"] as const).map((k) => {
+                                    const t = tiles.find((x) => x.id === doors[k]);
+                                    return (
+                                        <div key={k} className="text-[10px] text-slate-400 text-center">
+                                            {t ? <TileSwatch tile={t} map={map} size={32} /> : <div className="w-8 h-8 bg-slate-800" />}
+                                            {k}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    ) : tool === "spawn" ? (
+                        <div className="p-3 space-y-2 text-sm">
+                            <div className="font-semibold">Spawn areas</div>
+                            <div className="text-xs text-slate-400">Drag to add an area; right-click one to remove it.</div>
+                            {map.spawns.length === 0 && <div className="text-xs text-amber-200">No spawn areas: players spawn anywhere.</div>}
+                            {map.spawns.map((s, i) => (
+                                <div key={i} className="text-xs text-slate-300">{`(${s.c0},${s.r0}) – (${s.c1},${s.r1})`}</div>
+                            ))}
+                        </div>
+                    ) : (
+                        <>
+                            {selectedTile && (
+                                <div className="p-3 border-b border-slate-800 flex items-center gap-3 text-sm">
+                                    <TileSwatch tile={selectedTile} map={map} size={40} />
+                                    <div className="space-y-1">
+                                        <div className="font-semibold">Tile {selectedTile.id}</div>
+                                        <label className="flex items-center gap-1 text-xs">
+                                            <input
+                                                type="checkbox"
+                                                checked={selectedTile.solid}
+                                                onChange={(e) => commit((m) => setTileFlags(m, selectedTile, { solid: e.target.checked, shadow: selectedTile.shadow }))}
+                                            /> solid
+                                        </label>
+                                        <label className="flex items-center gap-1 text-xs">
+                                            <input
+                                                type="checkbox"
+                                                checked={selectedTile.shadow}
+                                                onChange={(e) => commit((m) => setTileFlags(m, selectedTile, { solid: selectedTile.solid, shadow: e.target.checked }))}
+                                            /> shadow
+                                        </label>
+                                    </div>
+                                </div>
+                            )}
+                            <div className="flex-1 overflow-auto p-3 grid grid-cols-6 gap-1 content-start">
+                                {tiles.map((t) => (
+                                    <button
+                                        key={t.id}
+                                        onClick={() => { setSelectedId(t.id); if (tool === "erase" || tool === "pick") setTool("paint"); }}
+                                        title={`#${t.id} ${t.atlas} (${t.cx},${t.cy})${t.solid ? " solid" : ""}`}
+                                        className={cn("p-0.5 rounded border", selectedId === t.id ? "border-lime-400" : "border-transparent hover:border-slate-600")}
+                                    >
+                                        <TileSwatch tile={t} map={map} size={TILE * PALETTE_SCALE} />
+                                    </button>
+                                ))}
+                            </div>
+                        </>
+                    )}
+                </aside>
+            </div>
+        </div>
+    );
+};
+
+export default MapEditor;
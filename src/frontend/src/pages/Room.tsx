@@ -1,7 +1,7 @@
 "use client";
 
 import React, { useEffect, useMemo, useRef, useState } from "react";
-import Peer, { DataConnection, MediaConnection } from "peerjs";
+import type { Channel } from "../lib/net/transport";
 import { useParams, useNavigate } from "react-router-dom";
 import { motion, AnimatePresence } from "framer-motion";
 import { Principal } from "@dfinity/principal";
@@ -21,6 +21,20 @@ import {
     LogOut as IconLeave,
     Settings as IconSettings,
     Copy as IconCopy,
+    X as IconClose,
+    Map as IconMap,
+    Footprints as IconWalkTo,
+    Presentation as IconPanel,
+    ExternalLink as IconExternal,
+    Headphones as IconHeadphones,
+    Speaker as IconSpeaker,
+    Video as IconCamOn,
+    VideoOff as IconCamOff,
+    ScreenShare as IconScreenShare,
+    ScreenShareOff as IconScreenShareOff,
+    Activity as IconDiagnostics,
+    Download as IconDownload,
+    WifiOff as IconOffline,
 } from "lucide-react";
 import {
     loadSpriteParts,
@@ -46,54 +60,92 @@ import {
     MAP_COLS,
     MAP_ROWS,
     loadWorldMap,
+    DEFAULT_MAP_DEF,
     type WorldMap,
     resolveMove,
     isSolidTile,
     audioRuleAt,
     wallLayout,
     topLayout,
+    spawnAreas,
     DOOR_OPEN_ID,
     DOOR_CLOSED_ID,
     TOP_DOOR_OPEN_ID,
     TOP_DOOR_CLOSED_ID,
 } from "../components/world/map";
+import { CUSTOM_MAP_ID, DEFAULT_MAP_ID, resolveRoomMap } from "../components/world/mapCatalog";
+import { findPath, type TileStep } from "../components/world/pathfinding";
+import {
+    collectInteractables,
+    interactionLabel,
+    seatCell,
+    setTriggerTiles,
+    type Interactable,
+    type InteractableIndex,
+    type InteractState,
+} from "../components/world/interactables";
+import { createReplicatedState, type StateChange } from "../lib/net/replicatedState";
+import {
+    CHAT_LABEL,
+    FILE_LABEL,
+    GAME_LABEL,
+    speaksLegacyDoors,
+    V1_PROTOCOL,
+    type MetaMsg,
+    type RoomMsg as Msg,
+    type SpinMsg,
+} from "../lib/net/protocol";
+import { createMediaRange } from "../lib/net/interest";
+import { sharedIce, type LinkType } from "../lib/net/ice";
+import type { PeerDiagnostics } from "../lib/net/diagnostics";
+import { peerIdForPrincipal, pretty, principalFromPeerId, principalToText } from "../lib/net/peerIds";
+import { loadResumeSnapshot, saveResumeSnapshot } from "../lib/net/resume";
+import type { ChatLine } from "../lib/chat/history";
+import { REACTIONS, mentionSegments } from "../lib/chat/rich";
+import { formatBytes } from "../lib/files/transfer";
+import { isImageMime } from "../lib/files/thumbnail";
+import { useRoomWire, type RoomMsgHandlers, type RoomWireHandlers } from "../hooks/useRoomWire";
+import { useRoomJoin } from "../hooks/useRoomJoin";
+import { useRoomPositions } from "../hooks/useRoomPositions";
+import { useRoomInterest } from "../hooks/useRoomInterest";
+import { useRoomDiagnostics } from "../hooks/useRoomDiagnostics";
+import { useChatKeys } from "../hooks/useChatKeys";
+import { useRoomChat } from "../hooks/useRoomChat";
+import { useRoomFiles } from "../hooks/useRoomFiles";
+import { BLINK_MS, DEFAULT_AUDIO_RADIUS_TILES, SPK_THRESHOLD, useRoomMedia } from "../hooks/useRoomMedia";
+import { AUDIO_OUTPUT_MODES } from "../lib/audio/spatialAudio";
+import type { Room as RoomRecord } from "../types/backend";
 import PixelReveal from "@/components/pixel-reveal";
 
-/** ===== TURN  ===== */
-const TURN_HOST = import.meta.env.VITE_TURN_HOST as string | undefined;
-const TURN_PORT = import.meta.env.VITE_TURN_PORT as string | undefined;
-const TURNS_PORT = import.meta.env.VITE_TURNS_PORT as string | undefined;
-const TURN_USER = import.meta.env.VITE_TURN_USERNAME as string | undefined;
-const TURN_CRED = import.meta.env.VITE_TURN_CREDENTIAL as string | undefined;
-
-const rtcConfig: RTCConfiguration = {
-    iceServers: [
-        { urls: [`turn:${TURN_HOST}:${TURN_PORT}?transport=udp`], username: TURN_USER!, credential: TURN_CRED },
-        { urls: [`turn:${TURN_HOST}:${TURN_PORT}?transport=tcp`], username: TURN_USER!, credential: TURN_CRED },
-        { urls: [`turns:${TURN_HOST}:${TURNS_PORT}?transport=tcp`], username: TURN_USER!, credential: TURN_CRED },
-
-    ],
-    iceTransportPolicy: "relay",
-    bundlePolicy: "balanced",
+/** ===== ICE (STUN / TURN servers and strategy: lib/net/ice.ts) ===== */
+const ice = sharedIce();
+/** Log lines shown in the diagnostics panel (the report gets all of them) */
+const DIAG_LOG_LINES = 40;
+/** Where we stand is saved this often, and a saved spot is good for this long */
+const RESUME_SNAPSHOT_MS = 3000;
+const RESUME_MAX_AGE_MS = 10 * 60_000;
+const fmt = (n: number | null | undefined, unit: string) => (n === null || n === undefined ? "–" : `${n} ${unit}`);
+const signalTitle = (d: PeerDiagnostics) =>
+    [`RTT ${fmt(d.media?.rttMs ?? d.rttMs, "ms")}`, d.media && `loss ${fmt(d.media.lossPct, "%")}`, d.media && `jitter ${fmt(d.media.jitterMs, "ms")}`]
+        .filter(Boolean).join(" · ");
+const LINK_LABELS: Record<LinkType, { text: string; title: string }> = {
+    host: { text: "host", title: "Direct connection (same network or public address)" },
+    srflx: { text: "srflx", title: "Direct connection through NAT (STUN)" },
+    relay: { text: "relay", title: "Relayed through a TURN server" },
 };
 
 /** utils */
-const pretty = (id: string) => (id.length > 14 ? id.slice(0, 6) + "..." + id.slice(-6) : id);
 const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
-const principalToText = (p: any) => {
-    try { if (p && typeof p.toText === "function") return p.toText(); if (typeof p === "string") return p; } catch { }
-    return String(p);
-};
 
 const formatBadge = (n: number) => (n > 99 ? "99+" : String(n));
-const idSafe = (s: string) => String(s).replace(/[^a-zA-Z0-9_-]/g, "");
 
-const peerIdForPrincipal = (roomId: string, principalText: string) =>
-    `${idSafe(roomId)}-${idSafe(principalText)}`;
-
-const principalFromPeerId = (roomId: string, peerId: string) => {
-    const prefix = `${idSafe(roomId)}-`;
-    return peerId.startsWith(prefix) ? peerId.slice(prefix.length) : peerId;
+/** Small helper so our keyboard/mouse gesture also unlocks audio */
+const isEditableTarget = (e: KeyboardEvent) => {
+    const t = (e.target as HTMLElement) || null;
+    if (!t) return false;
+    if (t.isContentEditable) return true;
+    const tag = (t.tagName || "").toLowerCase();
+    return tag === "input" || tag === "textarea" || tag === "select";
 };
 
 /** detect touch / coarse pointer */
@@ -107,13 +159,18 @@ const isTouchLike = () => {
 };
 
 /** ===== WORLD / PLAYER ===== */
-const CANVAS_W = MAP_COLS * TILE;
-const CANVAS_H = MAP_ROWS * TILE;
+// world size in px follows the active map
+const worldPxW = () => MAP_COLS * TILE;
+const worldPxH = () => MAP_ROWS * TILE;
 
 // sprite size & movement hitbox (AABB)
 const PLAYER = 32;
 const SPEED = 120;
 
+// click-to-move: re-plan while chasing a moving participant, give up when blocked
+const WALK_REPLAN_MS = 500;
+const WALK_STUCK_MS = 600;
+
 // hitbox offset
 const HITBOX_LEFT = 6;
 const HITBOX_RIGHT = 6;
@@ -122,8 +179,6 @@ const HITBOX_BOTTOM = 0;
 const HITBOX_W = PLAYER - HITBOX_LEFT - HITBOX_RIGHT;
 const HITBOX_H = PLAYER - HITBOX_TOP - HITBOX_BOTTOM;
 
-const DEFAULT_AUDIO_RADIUS_TILES = 2;
-
 /** UI tokens */
 const LABEL_FONT = "600 12px ui-monospace, SFMono-Regular, Menlo, monospace";
 const LABEL_STROKE = "rgba(0,0,0,0.72)";
@@ -141,23 +196,26 @@ const centerTileOf = (xPx: number, yPx: number) => {
     return { col: Math.floor(cx / TILE), row: Math.floor(cy / TILE) };
 };
 
-/** find a safe spawn tile */
-const SPAWN_COL_MIN = 8, SPAWN_COL_MAX = 16;
-const SPAWN_ROW_MIN = 15, SPAWN_ROW_MAX = 22;
+/** find a safe spawn tile inside the map's spawn areas */
 const randInt = (a: number, b: number) => Math.floor(Math.random() * (b - a + 1)) + a;
 
 const pickSpawnTile = () => {
+    const areas = spawnAreas;
     for (let i = 0; i < 60; i++) {
-        const col = randInt(SPAWN_COL_MIN, SPAWN_COL_MAX);
-        const row = randInt(SPAWN_ROW_MIN, SPAWN_ROW_MAX);
+        const a = areas[randInt(0, areas.length - 1)];
+        if (!a) break;
+        const col = randInt(Math.min(a.c0, a.c1), Math.max(a.c0, a.c1));
+        const row = randInt(Math.min(a.r0, a.r1), Math.max(a.r0, a.r1));
         if (!isSolidTile(col, row)) return { col, row };
     }
-    for (let r = SPAWN_ROW_MIN; r <= SPAWN_ROW_MAX; r++) {
-        for (let c = SPAWN_COL_MIN; c <= SPAWN_COL_MAX; c++) {
-            if (!isSolidTile(c, r)) return { col: c, row: r };
+    for (const a of areas) {
+        for (let r = Math.min(a.r0, a.r1); r <= Math.max(a.r0, a.r1); r++) {
+            for (let c = Math.min(a.c0, a.c1); c <= Math.max(a.c0, a.c1); c++) {
+                if (!isSolidTile(c, r)) return { col: c, row: r };
+            }
         }
     }
-    return { col: 12, row: 18 };
+    return { col: Math.floor(MAP_COLS / 2), row: Math.floor(MAP_ROWS / 2) };
 };
 
 const tileSpawnPx = () => {
@@ -215,36 +273,37 @@ const computeAudibleTiles = (cx: number, cy: number, radius: number) => {
 const DOOR_SFX_RADIUS_TILES = 1;
 
 const isDoorId = (id: number) => (id === DOOR_OPEN_ID || id === DOOR_CLOSED_ID);
-const doorKey = (c: number, r: number) => `${c},${r}`;
+
+/** ===== Replicated world state keys ===== */
+const STATE_DIGEST_MS = 5000;
+const DOOR_STATE_PREFIX = "door:";
+const TRIGGER_STATE_PREFIX = "trigger:";
+const doorStateKey = (c: number, r: number) => `${DOOR_STATE_PREFIX}${c},${r}`;
+
+/** ===== Interest management (partial mesh: hooks/useRoomInterest.ts) ===== */
+const MEDIA_MARGIN_TILES = 3;
+const REACTION_FLOAT_MS = 1800;
+const REACTION_FONT = "18px system-ui, sans-serif";
+const CHAT_ACTION_STYLE: React.CSSProperties = { color: "#94a3b8", background: "none", border: "none", padding: 0, cursor: "pointer", fontSize: 11 };
+const chatTabStyle = (on: boolean): React.CSSProperties => ({
+    fontSize: 11, padding: "2px 8px", borderRadius: 6, whiteSpace: "nowrap", cursor: "pointer",
+    border: `1px solid ${on ? "rgba(192,132,252,0.6)" : "rgba(148,163,184,0.3)"}`,
+    background: on ? "rgba(147,51,234,0.2)" : "transparent",
+    color: on ? "#e9d5ff" : "#94a3b8",
+});
+
+const mediaInRange = createMediaRange(audioRuleAt, {
+    defaultRadiusTiles: DEFAULT_AUDIO_RADIUS_TILES,
+    marginTiles: MEDIA_MARGIN_TILES,
+});
 
 /** ===== Player outfit/anim/speaking ===== */
 type PlayerPos = { x: number; y: number };
-type PosMsg = { t: "pos"; x: number; y: number; moving?: boolean; face?: 1 | -1 };
-type MetaMsg = { t: "meta"; label?: string; outfit?: OutfitSlotsArray };
-type SpinMsg = { t: "spin"; dur?: number };
 
 const BUBBLE_FONT = "13px ui-monospace, SFMono-Regular, Menlo, monospace";
 const BUBBLE_MAX_W = 240;
 const BUBBLE_LINE_H = 16;
 
-const BUBBLE_MIN_MS = 5000;
-const BUBBLE_MAX_MS = 15000;
-const BUBBLE_BASE_MS = 5000;
-const BUBBLE_PER_CHAR_MS = 50;
-const BUBBLE_PER_NEWLINE_MS = 250;
-
-/** DC message union */
-type Msg =
-    | { t: "hello"; peerId: string; principal: string }
-    | { t: "bye"; peerId: string }
-    | PosMsg
-    | { t: "chat"; text: string; ts?: number; from?: string }
-    | { t: "media-refresh"; why?: "mic-on" | "mic-off" | "device" | "manual" }
-    | { t: "door"; col: number; row: number; open: boolean; silent?: boolean }
-    | { t: "door-sync-req" }
-    | MetaMsg
-    | SpinMsg;
-
 const normalizeUsername = (s: string) =>
     s.replace(/[^\w.-]+/g, "_").trim().slice(0, 24);
 
@@ -261,37 +320,30 @@ const Room: React.FC = () => {
 
     // auth + backend
     const { isAuthenticated, principalId, isLoading: authLoading, user } = useAuth() as any;
-    const { getRoom, joinRoom, leaveRoom } = useRoom();
+    const { getRoom, getRoomMap, setChatHistory } = useRoom();
+
+    // identity
+    const myPrincipalTxt = useMemo(() => principalId || "anonymous", [principalId]);
+    const myPeerId = useMemo(() => peerIdForPrincipal(roomId, myPrincipalTxt), [roomId, myPrincipalTxt]);
 
     // logs
     const [logs, setLogs] = useState<string[]>([]);
     const log = (s: string) => setLogs((p) => [...p, `[${new Date().toLocaleTimeString()}] ${s}`].slice(-300));
 
-    // Connections
-    const peerRef = useRef<Peer | null>(null);
+    // Connections: the session and the room protocol (hellos, checked messages by kind, reconnects); calls in useRoomMedia
+    const worldBounds = () => ({ worldW: worldPxW(), worldH: worldPxH() });
+    const {
+        sessionRef, sessionState, peerProtoRef, linkedPeers, sendMsg, broadcastMsg, noteInvalidMsg, connect, disconnect, resumeAttempt,
+    } = useRoomWire({ roomId, myPeerId, myPrincipalTxt, log, bounds: worldBounds });
     const creatingRef = useRef(false);
     const closingRef = useRef(false);
-
-    // datachannels
-    const connsRef = useRef<Map<string, DataConnection>>(new Map());
-    const chatConnsRef = useRef<Map<string, DataConnection>>(new Map());
-    const mediaConnsRef = useRef<Map<string, MediaConnection>>(new Map());
+    const { join, leave, rejoinIfDropped } = useRoomJoin({ roomId, myPrincipalTxt, closingRef, log });
 
     /** roster RTC:
      *  - key: peerId
      *  - val: principal text
      */
     const rosterRef = useRef<Map<string, string>>(new Map());
-    const joinedRef = useRef(false);
-
-    // peer handlers
-    const handlersRef = useRef<{
-        onConnection?: (conn: DataConnection) => void;
-        onDisconnected?: () => void;
-        onClose?: () => void;
-        onError?: (e: any) => void;
-        onCall?: (call: MediaConnection) => void;
-    }>({});
 
     // Mobile joystick toggle
     const [useJoystick, setUseJoystick] = useState(false);
@@ -314,7 +366,7 @@ const Room: React.FC = () => {
         const dpr = window.devicePixelRatio || 1;
         const viewW = (canvasRef.current?.width || Math.floor(window.innerWidth * dpr)) / dpr;
 
-        const minZoomByWorldX = Math.max(viewW / CANVAS_W, 0.1);
+        const minZoomByWorldX = Math.max(viewW / worldPxW(), 0.1);
         const maxZoom = ZOOM_MAX;
 
         zoomTargetRef.current = clamp(z, minZoomByWorldX, maxZoom);
@@ -327,8 +379,20 @@ const Room: React.FC = () => {
     const meRef = useRef<PlayerPos>(tileSpawnPx());
     const othersRef = useRef<Record<string, PlayerPos>>({});
     const keysRef = useRef({ up: false, left: false, down: false, right: false });
+    type WalkPath = {
+        steps: TileStep[];
+        goal: TileStep;
+        near: number;
+        peerId?: string;
+        plannedAt: number;
+        lastProgressAt: number;
+        lastX: number;
+        lastY: number;
+    };
+    const walkRef = useRef<WalkPath | null>(null);
+    // screen -> world mapping of the last rendered frame (for clicks)
+    const viewRef = useRef({ camX: 0, camY: 0, padX: 0, padY: 0, z: 1 });
     const lastRef = useRef(performance.now());
-    const sendAccRef = useRef(0);
     const rafRef = useRef(0);
 
     // overlay canvas for audio mask
@@ -343,8 +407,6 @@ const Room: React.FC = () => {
     const outfitVersion = useRef(0);
 
     const faceDirRef = useRef<Record<string, 1 | -1>>({});
-    const remoteMovingRef = useRef<Record<string, boolean>>({});
-    const lastPosAtRef = useRef<Record<string, number>>({});
 
     // Spin gesture
     type ArmSpin = { start: number; dur: number };
@@ -362,6 +424,10 @@ const Room: React.FC = () => {
         const angle = t * Math.PI * 2;
         return { armFrontRot: angle } as any;
     };
+    const getPoseOverride = (pid: string, flipX: boolean, nowMs: number) => {
+        const spin = getArmSpinOverride(pid, flipX, nowMs);
+        return seatOfPeerRef.current[pid] ? { ...spin, seated: true } : spin;
+    };
 
     // label/name
     const labelCacheRef = useRef<Record<string, string>>({});
@@ -414,14 +480,12 @@ const Room: React.FC = () => {
     const myLabelRef = useRef("");
     useEffect(() => {
         myLabelRef.current = myDisplayName;
-    }, [myDisplayName]);
+        // links opened later get it with our meta on open
+        if (myDisplayName) sessionRef.current?.broadcast(GAME_LABEL, { t: "meta", label: myDisplayName } as MetaMsg);
+    }, [myDisplayName, sessionRef]);
 
     const nameReady = !!myDisplayName;
 
-    useEffect(() => {
-        broadcastLabel();
-    }, [user?.name, user?.username]);
-
     /* ===== RIGHT SIDEBAR state ===== */
     const [showSidebar, setShowSidebar] = useState(false);
     const [participantsReady, setParticipantsReady] = useState<string[]>([]);
@@ -437,35 +501,38 @@ const Room: React.FC = () => {
         } catch { }
     };
 
-    /* ===== CHAT state ===== */
-    const [showChat, setShowChat] = useState(false);
-    const [chatInput, setChatInput] = useState("");
-    const [chatLog, setChatLog] = useState<
-        { id: string; fromPeerId: string; label: string; text: string; ts: number; self: boolean }[]
-    >([]);
-    const chatListRef = useRef<HTMLDivElement | null>(null);
-    const chatInputRef = useRef<HTMLInputElement | null>(null);
+    /* ===== CHAT (hooks/useRoomChat.ts, keys: hooks/useChatKeys.ts) ===== */
+    const { chatKeyringRef, chatKeyEpoch, startChatKeys, stopChatKeys, scheduleKeySync } = useChatKeys({
+        roomId,
+        myPrincipalTxt,
+        onChange: () => reopenLocked(),
+    });
+    const {
+        showChat, setShowChat, chatInput, setChatInput, chatLog, chatListRef, chatInputRef,
+        chatTab, setChatTab, dmThreads, dmShown, chatBubbleRef, chatTalkUntilRef, reactionFloatRef,
+        chatView, chatById, chatReplyTo, chatEditing, reactPickerFor, setReactPickerFor, chatMentions,
+        dmUnreadCount, dmTabs, chatHistoryOn, chatOlder,
+        addChatMessage, newChatId, sendChatBody, submitChat, knownUsername,
+        reactToChat, deleteChat, startChatEdit, cancelChatCompose, startChatReply,
+        openDm, flushDmOutbox, loadOlderChat, toggleChatHistory, reopenLocked, resetChat, handlers: chatHandlers,
+    } = useRoomChat({
+        roomId,
+        myPeerId,
+        myPrincipalTxt,
+        sessionRef,
+        peerProtoRef,
+        chatKeyringRef,
+        rosterRef,
+        labelCacheRef,
+        log,
+        displayNameFor,
+        usernameFor,
+        resolveRemoteProfile,
+        setChatHistory,
+        unshareFile: (id) => unshareFile(id),
+    });
     const typingChatRef = useRef(false);
 
-    const scrollChatToBottom = () => {
-        const el = chatListRef.current; if (!el) return;
-        el.scrollTop = el.scrollHeight;
-    };
-    useEffect(() => { scrollChatToBottom(); }, [chatLog.length, showChat]);
-    useEffect(() => { if (showChat) setTimeout(() => chatInputRef.current?.focus(), 60); }, [showChat]);
-
-    // Chat bubble state
-    const chatBubbleRef = useRef<Record<string, { text: string; until: number }>>({});
-    const chatTalkUntilRef = useRef<Record<string, number>>({});
-
-    const bubbleDurationFor = (text: string) => {
-        const clean = String(text ?? "");
-        const len = clean.length;
-        const nl = (clean.match(/\n/g)?.length ?? 0);
-        const ms = BUBBLE_BASE_MS + BUBBLE_PER_CHAR_MS * Math.min(len, 240) + BUBBLE_PER_NEWLINE_MS * nl;
-        return clamp(ms, BUBBLE_MIN_MS, BUBBLE_MAX_MS);
-    };
-
     const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxW: number): string[] => {
         const lines: string[] = [];
         const paragraphs = String(text ?? "").split(/\n/);
@@ -493,10 +560,6 @@ const Room: React.FC = () => {
         return lines;
     };
 
-    // identity
-    const myPrincipalTxt = useMemo(() => principalId || "anonymous", [principalId]);
-    const myPeerId = useMemo(() => peerIdForPrincipal(roomId, myPrincipalTxt), [roomId, myPrincipalTxt]);
-
     /* ===== RTC roster UI ===== */
     const refreshRtcUI = () => {
         const peers = Array.from(rosterRef.current.keys()).sort((a, b) => {
@@ -514,57 +577,108 @@ const Room: React.FC = () => {
         refreshRtcUI();
     };
 
-    const broadcastPos = () => {
-        const movingNow = !!(keysRef.current.left || keysRef.current.right || keysRef.current.up || keysRef.current.down);
-        const face = faceDirRef.current[myPeerId] ?? 1;
-        const msg: PosMsg = { t: "pos", x: meRef.current.x, y: meRef.current.y, moving: movingNow, face };
-        for (const [, c] of connsRef.current) if (c.open) { try { c.send(msg); } catch { } }
-    };
+    const isMovingNow = () =>
+        !!(keysRef.current.left || keysRef.current.right || keysRef.current.up || keysRef.current.down || walkRef.current);
 
-    const addChatMessage = (fromPeerId: string, text: string, ts = Date.now(), self = false) => {
-        const label = displayNameFor(fromPeerId);
-        const item = {
-            id: `${ts}-${fromPeerId}-${Math.random().toString(36).slice(2, 7)}`,
-            fromPeerId,
-            label,
-            text,
-            ts,
-            self,
-        };
-        setChatLog((prev) => [...prev, item].slice(-400));
-        const dur = bubbleDurationFor(text);
+    /** ===== Click-to-move ===== */
+    const walkTo = (goal: TileStep, opts?: { near?: number; peerId?: string }) => {
+        const steps = findPath(centerTileOf(meRef.current.x, meRef.current.y), goal, { near: opts?.near });
+        if (!steps?.length) {
+            walkRef.current = null;
+            return false;
+        }
+        standUp();
         const now = performance.now();
-        chatBubbleRef.current[fromPeerId] = { text, until: now + dur };
-        chatTalkUntilRef.current[fromPeerId] = now + Math.min(dur, 5000);
+        walkRef.current = {
+            steps,
+            goal,
+            near: opts?.near ?? 0,
+            peerId: opts?.peerId,
+            plannedAt: now,
+            lastProgressAt: now,
+            lastX: meRef.current.x,
+            lastY: meRef.current.y,
+        };
+        return true;
     };
 
-    const sendChat = (textRaw: string) => {
-        let text = String(textRaw ?? "")
-            .replace(/\r/g, "")
-            .replace(/[ \t]+/g, " ")
-            .replace(/\n{3,}/g, "\n\n")
-            .trim();
-        if (text.length > 240) text = text.slice(0, 240);
-        if (!text) return;
-        const ts = Date.now();
-        const wire: Msg = { t: "chat", text, ts, from: myPeerId };
-        let sent = false;
-        for (const [, c] of chatConnsRef.current) {
-            if (c.open) { try { c.send(wire); sent = true; } catch { } }
-        }
-        if (!sent) {
-            for (const [, c] of connsRef.current) { if (c.open) { try { c.send(wire); } catch { } } }
-        }
-        addChatMessage(myPeerId, text, ts, true);
-        setChatInput("");
+    const walkToPeer = (pid: string) => {
+        const p = othersRef.current[pid];
+        if (!p) return false;
+        return walkTo(centerTileOf(p.x, p.y), { near: 1, peerId: pid });
     };
 
-    const handleInboundChat = (remotePeerId: string, payload: any) => {
-        if (!payload || payload.t !== "chat") return;
-        const from = typeof payload.from === "string" ? payload.from : remotePeerId;
-        const ts = typeof payload.ts === "number" ? payload.ts : Date.now();
-        const text = String(payload.text ?? "");
-        addChatMessage(from, text, ts, false);
+    /** ===== Position sync (hooks/useRoomPositions.ts) ===== */
+    const {
+        sendPosUpdate, greetPos, sendPosOn, receiveRelayedPos, dropPosSync, sampleRemotePositions, isRemoteMoving,
+        handlers: posHandlers,
+    } = useRoomPositions({
+        myPeerId,
+        meRef,
+        othersRef,
+        faceDirRef,
+        isMovingNow,
+        log,
+        linkedPeers,
+        sendMsg,
+        noteInvalidMsg,
+        bounds: worldBounds,
+    });
+    const broadcastPos = () => sendPosUpdate(true);
+
+    /** ===== Files (hooks/useRoomFiles.ts) ===== */
+    const {
+        fileUrls, fileProgress, fileNotice, setFileNotice, fileDragOver, setFileDragOver, fileInputRef,
+        fileErrorText, startFiles, stopFiles, shareFiles, fetchChatFile, fileOpened, fileData, cancelFile, unshareFile,
+    } = useRoomFiles({ myPeerId, chatTab, peerProtoRef, chatKeyringRef, newChatId, sendChatBody, addChatMessage });
+
+    const renderChatFile = (m: ChatLine) => {
+        const f = m.file!;
+        const url = fileUrls[f.id];
+        const p = fileProgress[f.id];
+        const busy = !!p && (p.state === "waiting" || p.state === "active");
+        const pct = p && p.size ? Math.round((p.done / p.size) * 100) : 0;
+        const preview = isImageMime(f.mime) ? url ?? f.thumb : undefined;
+        return (
+            <div style={{ marginTop: 4, padding: 6, maxWidth: 260, borderRadius: 8, border: "1px solid rgba(148,163,184,0.3)", background: "rgba(15,23,42,0.6)" }}>
+                {preview && (
+                    <img
+                        src={preview}
+                        alt={f.name}
+                        onClick={() => { if (!url && !busy) void fetchChatFile(m); }}
+                        title={url ? f.name : "Click to load the full image"}
+                        style={{ display: "block", maxWidth: "100%", maxHeight: 200, borderRadius: 6, marginBottom: 4, cursor: url ? "default" : "pointer" }}
+                    />
+                )}
+                <div style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 12 }}>
+                    <span title={f.name} style={{ flex: 1, minWidth: 0, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>📎 {f.name}</span>
+                    <span style={{ color: "#94a3b8", fontSize: 11 }}>{formatBytes(f.size)}</span>
+                </div>
+                {busy && (
+                    <div
+                        role="progressbar"
+                        aria-valuenow={pct}
+                        aria-valuemin={0}
+                        aria-valuemax={100}
+                        style={{ height: 4, marginTop: 4, borderRadius: 2, overflow: "hidden", background: "rgba(148,163,184,0.25)" }}
+                    >
+                        <div style={{ width: `${pct}%`, height: "100%", background: "rgb(132,204,22)", transition: "width 120ms" }} />
+                    </div>
+                )}
+                <div style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 4, fontSize: 11 }}>
+                    {url ? (
+                        <a href={url} download={f.name} style={CHAT_ACTION_STYLE}>Save</a>
+                    ) : busy ? (
+                        !f.store && <button onClick={() => cancelFile(f.id)} style={CHAT_ACTION_STYLE}>Cancel</button>
+                    ) : (
+                        <button onClick={() => { void fetchChatFile(m); }} style={CHAT_ACTION_STYLE}>{p?.state === "failed" ? "Retry" : "Download"}</button>
+                    )}
+                    {busy && <span style={{ color: "#94a3b8" }}>{p.dir === "up" ? (f.store ? "Uploading" : "Sending") : "Downloading"} {pct}%</span>}
+                    {p?.state === "failed" && p.dir === "down" && <span style={{ color: "#f87171" }}>{fileErrorText(p.error)}</span>}
+                    {f.store && !busy && <span style={{ color: "#64748b" }}>from room storage</span>}
+                </div>
+            </div>
+        );
     };
 
     // ===== Outfit editor =====
@@ -628,18 +742,12 @@ const Room: React.FC = () => {
     const broadcastLabel = () => {
         const myLabel = myLabelRef.current;
         if (!myLabel) return;
-        for (const [, c] of connsRef.current) {
-            if (c.open) { try { c.send({ t: "meta", label: myLabel } as MetaMsg); } catch { } }
-        }
+        sessionRef.current?.broadcast(GAME_LABEL, { t: "meta", label: myLabel } as MetaMsg);
     };
 
     const broadcastOutfit = () => {
         const slots = playerOutfitSlotsRef.current[myPeerId] || DEFAULT_OUTFIT;
-        for (const [, c] of connsRef.current) {
-            if (c.open) {
-                try { c.send({ t: "meta", outfit: slots } as MetaMsg); } catch { }
-            }
-        }
+        sessionRef.current?.broadcast(GAME_LABEL, { t: "meta", outfit: slots } as MetaMsg);
     };
 
     const onApplyOutfit = async () => {
@@ -737,464 +845,75 @@ const Room: React.FC = () => {
     };
 
 
-    /** ===== MEDIA (audio) ===== */
-    const localStreamRef = useRef<MediaStream | null>(null);
-    const micOnRef = useRef(false);
-    const [micOn, setMicOn] = useState(false);
-    const [mics, setMics] = useState<MediaDeviceInfo[]>([]);
-    const [selectedMicId, setSelectedMicId] = useState<string>("");
+    /** ===== MEDIA (voice, video and relay mode: hooks/useRoomMedia.ts) ===== */
     const [showMicSettings, setShowMicSettings] = useState(false);
+    const [showDiagnostics, setShowDiagnostics] = useState(false);
+    const showDiagnosticsRef = useRef(false);
+
+    const {
+        mediaConnsRef, relayPeer, relayOf, micOnRef, micOn, setMicOn, mics, selectedMicId, setSelectedMicId, micLevel,
+        audioOutput, camOn, screenOn, videoLayerRef, screenSharers, stageSharer, setStagePeer, stageHidden, setStageHidden, stageVideoRef,
+        localAnalyserRef, localLevelRef, remoteAnalyserRef, remoteLevelRef, speakingRef, talkBlinkRef, lastBlinkAtRef,
+        computeLevel, ensureAudioCtx, ensureSilentOut, acquireMic, tryPlayAllRemote, onChangeAudioOutput,
+        onToggleMic, onApplyMic, onToggleCam, onToggleScreen, stopScreen, placeVideoBubble, updateAudioZones,
+        answerMediaCall, decideRelay, reconcileCalls, greetPeer, dropPeerMedia, stopMedia, handlers: mediaHandlers,
+    } = useRoomMedia({
+        myPeerId,
+        sessionRef,
+        peerProtoRef,
+        meRef,
+        othersRef,
+        log,
+        linkedPeers,
+        sendMsg,
+        broadcastMsg,
+        centerTileOf,
+        tileOfPeer: (pid) => tileOfPeer(pid),
+        mediaInRange,
+        mediaPeers: () => mediaPeers(),
+        meterOn: showMicSettings,
+    });
 
-    const remoteAudiosRef = useRef<Record<string, HTMLAudioElement | null>>({});
-    const remoteUserMutedRef = useRef<Record<string, boolean>>({});
-
-    // WebAudio (VAD & util)
-    const audioCtxRef = useRef<AudioContext | null>(null);
-    const silentOutRef = useRef<MediaStream | null>(null);
-
-    const remoteAnalyserRef = useRef<Record<string, AnalyserNode | null>>({});
-    const remoteSourceRef = useRef<Record<string, MediaStreamAudioSourceNode | null>>({});
-    const remoteLevelRef = useRef<Record<string, number>>({});
-
-    const localAnalyserRef = useRef<AnalyserNode | null>(null);
-    const localSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-    const localLevelRef = useRef(0);
-
-    /** speaking VAD */
-    const speakingRef = useRef<Record<string, boolean>>({});
-    const lastLoudAtRef = useRef<Record<string, number>>({});
-    const lastLoudAtSelfRef = useRef<number>(0);
-    const VAD_HOLD_MS = 200;
-    const BLINK_MS = 200;
-    const talkBlinkRef = useRef<Record<string, boolean>>({});
-    const lastBlinkAtRef = useRef<Record<string, number>>({});
-
-    const SPK_THRESHOLD = 0.02;
-
-    /** AudioContext helper */
-    const ensureAudioCtx = () => {
-        if (!audioCtxRef.current) {
-            const AC = (window as any).AudioContext || (window as any).webkitAudioContext;
-            audioCtxRef.current = new AC();
-        }
-        return audioCtxRef.current!;
-    };
-
-    /** Create a truly silent outbound stream (so we can be recvonly/bi-dir even if mic never on) */
-    const ensureSilentOut = (): MediaStream | null => {
-        try {
-            if (silentOutRef.current) return silentOutRef.current;
-            const ctx = ensureAudioCtx();
-            const src = (ctx as any).createConstantSource ? (ctx as any).createConstantSource() : ctx.createOscillator();
-            const gain = ctx.createGain();
-            const dest = ctx.createMediaStreamDestination();
-            gain.gain.value = 0;
-            src.connect(gain).connect(dest);
-            src.start?.();
-            silentOutRef.current = dest.stream;
-            return silentOutRef.current;
-        } catch {
-            return null;
-        }
-    };
-
-    /** Outbound stream policy:
-     *  - if mic ON -> real mic
-     *  - else      -> silent stream
-     */
-    const getOutboundStream = (): MediaStream | null => {
-        if (micOnRef.current && localStreamRef.current) return localStreamRef.current;
-        return ensureSilentOut();
-    };
-
-    /** VAD helpers */
-    const computeLevel = (an: AnalyserNode | null) => {
-        if (!an) return 0;
-        const buf = new Float32Array(an.fftSize);
-        try {
-            an.getFloatTimeDomainData(buf);
-            let sum = 0;
-            for (let i = 0; i < buf.length; i++) sum += buf[i] * buf[i];
-            return Math.sqrt(sum / buf.length);
-        } catch { return 0; }
-    };
-
-    const attachLocalAnalyser = (stream: MediaStream) => {
-        try {
-            const ctx = ensureAudioCtx();
-            detachLocalAnalyser();
-            const src = ctx.createMediaStreamSource(stream);
-            const an = ctx.createAnalyser();
-            an.fftSize = 512;
-            src.connect(an);
-            localSourceRef.current = src;
-            localAnalyserRef.current = an;
-        } catch { }
-    };
-
-    const detachLocalAnalyser = () => {
-        try { localSourceRef.current?.disconnect(); } catch { }
-        localSourceRef.current = null;
-        localAnalyserRef.current = null;
-        localLevelRef.current = 0;
-    };
-
-    const attachRemoteAnalyser = (pid: string, stream: MediaStream) => {
-        try {
-            const ctx = ensureAudioCtx();
-            try { remoteSourceRef.current[pid]?.disconnect(); } catch { }
-            const src = ctx.createMediaStreamSource(stream);
-            const an = ctx.createAnalyser();
-            an.fftSize = 512;
-            src.connect(an);
-            remoteSourceRef.current[pid] = src;
-            remoteAnalyserRef.current[pid] = an;
-        } catch {
-            remoteSourceRef.current[pid] = null;
-            remoteAnalyserRef.current[pid] = null;
-        }
-    };
-
-    /** Device list */
-    const refreshMics = async () => {
-        try {
-            const list = await navigator.mediaDevices.enumerateDevices();
-            const ins = list.filter((d) => d.kind === "audioinput");
-            setMics(ins);
-            if (!selectedMicId && ins[0]?.deviceId) setSelectedMicId(ins[0].deviceId);
-        } catch { }
-    };
-    useEffect(() => { void refreshMics(); }, []);
-    useEffect(() => {
-        const onDev = () => void refreshMics();
-        navigator.mediaDevices?.addEventListener?.("devicechange", onDev);
-        return () => navigator.mediaDevices?.removeEventListener?.("devicechange", onDev);
-    }, []);
-
-
-    /** Acquire/close mic */
-    const acquireMic = async (deviceId?: string) => {
-        try {
-            const constraints: MediaStreamConstraints = {
-                audio: {
-                    deviceId: deviceId ? { exact: deviceId } : undefined,
-                    echoCancellation: true,
-                    noiseSuppression: true,
-                    autoGainControl: true,
-                } as MediaTrackConstraints,
-            };
-            const stream = await navigator.mediaDevices.getUserMedia(constraints);
-            stream.getAudioTracks().forEach(t => {
-                t.onended = () => {
-                    micOnRef.current = false; setMicOn(false);
-                    refreshCallsAfterMicChange();
-                };
-            });
-            localStreamRef.current = stream;
-            attachLocalAnalyser(stream);
-            return stream;
-        } catch {
-            return null;
-        }
-    };
-
-    const closeMic = () => {
-        try { localStreamRef.current?.getTracks().forEach((t) => t.stop()); } catch { }
-        localStreamRef.current = null;
-        detachLocalAnalyser();
-    };
-
-    /** Try playing every remote audio (for autoplay unlock) */
-    const tryPlayAllRemote = () => {
-        for (const el of Object.values(remoteAudiosRef.current)) {
-            try { el?.play?.().catch(() => { }); } catch { }
-        }
-    };
-
-    /** call this after any mic state change (on/off/apply device) */
-    const refreshCallsAfterMicChange = () => {
-        for (const [, c] of connsRef.current) {
-            if (c.open) { try { c.send({ t: "media-refresh", why: micOnRef.current ? "mic-on" : "mic-off" } as Msg); } catch { } }
-        }
-        for (const rid of mediaConnsRef.current.keys()) {
-            try { mediaConnsRef.current.get(rid)?.close(); } catch { }
-            mediaConnsRef.current.delete(rid);
-        }
-        const out = getOutboundStream();
-        if (!out) return;
-        setTimeout(() => {
-            for (const rid of connsRef.current.keys()) startMediaCall(rid);
-        }, 120);
-    };
-
-    /** Replace sender track on existing RTCPeerConnections without full reneg */
-    const swapOutboundTrackForAll = (stream: MediaStream | null) => {
-        const track = stream?.getAudioTracks?.()[0] || null;
-        for (const [, call] of mediaConnsRef.current) {
-            const pc: RTCPeerConnection | undefined = (call as any)?.peerConnection;
-            const sender = pc?.getSenders().find(s => s.track && s.track.kind === "audio");
-            if (sender) {
-                sender.replaceTrack(track).catch(() => { });
-            }
-        }
-    };
-
-    /** Toggle Mic main button */
-    const onToggleMic = async () => {
-        await ensureAudioCtx()?.resume().catch(() => { });
-        if (!micOnRef.current) {
-            const stream = await acquireMic(selectedMicId || undefined);
-            if (!stream) return;
-            micOnRef.current = true;
-            setMicOn(true);
-            swapOutboundTrackForAll(stream);
-            for (const [, c] of connsRef.current) c.open && c.send({ t: "media-refresh", why: "mic-on" } as Msg);
-        } else {
-            micOnRef.current = false;
-            setMicOn(false);
-            const silent = ensureSilentOut();
-            swapOutboundTrackForAll(silent);
-            closeMic();
-            for (const [, c] of connsRef.current) c.open && c.send({ t: "media-refresh", why: "mic-off" } as Msg);
-        }
-    };
-
-    /** Apply device in settings */
-    const onApplyMic = async () => {
-        await ensureAudioCtx()?.resume().catch(() => { });
-        closeMic();
-        const stream = await acquireMic(selectedMicId || undefined);
-        if (!stream) return;
-        micOnRef.current = true;
-        setMicOn(true);
-        refreshCallsAfterMicChange();
-    };
-
-
-    /** Auto-update VAD & mouth blink */
-    useEffect(() => {
-        let timer = window.setInterval(() => {
-            const now = performance.now();
-
-            // local
-            const lvlSelf = computeLevel(localAnalyserRef.current);
-            if (lvlSelf > SPK_THRESHOLD) lastLoudAtSelfRef.current = now;
-            speakingRef.current[myPeerId] = (now - lastLoudAtSelfRef.current) < VAD_HOLD_MS;
-
-            // remotes
-            Object.keys(remoteAnalyserRef.current).forEach(pid => {
-                const an = remoteAnalyserRef.current[pid];
-                const lvl = computeLevel(an || null);
-                if (lvl > SPK_THRESHOLD) lastLoudAtRef.current[pid] = now;
-                const speakingNow = (now - (lastLoudAtRef.current[pid] || 0)) < VAD_HOLD_MS;
-                speakingRef.current[pid] = speakingNow;
-
-                if (speakingNow) {
-                    if (!lastBlinkAtRef.current[pid] || now - lastBlinkAtRef.current[pid] >= BLINK_MS) {
-                        talkBlinkRef.current[pid] = !talkBlinkRef.current[pid];
-                        lastBlinkAtRef.current[pid] = now;
-                    }
-                } else {
-                    talkBlinkRef.current[pid] = false;
-                }
-            });
-        }, 150);
-        return () => window.clearInterval(timer);
-    }, [myPeerId]);
-
-
-    /** Start/answer media calls */
-    const startMediaCall = (remotePeerId: string) => {
-        const peer = peerRef.current; if (!peer) return;
-        if (mediaConnsRef.current.has(remotePeerId)) return;
-
-        const out = getOutboundStream();
-        if (!out) return;
-
-        let call: MediaConnection | undefined;
-        try {
-            call = peer.call(remotePeerId, out, { metadata: { kind: "proximity-audio" } });
-        } catch { return; }
-        if (!call) return;
-        hookMediaConn(remotePeerId, call);
-    };
-
-    const answerMediaCall = (remotePeerId: string, call: MediaConnection) => {
-        const out = getOutboundStream();
-        try {
-            if (out) call.answer(out); else call.answer();
-        } catch (e) {
-            log(`answer error ${pretty(remotePeerId)}: ${String((e as any)?.message || e)}`);
-        }
-        hookMediaConn(remotePeerId, call);
-    };
-
-    /** Watch native PC states (retry on fail) */
-    const watchPeerConn = (remotePeerId: string, call: MediaConnection) => {
-        const pc: RTCPeerConnection | undefined = (call as any)?.peerConnection;
-        if (!pc) return;
-        const bump = (why: string) => {
-            log(`PC(${pretty(remotePeerId)}) ${why}, retry...`);
-            try { call.close(); } catch { }
-            mediaConnsRef.current.delete(remotePeerId);
-            setTimeout(() => startMediaCall(remotePeerId), 250);
-        };
-        pc.onconnectionstatechange = () => {
-            const st = pc.connectionState;
-            if (st === "failed" || st === "disconnected") bump(`state=${st}`);
-        };
-        pc.oniceconnectionstatechange = () => {
-            const st = pc.iceConnectionState;
-            if (st === "failed" || st === "disconnected") bump(`ice=${st}`);
-        };
-    };
-
-    /** Volume attenuation by zone & distance */
-    const calcAudibility = (meTx: number, meTy: number, pTx: number, pTy: number) => {
-        const myRule = audioRuleAt(meTx, meTy);
-        const hisRule = audioRuleAt(pTx, pTy);
-
-        if (myRule.kind === "room") {
-            const same = hisRule.kind === "room" && hisRule.zoneId === myRule.zoneId;
-            return { audible: same, vol: same ? 1 : 0 };
-        }
-
-        if (hisRule.kind === "room") return { audible: false, vol: 0 };
-
-        const R = myRule.kind === "radius" ? myRule.radius : DEFAULT_AUDIO_RADIUS_TILES;
-        const d = Math.max(Math.abs(pTx - meTx), Math.abs(pTy - meTy));
-        if (d > R) return { audible: false, vol: 0 };
-
-        const t = Math.min(1, d / Math.max(1, R));
-        const vol = clamp(1 - t * t * 0.85, 0.18, 1);
-        return { audible: true, vol };
-    };
-
-    /** Attach/maintain MediaConnection */
-    const hookMediaConn = (remotePeerId: string, call: MediaConnection) => {
-        const old = mediaConnsRef.current.get(remotePeerId);
-        if (old && old !== call) {
-            try { old.close(); } catch { }
-            mediaConnsRef.current.delete(remotePeerId);
-        }
-        mediaConnsRef.current.set(remotePeerId, call);
-        watchPeerConn(remotePeerId, call);
-
-        call.on("stream", (remoteStream) => {
-            let el = remoteAudiosRef.current[remotePeerId];
-            if (!el) {
-                el = document.createElement("audio");
-                el.autoplay = true;
-                (el as any).playsInline = true;
-                el.muted = true;
-                el.volume = 1;
-                document.body.appendChild(el);
-                remoteAudiosRef.current[remotePeerId] = el;
-            }
-
-            el.srcObject = remoteStream;
-            attachRemoteAnalyser(remotePeerId, remoteStream);
-            el.play?.().catch(() => { });
-
-            try {
-                const me = meRef.current;
-                const { col: meTx, row: meTy } = centerTileOf(me.x, me.y);
-                const p = othersRef.current[remotePeerId];
-                if (p) {
-                    const { col: pTx, row: pTy } = centerTileOf(p.x, p.y);
-                    const { audible, vol } = calcAudibility(meTx, meTy, pTx, pTy);
-                    const forceMute = !!remoteUserMutedRef.current[remotePeerId];
-                    el.muted = !(audible && !forceMute);
-                    el.volume = audible ? vol : 0;
-                }
-            } catch { }
-
-            tryPlayAllRemote();
-        });
-
-        call.on("close", () => {
-            mediaConnsRef.current.delete(remotePeerId);
-
-            const el = remoteAudiosRef.current[remotePeerId];
-            try { el?.pause(); if (el) (el as any).srcObject = null; el?.remove(); } catch { }
-            remoteAudiosRef.current[remotePeerId] = null;
-
-            try { remoteSourceRef.current[remotePeerId]?.disconnect(); } catch { }
-            remoteSourceRef.current[remotePeerId] = null;
-            remoteAnalyserRef.current[remotePeerId] = null;
-            remoteLevelRef.current[remotePeerId] = 0;
-
-            setTimeout(() => {
-                if (!mediaConnsRef.current.has(remotePeerId)) startMediaCall(remotePeerId);
-            }, 220);
-        });
-
-        call.on("error", (e) => {
-            log(`audio error ${pretty(remotePeerId)}: ${String((e as any)?.message || e)}`);
-        });
-    };
-
-    /** Small helper so our keyboard/mouse gesture also unlocks audio */
-    const isEditableTarget = (e: KeyboardEvent) => {
-        const t = (e.target as HTMLElement) || null;
-        if (!t) return false;
-        if (t.isContentEditable) return true;
-        const tag = (t.tagName || "").toLowerCase();
-        return tag === "input" || tag === "textarea" || tag === "select";
-    };
-
-    /** Live mic level meter (only while panel open) */
-    const [micLevel, setMicLevel] = useState(0);
-    useEffect(() => {
-        let raf = 0;
-        const loop = () => {
-            if (showMicSettings) {
-                setMicLevel(computeLevel(localAnalyserRef.current));
-                raf = requestAnimationFrame(loop);
+    /** ===== Interest management and gossip (hooks/useRoomInterest.ts) ===== */
+    const {
+        dialPeer, tileOfPeer, mediaPeers, firstTargets, noteMember, noteBye, noteClosed, clearMembers, greetGossip,
+        handlers: interestHandlers,
+    } = useRoomInterest({
+        myPeerId,
+        sessionRef,
+        closingRef,
+        peerProtoRef,
+        meRef,
+        othersRef,
+        faceDirRef,
+        isMovingNow,
+        log,
+        sendMsg,
+        broadcastMsg,
+        centerTileOf,
+        mediaInRange,
+        decideRelay,
+        reconcileCalls,
+        relayOf,
+        receiveRelayedPos,
+        dropPosSync,
+        onSeen: (pids) => {
+            const joined = pids.filter((pid) => !rosterRef.current.has(pid));
+            for (const pid of joined) {
+                rosterRef.current.set(pid, principalFromPeerId(roomId, pid));
+                void resolveRemoteProfile(pid);
             }
-        };
-        if (showMicSettings) raf = requestAnimationFrame(loop);
-        return () => cancelAnimationFrame(raf);
-    }, [showMicSettings]);
-
-
-    /** ===== Proximity gating + attenuation (called every frame) ===== */
-    const updateAudioZones = () => {
-        const me = meRef.current;
-        const { col: meTx, row: meTy } = centerTileOf(me.x, me.y);
-
-        for (const rid of Object.keys(remoteAudiosRef.current)) {
-            const el = remoteAudiosRef.current[rid];
-            if (!el) continue;
-
-            const p = othersRef.current[rid];
-            const forceMute = !!remoteUserMutedRef.current[rid];
-
-            if (!p) { el.muted = true; continue; }
-
-            const { col: pTx, row: pTy } = centerTileOf(p.x, p.y);
-            const { audible, vol } = calcAudibility(meTx, meTy, pTx, pTy);
-
-            const shouldPlay = audible && !forceMute;
-            if (shouldPlay) {
-                if (el.muted) {
-                    el.muted = false;
-                    el.play?.().catch(() => { });
-                }
-                el.volume = vol;
-            } else {
-                if (!el.muted) el.muted = true;
-                el.volume = 0;
+            if (joined.length) refreshRtcUI();
+        },
+        onForget: (pids) => {
+            for (const pid of pids) {
+                delete othersRef.current[pid];
+                freeSeatOf(pid);
+                rosterRef.current.delete(pid);
             }
-        }
-    };
-
-    /** Public util */
-    const setPeerMuted = (peerId: string, muted: boolean) => {
-        remoteUserMutedRef.current[peerId] = muted;
-        const el = remoteAudiosRef.current[peerId];
-        if (el) el.muted = muted || el.muted;
-    };
+            refreshRtcUI();
+        },
+    });
 
     /** UX: make sure first interaction resumes AudioContext + tries to play audio */
     useEffect(() => {
@@ -1210,15 +929,16 @@ const Room: React.FC = () => {
             window.removeEventListener("pointerdown", onPointer, true as any);
             window.removeEventListener("keydown", onKey, true);
         };
-    }, []);
+    }, [ensureAudioCtx, tryPlayAllRemote]);
 
     const chatPanelRef = useRef<HTMLDivElement | null>(null);
     const rightSidebarRef = useRef<HTMLDivElement | null>(null);
     const micPanelRef = useRef<HTMLDivElement | null>(null);
+    const diagPanelRef = useRef<HTMLDivElement | null>(null);
 
     useEffect(() => {
         const onPointerDown = (e: PointerEvent) => {
-            if (!(showChat || showSidebar || showMicSettings)) return;
+            if (!(showChat || showSidebar || showMicSettings || showDiagnostics)) return;
             if (showOutfit) return;
 
             const target = e.target as HTMLElement | null;
@@ -1232,6 +952,10 @@ const Room: React.FC = () => {
                 if (!inside(micPanelRef)) setShowMicSettings(false);
                 return;
             }
+            if (showDiagnostics) {
+                if (!inside(diagPanelRef)) setShowDiagnostics(false);
+                return;
+            }
 
             if (showChat || showSidebar) {
                 const inChat = inside(chatPanelRef);
@@ -1248,22 +972,59 @@ const Room: React.FC = () => {
 
         window.addEventListener("pointerdown", onPointerDown, true);
         return () => window.removeEventListener("pointerdown", onPointerDown, true);
-    }, [showChat, showSidebar, showMicSettings, showOutfit]);
+    }, [showChat, showSidebar, showMicSettings, showDiagnostics, showOutfit, setShowChat]);
+
+    /** ===== WORLD load (map comes from the room record) ===== */
+    const [mapNotice, setMapNotice] = useState<string | null>(null);
+    const [isHost, setIsHost] = useState(false);
+    /** Map the current world came from, for resume snapshots */
+    const mapKeyRef = useRef<string | null>(null);
+
+    const loadRoomWorld = async (room: RoomRecord | null) => {
+        const customMap = room?.mapId === CUSTOM_MAP_ID ? await getRoomMap(roomId) : null;
+        const resolved = resolveRoomMap(room?.mapId, customMap);
+        let notice = resolved.notice;
+        let mapKey = resolved.mapId;
+        let world: WorldMap;
+        try {
+            world = await loadWorldMap(resolved.def);
+        } catch (e) {
+            console.warn("Room map failed to load, using default", e);
+            notice = "This room's map couldn't be loaded, showing the default office instead.";
+            world = await loadWorldMap(DEFAULT_MAP_DEF);
+            mapKey = DEFAULT_MAP_ID;
+        }
+        worldRef.current?.dispose();
+        worldRef.current = world;
+        mapKeyRef.current = mapKey;
+        worldState.reset();
+        resetInteractables();
+        // back on the map we dropped off (or reloaded) from: stand where we were;
+        // otherwise the previous spawn belonged to whatever map was active before
+        const snap = loadResumeSnapshot(roomId, mapKey, RESUME_MAX_AGE_MS);
+        const at = snap && centerTileOf(snap.x, snap.y);
+        if (snap && at && !isSolidTile(at.col, at.row)) {
+            meRef.current = { x: snap.x, y: snap.y };
+            if (snap.face) faceDirRef.current[myPeerId] = snap.face;
+        } else {
+            meRef.current = tileSpawnPx();
+        }
+        setMapNotice(notice);
+        markDone("world");
+    };
+
+    /** ===== Resume snapshot (see loadRoomWorld) ===== */
+    const saveResumePoint = () => {
+        if (!mapKeyRef.current || !worldRef.current) return;
+        const me = meRef.current;
+        saveResumeSnapshot(roomId, { x: me.x, y: me.y, face: faceDirRef.current[myPeerId], map: mapKeyRef.current, at: Date.now() });
+    };
 
-    /** ===== WORLD load ===== */
+    const saveResumeRef = useRef(saveResumePoint);
+    saveResumeRef.current = saveResumePoint;
     useEffect(() => {
-        let mounted = true;
-        (async () => {
-            try {
-                const world = await loadWorldMap();
-                if (mounted) {
-                    worldRef.current = world;
-                    scanDoors();
-                    markDone("world");
-                }
-            } catch { worldRef.current = null; }
-        })();
-        return () => { mounted = false; };
+        const t = setInterval(() => saveResumeRef.current(), RESUME_SNAPSHOT_MS);
+        return () => clearInterval(t);
     }, []);
 
     /** ===== Player assets load ===== */
@@ -1307,28 +1068,37 @@ const Room: React.FC = () => {
         recomputeOutfitFor(pid);
     };
 
-    /** ===== DOOR state ===== */
-    const doorSetRef = useRef<Set<string>>(new Set());
-
-    const scanDoors = () => {
-        const s = new Set<string>();
-        for (let r = 0; r < MAP_ROWS; r++) {
-            for (let c = 0; c < MAP_COLS; c++) {
-                if (isDoorId((wallLayout[r][c] | 0))) s.add(doorKey(c, r));
-            }
+    /** ===== Replicated world state (doors, switches) ===== */
+    const worldChangeRef = useRef<(ch: StateChange) => void>(() => { });
+    const worldState = useMemo(() => createReplicatedState({
+        peerId: myPeerId,
+        send: (to, msg) => {
+            if (to === null) broadcastMsg(msg);
+            else sendMsg(to, msg);
+        },
+        onChange: (ch) => worldChangeRef.current(ch),
+    }), [myPeerId, sendMsg, broadcastMsg]);
+
+    const onWorldStateChange = ({ key, value, snapshot }: StateChange) => {
+        if (key.startsWith(DOOR_STATE_PREFIX)) {
+            const [c, r] = key.slice(DOOR_STATE_PREFIX.length).split(",").map(Number);
+            if (typeof value !== "boolean" || !isDoorId(wallLayout[r]?.[c] | 0)) return;
+            void setDoor(c, r, value, { silent: snapshot });
+            if (!snapshot) sendLegacyDoor(c, r, value);
+        } else if (key.startsWith(TRIGGER_STATE_PREFIX)) {
+            const it = interactablesRef.current?.byId.get(key.slice(TRIGGER_STATE_PREFIX.length));
+            if (it?.kind === "trigger") setTrigger(it, value === true);
         }
-        doorSetRef.current = s;
     };
+    worldChangeRef.current = onWorldStateChange;
 
-    const isDoorOpen = (c: number, r: number) => (wallLayout[r]?.[c] === DOOR_OPEN_ID);
-
-    const rebuildWorld = async () => {
-        try {
-            const world = await loadWorldMap();
-            worldRef.current = world;
-        } catch { }
-    };
+    // anti-entropy: peers that missed a write pull a snapshot
+    useEffect(() => {
+        const id = setInterval(() => worldState.sendDigest(), STATE_DIGEST_MS);
+        return () => clearInterval(id);
+    }, [worldState]);
 
+    /** ===== DOOR state ===== */
     const canHearDoorAt = (doorCol: number, doorRow: number) => {
         const { col: myCol, row: myRow } = centerTileOf(meRef.current.x, meRef.current.y);
         const dCheb = Math.max(Math.abs(myCol - doorCol), Math.abs(myRow - doorRow));
@@ -1371,16 +1141,42 @@ const Room: React.FC = () => {
             topLayout[tr][c] = open ? TOP_DOOR_OPEN_ID : TOP_DOOR_CLOSED_ID;
         }
 
-        doorSetRef.current.add(doorKey(c, r));
-
         if (changed && !opts?.silent && canHearDoorAt(c, r)) {
             playDoorSfx(open);
         }
 
-        await rebuildWorld();
+        worldRef.current?.invalidateTile(c, r);
+        if (tr >= 0) worldRef.current?.invalidateTile(c, tr);
         return changed;
     };
 
+    /** v1 peers (no world-state) only hear about doors through `door` messages */
+    const legacyDoorPeers = () => linkedPeers().filter((pid) => {
+        const proto = peerProtoRef.current.get(pid);
+        return !!proto && speaksLegacyDoors(proto);
+    });
+    const sendLegacyDoor = (col: number, row: number, open: boolean) => {
+        for (const pid of legacyDoorPeers()) sendMsg(pid, { t: "door", col, row, open });
+    };
+    const sendLegacyDoorSnapshotTo = (peerId: string) => {
+        for (const e of worldState.entries()) {
+            if (!e.key.startsWith(DOOR_STATE_PREFIX) || typeof e.value !== "boolean") continue;
+            const [col, row] = e.key.slice(DOOR_STATE_PREFIX.length).split(",").map(Number);
+            sendMsg(peerId, { t: "door", col, row, open: e.value, silent: true });
+        }
+    };
+    /** A v1 door write becomes an ordinary state write, so every other peer hears it too */
+    const receiveLegacyDoor = (col: number, row: number, open: boolean, silent: boolean) => {
+        const id = wallLayout[row]?.[col] | 0;
+        if (!isDoorId(id)) return;
+        const key = doorStateKey(col, row);
+        // a v1 snapshot only fills in doors the shared state hasn't decided yet
+        if (silent && worldState.entry(key)) return;
+        if ((worldState.get(key) ?? id === DOOR_OPEN_ID) === open) return;
+        if (silent) void setDoor(col, row, open, { silent: true });
+        worldState.set(key, open);
+    };
+
     const findAdjacentDoor = (tc: number, tr: number): { col: number; row: number; open: boolean } | null => {
         const dirs = [[0, -1], [0, 1], [-1, 0], [1, 0]];
         for (const [dx, dy] of dirs) {
@@ -1392,20 +1188,147 @@ const Room: React.FC = () => {
         return null;
     };
 
-    const broadcastDoor = (col: number, row: number, open: boolean) => {
-        const wire: Msg = { t: "door", col, row, open };
-        for (const [, c] of connsRef.current) if (c.open) { try { c.send(wire); } catch { } }
+    /** ===== INTERACTABLES (seats, panels, switches) ===== */
+    const interactablesRef = useRef<InteractableIndex | null>(null);
+    const interactStateRef = useRef<Record<string, InteractState>>({});
+    const seatOfPeerRef = useRef<Record<string, string>>({});
+    const promptTargetRef = useRef<Interactable | null>(null);
+    const promptKeyRef = useRef("");
+    const [interactPrompt, setInteractPrompt] = useState<{ label: string; standUp: boolean } | null>(null);
+    const [openPanel, setOpenPanel] = useState<Interactable | null>(null);
+
+    useEffect(() => {
+        if (!openPanel) return;
+        const onKey = (e: KeyboardEvent) => { if (e.key === "Escape") setOpenPanel(null); };
+        window.addEventListener("keydown", onKey);
+        return () => window.removeEventListener("keydown", onKey);
+    }, [openPanel]);
+
+    const resetInteractables = () => {
+        interactablesRef.current = collectInteractables();
+        interactStateRef.current = {};
+        seatOfPeerRef.current = {};
+        promptTargetRef.current = null;
+        promptKeyRef.current = "";
+        setInteractPrompt(null);
+        setOpenPanel(null);
     };
-    const sendDoorSnapshotTo = (peerId: string) => {
-        const conn = connsRef.current.get(peerId);
-        if (!conn || !conn.open) return;
-        for (const key of doorSetRef.current) {
-            const [cStr, rStr] = key.split(",");
-            const c = Number(cStr), r = Number(rStr);
-            const open = isDoorOpen(c, r);
-            const msg: Msg = { t: "door", col: c, row: r, open, silent: true };
-            try { conn.send(msg); } catch { }
+
+    const setSeatOccupant = (id: string, occupant: string | null) => {
+        const st = (interactStateRef.current[id] ||= {});
+        const prev = st.occupant ?? null;
+        if (prev && seatOfPeerRef.current[prev] === id) delete seatOfPeerRef.current[prev];
+        if (occupant) {
+            // one seat per peer
+            const old = seatOfPeerRef.current[occupant];
+            if (old && old !== id) interactStateRef.current[old].occupant = null;
+            seatOfPeerRef.current[occupant] = id;
         }
+        st.occupant = occupant;
+    };
+
+    const freeSeatOf = (peerId: string) => {
+        const id = seatOfPeerRef.current[peerId];
+        if (id) setSeatOccupant(id, null);
+    };
+
+    const setTrigger = (it: Interactable, on: boolean) => {
+        (interactStateRef.current[it.id] ||= {}).on = on;
+        for (const cell of setTriggerTiles(it, on)) worldRef.current?.invalidateTile(cell.col, cell.row);
+    };
+
+    const broadcastInteract = (id: string) => {
+        broadcastMsg({ t: "interact", id, occupant: interactStateRef.current[id]?.occupant ?? null });
+    };
+
+    const sendInteractSnapshotTo = (peerId: string) => {
+        for (const [id, st] of Object.entries(interactStateRef.current)) {
+            if (st.occupant) sendMsg(peerId, { t: "interact", id, occupant: st.occupant, silent: true });
+        }
+    };
+
+    const standUp = (announce = true) => {
+        const id = seatOfPeerRef.current[myPeerId];
+        if (!id) return;
+        setSeatOccupant(id, null);
+        if (announce) broadcastInteract(id);
+    };
+
+    /** Remote (or snapshot) seat claim */
+    const applySeat = (id: string, next: string | null, from: string) => {
+        const it = interactablesRef.current?.byId.get(id);
+        if (it?.kind !== "sit") return;
+
+        const cur = interactStateRef.current[id]?.occupant ?? null;
+        if (next === cur) return;
+        if (next === null) {
+            // only whoever sits there can free a seat
+            if (cur === from) setSeatOccupant(id, null);
+            return;
+        }
+        if (cur === null) { setSeatOccupant(id, next); return; }
+
+        // two peers sat down at once: lower peer id keeps it, same answer everywhere
+        if (next < cur) {
+            if (cur === myPeerId) standUp(false);
+            setSeatOccupant(id, next);
+        } else if (cur === myPeerId) {
+            broadcastInteract(id);
+        }
+    };
+
+    const sitOn = (it: Interactable) => {
+        const occupant = interactStateRef.current[it.id]?.occupant;
+        if (occupant && occupant !== myPeerId) return false;
+        walkRef.current = null;
+        const cell = seatCell(it, centerTileOf(meRef.current.x, meRef.current.y));
+        const inset = Math.floor((TILE - PLAYER) / 2);
+        meRef.current = { x: cell.col * TILE + inset, y: cell.row * TILE + inset };
+        if (it.face) faceDirRef.current[myPeerId] = it.face === "left" ? -1 : 1;
+        setSeatOccupant(it.id, myPeerId);
+        broadcastInteract(it.id);
+        broadcastPos();
+        return true;
+    };
+
+    const interactWith = (it: Interactable) => {
+        if (it.kind === "sit") {
+            sitOn(it);
+        } else if (it.kind === "open-panel") {
+            setOpenPanel(it);
+        } else {
+            worldState.set(`${TRIGGER_STATE_PREFIX}${it.id}`, !interactStateRef.current[it.id]?.on);
+        }
+    };
+
+    /** E key / prompt click */
+    const interactNow = () => {
+        if (seatOfPeerRef.current[myPeerId]) { standUp(); return; }
+        const it = promptTargetRef.current;
+        if (it) interactWith(it);
+    };
+
+    const updateInteractPrompt = () => {
+        const ia = interactablesRef.current;
+        if (!ia) return;
+        const seatedAt = seatOfPeerRef.current[myPeerId];
+        let target: Interactable | null = null;
+        if (!seatedAt) {
+            const { col, row } = centerTileOf(meRef.current.x, meRef.current.y);
+            target = ia.near(col, row);
+            const occupant = target ? interactStateRef.current[target.id]?.occupant : null;
+            if (target?.kind === "sit" && occupant && occupant !== myPeerId) target = null;
+        }
+        promptTargetRef.current = target;
+
+        const key = seatedAt ? `seated:${seatedAt}` : target?.id ?? "";
+        if (key === promptKeyRef.current) return;
+        promptKeyRef.current = key;
+        setInteractPrompt(
+            seatedAt ? { label: "Stand up", standUp: true }
+                : target ? { label: interactionLabel(target), standUp: false }
+                    : null
+        );
     };
 
     /** ===== LOADING overlay progress ===== */
@@ -1555,7 +1478,6 @@ const Room: React.FC = () => {
     };
 
     /** ===== INIT + join backend ===== */
-    const dialedPosRef = useRef<Set<string>>(new Set());
 
     useEffect(() => {
         if (!roomId) { navigate("/dashboard", { replace: true }); return; }
@@ -1581,7 +1503,7 @@ const Room: React.FC = () => {
             return;
         }
 
-        if (creatingRef.current || peerRef.current || closingRef.current) return;
+        if (creatingRef.current || sessionRef.current || closingRef.current) return;
 
         creatingRef.current = true;
         let cancelled = false;
@@ -1597,18 +1519,24 @@ const Room: React.FC = () => {
 
         (async () => {
             try {
-                const jr = await joinRoom(roomId);
-                if (!("Ok" in jr)) { return; }
+                if (!(await join())) return;
                 if (cancelled) return;
-                joinedRef.current = true;
                 markDone("join");
+                // history comes sealed: open it with the room key in hand
+                void startChatKeys()
+                    .catch((e) => log(`Chat keys: ${String((e as any)?.message || e)}`))
+                    .finally(() => { void loadOlderChat(); });
                 setStatus("Preparing the stage...");
 
                 const room = await getRoom(roomId);
+                if (cancelled) return;
+                try { await loadRoomWorld(room); } catch { worldRef.current = null; }
+                setIsHost(!!room && principalToText(room.host) === myPrincipalTxt);
+
                 const principals = (room?.participants || []).map(principalToText);
-                let targetsPeerIds = principals
+                let targetsPeerIds = firstTargets(principals
                     .filter((pt) => pt && pt !== myPrincipalTxt)
-                    .map((pt) => peerIdForPrincipal(roomId, pt));
+                    .map((pt) => peerIdForPrincipal(roomId, pt)));
 
                 if (targetsPeerIds.length === 0) targetsPeerIds = [myPeerId];
 
@@ -1616,14 +1544,11 @@ const Room: React.FC = () => {
 
                 if (cancelled) return;
 
-                const peer = await createPeerWithRetry(myPeerId, 4);
-                if (!peer) {
-                    try { await leaveRoom(roomId); } catch { }
-                    joinedRef.current = false;
+                if (!(await connect(roomWireHandlers))) {
+                    await leave();
                     return;
                 }
-                if (cancelled) { await destroyPeerCompletely(peer); return; }
-                peerRef.current = peer;
+                if (cancelled) { await disconnect(); return; }
                 markDone("peerOpen");
                 setStatus("Almost there...");
 
@@ -1633,58 +1558,13 @@ const Room: React.FC = () => {
 
                 ensureSelfInRoster();
 
-                for (const rid of targetsPeerIds) {
-                    if (rid === myPeerId) continue;
-                    if (connsRef.current.has(rid)) continue;
-
-                    const dc = peer.connect(rid, { label: "pos", reliable: true, serialization: "json" });
-                    dialedPosRef.current.add(rid);
-                    hookGameConn(rid, dc);
-
-                    const chat = peer.connect(rid, { label: "chat", reliable: true, serialization: "json" });
-                    hookChatConn(rid, chat);
-                }
-
-                const onConnection = (conn: DataConnection) => {
-                    const remotePeerId = conn.peer;
-                    if (conn.label === "pos") {
-                        rosterRef.current.set(remotePeerId, principalFromPeerId(roomId, remotePeerId));
-                        refreshRtcUI();
-                        hookGameConn(remotePeerId, conn);
-                        return;
-                    }
-                    if (conn.label === "chat") {
-                        hookChatConn(remotePeerId, conn);
-                        return;
-                    }
-                    hookGameConn(remotePeerId, conn);
-                };
-                const onDisconnected = () => {
-                    if (closingRef.current) return;
-                    try { peer.reconnect(); } catch { }
-                };
-                const onClose = () => log("Peer closed");
-                const onError = (err: any) => log(`Peer error: ${String(err?.message || err)}`);
-                const onCall = (call: MediaConnection) => {
-                    const rid = call.peer;
-                    rosterRef.current.set(rid, principalFromPeerId(roomId, rid));
-                    refreshRtcUI();
-                    void resolveRemoteProfile(rid);
-                    answerMediaCall(rid, call);
-                };
-
-                handlersRef.current = { onConnection, onDisconnected, onClose, onError, onCall };
-                peer.on("connection", onConnection);
-                peer.on("disconnected", onDisconnected);
-                peer.on("close", onClose);
-                peer.on("error", onError);
-                peer.on("call", onCall);
+                for (const rid of targetsPeerIds) dialPeer(rid);
             } finally {
                 creatingRef.current = false;
             }
         })();
 
-        const onPageHide = () => { void gracefulLeave(); };
+        const onPageHide = () => { saveResumePoint(); void gracefulLeave(); };
         const onBeforeUnload = () => { void gracefulLeave(); };
         window.addEventListener("pagehide", onPageHide);
         window.addEventListener("beforeunload", onBeforeUnload);
@@ -1697,85 +1577,27 @@ const Room: React.FC = () => {
         };
     }, [roomId, isAuthenticated, principalId, authLoading, myPeerId, nameReady, needsMicGate]);
 
-    /** Destroy Peer and wait for close */
-    const destroyPeerCompletely = (peer: Peer | null, timeoutMs = 1500) =>
-        new Promise<void>((resolve) => {
-            if (!peer) return resolve();
-            let done = false;
-            const finish = () => { if (!done) { done = true; resolve(); } };
-
-            try {
-                const h = handlersRef.current;
-                if (h.onConnection) peer.off("connection", h.onConnection);
-                if (h.onDisconnected) peer.off("disconnected", h.onDisconnected);
-                if (h.onClose) peer.off("close", h.onClose);
-                if (h.onError) peer.off("error", h.onError);
-                if (h.onCall) peer.off("call", h.onCall);
-                handlersRef.current = {};
-            } catch { }
-
-            const to = setTimeout(finish, timeoutMs);
-            const onClose = () => { clearTimeout(to); finish(); };
-            const onDisc = () => { clearTimeout(to); finish(); };
-            const onErr = () => { clearTimeout(to); finish(); };
-
-            try {
-                peer.once("close", onClose);
-                peer.once("disconnected", onDisc);
-                peer.once("error", onErr);
-                try { peer.disconnect(); } catch { }
-                try { peer.destroy(); } catch { }
-            } catch {
-                clearTimeout(to);
-                finish();
-            }
-        });
-
     /** LEAVE */
     const gracefulLeave = async () => {
         if (closingRef.current) return;
         closingRef.current = true;
         try {
-            if (joinedRef.current) { try { await leaveRoom(roomId); } catch { } }
-            joinedRef.current = false;
+            await leave();
 
-            for (const [, c] of connsRef.current) {
-                try { c.send({ t: "bye", peerId: myPeerId } as Msg); } catch { }
-                try { c.close(); } catch { }
-            }
-            for (const [, c] of chatConnsRef.current) { try { c.close(); } catch { } }
-            connsRef.current.clear(); chatConnsRef.current.clear();
+            sessionRef.current?.broadcast(GAME_LABEL, { t: "bye", peerId: myPeerId } as Msg);
 
-            for (const [, mc] of mediaConnsRef.current) { try { mc.close(); } catch { } }
-            mediaConnsRef.current.clear();
-
-            for (const k of Object.keys(remoteAudiosRef.current)) {
-                const el = remoteAudiosRef.current[k];
-                try { el?.pause(); if (el) (el as any).srcObject = null; el?.remove(); } catch { }
-                remoteAudiosRef.current[k] = null;
-            }
-            closeMic();
-
-            try { localSourceRef.current?.disconnect(); } catch { }
-            localSourceRef.current = null;
-            localAnalyserRef.current = null;
-
-            for (const k of Object.keys(remoteSourceRef.current)) {
-                try { remoteSourceRef.current[k]?.disconnect(); } catch { }
-                remoteSourceRef.current[k] = null;
-                remoteAnalyserRef.current[k] = null;
-            }
+            stopMedia();
 
             othersRef.current = {};
             rosterRef.current.clear();
+            clearMembers();
             refreshRtcUI();
 
-            const p = peerRef.current;
-            await destroyPeerCompletely(p);
-            peerRef.current = null;
+            await disconnect();
 
-            setChatLog([]);
-            chatBubbleRef.current = {};
+            stopChatKeys();
+            stopFiles();
+            resetChat();
 
             await new Promise((r) => setTimeout(r, 250));
         } finally {
@@ -1784,159 +1606,153 @@ const Room: React.FC = () => {
         }
     };
 
-    /** Helper: create Peer with a small retry if "ID is taken" */
-    const createPeerWithRetry = async (id: string, tries = 4): Promise<Peer | null> => {
-        for (let i = 0; i < tries; i++) {
-            const peer = new Peer(id, { debug: 1, config: rtcConfig });
-            const opened = await new Promise<boolean>((resolve) => {
-                const onOpen = () => { cleanup(); resolve(true); };
-                const onError = (err: any) => {
-                    const msg = String(err?.message || err);
-                    cleanup();
-                    if (/unavailable-id|is taken|taken/i.test(msg)) resolve(false);
-                    else { resolve(false); }
-                };
-                const cleanup = () => { peer.off("open", onOpen); peer.off("error", onError); };
-                peer.once("open", onOpen);
-                peer.once("error", onError);
-            });
-            if (opened) return peer;
-            try { await destroyPeerCompletely(peer); } catch { }
-            await new Promise((r) => setTimeout(r, 400 + i * 300));
+    /** ===== Connection diagnostics (hooks/useRoomDiagnostics.ts) ===== */
+    const { diagRef, diagView, exportDiagnostics } = useRoomDiagnostics({
+        roomId,
+        myPeerId,
+        sessionRef,
+        mediaConnsRef,
+        relayPeer,
+        micOn,
+        logs,
+        displayNameFor,
+        show: showDiagnostics,
+    });
+    useEffect(() => {
+        showDiagnosticsRef.current = showDiagnostics;
+    }, [showDiagnostics]);
+
+    /** ===== Session wiring (the protocol itself: hooks/useRoomWire.ts) ===== */
+    /** Game DC open and our hello sent: state and media follow theirs */
+    const onGameOpen = (remotePeerId: string, conn: Channel) => {
+        noteMember(remotePeerId);
+        scheduleKeySync();
+        if (!rosterRef.current.has(remotePeerId)) {
+            rosterRef.current.set(remotePeerId, principalFromPeerId(roomId, remotePeerId));
+            refreshRtcUI();
         }
-        return null;
-    };
+        void resolveRemoteProfile(remotePeerId);
 
-    /** hook Game DC */
-    const hookGameConn = (remotePeerId: string, conn: DataConnection) => {
-        connsRef.current.set(remotePeerId, conn);
+        markPeerConnected(remotePeerId);
 
-        conn.on("open", () => {
-            if (!rosterRef.current.has(remotePeerId)) {
-                rosterRef.current.set(remotePeerId, principalFromPeerId(roomId, remotePeerId));
-                refreshRtcUI();
-            }
-            void resolveRemoteProfile(remotePeerId);
+        sendPosOn(conn);
 
-            markPeerConnected(remotePeerId);
-
-            try { conn.send({ t: "hello", peerId: myPeerId, principal: myPrincipalTxt } as Msg); } catch { }
+        try {
+            const slots = playerOutfitSlotsRef.current[myPeerId] || DEFAULT_OUTFIT;
+            const meta: MetaMsg = { t: "meta", outfit: slots };
+            const labelNow = myLabelRef.current;
+            if (labelNow) {
+                meta.label = labelNow;
+            }
+            conn.send(meta);
+        } catch { }
 
-            try {
-                const movingNow = !!(keysRef.current.left || keysRef.current.right || keysRef.current.up || keysRef.current.down);
-                const face = faceDirRef.current[myPeerId] ?? 1;
-                conn.send({ t: "pos", x: meRef.current.x, y: meRef.current.y, moving: movingNow, face } as Msg);
-            } catch { }
+        try { conn.send({ t: "media-refresh", why: "manual" } as Msg); } catch { }
 
+        setTimeout(() => {
             try {
-                const slots = playerOutfitSlotsRef.current[myPeerId] || DEFAULT_OUTFIT;
-                const meta: MetaMsg = { t: "meta", outfit: slots };
-                const labelNow = myLabelRef.current;
-                if (labelNow) {
-                    meta.label = labelNow;
-                }
-                conn.send(meta);
-            } catch { }
-
-            try { conn.send({ t: "media-refresh", why: "manual" } as Msg); } catch { }
-
-            setTimeout(() => {
-                try {
-                    const slots = playerOutfitSlotsRef.current[myPeerId] || DEFAULT_OUTFIT;
-                    const meta: MetaMsg = { t: "meta", outfit: slots, label: myLabelRef.current || undefined };
-                    conn.send(meta);
-                } catch { }
-            }, 500);
-
-            if (conn.label === "pos" && dialedPosRef.current.has(remotePeerId)) {
-                try { conn.send({ t: "door-sync-req" } as Msg); } catch { }
-            }
+                const slots = playerOutfitSlotsRef.current[myPeerId] || DEFAULT_OUTFIT;
+                const meta: MetaMsg = { t: "meta", outfit: slots, label: myLabelRef.current || undefined };
+                conn.send(meta);
+            } catch { }
+        }, 500);
+    };
 
-            const peer = peerRef.current;
-            if (peer && !chatConnsRef.current.has(remotePeerId)) {
-                const dcChat = peer.connect(remotePeerId, { label: "chat", reliable: true, serialization: "json" });
-                hookChatConn(remotePeerId, dcChat);
-            }
+    /** Game DC gone (and not replaced by a newer one) */
+    const onGameClose = (remotePeerId: string) => {
+        scheduleKeySync();
+        dropPosSync(remotePeerId);
+        if (noteClosed(remotePeerId)) {
+            delete othersRef.current[remotePeerId];
+            freeSeatOf(remotePeerId);
+            rosterRef.current.delete(remotePeerId);
+        }
+        refreshRtcUI();
+        dropPeerMedia(remotePeerId);
+    };
 
-            startMediaCall(remotePeerId);
-        });
+    /** What each message means to the world; chat and media bring their own */
+    const roomMsgHandlers: RoomMsgHandlers = {
+        ...chatHandlers,
+        ...mediaHandlers,
+        ...posHandlers,
+        ...interestHandlers,
+        hello: (remotePeerId, m, conn) => {
+            rosterRef.current.set(remotePeerId, m.principal || principalFromPeerId(roomId, remotePeerId));
+            const proto = peerProtoRef.current.get(remotePeerId) ?? V1_PROTOCOL;
+            refreshRtcUI();
 
-        conn.on("data", (raw) => {
-            const m = raw as Msg;
-            if (!m || typeof m !== "object") return;
+            // the dialer pulls shared state once both sides know what the other understands
+            greetPos(remotePeerId, conn, proto.caps.has("binary-pos"));
+            if (proto.caps.has("gossip")) greetGossip(remotePeerId);
+            greetPeer(remotePeerId);
 
-            if (m.t === "hello") {
-                rosterRef.current.set(remotePeerId, (m as any).principal || principalFromPeerId(roomId, remotePeerId));
-                refreshRtcUI();
-            } else if (m.t === "meta") {
-                if (typeof m.label === "string") {
-                    labelCacheRef.current[remotePeerId] = m.label.trim().slice(0, 24);
-                }
-                if (Array.isArray((m as any).outfit)) {
-                    setOutfitSlotsFor(remotePeerId, (m as any).outfit);
-                }
-                setLabelsVersion(v => v + 1);
-                refreshRtcUI();
+            if (sessionRef.current?.dialedByUs(remotePeerId)) {
+                if (proto.caps.has("world-state")) worldState.requestSync(remotePeerId);
+                else sendMsg(remotePeerId, { t: "door-sync-req" });
+                sendMsg(remotePeerId, { t: "interact-sync-req" });
             }
-            else if (m.t === "pos") {
-                othersRef.current[remotePeerId] = { x: m.x, y: m.y };
-                if (m.face === 1 || m.face === -1) faceDirRef.current[remotePeerId] = m.face;
-                if (typeof m.moving === "boolean") remoteMovingRef.current[remotePeerId] = m.moving;
-                lastPosAtRef.current[remotePeerId] = performance.now();
-            } else if (m.t === "bye") {
-                delete othersRef.current[remotePeerId];
-                connsRef.current.get(remotePeerId)?.close();
-                rosterRef.current.delete(remotePeerId);
-                refreshRtcUI();
-            } else if (m.t === "chat") {
-                handleInboundChat(remotePeerId, m);
-            } else if (m.t === "media-refresh") {
-                if (!mediaConnsRef.current.has(remotePeerId)) {
-                    startMediaCall(remotePeerId);
-                }
-            } else if (m.t === "door") {
-                void setDoor(m.col, m.row, m.open, { silent: !!m.silent });
-            } else if (m.t === "door-sync-req") {
-                sendDoorSnapshotTo(remotePeerId);
-            } else if (m.t === "spin") {
-                const dur = typeof m.dur === "number" ? m.dur : ARM_SPIN_MS;
-                triggerArmSpin(remotePeerId, dur);
+        },
+        meta: (remotePeerId, m) => {
+            if (typeof m.label === "string") {
+                labelCacheRef.current[remotePeerId] = m.label.trim().slice(0, 24);
             }
-        });
-
-        conn.on("close", () => {
+            if (Array.isArray(m.outfit)) {
+                setOutfitSlotsFor(remotePeerId, m.outfit);
+            }
+            setLabelsVersion(v => v + 1);
+            refreshRtcUI();
+        },
+        bye: (remotePeerId, _m, conn) => {
+            noteBye(remotePeerId);
             delete othersRef.current[remotePeerId];
-            connsRef.current.delete(remotePeerId);
+            dropPosSync(remotePeerId);
+            freeSeatOf(remotePeerId);
+            conn.close();
             rosterRef.current.delete(remotePeerId);
-            dialedPosRef.current.delete(remotePeerId);
             refreshRtcUI();
-
-            try { mediaConnsRef.current.get(remotePeerId)?.close(); } catch { }
-            mediaConnsRef.current.delete(remotePeerId);
-            const el = remoteAudiosRef.current[remotePeerId];
-            try { el?.pause(); if (el) (el as any).srcObject = null; el?.remove(); } catch { }
-            remoteAudiosRef.current[remotePeerId] = null;
-
-            try { remoteSourceRef.current[remotePeerId]?.disconnect(); } catch { }
-            remoteSourceRef.current[remotePeerId] = null;
-            remoteAnalyserRef.current[remotePeerId] = null;
-            remoteLevelRef.current[remotePeerId] = 0;
-        });
-
-        conn.on("error", (err: any) => {
-            log(`DC(game) error ${pretty(remotePeerId)}: ${String(err?.message || err)}`);
-        });
+        },
+        state: (remotePeerId, m) => worldState.receive(remotePeerId, m),
+        "state-sync-req": (remotePeerId, m) => worldState.receive(remotePeerId, m),
+        "state-digest": (remotePeerId, m) => worldState.receive(remotePeerId, m),
+        door: (_remotePeerId, m) => receiveLegacyDoor(m.col, m.row, m.open, !!m.silent),
+        "door-sync-req": (remotePeerId) => sendLegacyDoorSnapshotTo(remotePeerId),
+        interact: (remotePeerId, m) => {
+            // peers only claim seats for themselves; snapshots relay everyone's
+            if (!m.silent && m.occupant && m.occupant !== remotePeerId) return;
+            applySeat(m.id, m.occupant ?? null, remotePeerId);
+        },
+        "interact-sync-req": (remotePeerId) => sendInteractSnapshotTo(remotePeerId),
+        spin: (remotePeerId, m) => {
+            const dur = typeof m.dur === "number" ? m.dur : ARM_SPIN_MS;
+            triggerArmSpin(remotePeerId, dur);
+        },
     };
 
-    /** hook Chat DC */
-    const hookChatConn = (remotePeerId: string, conn: DataConnection) => {
-        chatConnsRef.current.set(remotePeerId, conn);
-        conn.on("open", () => log(`DC(chat) open ${pretty(remotePeerId)}`));
-        conn.on("data", (raw) => {
-            try { const m = raw as Msg; if (m?.t === "chat") handleInboundChat(remotePeerId, m); } catch { }
-        });
-        conn.on("close", () => { log(`DC(chat) close ${pretty(remotePeerId)}`); chatConnsRef.current.delete(remotePeerId); });
-        conn.on("error", (err: any) => log(`DC(chat) error ${pretty(remotePeerId)}: ${String(err?.message || err)}`));
+    /** Room handlers for a fresh session (connect) */
+    const roomWireHandlers: RoomWireHandlers = {
+        open: onGameOpen,
+        close: onGameClose,
+        msg: roomMsgHandlers,
+        channelOpen: (pid, label) => {
+            if (label === CHAT_LABEL) flushDmOutbox(pid);
+            if (label === FILE_LABEL) fileOpened(pid);
+        },
+        fileData,
+        call: (call) => {
+            const rid = call.peer;
+            noteMember(rid);
+            rosterRef.current.set(rid, principalFromPeerId(roomId, rid));
+            refreshRtcUI();
+            void resolveRemoteProfile(rid);
+            answerMediaCall(rid, call);
+        },
+        wired: startFiles,
+        resumed: () => {
+            void rejoinIfDropped();
+            broadcastOutfit();
+            broadcastLabel();
+        },
     };
 
 
@@ -1973,13 +1789,31 @@ const Room: React.FC = () => {
         };
         cvs.addEventListener("wheel", onWheel, { passive: false });
 
-        // pointer gesture -> spin
+        // click own avatar -> spin, anywhere else -> walk there
         const onDown = (e: PointerEvent) => {
             if (e.button !== 0) return;
             ensureAudioCtx()?.resume().catch(() => { });
+
+            const rect = cvs.getBoundingClientRect();
+            const v = viewRef.current;
+            const wx = v.camX + (e.clientX - rect.left - v.padX) / v.z;
+            const wy = v.camY + (e.clientY - rect.top - v.padY) / v.z;
+            const me = meRef.current;
+            const hit = (p: PlayerPos) => wx >= p.x && wx < p.x + PLAYER && wy >= p.y && wy < p.y + PLAYER;
+            const onSelf = hit(me);
+            const clicked = onSelf ? undefined : Object.keys(othersRef.current).find((pid) => hit(othersRef.current[pid]));
+            if (clicked) {
+                openDm(clicked);
+                return;
+            }
+            if (!onSelf) {
+                walkTo({ col: Math.floor(wx / TILE), row: Math.floor(wy / TILE) });
+                return;
+            }
+
             triggerArmSpin(myPeerId);
             const spin: SpinMsg = { t: "spin", dur: ARM_SPIN_MS };
-            for (const [, c] of connsRef.current) if (c.open) { try { c.send(spin); } catch { } }
+            broadcastMsg(spin);
         };
         cvs.addEventListener("pointerdown", onDown);
 
@@ -2006,6 +1840,61 @@ const Room: React.FC = () => {
             return { phase: st.phase, amp: st.amp };
         };
 
+        const followPath = (dt: number) => {
+            let w = walkRef.current;
+            if (!w) return;
+            const now = performance.now();
+
+            if (w.peerId) {
+                const p = othersRef.current[w.peerId];
+                if (!p) { walkRef.current = null; return; }
+                const goal = centerTileOf(p.x, p.y);
+                const moved = goal.col !== w.goal.col || goal.row !== w.goal.row;
+                if (moved && now - w.plannedAt > WALK_REPLAN_MS) {
+                    if (!walkTo(goal, { near: w.near, peerId: w.peerId })) return;
+                    w = walkRef.current!;
+                }
+            }
+
+            const me = meRef.current;
+            let budget = SPEED * dt;
+            while (budget > 1e-3 && w.steps.length) {
+                // aim the hitbox centre at the centre of the next tile
+                const next = w.steps[0];
+                const tx = next.col * TILE + TILE / 2 - HITBOX_LEFT - HITBOX_W / 2;
+                const ty = next.row * TILE + TILE / 2 - HITBOX_TOP - HITBOX_H / 2;
+                const ddx = tx - me.x;
+                const ddy = ty - me.y;
+                const dist = Math.hypot(ddx, ddy);
+                if (dist < 0.5) { w.steps.shift(); continue; }
+
+                const len = Math.min(budget, dist);
+                const solved = resolveMove(
+                    me.x + HITBOX_LEFT,
+                    me.y + HITBOX_TOP,
+                    HITBOX_W, HITBOX_H,
+                    (ddx / dist) * len, (ddy / dist) * len
+                );
+                const progressed = Math.hypot(solved.x - HITBOX_LEFT - me.x, solved.y - HITBOX_TOP - me.y);
+                me.x = solved.x - HITBOX_LEFT;
+                me.y = solved.y - HITBOX_TOP;
+                if (Math.abs(ddx) > 0.5) faceDirRef.current[myPeerId] = ddx < 0 ? -1 : 1;
+
+                budget -= len;
+                if (progressed < len * 0.5) break; // sliding along a corner; try again next frame
+            }
+
+            if (Math.hypot(me.x - w.lastX, me.y - w.lastY) > 1) {
+                w.lastX = me.x;
+                w.lastY = me.y;
+                w.lastProgressAt = now;
+            } else if (now - w.lastProgressAt > WALK_STUCK_MS) {
+                walkRef.current = null;
+                return;
+            }
+            if (!w.steps.length) walkRef.current = null;
+        };
+
         const step = (t: number) => {
             let dt = (t - lastRef.current) / 1000;
             if (dt > 0.05) dt = 0.05;
@@ -2020,6 +1909,9 @@ const Room: React.FC = () => {
             if (k.down) vy += 1;
 
             if (vx || vy) {
+                // keyboard/joystick always wins over click-to-move
+                walkRef.current = null;
+                standUp();
                 const len = Math.hypot(vx, vy) || 1;
                 vx /= len; vy /= len;
 
@@ -2035,18 +1927,17 @@ const Room: React.FC = () => {
 
                 meRef.current.x = solved.x - HITBOX_LEFT;
                 meRef.current.y = solved.y - HITBOX_TOP;
+            } else {
+                followPath(dt);
             }
+            updateInteractPrompt();
 
             // Face direction (left/right)
             if (k.left && !k.right) faceDirRef.current[myPeerId] = -1;
             else if (k.right && !k.left) faceDirRef.current[myPeerId] = 1;
 
-            // broadcast pos @15Hz
-            sendAccRef.current += dt;
-            if (sendAccRef.current >= 1 / 15) {
-                sendAccRef.current = 0;
-                broadcastPos();
-            }
+            sendPosUpdate();
+            sampleRemotePositions(performance.now());
 
             /** ===== SPEAKING/VAD INDICATOR ===== */
             const computeLevelNow = () => {
@@ -2093,6 +1984,8 @@ const Room: React.FC = () => {
             const z = zoomActualRef.current;
 
             // World size after zoom (in screen px)
+            const CANVAS_W = worldPxW();
+            const CANVAS_H = worldPxH();
             const worldWpx = CANVAS_W * z;
             const worldHpx = CANVAS_H * z;
 
@@ -2118,6 +2011,7 @@ const Room: React.FC = () => {
             const destH = Math.floor(vpH * z);
             const dstX = Math.floor(padX);
             const dstY = Math.floor(padY);
+            viewRef.current = { camX, camY, padX, padY, z };
 
             // === DRAW ===
             ctx.setTransform(DPR, 0, 0, DPR, 0, 0);
@@ -2128,12 +2022,24 @@ const Room: React.FC = () => {
 
             // Floor
             if (world) {
-                ctx.drawImage(world.floor, camX, camY, vpW, vpH, dstX, dstY, destW, destH);
+                world.drawLayer(ctx, "floor", camX, camY, vpW, vpH, dstX, dstY, destW, destH);
             } else {
                 ctx.fillStyle = "#0b1220";
                 ctx.fillRect(0, 0, viewW, viewH);
             }
 
+            // Click-to-move destination
+            const walk = walkRef.current;
+            if (walk && !walk.peerId) {
+                const last = walk.steps[walk.steps.length - 1] ?? walk.goal;
+                const mx = Math.floor(padX + (last.col * TILE - camX) * z);
+                const my = Math.floor(padY + (last.row * TILE - camY) * z);
+                const ms = Math.floor(TILE * z);
+                ctx.strokeStyle = "rgba(163,230,53,0.7)";
+                ctx.lineWidth = 2;
+                ctx.strokeRect(mx + 1, my + 1, ms - 2, ms - 2);
+            }
+
             // Build render list
             type Renderable = {
                 pid: string;
@@ -2149,16 +2055,13 @@ const Room: React.FC = () => {
 
             const parts = partsRef.current;
             const spriteScale = Math.ceil(PLAYER * z) / PLAYER;
-            const NET_LAG_GRACE_MS = 220;
 
             // others
             for (const [rid, p] of Object.entries(othersRef.current)) {
                 const sx = Math.floor(padX + (p.x - camX) * z);
                 const sy = Math.floor(padY + (p.y - camY) * z);
 
-                const movingHint =
-                    remoteMovingRef.current[rid] === true &&
-                    (nowMs - (lastPosAtRef.current[rid] || 0) < NET_LAG_GRACE_MS);
+                const movingHint = isRemoteMoving(rid, nowMs);
 
                 const anim = (window as any).noopAnim
                     ? { phase: 0, amp: 0 }
@@ -2176,7 +2079,7 @@ const Room: React.FC = () => {
                     flipX,
                     label: displayNameFor(rid),
                     face: { speaking, talkBlink: blink },
-                    overrides: getArmSpinOverride(rid, flipX, nowMs),
+                    overrides: getPoseOverride(rid, flipX, nowMs),
                 });
             }
 
@@ -2186,7 +2089,7 @@ const Room: React.FC = () => {
                 const sx = Math.floor(padX + (p.x - camX) * z);
                 const sy = Math.floor(padY + (p.y - camY) * z);
 
-                const anim = updateAnimFor(myPeerId, p, dt, !!(k.left || k.right || k.up || k.down));
+                const anim = updateAnimFor(myPeerId, p, dt, isMovingNow());
                 const flipX = (faceDirRef.current[myPeerId] ?? 1) === -1;
                 const speaking = SPK(localLevelRef.current || 0) || nowMs < (chatTalkUntilRef.current[myPeerId] || 0);
                 const blink = speaking ? ((nowMs / 200) % 2 < 1 ? true : false) : !!talkBlinkRef.current[myPeerId];
@@ -2199,7 +2102,7 @@ const Room: React.FC = () => {
                     flipX,
                     label: myLabelRef.current,
                     face: { speaking, talkBlink: blink },
-                    overrides: getArmSpinOverride(myPeerId, flipX, nowMs),
+                    overrides: getPoseOverride(myPeerId, flipX, nowMs),
                 });
             }
 
@@ -2215,9 +2118,9 @@ const Room: React.FC = () => {
 
             // WORLD SHADOW/WALL/OBJECT
             if (world) {
-                ctx.drawImage(world.shadow, camX, camY, vpW, vpH, dstX, dstY, destW, destH);
-                ctx.drawImage(world.wall, camX, camY, vpW, vpH, dstX, dstY, destW, destH);
-                ctx.drawImage(world.object, camX, camY, vpW, vpH, dstX, dstY, destW, destH);
+                world.drawLayer(ctx, "shadow", camX, camY, vpW, vpH, dstX, dstY, destW, destH);
+                world.drawLayer(ctx, "wall", camX, camY, vpW, vpH, dstX, dstY, destW, destH);
+                world.drawLayer(ctx, "object", camX, camY, vpW, vpH, dstX, dstY, destW, destH);
             }
 
             // PLAYERS
@@ -2235,9 +2138,12 @@ const Room: React.FC = () => {
 
             // OVER layer
             if (world) {
-                ctx.drawImage(world.over, camX, camY, vpW, vpH, dstX, dstY, destW, destH);
+                world.drawLayer(ctx, "over", camX, camY, vpW, vpH, dstX, dstY, destW, destH);
             }
 
+            // camera bubbles ride above their avatars' labels
+            for (const r of renderList) placeVideoBubble(r.pid, r.sx + Math.ceil(PLAYER * r.scale) / 2, r.sy);
+
             // Labels and chat bubbles (scaled with zoom; pixel-snapped)
             ctx.font = LABEL_FONT;
             for (const r of renderList) {
@@ -2293,9 +2199,9 @@ const Room: React.FC = () => {
                     ctx.quadraticCurveTo(x, y, x + radius, y);
                     ctx.closePath();
 
-                    ctx.fillStyle = "rgba(17,24,39,0.85)";
+                    ctx.fillStyle = bubble.whisper ? "rgba(59,7,100,0.88)" : "rgba(17,24,39,0.85)";
                     ctx.fill();
-                    ctx.strokeStyle = "rgba(255,255,255,0.12)";
+                    ctx.strokeStyle = bubble.whisper ? "rgba(216,180,254,0.45)" : "rgba(255,255,255,0.12)";
                     ctx.lineWidth = 1;
                     ctx.stroke();
 
@@ -2309,6 +2215,25 @@ const Room: React.FC = () => {
                     }
                     ctx.restore();
                 }
+
+                // reactions rise from the avatar and fade
+                const floats = reactionFloatRef.current[r.pid];
+                if (floats?.length) {
+                    const live = floats.filter((f) => nowMs - f.at < REACTION_FLOAT_MS);
+                    if (live.length !== floats.length) reactionFloatRef.current[r.pid] = live;
+                    ctx.save();
+                    ctx.font = REACTION_FONT;
+                    ctx.textAlign = "center";
+                    ctx.textBaseline = "middle";
+                    live.forEach((f, i) => {
+                        const t = (nowMs - f.at) / REACTION_FLOAT_MS;
+                        ctx.globalAlpha = Math.min(1, (1 - t) * 2);
+                        const x = r.sx + Math.ceil(PLAYER * r.scale) / 2 + (i - (live.length - 1) / 2) * 16;
+                        const y = r.sy + Math.ceil(PLAYER * r.scale) / 3 - t * 36;
+                        try { ctx.fillText(f.emoji, x, y); } catch { }
+                    });
+                    ctx.restore();
+                }
             }
 
             // Audio zone overlay (room/radius aware; matches letterbox)
@@ -2383,13 +2308,14 @@ const Room: React.FC = () => {
         const kd = (e: KeyboardEvent) => {
             if (isEditableTarget(e) || e.ctrlKey || e.metaKey || e.altKey) return;
             const k = e.key.toLowerCase();
+            walkRef.current = null;
 
             if (typingChatRef.current) {
                 if (
                     k === "w" || k === "a" || k === "s" || k === "d" ||
                     k === "arrowup" || k === "arrowdown" || k === "arrowleft" || k === "arrowright" ||
                     k === "=" || k === "+" || k === "-" || k === "_" ||
-                    k === "x" || k === "c"
+                    k === "x" || k === "c" || k === "e"
                 ) return;
             }
 
@@ -2411,6 +2337,8 @@ const Room: React.FC = () => {
                     closeOutfit(false);
                 } else if (showMicSettings) {
                     setShowMicSettings(false);
+                } else if (showDiagnosticsRef.current) {
+                    setShowDiagnostics(false);
                 } else if (showChat) {
                     setShowChat(false);
                 } else if (showSidebar) {
@@ -2429,13 +2357,16 @@ const Room: React.FC = () => {
                 const adj = findAdjacentDoor(tc, tr);
                 if (adj) {
                     const next = !adj.open;
-                    void setDoor(adj.col, adj.row, next);
-                    broadcastDoor(adj.col, adj.row, next);
+                    worldState.set(doorStateKey(adj.col, adj.row), next);
                     triggerArmSpin(myPeerId);
                     const spin: SpinMsg = { t: "spin", dur: ARM_SPIN_MS };
-                    for (const [, c] of connsRef.current) if (c.open) { try { c.send(spin); } catch { } }
+                    broadcastMsg(spin);
                 }
             }
+
+            if (k === "e" && !e.repeat) {
+                interactNow();
+            }
         };
 
         const ku = (e: KeyboardEvent) => {
@@ -2572,12 +2503,35 @@ const Room: React.FC = () => {
         const isSelf = pid === myPeerId;
 
         const badgeRef = useRef<HTMLSpanElement | null>(null);
+        const linkRef = useRef<HTMLSpanElement | null>(null);
+        const signalRef = useRef<HTMLButtonElement | null>(null);
         useEffect(() => {
             const id = setInterval(() => {
                 const el = badgeRef.current; if (!el) return;
                 const spk = !!speakingRef.current[pid];
                 el.style.opacity = spk ? "1" : "0";
                 el.style.visibility = spk ? "visible" : "hidden";
+
+                const diag = diagRef.current[pid];
+                const link = linkRef.current;
+                const type = diag?.pair?.linkType;
+                if (link) {
+                    link.style.display = type ? "" : "none";
+                    if (type && link.textContent !== LINK_LABELS[type].text) {
+                        link.textContent = LINK_LABELS[type].text;
+                        link.title = LINK_LABELS[type].title;
+                    }
+                }
+                const bars = signalRef.current;
+                if (bars) {
+                    const level = diag?.level ?? 0;
+                    bars.style.display = diag ? "" : "none";
+                    bars.title = diag ? signalTitle(diag) : "";
+                    Array.from(bars.children).forEach((b, i) => {
+                        (b as HTMLElement).style.opacity = i < level ? "1" : "0.25";
+                    });
+                    bars.dataset.level = String(level);
+                }
             }, 120);
             return () => clearInterval(id);
         }, [pid]);
@@ -2589,14 +2543,59 @@ const Room: React.FC = () => {
                 </div>
 
                 <div className="min-w-0 flex-1">
-                    <div className="text-sm text-white truncate">
-                        {isSelf ? `${name} (you)` : name}
-                    </div>
+                    {isSelf ? (
+                        <div className="text-sm text-white truncate">{`${name} (you)`}</div>
+                    ) : (
+                        <button
+                            type="button"
+                            onClick={() => openDm(pid)}
+                            className="block max-w-full text-left text-sm text-white truncate hover:text-purple-200 transition"
+                            title={`Message ${name || prettyId(pid)} privately`}
+                        >
+                            {name}
+                        </button>
+                    )}
                     <div className="text-[11px] text-slate-400 font-mono truncate">
                         @{uname || prettyId(principalFromPeerId(roomId, pid))}
                     </div>
                 </div>
 
+                {!isSelf && (
+                    <button
+                        type="button"
+                        onClick={() => walkToPeer(pid)}
+                        className="shrink-0 p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-white/10 transition"
+                        title={`Walk to ${name || prettyId(pid)}`}
+                        aria-label={`Walk to ${name || prettyId(pid)}`}
+                    >
+                        <IconWalkTo size={14} />
+                    </button>
+                )}
+
+                {!isSelf && (
+                    <span
+                        ref={linkRef}
+                        className="shrink-0 px-1.5 py-0.5 rounded text-[10px] font-mono text-slate-400 bg-white/5 border border-white/10"
+                        style={{ display: "none" }}
+                    />
+                )}
+
+                {!isSelf && (
+                    <button
+                        ref={signalRef}
+                        type="button"
+                        data-no-dismiss
+                        onClick={() => { setShowMicSettings(false); setShowDiagnostics(true); }}
+                        className="shrink-0 inline-flex items-end gap-[2px] h-3.5 px-0.5 text-lime-300"
+                        style={{ display: "none" }}
+                        aria-label={`Connection to ${name || prettyId(pid)}`}
+                    >
+                        {[4, 7, 10, 13].map((h) => (
+                            <span key={h} className="w-[3px] rounded-sm bg-current transition-opacity" style={{ height: h }} />
+                        ))}
+                    </button>
+                )}
+
                 <div className="ml-2">
                     <span
                         ref={badgeRef}
@@ -3115,6 +3114,91 @@ const Room: React.FC = () => {
                 onContextMenu={(e) => e.preventDefault()}
             />
 
+            {/* Camera bubbles (positioned by the render loop) */}
+            <div
+                ref={videoLayerRef}
+                className="absolute inset-0 overflow-hidden pointer-events-none z-[5]"
+                style={{ opacity: showLoader ? 0 : 1 }}
+            />
+
+            {/* Screen-share stage */}
+            {stageSharer && !showLoader && (stageHidden ? (
+                <button
+                    onClick={() => setStageHidden(false)}
+                    className="absolute top-4 left-1/2 -translate-x-1/2 z-[55] flex items-center gap-2 px-4 py-2 rounded-full border border-white/15 bg-slate-900/90 text-white text-sm backdrop-blur hover:bg-slate-800/90"
+                >
+                    <IconScreenShare className="w-4 h-4 text-lime-300" />
+                    <span>{screenSharers.length === 1 ? `${displayNameFor(stageSharer)} is sharing` : `${screenSharers.length} people sharing`} — Show</span>
+                </button>
+            ) : (
+                <div className="absolute top-4 left-1/2 -translate-x-1/2 z-[55] w-[min(92vw,960px)] rounded-2xl border border-white/15 bg-slate-900/90 backdrop-blur-xl shadow-2xl overflow-hidden">
+                    <div className="px-4 py-2 border-b border-white/10 flex items-center justify-between gap-3 text-white">
+                        <div className="flex items-center gap-2 min-w-0">
+                            <IconScreenShare className="w-4 h-4 text-lime-300 shrink-0" />
+                            <span className="font-medium truncate">{displayNameFor(stageSharer)} is sharing</span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            {screenSharers.length > 1 && screenSharers.map((pid) => (
+                                <button
+                                    key={pid}
+                                    onClick={() => setStagePeer(pid)}
+                                    className={`px-2 py-0.5 rounded-md text-xs ${pid === stageSharer ? "bg-lime-400/20 text-lime-200" : "text-slate-300 hover:text-white hover:bg-white/10"}`}
+                                >
+                                    {displayNameFor(pid)}
+                                </button>
+                            ))}
+                            <button onClick={() => setStageHidden(true)} className="text-slate-300 hover:text-white text-sm">
+                                Hide
+                            </button>
+                        </div>
+                    </div>
+                    <video ref={stageVideoRef} autoPlay muted playsInline className="w-full max-h-[70vh] bg-black object-contain" />
+                </div>
+            ))}
+
+            {/* Own screen share */}
+            {screenOn && !showLoader && (
+                <div className="absolute right-6 bottom-6 z-[45] flex items-center gap-3 px-4 py-2 rounded-full border border-lime-400/40 bg-slate-900/90 text-lime-200 text-sm backdrop-blur">
+                    <IconScreenShare className="w-4 h-4" />
+                    <span>You're sharing your screen</span>
+                    <button onClick={stopScreen} className="text-white hover:text-lime-100 font-medium">
+                        Stop
+                    </button>
+                </div>
+            )}
+
+            {/* Map fallback notice */}
+            {sessionState === "reconnecting" && !showLoader && (
+                <div className="absolute inset-0 z-[70] flex items-center justify-center bg-slate-950/50 backdrop-blur-[2px]">
+                    <div className="flex flex-col items-center gap-3 px-6 py-5 rounded-xl border border-slate-700 bg-slate-900/95 text-slate-200 shadow-xl">
+                        <IconOffline size={28} className="text-amber-300 animate-pulse" />
+                        <div className="text-sm font-medium">Reconnecting…</div>
+                        <div className="text-xs text-slate-400">
+                            {resumeAttempt > 0 ? `Attempt ${resumeAttempt}, your spot and outfit are kept` : "Your spot and outfit are kept"}
+                        </div>
+                        <button
+                            onClick={() => sessionRef.current?.resumeNow()}
+                            className="px-3 py-1.5 rounded-md text-xs bg-slate-700 hover:bg-slate-600 text-slate-100"
+                        >
+                            Retry now
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {mapNotice && !showLoader && (
+                <div className="absolute top-4 left-1/2 -translate-x-1/2 z-[60] max-w-[90vw] flex items-center gap-3 px-4 py-2 rounded-lg border border-amber-400/40 bg-slate-900/90 text-amber-200 text-sm backdrop-blur">
+                    <span>{mapNotice}</span>
+                    <button
+                        onClick={() => setMapNotice(null)}
+                        className="text-amber-200/70 hover:text-amber-100"
+                        aria-label="Dismiss"
+                    >
+                        <IconClose size={16} />
+                    </button>
+                </div>
+            )}
+
             {/* Chat panel */}            
             <div
                 ref={chatPanelRef}
@@ -3127,35 +3211,253 @@ const Room: React.FC = () => {
                     transition: "transform 220ms ease",
                     display: "flex", flexDirection: "column", zIndex: 50,
                     backdropFilter: "blur(6px)",
+                    outline: fileDragOver ? "2px dashed rgba(132,204,22,0.7)" : "none",
+                    outlineOffset: -6,
                 }}
                 aria-hidden={!showChat}
+                onDragOver={(e) => {
+                    if (chatTab || !e.dataTransfer.types.includes("Files")) return;
+                    e.preventDefault();
+                    setFileDragOver(true);
+                }}
+                onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setFileDragOver(false); }}
+                onDrop={(e) => {
+                    if (!fileDragOver) return;
+                    e.preventDefault();
+                    setFileDragOver(false);
+                    shareFiles(e.dataTransfer.files);
+                }}
             >
-                <div style={{ padding: "10px 12px", borderBottom: "1px solid rgba(163,230,53,0.3)", background: "rgba(21,128,61,0.05)" }}>
-                    <div style={{ fontWeight: 700 }}>Chat</div>
-                    <div style={{ fontSize: 11, color: "#94a3b8" }}>{roomId || "-"}</div>
+                <div style={{ padding: "10px 12px", borderBottom: "1px solid rgba(163,230,53,0.3)", background: "rgba(21,128,61,0.05)", display: "flex", alignItems: "center", gap: 8 }}>
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                        <div style={{ fontWeight: 700 }}>Chat</div>
+                        <div style={{ fontSize: 11, color: "#94a3b8" }}>{roomId || "-"}</div>
+                    </div>
+                    {isHost && chatHistoryOn !== null && (
+                        <button
+                            onClick={() => { void toggleChatHistory(); }}
+                            title={chatHistoryOn ? "Messages are saved for people who join later. Turning this off deletes them." : "Messages aren't saved"}
+                            style={{
+                                fontSize: 11,
+                                padding: "3px 8px",
+                                borderRadius: 6,
+                                border: "1px solid rgba(148,163,184,0.35)",
+                                background: chatHistoryOn ? "rgba(132,204,22,0.15)" : "transparent",
+                                color: chatHistoryOn ? "#bef264" : "#94a3b8",
+                                cursor: "pointer",
+                            }}
+                        >
+                            History {chatHistoryOn ? "on" : "off"}
+                        </button>
+                    )}
                 </div>
 
-                <div ref={chatListRef} style={{ flex: 1, overflowY: "auto", padding: "10px 12px" }}>
-                    {chatLog.length === 0 ? (
-                        <div style={{ color: "#94a3b8" }}>No messages yet...</div>
+                {dmTabs.length > 0 && (
+                    <div style={{ display: "flex", gap: 4, padding: "6px 12px", overflowX: "auto", borderBottom: "1px solid rgba(148,163,184,0.2)" }}>
+                        <button onClick={() => setChatTab(null)} style={chatTabStyle(chatTab === null)}>
+                            Room
+                        </button>
+                        {dmTabs.map((pid) => {
+                            const unread = dmThreads[pid]?.unread ?? 0;
+                            return (
+                                <button key={pid} onClick={() => openDm(pid)} style={chatTabStyle(chatTab === pid)} title={`Direct messages with ${displayNameFor(pid)}`}>
+                                    {displayNameFor(pid)}
+                                    {unread > 0 && (
+                                        <span style={{ marginLeft: 4, padding: "0 5px", borderRadius: 8, background: "#a855f7", color: "#fff", fontSize: 10 }}>{unread}</span>
+                                    )}
+                                </button>
+                            );
+                        })}
+                    </div>
+                )}
+
+                <div
+                    ref={chatListRef}
+                    onScroll={(e) => { if (!chatTab && e.currentTarget.scrollTop < 48) void loadOlderChat(); }}
+                    style={{ flex: 1, overflowY: "auto", padding: "10px 12px" }}
+                >
+                    {chatTab ? (
+                        <>
+                            <div style={{ fontSize: 11, color: "#c4b5fd", textAlign: "center", marginBottom: 8 }}>
+                                Only you and {displayNameFor(chatTab)} see these. They aren't saved in the room.
+                            </div>
+                            {!dmShown?.length ? (
+                                <div style={{ color: "#94a3b8" }}>No messages yet...</div>
+                            ) : (
+                                dmShown.map((m) => (
+                                    <div
+                                        key={m.id}
+                                        style={{
+                                            fontSize: 13, marginBottom: 8, wordBreak: "break-word", paddingLeft: 6,
+                                            borderLeft: "2px solid rgba(192,132,252,0.6)", background: "rgba(88,28,135,0.14)",
+                                        }}
+                                    >
+                                        <span style={{ color: "#94a3b8", fontSize: 11, marginRight: 8 }}>
+                                            {new Date(m.ts).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                                        </span>
+                                        <span style={{ fontWeight: 700, color: m.self ? "#d8b4fe" : "#e5e7eb" }}>
+                                            {m.self ? "You" : displayNameFor(m.from)}
+                                        </span>
+                                        <span style={{ color: "#94a3b8", margin: "0 6px" }}>:</span>
+                                        {m.locked ? (
+                                            <span style={{ color: "#94a3b8", fontStyle: "italic" }}>Unable to decrypt this message</span>
+                                        ) : (
+                                            <span style={{ whiteSpace: "pre-wrap", fontStyle: "italic" }}>{m.text}</span>
+                                        )}
+                                        {m.failed && <span style={{ color: "#f87171", fontSize: 11, marginLeft: 6 }}>(not delivered)</span>}
+                                    </div>
+                                ))
+                            )}
+                        </>
                     ) : (
-                        chatLog.map((m) => (
-                            <div key={m.id} style={{ fontSize: 13, marginBottom: 8, wordBreak: "break-word" }}>
-                                <span style={{ color: "#94a3b8", fontSize: 11, marginRight: 8 }}>
-                                    {new Date(m.ts).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
-                                </span>
-                                <span style={{ fontWeight: 700, color: m.self ? "#a3e635" : "#e5e7eb" }}>
-                                    {m.self ? "You" : (m.label || pretty(m.fromPeerId))}
-                                </span>
-                                <span style={{ color: "#94a3b8", margin: "0 6px" }}>:</span>
-                                <span style={{ whiteSpace: "pre-wrap" }}>{m.text}</span>
+                        <>
+                            <div style={{ fontSize: 11, color: "#64748b", textAlign: "center", marginBottom: 8 }}>
+                                {chatHistoryOn === false ? (
+                                    "Chat history is off in this room"
+                                ) : chatOlder === "loading" ? (
+                                    "Loading older messages..."
+                                ) : chatOlder === "done" ? (
+                                    chatLog.length > 0 && "Start of chat history"
+                                ) : chatHistoryOn && (
+                                    <button onClick={() => { void loadOlderChat(); }} style={{ color: "#94a3b8", textDecoration: "underline" }}>
+                                        Load older messages
+                                    </button>
+                                )}
                             </div>
-                        ))
+                            {chatView.length === 0 ? (
+                                <div style={{ color: "#94a3b8" }}>No messages yet...</div>
+                            ) : (
+                                chatView.map((m) => {
+                                    const quoted = m.replyTo ? chatById.get(m.replyTo) : undefined;
+                                    const mentioned = !m.self && !!m.mentions?.includes(myPrincipalTxt);
+                                    const usable = !m.locked && !m.deleted;
+                                    return (
+                                        <div
+                                            key={m.id}
+                                            className="group"
+                                            style={{
+                                                fontSize: 13, marginBottom: 8, wordBreak: "break-word",
+                                                ...(mentioned ? { background: "rgba(245,158,11,0.12)", borderLeft: "2px solid #f59e0b", paddingLeft: 6 } : {}),
+                                            }}
+                                        >
+                                            {m.replyTo && (
+                                                <div style={{ fontSize: 11, color: "#64748b", marginBottom: 2, whiteSpace: "nowrap", overflow: "hidden", textOverflow: "ellipsis" }}>
+                                                    ↪ {quoted
+                                                        ? `${quoted.self ? "You" : quoted.label}: ${quoted.deleted ? "message deleted" : quoted.locked ? "..." : quoted.text || (quoted.file ? `📎 ${quoted.file.name}` : "")}`
+                                                        : "an earlier message"}
+                                                </div>
+                                            )}
+                                            <span style={{ color: "#94a3b8", fontSize: 11, marginRight: 8 }}>
+                                                {new Date(m.ts).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                                            </span>
+                                            <span style={{ fontWeight: 700, color: m.self ? "#a3e635" : "#e5e7eb" }}>
+                                                {m.self ? "You" : (m.label || pretty(m.fromPeerId))}
+                                            </span>
+                                            <span style={{ color: "#94a3b8", margin: "0 6px" }}>:</span>
+                                            {m.locked ? (
+                                                <span style={{ color: "#94a3b8", fontStyle: "italic" }}>Unable to decrypt this message</span>
+                                            ) : m.deleted ? (
+                                                <span style={{ color: "#94a3b8", fontStyle: "italic" }}>Message deleted</span>
+                                            ) : (
+                                                <span style={{ whiteSpace: "pre-wrap" }}>
+                                                    {mentionSegments(m.text, knownUsername).map((s, i) => s.mention
+                                                        ? <span key={i} style={{ color: "#fbbf24", fontWeight: 700 }}>{s.text}</span>
+                                                        : <React.Fragment key={i}>{s.text}</React.Fragment>)}
+                                                </span>
+                                            )}
+                                            {m.edited && !m.deleted && <span style={{ color: "#64748b", fontSize: 11, marginLeft: 6 }}>(edited)</span>}
+                                            {m.file && usable && renderChatFile(m)}
+                                            {usable && (
+                                                <span className="opacity-0 group-hover:opacity-100 focus-within:opacity-100" style={{ marginLeft: 8, display: "inline-flex", gap: 8, transition: "opacity 120ms" }}>
+                                                    <button onClick={() => startChatReply(m)} style={CHAT_ACTION_STYLE}>Reply</button>
+                                                    <button onClick={() => setReactPickerFor(reactPickerFor === m.id ? null : m.id)} style={CHAT_ACTION_STYLE}>React</button>
+                                                    {m.self && !m.file && <button onClick={() => startChatEdit(m)} style={CHAT_ACTION_STYLE}>Edit</button>}
+                                                    {m.self && <button onClick={() => deleteChat(m)} style={CHAT_ACTION_STYLE}>Delete</button>}
+                                                </span>
+                                            )}
+                                            {reactPickerFor === m.id && usable && (
+                                                <div style={{ display: "flex", gap: 4, marginTop: 4 }}>
+                                                    {REACTIONS.map((emoji) => (
+                                                        <button key={emoji} onClick={() => reactToChat(m, emoji)} style={{ fontSize: 16, padding: "0 4px", background: "none", border: "none", cursor: "pointer" }}>
+                                                            {emoji}
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                            )}
+                                            {m.reactions && usable && (
+                                                <div style={{ display: "flex", flexWrap: "wrap", gap: 4, marginTop: 4 }}>
+                                                    {Object.entries(m.reactions).map(([emoji, who]) => {
+                                                        const mine = who.includes(myPeerId);
+                                                        return (
+                                                            <button
+                                                                key={emoji}
+                                                                onClick={() => reactToChat(m, emoji)}
+                                                                title={who.map((pid) => (pid === myPeerId ? "You" : displayNameFor(pid))).join(", ")}
+                                                                style={{
+                                                                    fontSize: 12, padding: "0 6px", borderRadius: 10, cursor: "pointer", color: "#e5e7eb",
+                                                                    border: `1px solid ${mine ? "rgba(132,204,22,0.6)" : "rgba(148,163,184,0.3)"}`,
+                                                                    background: mine ? "rgba(132,204,22,0.15)" : "transparent",
+                                                                }}
+                                                            >
+                                                                {emoji} {who.length}
+                                                            </button>
+                                                        );
+                                                    })}
+                                                </div>
+                                            )}
+                                        </div>
+                                    );
+                                })
+                            )}
+                        </>
                     )}
                 </div>
 
                 <div style={{ padding: 10, borderTop: "1px solid rgba(148,163,184,0.25)" }}>
+                    {!chatTab && (chatReplyTo || chatEditing) && (
+                        <div style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 11, color: "#94a3b8", marginBottom: 6 }}>
+                            <span style={{ flex: 1, minWidth: 0, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                                {chatEditing
+                                    ? "Editing your message"
+                                    : `Replying to ${chatById.get(chatReplyTo!)?.label ?? "a message"}`}
+                            </span>
+                            <button onClick={cancelChatCompose} title="Cancel (Esc)" style={CHAT_ACTION_STYLE}>✕</button>
+                        </div>
+                    )}
+                    {fileNotice && (
+                        <div style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 11, color: "#f87171", marginBottom: 6 }}>
+                            <span style={{ flex: 1, minWidth: 0 }}>{fileNotice}</span>
+                            <button onClick={() => setFileNotice(null)} title="Dismiss" style={CHAT_ACTION_STYLE}>✕</button>
+                        </div>
+                    )}
                     <div style={{ display: "flex", gap: 8 }}>
+                        {!chatTab && (
+                            <>
+                                <input
+                                    ref={fileInputRef}
+                                    type="file"
+                                    multiple
+                                    hidden
+                                    onChange={(e) => { shareFiles(e.target.files); e.target.value = ""; }}
+                                />
+                                <button
+                                    onClick={() => fileInputRef.current?.click()}
+                                    disabled={!chatKeyEpoch}
+                                    title={chatKeyEpoch ? "Share a file (or drop it here)" : "Waiting for the room key"}
+                                    aria-label="Share a file"
+                                    style={{
+                                        padding: "8px 10px",
+                                        borderRadius: 8,
+                                        border: "1px solid rgba(148,163,184,0.35)",
+                                        background: "transparent",
+                                        color: chatKeyEpoch ? "#e5e7eb" : "#64748b",
+                                        cursor: chatKeyEpoch ? "pointer" : "not-allowed",
+                                    }}
+                                >
+                                    📎
+                                </button>
+                            </>
+                        )}
                         <input
                             id="chat-input-box"
                             ref={chatInputRef}
@@ -3163,8 +3465,11 @@ const Room: React.FC = () => {
                             onFocus={() => { typingChatRef.current = true; }}
                             onBlur={() => { typingChatRef.current = false; }}
                             onChange={(e) => setChatInput(e.target.value)}
-                            onKeyDown={(e) => { if (e.key === "Enter" && !e.shiftKey) { e.preventDefault(); sendChat(chatInput); } }}
-                            placeholder="Type a message..."
+                            onKeyDown={(e) => {
+                                if (e.key === "Enter" && !e.shiftKey) { e.preventDefault(); submitChat(chatInput); }
+                                if (e.key === "Escape" && (chatReplyTo || chatEditing)) { e.stopPropagation(); cancelChatCompose(); }
+                            }}
+                            placeholder={!chatKeyEpoch ? "Setting up encryption..." : chatTab ? `Message ${displayNameFor(chatTab)} privately...` : "Type a message..."}
                             style={{
                                 flex: 1,
                                 padding: "8px 10px",
@@ -3176,22 +3481,23 @@ const Room: React.FC = () => {
                             }}
                         />
                         <button
-                            onClick={() => sendChat(chatInput)}
-                            disabled={!chatInput.trim()}
+                            onClick={() => submitChat(chatInput)}
+                            disabled={!chatInput.trim() || !chatKeyEpoch}
+                            title={chatKeyEpoch ? "Messages are end-to-end encrypted" : "Waiting for the room key"}
                             style={{
                                 padding: "8px 12px",
                                 borderRadius: 8,
-                                background: chatInput.trim() ? "rgb(132,204,22)" : "rgba(148,163,184,0.25)",
-                                color: chatInput.trim() ? "#0b1b06" : "#cbd5e1",
+                                background: chatInput.trim() && chatKeyEpoch ? "rgb(132,204,22)" : "rgba(148,163,184,0.25)",
+                                color: chatInput.trim() && chatKeyEpoch ? "#0b1b06" : "#cbd5e1",
                                 border: "1px solid rgba(132,204,22,0.5)",
-                                cursor: chatInput.trim() ? "pointer" : "not-allowed",
+                                cursor: chatInput.trim() && chatKeyEpoch ? "pointer" : "not-allowed",
                             }}
                         >
                             Send
                         </button>
                     </div>
                     <div style={{ marginTop: 6, fontSize: 11, color: "#94a3b8" }}>
-                        Enter to send - Shift+Enter for newline - Press C to toggle chat
+                        Enter to send - @username to mention - Press C to toggle chat
                     </div>
                 </div>
             </div>
@@ -3206,8 +3512,10 @@ const Room: React.FC = () => {
                     title="Toggle chat (C)"
                     onClick={() => setShowChat(v => !v)}
                     active={showChat}
-                    badge={chatLog.length}
-                    badgeSrOnly={`${chatLog.length} messages`}
+                    badge={chatMentions + dmUnreadCount || chatLog.length}
+                    badgeSrOnly={chatMentions + dmUnreadCount
+                        ? `${chatMentions} mentions, ${dmUnreadCount} unread direct messages`
+                        : `${chatLog.length} messages`}
                 >
                     <IconChat className="w-5 h-5" />
                 </IconButton>
@@ -3217,10 +3525,32 @@ const Room: React.FC = () => {
                     active={micOn}
                     danger={!micOn}
                     onToggle={onToggleMic}
-                    onToggleSettings={() => setShowMicSettings(v => !v)}
+                    onToggleSettings={() => { setShowDiagnostics(false); setShowMicSettings(v => !v); }}
                     expanded={showMicSettings}
                 />
 
+                {/* Camera */}
+                <IconButton
+                    title={relayPeer ? "Video is off in big rooms" : camOn ? "Turn camera off" : "Turn camera on"}
+                    onClick={onToggleCam}
+                    active={camOn}
+                    disabled={!!relayPeer}
+                    className={relayPeer ? "opacity-40 cursor-not-allowed" : ""}
+                >
+                    {camOn ? <IconCamOn className="w-5 h-5" /> : <IconCamOff className="w-5 h-5" />}
+                </IconButton>
+
+                {/* Screen share */}
+                <IconButton
+                    title={relayPeer ? "Screen sharing is off in big rooms" : screenOn ? "Stop sharing" : "Share screen"}
+                    onClick={onToggleScreen}
+                    active={screenOn}
+                    disabled={!!relayPeer}
+                    className={relayPeer ? "opacity-40 cursor-not-allowed" : ""}
+                >
+                    {screenOn ? <IconScreenShareOff className="w-5 h-5" /> : <IconScreenShare className="w-5 h-5" />}
+                </IconButton>
+
                 {/* Participants */}
                 <IconButton
                     title="Participants"
@@ -3243,6 +3573,16 @@ const Room: React.FC = () => {
                     <IconOutfit className="w-5 h-5" />
                 </IconButton>
 
+                {/* Map editor (host only) */}
+                {isHost && (
+                    <IconButton
+                        title="Edit map"
+                        onClick={async () => { await gracefulLeave(); navigate(`/room/${roomId}/edit`); }}
+                    >
+                        <IconMap className="w-5 h-5" />
+                    </IconButton>
+                )}
+
                 <div className="w-px h-6 bg-white/20 mx-1" />
 
                 {/* Leave */}
@@ -3268,6 +3608,72 @@ const Room: React.FC = () => {
                 </IconButton>
             </div>
 
+            {/* Interaction prompt */}
+            {interactPrompt && !showLoader && !openPanel && (
+                <button
+                    data-no-dismiss
+                    onClick={interactNow}
+                    className="absolute bottom-24 left-1/2 -translate-x-1/2 z-[45] flex items-center gap-2 px-3 py-1.5 rounded-full border border-white/15 bg-slate-900/85 text-slate-100 text-sm backdrop-blur hover:bg-slate-800/90"
+                >
+                    <kbd className="px-1.5 rounded bg-white/10 border border-white/20 text-xs font-mono">E</kbd>
+                    <span>{interactPrompt.label}</span>
+                </button>
+            )}
+
+            {/* Interactable panel (local only) */}
+            <AnimatePresence>
+                {openPanel && (
+                    <motion.div
+                        data-no-dismiss
+                        initial={{ opacity: 0, y: 16 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: 16 }}
+                        transition={{ type: "spring", stiffness: 260, damping: 20 }}
+                        className="absolute left-1/2 -translate-x-1/2 top-1/2 -translate-y-1/2 z-[70] w-[min(92vw,820px)] rounded-2xl border border-white/15 bg-slate-900/90 backdrop-blur-xl p-0 shadow-2xl overflow-hidden"
+                    >
+                        <div className="px-4 py-3 bg-gradient-to-r from-lime-900/20 to-transparent border-b border-white/10 flex items-center justify-between">
+                            <div className="flex items-center gap-2 text-white min-w-0">
+                                <IconPanel className="w-4 h-4 text-lime-300 shrink-0" />
+                                <span className="font-medium truncate">
+                                    {openPanel.panel?.title || interactionLabel(openPanel)}
+                                </span>
+                            </div>
+                            <div className="flex items-center gap-3">
+                                {openPanel.panel?.url && (
+                                    <a
+                                        href={openPanel.panel.url}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="text-slate-300 hover:text-white"
+                                        title="Open in new tab"
+                                    >
+                                        <IconExternal className="w-4 h-4" />
+                                    </a>
+                                )}
+                                <button
+                                    onClick={() => setOpenPanel(null)}
+                                    className="text-slate-300 hover:text-white text-sm"
+                                >
+                                    Close
+                                </button>
+                            </div>
+                        </div>
+                        {openPanel.panel?.url ? (
+                            <iframe
+                                src={openPanel.panel.url}
+                                title={openPanel.panel.title || "Panel"}
+                                className="w-full h-[min(70vh,560px)] bg-white"
+                                sandbox="allow-scripts allow-same-origin allow-forms allow-popups"
+                            />
+                        ) : (
+                            <div className="p-4 text-slate-200 text-sm whitespace-pre-wrap max-h-[60vh] overflow-y-auto">
+                                {openPanel.panel?.text || "Nothing here yet."}
+                            </div>
+                        )}
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
             {/* Mobile joystick */}
             {useJoystick && !showChat && !showOutfit && <MobileJoystick />}
 
@@ -3338,6 +3744,113 @@ const Room: React.FC = () => {
                                     Status: {micOn ? "Mic ON (sending to peers you can hear)" : "Mic OFF"}
                                 </div>
                             </div>
+
+                            {/* output */}
+                            <div className="mt-4">
+                                <div className="text-xs text-slate-400 mb-1">Voice output</div>
+                                <div className="inline-flex rounded-lg border border-white/15 overflow-hidden">
+                                    {AUDIO_OUTPUT_MODES.map((mode) => (
+                                        <button
+                                            key={mode}
+                                            onClick={() => onChangeAudioOutput(mode)}
+                                            className={`inline-flex items-center gap-2 px-3 py-1.5 text-sm ${audioOutput === mode
+                                                ? "bg-lime-600 text-white"
+                                                : "bg-slate-800/70 text-slate-300 hover:text-white"
+                                                }`}
+                                        >
+                                            {mode === "headphones" ? <IconHeadphones className="w-4 h-4" /> : <IconSpeaker className="w-4 h-4" />}
+                                            {mode === "headphones" ? "Headphones" : "Speakers"}
+                                        </button>
+                                    ))}
+                                </div>
+                                <div className="mt-2 text-xs text-slate-400">
+                                    {audioOutput === "headphones"
+                                        ? "Voices are placed around your avatar in 3D."
+                                        : "Voices pan gently left and right."}
+                                </div>
+                            </div>
+                        </div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
+            {/* Connection diagnostics popover */}
+            <AnimatePresence>
+                {showDiagnostics && (
+                    <motion.div
+                        ref={diagPanelRef}
+                        initial={{ opacity: 0, y: 16 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: 16 }}
+                        transition={{ type: "spring", stiffness: 260, damping: 20 }}
+                        className="absolute left-1/2 -translate-x-1/2 bottom-28 z-[75] w-[min(92vw,720px)] rounded-2xl border border-white/15 bg-slate-900/90 backdrop-blur-xl p-0 shadow-2xl overflow-hidden"
+                    >
+                        {/* header */}
+                        <div className="px-4 py-3 bg-gradient-to-r from-lime-900/20 to-transparent border-b border-white/10 flex items-center justify-between">
+                            <div className="flex items-center gap-2 text-white">
+                                <IconDiagnostics className="w-4 h-4 text-lime-300" />
+                                <span className="font-medium">Connection</span>
+                            </div>
+                            <div className="flex items-center gap-3">
+                                <button
+                                    onClick={exportDiagnostics}
+                                    className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-lime-600 hover:bg-lime-500 text-white text-sm"
+                                    title="Download a JSON report to attach to a bug ticket"
+                                >
+                                    <IconDownload className="w-4 h-4" />
+                                    Export report
+                                </button>
+                                <button
+                                    onClick={() => setShowDiagnostics(false)}
+                                    className="text-slate-300 hover:text-white text-sm"
+                                >
+                                    Close
+                                </button>
+                            </div>
+                        </div>
+
+                        {/* body */}
+                        <div className="p-4 max-h-[60vh] overflow-y-auto space-y-3">
+                            {diagView.length === 0 ? (
+                                <div className="text-slate-400 text-sm">No connections yet.</div>
+                            ) : (
+                                diagView.map((d) => (
+                                    <div key={d.peer} className="rounded-lg border border-white/10 bg-slate-800/50 p-3">
+                                        <div className="flex items-center justify-between gap-2">
+                                            <div className="text-sm text-white truncate">{displayNameFor(d.peer) || pretty(d.peer)}</div>
+                                            <div className="text-[11px] text-slate-400 font-mono shrink-0">
+                                                {d.pair?.linkType ? LINK_LABELS[d.pair.linkType].text : "no path yet"} · ICE {ice.modeOf(d.peer)} · {d.level}/4
+                                            </div>
+                                        </div>
+                                        <div className="mt-2 grid grid-cols-2 md:grid-cols-4 gap-x-4 gap-y-1 text-xs text-slate-300">
+                                            <div>RTT <span className="text-white">{fmt(d.media?.rttMs ?? d.rttMs, "ms")}</span></div>
+                                            <div>Jitter <span className="text-white">{fmt(d.media?.jitterMs, "ms")}</span></div>
+                                            <div>Loss <span className="text-white">{fmt(d.media?.lossPct, "%")}</span></div>
+                                            <div>Codec <span className="text-white">{d.media?.codec ?? "–"}</span></div>
+                                            <div>In <span className="text-white">{fmt(d.media?.inKbps, "kbps")}</span></div>
+                                            <div>Out <span className="text-white">{fmt(d.media?.outKbps, "kbps")}</span></div>
+                                            <div className="col-span-2">
+                                                Path <span className="text-white font-mono">
+                                                    {d.pair ? `${d.pair.local ?? "?"} → ${d.pair.remote ?? "?"} (${[d.pair.protocol, d.pair.relayProtocol && `turn/${d.pair.relayProtocol}`].filter(Boolean).join(", ") || "?"})` : "–"}
+                                                </span>
+                                            </div>
+                                            <div className="col-span-2 md:col-span-4">
+                                                Buffered <span className="text-white font-mono">
+                                                    {Object.entries(d.buffered).map(([label, n]) => `${label} ${fmt(n, "B")}`).join(" · ") || "–"}
+                                                </span>
+                                                {!d.media && <span className="text-slate-500"> · no call</span>}
+                                            </div>
+                                        </div>
+                                    </div>
+                                ))
+                            )}
+
+                            <div>
+                                <div className="text-xs text-slate-400 mb-1">Recent events</div>
+                                <div className="rounded-lg bg-black/30 p-2 text-[11px] font-mono text-slate-300 max-h-40 overflow-y-auto whitespace-pre-wrap">
+                                    {logs.slice(-DIAG_LOG_LINES).join("\n") || "Nothing yet."}
+                                </div>
+                            </div>
                         </div>
                     </motion.div>
                 )}
@@ -3375,6 +3888,11 @@ const Room: React.FC = () => {
                             <div className="font-medium">Participants</div>
                             <div className="text-xs text-slate-400">{participantsReady.length}</div>
                         </div>
+                        {relayPeer && (
+                            <div className="mb-3 text-xs text-slate-400">
+                                Big room: voices go through {relayPeer === myPeerId ? "you" : displayNameFor(relayPeer)}. Video is off until it gets smaller.
+                            </div>
+                        )}
 
                         {participantsReady.length === 0 ? (
                             <div className="text-slate-400 text-sm">No connected participants</div>
@@ -3398,6 +3916,15 @@ const Room: React.FC = () => {
                             <IconSettings className="w-4 h-4" />
                             Mic settings
                         </button>
+                        <button
+                            data-no-dismiss
+                            onClick={() => { setShowMicSettings(false); setShowDiagnostics(true); }}
+                            className="ml-2 inline-flex items-center gap-2 px-3 py-2 rounded-lg bg-gray-700/50 hover:bg-gray-600/50 text-white transition"
+                            title="Connection quality per participant"
+                        >
+                            <IconDiagnostics className="w-4 h-4" />
+                            Connection
+                        </button>
                     </div>
 
                 </div>
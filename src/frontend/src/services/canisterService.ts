@@ -1,7 +1,7 @@
 import { Actor, ActorSubclass, HttpAgent, Identity } from '@dfinity/agent';
 import { Principal } from '@dfinity/principal';
 import { idlFactory } from '../../../declarations/backend';
-import { User, UserUpdateData, Room, Signal, Result } from '../types/backend';
+import { User, UserUpdateData, Room, CreateRoomOptions, Signal, Result, ChatRecord, ChatPage, RoomKeyState } from '../types/backend';
 
 export interface BackendActor {
     // User functions
@@ -14,20 +14,30 @@ export interface BackendActor {
     getUserOutfit(userId: Principal): Promise<string[]>;
 
     // Room functions
-    createRoom(roomId: string): Promise<Result<Room, string>>;
+    createRoom(roomId: string, mapId: [] | [string], customMap: [] | [string]): Promise<Result<Room, string>>;
+    setRoomMap(roomId: string, mapId: [] | [string], customMap: [] | [string]): Promise<Result<Room, string>>;
     joinRoom(roomId: string): Promise<Result<Room, string>>;
     getRoom(roomId: string): Promise<Room | null>;
+    getRoomMap(roomId: string): Promise<[] | [string]>;
     leaveRoom(roomId: string): Promise<Result<Room, string>>;
 
     // Signal functions
-    sendSignal(roomId: string, signal: Signal): Promise<void>;
-    getSignals(roomId: string, to: Principal): Promise<Signal[]>;
+    sendSignal(roomId: string, signal: Signal): Promise<Result<null, string>>;
+    getSignals(roomId: string): Promise<Signal[]>;
     clearSignals(roomId: string): Promise<void>;
 
+    // Chat functions
+    appendChatMessage(roomId: string, id: string, text: string): Promise<Result<any, string>>;
+    getChatHistory(roomId: string, before: [] | [bigint], limit: bigint): Promise<Result<any, string>>;
+    setChatHistory(roomId: string, enabled: boolean): Promise<Result<boolean, string>>;
+    setChatPublicKey(key: string): Promise<Result<null, string>>;
+    getChatPublicKeys(roomId: string): Promise<Result<Array<[Principal, string]>, string>>;
+    getRoomKeys(roomId: string): Promise<Result<any, string>>;
+    putRoomKeys(roomId: string, epoch: bigint, newKey: boolean, wraps: Array<[Principal, string]>): Promise<Result<bigint, string>>;
+    dropRoomKey(roomId: string, epoch: bigint): Promise<Result<null, string>>;
+
     // Helper functions
     listAllRooms(): Promise<Room[]>;
-    listAllSignals(): Promise<Signal[]>;
-    debugSignals(roomId: string): Promise<Signal[]>;
     // resetAllRooms(): Promise<void>;
     // resetAllSignals(): Promise<void>;
 
@@ -38,13 +48,43 @@ export interface BackendActor {
     getTotalOnlineUsers(): Promise<number>;
 }
 
+// Storage canister (src/storage): chunked uploads of files too big to send peer to peer
+export interface StorageActor {
+    beginUpload(size: bigint, chunkCount: bigint): Promise<Result<string, string>>;
+    putChunk(id: string, index: bigint, data: Uint8Array): Promise<Result<null, string>>;
+    finishUpload(id: string): Promise<Result<null, string>>;
+    getFileInfo(id: string): Promise<Result<any, string>>;
+    getChunk(id: string, index: bigint): Promise<Result<Uint8Array | number[], string>>;
+    deleteFile(id: string): Promise<Result<null, string>>;
+}
+
+const storageIdlFactory = ({ IDL }: any) => {
+    const result = (ok: any) => IDL.Variant({ 'ok': ok, 'err': IDL.Text });
+    const FileInfo = IDL.Record({
+        'size': IDL.Nat,
+        'chunkCount': IDL.Nat,
+        'createdAt': IDL.Int,
+    });
+    return IDL.Service({
+        'beginUpload': IDL.Func([IDL.Nat, IDL.Nat], [result(IDL.Text)], []),
+        'putChunk': IDL.Func([IDL.Text, IDL.Nat, IDL.Vec(IDL.Nat8)], [result(IDL.Null)], []),
+        'finishUpload': IDL.Func([IDL.Text], [result(IDL.Null)], []),
+        'getFileInfo': IDL.Func([IDL.Text], [result(FileInfo)], ['query']),
+        'getChunk': IDL.Func([IDL.Text, IDL.Nat], [result(IDL.Vec(IDL.Nat8))], ['query']),
+        'deleteFile': IDL.Func([IDL.Text], [result(IDL.Null)], []),
+    });
+};
+
 class CanisterService {
     private agent: HttpAgent | null = null;
     private actor: ActorSubclass<BackendActor> | null = null;
+    private storageActor: ActorSubclass<StorageActor> | null = null;
     private canisterId: string;
+    private storageCanisterId: string;
 
     constructor() {
         this.canisterId = process.env.CANISTER_ID_BACKEND || '';
+        this.storageCanisterId = process.env.CANISTER_ID_STORAGE || '';
     }
 
     // Initialize actor with identity
@@ -67,6 +107,14 @@ class CanisterService {
                 agent: this.agent,
                 canisterId: this.canisterId,
             });
+
+            // optional: without it, files only go peer to peer
+            this.storageActor = this.storageCanisterId
+                ? Actor.createActor<StorageActor>(storageIdlFactory, {
+                    agent: this.agent,
+                    canisterId: this.storageCanisterId,
+                })
+                : null;
         } catch (error) {
             console.error('Failed to initialize canister service:', error);
             throw new Error('Canister initialization failed');
@@ -192,16 +240,30 @@ class CanisterService {
     }
 
     // ROOM METHODS
-    async createRoom(roomId: string): Promise<Result<Room, string>> {
+    async createRoom(roomId: string, options: CreateRoomOptions = {}): Promise<Result<Room, string>> {
+        const actor = this.ensureActor();
+        const raw = await actor.createRoom(
+            roomId,
+            options.mapId ? [options.mapId] : [],
+            options.customMap ? [options.customMap] : []
+        );
+        return this.normalizeRoomResult(raw);
+    }
+
+    async setRoomMap(roomId: string, options: CreateRoomOptions): Promise<Result<Room, string>> {
         const actor = this.ensureActor();
-        const raw = await actor.createRoom(roomId);
-        return this.normalizeResult<Room>(raw) as Result<Room, string>;
+        const raw = await actor.setRoomMap(
+            roomId,
+            options.mapId ? [options.mapId] : [],
+            options.customMap ? [options.customMap] : []
+        );
+        return this.normalizeRoomResult(raw);
     }
 
     async joinRoom(roomId: string): Promise<Result<Room, string>> {
         const actor = this.ensureActor();
         const raw = await actor.joinRoom(roomId);
-        return this.normalizeResult<Room>(raw) as Result<Room, string>;
+        return this.normalizeRoomResult(raw);
     }
 
     async getRoom(roomId: string): Promise<Room | null> {
@@ -220,15 +282,7 @@ class CanisterService {
                 return null;
             }
 
-            // Process room data to ensure Principal objects are properly formatted
-            const processedRoom: Room = {
-                id: roomData.id || '',
-                host: this.ensurePrincipal(roomData.host),
-                participants: roomData.participants?.map((p: unknown) => this.ensurePrincipal(p)).filter(Boolean) || [],
-                createdAt: roomData.createdAt || BigInt(0)
-            };
-
-            return processedRoom;
+            return this.processRoom(roomData);
 
         } catch (error) {
             console.error('Error in getRoom:', error);
@@ -236,6 +290,35 @@ class CanisterService {
         }
     }
 
+    // Custom map JSON of a room whose mapId is CUSTOM_MAP_ID
+    async getRoomMap(roomId: string): Promise<string | null> {
+        const actor = this.ensureActor();
+        return this.fromOpt<string>(await actor.getRoomMap(roomId));
+    }
+
+    // Process room data to ensure Principal objects and optionals are properly formatted
+    private processRoom(roomData: any): Room {
+        return {
+            id: roomData.id || '',
+            host: this.ensurePrincipal(roomData.host),
+            participants: roomData.participants?.map((p: unknown) => this.ensurePrincipal(p)).filter(Boolean) || [],
+            createdAt: roomData.createdAt || BigInt(0),
+            mapId: this.fromOpt<string>(roomData.mapId),
+        };
+    }
+
+    // Motoko optionals arrive as [] | [value]
+    private fromOpt<T>(value: unknown): T | null {
+        if (Array.isArray(value)) return value.length > 0 ? (value[0] as T) : null;
+        return (value ?? null) as T | null;
+    }
+
+    private normalizeRoomResult(raw: any): Result<Room, string> {
+        const res = this.normalizeResult<any>(raw);
+        if (res.Ok !== undefined) return { Ok: this.processRoom(res.Ok) };
+        return { Err: res.Err ?? 'Unknown result shape' };
+    }
+
     // Helper method to ensure Principal objects are valid
     private ensurePrincipal(principalData: any): Principal {
         try {
@@ -269,18 +352,20 @@ class CanisterService {
     async leaveRoom(roomId: string): Promise<Result<Room, string>> {
         const actor = this.ensureActor();
         const raw = await actor.leaveRoom(roomId);
-        return this.normalizeResult<Room>(raw) as Result<Room, string>;
+        return this.normalizeRoomResult(raw);
     }
 
     // SIGNAL METHODS
     async sendSignal(roomId: string, signal: Signal): Promise<void> {
         const actor = this.ensureActor();
-        return await actor.sendSignal(roomId, signal);
+        const res = this.normalizeResult<null>(await actor.sendSignal(roomId, signal));
+        if (res.Err !== undefined) throw new Error(res.Err);
     }
 
-    async getSignals(roomId: string, to: Principal): Promise<Signal[]> {
+    /** Our own mailbox: the canister answers for the caller only */
+    async getSignals(roomId: string): Promise<Signal[]> {
         const actor = this.ensureActor();
-        return await actor.getSignals(roomId, to);
+        return await actor.getSignals(roomId);
     }
 
     async clearSignals(roomId: string): Promise<void> {
@@ -288,15 +373,94 @@ class CanisterService {
         return await actor.clearSignals(roomId);
     }
 
-    // HELPER METHODS
-    async listAllRooms(): Promise<Room[]> {
+    // CHAT METHODS
+    async appendChatMessage(roomId: string, id: string, text: string): Promise<Result<ChatRecord, string>> {
         const actor = this.ensureActor();
-        return await actor.listAllRooms();
+        const res = this.normalizeResult<any>(await actor.appendChatMessage(roomId, id, text));
+        if (res.Ok !== undefined) return { Ok: this.processChatRecord(res.Ok) };
+        return { Err: res.Err ?? 'Unknown result shape' };
+    }
+
+    async getChatHistory(roomId: string, before: number | null, limit: number): Promise<Result<ChatPage, string>> {
+        const actor = this.ensureActor();
+        const res = this.normalizeResult<any>(
+            await actor.getChatHistory(roomId, before === null ? [] : [BigInt(before)], BigInt(limit))
+        );
+        if (res.Ok === undefined) return { Err: res.Err ?? 'Unknown result shape' };
+        const next = this.fromOpt<bigint>(res.Ok.next);
+        return {
+            Ok: {
+                messages: (res.Ok.messages || []).map((m: any) => this.processChatRecord(m)),
+                next: next === null ? null : Number(next),
+                enabled: !!res.Ok.enabled,
+            },
+        };
+    }
+
+    async setChatHistory(roomId: string, enabled: boolean): Promise<Result<boolean, string>> {
+        const actor = this.ensureActor();
+        const res = this.normalizeResult<boolean>(await actor.setChatHistory(roomId, enabled));
+        if (res.Ok !== undefined) return { Ok: res.Ok };
+        return { Err: res.Err ?? 'Unknown result shape' };
+    }
+
+    async setChatPublicKey(key: string): Promise<Result<null, string>> {
+        const actor = this.ensureActor();
+        const res = this.normalizeResult<null>(await actor.setChatPublicKey(key));
+        if (res.Err === undefined) return { Ok: null };
+        return { Err: res.Err };
+    }
+
+    async getChatPublicKeys(roomId: string): Promise<Result<Array<[Principal, string]>, string>> {
+        const actor = this.ensureActor();
+        const res = this.normalizeResult<Array<[any, string]>>(await actor.getChatPublicKeys(roomId));
+        if (res.Ok === undefined) return { Err: res.Err ?? 'Unknown result shape' };
+        return { Ok: res.Ok.map(([p, k]) => [this.ensurePrincipal(p), String(k)]) };
+    }
+
+    async getRoomKeys(roomId: string): Promise<Result<RoomKeyState, string>> {
+        const actor = this.ensureActor();
+        const res = this.normalizeResult<any>(await actor.getRoomKeys(roomId));
+        if (res.Ok === undefined) return { Err: res.Err ?? 'Unknown result shape' };
+        return {
+            Ok: {
+                epoch: Number(res.Ok.epoch ?? 0),
+                rotate: !!res.Ok.rotate,
+                mine: (res.Ok.mine || []).map(([e, k]: [bigint, string]) => [Number(e), String(k)]),
+                missing: (res.Ok.missing || []).map((p: any) => this.ensurePrincipal(p)),
+            },
+        };
+    }
+
+    async putRoomKeys(roomId: string, epoch: number, newKey: boolean, wraps: Array<[Principal, string]>): Promise<Result<number, string>> {
+        const actor = this.ensureActor();
+        const res = this.normalizeResult<bigint>(await actor.putRoomKeys(roomId, BigInt(epoch), newKey, wraps));
+        if (res.Ok !== undefined) return { Ok: Number(res.Ok) };
+        return { Err: res.Err ?? 'Unknown result shape' };
+    }
+
+    async dropRoomKey(roomId: string, epoch: number): Promise<Result<null, string>> {
+        const actor = this.ensureActor();
+        const res = this.normalizeResult<null>(await actor.dropRoomKey(roomId, BigInt(epoch)));
+        if (res.Err === undefined) return { Ok: null };
+        return { Err: res.Err };
+    }
+
+    // Nat / Int arrive as bigint
+    private processChatRecord(m: any): ChatRecord {
+        return {
+            id: String(m.id ?? ''),
+            from: this.ensurePrincipal(m.from),
+            text: String(m.text ?? ''),
+            ts: Number(m.ts ?? 0),
+            seq: Number(m.seq ?? 0),
+        };
     }
 
-    async debugSignals(roomId: string): Promise<Signal[]> {
+    // HELPER METHODS
+    async listAllRooms(): Promise<Room[]> {
         const actor = this.ensureActor();
-        return await actor.debugSignals(roomId);
+        return await actor.listAllRooms();
     }
 
     private normalizeResult<T>(raw: any): { Ok?: T; Err?: string } {
@@ -313,6 +477,50 @@ class CanisterService {
         return { Err: "Unknown result shape" };
     }
 
+    // STORAGE METHODS
+    hasStorage(): boolean {
+        return !!this.storageActor;
+    }
+
+    private ensureStorage(): ActorSubclass<StorageActor> {
+        if (!this.storageActor) {
+            throw new Error('Storage canister not configured');
+        }
+        return this.storageActor;
+    }
+
+    async beginUpload(size: number, chunkCount: number): Promise<Result<string, string>> {
+        const res = this.normalizeResult<string>(await this.ensureStorage().beginUpload(BigInt(size), BigInt(chunkCount)));
+        return res.Ok !== undefined ? { Ok: res.Ok } : { Err: res.Err ?? 'Unknown result shape' };
+    }
+
+    async putChunk(id: string, index: number, data: Uint8Array): Promise<Result<null, string>> {
+        const res = this.normalizeResult<null>(await this.ensureStorage().putChunk(id, BigInt(index), data));
+        return res.Err === undefined ? { Ok: null } : { Err: res.Err };
+    }
+
+    async finishUpload(id: string): Promise<Result<null, string>> {
+        const res = this.normalizeResult<null>(await this.ensureStorage().finishUpload(id));
+        return res.Err === undefined ? { Ok: null } : { Err: res.Err };
+    }
+
+    async getFileInfo(id: string): Promise<Result<{ size: number; chunkCount: number }, string>> {
+        const res = this.normalizeResult<any>(await this.ensureStorage().getFileInfo(id));
+        if (res.Ok === undefined) return { Err: res.Err ?? 'Unknown result shape' };
+        return { Ok: { size: Number(res.Ok.size ?? 0), chunkCount: Number(res.Ok.chunkCount ?? 0) } };
+    }
+
+    async getChunk(id: string, index: number): Promise<Result<Uint8Array, string>> {
+        const res = this.normalizeResult<Uint8Array | number[]>(await this.ensureStorage().getChunk(id, BigInt(index)));
+        if (res.Ok === undefined) return { Err: res.Err ?? 'Unknown result shape' };
+        return { Ok: res.Ok instanceof Uint8Array ? res.Ok : Uint8Array.from(res.Ok) };
+    }
+
+    async deleteFile(id: string): Promise<Result<null, string>> {
+        const res = this.normalizeResult<null>(await this.ensureStorage().deleteFile(id));
+        return res.Err === undefined ? { Ok: null } : { Err: res.Err };
+    }
+
     // ONLINE METHODS
     async registerOnline(): Promise<void> {
         const actor = this.ensureActor();
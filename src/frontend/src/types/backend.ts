@@ -19,6 +19,12 @@ export interface Room {
     host: Principal;
     participants: Principal[];
     createdAt: bigint;
+    mapId: string | null; // CUSTOM_MAP_ID: the map itself comes from getRoomMap
+}
+
+export interface CreateRoomOptions {
+    mapId?: string;
+    customMap?: string;
 }
 
 export interface SafeRoom {
@@ -26,6 +32,7 @@ export interface SafeRoom {
     host?: any; // Allow any type initially
     participants?: any[]; // Allow any type initially
     createdAt?: bigint | string | number;
+    mapId?: any;
 }
 
 export interface Signal {
@@ -35,4 +42,26 @@ export interface Signal {
     data: string;
 }
 
+export interface ChatRecord {
+    id: string;
+    from: Principal;
+    text: string;
+    ts: number; // ms since epoch
+    seq: number;
+}
+
+export interface ChatPage {
+    messages: ChatRecord[]; // oldest first
+    next: number | null; // cursor for the page before this one
+    enabled: boolean;
+}
+
+// Encrypted chat keys; the canister only ever holds wrapped keys
+export interface RoomKeyState {
+    epoch: number; // 0: no key yet
+    rotate: boolean; // someone left since the current key was made
+    mine: Array<[number, string]>; // (epoch, key wrapped for us)
+    missing: Principal[]; // participants without the current key
+}
+
 export type Result<T, E> = { Ok: T } | { Err: E };
\ No newline at end of file